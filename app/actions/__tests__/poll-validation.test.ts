@@ -0,0 +1,585 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  validatePollData,
+  validateOptionIds,
+  validateScores,
+  validateAllocation,
+  validateAvailability,
+  validateTextResponse,
+  validateSurveyData,
+  validateSurveyAnswer,
+  validateBranchRules
+} from '../poll-validation';
+
+describe('Poll Validation', () => {
+  const baseData = {
+    question: 'Which features should we build next?',
+    options: [
+      { text: 'Dark mode' },
+      { text: 'Exports' },
+      { text: 'Notifications' },
+    ],
+  };
+
+  describe('validatePollData selection limits', () => {
+    it('should accept a single-choice poll without limits', () => {
+      const result = validatePollData(baseData);
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should accept a multi-select poll within the option count', () => {
+      const result = validatePollData({
+        ...baseData,
+        pollType: 'multiple',
+        minSelections: 1,
+        maxSelections: 2,
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should accept a multi-select poll with no maximum', () => {
+      const result = validatePollData({
+        ...baseData,
+        pollType: 'multiple',
+        minSelections: 2,
+        maxSelections: null,
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject a maximum below the minimum', () => {
+      const result = validatePollData({
+        ...baseData,
+        pollType: 'multiple',
+        minSelections: 3,
+        maxSelections: 2,
+      });
+
+      expect(result.errors.map(error => error.code)).toContain('MAX_SELECTIONS_BELOW_MIN');
+    });
+
+    it('should reject limits larger than the number of options', () => {
+      const result = validatePollData({
+        ...baseData,
+        pollType: 'multiple',
+        minSelections: 4,
+      });
+
+      expect(result.errors.map(error => error.code)).toContain('MIN_SELECTIONS_TOO_MANY');
+    });
+
+    it('should reject an unknown poll type', () => {
+      const result = validatePollData({
+        ...baseData,
+        pollType: 'weighted' as never,
+      });
+
+      expect(result.errors.map(error => error.code)).toContain('POLL_TYPE_INVALID');
+    });
+  });
+
+  describe('validateOptionIds', () => {
+    const multiLimits = { pollType: 'multiple' as const, minSelections: 2, maxSelections: 3 };
+
+    it('should accept a ballot within the limits', () => {
+      expect(validateOptionIds(['a', 'b'], multiLimits)).toEqual([]);
+    });
+
+    it('should reject too few selections', () => {
+      const errors = validateOptionIds(['a'], multiLimits);
+
+      expect(errors[0].code).toBe('OPTION_IDS_TOO_FEW');
+      expect(errors[0].message).toBe('Select at least 2 options');
+    });
+
+    it('should reject too many selections', () => {
+      const errors = validateOptionIds(['a', 'b', 'c', 'd'], multiLimits);
+
+      expect(errors[0].code).toBe('OPTION_IDS_TOO_MANY');
+    });
+
+    it('should reject duplicate selections', () => {
+      const errors = validateOptionIds(['a', 'a'], multiLimits);
+
+      expect(errors.map(error => error.code)).toContain('OPTION_IDS_DUPLICATE');
+    });
+
+    it('should require exactly one option on single-choice polls', () => {
+      const errors = validateOptionIds(['a', 'b'], {
+        pollType: 'single',
+        minSelections: 1,
+        maxSelections: 1,
+      });
+
+      expect(errors[0].code).toBe('OPTION_IDS_SINGLE_ONLY');
+    });
+
+    it('should require at least one option', () => {
+      expect(validateOptionIds([], multiLimits)[0].code).toBe('OPTION_IDS_REQUIRED');
+    });
+
+    it('should send score polls to validateScores', () => {
+      const errors = validateOptionIds(['a'], { pollType: 'score', minSelections: 1, maxSelections: null });
+
+      expect(errors[0].code).toBe('OPTION_IDS_SCORES_REQUIRED');
+    });
+  });
+
+  describe('validateScores', () => {
+    const optionIds = ['a', 'b'];
+
+    it('should accept a rating for every option', () => {
+      expect(validateScores({ a: 0, b: 5 }, optionIds)).toEqual([]);
+    });
+
+    it('should reject ratings outside 0-5', () => {
+      const errors = validateScores({ a: 6, b: 2.5 }, optionIds);
+
+      expect(errors.map(error => error.code)).toEqual(['SCORE_INVALID', 'SCORE_INVALID']);
+    });
+
+    it('should require every option to be rated', () => {
+      expect(validateScores({ a: 3 }, optionIds)[0].code).toBe('SCORES_INCOMPLETE');
+    });
+
+    it('should reject options that are not on the poll', () => {
+      expect(validateScores({ a: 3, c: 1 }, optionIds)[0].code).toBe('SCORES_UNKNOWN_OPTION');
+    });
+  });
+
+  describe('budget polls', () => {
+    const optionIds = ['a', 'b', 'c'];
+
+    it('should require a points budget on budget polls only', () => {
+      expect(validatePollData({ ...baseData, pollType: 'budget', pointsBudget: 10 }).isValid).toBe(true);
+      expect(validatePollData({ ...baseData, pollType: 'budget' }).errors[0].code).toBe('POINTS_BUDGET_INVALID');
+      expect(validatePollData({ ...baseData, pointsBudget: 10 }).errors[0].code).toBe('POINTS_BUDGET_NOT_ALLOWED');
+    });
+
+    it('should accept points that add up to no more than the budget', () => {
+      expect(validateAllocation({ a: 7, c: 3 }, optionIds, 10)).toEqual([]);
+      expect(validateAllocation({ b: 1 }, optionIds, 10)).toEqual([]);
+    });
+
+    it('should reject ballots over the budget', () => {
+      expect(validateAllocation({ a: 8, b: 3 }, optionIds, 10)[0].code).toBe('POINTS_OVER_BUDGET');
+    });
+
+    it('should reject negative, fractional and empty allocations', () => {
+      expect(validateAllocation({ a: -2, b: 5 }, optionIds, 10)[0].code).toBe('POINTS_INVALID');
+      expect(validateAllocation({ a: 1.5 }, optionIds, 10)[0].code).toBe('POINTS_INVALID');
+      expect(validateAllocation({}, optionIds, 10)[0].code).toBe('POINTS_REQUIRED');
+    });
+
+    it('should reject options that are not on the poll', () => {
+      expect(validateAllocation({ d: 2 }, optionIds, 10)[0].code).toBe('POINTS_UNKNOWN_OPTION');
+    });
+
+    it('should not take budget ballots as a list of options', () => {
+      const errors = validateOptionIds(['a'], { pollType: 'budget', minSelections: 1, maxSelections: null });
+
+      expect(errors[0].code).toBe('OPTION_IDS_POINTS_REQUIRED');
+    });
+  });
+
+  describe('text response polls', () => {
+    it('should accept a text poll without options', () => {
+      const result = validatePollData({ question: baseData.question, options: [], pollType: 'text' });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject options on a text poll', () => {
+      const result = validatePollData({ ...baseData, pollType: 'text' });
+
+      expect(result.errors[0].code).toBe('OPTIONS_NOT_ALLOWED');
+    });
+
+    it('should accept a response within the length limit', () => {
+      expect(validateTextResponse('Better docs, please')).toEqual([]);
+    });
+
+    it('should require a non-blank response', () => {
+      expect(validateTextResponse('   ')[0].code).toBe('RESPONSE_REQUIRED');
+    });
+
+    it('should not accept option selections', () => {
+      const errors = validateOptionIds(['a'], { pollType: 'text', minSelections: 1, maxSelections: null });
+
+      expect(errors[0].code).toBe('OPTION_IDS_TEXT_RESPONSE_REQUIRED');
+    });
+
+    it('should reject responses over 500 characters', () => {
+      expect(validateTextResponse('a'.repeat(501))[0].code).toBe('RESPONSE_TOO_LONG');
+    });
+  });
+
+  describe('quiz polls', () => {
+    const quizOptions = [
+      { text: 'Dark mode', isCorrect: true },
+      { text: 'Exports', isCorrect: true },
+      { text: 'Notifications' },
+    ];
+
+    it('should accept a quiz with a correct option', () => {
+      const result = validatePollData({ ...baseData, options: quizOptions, isQuiz: true });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should require at least one correct option', () => {
+      const result = validatePollData({ ...baseData, isQuiz: true });
+
+      expect(result.errors[0].code).toBe('QUIZ_CORRECT_OPTION_REQUIRED');
+    });
+
+    it('should reject quiz mode on ranked polls', () => {
+      const result = validatePollData({ ...baseData, options: quizOptions, pollType: 'ranked', isQuiz: true });
+
+      expect(result.errors[0].code).toBe('QUIZ_POLL_TYPE_INVALID');
+    });
+
+    it('should reject more correct options than a multi-select voter may pick', () => {
+      const result = validatePollData({
+        ...baseData,
+        options: quizOptions,
+        pollType: 'multiple',
+        isQuiz: true,
+        minSelections: 1,
+        maxSelections: 1,
+      });
+
+      expect(result.errors[0].code).toBe('QUIZ_CORRECT_OPTIONS_OUT_OF_RANGE');
+    });
+
+    it('should reject explanations over 300 characters', () => {
+      const result = validatePollData({
+        ...baseData,
+        options: [{ text: 'Dark mode', isCorrect: true, explanation: 'a'.repeat(301) }, { text: 'Exports' }],
+        isQuiz: true,
+      });
+
+      expect(result.errors[0].code).toBe('QUIZ_EXPLANATION_TOO_LONG');
+    });
+  });
+
+  describe('option images', () => {
+    const imagePath = 'user-1_1700000000000_abc123.png';
+
+    it('should accept images on choice polls', () => {
+      const result = validatePollData({
+        ...baseData,
+        options: [{ text: 'Dark mode', imagePath }, { text: 'Exports' }],
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject images on poll types without an image ballot', () => {
+      const result = validatePollData({
+        ...baseData,
+        options: [{ text: 'Dark mode', imagePath }, { text: 'Exports' }],
+        pollType: 'ranked',
+      });
+
+      expect(result.errors[0].code).toBe('OPTION_IMAGES_NOT_ALLOWED');
+    });
+
+    it('should reject paths that are not generated image names', () => {
+      const result = validatePollData({
+        ...baseData,
+        options: [{ text: 'Dark mode', imagePath: '../secrets/key.png' }, { text: 'Exports', imagePath: 'notes.txt' }],
+      });
+
+      expect(result.errors.map(error => error.field)).toEqual(['options[0].imagePath', 'options[1].imagePath']);
+    });
+  });
+
+  describe('vote changes', () => {
+    it('should allow vote changes on ranked polls', () => {
+      const result = validatePollData({ ...baseData, pollType: 'ranked', allowVoteChanges: true });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject vote changes on score polls', () => {
+      const result = validatePollData({ ...baseData, pollType: 'score', allowVoteChanges: true });
+
+      expect(result.errors[0].code).toBe('VOTE_CHANGES_POLL_TYPE_INVALID');
+    });
+
+    it('should reject vote changes on quizzes', () => {
+      const result = validatePollData({
+        ...baseData,
+        options: [{ text: 'Dark mode', isCorrect: true }, { text: 'Exports' }],
+        isQuiz: true,
+        allowVoteChanges: true,
+      });
+
+      expect(result.errors[0].code).toBe('VOTE_CHANGES_QUIZ');
+    });
+  });
+
+  describe('anonymous voting', () => {
+    it('should allow anonymous votes on approval polls', () => {
+      const result = validatePollData({ ...baseData, pollType: 'approval', allowAnonymous: true });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject anonymous votes on text response polls', () => {
+      const result = validatePollData({ ...baseData, options: [], pollType: 'text', allowAnonymous: true });
+
+      expect(result.errors.map(error => error.code)).toContain('ANONYMOUS_POLL_TYPE_INVALID');
+    });
+  });
+
+  describe('secret ballots', () => {
+    it('should allow secret ballots on ranked polls', () => {
+      const result = validatePollData({ ...baseData, pollType: 'ranked', isSecret: true });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject secret ballots that voters can change', () => {
+      const result = validatePollData({ ...baseData, isSecret: true, allowVoteChanges: true });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].code).toBe('SECRET_BALLOT_VOTE_CHANGES');
+    });
+  });
+
+  describe('weighted voting', () => {
+    it('should allow weighted approval polls with voter weights', () => {
+      const result = validatePollData({
+        ...baseData,
+        pollType: 'approval',
+        isWeighted: true,
+        voterWeights: [{ email: 'ada@example.com', weight: 40 }]
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject weighted polls that take anonymous votes', () => {
+      const result = validatePollData({ ...baseData, isWeighted: true, allowAnonymous: true });
+
+      expect(result.errors.map(error => error.code)).toContain('WEIGHTED_CONFLICT');
+    });
+
+    it('should reject weights out of range', () => {
+      const result = validatePollData({
+        ...baseData,
+        isWeighted: true,
+        voterWeights: [{ email: 'ada@example.com', weight: 0 }]
+      });
+
+      expect(result.errors.map(error => error.code)).toContain('VOTER_WEIGHT_INVALID');
+    });
+  });
+
+  describe('delegation', () => {
+    it('should allow delegation on tagged single choice polls', () => {
+      const result = validatePollData({ ...baseData, allowDelegation: true, tags: ['budget', 'q3-planning'] });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject delegation on secret ballots', () => {
+      const result = validatePollData({ ...baseData, allowDelegation: true, isSecret: true });
+
+      expect(result.errors.map(error => error.code)).toContain('DELEGATION_CONFLICT');
+    });
+
+    it('should reject tags that are not in stored form', () => {
+      const result = validatePollData({ ...baseData, tags: ['Budget'] });
+
+      expect(result.errors.map(error => error.code)).toContain('TAG_INVALID');
+    });
+  });
+
+  describe('opening time', () => {
+    it('should reject polls that open after they expire', () => {
+      const result = validatePollData({
+        ...baseData,
+        opensAt: '2099-01-02T00:00:00Z',
+        expiresAt: '2099-01-01T00:00:00Z'
+      });
+
+      expect(result.errors.map(error => error.code)).toContain('OPENING_AFTER_EXPIRATION');
+    });
+  });
+
+  describe('results visibility', () => {
+    it('should reject unknown results visibility settings', () => {
+      const result = validatePollData({ ...baseData, resultsVisibility: 'weekly' as never });
+
+      expect(result.errors.map(error => error.code)).toContain('RESULTS_VISIBILITY_INVALID');
+    });
+  });
+
+  describe('scheduling polls', () => {
+    const scheduleData = {
+      question: 'When should we meet?',
+      pollType: 'schedule' as const,
+      timeZone: 'Europe/Berlin',
+      options: [
+        { text: 'Mon 10:00', startsAt: '2025-03-03T09:00:00Z', endsAt: '2025-03-03T10:00:00Z' },
+        { text: 'Tue 10:00', startsAt: '2025-03-04T09:00:00Z' },
+      ],
+    };
+
+    it('should accept time slots with a time zone', () => {
+      expect(validatePollData(scheduleData).isValid).toBe(true);
+    });
+
+    it('should require a valid time zone', () => {
+      const result = validatePollData({ ...scheduleData, timeZone: 'Nowhere/Special' });
+
+      expect(result.errors[0].code).toBe('TIME_ZONE_INVALID');
+    });
+
+    it('should require every slot to start, and to end after it starts', () => {
+      const result = validatePollData({
+        ...scheduleData,
+        options: [
+          { text: 'Mon 10:00' },
+          { text: 'Tue 10:00', startsAt: '2025-03-04T09:00:00Z', endsAt: '2025-03-04T08:00:00Z' },
+        ],
+      });
+
+      expect(result.errors.map(error => error.field)).toEqual(['options[0].startsAt', 'options[1].endsAt']);
+    });
+
+    it('should reject slots starting at the same time', () => {
+      const result = validatePollData({
+        ...scheduleData,
+        options: [scheduleData.options[0], { text: 'Mon again', startsAt: '2025-03-03T09:00:00Z' }],
+      });
+
+      expect(result.errors[0].code).toBe('TIME_SLOTS_DUPLICATE');
+    });
+
+    it('should reject time slots on other poll types', () => {
+      const result = validatePollData({ ...scheduleData, pollType: 'single' });
+
+      expect(result.errors[0].code).toBe('TIME_SLOTS_NOT_ALLOWED');
+    });
+
+    it('should not allow scheduling questions in surveys', () => {
+      const result = validateSurveyData({ title: 'Offsite', questions: [scheduleData] });
+
+      expect(result.errors[0].code).toBe('SURVEY_POLL_TYPE_UNSUPPORTED');
+    });
+  });
+
+  describe('validateAvailability', () => {
+    const optionIds = ['a', 'b'];
+
+    it('should accept an answer for every slot', () => {
+      expect(validateAvailability({ a: 'yes', b: 'maybe' }, optionIds)).toEqual([]);
+    });
+
+    it('should require every slot to be answered', () => {
+      expect(validateAvailability({ a: 'no' }, optionIds)[0].code).toBe('AVAILABILITY_INCOMPLETE');
+    });
+
+    it('should reject answers other than yes, if need be or no', () => {
+      const errors = validateAvailability({ a: 'yes', b: 'perhaps' as 'maybe' }, optionIds);
+
+      expect(errors[0].code).toBe('AVAILABILITY_INVALID');
+    });
+  });
+
+  describe('validateSurveyData', () => {
+    const surveyData = {
+      title: 'Product feedback',
+      questions: [
+        { ...baseData, pollType: 'single' as const },
+        { question: 'Anything else?', options: [], pollType: 'text' as const },
+      ],
+    };
+
+    it('should accept a survey with valid questions', () => {
+      expect(validateSurveyData(surveyData).isValid).toBe(true);
+    });
+
+    it('should require a title and at least one question', () => {
+      const result = validateSurveyData({ title: ' ', questions: [] });
+
+      expect(result.errors.map(error => error.code)).toEqual([
+        'SURVEY_TITLE_REQUIRED',
+        'SURVEY_QUESTIONS_TOO_FEW',
+      ]);
+    });
+
+    it('should validate each question with validatePollData and say which one failed', () => {
+      const result = validateSurveyData({
+        ...surveyData,
+        questions: [surveyData.questions[0], { question: 'Pick one', options: [{ text: 'Only' }] }],
+      });
+
+      expect(result.errors).toEqual([{
+        field: 'questions[1].options',
+        message: 'Question 2: At least 2 options are required',
+        code: 'OPTIONS_TOO_FEW',
+      }]);
+    });
+  });
+
+  describe('validateSurveyAnswer', () => {
+    const question = { minSelections: 1, maxSelections: null, optionIds: ['a', 'b'] };
+
+    it('should check each answer by its question type', () => {
+      expect(validateSurveyAnswer({ ...question, pollType: 'approval' }, { optionIds: ['a'] })).toEqual([]);
+      expect(validateSurveyAnswer({ ...question, pollType: 'score' }, { scores: { a: 1, b: 4 } })).toEqual([]);
+      expect(validateSurveyAnswer({ ...question, pollType: 'text' }, { response: 'Great' })).toEqual([]);
+    });
+
+    it('should reject a missing answer', () => {
+      expect(validateSurveyAnswer({ ...question, pollType: 'single', maxSelections: 1 }, undefined)[0].code)
+        .toBe('OPTION_IDS_REQUIRED');
+      expect(validateSurveyAnswer({ ...question, pollType: 'text' }, undefined)[0].code)
+        .toBe('RESPONSE_REQUIRED');
+    });
+  });
+
+  describe('validateBranchRules', () => {
+    const questions = [
+      { id: 'q1', pollType: 'single' as const, optionIds: ['yes', 'no'] },
+      { id: 'q2', pollType: 'text' as const, optionIds: [] },
+      { id: 'q3', pollType: 'single' as const, optionIds: ['a', 'b'] },
+    ];
+
+    it('should accept forward jumps and rules that end the survey', () => {
+      expect(validateBranchRules(questions, [
+        { questionId: 'q1', optionId: 'no', targetQuestionId: 'q3' },
+        { questionId: 'q3', optionId: 'b', targetQuestionId: null },
+      ])).toEqual([]);
+    });
+
+    it('should reject rules that point to missing questions or options', () => {
+      expect(validateBranchRules(questions, [{ questionId: 'q9', optionId: 'no', targetQuestionId: 'q3' }])[0].code)
+        .toBe('BRANCH_QUESTION_MISSING');
+      expect(validateBranchRules(questions, [{ questionId: 'q1', optionId: 'maybe', targetQuestionId: 'q3' }])[0].code)
+        .toBe('BRANCH_OPTION_MISSING');
+      expect(validateBranchRules(questions, [{ questionId: 'q1', optionId: 'no', targetQuestionId: 'q9' }])[0])
+        .toMatchObject({ field: 'questions[0].branches', code: 'BRANCH_TARGET_MISSING' });
+    });
+
+    it('should reject rules on questions without options to choose', () => {
+      expect(validateBranchRules(questions, [{ questionId: 'q2', optionId: 'no', targetQuestionId: 'q3' }])[0].code)
+        .toBe('BRANCH_UNSUPPORTED_POLL_TYPE');
+    });
+
+    it('should reject rules that form a cycle', () => {
+      const errors = validateBranchRules(questions, [{ questionId: 'q3', optionId: 'a', targetQuestionId: 'q1' }]);
+
+      expect(errors[0]).toMatchObject({ field: 'questions[2].branches', code: 'BRANCH_CYCLE' });
+      expect(errors[0].message).toContain('Question 1 → Question 2 → Question 3 → Question 1');
+    });
+  });
+});
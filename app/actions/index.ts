@@ -1,5 +1,6 @@
 // Main poll actions (public API)
 export * from './poll-actions';
+export * from './survey-actions';
 
 // Individual module exports for advanced usage
 export * from './poll-types';
@@ -7,6 +8,7 @@ export * from './poll-client';
 export * from './poll-auth';
 export * from './poll-validation';
 export * from './poll-operations';
+export * from './survey-operations';
 export * from './poll-errors';
 
 // Convenience re-exports
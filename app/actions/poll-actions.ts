@@ -2,7 +2,15 @@
 
 import { revalidatePath } from 'next/cache';
 import { redirect } from 'next/navigation';
-import type { PollData } from './poll-types';
+import { cookies, headers } from 'next/headers';
+import {
+  VOTER_TOKEN_COOKIE,
+  VOTER_TOKEN_COOKIE_OPTIONS,
+  createVoterToken,
+  getClientAddress,
+  verifyVoterToken
+} from '@/lib/voter-token';
+import type { Availability, PollData, TextResponseQuery, VoterWeightEntry } from './poll-types';
 
 
 // Import functionality from modular components
@@ -10,7 +18,32 @@ import {
   createPollOperation,
   updatePollOperation,
   deletePollOperation,
+  closePollOperation,
+  reopenPollOperation,
+  invitePollVotersOperation,
+  revokePollInviteOperation,
+  getPollInvitesOperation,
+  setPollPasscodeOperation,
+  unlockPollOperation,
+  issueBallotCodesOperation,
+  getBallotCodesOperation,
+  revokeBallotCodesOperation,
+  setVoterWeightsOperation,
+  getVoterWeightsOperation,
+  delegateVoteOperation,
+  revokeDelegationOperation,
+  getDelegationOperation,
   votePollOperation,
+  changeVoteOperation,
+  retractVoteOperation,
+  scorePollOperation,
+  allocatePointsOperation,
+  submitAvailabilityOperation,
+  submitTextResponseOperation,
+  getTextResponsesOperation,
+  getTextResponseSummaryOperation,
+  getQuizFeedbackOperation,
+  getQuizReportOperation,
   getPollOperation,
   getUserPollsOperation,
   checkVoteStatusOperation
@@ -61,12 +94,202 @@ export async function deletePoll(pollId: string) {
   return result;
 }
 
+/**
+ * Close a poll before its expiry
+ * @param pollId - The ID of the poll to close
+ */
+export async function closePoll(pollId: string) {
+  const result = await closePollOperation(pollId);
+  
+  if (result.success) {
+    revalidatePath(`/polls/${pollId}`);
+    revalidatePath('/dashboard');
+  }
+  
+  return result;
+}
+
+/**
+ * Reopen a poll that was closed before its expiry
+ * @param pollId - The ID of the poll to reopen
+ */
+export async function reopenPoll(pollId: string) {
+  const result = await reopenPollOperation(pollId);
+  
+  if (result.success) {
+    revalidatePath(`/polls/${pollId}`);
+    revalidatePath('/dashboard');
+  }
+  
+  return result;
+}
+
+/**
+ * Invite voters to an invite-only poll
+ * @param pollId - The ID of the poll
+ * @param invitees - Email addresses or user IDs
+ */
+export async function invitePollVoters(pollId: string, invitees: string[]) {
+  const result = await invitePollVotersOperation(pollId, invitees);
+  
+  if (result.success) {
+    revalidatePath(`/polls/${pollId}`);
+  }
+  
+  return result;
+}
+
+/**
+ * Revoke an invite to an invite-only poll
+ * @param pollId - The ID of the poll
+ * @param inviteId - The ID of the invite to revoke
+ */
+export async function revokePollInvite(pollId: string, inviteId: string) {
+  const result = await revokePollInviteOperation(pollId, inviteId);
+  
+  if (result.success) {
+    revalidatePath(`/polls/${pollId}`);
+  }
+  
+  return result;
+}
+
+/**
+ * Get the invites to an invite-only poll and its turnout (creator only)
+ * @param pollId - The ID of the poll
+ */
+export async function getPollInvites(pollId: string) {
+  return getPollInvitesOperation(pollId);
+}
+
+/**
+ * Set, change or remove the passcode of a poll (creator only)
+ * @param pollId - The ID of the poll
+ * @param passcode - The new passcode, or null to remove it
+ */
+export async function setPollPasscode(pollId: string, passcode: string | null) {
+  const result = await setPollPasscodeOperation(pollId, passcode);
+  
+  if (result.success) {
+    revalidatePath(`/polls/${pollId}`);
+  }
+  
+  return result;
+}
+
+/**
+ * Enter the passcode of a passcode-protected poll
+ * Visitors without an account get a voter token, so their ballot counts as unlocked too.
+ * @param pollId - The ID of the poll
+ * @param passcode - The passcode as entered, or null to check for an earlier unlock
+ */
+export async function unlockPoll(pollId: string, passcode: string | null) {
+  const cookieStore = await cookies();
+  let voterToken = verifyVoterToken(cookieStore.get(VOTER_TOKEN_COOKIE)?.value);
+  
+  if (!voterToken) {
+    const created = createVoterToken();
+    voterToken = created.token;
+    cookieStore.set(VOTER_TOKEN_COOKIE, created.cookieValue, VOTER_TOKEN_COOKIE_OPTIONS);
+  }
+  
+  return unlockPollOperation(pollId, passcode, voterToken, getClientAddress(await headers()));
+}
+
+/**
+ * Issue a batch of single-use ballot codes for a poll (creator only)
+ * @param pollId - The ID of the poll
+ * @param count - How many codes to issue
+ */
+export async function issueBallotCodes(pollId: string, count: number) {
+  return issueBallotCodesOperation(pollId, count);
+}
+
+/**
+ * Get the ballot codes of a poll and how many have been used (creator only)
+ * @param pollId - The ID of the poll
+ */
+export async function getBallotCodes(pollId: string) {
+  return getBallotCodesOperation(pollId);
+}
+
+/**
+ * Revoke unused ballot codes of a poll (creator only)
+ * @param pollId - The ID of the poll
+ * @param codeIds - The IDs of the codes to revoke
+ */
+export async function revokeBallotCodes(pollId: string, codeIds: string[]) {
+  return revokeBallotCodesOperation(pollId, codeIds);
+}
+
+/**
+ * Replace the voter weights of a weighted poll (creator only, until the poll opens)
+ * @param pollId - The ID of the poll
+ * @param weights - Each eligible voter's email address or user ID with their weight
+ */
+export async function setVoterWeights(pollId: string, weights: VoterWeightEntry[]) {
+  const result = await setVoterWeightsOperation(pollId, weights);
+  
+  if (result.success) {
+    revalidatePath(`/polls/${pollId}`);
+  }
+  
+  return result;
+}
+
+/**
+ * Get the voter weights of a weighted poll and whether they are fixed yet (creator only)
+ * @param pollId - The ID of the poll
+ */
+export async function getVoterWeights(pollId: string) {
+  return getVoterWeightsOperation(pollId);
+}
+
+/**
+ * Delegate the current user's vote to another user, for this poll or for every poll with one of its tags
+ * @param pollId - The ID of the poll the delegation is made from
+ * @param delegate - The delegate's email address or user ID
+ * @param tag - One of the poll's tags, or null for this poll only
+ */
+export async function delegateVote(pollId: string, delegate: string, tag: string | null = null) {
+  const result = await delegateVoteOperation(pollId, delegate, tag);
+  
+  if (result.success) {
+    revalidatePath(`/polls/${pollId}`);
+  }
+  
+  return result;
+}
+
+/**
+ * Take back one of the current user's delegations
+ * @param pollId - The ID of the poll the delegation was taken back from
+ * @param delegationId - The ID of the delegation
+ */
+export async function revokeDelegation(pollId: string, delegationId: string) {
+  const result = await revokeDelegationOperation(delegationId);
+  
+  if (result.success) {
+    revalidatePath(`/polls/${pollId}`);
+  }
+  
+  return result;
+}
+
+/**
+ * Get the current user's delegation that applies to a poll
+ * @param pollId - The ID of the poll
+ */
+export async function getDelegation(pollId: string) {
+  return getDelegationOperation(pollId);
+}
+
 /**
  * Vote on a poll
  * @param pollId - The ID of the poll to vote on
- * @param optionId - The ID of the option to vote for
+ * @param optionId - The ID of the option to vote for, or an array of IDs for multi-select polls
  */
-export async function votePoll(pollId: string, optionId: string) {
+export async function votePoll(pollId: string, optionId: string | string[]) {
   const result = await votePollOperation(pollId, optionId);
   
   if (result.success) {
@@ -76,12 +299,137 @@ export async function votePoll(pollId: string, optionId: string) {
   return result;
 }
 
+/**
+ * Change the current user's vote on a poll that allows vote changes
+ * @param pollId - The ID of the poll
+ * @param optionIds - The new selection, in preference order on ranked polls
+ */
+export async function changeVote(pollId: string, optionIds: string[]) {
+  const result = await changeVoteOperation(pollId, optionIds);
+  
+  if (result.success) {
+    revalidatePath(`/polls/${pollId}`);
+  }
+  
+  return result;
+}
+
+/**
+ * Withdraw the current user's vote on a poll that allows vote changes
+ * @param pollId - The ID of the poll
+ */
+export async function retractVote(pollId: string) {
+  const result = await retractVoteOperation(pollId);
+  
+  if (result.success) {
+    revalidatePath(`/polls/${pollId}`);
+  }
+  
+  return result;
+}
+
+/**
+ * Submit a score ballot
+ * @param pollId - The ID of the poll to vote on
+ * @param scores - Star rating (0-5) for every option, keyed by option ID
+ */
+export async function scorePoll(pollId: string, scores: Record<string, number>) {
+  const result = await scorePollOperation(pollId, scores);
+  
+  if (result.success) {
+    revalidatePath(`/polls/${pollId}`);
+  }
+  
+  return result;
+}
+
+/**
+ * Submit a budget ballot
+ * @param pollId - The ID of the poll to vote on
+ * @param points - Points per option ID, adding up to at most the poll's budget
+ */
+export async function allocatePoints(pollId: string, points: Record<string, number>) {
+  const result = await allocatePointsOperation(pollId, points);
+  
+  if (result.success) {
+    revalidatePath(`/polls/${pollId}`);
+  }
+  
+  return result;
+}
+
+/**
+ * Submit a scheduling ballot
+ * @param pollId - The ID of the poll to vote on
+ * @param availability - Answer (yes, maybe or no) for every time slot, keyed by option ID
+ */
+export async function submitAvailability(pollId: string, availability: Record<string, Availability>) {
+  const result = await submitAvailabilityOperation(pollId, availability);
+  
+  if (result.success) {
+    revalidatePath(`/polls/${pollId}`);
+  }
+  
+  return result;
+}
+
+/**
+ * Submit a written response to a text response poll
+ * @param pollId - The ID of the poll to respond to
+ * @param response - The response text
+ */
+export async function submitTextResponse(pollId: string, response: string) {
+  const result = await submitTextResponseOperation(pollId, response);
+  
+  if (result.success) {
+    revalidatePath(`/polls/${pollId}`);
+  }
+  
+  return result;
+}
+
+/**
+ * Get a page of responses to a text response poll (poll creator only)
+ * @param pollId - The ID of the poll
+ * @param query - Page, page size and search term
+ */
+export async function getTextResponses(pollId: string, query?: TextResponseQuery) {
+  return getTextResponsesOperation(pollId, query);
+}
+
+/**
+ * Get the word-frequency summary of a text response poll (poll creator only)
+ * @param pollId - The ID of the poll
+ */
+export async function getTextResponseSummary(pollId: string) {
+  return getTextResponseSummaryOperation(pollId);
+}
+
+/**
+ * Get the answer key of a quiz question once the current user has answered it
+ * @param pollId - The ID of the quiz question
+ */
+export async function getQuizFeedback(pollId: string) {
+  return getQuizFeedbackOperation(pollId);
+}
+
+/**
+ * Get the leaderboard and per-question difficulty of a quiz poll (poll creator only)
+ * @param pollId - The ID of the quiz poll
+ */
+export async function getQuizReport(pollId: string) {
+  return getQuizReportOperation(pollId);
+}
+
 /**
  * Get a specific poll by ID
  * @param pollId - The ID of the poll to retrieve
+ * @param passcode - The poll's passcode, for passcode-protected polls
  */
-export async function getPoll(pollId: string) {
-  return getPollOperation(pollId);
+export async function getPoll(pollId: string, passcode: string | null = null) {
+  // Visitors without an account who voted may see results shown after voting
+  const voterToken = verifyVoterToken((await cookies()).get(VOTER_TOKEN_COOKIE)?.value);
+  return getPollOperation(pollId, voterToken, passcode, getClientAddress(await headers()));
 }
 
 /**
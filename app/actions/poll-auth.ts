@@ -98,6 +98,32 @@ export async function verifyPollOwnership(pollId: string): Promise<boolean> {
   }
 }
 
+/**
+ * Verify survey ownership by the current user
+ * @param surveyId - The ID of the survey to check ownership for
+ * @returns Promise<boolean> - True if the current user owns the survey
+ */
+export async function verifySurveyOwnership(surveyId: string): Promise<boolean> {
+  try {
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+    
+    const { data, error } = await supabase
+      .from('surveys')
+      .select('user_id')
+      .eq('id', surveyId)
+      .single();
+    
+    if (error || !data) {
+      return false;
+    }
+    
+    return data.user_id === user.id;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Get user authentication status with detailed information
  * @returns Promise<AuthResult & { isAuthenticated: boolean }>
@@ -25,6 +25,26 @@ export enum ErrorCategory {
   UNKNOWN = 'unknown'
 }
 
+/**
+ * Codes sent with error responses the caller can act on
+ */
+export const POLL_ERROR_CODES = {
+  POLL_CLOSED: 'POLL_CLOSED', // The poll was closed early and no longer accepts votes
+  NOT_INVITED: 'NOT_INVITED', // The poll is invite-only and the voter holds no invite
+  PASSCODE_REQUIRED: 'PASSCODE_REQUIRED', // The poll asks for its passcode first
+  PASSCODE_INVALID: 'PASSCODE_INVALID', // The passcode entered is wrong
+  PASSCODE_THROTTLED: 'PASSCODE_THROTTLED', // Too many passcode attempts, by the voter or on the poll; try again later
+  BALLOT_CODE_INVALID: 'BALLOT_CODE_INVALID', // No such ballot code for the poll
+  BALLOT_CODE_SPENT: 'BALLOT_CODE_SPENT', // The ballot code has been used to vote already
+  BALLOT_CODE_REVOKED: 'BALLOT_CODE_REVOKED', // The poll's creator revoked the ballot code
+  NOT_ELIGIBLE: 'NOT_ELIGIBLE', // The poll is weighted and the voter has no weight on it
+  DELEGATION_SELF: 'DELEGATION_SELF', // The voter tried to delegate their vote to themselves
+  DELEGATION_CYCLE: 'DELEGATION_CYCLE', // The delegate's chain of delegations leads back to the voter
+  DELEGATION_CLOSED: 'DELEGATION_CLOSED' // The poll has closed, so its delegations are fixed
+} as const;
+
+export type PollErrorCode = typeof POLL_ERROR_CODES[keyof typeof POLL_ERROR_CODES];
+
 /**
  * Enhanced error information
  */
@@ -221,7 +241,8 @@ export function createSuccessResponse<T>(data?: T): ApiResponse<T> {
 export function createErrorResponse<T = any>(message: string, code?: string): ApiResponse<T> {
   return {
     success: false,
-    error: message
+    error: message,
+    ...(code && { code })
   };
 }
 
@@ -267,6 +288,84 @@ export function handleNotFoundError<T = any>(resource: string): ApiResponse<T> {
   return createErrorResponse<T>(`${resource} not found`);
 }
 
+/**
+ * Handle a vote on a poll that has been closed
+ * @returns ApiResponse - Error response with the POLL_CLOSED code
+ */
+export function handlePollClosedError<T = unknown>(): ApiResponse<T> {
+  return createErrorResponse<T>('This poll is closed and no longer accepts votes', POLL_ERROR_CODES.POLL_CLOSED);
+}
+
+/**
+ * Handle a vote on an invite-only poll from someone who wasn't invited
+ * @returns ApiResponse - Error response with the NOT_INVITED code
+ */
+export function handleNotInvitedError<T = unknown>(): ApiResponse<T> {
+  return createErrorResponse<T>('You are not invited to vote on this poll', POLL_ERROR_CODES.NOT_INVITED);
+}
+
+/**
+ * Handle a vote on a weighted poll from someone the creator gave no weight
+ * @returns ApiResponse - Error response with the NOT_ELIGIBLE code
+ */
+export function handleNotEligibleError<T = unknown>(): ApiResponse<T> {
+  return createErrorResponse<T>('You are not an eligible voter on this poll', POLL_ERROR_CODES.NOT_ELIGIBLE);
+}
+
+/**
+ * Messages for the passcode error codes
+ */
+const PASSCODE_ERROR_MESSAGES = {
+  [POLL_ERROR_CODES.PASSCODE_REQUIRED]: 'Enter the passcode to open this poll',
+  [POLL_ERROR_CODES.PASSCODE_INVALID]: 'That passcode is not right',
+  [POLL_ERROR_CODES.PASSCODE_THROTTLED]: 'Too many passcode attempts. Please wait a while and try again.'
+} as const;
+
+/**
+ * Handle a poll opened or voted on without its passcode
+ * @param code - Whether the passcode is missing, wrong or attempted too often
+ * @returns ApiResponse - Error response with the given code
+ */
+export function handlePasscodeError<T = unknown>(code: keyof typeof PASSCODE_ERROR_MESSAGES): ApiResponse<T> {
+  return createErrorResponse<T>(PASSCODE_ERROR_MESSAGES[code], code);
+}
+
+/**
+ * Messages for the ballot code error codes
+ */
+const BALLOT_CODE_ERROR_MESSAGES = {
+  [POLL_ERROR_CODES.BALLOT_CODE_INVALID]: 'This ballot code is not valid for this poll',
+  [POLL_ERROR_CODES.BALLOT_CODE_SPENT]: 'This ballot code has already been used',
+  [POLL_ERROR_CODES.BALLOT_CODE_REVOKED]: 'This ballot code has been revoked'
+} as const;
+
+/**
+ * Handle a vote with a ballot code that can't be used
+ * @param code - Whether the ballot code is unknown, spent or revoked
+ * @returns ApiResponse - Error response with the given code
+ */
+export function handleBallotCodeError<T = unknown>(code: keyof typeof BALLOT_CODE_ERROR_MESSAGES): ApiResponse<T> {
+  return createErrorResponse<T>(BALLOT_CODE_ERROR_MESSAGES[code], code);
+}
+
+/**
+ * Messages for the delegation error codes
+ */
+const DELEGATION_ERROR_MESSAGES = {
+  [POLL_ERROR_CODES.DELEGATION_SELF]: 'You cannot delegate your vote to yourself',
+  [POLL_ERROR_CODES.DELEGATION_CYCLE]: 'This delegation would create a cycle: your delegate already passes their vote back to you',
+  [POLL_ERROR_CODES.DELEGATION_CLOSED]: 'This poll has closed, so its delegations can no longer change'
+} as const;
+
+/**
+ * Handle a delegation the database refused
+ * @param code - Whether the delegation was to the voter, would loop or came after the poll closed
+ * @returns ApiResponse - Error response with the given code
+ */
+export function handleDelegationError<T = unknown>(code: keyof typeof DELEGATION_ERROR_MESSAGES): ApiResponse<T> {
+  return createErrorResponse<T>(DELEGATION_ERROR_MESSAGES[code], code);
+}
+
 /**
  * Wrap an async operation with error handling
  * @param operation - The async operation to execute
@@ -1,23 +1,112 @@
 import { getSupabaseClient } from './poll-client';
+import { createServiceClient } from '@/lib/supabase/service';
 import { getCurrentUser, verifyPollOwnership } from './poll-auth';
-import { validatePollDataSimple, validatePollId, validateOptionId } from './poll-validation';
+import { getOptionImageUrl, removeOptionImages } from '@/lib/option-images';
+import { canChangeVote, type VoteChangeSettings } from '@/lib/vote-changes';
+import { canViewResults, isPollClosed } from '@/lib/results-visibility';
+import { getPollStatus } from '@/lib/poll-schedule';
+import { parseInvitees, summarizeTurnout } from '@/lib/poll-invites';
+import {
+  hashPasscode,
+  isPasscodeAttemptRateLimited,
+  isPasscodeGuessingLocked,
+  recordPasscodeFailure,
+  verifyPasscode
+} from '@/lib/passcode-hash';
+import {
+  BALLOT_CODE_POLL_TYPES,
+  generateBallotCodes,
+  normalizeBallotCode,
+  summarizeBallotCodes,
+  type BallotCodeSummary
+} from '@/lib/ballot-codes';
+import { areWeightsLocked, totalWeight, type VoterWeightEntry } from '@/lib/voter-weights';
+import { pickDelegation } from '@/lib/delegation';
+import { withoutUnusedOptions } from '@/lib/points-budget';
+import { 
+  validatePollDataSimple, 
+  validatePollId, 
+  validateOptionId, 
+  validateOptionIds, 
+  validateScores,
+  validateAllocation,
+  validateAvailability,
+  validateTextResponse,
+  validateInvitees,
+  validatePasscode,
+  validateBallotCodeCount,
+  validateBallotCode,
+  validateVoterWeights,
+  validateDelegate
+} from './poll-validation';
 import { 
   handleError, 
   createSuccessResponse, 
   handlePermissionError, 
   handleNotFoundError,
-  handleValidationError
+  handleValidationError,
+  handlePollClosedError,
+  handleNotInvitedError,
+  handleNotEligibleError,
+  handlePasscodeError,
+  handleBallotCodeError,
+  handleDelegationError
 } from './poll-errors';
+import { 
+  runInstantRunoff, 
+  runSchulze, 
+  summarizeScores, 
+  summarizeAvailability,
+  countWordFrequencies,
+  isQuizAnswerCorrect,
+  summarizeQuiz,
+  type QuizBallot,
+  type AvailabilityCount,
+  type QuizReport,
+  type ScoreCount 
+} from '@/lib/tabulation';
+import { InputSanitizer } from '@/lib/security';
 import type { 
   PollData, 
+  PollOption,
+  PollType, 
   Poll, 
   UserPoll, 
   ApiResponse, 
   VoteStatus, 
   DatabasePoll,
-  PollCreationResult 
+  PollCreationResult,
+  TextResponsePage,
+  TextResponseQuery,
+  TextResponseSummary,
+  QuizFeedback,
+  Availability,
+  PollInvite,
+  Turnout,
+  BallotCode,
+  VoterWeight,
+  Delegation,
+  PollDelegation
 } from './poll-types';
 
+/**
+ * Paging limits for the text response browser
+ */
+const TEXT_RESPONSE_PAGE_SIZE = {
+  default: 20,
+  max: 100,
+};
+
+/**
+ * Row returned by get_quiz_feedback, one per option of the question
+ */
+interface QuizFeedbackRow {
+  option_id: string;
+  is_correct: boolean;
+  explanation: string | null;
+  selected: boolean;
+}
+
 /**
  * Create a new poll
  * @param data - The poll data to create
@@ -33,7 +122,8 @@ export async function createPollOperation(data: PollData): Promise<ApiResponse<P
     
     const user = await getCurrentUser();
     const supabase = getSupabaseClient();
-    const { question, options, expiresAt } = data;
+    const { question, options, expiresAt, opensAt } = data;
+    const pollType = data.pollType ?? 'single';
     
     // 1. Create the poll
     const { data: poll, error: pollError } = await supabase
@@ -41,25 +131,86 @@ export async function createPollOperation(data: PollData): Promise<ApiResponse<P
       .insert({
         question,
         user_id: user.id,
-        expires_at: expiresAt || null
+        expires_at: expiresAt || null,
+        opens_at: opensAt || null,
+        poll_type: pollType,
+        is_quiz: !!data.isQuiz,
+        time_zone: pollType === 'schedule' ? data.timeZone : null,
+        points_budget: pollType === 'budget' ? data.pointsBudget : null,
+        allow_vote_changes: !!data.allowVoteChanges,
+        allow_anonymous: !!data.allowAnonymous,
+        is_secret: !!data.isSecret,
+        results_visibility: data.resultsVisibility ?? 'always',
+        close_after_votes: data.closeAfterVotes ?? null,
+        eligible_voters: data.eligibleVoters ?? null,
+        quorum_percent: data.quorumPercent ?? null,
+        close_lead_margin: data.closeLeadMargin ?? null,
+        is_invite_only: !!data.isInviteOnly,
+        is_weighted: !!data.isWeighted,
+        allow_delegation: !!data.allowDelegation,
+        tags: data.tags ?? [],
+        ...getSelectionLimits(pollType, data)
       })
       .select()
       .single();
     
     if (pollError) throw pollError;
     
-    // 2. Create the options
-    const optionsToInsert = options.map(option => ({
-      poll_id: poll.id,
-      option_text: option.text,
-      votes: 0
-    }));
+    // 2. Create the options (text response polls have none)
+    if (options.length > 0) {
+      const optionsToInsert = options.map(option => ({
+        poll_id: poll.id,
+        option_text: option.text,
+        votes: 0,
+        image_path: option.imagePath ?? null,
+        ...getTimeSlotColumns(pollType, option)
+      }));
+      
+      const { data: createdOptions, error: optionsError } = await supabase
+        .from('poll_options')
+        .insert(optionsToInsert)
+        .select('id');
+      
+      if (optionsError) throw optionsError;
+      
+      // 3. Store the answer key of a quiz; without it the poll can't be scored,
+      // so it is removed again
+      if (data.isQuiz) {
+        try {
+          await saveQuizKey(poll.id, options, (createdOptions ?? []).map(option => option.id));
+        } catch (error) {
+          await supabase.from('polls').delete().eq('id', poll.id);
+          throw error;
+        }
+      }
+    }
     
-    const { error: optionsError } = await supabase
-      .from('poll_options')
-      .insert(optionsToInsert);
+    // 4. Invite the voters of an invite-only poll
+    if (data.isInviteOnly && data.invitees && data.invitees.length > 0) {
+      await addPollInvites(poll.id, data.invitees);
+    }
     
-    if (optionsError) throw optionsError;
+    // 5. Store the hash of the passcode; without it the poll would be open to
+    // everyone, so it is removed again
+    if (data.passcode) {
+      try {
+        await savePollPasscode(poll.id, data.passcode);
+      } catch (error) {
+        await supabase.from('polls').delete().eq('id', poll.id);
+        throw error;
+      }
+    }
+    
+    // 6. Assign the voter weights of a weighted poll; without them nobody
+    // could vote, so the poll is removed again
+    if (data.isWeighted && data.voterWeights && data.voterWeights.length > 0) {
+      try {
+        await saveVoterWeights(poll.id, data.voterWeights);
+      } catch (error) {
+        await supabase.from('polls').delete().eq('id', poll.id);
+        throw error;
+      }
+    }
     
     return createSuccessResponse({ pollId: poll.id });
   } catch (error) {
@@ -97,10 +248,41 @@ export async function updatePollOperation(pollId: string, data: PollData): Promi
       return handlePermissionError('poll', 'update');
     }
     
-    // 1. Update the poll question
+    // 1. Update the poll question (and selection limits for multi-select polls)
+    const pollUpdate: Record<string, unknown> = { question };
+    if (data.pollType === 'multiple') {
+      pollUpdate.min_selections = data.minSelections ?? 1;
+      pollUpdate.max_selections = data.maxSelections ?? null;
+    }
+    if (data.allowVoteChanges !== undefined) {
+      pollUpdate.allow_vote_changes = data.allowVoteChanges;
+    }
+    if (data.allowAnonymous !== undefined) {
+      pollUpdate.allow_anonymous = data.allowAnonymous;
+    }
+    if (data.resultsVisibility !== undefined) {
+      pollUpdate.results_visibility = data.resultsVisibility;
+    }
+    if (data.closeAfterVotes !== undefined) {
+      pollUpdate.close_after_votes = data.closeAfterVotes;
+    }
+    if (data.quorumPercent !== undefined) {
+      pollUpdate.eligible_voters = data.eligibleVoters ?? null;
+      pollUpdate.quorum_percent = data.quorumPercent;
+    }
+    if (data.closeLeadMargin !== undefined) {
+      pollUpdate.close_lead_margin = data.closeLeadMargin;
+    }
+    if (data.isInviteOnly !== undefined) {
+      pollUpdate.is_invite_only = data.isInviteOnly;
+    }
+    if (data.tags !== undefined) {
+      pollUpdate.tags = data.tags;
+    }
+    
     const { error: updateError } = await supabase
       .from('polls')
-      .update({ question })
+      .update(pollUpdate)
       .eq('id', pollId);
     
     if (updateError) throw updateError;
@@ -109,7 +291,7 @@ export async function updatePollOperation(pollId: string, data: PollData): Promi
     // Get existing options
     const { data: existingOptions, error: optionsError } = await supabase
       .from('poll_options')
-      .select('id, option_text')
+      .select('id, option_text, image_path')
       .eq('poll_id', pollId);
     
     if (optionsError) throw optionsError;
@@ -119,22 +301,36 @@ export async function updatePollOperation(pollId: string, data: PollData): Promi
     const optionsToUpdate = options.filter(o => o.id && existingOptionIds.includes(o.id));
     const optionsToInsert = options.filter(o => !o.id || !existingOptionIds.includes(o.id));
     
-    // Update existing options
+    // Update existing options; an image is only touched when one is sent
+    const replacedImages: string[] = [];
     for (const option of optionsToUpdate) {
       const { error } = await supabase
         .from('poll_options')
-        .update({ option_text: option.text })
+        .update({
+          option_text: option.text,
+          ...(option.imagePath !== undefined && { image_path: option.imagePath }),
+          ...getTimeSlotColumns(data.pollType, option)
+        })
         .eq('id', option.id);
       
       if (error) throw error;
+      
+      const previousImage = existingOptions.find(o => o.id === option.id)?.image_path;
+      if (option.imagePath !== undefined && previousImage && previousImage !== option.imagePath) {
+        replacedImages.push(previousImage);
+      }
     }
     
+    await removeOptionImages(supabase, replacedImages);
+    
     // Insert new options
     if (optionsToInsert.length > 0) {
       const newOptions = optionsToInsert.map(option => ({
         poll_id: pollId,
         option_text: option.text,
-        votes: 0
+        votes: 0,
+        image_path: option.imagePath ?? null,
+        ...getTimeSlotColumns(data.pollType, option)
       }));
       
       const { error: insertError } = await supabase
@@ -172,6 +368,13 @@ export async function deletePollOperation(pollId: string): Promise<ApiResponse>
       return handlePermissionError('poll', 'delete');
     }
     
+    // The option images live in storage, which the cascade doesn't reach
+    const { data: images } = await supabase
+      .from('poll_options')
+      .select('image_path')
+      .eq('poll_id', pollId)
+      .not('image_path', 'is', null);
+    
     // Delete the poll (cascade will handle options and votes)
     const { error } = await supabase
       .from('polls')
@@ -180,6 +383,8 @@ export async function deletePollOperation(pollId: string): Promise<ApiResponse>
     
     if (error) throw error;
     
+    await removeOptionImages(supabase, (images ?? []).map(option => option.image_path));
+    
     return createSuccessResponse();
   } catch (error) {
     return handleError(error, 'Failed to delete poll', 'DELETE_POLL');
@@ -187,183 +392,2284 @@ export async function deletePollOperation(pollId: string): Promise<ApiResponse>
 }
 
 /**
- * Vote on a poll
- * @param pollId - The ID of the poll to vote on
- * @param optionId - The ID of the option to vote for
- * @returns Promise<ApiResponse> - The voting result
+ * Record a change to a poll made by its creator in audit_logs
+ * A failed insert is logged rather than undoing the change.
+ */
+async function recordPollAudit(
+  action: string,
+  pollId: string,
+  userId: string,
+  oldValues: Record<string, unknown>,
+  newValues: Record<string, unknown>
+): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from('audit_logs')
+    .insert({
+      user_id: userId,
+      action,
+      table_name: 'polls',
+      record_id: pollId,
+      old_values: oldValues,
+      new_values: newValues,
+      created_at: new Date().toISOString()
+    });
+
+  if (error) {
+    console.error(`Failed to record ${action} in the audit log:`, error.message);
+  }
+}
+
+/**
+ * Close a poll before its expiry
+ * The votes_reject_on_closed_poll trigger refuses ballots from then on.
+ * @param pollId - The ID of the poll to close
+ * @returns Promise<ApiResponse> - The result of closing the poll
  */
-export async function votePollOperation(pollId: string, optionId: string): Promise<ApiResponse> {
+export async function closePollOperation(pollId: string): Promise<ApiResponse> {
   try {
-    // Validate IDs
     const pollIdErrors = validatePollId(pollId);
     if (pollIdErrors.length > 0) {
       return handleValidationError(pollIdErrors[0].message);
     }
-    
-    const optionIdErrors = validateOptionId(optionId);
-    if (optionIdErrors.length > 0) {
-      return handleValidationError(optionIdErrors[0].message);
+
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+
+    const isOwner = await verifyPollOwnership(pollId);
+    if (!isOwner) {
+      return handlePermissionError('poll', 'close');
     }
-    
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('expires_at, closed_at')
+      .eq('id', pollId)
+      .single();
+
+    if (pollError) throw pollError;
+
+    if (isPollClosed(poll)) {
+      return handleValidationError('This poll is already closed');
+    }
+
+    const closedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('polls')
+      .update({ closed_at: closedAt, close_reason: 'manual' })
+      .eq('id', pollId)
+      .is('closed_at', null);
+
+    if (error) throw error;
+
+    await recordPollAudit(
+      'CLOSE_POLL',
+      pollId,
+      user.id,
+      { closed_at: null, close_reason: null },
+      { closed_at: closedAt, close_reason: 'manual' }
+    );
+
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to close poll', 'CLOSE_POLL');
+  }
+}
+
+/**
+ * Reopen a poll that was closed before its expiry
+ * Auto-close rules stay in place: a poll whose rule is still met closes again
+ * with the next ballot. A poll past its expiry has to get a later one first.
+ * @param pollId - The ID of the poll to reopen
+ * @returns Promise<ApiResponse> - The result of reopening the poll
+ */
+export async function reopenPollOperation(pollId: string): Promise<ApiResponse> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+
     const user = await getCurrentUser();
     const supabase = getSupabaseClient();
-    
-    // Use the increment_vote function to prevent double voting and update vote count atomically
-    const { error } = await supabase.rpc('increment_vote', {
-      option_id: optionId,
-      poll_id: pollId,
-      user_id: user.id
-    });
 
-    if (error) {
-      if (error.message.includes('already voted')) {
-        return handleValidationError('You have already voted on this poll');
-      }
-      throw error;
+    const isOwner = await verifyPollOwnership(pollId);
+    if (!isOwner) {
+      return handlePermissionError('poll', 'reopen');
     }
-    
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('expires_at, closed_at, close_reason')
+      .eq('id', pollId)
+      .single();
+
+    if (pollError) throw pollError;
+
+    if (!poll.closed_at) {
+      return handleValidationError('This poll is not closed');
+    }
+    if (isPollClosed({ expires_at: poll.expires_at })) {
+      return handleValidationError('This poll has expired. Set a later expiration date to reopen it');
+    }
+
+    const { error } = await supabase
+      .from('polls')
+      .update({ closed_at: null, close_reason: null })
+      .eq('id', pollId);
+
+    if (error) throw error;
+
+    await recordPollAudit(
+      'REOPEN_POLL',
+      pollId,
+      user.id,
+      { closed_at: poll.closed_at, close_reason: poll.close_reason },
+      { closed_at: null, close_reason: null }
+    );
+
     return createSuccessResponse();
   } catch (error) {
-    return handleError(error, 'Failed to submit vote', 'VOTE_POLL');
+    return handleError(error, 'Failed to reopen poll', 'REOPEN_POLL');
   }
 }
 
 /**
- * Get a specific poll by ID
- * @param pollId - The ID of the poll to retrieve
- * @returns Promise<ApiResponse<Poll>> - The poll data
+ * Invite voters to an invite-only poll
+ * Invitees who already hold an invite are skipped; revoked invites are
+ * renewed. Returns the number of invites added or renewed.
+ */
+async function addPollInvites(pollId: string, invitees: string[]): Promise<number> {
+  const supabase = getSupabaseClient();
+  const { emails, userIds } = parseInvitees(invitees);
+  
+  const { data: existing, error: existingError } = await supabase
+    .from('poll_invites')
+    .select('id, user_id, email, status')
+    .eq('poll_id', pollId);
+  
+  if (existingError) throw existingError;
+  
+  const invites = existing ?? [];
+  const findInvite = (invitee: { user_id?: string; email?: string }) => invites.find(invite =>
+    (invitee.user_id && invite.user_id === invitee.user_id) || (invitee.email && invite.email === invitee.email)
+  );
+  
+  const invitesToAdd = [
+    ...userIds.map(userId => ({ user_id: userId })),
+    ...emails.map(email => ({ email }))
+  ];
+  const newInvites = invitesToAdd.filter(invitee => !findInvite(invitee));
+  const revokedIds = invitesToAdd
+    .map(invitee => findInvite(invitee))
+    .filter(invite => invite?.status === 'revoked')
+    .map(invite => invite!.id);
+  
+  if (newInvites.length > 0) {
+    const { error } = await supabase
+      .from('poll_invites')
+      .insert(newInvites.map(invitee => ({ poll_id: pollId, ...invitee })));
+    
+    if (error) throw error;
+  }
+  
+  if (revokedIds.length > 0) {
+    const { error } = await supabase
+      .from('poll_invites')
+      .update({ status: 'pending', updated_at: new Date().toISOString() })
+      .in('id', revokedIds);
+    
+    if (error) throw error;
+  }
+  
+  return newInvites.length + revokedIds.length;
+}
+
+/**
+ * Invite more voters to an invite-only poll
+ * @param pollId - The ID of the poll
+ * @param invitees - Email addresses or user IDs
+ * @returns Promise<ApiResponse<{ invited: number }>> - The number of invites added
  */
-export async function getPollOperation(pollId: string): Promise<ApiResponse<Poll>> {
+export async function invitePollVotersOperation(
+  pollId: string,
+  invitees: string[]
+): Promise<ApiResponse<{ invited: number }>> {
   try {
-    // Validate poll ID
     const pollIdErrors = validatePollId(pollId);
     if (pollIdErrors.length > 0) {
       return handleValidationError(pollIdErrors[0].message);
     }
     
+    const inviteeErrors = validateInvitees(invitees);
+    if (inviteeErrors.length > 0) {
+      return handleValidationError(inviteeErrors[0].message);
+    }
+    
     const supabase = getSupabaseClient();
     
-    const { data, error } = await supabase
+    const isOwner = await verifyPollOwnership(pollId);
+    if (!isOwner) {
+      return handlePermissionError('poll', 'invite voters to');
+    }
+    
+    const { data: poll, error: pollError } = await supabase
       .from('polls')
-      .select('id, question, created_at, user_id, expires_at, poll_options(*)')
+      .select('is_invite_only')
       .eq('id', pollId)
       .single();
     
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return handleNotFoundError('Poll');
-      }
-      throw error;
-    }
+    if (pollError) throw pollError;
     
-    // Format the poll data
-    const formattedPoll: Poll = {
-      id: data.id,
-      question: data.question,
-      options: data.poll_options.map((option: any) => ({
-        id: option.id,
-        text: option.option_text,
-        votes: option.votes || 0
-      })),
-      totalVotes: data.poll_options.reduce((acc: number, option: any) => 
-        acc + (option.votes || 0), 0),
-      user_id: data.user_id,
-      created_at: data.created_at,
-      expires_at: data.expires_at
-    };
+    if (!poll.is_invite_only) {
+      return handleValidationError('Only invite-only polls take invitations');
+    }
     
-    return createSuccessResponse(formattedPoll);
+    return createSuccessResponse({ invited: await addPollInvites(pollId, invitees) });
   } catch (error) {
-    return handleError(error, 'Failed to load poll', 'GET_POLL');
+    return handleError(error, 'Failed to invite voters', 'INVITE_POLL_VOTERS');
   }
 }
 
 /**
- * Get all polls for the current user
- * @returns Promise<ApiResponse<{polls: UserPoll[], ongoingPolls: UserPoll[], expiredPolls: UserPoll[]}>> - User's polls
+ * Revoke an invite to an invite-only poll
+ * Only pending invites can be revoked: a ballot already cast stays counted.
+ * @param pollId - The ID of the poll
+ * @param inviteId - The ID of the invite to revoke
+ * @returns Promise<ApiResponse> - The result of revoking the invite
  */
-export async function getUserPollsOperation(): Promise<ApiResponse<{ 
-  polls: UserPoll[], 
-  ongoingPolls: UserPoll[], 
-  expiredPolls: UserPoll[] 
-}>> {
+export async function revokePollInviteOperation(pollId: string, inviteId: string): Promise<ApiResponse> {
   try {
-    const user = await getCurrentUser();
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    if (typeof inviteId !== 'string' || inviteId.trim().length === 0) {
+      return handleValidationError('Invite ID is required');
+    }
+    
     const supabase = getSupabaseClient();
     
-    const { data, error } = await supabase
-      .from('polls')
-      .select('id, question, created_at, expires_at, user_id, poll_options(*)')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false });
+    const isOwner = await verifyPollOwnership(pollId);
+    if (!isOwner) {
+      return handlePermissionError('poll', 'revoke invites to');
+    }
+    
+    const { data: revoked, error } = await supabase
+      .from('poll_invites')
+      .update({ status: 'revoked', updated_at: new Date().toISOString() })
+      .eq('id', inviteId)
+      .eq('poll_id', pollId)
+      .eq('status', 'pending')
+      .select('id');
     
     if (error) throw error;
-
-    const currentTime = new Date();
-    const pollsWithVotes: UserPoll[] = data.map((poll: DatabasePoll) => {
-      const totalVotes = poll.poll_options.reduce((acc: number, option) => 
-        acc + (option.votes || 0), 0);
-      
-      const isExpired = poll.expires_at ? new Date(poll.expires_at) <= currentTime : false;
-      
-      return {
-        id: poll.id,
-        question: poll.question,
-        created_at: poll.created_at,
-        expires_at: poll.expires_at,
-        user_id: poll.user_id,
-        totalVotes,
-        isExpired,
-        status: isExpired ? 'expired' : 'ongoing'
-      };
-    });
-
-    // Categorize polls
-    const ongoingPolls = pollsWithVotes.filter(poll => !poll.isExpired);
-    const expiredPolls = pollsWithVotes.filter(poll => poll.isExpired);
-
-    return createSuccessResponse({
-      polls: pollsWithVotes,
-      ongoingPolls,
-      expiredPolls
-    });
+    
+    if (!revoked || revoked.length === 0) {
+      return handleValidationError('Only invites that have not been used to vote can be revoked');
+    }
+    
+    return createSuccessResponse();
   } catch (error) {
-    return handleError(error, 'Failed to load polls', 'GET_USER_POLLS');
+    return handleError(error, 'Failed to revoke invite', 'REVOKE_POLL_INVITE');
   }
 }
 
 /**
- * Check if the current user has voted on a poll
- * @param pollId - The ID of the poll to check
- * @returns Promise<VoteStatus> - The vote status information
+ * Get the invites to an invite-only poll with its turnout, for the poll's creator
+ * The invites only say whether each invitee has voted, never how.
+ * @param pollId - The ID of the poll
+ * @returns Promise<ApiResponse<{ invites: PollInvite[]; turnout: Turnout }>> - The invites and turnout
  */
-export async function checkVoteStatusOperation(pollId: string): Promise<VoteStatus> {
+export async function getPollInvitesOperation(
+  pollId: string
+): Promise<ApiResponse<{ invites: PollInvite[]; turnout: Turnout }>> {
   try {
-    const supabase = getSupabaseClient();
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
     
-    // Try to get the current user, but don't throw if not authenticated
-    const { data } = await supabase.auth.getUser();
-    const user = data.user;
+    const supabase = getSupabaseClient();
     
-    if (!user) {
-      return { hasVoted: false };
+    const isOwner = await verifyPollOwnership(pollId);
+    if (!isOwner) {
+      return handlePermissionError('poll', 'view the invites to');
     }
     
-    const { data: voteData, error } = await supabase
-      .from('votes')
-      .select('option_id')
-      .eq('user_id', user.id)
+    const { data, error } = await supabase
+      .from('poll_invites')
+      .select('id, user_id, email, status, created_at')
       .eq('poll_id', pollId)
-      .single();
+      .order('created_at', { ascending: true });
     
-    if (error) {
-      if (error.code === 'PGRST116') { // No rows returned
-        return { hasVoted: false, optionId: null };
-      }
-      throw error;
-    }
+    if (error) throw error;
     
-    return { hasVoted: true, optionId: voteData.option_id };
+    const invites = (data ?? []) as PollInvite[];
+    return createSuccessResponse({ invites, turnout: summarizeTurnout(invites) });
+  } catch (error) {
+    return handleError(error, 'Failed to load invites', 'GET_POLL_INVITES');
+  }
+}
+
+/**
+ * Replace the voter weights of a weighted poll
+ * The reject_weight_change_after_opening trigger turns this down once the poll
+ * has opened.
+ */
+async function saveVoterWeights(pollId: string, weights: VoterWeightEntry[]): Promise<void> {
+  const supabase = getSupabaseClient();
+  
+  const { error: deleteError } = await supabase
+    .from('poll_voter_weights')
+    .delete()
+    .eq('poll_id', pollId);
+  
+  if (deleteError) throw deleteError;
+  
+  if (weights.length === 0) {
+    return;
+  }
+  
+  const { error } = await supabase
+    .from('poll_voter_weights')
+    .insert(weights.map(entry => ({
+      poll_id: pollId,
+      user_id: entry.userId ?? null,
+      email: entry.email ?? null,
+      weight: entry.weight
+    })));
+  
+  if (error) throw error;
+}
+
+/**
+ * Set the voter weights of a weighted poll
+ * The list replaces the poll's weights; voters left out can no longer vote.
+ * Weights are fixed once the poll has opened.
+ * @param pollId - The ID of the poll
+ * @param weights - Each eligible voter's email address or user ID with their weight
+ * @returns Promise<ApiResponse> - The result of saving the weights
+ */
+export async function setVoterWeightsOperation(pollId: string, weights: VoterWeightEntry[]): Promise<ApiResponse> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const weightErrors = validateVoterWeights(weights);
+    if (weightErrors.length > 0) {
+      return handleValidationError(weightErrors[0].message);
+    }
+    
+    const supabase = getSupabaseClient();
+    
+    const isOwner = await verifyPollOwnership(pollId);
+    if (!isOwner) {
+      return handlePermissionError('poll', 'set the voter weights of');
+    }
+    
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('is_weighted, opens_at, voter_count')
+      .eq('id', pollId)
+      .single();
+    
+    if (pollError) throw pollError;
+    
+    if (!poll.is_weighted) {
+      return handleValidationError('Only weighted polls have voter weights');
+    }
+    
+    if (areWeightsLocked(poll)) {
+      return handleValidationError('Voter weights are fixed once the poll has opened');
+    }
+    
+    try {
+      await saveVoterWeights(pollId, weights);
+    } catch (error) {
+      // The poll can open between the check above and the save
+      if ((error as { message?: string }).message?.includes('fixed once the poll has opened')) {
+        return handleValidationError('Voter weights are fixed once the poll has opened');
+      }
+      throw error;
+    }
+    
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to save voter weights', 'SET_VOTER_WEIGHTS');
+  }
+}
+
+/**
+ * Get the voter weights of a weighted poll, for the poll's creator
+ * @param pollId - The ID of the poll
+ * @returns Promise<ApiResponse<{ weights: VoterWeight[]; total: number; locked: boolean }>> - The weights, their total and whether they are fixed
+ */
+export async function getVoterWeightsOperation(
+  pollId: string
+): Promise<ApiResponse<{ weights: VoterWeight[]; total: number; locked: boolean }>> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const supabase = getSupabaseClient();
+    
+    const isOwner = await verifyPollOwnership(pollId);
+    if (!isOwner) {
+      return handlePermissionError('poll', 'view the voter weights of');
+    }
+    
+    const [{ data: poll, error: pollError }, { data, error }] = await Promise.all([
+      supabase.from('polls').select('opens_at, voter_count').eq('id', pollId).single(),
+      supabase
+        .from('poll_voter_weights')
+        .select('id, user_id, email, weight')
+        .eq('poll_id', pollId)
+        .order('weight', { ascending: false })
+    ]);
+    
+    if (pollError) throw pollError;
+    if (error) throw error;
+    
+    const weights = (data ?? []) as VoterWeight[];
+    return createSuccessResponse({ weights, total: totalWeight(weights), locked: areWeightsLocked(poll) });
+  } catch (error) {
+    return handleError(error, 'Failed to load voter weights', 'GET_VOTER_WEIGHTS');
+  }
+}
+
+/**
+ * Map an error raised by the vote_delegations_check trigger to its error response
+ * @param error - The error from the database
+ * @returns ApiResponse | null - The error response, or null for other errors
+ */
+function getDelegationErrorResponse<T>(error: unknown): ApiResponse<T> | null {
+  const message = (error as { message?: string }).message ?? '';
+  
+  if (message.includes('delegate your vote to yourself')) {
+    return handleDelegationError<T>('DELEGATION_SELF');
+  }
+  if (message.includes('would create a cycle')) {
+    return handleDelegationError<T>('DELEGATION_CYCLE');
+  }
+  if (message.includes('fixed once the poll has closed')) {
+    return handleDelegationError<T>('DELEGATION_CLOSED');
+  }
+  return null;
+}
+
+/**
+ * Delegate the current user's vote to another user
+ * The delegation covers this poll, or with a tag every poll with that tag, and
+ * replaces the user's standing delegation in the same scope.
+ * @param pollId - The ID of the poll the delegation is made from
+ * @param delegate - The delegate's email address or user ID
+ * @param tag - One of the poll's tags to delegate for, or null for this poll only
+ * @returns Promise<ApiResponse> - The delegation result
+ */
+export async function delegateVoteOperation(
+  pollId: string,
+  delegate: string,
+  tag: string | null = null
+): Promise<ApiResponse> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const delegateErrors = validateDelegate(delegate);
+    if (delegateErrors.length > 0) {
+      return handleValidationError(delegateErrors[0].message);
+    }
+    
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+    
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('allow_delegation, tags, expires_at, closed_at')
+      .eq('id', pollId)
+      .single();
+    
+    if (pollError) throw pollError;
+    
+    if (!poll.allow_delegation) {
+      return handleValidationError('This poll does not allow delegation');
+    }
+    
+    if (isPollClosed(poll)) {
+      return handleDelegationError('DELEGATION_CLOSED');
+    }
+    
+    if (tag !== null && !(poll.tags ?? []).includes(tag)) {
+      return handleValidationError('Delegate for one of the tags of this poll');
+    }
+    
+    const { emails, userIds } = parseInvitees([delegate]);
+    if (userIds[0] === user.id || (emails[0] && emails[0] === user.email?.toLowerCase())) {
+      return handleDelegationError('DELEGATION_SELF');
+    }
+    
+    const { error } = await supabase.rpc('delegate_vote', {
+      poll_uuid: pollId,
+      tag_name: tag,
+      delegate_uuid: userIds[0] ?? null,
+      delegate_address: emails[0] ?? null
+    });
+    
+    if (error) {
+      const response = getDelegationErrorResponse(error);
+      if (response) return response;
+      throw error;
+    }
+    
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to delegate vote', 'DELEGATE_VOTE');
+  }
+}
+
+/**
+ * Take back one of the current user's delegations
+ * A delegation for a poll can only be taken back until the poll closes.
+ * @param delegationId - The ID of the delegation
+ * @returns Promise<ApiResponse> - The result
+ */
+export async function revokeDelegationOperation(delegationId: string): Promise<ApiResponse> {
+  try {
+    if (typeof delegationId !== 'string' || delegationId.trim().length === 0) {
+      return handleValidationError('Delegation ID is required');
+    }
+    
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+    
+    const { data, error } = await supabase
+      .from('vote_delegations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', delegationId)
+      .eq('delegator_id', user.id)
+      .is('revoked_at', null)
+      .select('id');
+    
+    if (error) {
+      const response = getDelegationErrorResponse(error);
+      if (response) return response;
+      throw error;
+    }
+    
+    if (!data || data.length === 0) {
+      return handleNotFoundError('Delegation');
+    }
+    
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to take back delegation', 'REVOKE_DELEGATION');
+  }
+}
+
+/**
+ * Get the current user's delegation that applies to a poll
+ * @param pollId - The ID of the poll
+ * @returns Promise<ApiResponse<PollDelegation>> - The delegation, if any, and whether it can still change
+ */
+export async function getDelegationOperation(pollId: string): Promise<ApiResponse<PollDelegation>> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+    
+    const [{ data: poll, error: pollError }, { data, error }] = await Promise.all([
+      supabase.from('polls').select('id, tags, expires_at, closed_at').eq('id', pollId).single(),
+      supabase
+        .from('vote_delegations')
+        .select('id, delegate_id, delegate_email, poll_id, tag, created_at')
+        .eq('delegator_id', user.id)
+        .is('revoked_at', null)
+    ]);
+    
+    if (pollError) throw pollError;
+    if (error) throw error;
+    
+    return createSuccessResponse({
+      delegation: pickDelegation((data ?? []) as Delegation[], { id: poll.id, tags: poll.tags ?? [] }),
+      locked: isPollClosed(poll)
+    });
+  } catch (error) {
+    return handleError(error, 'Failed to load delegation', 'GET_DELEGATION');
+  }
+}
+
+/**
+ * Store the hash of a poll's passcode, or remove the passcode
+ * Changing or removing it makes everyone who entered the old one enter the new one.
+ */
+async function savePollPasscode(pollId: string, passcode: string | null): Promise<void> {
+  const supabase = getSupabaseClient();
+  
+  const { error } = passcode
+    ? await supabase
+        .from('poll_passcodes')
+        .upsert({ poll_id: pollId, passcode_hash: hashPasscode(passcode), updated_at: new Date().toISOString() })
+    : await supabase
+        .from('poll_passcodes')
+        .delete()
+        .eq('poll_id', pollId);
+  
+  if (error) throw error;
+}
+
+/**
+ * Set, change or remove the passcode of a poll
+ * @param pollId - The ID of the poll
+ * @param passcode - The new passcode, or null to remove it
+ * @returns Promise<ApiResponse> - The result of saving the passcode
+ */
+export async function setPollPasscodeOperation(pollId: string, passcode: string | null): Promise<ApiResponse> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    if (passcode !== null) {
+      const passcodeErrors = validatePasscode(passcode);
+      if (passcodeErrors.length > 0) {
+        return handleValidationError(passcodeErrors[0].message);
+      }
+    }
+    
+    const isOwner = await verifyPollOwnership(pollId);
+    if (!isOwner) {
+      return handlePermissionError('poll', 'set the passcode of');
+    }
+    
+    await savePollPasscode(pollId, passcode);
+    
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to save passcode', 'SET_POLL_PASSCODE');
+  }
+}
+
+/**
+ * Check that the viewer may open a passcode-protected poll
+ * The creator and anyone who entered the passcode before pass straight away.
+ * A right passcode is remembered for the user, or for the visitor's voter
+ * token, so their ballot gets past the votes_reject_locked trigger.
+ */
+async function checkPollPasscode(
+  pollId: string,
+  poll: { user_id: string; has_passcode?: boolean },
+  passcode: string | null,
+  voterToken: string | null,
+  clientAddress: string
+): Promise<ApiResponse> {
+  if (!poll.has_passcode) {
+    return createSuccessResponse();
+  }
+  
+  const { data: authData } = await getSupabaseClient().auth.getUser();
+  const userId = authData.user?.id ?? null;
+  if (userId === poll.user_id) {
+    return createSuccessResponse();
+  }
+  
+  // Unlocks and hashes are only readable with the service role
+  const service = createServiceClient();
+  const voter = userId ? { user_id: userId } : voterToken ? { voter_token: voterToken } : null;
+  
+  if (voter) {
+    const { data: unlock, error } = await service
+      .from('poll_passcode_unlocks')
+      .select('id')
+      .eq('poll_id', pollId)
+      .match(voter)
+      .maybeSingle();
+    
+    if (error) throw error;
+    if (unlock) {
+      return createSuccessResponse();
+    }
+  }
+  
+  if (!passcode?.trim()) {
+    return handlePasscodeError('PASSCODE_REQUIRED');
+  }
+  
+  // Visitors can drop their voter token, so they are throttled by address, and
+  // the poll stops taking guesses once too many were wrong, whoever made them
+  if (isPasscodeAttemptRateLimited(pollId, userId ?? clientAddress) || isPasscodeGuessingLocked(pollId)) {
+    return handlePasscodeError('PASSCODE_THROTTLED');
+  }
+  
+  const { data: stored, error: storedError } = await service
+    .from('poll_passcodes')
+    .select('passcode_hash')
+    .eq('poll_id', pollId)
+    .single();
+  
+  if (storedError) throw storedError;
+  
+  if (!verifyPasscode(passcode, stored.passcode_hash)) {
+    recordPasscodeFailure(pollId);
+    return handlePasscodeError('PASSCODE_INVALID');
+  }
+  
+  if (voter) {
+    const { error } = await service
+      .from('poll_passcode_unlocks')
+      .insert({ poll_id: pollId, ...voter });
+    
+    // A second tab may have recorded the unlock already
+    if (error && error.code !== '23505') throw error;
+  }
+  
+  return createSuccessResponse();
+}
+
+/**
+ * Enter the passcode of a poll
+ * Succeeds without a passcode when the poll has none, the viewer created it or
+ * entered the passcode before.
+ * @param pollId - The ID of the poll
+ * @param passcode - The passcode as entered, or null to check for an earlier unlock
+ * @param voterToken - The visitor's verified voter token, for visitors without an account
+ * @param clientAddress - The client address, to throttle visitors' attempts
+ * @returns Promise<ApiResponse> - Fails with a PASSCODE_* code while the poll stays locked
+ */
+export async function unlockPollOperation(
+  pollId: string,
+  passcode: string | null,
+  voterToken: string | null,
+  clientAddress: string = 'unknown'
+): Promise<ApiResponse> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    // A locked poll can't be read through the API, even to find out it is locked
+    const { data: poll, error } = await createServiceClient()
+      .from('polls')
+      .select('user_id, has_passcode')
+      .eq('id', pollId)
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return handleNotFoundError('Poll');
+      }
+      throw error;
+    }
+    
+    return await checkPollPasscode(pollId, poll, passcode, voterToken, clientAddress);
+  } catch (error) {
+    return handleError(error, 'Failed to check passcode', 'UNLOCK_POLL');
+  }
+}
+
+/**
+ * Issue a batch of single-use ballot codes for a poll
+ * Only standalone choice polls take them; invite-only, passcode-protected and
+ * weighted polls already decide who may vote in their own way.
+ * @param pollId - The ID of the poll
+ * @param count - How many codes to issue
+ * @returns Promise<ApiResponse<{ codes: string[] }>> - The new codes
+ */
+export async function issueBallotCodesOperation(
+  pollId: string,
+  count: number
+): Promise<ApiResponse<{ codes: string[] }>> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const countErrors = validateBallotCodeCount(count);
+    if (countErrors.length > 0) {
+      return handleValidationError(countErrors[0].message);
+    }
+    
+    const supabase = getSupabaseClient();
+    
+    const isOwner = await verifyPollOwnership(pollId);
+    if (!isOwner) {
+      return handlePermissionError('poll', 'issue ballot codes for');
+    }
+    
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('poll_type, survey_id, is_quiz, is_invite_only, has_passcode, is_weighted')
+      .eq('id', pollId)
+      .single();
+    
+    if (pollError) throw pollError;
+    
+    if (!BALLOT_CODE_POLL_TYPES.includes(poll.poll_type ?? 'single') || poll.survey_id || poll.is_quiz) {
+      return handleValidationError('Ballot codes can only be issued for single choice, multiple choice, ranked and approval polls');
+    }
+    
+    if (poll.is_invite_only || poll.has_passcode || poll.is_weighted) {
+      return handleValidationError('Ballot codes cannot be issued for invite-only, passcode-protected or weighted polls');
+    }
+    
+    const codes = generateBallotCodes(count);
+    const { error } = await supabase
+      .from('ballot_codes')
+      .insert(codes.map(code => ({ poll_id: pollId, code })));
+    
+    if (error) throw error;
+    
+    return createSuccessResponse({ codes });
+  } catch (error) {
+    return handleError(error, 'Failed to issue ballot codes', 'ISSUE_BALLOT_CODES');
+  }
+}
+
+/**
+ * Get the ballot codes of a poll with their statuses, for the poll's creator
+ * @param pollId - The ID of the poll
+ * @returns Promise<ApiResponse<{ codes: BallotCode[]; summary: BallotCodeSummary }>> - The codes in issue order
+ */
+export async function getBallotCodesOperation(
+  pollId: string
+): Promise<ApiResponse<{ codes: BallotCode[]; summary: BallotCodeSummary }>> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const supabase = getSupabaseClient();
+    
+    const isOwner = await verifyPollOwnership(pollId);
+    if (!isOwner) {
+      return handlePermissionError('poll', 'view the ballot codes of');
+    }
+    
+    const { data, error } = await supabase
+      .from('ballot_codes')
+      .select('id, code, status, spent_at, created_at')
+      .eq('poll_id', pollId)
+      .order('created_at', { ascending: true })
+      .order('code', { ascending: true });
+    
+    if (error) throw error;
+    
+    const codes = (data ?? []) as BallotCode[];
+    return createSuccessResponse({ codes, summary: summarizeBallotCodes(codes) });
+  } catch (error) {
+    return handleError(error, 'Failed to load ballot codes', 'GET_BALLOT_CODES');
+  }
+}
+
+/**
+ * Revoke unused ballot codes of a poll
+ * Spent codes stay spent: the ballots cast with them remain counted.
+ * @param pollId - The ID of the poll
+ * @param codeIds - The IDs of the codes to revoke
+ * @returns Promise<ApiResponse<{ revoked: number }>> - How many codes were revoked
+ */
+export async function revokeBallotCodesOperation(
+  pollId: string,
+  codeIds: string[]
+): Promise<ApiResponse<{ revoked: number }>> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    if (!Array.isArray(codeIds) || codeIds.length === 0 || codeIds.some(id => typeof id !== 'string' || !id.trim())) {
+      return handleValidationError('Choose the ballot codes to revoke');
+    }
+    
+    const supabase = getSupabaseClient();
+    
+    const isOwner = await verifyPollOwnership(pollId);
+    if (!isOwner) {
+      return handlePermissionError('poll', 'revoke ballot codes of');
+    }
+    
+    const { data: revoked, error } = await supabase
+      .from('ballot_codes')
+      .update({ status: 'revoked' })
+      .in('id', codeIds)
+      .eq('poll_id', pollId)
+      .eq('status', 'unused')
+      .select('id');
+    
+    if (error) throw error;
+    
+    if (!revoked || revoked.length === 0) {
+      return handleValidationError('Only ballot codes that have not been used to vote can be revoked');
+    }
+    
+    return createSuccessResponse({ revoked: revoked.length });
+  } catch (error) {
+    return handleError(error, 'Failed to revoke ballot codes', 'REVOKE_BALLOT_CODES');
+  }
+}
+
+/**
+ * Vote on a poll
+ * @param pollId - The ID of the poll to vote on
+ * @param optionId - The ID of the option to vote for, or an array of IDs for multi-select polls
+ * @returns Promise<ApiResponse> - The voting result
+ */
+export async function votePollOperation(pollId: string, optionId: string | string[]): Promise<ApiResponse> {
+  if (Array.isArray(optionId)) {
+    return voteMultiplePollOperation(pollId, optionId);
+  }
+  
+  try {
+    // Validate IDs
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const optionIdErrors = validateOptionId(optionId);
+    if (optionIdErrors.length > 0) {
+      return handleValidationError(optionIdErrors[0].message);
+    }
+    
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+    
+    // Use the increment_vote function to prevent double voting and update vote count atomically
+    const { error } = await supabase.rpc('increment_vote', {
+      option_id: optionId,
+      poll_id: pollId,
+      user_id: user.id
+    });
+
+    if (error) {
+      if (error.message.includes('is closed')) {
+        return handlePollClosedError();
+      }
+      if (error.message.includes('not invited')) {
+        return handleNotInvitedError();
+      }
+      if (error.message.includes('not an eligible voter')) {
+        return handleNotEligibleError();
+      }
+      if (error.message.includes('needs its passcode')) {
+        return handlePasscodeError('PASSCODE_REQUIRED');
+      }
+      if (error.message.includes('already voted')) {
+        return handleValidationError('You have already voted on this poll');
+      }
+      // Secret ballots have to be split from the voter, which increment_votes does
+      if (error.message.includes('Secret ballots')) {
+        return voteMultiplePollOperation(pollId, [optionId]);
+      }
+      if (error.message.includes('not open yet') || error.message.includes('expired')) {
+        return handleValidationError(error.message);
+      }
+      throw error;
+    }
+    
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to submit vote', 'VOTE_POLL');
+  }
+}
+
+/**
+ * Cast a ballot selecting several options at once
+ * Selection limits are checked here for a friendly message and enforced again
+ * by the increment_votes database function in the same transaction as the insert.
+ * @param pollId - The ID of the poll to vote on
+ * @param optionIds - The IDs of the selected options
+ * @returns Promise<ApiResponse> - The voting result
+ */
+async function voteMultiplePollOperation(pollId: string, optionIds: string[]): Promise<ApiResponse> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+    
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('poll_type, min_selections, max_selections')
+      .eq('id', pollId)
+      .single();
+    
+    if (pollError) {
+      if (pollError.code === 'PGRST116') {
+        return handleNotFoundError('Poll');
+      }
+      throw pollError;
+    }
+    
+    const optionIdErrors = validateOptionIds(optionIds, {
+      pollType: poll.poll_type ?? 'single',
+      minSelections: poll.min_selections ?? 1,
+      maxSelections: poll.max_selections ?? null
+    });
+    if (optionIdErrors.length > 0) {
+      return handleValidationError(optionIdErrors[0].message);
+    }
+    
+    const { error } = await supabase.rpc('increment_votes', {
+      option_ids: optionIds,
+      poll_id: pollId,
+      user_id: user.id
+    });
+    
+    if (error) {
+      if (error.message.includes('is closed')) {
+        return handlePollClosedError();
+      }
+      if (error.message.includes('not invited')) {
+        return handleNotInvitedError();
+      }
+      if (error.message.includes('not an eligible voter')) {
+        return handleNotEligibleError();
+      }
+      if (error.message.includes('needs its passcode')) {
+        return handlePasscodeError('PASSCODE_REQUIRED');
+      }
+      if (error.message.includes('already voted')) {
+        return handleValidationError('You have already voted on this poll');
+      }
+      if (error.message.includes('Select at') || error.message.includes('not open yet') || error.message.includes('expired')) {
+        return handleValidationError(error.message);
+      }
+      throw error;
+    }
+    
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to submit vote', 'VOTE_POLL');
+  }
+}
+
+/**
+ * Cast the ballot of a visitor without an account on a poll that allows anonymous votes
+ * The caller must have checked the signature of the visitor's voter token cookie:
+ * the ballot is recorded with the service role, which the database trusts with any token.
+ * @param pollId - The ID of the poll to vote on
+ * @param optionIds - The IDs of the selected options, in preference order on ranked polls
+ * @param voterToken - The visitor's verified voter token
+ * @returns Promise<ApiResponse> - The voting result
+ */
+export async function voteAnonymouslyOperation(
+  pollId: string,
+  optionIds: string[],
+  voterToken: string
+): Promise<ApiResponse> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const supabase = createServiceClient();
+    
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('poll_type, min_selections, max_selections, allow_anonymous')
+      .eq('id', pollId)
+      .single();
+    
+    if (pollError) {
+      if (pollError.code === 'PGRST116') {
+        return handleNotFoundError('Poll');
+      }
+      throw pollError;
+    }
+    
+    if (!poll.allow_anonymous) {
+      return handleValidationError('Log in to vote on this poll');
+    }
+    
+    const optionIdErrors = validateOptionIds(optionIds, {
+      pollType: poll.poll_type ?? 'single',
+      minSelections: poll.min_selections ?? 1,
+      maxSelections: poll.max_selections ?? null
+    });
+    if (optionIdErrors.length > 0) {
+      return handleValidationError(optionIdErrors[0].message);
+    }
+    
+    const { error } = await supabase.rpc('cast_anonymous_ballot', {
+      option_ids: optionIds,
+      poll_id: pollId,
+      voter_token: voterToken
+    });
+    
+    if (error) {
+      if (error.message.includes('is closed')) {
+        return handlePollClosedError();
+      }
+      if (error.message.includes('needs its passcode')) {
+        return handlePasscodeError('PASSCODE_REQUIRED');
+      }
+      if (error.message.includes('already voted')) {
+        return handleValidationError('You have already voted on this poll');
+      }
+      if (error.message.includes('Select at') || error.message.includes('not open yet') || error.message.includes('expired')) {
+        return handleValidationError(error.message);
+      }
+      throw error;
+    }
+    
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to submit vote', 'VOTE_ANONYMOUS');
+  }
+}
+
+/**
+ * Cast a ballot with a single-use ballot code
+ * The ballot is recorded with the service role; cast_code_ballot spends the code
+ * in the same transaction, so the caller only needs to rate limit attempts.
+ * @param pollId - The ID of the poll to vote on
+ * @param ballotCode - The ballot code as typed or scanned
+ * @param optionIds - The IDs of the selected options, in preference order on ranked polls
+ * @returns Promise<ApiResponse> - The voting result
+ */
+export async function voteWithBallotCodeOperation(
+  pollId: string,
+  ballotCode: string,
+  optionIds: string[]
+): Promise<ApiResponse> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const codeErrors = validateBallotCode(ballotCode);
+    if (codeErrors.length > 0) {
+      return handleBallotCodeError('BALLOT_CODE_INVALID');
+    }
+    
+    const supabase = createServiceClient();
+    
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('poll_type, min_selections, max_selections')
+      .eq('id', pollId)
+      .single();
+    
+    if (pollError) {
+      if (pollError.code === 'PGRST116') {
+        return handleNotFoundError('Poll');
+      }
+      throw pollError;
+    }
+    
+    const optionIdErrors = validateOptionIds(optionIds, {
+      pollType: poll.poll_type ?? 'single',
+      minSelections: poll.min_selections ?? 1,
+      maxSelections: poll.max_selections ?? null
+    });
+    if (optionIdErrors.length > 0) {
+      return handleValidationError(optionIdErrors[0].message);
+    }
+    
+    const { error } = await supabase.rpc('cast_code_ballot', {
+      option_ids: optionIds,
+      poll_id: pollId,
+      code: normalizeBallotCode(ballotCode)
+    });
+    
+    if (error) {
+      if (error.message.includes('not valid for this poll')) {
+        return handleBallotCodeError('BALLOT_CODE_INVALID');
+      }
+      if (error.message.includes('already been used')) {
+        return handleBallotCodeError('BALLOT_CODE_SPENT');
+      }
+      if (error.message.includes('has been revoked')) {
+        return handleBallotCodeError('BALLOT_CODE_REVOKED');
+      }
+      if (error.message.includes('is closed')) {
+        return handlePollClosedError();
+      }
+      if (error.message.includes('needs its passcode')) {
+        return handlePasscodeError('PASSCODE_REQUIRED');
+      }
+      if (error.message.includes('not invited')) {
+        return handleNotInvitedError();
+      }
+      if (error.message.includes('Select at') || error.message.includes('not open yet') || error.message.includes('expired')) {
+        return handleValidationError(error.message);
+      }
+      throw error;
+    }
+    
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to submit vote', 'VOTE_WITH_BALLOT_CODE');
+  }
+}
+
+/**
+ * Check whether a visitor without an account has voted on a poll
+ * @param pollId - The ID of the poll
+ * @param voterToken - The visitor's verified voter token, or null when they have none yet
+ * @returns Promise<VoteStatus> - The visitor's ballot, if any
+ */
+export async function checkAnonymousVoteStatusOperation(
+  pollId: string,
+  voterToken: string | null
+): Promise<VoteStatus> {
+  if (!voterToken) {
+    return { hasVoted: false, optionId: null, optionIds: [] };
+  }
+  
+  try {
+    const supabase = createServiceClient();
+    
+    const { data: voteData, error } = await supabase
+      .from('votes')
+      .select('option_id, vote_selections(option_id, rank)')
+      .eq('voter_token', voterToken)
+      .eq('poll_id', pollId)
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') { // No rows returned
+        return { hasVoted: false, optionId: null, optionIds: [] };
+      }
+      throw error;
+    }
+    
+    const selections: { option_id: string; rank: number | null }[] = voteData.vote_selections ?? [];
+    const optionIds = selections.length > 0
+      ? [...selections]
+          .sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0))
+          .map(selection => selection.option_id)
+      : voteData.option_id ? [voteData.option_id] : [];
+    
+    return { hasVoted: true, optionId: voteData.option_id, optionIds };
+  } catch {
+    return { hasVoted: false, error: 'Failed to check vote status' };
+  }
+}
+
+/**
+ * Replace the current user's ballot on a poll that allows vote changes
+ * The change_vote database function moves the counts from the old ballot to the
+ * new one in one transaction and checks the new ballot like increment_votes.
+ * @param pollId - The ID of the poll
+ * @param optionIds - The new selection, in preference order on ranked polls
+ * @returns Promise<ApiResponse> - The result of the change
+ */
+export async function changeVoteOperation(pollId: string, optionIds: string[]): Promise<ApiResponse> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+    
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('poll_type, min_selections, max_selections, allow_vote_changes, expires_at, closed_at')
+      .eq('id', pollId)
+      .single();
+    
+    if (pollError) {
+      if (pollError.code === 'PGRST116') {
+        return handleNotFoundError('Poll');
+      }
+      throw pollError;
+    }
+    
+    if (!canChangeVote(poll)) {
+      return handleValidationError('Votes on this poll can no longer be changed');
+    }
+    
+    const optionIdErrors = validateOptionIds(optionIds, {
+      pollType: poll.poll_type ?? 'single',
+      minSelections: poll.min_selections ?? 1,
+      maxSelections: poll.max_selections ?? null
+    });
+    if (optionIdErrors.length > 0) {
+      return handleValidationError(optionIdErrors[0].message);
+    }
+    
+    const { error } = await supabase.rpc('change_vote', {
+      option_ids: optionIds,
+      poll_id: pollId,
+      user_id: user.id
+    });
+    
+    if (error) {
+      if (error.message.includes('is closed')) {
+        return handlePollClosedError();
+      }
+      if (error.message.includes('not invited')) {
+        return handleNotInvitedError();
+      }
+      if (error.message.includes('needs its passcode')) {
+        return handlePasscodeError('PASSCODE_REQUIRED');
+      }
+      if (error.message.includes('not voted') || error.message.includes('Select at')) {
+        return handleValidationError(error.message);
+      }
+      throw error;
+    }
+    
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to change vote', 'CHANGE_VOTE');
+  }
+}
+
+/**
+ * Withdraw the current user's ballot on a poll that allows vote changes
+ * @param pollId - The ID of the poll
+ * @returns Promise<ApiResponse> - The result of the withdrawal
+ */
+export async function retractVoteOperation(pollId: string): Promise<ApiResponse> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+    
+    const { error } = await supabase.rpc('retract_vote', {
+      poll_id: pollId,
+      user_id: user.id
+    });
+    
+    if (error) {
+      if (error.message.includes('is closed')) {
+        return handlePollClosedError();
+      }
+      if (
+        error.message.includes('not voted') ||
+        error.message.includes('cannot be changed') ||
+        error.message.includes('expired')
+      ) {
+        return handleValidationError(error.message);
+      }
+      if (error.message.includes('not found')) {
+        return handleNotFoundError('Poll');
+      }
+      throw error;
+    }
+    
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to withdraw vote', 'RETRACT_VOTE');
+  }
+}
+
+/**
+ * Cast a score ballot rating every option on the poll
+ * @param pollId - The ID of the poll to vote on
+ * @param scores - Star rating (0-5) per option ID
+ * @returns Promise<ApiResponse> - The voting result
+ */
+export async function scorePollOperation(pollId: string, scores: Record<string, number>): Promise<ApiResponse> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+    
+    const { data: options, error: optionsError } = await supabase
+      .from('poll_options')
+      .select('id')
+      .eq('poll_id', pollId);
+    
+    if (optionsError) throw optionsError;
+    
+    if (!options || options.length === 0) {
+      return handleNotFoundError('Poll');
+    }
+    
+    const scoreErrors = validateScores(scores, options.map(option => option.id));
+    if (scoreErrors.length > 0) {
+      return handleValidationError(scoreErrors[0].message);
+    }
+    
+    const optionIds = Object.keys(scores);
+    const { error } = await supabase.rpc('increment_scores', {
+      option_ids: optionIds,
+      scores: optionIds.map(optionId => scores[optionId]),
+      poll_id: pollId,
+      user_id: user.id
+    });
+    
+    if (error) {
+      if (error.message.includes('is closed')) {
+        return handlePollClosedError();
+      }
+      if (error.message.includes('not invited')) {
+        return handleNotInvitedError();
+      }
+      if (error.message.includes('needs its passcode')) {
+        return handlePasscodeError('PASSCODE_REQUIRED');
+      }
+      if (error.message.includes('already voted')) {
+        return handleValidationError('You have already voted on this poll');
+      }
+      if (
+        error.message.includes('does not accept scores') ||
+        error.message.includes('Score every option') ||
+        error.message.includes('not open yet')
+      ) {
+        return handleValidationError(error.message);
+      }
+      throw error;
+    }
+    
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to submit vote', 'VOTE_POLL');
+  }
+}
+
+/**
+ * Cast a budget ballot spreading the voter's points across the options
+ * @param pollId - The ID of the poll to vote on
+ * @param points - Points per option ID; options given none may be left out
+ * @returns Promise<ApiResponse> - The voting result
+ */
+export async function allocatePointsOperation(pollId: string, points: Record<string, number>): Promise<ApiResponse> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+    
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('poll_type, points_budget, poll_options(id)')
+      .eq('id', pollId)
+      .single();
+    
+    if (pollError || !poll) {
+      return handleNotFoundError('Poll');
+    }
+    
+    if (poll.poll_type !== 'budget' || poll.points_budget === null) {
+      return handleValidationError('This poll does not accept points');
+    }
+    
+    const allocation = withoutUnusedOptions(points ?? {});
+    const allocationErrors = validateAllocation(
+      allocation,
+      (poll.poll_options ?? []).map((option: { id: string }) => option.id),
+      poll.points_budget
+    );
+    if (allocationErrors.length > 0) {
+      return handleValidationError(allocationErrors[0].message);
+    }
+    
+    const optionIds = Object.keys(allocation);
+    const { error } = await supabase.rpc('allocate_points', {
+      option_ids: optionIds,
+      points: optionIds.map(optionId => allocation[optionId]),
+      poll_id: pollId,
+      user_id: user.id
+    });
+    
+    if (error) {
+      if (error.message.includes('is closed')) {
+        return handlePollClosedError();
+      }
+      if (error.message.includes('not invited')) {
+        return handleNotInvitedError();
+      }
+      if (error.message.includes('needs its passcode')) {
+        return handlePasscodeError('PASSCODE_REQUIRED');
+      }
+      if (error.message.includes('already voted')) {
+        return handleValidationError('You have already voted on this poll');
+      }
+      if (
+        error.message.includes('does not accept points') ||
+        error.message.includes('You can give at most') ||
+        error.message.includes('not open yet')
+      ) {
+        return handleValidationError(error.message);
+      }
+      throw error;
+    }
+    
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to submit vote', 'VOTE_POLL');
+  }
+}
+
+/**
+ * Cast a scheduling ballot answering every time slot on the poll
+ * @param pollId - The ID of the poll to vote on
+ * @param availability - Answer (yes, maybe or no) per time slot option ID
+ * @returns Promise<ApiResponse> - The voting result
+ */
+export async function submitAvailabilityOperation(
+  pollId: string,
+  availability: Record<string, Availability>
+): Promise<ApiResponse> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+    
+    const { data: options, error: optionsError } = await supabase
+      .from('poll_options')
+      .select('id')
+      .eq('poll_id', pollId);
+    
+    if (optionsError) throw optionsError;
+    
+    if (!options || options.length === 0) {
+      return handleNotFoundError('Poll');
+    }
+    
+    const availabilityErrors = validateAvailability(availability, options.map(option => option.id));
+    if (availabilityErrors.length > 0) {
+      return handleValidationError(availabilityErrors[0].message);
+    }
+    
+    const optionIds = Object.keys(availability);
+    const { error } = await supabase.rpc('submit_availability', {
+      option_ids: optionIds,
+      availability: optionIds.map(optionId => availability[optionId]),
+      poll_id: pollId,
+      user_id: user.id
+    });
+    
+    if (error) {
+      if (error.message.includes('is closed')) {
+        return handlePollClosedError();
+      }
+      if (error.message.includes('not invited')) {
+        return handleNotInvitedError();
+      }
+      if (error.message.includes('needs its passcode')) {
+        return handlePasscodeError('PASSCODE_REQUIRED');
+      }
+      if (error.message.includes('already voted')) {
+        return handleValidationError('You have already voted on this poll');
+      }
+      if (
+        error.message.includes('does not accept availability') ||
+        error.message.includes('Answer every time slot') ||
+        error.message.includes('not open yet')
+      ) {
+        return handleValidationError(error.message);
+      }
+      throw error;
+    }
+    
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to submit vote', 'VOTE_POLL');
+  }
+}
+
+/**
+ * Submit a written answer to a text response poll
+ * @param pollId - The ID of the poll to answer
+ * @param response - The raw response text; it is sanitized before storage
+ * @returns Promise<ApiResponse> - The submission result
+ */
+export async function submitTextResponseOperation(pollId: string, response: string): Promise<ApiResponse> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const sanitizedResponse = typeof response === 'string' ? InputSanitizer.sanitizeText(response) : '';
+    const responseErrors = validateTextResponse(sanitizedResponse);
+    if (responseErrors.length > 0) {
+      return handleValidationError(responseErrors[0].message);
+    }
+    
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+    
+    const { error } = await supabase.rpc('submit_text_response', {
+      poll_id: pollId,
+      user_id: user.id,
+      response: sanitizedResponse
+    });
+    
+    if (error) {
+      if (error.message.includes('is closed')) {
+        return handlePollClosedError();
+      }
+      if (error.message.includes('not invited')) {
+        return handleNotInvitedError();
+      }
+      if (error.message.includes('needs its passcode')) {
+        return handlePasscodeError('PASSCODE_REQUIRED');
+      }
+      if (error.message.includes('already voted')) {
+        return handleValidationError('You have already responded to this poll');
+      }
+      if (
+        error.message.includes('does not accept written responses') ||
+        error.message.includes('not open yet') ||
+        error.message.includes('expired')
+      ) {
+        return handleValidationError(error.message);
+      }
+      throw error;
+    }
+    
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to submit response', 'SUBMIT_TEXT_RESPONSE');
+  }
+}
+
+/**
+ * Get a page of responses to a text response poll (poll creator only)
+ * @param pollId - The ID of the poll
+ * @param query - Page number, page size and an optional search term
+ * @returns Promise<ApiResponse<TextResponsePage>> - The matching responses, newest first
+ */
+export async function getTextResponsesOperation(
+  pollId: string,
+  query: TextResponseQuery = {}
+): Promise<ApiResponse<TextResponsePage>> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const isOwner = await verifyPollOwnership(pollId);
+    if (!isOwner) {
+      return handlePermissionError('responses', 'view');
+    }
+    
+    const page = Math.max(1, Math.floor(query.page ?? 1));
+    const pageSize = Math.min(
+      TEXT_RESPONSE_PAGE_SIZE.max,
+      Math.max(1, Math.floor(query.pageSize ?? TEXT_RESPONSE_PAGE_SIZE.default))
+    );
+    const search = query.search?.trim() ?? '';
+    const from = (page - 1) * pageSize;
+    
+    const supabase = getSupabaseClient();
+    let request = supabase
+      .from('text_responses')
+      .select('id, response, created_at', { count: 'exact' })
+      .eq('poll_id', pollId);
+    
+    if (search) {
+      // Match the search literally rather than as an ILIKE pattern
+      request = request.ilike('response', `%${search.replace(/[\\%_]/g, match => `\\${match}`)}%`);
+    }
+    
+    const { data, count, error } = await request
+      .order('created_at', { ascending: false })
+      .range(from, from + pageSize - 1);
+    
+    if (error) throw error;
+    
+    return createSuccessResponse({
+      responses: data ?? [],
+      total: count ?? 0,
+      page,
+      pageSize
+    });
+  } catch (error) {
+    return handleError(error, 'Failed to load responses', 'GET_TEXT_RESPONSES');
+  }
+}
+
+/**
+ * Summarize the responses to a text response poll by word frequency (poll creator only)
+ * @param pollId - The ID of the poll
+ * @returns Promise<ApiResponse<TextResponseSummary>> - Response count and most frequent words
+ */
+export async function getTextResponseSummaryOperation(pollId: string): Promise<ApiResponse<TextResponseSummary>> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const isOwner = await verifyPollOwnership(pollId);
+    if (!isOwner) {
+      return handlePermissionError('responses', 'view');
+    }
+    
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('text_responses')
+      .select('response')
+      .eq('poll_id', pollId);
+    
+    if (error) throw error;
+    
+    const responses = (data ?? []).map(row => row.response as string);
+    
+    return createSuccessResponse({
+      totalResponses: responses.length,
+      words: countWordFrequencies(responses)
+    });
+  } catch (error) {
+    return handleError(error, 'Failed to summarize responses', 'GET_TEXT_RESPONSE_SUMMARY');
+  }
+}
+
+/**
+ * Resolve the selection limits stored for a new poll
+ * Only multi-select polls have configurable limits; ranked, approval and score
+ * ballots may cover any number of options, so they have no maximum
+ * @param pollType - The type of poll being created
+ * @param data - The submitted poll data
+ * @returns The min_selections and max_selections columns
+ */
+export function getSelectionLimits(pollType: PollType, data: PollData) {
+  switch (pollType) {
+    case 'multiple':
+      return { min_selections: data.minSelections ?? 1, max_selections: data.maxSelections ?? null };
+    case 'ranked':
+    case 'approval':
+    case 'score':
+    case 'text':
+    case 'schedule':
+    case 'budget':
+      return { min_selections: 1, max_selections: null };
+    default:
+      return { min_selections: 1, max_selections: 1 };
+  }
+}
+
+/**
+ * The time slot columns of an option; only scheduling polls store them
+ * @param pollType - The type of the poll the option belongs to
+ * @param option - The submitted option
+ * @returns The starts_at and ends_at columns, or nothing for other poll types
+ */
+function getTimeSlotColumns(pollType: PollType | undefined, option: PollOption) {
+  return pollType === 'schedule'
+    ? { starts_at: option.startsAt ?? null, ends_at: option.endsAt ?? null }
+    : {};
+}
+
+/**
+ * Store the answer key of a quiz question, one row per option
+ * @param pollId - The quiz question's poll ID
+ * @param options - The options as submitted, with their correct flags and explanations
+ * @param optionIds - The IDs the options were created with, in the same order
+ */
+export async function saveQuizKey(pollId: string, options: PollOption[], optionIds: string[]): Promise<void> {
+  const supabase = getSupabaseClient();
+  
+  const { error } = await supabase
+    .from('quiz_answer_keys')
+    .insert(options.map((option, index) => ({
+      option_id: optionIds[index],
+      poll_id: pollId,
+      is_correct: !!option.isCorrect,
+      explanation: option.explanation ? InputSanitizer.sanitizeText(option.explanation) || null : null
+    })));
+  
+  if (error) throw error;
+}
+
+/**
+ * Score the quiz questions among the given polls (their creator only)
+ * Ownership is checked by the caller; the database only returns ballots and
+ * answer keys for the current user's own polls.
+ * @param pollIds - The polls to include, in the order to report them
+ * @returns Promise<QuizReport> - Leaderboard and per-question difficulty
+ */
+export async function loadQuizReport(pollIds: string[]): Promise<QuizReport> {
+  const supabase = getSupabaseClient();
+  
+  const [questionsResult, keysResult, ballotsResult] = await Promise.all([
+    supabase.from('polls').select('id, poll_type').in('id', pollIds).eq('is_quiz', true),
+    supabase.from('quiz_answer_keys').select('poll_id, option_id').in('poll_id', pollIds).eq('is_correct', true),
+    supabase.rpc('get_quiz_ballots', { poll_ids: pollIds })
+  ]);
+  
+  if (questionsResult.error) throw questionsResult.error;
+  if (keysResult.error) throw keysResult.error;
+  if (ballotsResult.error) throw ballotsResult.error;
+  
+  const pollTypes = new Map((questionsResult.data ?? []).map(question => [question.id, question.poll_type as string]));
+  const keys = keysResult.data ?? [];
+  
+  const questions = pollIds
+    .filter(pollId => pollTypes.has(pollId))
+    .map(pollId => ({
+      id: pollId,
+      pollType: pollTypes.get(pollId)!,
+      correctOptionIds: keys.filter(key => key.poll_id === pollId).map(key => key.option_id)
+    }));
+  
+  return summarizeQuiz(questions, (ballotsResult.data ?? []) as QuizBallot[]);
+}
+
+/**
+ * Get the answer key of a quiz question, once the current user has answered it
+ * @param pollId - The ID of the quiz question
+ * @returns Promise<ApiResponse<QuizFeedback | null>> - The feedback, or null before answering
+ */
+export async function getQuizFeedbackOperation(pollId: string): Promise<ApiResponse<QuizFeedback | null>> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const supabase = getSupabaseClient();
+    
+    const [pollResult, feedbackResult] = await Promise.all([
+      supabase.from('polls').select('poll_type').eq('id', pollId).single(),
+      supabase.rpc('get_quiz_feedback', { poll_uuid: pollId })
+    ]);
+    
+    if (pollResult.error) {
+      if (pollResult.error.code === 'PGRST116') {
+        return handleNotFoundError('Poll');
+      }
+      throw pollResult.error;
+    }
+    if (feedbackResult.error) throw feedbackResult.error;
+    
+    const rows = (feedbackResult.data ?? []) as QuizFeedbackRow[];
+    
+    // Nothing comes back until the user has answered
+    if (rows.length === 0) {
+      return createSuccessResponse(null);
+    }
+    
+    return createSuccessResponse({
+      correct: isQuizAnswerCorrect(
+        pollResult.data.poll_type ?? 'single',
+        rows.filter(row => row.selected).map(row => row.option_id),
+        rows.filter(row => row.is_correct).map(row => row.option_id)
+      ),
+      options: rows.map(row => ({
+        optionId: row.option_id,
+        isCorrect: row.is_correct,
+        explanation: row.explanation,
+        selected: row.selected
+      }))
+    });
+  } catch (error) {
+    return handleError(error, 'Failed to load quiz feedback', 'GET_QUIZ_FEEDBACK');
+  }
+}
+
+/**
+ * Get the leaderboard and difficulty of a quiz poll (poll creator only)
+ * @param pollId - The ID of the quiz poll
+ * @returns Promise<ApiResponse<QuizReport>> - Leaderboard and percent correct
+ */
+export async function getQuizReportOperation(pollId: string): Promise<ApiResponse<QuizReport>> {
+  try {
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const isOwner = await verifyPollOwnership(pollId);
+    if (!isOwner) {
+      return handlePermissionError('quiz', 'view the results of');
+    }
+    
+    return createSuccessResponse(await loadQuizReport([pollId]));
+  } catch (error) {
+    return handleError(error, 'Failed to load quiz results', 'GET_QUIZ_REPORT');
+  }
+}
+
+/**
+ * A poll with its counts left out, for viewers who may not see the results yet
+ */
+function withoutResults(poll: Poll): Poll {
+  return {
+    ...poll,
+    options: poll.options.map(option => ({ ...option, votes: 0 })),
+    totalVotes: 0,
+    totalVoters: 0,
+    resultsHidden: true
+  };
+}
+
+/**
+ * Get a specific poll by ID
+ * Counts are left out while the poll's results visibility setting hides them from the viewer,
+ * and passcode-protected polls are only returned once the viewer has entered the passcode.
+ * @param pollId - The ID of the poll to retrieve
+ * @param voterToken - The visitor's verified voter token, for visitors without an account
+ * @param passcode - The poll's passcode, when the viewer has one
+ * @param clientAddress - The client address, to throttle visitors' passcode attempts
+ * @returns Promise<ApiResponse<Poll>> - The poll data
+ */
+export async function getPollOperation(
+  pollId: string,
+  voterToken: string | null = null,
+  passcode: string | null = null,
+  clientAddress: string = 'unknown'
+): Promise<ApiResponse<Poll>> {
+  try {
+    // Validate poll ID
+    const pollIdErrors = validatePollId(pollId);
+    if (pollIdErrors.length > 0) {
+      return handleValidationError(pollIdErrors[0].message);
+    }
+    
+    const supabase = getSupabaseClient();
+    // The counts can't be selected through the API, so they are read with the
+    // service role and only handed out once the checks below pass
+    const service = createServiceClient();
+    
+    const { data, error } = await service
+      .from('polls')
+      .select('id, question, created_at, user_id, opens_at, expires_at, poll_type, min_selections, max_selections, voter_count, survey_id, is_quiz, time_zone, points_budget, allow_vote_changes, allow_anonymous, is_secret, results_visibility, close_after_votes, eligible_voters, quorum_percent, close_lead_margin, closed_at, close_reason, is_invite_only, has_passcode, is_weighted, allow_delegation, tags, poll_options(*)')
+      .eq('id', pollId)
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return handleNotFoundError('Poll');
+      }
+      throw error;
+    }
+    
+    const access = await checkPollPasscode(pollId, data, passcode, voterToken, clientAddress);
+    if (!access.success) {
+      return { success: false, error: access.error, code: access.code };
+    }
+    
+    // Format the poll data
+    const totalVotes = data.poll_options.reduce((acc: number, option: any) => 
+      acc + (option.votes || 0), 0);
+    const pollType = data.poll_type ?? 'single';
+    
+    const formattedPoll: Poll = {
+      id: data.id,
+      question: data.question,
+      options: data.poll_options.map((option: any) => ({
+        id: option.id,
+        text: option.option_text,
+        votes: option.votes || 0,
+        imageUrl: getOptionImageUrl(supabase, option.image_path),
+        ...(pollType === 'schedule' && { startsAt: option.starts_at, endsAt: option.ends_at })
+      })),
+      totalVotes,
+      // Single-choice polls have one vote per voter; other poll types and weighted polls keep a separate voter count
+      totalVoters: pollType === 'single' && !data.is_weighted ? totalVotes : data.voter_count ?? 0,
+      user_id: data.user_id,
+      created_at: data.created_at,
+      opens_at: data.opens_at ?? null,
+      expires_at: data.expires_at,
+      poll_type: pollType,
+      min_selections: data.min_selections ?? 1,
+      max_selections: data.max_selections ?? null,
+      survey_id: data.survey_id ?? null,
+      is_quiz: data.is_quiz ?? false,
+      time_zone: data.time_zone ?? null,
+      points_budget: data.points_budget ?? null,
+      allow_vote_changes: data.allow_vote_changes ?? false,
+      allow_anonymous: data.allow_anonymous ?? false,
+      is_secret: data.is_secret ?? false,
+      results_visibility: data.results_visibility ?? 'always',
+      close_after_votes: data.close_after_votes ?? null,
+      eligible_voters: data.eligible_voters ?? null,
+      quorum_percent: data.quorum_percent ?? null,
+      close_lead_margin: data.close_lead_margin ?? null,
+      closed_at: data.closed_at ?? null,
+      close_reason: data.close_reason ?? null,
+      is_invite_only: data.is_invite_only ?? false,
+      has_passcode: data.has_passcode ?? false,
+      is_weighted: data.is_weighted ?? false,
+      allow_delegation: data.allow_delegation ?? false,
+      tags: data.tags ?? []
+    };
+    
+    // Time slots are listed in chronological order
+    if (pollType === 'schedule') {
+      formattedPoll.options.sort((a, b) => (a.startsAt ?? '').localeCompare(b.startsAt ?? ''));
+    }
+    
+    if (formattedPoll.results_visibility !== 'always' || formattedPoll.is_secret) {
+      const { data: authData } = await supabase.auth.getUser();
+      const viewerId = authData.user?.id;
+      const voteStatus = viewerId
+        ? await checkVoteStatusOperation(pollId)
+        : await checkAnonymousVoteStatusOperation(pollId, voterToken);
+      
+      const canView = canViewResults(formattedPoll.results_visibility, {
+        isCreator: viewerId === formattedPoll.user_id,
+        hasVoted: voteStatus.hasVoted,
+        isClosed: isPollClosed(formattedPoll),
+        isSecret: formattedPoll.is_secret
+      });
+      
+      if (!canView) {
+        return createSuccessResponse(withoutResults(formattedPoll));
+      }
+    }
+    
+    // Weighted totals and budget points are in the option counts; the headcount sits beside them
+    if (formattedPoll.is_weighted || pollType === 'budget') {
+      const { data: counts, error: countsError } = await service
+        .rpc('get_option_headcounts', { poll_uuid: pollId });
+      
+      if (countsError) throw countsError;
+      
+      formattedPoll.headcounts = Object.fromEntries(
+        (counts ?? []).map((count: { option_id: string; voters: number }) => [count.option_id, Number(count.voters)])
+      );
+    }
+    
+    // Once the poll closes, votes delegated to its voters count towards their choices
+    if (formattedPoll.allow_delegation && isPollClosed(formattedPoll)) {
+      const { data: tally, error: tallyError } = await service
+        .rpc('get_delegated_tally', { poll_uuid: pollId });
+      
+      if (tallyError) throw tallyError;
+      
+      const rows = (tally ?? []) as { option_id: string | null; votes: number }[];
+      const delegatedVotes: Record<string, number> = {};
+      for (const row of rows) {
+        if (row.option_id) delegatedVotes[row.option_id] = Number(row.votes);
+      }
+      
+      formattedPoll.delegatedVotes = delegatedVotes;
+      formattedPoll.delegatorCount = Number(rows.find(row => row.option_id === null)?.votes ?? 0);
+      formattedPoll.options = formattedPoll.options.map(option => ({
+        ...option,
+        votes: (option.votes ?? 0) + (delegatedVotes[option.id!] ?? 0)
+      }));
+      formattedPoll.totalVotes += Object.values(delegatedVotes).reduce((sum, votes) => sum + votes, 0);
+      formattedPoll.totalVoters += formattedPoll.delegatorCount;
+    }
+    
+    if (pollType === 'ranked') {
+      const { data: ballots, error: ballotsError } = await service
+        .rpc('get_ranked_ballots', { poll_uuid: pollId });
+      
+      if (ballotsError) throw ballotsError;
+      
+      const optionIds = formattedPoll.options.map(option => option.id!);
+      const rankings = (ballots ?? []).map((ballot: { ranking: string[] }) => ballot.ranking);
+      formattedPoll.instantRunoff = runInstantRunoff(optionIds, rankings);
+      formattedPoll.schulze = runSchulze(optionIds, rankings);
+    }
+    
+    if (pollType === 'score') {
+      const { data: counts, error: countsError } = await service
+        .rpc('get_score_distribution', { poll_uuid: pollId });
+      
+      if (countsError) throw countsError;
+      
+      formattedPoll.scores = summarizeScores(
+        formattedPoll.options.map(option => option.id!),
+        (counts ?? []) as ScoreCount[]
+      );
+    }
+    
+    if (pollType === 'schedule') {
+      const { data: counts, error: countsError } = await service
+        .rpc('get_availability_counts', { poll_uuid: pollId });
+      
+      if (countsError) throw countsError;
+      
+      formattedPoll.availability = summarizeAvailability(
+        formattedPoll.options.map(option => option.id!),
+        (counts ?? []) as AvailabilityCount[]
+      );
+    }
+    
+    return createSuccessResponse(formattedPoll);
+  } catch (error) {
+    return handleError(error, 'Failed to load poll', 'GET_POLL');
+  }
+}
+
+/**
+ * Get all polls for the current user
+ * @returns Promise<ApiResponse<{polls: UserPoll[], upcomingPolls: UserPoll[], ongoingPolls: UserPoll[], expiredPolls: UserPoll[]}>> - User's polls
+ */
+export async function getUserPollsOperation(): Promise<ApiResponse<{ 
+  polls: UserPoll[], 
+  upcomingPolls: UserPoll[], 
+  ongoingPolls: UserPoll[], 
+  expiredPolls: UserPoll[] 
+}>> {
+  try {
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+    
+    const { data, error } = await supabase
+      .from('polls')
+      .select('id, question, created_at, opens_at, expires_at, closed_at, close_reason, user_id')
+      .eq('user_id', user.id)
+      .is('survey_id', null) // Survey questions are listed with their survey
+      .order('created_at', { ascending: false });
+    
+    if (error) throw error;
+
+    // The creator may always see the counts of their own polls
+    const { data: counts, error: countsError } = await supabase
+      .rpc('get_option_counts', { poll_uuids: data.map(poll => poll.id) });
+    
+    if (countsError) throw countsError;
+    
+    const votesByPoll = new Map<string, number>();
+    (counts ?? []).forEach((count: { poll_id: string; votes: number }) => {
+      votesByPoll.set(count.poll_id, (votesByPoll.get(count.poll_id) ?? 0) + count.votes);
+    });
+
+    const currentTime = new Date();
+    const pollsWithVotes: UserPoll[] = data.map((poll: Omit<DatabasePoll, 'poll_options'>) => {
+      const totalVotes = votesByPoll.get(poll.id) ?? 0;
+      
+      const status = getPollStatus(
+        { opens_at: poll.opens_at ?? null, expires_at: poll.expires_at, closed_at: poll.closed_at },
+        currentTime
+      );
+      
+      return {
+        id: poll.id,
+        question: poll.question,
+        created_at: poll.created_at,
+        opens_at: poll.opens_at ?? null,
+        expires_at: poll.expires_at,
+        closed_at: poll.closed_at ?? null,
+        close_reason: poll.close_reason ?? null,
+        user_id: poll.user_id,
+        totalVotes,
+        isExpired: status === 'expired',
+        status
+      };
+    });
+
+    // Categorize polls
+    const upcomingPolls = pollsWithVotes.filter(poll => poll.status === 'scheduled');
+    const ongoingPolls = pollsWithVotes.filter(poll => poll.status === 'ongoing');
+    const expiredPolls = pollsWithVotes.filter(poll => poll.status === 'expired');
+
+    return createSuccessResponse({
+      polls: pollsWithVotes,
+      upcomingPolls,
+      ongoingPolls,
+      expiredPolls
+    });
+  } catch (error) {
+    return handleError(error, 'Failed to load polls', 'GET_USER_POLLS');
+  }
+}
+
+/**
+ * Check if the current user has voted on a poll
+ * @param pollId - The ID of the poll to check
+ * @returns Promise<VoteStatus> - The vote status information
+ */
+export async function checkVoteStatusOperation(pollId: string): Promise<VoteStatus> {
+  try {
+    const supabase = getSupabaseClient();
+    
+    // Try to get the current user, but don't throw if not authenticated
+    const { data } = await supabase.auth.getUser();
+    const user = data.user;
+    
+    if (!user) {
+      return { hasVoted: false };
+    }
+    
+    const { data: voteData, error } = await supabase
+      .from('votes')
+      .select('option_id, vote_selections(option_id, rank, score, availability, points), polls(allow_vote_changes, expires_at, closed_at)')
+      .eq('user_id', user.id)
+      .eq('poll_id', pollId)
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') { // No rows returned
+        return { hasVoted: false, optionId: null, optionIds: [] };
+      }
+      throw error;
+    }
+    
+    // Multi-select and ranked ballots keep their choices in vote_selections
+    const selections: {
+      option_id: string;
+      rank: number | null;
+      score: number | null;
+      availability: Availability | null;
+      points: number | null;
+    }[] = voteData.vote_selections ?? [];
+    const optionIds = selections.length > 0
+      ? [...selections]
+          .sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0))
+          .map(selection => selection.option_id)
+      : voteData.option_id ? [voteData.option_id] : [];
+    
+    const scores: Record<string, number> = {};
+    const points: Record<string, number> = {};
+    const availability: Record<string, Availability> = {};
+    selections.forEach(selection => {
+      if (selection.score !== null) {
+        scores[selection.option_id] = selection.score;
+      }
+      if (selection.points !== null) {
+        points[selection.option_id] = selection.points;
+      }
+      if (selection.availability !== null) {
+        availability[selection.option_id] = selection.availability;
+      }
+    });
+    
+    // A vote belongs to one poll, so the embedded poll is a single row
+    const poll = voteData.polls as unknown as VoteChangeSettings | null;
+    
+    // The current choice is returned so a voter who may still change it sees it preselected
+    return {
+      hasVoted: true,
+      optionId: voteData.option_id,
+      optionIds,
+      canChangeVote: !!poll && canChangeVote(poll),
+      ...(Object.keys(scores).length > 0 && { scores }),
+      ...(Object.keys(points).length > 0 && { points }),
+      ...(Object.keys(availability).length > 0 && { availability })
+    };
   } catch (error) {
     return { hasVoted: false, error: 'Failed to check vote status' };
   }
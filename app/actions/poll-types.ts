@@ -1,15 +1,86 @@
 // Poll-related types and interfaces
 
+import type {
+  Availability,
+  AvailabilitySummary,
+  InstantRunoffResult,
+  QuizReport,
+  SchulzeResult,
+  ScoreSummary,
+  WordFrequency
+} from '@/lib/tabulation';
+import type { BranchRule } from '@/lib/survey-branching';
+import type { ResultsVisibility } from '@/lib/results-visibility';
+import type { PollStatus } from '@/lib/poll-schedule';
+import type { CloseReason } from '@/lib/auto-close';
+import type { InviteStatus, Turnout } from '@/lib/poll-invites';
+import type { BallotCodeStatus, BallotCodeSummary } from '@/lib/ballot-codes';
+import type { VoterWeightEntry } from '@/lib/voter-weights';
+
+export type {
+  BranchRule,
+  ResultsVisibility,
+  CloseReason,
+  InviteStatus,
+  Turnout,
+  BallotCodeStatus,
+  BallotCodeSummary,
+  VoterWeightEntry
+};
+
+/**
+ * How voters answer a poll.
+ * - single: exactly one option per voter
+ * - multiple: between min_selections and max_selections options per voter
+ * - ranked: options in order of preference, counted by instant runoff
+ * - approval: any number of options per voter
+ * - score: every option rated from 0 to 5 stars
+ * - text: a written response instead of options
+ * - schedule: every time slot answered yes, if need be or no
+ * - budget: a fixed number of points spread across the options
+ */
+export type PollType = 'single' | 'multiple' | 'ranked' | 'approval' | 'score' | 'text' | 'schedule' | 'budget';
+
+export type { Availability };
+
 export interface PollOption {
   id?: string;
   text: string;
   votes?: number;
+  isCorrect?: boolean; // Quiz answer key; only sent when creating a quiz question
+  explanation?: string | null; // Shown to quiz participants once they have answered
+  startsAt?: string | null; // Time slot on scheduling polls, as an ISO timestamp
+  endsAt?: string | null;
+  imagePath?: string | null; // Object name in the poll-images bucket
+  imageUrl?: string | null; // Public URL of the image; filled in when reading a poll
 }
 
 export interface PollData {
   question: string;
   options: PollOption[];
   expiresAt?: string | null;
+  opensAt?: string | null; // Votes are accepted from this time on; unset opens the poll right away
+  pollType?: PollType;
+  minSelections?: number;
+  maxSelections?: number | null;
+  isQuiz?: boolean; // Mark options as correct and score participants
+  timeZone?: string | null; // IANA zone the time slots of a scheduling poll were proposed in
+  pointsBudget?: number | null; // Points each voter spreads across the options of a budget poll
+  allowVoteChanges?: boolean; // Voters may change or withdraw their vote until the poll closes
+  allowAnonymous?: boolean; // Visitors without an account may vote
+  isSecret?: boolean; // Keep choices apart from who voted; set only when the poll is created
+  resultsVisibility?: ResultsVisibility; // When voters see the results; defaults to always
+  closeAfterVotes?: number | null; // Close the poll once this many ballots have been cast
+  eligibleVoters?: number | null; // Size of the electorate the quorum is measured against
+  quorumPercent?: number | null; // Close the poll once this percentage of eligibleVoters have voted
+  closeLeadMargin?: number | null; // Close the poll once one option leads the runner-up by this many votes
+  isInviteOnly?: boolean; // Only invited users may vote
+  invitees?: string[]; // Email addresses or user IDs to invite when the poll is created
+  passcode?: string | null; // Access code voters enter before they can see or vote on the poll
+  isWeighted?: boolean; // Each ballot counts its voter's weight; only voters with a weight may vote
+  voterWeights?: VoterWeightEntry[]; // Weights to assign when the poll is created
+  allowDelegation?: boolean; // Voters may delegate their vote to another user
+  tags?: string[]; // Lower case; a delegation for a tag covers every poll with it
 }
 
 export interface Poll {
@@ -17,9 +88,41 @@ export interface Poll {
   question: string;
   options: PollOption[];
   totalVotes: number;
+  totalVoters: number;
   user_id: string;
   created_at: string;
+  opens_at: string | null;
   expires_at: string | null;
+  poll_type: PollType;
+  min_selections: number;
+  max_selections: number | null;
+  survey_id: string | null; // Set when the poll is a question of a survey
+  is_quiz: boolean;
+  time_zone: string | null;
+  points_budget: number | null;
+  allow_vote_changes: boolean;
+  allow_anonymous: boolean;
+  is_secret: boolean;
+  results_visibility: ResultsVisibility;
+  resultsHidden?: boolean; // Set when the viewer may not see the results yet; counts are then zero
+  close_after_votes: number | null;
+  eligible_voters: number | null;
+  quorum_percent: number | null;
+  close_lead_margin: number | null;
+  closed_at: string | null; // Set when an auto-close rule closed the poll before its expiry
+  close_reason: CloseReason | null;
+  is_invite_only: boolean;
+  has_passcode: boolean;
+  is_weighted: boolean;
+  headcounts?: Record<string, number>; // Only set on weighted and budget polls: voters behind each option, keyed by option ID
+  allow_delegation: boolean;
+  tags: string[];
+  delegatedVotes?: Record<string, number>; // Only set on polls that allow delegation once they close, keyed by option ID
+  delegatorCount?: number; // Set with delegatedVotes: voters whose delegated votes are counted
+  instantRunoff?: InstantRunoffResult; // Only set on ranked polls
+  schulze?: SchulzeResult; // Only set on ranked polls
+  scores?: Record<string, ScoreSummary>; // Only set on score polls, keyed by option ID
+  availability?: Record<string, AvailabilitySummary>; // Only set on scheduling polls, keyed by option ID
 }
 
 export interface UserPoll {
@@ -29,19 +132,28 @@ export interface UserPoll {
   expires_at: string | null;
   user_id: string;
   totalVotes: number;
+  opens_at: string | null;
+  closed_at: string | null;
+  close_reason: CloseReason | null;
   isExpired: boolean;
-  status: 'ongoing' | 'expired';
+  status: PollStatus;
 }
 
 export interface ApiResponse<T = any> {
   success: boolean;
   error?: string;
+  code?: string; // Set on some errors, from POLL_ERROR_CODES
   data?: T;
 }
 
 export interface VoteStatus {
   hasVoted: boolean;
   optionId?: string | null;
+  optionIds?: string[];
+  scores?: Record<string, number>; // The voter's ratings on score polls
+  points?: Record<string, number>; // The voter's points on budget polls; options given none are left out
+  availability?: Record<string, Availability>; // The voter's answers on scheduling polls
+  canChangeVote?: boolean; // The poll allows vote changes and hasn't closed yet
   error?: string;
 }
 
@@ -49,8 +161,32 @@ export interface DatabasePoll {
   id: string;
   question: string;
   created_at: string;
+  opens_at?: string | null;
   expires_at: string | null;
   user_id: string;
+  poll_type?: PollType;
+  min_selections?: number;
+  max_selections?: number | null;
+  voter_count?: number;
+  survey_id?: string | null;
+  is_quiz?: boolean;
+  time_zone?: string | null;
+  points_budget?: number | null;
+  allow_vote_changes?: boolean;
+  allow_anonymous?: boolean;
+  is_secret?: boolean;
+  results_visibility?: ResultsVisibility;
+  close_after_votes?: number | null;
+  eligible_voters?: number | null;
+  quorum_percent?: number | null;
+  close_lead_margin?: number | null;
+  closed_at?: string | null;
+  close_reason?: CloseReason | null;
+  is_invite_only?: boolean;
+  has_passcode?: boolean;
+  is_weighted?: boolean;
+  allow_delegation?: boolean;
+  tags?: string[];
   poll_options: DatabasePollOption[];
 }
 
@@ -59,6 +195,70 @@ export interface DatabasePollOption {
   option_text: string;
   votes: number;
   poll_id: string;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  image_path?: string | null;
+}
+
+/**
+ * The answer key of a quiz question as seen by someone who has answered it
+ */
+export interface QuizFeedback {
+  correct: boolean; // Whether the caller's own answer is right
+  options: {
+    optionId: string;
+    isCorrect: boolean;
+    explanation: string | null;
+    selected: boolean; // On the caller's own ballot
+  }[];
+}
+
+export type { QuizReport };
+
+/**
+ * An invitation to vote on an invite-only poll, as its creator sees it
+ */
+export interface PollInvite {
+  id: string;
+  user_id: string | null; // Set on invites by user ID
+  email: string | null; // Set on invites by email address
+  status: InviteStatus;
+  created_at: string;
+}
+
+/**
+ * A single-use ballot code, as the poll's creator sees it
+ */
+export interface BallotCode {
+  id: string;
+  code: string; // As XXXX-XXXX
+  status: BallotCodeStatus;
+  spent_at: string | null; // Not recorded on secret-ballot polls
+  created_at: string;
+}
+
+/**
+ * An eligible voter's weight on a weighted poll, as its creator sees it
+ */
+export interface VoterWeight {
+  id: string;
+  user_id: string | null; // Set on weights by user ID
+  email: string | null; // Set on weights by email address
+  weight: number;
+}
+
+export interface Delegation {
+  id: string;
+  delegate_id: string | null; // Set on delegations by user ID
+  delegate_email: string | null; // Set on delegations by email address
+  poll_id: string | null; // Set on delegations for one poll
+  tag: string | null; // Set on delegations for every poll with the tag
+  created_at: string;
+}
+
+export interface PollDelegation {
+  delegation: Delegation | null; // The viewer's delegation that applies to the poll, if any
+  locked: boolean; // The poll has closed, so delegations can no longer change
 }
 
 export interface UserAuthData {
@@ -66,7 +266,101 @@ export interface UserAuthData {
   email?: string;
 }
 
-export type PollStatus = 'ongoing' | 'expired';
+export type { PollStatus };
+
+export interface TextResponse {
+  id: string;
+  response: string;
+  created_at: string;
+}
+
+export interface TextResponseQuery {
+  page?: number; // 1-based
+  pageSize?: number;
+  search?: string;
+}
+
+export interface TextResponsePage {
+  responses: TextResponse[];
+  total: number; // Responses matching the search
+  page: number;
+  pageSize: number;
+}
+
+export interface TextResponseSummary {
+  totalResponses: number;
+  words: WordFrequency[];
+}
+
+/**
+ * A survey: an ordered list of questions answered in one session and submitted
+ * together. Each question is stored as a poll with its own type and options.
+ */
+export interface SurveyData {
+  title: string;
+  description?: string | null;
+  expiresAt?: string | null; // Applies to every question
+  questions: SurveyQuestionData[]; // In the order respondents see them
+  branches?: BranchRule[]; // Skip logic, using the draft IDs of questions and options
+}
+
+/**
+ * A survey question before it is saved. The question and its options carry
+ * draft IDs chosen by the client so branch rules can refer to them; they are
+ * replaced by database IDs when the survey is created.
+ */
+export interface SurveyQuestionData extends PollData {
+  id?: string;
+}
+
+export interface Survey {
+  id: string;
+  title: string;
+  description: string | null;
+  user_id: string;
+  created_at: string;
+  expires_at: string | null;
+  questions: Poll[];
+  branches: BranchRule[];
+  respondents: number; // Respondents who started, including those who finished
+  completions: number;
+}
+
+/**
+ * One question's answer; which field is used depends on the question's poll type
+ */
+export interface SurveyAnswer {
+  optionIds?: string[]; // Choice questions; preference order on ranked questions
+  scores?: Record<string, number>; // Score questions, keyed by option ID
+  response?: string; // Text response questions
+}
+
+export type SurveyAnswers = Record<string, SurveyAnswer>; // Keyed by question (poll) ID
+
+export interface SurveyProgress {
+  answers: SurveyAnswers;
+  currentQuestion: number; // 0-based
+  completed: boolean;
+}
+
+export interface UserSurvey {
+  id: string;
+  title: string;
+  created_at: string;
+  expires_at: string | null;
+  user_id: string;
+  questionCount: number;
+  totalVotes: number;
+  respondents: number;
+  completions: number;
+  completionRate: number | null; // Completions / respondents; null until someone starts
+  isExpired: boolean;
+  status: PollStatus;
+}
+
+export interface SurveyCreationResult {
+  surveyId: string;
+}
 
 export interface PollCreationResult {
   pollId: string;
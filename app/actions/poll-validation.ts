@@ -1,4 +1,20 @@
-import type { PollData, PollOption } from './poll-types';
+import type { Availability, BranchRule, PollData, PollOption, PollType, SurveyAnswer, SurveyData } from './poll-types';
+import { AVAILABILITY_ANSWERS, MAX_SCORE, QUIZ_POLL_TYPES } from '@/lib/tabulation';
+import { SECURITY_CONFIG } from '@/lib/security';
+import { IMAGE_POLL_TYPES, isValidImagePath } from '@/lib/option-images';
+import { BRANCHABLE_POLL_TYPES, findBranchCycle } from '@/lib/survey-branching';
+import { isValidTimeZone } from '@/lib/time-slots';
+import { VOTE_CHANGE_POLL_TYPES } from '@/lib/vote-changes';
+import { ANONYMOUS_POLL_TYPES } from '@/lib/anonymous-voting';
+import { SECRET_BALLOT_POLL_TYPES } from '@/lib/secret-ballots';
+import { RESULTS_VISIBILITY } from '@/lib/results-visibility';
+import { LEAD_MARGIN_POLL_TYPES } from '@/lib/auto-close';
+import { MAX_INVITEES, parseInvitees } from '@/lib/poll-invites';
+import { PASSCODE_LENGTH, isValidPasscode } from '@/lib/poll-passcodes';
+import { MAX_BALLOT_CODES, isValidBallotCode } from '@/lib/ballot-codes';
+import { MAX_VOTER_WEIGHT, MAX_WEIGHTED_VOTERS, WEIGHTED_POLL_TYPES, type VoterWeightEntry } from '@/lib/voter-weights';
+import { DELEGATION_POLL_TYPES, MAX_POLL_TAGS, MAX_TAG_LENGTH, isValidTag } from '@/lib/delegation';
+import { MAX_POINTS_BUDGET } from '@/lib/points-budget';
 
 /**
  * Validation error interface
@@ -32,7 +48,27 @@ const VALIDATION_CONFIG = {
   options: {
     minCount: 2,
     maxCount: 10,
-  }
+  },
+  selections: {
+    minCount: 1,
+  },
+  scores: {
+    min: 0,
+    max: MAX_SCORE,
+  },
+  textResponse: {
+    maxLength: SECURITY_CONFIG.TEXT_LIMITS.TEXT_RESPONSE_MAX,
+  },
+  survey: {
+    titleMaxLength: SECURITY_CONFIG.TEXT_LIMITS.POLL_TITLE_MAX,
+    descriptionMaxLength: SECURITY_CONFIG.TEXT_LIMITS.POLL_QUESTION_MAX,
+    minQuestions: 1,
+    maxQuestions: SECURITY_CONFIG.TEXT_LIMITS.MAX_SURVEY_QUESTIONS,
+  },
+  quiz: {
+    explanationMaxLength: SECURITY_CONFIG.TEXT_LIMITS.QUIZ_EXPLANATION_MAX,
+  },
+  pollTypes: ['single', 'multiple', 'ranked', 'approval', 'score', 'text', 'schedule', 'budget'] as PollType[],
 };
 
 /**
@@ -204,63 +240,151 @@ function validateExpirationDate(expiresAt?: string | null): ValidationError[] {
 }
 
 /**
- * Comprehensive poll data validation
+ * Validate the opening time of a scheduled poll
+ * A time in the past is fine: the poll is open right away.
  * @param data - The poll data to validate
- * @returns ValidationResult - The validation result with errors if any
+ * @returns ValidationError[] - Array of validation errors
  */
-export function validatePollData(data: PollData): ValidationResult {
+function validateOpeningTime(data: PollData): ValidationError[] {
   const errors: ValidationError[] = [];
   
-  // Validate question
-  errors.push(...validatePollQuestion(data.question));
+  if (!data.opensAt) {
+    return errors;
+  }
   
-  // Validate options
-  errors.push(...validatePollOptions(data.options));
+  const openingDate = new Date(data.opensAt);
   
-  // Validate expiration date
-  errors.push(...validateExpirationDate(data.expiresAt));
+  if (isNaN(openingDate.getTime())) {
+    errors.push({
+      field: 'opensAt',
+      message: 'Invalid opening time format',
+      code: 'OPENING_INVALID_FORMAT'
+    });
+  } else if (data.expiresAt && openingDate >= new Date(data.expiresAt)) {
+    errors.push({
+      field: 'opensAt',
+      message: 'The poll must open before it expires',
+      code: 'OPENING_AFTER_EXPIRATION'
+    });
+  }
   
-  return {
-    isValid: errors.length === 0,
-    errors
-  };
+  return errors;
 }
 
 /**
- * Simple validation that returns the first error message or null
+ * Validate poll type and, for multi-select polls, the selection limits
  * @param data - The poll data to validate
- * @returns string | null - The first error message or null if valid
+ * @returns ValidationError[] - Array of validation errors
  */
-export function validatePollDataSimple(data: PollData): string | null {
-  const result = validatePollData(data);
-  return result.isValid ? null : result.errors[0].message;
+function validateSelectionLimits(data: PollData): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const pollType = data.pollType ?? 'single';
+  
+  if (!VALIDATION_CONFIG.pollTypes.includes(pollType)) {
+    errors.push({
+      field: 'pollType',
+      message: 'Invalid poll type',
+      code: 'POLL_TYPE_INVALID'
+    });
+    return errors;
+  }
+  
+  if (pollType !== 'multiple') {
+    return errors;
+  }
+  
+  const optionCount = Array.isArray(data.options) ? data.options.length : 0;
+  const minSelections = data.minSelections ?? VALIDATION_CONFIG.selections.minCount;
+  const maxSelections = data.maxSelections ?? null;
+  
+  if (!Number.isInteger(minSelections) || minSelections < VALIDATION_CONFIG.selections.minCount) {
+    errors.push({
+      field: 'minSelections',
+      message: `Minimum selections must be a whole number of at least ${VALIDATION_CONFIG.selections.minCount}`,
+      code: 'MIN_SELECTIONS_INVALID'
+    });
+  } else if (minSelections > optionCount) {
+    errors.push({
+      field: 'minSelections',
+      message: 'Minimum selections cannot exceed the number of options',
+      code: 'MIN_SELECTIONS_TOO_MANY'
+    });
+  }
+  
+  if (maxSelections !== null) {
+    if (!Number.isInteger(maxSelections) || maxSelections < VALIDATION_CONFIG.selections.minCount) {
+      errors.push({
+        field: 'maxSelections',
+        message: `Maximum selections must be a whole number of at least ${VALIDATION_CONFIG.selections.minCount}`,
+        code: 'MAX_SELECTIONS_INVALID'
+      });
+    } else if (maxSelections < minSelections) {
+      errors.push({
+        field: 'maxSelections',
+        message: 'Maximum selections cannot be less than minimum selections',
+        code: 'MAX_SELECTIONS_BELOW_MIN'
+      });
+    } else if (maxSelections > optionCount) {
+      errors.push({
+        field: 'maxSelections',
+        message: 'Maximum selections cannot exceed the number of options',
+        code: 'MAX_SELECTIONS_TOO_MANY'
+      });
+    }
+  }
+  
+  return errors;
 }
 
 /**
- * Validate poll ID format
- * @param pollId - The poll ID to validate
+ * Validate the answer key of a quiz question
+ * At least one option must be correct, and on multiple choice questions the
+ * correct options must fit within the selection limits so a perfect answer exists.
+ * @param data - The poll data to validate
  * @returns ValidationError[] - Array of validation errors
  */
-export function validatePollId(pollId: string): ValidationError[] {
+function validateQuizKey(data: PollData): ValidationError[] {
   const errors: ValidationError[] = [];
+  const pollType = data.pollType ?? 'single';
   
-  if (!pollId) {
+  if (!data.isQuiz) {
+    return errors;
+  }
+  
+  if (!QUIZ_POLL_TYPES.includes(pollType)) {
     errors.push({
-      field: 'pollId',
-      message: 'Poll ID is required',
-      code: 'POLL_ID_REQUIRED'
+      field: 'isQuiz',
+      message: 'Only single choice, multiple choice and approval polls can be quizzes',
+      code: 'QUIZ_POLL_TYPE_INVALID'
     });
-  } else if (typeof pollId !== 'string') {
+    return errors;
+  }
+  
+  const options = Array.isArray(data.options) ? data.options : [];
+  const correctCount = options.filter(option => option.isCorrect).length;
+  
+  if (correctCount === 0) {
     errors.push({
-      field: 'pollId',
-      message: 'Poll ID must be a string',
-      code: 'POLL_ID_INVALID_TYPE'
+      field: 'options',
+      message: 'Mark at least one option as correct',
+      code: 'QUIZ_CORRECT_OPTION_REQUIRED'
     });
-  } else if (pollId.trim().length === 0) {
+  } else if (pollType === 'multiple' && (
+    correctCount < (data.minSelections ?? VALIDATION_CONFIG.selections.minCount) ||
+    (data.maxSelections != null && correctCount > data.maxSelections)
+  )) {
     errors.push({
-      field: 'pollId',
-      message: 'Poll ID cannot be empty',
-      code: 'POLL_ID_EMPTY'
+      field: 'options',
+      message: 'The correct options must be selectable within the selection limits',
+      code: 'QUIZ_CORRECT_OPTIONS_OUT_OF_RANGE'
+    });
+  }
+  
+  if (options.some(option => (option.explanation?.trim().length ?? 0) > VALIDATION_CONFIG.quiz.explanationMaxLength)) {
+    errors.push({
+      field: 'options',
+      message: `Explanations cannot exceed ${VALIDATION_CONFIG.quiz.explanationMaxLength} characters`,
+      code: 'QUIZ_EXPLANATION_TOO_LONG'
     });
   }
   
@@ -268,32 +392,1261 @@ export function validatePollId(pollId: string): ValidationError[] {
 }
 
 /**
- * Validate option ID format
- * @param optionId - The option ID to validate
+ * Validate the time slots of a scheduling poll
+ * Every option needs a start; an end is optional but must come after the start.
+ * Other poll types cannot have time slots.
+ * @param data - The poll data to validate
  * @returns ValidationError[] - Array of validation errors
  */
-export function validateOptionId(optionId: string): ValidationError[] {
+function validateTimeSlots(data: PollData): ValidationError[] {
   const errors: ValidationError[] = [];
+  const options = Array.isArray(data.options) ? data.options : [];
   
-  if (!optionId) {
+  if (data.pollType !== 'schedule') {
+    if (options.some(option => option.startsAt || option.endsAt)) {
+      errors.push({
+        field: 'options',
+        message: 'Only scheduling polls can have time slots',
+        code: 'TIME_SLOTS_NOT_ALLOWED'
+      });
+    }
+    return errors;
+  }
+  
+  if (!data.timeZone || !isValidTimeZone(data.timeZone)) {
     errors.push({
-      field: 'optionId',
-      message: 'Option ID is required',
-      code: 'OPTION_ID_REQUIRED'
+      field: 'timeZone',
+      message: 'A valid time zone is required',
+      code: 'TIME_ZONE_INVALID'
     });
-  } else if (typeof optionId !== 'string') {
+  }
+  
+  const starts: number[] = [];
+  
+  options.forEach((option, index) => {
+    const start = option.startsAt ? new Date(option.startsAt).getTime() : NaN;
+    
+    if (!option.startsAt) {
+      errors.push({
+        field: `options[${index}].startsAt`,
+        message: `Option ${index + 1} needs a start time`,
+        code: 'TIME_SLOT_START_REQUIRED'
+      });
+      return;
+    }
+    
+    if (isNaN(start)) {
+      errors.push({
+        field: `options[${index}].startsAt`,
+        message: `Option ${index + 1} has an invalid start time`,
+        code: 'TIME_SLOT_START_INVALID'
+      });
+      return;
+    }
+    
+    if (option.endsAt) {
+      const end = new Date(option.endsAt).getTime();
+      
+      if (isNaN(end) || end <= start) {
+        errors.push({
+          field: `options[${index}].endsAt`,
+          message: `Option ${index + 1} must end after it starts`,
+          code: 'TIME_SLOT_END_BEFORE_START'
+        });
+      }
+    }
+    
+    starts.push(start);
+  });
+  
+  if (new Set(starts).size !== starts.length) {
     errors.push({
-      field: 'optionId',
-      message: 'Option ID must be a string',
-      code: 'OPTION_ID_INVALID_TYPE'
+      field: 'options',
+      message: 'Two time slots cannot start at the same time',
+      code: 'TIME_SLOTS_DUPLICATE'
     });
-  } else if (optionId.trim().length === 0) {
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate the points budget of a budget poll
+ * @param data - The poll data to validate
+ * @returns ValidationError[] - Array of validation errors
+ */
+function validatePointsBudget(data: PollData): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const budget = data.pointsBudget ?? null;
+  
+  if (data.pollType !== 'budget') {
+    if (budget !== null) {
+      errors.push({
+        field: 'pointsBudget',
+        message: 'Only budget polls have a points budget',
+        code: 'POINTS_BUDGET_NOT_ALLOWED'
+      });
+    }
+    return errors;
+  }
+  
+  if (budget === null || !Number.isInteger(budget) || budget < 1 || budget > MAX_POINTS_BUDGET) {
     errors.push({
-      field: 'optionId',
-      message: 'Option ID cannot be empty',
-      code: 'OPTION_ID_EMPTY'
+      field: 'pointsBudget',
+      message: `The points budget must be a whole number from 1 to ${MAX_POINTS_BUDGET}`,
+      code: 'POINTS_BUDGET_INVALID'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate the vote change setting
+ * Only choice polls can let voters change their vote, and quizzes never do.
+ * @param data - The poll data to validate
+ * @returns ValidationError[] - Array of validation errors
+ */
+function validateVoteChanges(data: PollData): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (!data.allowVoteChanges) {
+    return errors;
+  }
+  
+  if (!VOTE_CHANGE_POLL_TYPES.includes(data.pollType ?? 'single')) {
+    errors.push({
+      field: 'allowVoteChanges',
+      message: 'Only single choice, multiple choice, ranked and approval polls can allow vote changes',
+      code: 'VOTE_CHANGES_POLL_TYPE_INVALID'
+    });
+  } else if (data.isQuiz) {
+    errors.push({
+      field: 'allowVoteChanges',
+      message: 'Quiz answers cannot be changed',
+      code: 'VOTE_CHANGES_QUIZ'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate the anonymous voting setting
+ * @param data - The poll data to validate
+ * @returns ValidationError[] - Array of validation errors
+ */
+function validateAnonymousVoting(data: PollData): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (!data.allowAnonymous) {
+    return errors;
+  }
+  
+  if (!ANONYMOUS_POLL_TYPES.includes(data.pollType ?? 'single')) {
+    errors.push({
+      field: 'allowAnonymous',
+      message: 'Only single choice, multiple choice, ranked and approval polls can allow anonymous votes',
+      code: 'ANONYMOUS_POLL_TYPE_INVALID'
+    });
+  } else if (data.isQuiz) {
+    errors.push({
+      field: 'allowAnonymous',
+      message: 'Quiz participants need an account to see their results',
+      code: 'ANONYMOUS_QUIZ'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate the secret ballot setting
+ * @param data - The poll data to validate
+ * @returns ValidationError[] - Array of validation errors
+ */
+function validateSecretBallot(data: PollData): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (!data.isSecret) {
+    return errors;
+  }
+  
+  if (!SECRET_BALLOT_POLL_TYPES.includes(data.pollType ?? 'single')) {
+    errors.push({
+      field: 'isSecret',
+      message: 'Only single choice, multiple choice, ranked and approval polls can be secret ballots',
+      code: 'SECRET_BALLOT_POLL_TYPE_INVALID'
+    });
+  } else if (data.isQuiz) {
+    errors.push({
+      field: 'isSecret',
+      message: 'Quizzes cannot be secret ballots',
+      code: 'SECRET_BALLOT_QUIZ'
+    });
+  } else if (data.allowVoteChanges) {
+    errors.push({
+      field: 'isSecret',
+      message: 'Votes on a secret ballot cannot be changed',
+      code: 'SECRET_BALLOT_VOTE_CHANGES'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate the results visibility setting
+ * @param data - The poll data to validate
+ * @returns ValidationError[] - Array of validation errors
+ */
+function validateResultsVisibility(data: PollData): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (data.resultsVisibility !== undefined && !(RESULTS_VISIBILITY as readonly string[]).includes(data.resultsVisibility)) {
+    errors.push({
+      field: 'resultsVisibility',
+      message: `Results visibility must be one of: ${RESULTS_VISIBILITY.join(', ')}`,
+      code: 'RESULTS_VISIBILITY_INVALID'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate the auto-close rules
+ * Each threshold is a positive whole number; a quorum needs the number of
+ * eligible voters, and only choice polls can close on a lead margin.
+ * @param data - The poll data to validate
+ * @returns ValidationError[] - Array of validation errors
+ */
+function validateAutoCloseRules(data: PollData): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const isPositiveInteger = (value: number) => Number.isInteger(value) && value >= 1;
+  
+  if (data.closeAfterVotes != null && !isPositiveInteger(data.closeAfterVotes)) {
+    errors.push({
+      field: 'closeAfterVotes',
+      message: 'The vote limit must be a whole number of at least 1',
+      code: 'VOTE_CAP_INVALID'
     });
   }
   
+  if (data.quorumPercent != null) {
+    if (!Number.isInteger(data.quorumPercent) || data.quorumPercent < 1 || data.quorumPercent > 100) {
+      errors.push({
+        field: 'quorumPercent',
+        message: 'The quorum must be a whole percentage between 1 and 100',
+        code: 'QUORUM_INVALID'
+      });
+    }
+    if (data.eligibleVoters == null || !isPositiveInteger(data.eligibleVoters)) {
+      errors.push({
+        field: 'eligibleVoters',
+        message: 'A quorum needs the number of eligible voters',
+        code: 'QUORUM_ELECTORATE_REQUIRED'
+      });
+    }
+  }
+  
+  if (data.closeLeadMargin != null) {
+    if (!isPositiveInteger(data.closeLeadMargin)) {
+      errors.push({
+        field: 'closeLeadMargin',
+        message: 'The lead margin must be a whole number of at least 1',
+        code: 'LEAD_MARGIN_INVALID'
+      });
+    } else if (!LEAD_MARGIN_POLL_TYPES.includes(data.pollType ?? 'single')) {
+      errors.push({
+        field: 'closeLeadMargin',
+        message: 'Only choice polls can close on a lead margin',
+        code: 'LEAD_MARGIN_NOT_ALLOWED'
+      });
+    }
+  }
+  
   return errors;
 }
+
+/**
+ * Validate the invite-only setting
+ * Invitees vote with their account, so an invite-only poll can't take anonymous votes.
+ * @param data - The poll data to validate
+ * @returns ValidationError[] - Array of validation errors
+ */
+function validateInviteOnly(data: PollData): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (!data.isInviteOnly) {
+    if (data.invitees && data.invitees.length > 0) {
+      errors.push({
+        field: 'invitees',
+        message: 'Only invite-only polls have invitees',
+        code: 'INVITEES_NOT_ALLOWED'
+      });
+    }
+    return errors;
+  }
+  
+  if (data.allowAnonymous) {
+    errors.push({
+      field: 'isInviteOnly',
+      message: 'Invite-only polls cannot allow anonymous votes',
+      code: 'INVITE_ONLY_ANONYMOUS'
+    });
+  }
+  
+  if (data.invitees) {
+    errors.push(...validateInvitees(data.invitees));
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate the weighted voting setting
+ * Weights belong to accounts and are counted once per ballot, so a weighted
+ * poll can't take anonymous or secret ballots, or let voters change their vote.
+ * @param data - The poll data to validate
+ * @returns ValidationError[] - Array of validation errors
+ */
+function validateWeighted(data: PollData): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (!data.isWeighted) {
+    if (data.voterWeights && data.voterWeights.length > 0) {
+      errors.push({
+        field: 'voterWeights',
+        message: 'Only weighted polls have voter weights',
+        code: 'VOTER_WEIGHTS_NOT_ALLOWED'
+      });
+    }
+    return errors;
+  }
+  
+  if (!WEIGHTED_POLL_TYPES.includes(data.pollType ?? 'single') || data.isQuiz) {
+    errors.push({
+      field: 'isWeighted',
+      message: 'Only single choice, multiple choice and approval polls can be weighted',
+      code: 'WEIGHTED_NOT_ALLOWED'
+    });
+  }
+  
+  if (data.allowAnonymous || data.isSecret || data.allowVoteChanges) {
+    errors.push({
+      field: 'isWeighted',
+      message: 'Weighted polls cannot allow anonymous votes, secret ballots or vote changes',
+      code: 'WEIGHTED_CONFLICT'
+    });
+  }
+  
+  if (data.voterWeights) {
+    errors.push(...validateVoterWeights(data.voterWeights));
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate the delegation setting and the poll's tags
+ * The tally follows each delegation to the delegate's ballot, so the poll needs
+ * ballots tied to accounts with their choices in the open, each counting once.
+ * @param data - The poll data to validate
+ * @returns ValidationError[] - Array of validation errors
+ */
+function validateDelegation(data: PollData): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (data.tags) {
+    errors.push(...validateTags(data.tags));
+  }
+  
+  if (!data.allowDelegation) {
+    return errors;
+  }
+  
+  if (!DELEGATION_POLL_TYPES.includes(data.pollType ?? 'single') || data.isQuiz) {
+    errors.push({
+      field: 'allowDelegation',
+      message: 'Only single choice, multiple choice and approval polls can allow delegation',
+      code: 'DELEGATION_NOT_ALLOWED'
+    });
+  }
+  
+  if (data.allowAnonymous || data.isSecret || data.isWeighted) {
+    errors.push({
+      field: 'allowDelegation',
+      message: 'Polls that allow delegation cannot allow anonymous votes, secret ballots or weighted voting',
+      code: 'DELEGATION_CONFLICT'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate option images
+ * Only choice polls show images, and each must be a name the upload step generated.
+ * @param data - The poll data to validate
+ * @returns ValidationError[] - Array of validation errors
+ */
+function validateOptionImages(data: PollData): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const options = Array.isArray(data.options) ? data.options : [];
+  const images = options.filter(option => option.imagePath);
+  
+  if (images.length === 0) {
+    return errors;
+  }
+  
+  if (!IMAGE_POLL_TYPES.includes(data.pollType ?? 'single')) {
+    errors.push({
+      field: 'options',
+      message: 'Only single choice, multiple choice and approval polls can have option images',
+      code: 'OPTION_IMAGES_NOT_ALLOWED'
+    });
+    return errors;
+  }
+  
+  options.forEach((option, index) => {
+    if (option.imagePath && !isValidImagePath(option.imagePath)) {
+      errors.push({
+        field: `options[${index}].imagePath`,
+        message: `Option ${index + 1} has an invalid image`,
+        code: 'OPTION_IMAGE_INVALID'
+      });
+    }
+  });
+  
+  return errors;
+}
+
+/**
+ * Comprehensive poll data validation
+ * @param data - The poll data to validate
+ * @returns ValidationResult - The validation result with errors if any
+ */
+export function validatePollData(data: PollData): ValidationResult {
+  const errors: ValidationError[] = [];
+  
+  // Validate question
+  errors.push(...validatePollQuestion(data.question));
+  
+  // Validate options; text response polls have none
+  if (data.pollType === 'text') {
+    if (Array.isArray(data.options) && data.options.length > 0) {
+      errors.push({
+        field: 'options',
+        message: 'Text response polls cannot have options',
+        code: 'OPTIONS_NOT_ALLOWED'
+      });
+    }
+  } else {
+    errors.push(...validatePollOptions(data.options));
+  }
+  
+  // Validate expiration date
+  errors.push(...validateExpirationDate(data.expiresAt));
+  
+  // Validate the opening time
+  errors.push(...validateOpeningTime(data));
+  
+  // Validate poll type and selection limits
+  errors.push(...validateSelectionLimits(data));
+  
+  // Validate the quiz answer key
+  errors.push(...validateQuizKey(data));
+  
+  // Validate the time slots of scheduling polls
+  errors.push(...validateTimeSlots(data));
+  
+  // Validate the points budget of budget polls
+  errors.push(...validatePointsBudget(data));
+  
+  // Validate option images
+  errors.push(...validateOptionImages(data));
+  
+  // Validate the vote change setting
+  errors.push(...validateVoteChanges(data));
+  
+  // Validate the anonymous voting setting
+  errors.push(...validateAnonymousVoting(data));
+  
+  // Validate the secret ballot setting
+  errors.push(...validateSecretBallot(data));
+  
+  // Validate the results visibility setting
+  errors.push(...validateResultsVisibility(data));
+  
+  // Validate the auto-close rules
+  errors.push(...validateAutoCloseRules(data));
+  
+  // Validate the invite-only setting
+  errors.push(...validateInviteOnly(data));
+  
+  // Validate the passcode
+  if (data.passcode) {
+    errors.push(...validatePasscode(data.passcode));
+  }
+  
+  // Validate the weighted voting setting
+  errors.push(...validateWeighted(data));
+  errors.push(...validateDelegation(data));
+  
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Simple validation that returns the first error message or null
+ * @param data - The poll data to validate
+ * @returns string | null - The first error message or null if valid
+ */
+export function validatePollDataSimple(data: PollData): string | null {
+  const result = validatePollData(data);
+  return result.isValid ? null : result.errors[0].message;
+}
+
+/**
+ * Validate poll ID format
+ * @param pollId - The poll ID to validate
+ * @returns ValidationError[] - Array of validation errors
+ */
+export function validatePollId(pollId: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (!pollId) {
+    errors.push({
+      field: 'pollId',
+      message: 'Poll ID is required',
+      code: 'POLL_ID_REQUIRED'
+    });
+  } else if (typeof pollId !== 'string') {
+    errors.push({
+      field: 'pollId',
+      message: 'Poll ID must be a string',
+      code: 'POLL_ID_INVALID_TYPE'
+    });
+  } else if (pollId.trim().length === 0) {
+    errors.push({
+      field: 'pollId',
+      message: 'Poll ID cannot be empty',
+      code: 'POLL_ID_EMPTY'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate option ID format
+ * @param optionId - The option ID to validate
+ * @returns ValidationError[] - Array of validation errors
+ */
+export function validateOptionId(optionId: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (!optionId) {
+    errors.push({
+      field: 'optionId',
+      message: 'Option ID is required',
+      code: 'OPTION_ID_REQUIRED'
+    });
+  } else if (typeof optionId !== 'string') {
+    errors.push({
+      field: 'optionId',
+      message: 'Option ID must be a string',
+      code: 'OPTION_ID_INVALID_TYPE'
+    });
+  } else if (optionId.trim().length === 0) {
+    errors.push({
+      field: 'optionId',
+      message: 'Option ID cannot be empty',
+      code: 'OPTION_ID_EMPTY'
+    });
+  }
+  
+  return errors;
+}
+
+
+/**
+ * Validate a ballot of option IDs against a poll's selection limits
+ * @param optionIds - The option IDs selected by the voter
+ * @param limits - The poll type and selection limits to enforce
+ * @returns ValidationError[] - Array of validation errors
+ */
+export function validateOptionIds(
+  optionIds: string[],
+  limits: { pollType: PollType; minSelections: number; maxSelections: number | null }
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  // Score ballots carry a rating per option and go through validateScores instead
+  if (limits.pollType === 'score') {
+    errors.push({
+      field: 'optionIds',
+      message: 'Score every option',
+      code: 'OPTION_IDS_SCORES_REQUIRED'
+    });
+    return errors;
+  }
+  
+  // Scheduling ballots answer every time slot and go through validateAvailability instead
+  if (limits.pollType === 'schedule') {
+    errors.push({
+      field: 'optionIds',
+      message: 'Answer every time slot',
+      code: 'OPTION_IDS_AVAILABILITY_REQUIRED'
+    });
+    return errors;
+  }
+  
+  // Budget ballots carry points per option and go through validateAllocation instead
+  if (limits.pollType === 'budget') {
+    errors.push({
+      field: 'optionIds',
+      message: 'Spread your points across the options',
+      code: 'OPTION_IDS_POINTS_REQUIRED'
+    });
+    return errors;
+  }
+  
+  // Text response polls have no options to select
+  if (limits.pollType === 'text') {
+    errors.push({
+      field: 'optionIds',
+      message: 'This poll takes a written response',
+      code: 'OPTION_IDS_TEXT_RESPONSE_REQUIRED'
+    });
+    return errors;
+  }
+  
+  if (!Array.isArray(optionIds) || optionIds.length === 0) {
+    errors.push({
+      field: 'optionIds',
+      message: 'At least one option must be selected',
+      code: 'OPTION_IDS_REQUIRED'
+    });
+    return errors;
+  }
+  
+  optionIds.forEach(optionId => {
+    errors.push(...validateOptionId(optionId));
+  });
+  
+  if (new Set(optionIds).size !== optionIds.length) {
+    errors.push({
+      field: 'optionIds',
+      message: 'The same option cannot be selected twice',
+      code: 'OPTION_IDS_DUPLICATE'
+    });
+  }
+  
+  if (limits.pollType === 'single') {
+    if (optionIds.length !== 1) {
+      errors.push({
+        field: 'optionIds',
+        message: 'This poll accepts exactly one option',
+        code: 'OPTION_IDS_SINGLE_ONLY'
+      });
+    }
+    return errors;
+  }
+  
+  if (optionIds.length < limits.minSelections) {
+    errors.push({
+      field: 'optionIds',
+      message: `Select at least ${limits.minSelections} option${limits.minSelections !== 1 ? 's' : ''}`,
+      code: 'OPTION_IDS_TOO_FEW'
+    });
+  }
+  
+  if (limits.maxSelections !== null && optionIds.length > limits.maxSelections) {
+    errors.push({
+      field: 'optionIds',
+      message: `Select at most ${limits.maxSelections} option${limits.maxSelections !== 1 ? 's' : ''}`,
+      code: 'OPTION_IDS_TOO_MANY'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate a score ballot
+ * @param scores - Star rating per option ID
+ * @param optionIds - The options on the poll, all of which must be rated
+ * @returns ValidationError[] - Array of validation errors
+ */
+export function validateScores(scores: Record<string, number>, optionIds: string[]): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const ratedIds = scores && typeof scores === 'object' ? Object.keys(scores) : [];
+  
+  if (ratedIds.length === 0) {
+    errors.push({
+      field: 'scores',
+      message: 'Scores are required',
+      code: 'SCORES_REQUIRED'
+    });
+    return errors;
+  }
+  
+  ratedIds.forEach(optionId => {
+    errors.push(...validateOptionId(optionId));
+    
+    const score = scores[optionId];
+    if (!Number.isInteger(score) || score < VALIDATION_CONFIG.scores.min || score > VALIDATION_CONFIG.scores.max) {
+      errors.push({
+        field: 'scores',
+        message: `Scores must be whole numbers from ${VALIDATION_CONFIG.scores.min} to ${VALIDATION_CONFIG.scores.max}`,
+        code: 'SCORE_INVALID'
+      });
+    }
+  });
+  
+  if (ratedIds.some(optionId => !optionIds.includes(optionId))) {
+    errors.push({
+      field: 'scores',
+      message: 'Invalid option for this poll',
+      code: 'SCORES_UNKNOWN_OPTION'
+    });
+  } else if (ratedIds.length !== optionIds.length) {
+    errors.push({
+      field: 'scores',
+      message: 'Score every option',
+      code: 'SCORES_INCOMPLETE'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate a budget ballot
+ * Options given no points may be left out; the points given may not add up to
+ * more than the budget.
+ * @param points - Points per option ID
+ * @param optionIds - The options on the poll
+ * @param budget - The poll's points budget
+ * @returns ValidationError[] - Array of validation errors
+ */
+export function validateAllocation(
+  points: Record<string, number>,
+  optionIds: string[],
+  budget: number
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const givenIds = points && typeof points === 'object' ? Object.keys(points) : [];
+  
+  if (givenIds.length === 0) {
+    errors.push({
+      field: 'points',
+      message: 'Give at least one point',
+      code: 'POINTS_REQUIRED'
+    });
+    return errors;
+  }
+  
+  givenIds.forEach(optionId => {
+    errors.push(...validateOptionId(optionId));
+  });
+  
+  if (givenIds.some(optionId => !Number.isInteger(points[optionId]) || points[optionId] < 1)) {
+    errors.push({
+      field: 'points',
+      message: 'Points must be positive whole numbers',
+      code: 'POINTS_INVALID'
+    });
+    return errors;
+  }
+  
+  if (givenIds.some(optionId => !optionIds.includes(optionId))) {
+    errors.push({
+      field: 'points',
+      message: 'Invalid option for this poll',
+      code: 'POINTS_UNKNOWN_OPTION'
+    });
+  }
+  
+  const spent = givenIds.reduce((sum, optionId) => sum + points[optionId], 0);
+  if (spent > budget) {
+    errors.push({
+      field: 'points',
+      message: `You can give at most ${budget} points`,
+      code: 'POINTS_OVER_BUDGET'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate a scheduling ballot
+ * @param availability - Answer (yes, maybe or no) per time slot option ID
+ * @param optionIds - The time slots on the poll, all of which must be answered
+ * @returns ValidationError[] - Array of validation errors
+ */
+export function validateAvailability(
+  availability: Record<string, Availability>,
+  optionIds: string[]
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const answeredIds = availability && typeof availability === 'object' ? Object.keys(availability) : [];
+  
+  if (answeredIds.length === 0) {
+    errors.push({
+      field: 'availability',
+      message: 'Availability is required',
+      code: 'AVAILABILITY_REQUIRED'
+    });
+    return errors;
+  }
+  
+  answeredIds.forEach(optionId => {
+    errors.push(...validateOptionId(optionId));
+  });
+  
+  if (answeredIds.some(optionId => !AVAILABILITY_ANSWERS.includes(availability[optionId]))) {
+    errors.push({
+      field: 'availability',
+      message: 'Answer yes, if need be or no',
+      code: 'AVAILABILITY_INVALID'
+    });
+  }
+  
+  if (answeredIds.some(optionId => !optionIds.includes(optionId))) {
+    errors.push({
+      field: 'availability',
+      message: 'Invalid option for this poll',
+      code: 'AVAILABILITY_UNKNOWN_OPTION'
+    });
+  } else if (answeredIds.length !== optionIds.length) {
+    errors.push({
+      field: 'availability',
+      message: 'Answer every time slot',
+      code: 'AVAILABILITY_INCOMPLETE'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate a written answer to a text response poll
+ * @param response - The sanitized response text
+ * @returns ValidationError[] - Array of validation errors
+ */
+export function validateTextResponse(response: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (typeof response !== 'string' || response.trim().length === 0) {
+    errors.push({
+      field: 'response',
+      message: 'Response is required',
+      code: 'RESPONSE_REQUIRED'
+    });
+  } else if (response.trim().length > VALIDATION_CONFIG.textResponse.maxLength) {
+    errors.push({
+      field: 'response',
+      message: `Response cannot exceed ${VALIDATION_CONFIG.textResponse.maxLength} characters`,
+      code: 'RESPONSE_TOO_LONG'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate a list of invitees to an invite-only poll
+ * @param invitees - Email addresses or user IDs
+ * @returns ValidationError[] - Array of validation errors
+ */
+export function validateInvitees(invitees: string[]): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (!Array.isArray(invitees)) {
+    errors.push({
+      field: 'invitees',
+      message: 'Invitees must be an array',
+      code: 'INVALID_TYPE'
+    });
+    return errors;
+  }
+  
+  const { emails, userIds, invalid } = parseInvitees(invitees);
+  
+  if (invalid.length > 0) {
+    errors.push({
+      field: 'invitees',
+      message: `Not an email address or user ID: ${invalid.join(', ')}`,
+      code: 'INVITEE_INVALID'
+    });
+  }
+  
+  if (emails.length + userIds.length > MAX_INVITEES) {
+    errors.push({
+      field: 'invitees',
+      message: `Cannot invite more than ${MAX_INVITEES} people at once`,
+      code: 'TOO_MANY_INVITEES'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate a poll passcode
+ * @param passcode - The passcode as typed
+ * @returns ValidationError[] - Array of validation errors
+ */
+export function validatePasscode(passcode: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (typeof passcode !== 'string' || !isValidPasscode(passcode)) {
+    errors.push({
+      field: 'passcode',
+      message: `The passcode must be ${PASSCODE_LENGTH.min} to ${PASSCODE_LENGTH.max} characters without spaces`,
+      code: 'PASSCODE_INVALID'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate the size of a batch of ballot codes
+ * @param count - How many codes to issue
+ * @returns ValidationError[] - Array of validation errors
+ */
+export function validateBallotCodeCount(count: number): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (!Number.isInteger(count) || count < 1 || count > MAX_BALLOT_CODES) {
+    errors.push({
+      field: 'count',
+      message: `Issue between 1 and ${MAX_BALLOT_CODES} ballot codes at a time`,
+      code: 'BALLOT_CODE_COUNT_INVALID'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate a ballot code as typed or scanned
+ * @param code - The ballot code
+ * @returns ValidationError[] - Array of validation errors
+ */
+export function validateBallotCode(code: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (typeof code !== 'string' || !isValidBallotCode(code)) {
+    errors.push({
+      field: 'ballotCode',
+      message: 'Ballot codes have eight letters and digits, like ABCD-EFGH',
+      code: 'BALLOT_CODE_INVALID'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate the voter weights of a weighted poll
+ * @param weights - Each voter's email address or user ID with their weight
+ * @returns ValidationError[] - Array of validation errors
+ */
+export function validateVoterWeights(weights: VoterWeightEntry[]): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (!Array.isArray(weights)) {
+    errors.push({
+      field: 'voterWeights',
+      message: 'Voter weights must be an array',
+      code: 'INVALID_TYPE'
+    });
+    return errors;
+  }
+  
+  if (weights.length > MAX_WEIGHTED_VOTERS) {
+    errors.push({
+      field: 'voterWeights',
+      message: `Cannot set the weights of more than ${MAX_WEIGHTED_VOTERS} voters at once`,
+      code: 'TOO_MANY_VOTER_WEIGHTS'
+    });
+  }
+  
+  if (weights.some(entry => !entry || (!entry.email && !entry.userId))) {
+    errors.push({
+      field: 'voterWeights',
+      message: 'Every weight needs an email address or user ID',
+      code: 'VOTER_WEIGHT_VOTER_MISSING'
+    });
+  }
+  
+  if (weights.some(entry => !entry || !Number.isInteger(entry.weight) || entry.weight < 1 || entry.weight > MAX_VOTER_WEIGHT)) {
+    errors.push({
+      field: 'voterWeights',
+      message: `Weights must be whole numbers from 1 to ${MAX_VOTER_WEIGHT}`,
+      code: 'VOTER_WEIGHT_INVALID'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate a survey and each of its questions
+ * Every question goes through validatePollData, with its errors prefixed by
+ * the question number so they can be shown next to the right question.
+ * @param data - The survey data to validate
+ * @returns ValidationResult - The validation result with errors if any
+ */
+export function validateSurveyData(data: SurveyData): ValidationResult {
+  const errors: ValidationError[] = [];
+  const title = typeof data.title === 'string' ? data.title.trim() : '';
+  
+  if (title.length === 0) {
+    errors.push({
+      field: 'title',
+      message: 'Survey title is required',
+      code: 'SURVEY_TITLE_REQUIRED'
+    });
+  } else if (title.length > VALIDATION_CONFIG.survey.titleMaxLength) {
+    errors.push({
+      field: 'title',
+      message: `Survey title cannot exceed ${VALIDATION_CONFIG.survey.titleMaxLength} characters`,
+      code: 'SURVEY_TITLE_TOO_LONG'
+    });
+  }
+  
+  if (data.description && data.description.trim().length > VALIDATION_CONFIG.survey.descriptionMaxLength) {
+    errors.push({
+      field: 'description',
+      message: `Survey description cannot exceed ${VALIDATION_CONFIG.survey.descriptionMaxLength} characters`,
+      code: 'SURVEY_DESCRIPTION_TOO_LONG'
+    });
+  }
+  
+  errors.push(...validateExpirationDate(data.expiresAt));
+  
+  if (!Array.isArray(data.questions) || data.questions.length < VALIDATION_CONFIG.survey.minQuestions) {
+    errors.push({
+      field: 'questions',
+      message: `A survey needs at least ${VALIDATION_CONFIG.survey.minQuestions} question`,
+      code: 'SURVEY_QUESTIONS_TOO_FEW'
+    });
+    return { isValid: false, errors };
+  }
+  
+  if (data.questions.length > VALIDATION_CONFIG.survey.maxQuestions) {
+    errors.push({
+      field: 'questions',
+      message: `A survey cannot have more than ${VALIDATION_CONFIG.survey.maxQuestions} questions`,
+      code: 'SURVEY_QUESTIONS_TOO_MANY'
+    });
+  }
+  
+  data.questions.forEach((question, index) => {
+    // Scheduling and budget polls stand alone; their ballots don't fit a question-by-question survey
+    if (question.pollType === 'schedule' || question.pollType === 'budget') {
+      errors.push({
+        field: `questions[${index}].pollType`,
+        message: `Question ${index + 1}: ${question.pollType === 'schedule' ? 'Scheduling' : 'Budget'} polls cannot be part of a survey`,
+        code: 'SURVEY_POLL_TYPE_UNSUPPORTED'
+      });
+      return;
+    }
+    
+    // The survey's expiry applies to every question, so it is checked once above
+    const result = validatePollData({ ...question, expiresAt: null });
+    
+    errors.push(...result.errors.map(error => ({
+      ...error,
+      field: `questions[${index}].${error.field}`,
+      message: `Question ${index + 1}: ${error.message}`
+    })));
+  });
+  
+  if (data.branches && data.branches.length > 0) {
+    errors.push(...validateBranchRules(
+      data.questions.map(question => ({
+        id: question.id ?? '',
+        pollType: question.pollType || 'single',
+        optionIds: question.options.map(option => option.id ?? '')
+      })),
+      data.branches
+    ));
+  }
+  
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Validate a survey's branch rules against its questions
+ * Rules must start from a choice question, use one of its options and point to
+ * a question in the same survey. Jumping back to an earlier question, or to the
+ * question itself, would loop forever and is rejected as a cycle.
+ * @param questions - The survey's questions in order, with their option IDs
+ * @param rules - The branch rules to validate
+ * @returns ValidationError[] - Array of validation errors
+ */
+export function validateBranchRules(
+  questions: { id: string; pollType: PollType; optionIds: string[] }[],
+  rules: BranchRule[]
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const questionIds = questions.map(question => question.id);
+  const seen = new Set<string>();
+  
+  rules.forEach(rule => {
+    const index = questionIds.indexOf(rule.questionId);
+    
+    if (!rule.questionId || index === -1) {
+      errors.push({
+        field: 'branches',
+        message: 'Branch rule refers to a question that is not in this survey',
+        code: 'BRANCH_QUESTION_MISSING'
+      });
+      return;
+    }
+    
+    const question = questions[index];
+    const field = `questions[${index}].branches`;
+    const prefix = `Question ${index + 1}: `;
+    
+    if (!BRANCHABLE_POLL_TYPES.includes(question.pollType)) {
+      errors.push({
+        field,
+        message: `${prefix}Only choice questions can branch`,
+        code: 'BRANCH_UNSUPPORTED_POLL_TYPE'
+      });
+    } else if (!rule.optionId || !question.optionIds.includes(rule.optionId)) {
+      errors.push({
+        field,
+        message: `${prefix}Branch rule refers to an option that is not on this question`,
+        code: 'BRANCH_OPTION_MISSING'
+      });
+    } else if (seen.has(`${rule.questionId}:${rule.optionId}`)) {
+      errors.push({
+        field,
+        message: `${prefix}An option can only have one branch rule`,
+        code: 'BRANCH_DUPLICATE'
+      });
+    }
+    
+    seen.add(`${rule.questionId}:${rule.optionId}`);
+    
+    if (rule.targetQuestionId !== null && !questionIds.includes(rule.targetQuestionId)) {
+      errors.push({
+        field,
+        message: `${prefix}Branch rule jumps to a question that is not in this survey`,
+        code: 'BRANCH_TARGET_MISSING'
+      });
+    }
+  });
+  
+  if (errors.length > 0) {
+    return errors;
+  }
+  
+  const cycle = findBranchCycle(questionIds, rules);
+  
+  if (cycle) {
+    const positions = cycle.map(questionId => questionIds.indexOf(questionId) + 1);
+    const path = [...positions, positions[0]].map(position => `Question ${position}`).join(' → ');
+    const start = Math.max(...positions) - 1;
+    
+    errors.push({
+      field: `questions[${start}].branches`,
+      message: `Question ${start + 1}: Branching would loop forever (${path})`,
+      code: 'BRANCH_CYCLE'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate one survey answer against its question
+ * @param question - The question's poll type, selection limits and option IDs
+ * @param answer - The respondent's answer, if any
+ * @returns ValidationError[] - Array of validation errors
+ */
+export function validateSurveyAnswer(
+  question: { pollType: PollType; minSelections: number; maxSelections: number | null; optionIds: string[] },
+  answer: SurveyAnswer | undefined
+): ValidationError[] {
+  switch (question.pollType) {
+    case 'text':
+      return validateTextResponse(answer?.response ?? '');
+    case 'score':
+      return validateScores(answer?.scores ?? {}, question.optionIds);
+    default:
+      return validateOptionIds(answer?.optionIds ?? [], question);
+  }
+}
+
+/**
+ * Validate a poll's tags, already in stored form
+ * @param tags - The tags, lower case
+ * @returns ValidationError[] - Array of validation errors
+ */
+export function validateTags(tags: string[]): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (!Array.isArray(tags)) {
+    errors.push({
+      field: 'tags',
+      message: 'Tags must be an array',
+      code: 'INVALID_TYPE'
+    });
+    return errors;
+  }
+  
+  if (tags.length > MAX_POLL_TAGS) {
+    errors.push({
+      field: 'tags',
+      message: `A poll can have at most ${MAX_POLL_TAGS} tags`,
+      code: 'TOO_MANY_TAGS'
+    });
+  }
+  
+  if (tags.some(tag => typeof tag !== 'string' || !isValidTag(tag))) {
+    errors.push({
+      field: 'tags',
+      message: `Tags use lower-case letters, digits, hyphens and underscores, up to ${MAX_TAG_LENGTH} characters`,
+      code: 'TAG_INVALID'
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate the user a vote is delegated to
+ * @param delegate - Their email address or user ID
+ * @returns ValidationError[] - Array of validation errors
+ */
+export function validateDelegate(delegate: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const { emails, userIds } = parseInvitees(typeof delegate === 'string' ? [delegate] : []);
+  
+  if (emails.length + userIds.length !== 1) {
+    errors.push({
+      field: 'delegate',
+      message: 'Delegate your vote to an email address or user ID',
+      code: 'DELEGATE_INVALID'
+    });
+  }
+  
+  return errors;
+}
+
@@ -0,0 +1,101 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import type { SurveyAnswers, SurveyData } from './poll-types';
+
+import {
+  createSurveyOperation,
+  deleteSurveyOperation,
+  getSurveyOperation,
+  getSurveyProgressOperation,
+  saveSurveyProgressOperation,
+  submitSurveyOperation,
+  getUserSurveysOperation,
+  getSurveyQuizReportOperation
+} from './survey-operations';
+
+
+/**
+ * Create a new survey
+ * @param data - The survey and its questions
+ */
+export async function createSurvey(data: SurveyData) {
+  const result = await createSurveyOperation(data);
+  
+  if (result.success) {
+    revalidatePath('/dashboard');
+  }
+  
+  return result;
+}
+
+/**
+ * Delete a survey
+ * @param surveyId - The ID of the survey to delete
+ */
+export async function deleteSurvey(surveyId: string) {
+  const result = await deleteSurveyOperation(surveyId);
+  
+  if (result.success) {
+    revalidatePath('/dashboard');
+  }
+  
+  return result;
+}
+
+/**
+ * Get a survey with its questions
+ * @param surveyId - The ID of the survey to retrieve
+ */
+export async function getSurvey(surveyId: string) {
+  return getSurveyOperation(surveyId);
+}
+
+/**
+ * Get the current user's saved progress on a survey
+ * @param surveyId - The ID of the survey
+ */
+export async function getSurveyProgress(surveyId: string) {
+  return getSurveyProgressOperation(surveyId);
+}
+
+/**
+ * Save the current user's progress on a survey
+ * @param surveyId - The ID of the survey
+ * @param answers - The draft answers, keyed by question ID
+ * @param currentQuestion - The 0-based index of the question the user is on
+ */
+export async function saveSurveyProgress(surveyId: string, answers: SurveyAnswers, currentQuestion: number) {
+  return saveSurveyProgressOperation(surveyId, answers, currentQuestion);
+}
+
+/**
+ * Submit all answers to a survey
+ * @param surveyId - The ID of the survey
+ * @param answers - One answer per question, keyed by question ID
+ */
+export async function submitSurvey(surveyId: string, answers: SurveyAnswers) {
+  const result = await submitSurveyOperation(surveyId, answers);
+  
+  if (result.success) {
+    revalidatePath(`/surveys/${surveyId}`);
+    revalidatePath('/dashboard');
+  }
+  
+  return result;
+}
+
+/**
+ * Get all surveys for the current user
+ */
+export async function getUserSurveys() {
+  return getUserSurveysOperation();
+}
+
+/**
+ * Get the leaderboard and per-question difficulty of a survey's quiz questions (survey creator only)
+ * @param surveyId - The ID of the survey
+ */
+export async function getSurveyQuizReport(surveyId: string) {
+  return getSurveyQuizReportOperation(surveyId);
+}
@@ -0,0 +1,578 @@
+import { getSupabaseClient } from './poll-client';
+import { getCurrentUser, verifySurveyOwnership } from './poll-auth';
+import { validateSurveyData, validateSurveyAnswer } from './poll-validation';
+import { getPollOperation, getSelectionLimits, loadQuizReport, saveQuizKey } from './poll-operations';
+import {
+  handleError,
+  createSuccessResponse,
+  handlePermissionError,
+  handleNotFoundError,
+  handleValidationError
+} from './poll-errors';
+import { InputSanitizer } from '@/lib/security';
+import { resolveSurveyPath } from '@/lib/survey-branching';
+import type {
+  ApiResponse,
+  BranchRule,
+  PollType,
+  QuizReport,
+  Survey,
+  SurveyAnswers,
+  SurveyCreationResult,
+  SurveyData,
+  SurveyProgress,
+  UserSurvey
+} from './poll-types';
+
+/**
+ * A survey row with its questions, as selected for the dashboard
+ */
+interface DatabaseSurvey {
+  id: string;
+  title: string;
+  created_at: string;
+  expires_at: string | null;
+  user_id: string;
+  polls: { id: string }[] | null;
+}
+
+/**
+ * A branch rule row, as selected with a survey
+ */
+interface DatabaseBranchRule {
+  question_id: string;
+  option_id: string;
+  target_question_id: string | null;
+}
+
+/**
+ * Map branch rule rows to the rules the survey page and validation work with
+ * @param rows - The survey_branches rows
+ * @returns BranchRule[] - The branch rules
+ */
+function toBranchRules(rows: DatabaseBranchRule[] | null): BranchRule[] {
+  return (rows ?? []).map(row => ({
+    questionId: row.question_id,
+    optionId: row.option_id,
+    targetQuestionId: row.target_question_id
+  }));
+}
+
+/**
+ * Check that a survey ID was provided
+ * @param surveyId - The survey ID to check
+ * @returns string | null - The error message, or null if the ID is usable
+ */
+function validateSurveyId(surveyId: string): string | null {
+  if (!surveyId || typeof surveyId !== 'string' || surveyId.trim().length === 0) {
+    return 'Survey ID is required';
+  }
+  return null;
+}
+
+/**
+ * Create a survey and a poll for each of its questions
+ * Branch rules arrive with the client's draft IDs and are stored with the IDs
+ * the questions and options get here.
+ * @param data - The survey data to create
+ * @returns Promise<ApiResponse<SurveyCreationResult>> - The creation result
+ */
+export async function createSurveyOperation(data: SurveyData): Promise<ApiResponse<SurveyCreationResult>> {
+  try {
+    const validation = validateSurveyData(data);
+    if (!validation.isValid) {
+      return handleValidationError(validation.errors[0].message);
+    }
+
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+    const expiresAt = data.expiresAt || null;
+
+    // 1. Create the survey
+    const { data: survey, error: surveyError } = await supabase
+      .from('surveys')
+      .insert({
+        title: data.title.trim(),
+        description: data.description?.trim() || null,
+        user_id: user.id,
+        expires_at: expiresAt
+      })
+      .select()
+      .single();
+
+    if (surveyError) throw surveyError;
+
+    // 2. Create each question as a poll in order, then its branch rules; a
+    // failure removes the survey again, and with it anything already created
+    try {
+      const questionIds = new Map<string, string>();
+      const optionIds = new Map<string, string>();
+
+      for (const [index, question] of data.questions.entries()) {
+        const pollType = question.pollType ?? 'single';
+
+        const { data: poll, error: pollError } = await supabase
+          .from('polls')
+          .insert({
+            question: question.question,
+            user_id: user.id,
+            expires_at: expiresAt,
+            poll_type: pollType,
+            is_quiz: !!question.isQuiz,
+            survey_id: survey.id,
+            survey_position: index + 1,
+            ...getSelectionLimits(pollType, question)
+          })
+          .select()
+          .single();
+
+        if (pollError) throw pollError;
+
+        if (question.id) {
+          questionIds.set(question.id, poll.id);
+        }
+
+        if (question.options.length > 0) {
+          const { data: options, error: optionsError } = await supabase
+            .from('poll_options')
+            .insert(question.options.map(option => ({
+              poll_id: poll.id,
+              option_text: option.text,
+              votes: 0
+            })))
+            .select('id');
+
+          if (optionsError) throw optionsError;
+
+          if (question.isQuiz) {
+            await saveQuizKey(poll.id, question.options, (options ?? []).map(option => option.id));
+          }
+
+          // Rows come back in insertion order
+          question.options.forEach((option, optionIndex) => {
+            if (question.id && option.id && options?.[optionIndex]) {
+              optionIds.set(`${question.id}/${option.id}`, options[optionIndex].id);
+            }
+          });
+        }
+      }
+
+      if (data.branches && data.branches.length > 0) {
+        const { error: branchesError } = await supabase
+          .from('survey_branches')
+          .insert(data.branches.map(rule => ({
+            survey_id: survey.id,
+            question_id: questionIds.get(rule.questionId),
+            option_id: optionIds.get(`${rule.questionId}/${rule.optionId}`),
+            target_question_id: rule.targetQuestionId === null ? null : questionIds.get(rule.targetQuestionId)
+          })));
+
+        if (branchesError) throw branchesError;
+      }
+    } catch (error) {
+      await supabase.from('surveys').delete().eq('id', survey.id);
+      throw error;
+    }
+
+    return createSuccessResponse({ surveyId: survey.id });
+  } catch (error) {
+    return handleError(error, 'Failed to create survey', 'CREATE_SURVEY');
+  }
+}
+
+/**
+ * Delete a survey and all of its questions
+ * @param surveyId - The ID of the survey to delete
+ * @returns Promise<ApiResponse> - The deletion result
+ */
+export async function deleteSurveyOperation(surveyId: string): Promise<ApiResponse> {
+  try {
+    const surveyIdError = validateSurveyId(surveyId);
+    if (surveyIdError) {
+      return handleValidationError(surveyIdError);
+    }
+
+    const isOwner = await verifySurveyOwnership(surveyId);
+    if (!isOwner) {
+      return handlePermissionError('survey', 'delete');
+    }
+
+    const supabase = getSupabaseClient();
+
+    // Cascade removes the question polls, their votes and the survey responses
+    const { error } = await supabase
+      .from('surveys')
+      .delete()
+      .eq('id', surveyId);
+
+    if (error) throw error;
+
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to delete survey', 'DELETE_SURVEY');
+  }
+}
+
+/**
+ * Get a survey with its questions in order and its completion counts
+ * @param surveyId - The ID of the survey to retrieve
+ * @returns Promise<ApiResponse<Survey>> - The survey data
+ */
+export async function getSurveyOperation(surveyId: string): Promise<ApiResponse<Survey>> {
+  try {
+    const surveyIdError = validateSurveyId(surveyId);
+    if (surveyIdError) {
+      return handleValidationError(surveyIdError);
+    }
+
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('surveys')
+      .select('id, title, description, user_id, created_at, expires_at, polls(id, survey_position), survey_branches(question_id, option_id, target_question_id)')
+      .eq('id', surveyId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return handleNotFoundError('Survey');
+      }
+      throw error;
+    }
+
+    const questionIds = [...(data.polls ?? [])]
+      .sort((a: { survey_position: number }, b: { survey_position: number }) => a.survey_position - b.survey_position)
+      .map((question: { id: string }) => question.id);
+
+    // Load each question the same way as a standalone poll so tallies and
+    // ranked or score results are computed in one place
+    const questionResults = await Promise.all(questionIds.map(questionId => getPollOperation(questionId)));
+    const failed = questionResults.find(result => !result.success);
+    if (failed) {
+      throw new Error(failed.error || 'Failed to load survey questions');
+    }
+
+    const { data: completion, error: completionError } = await supabase
+      .rpc('get_survey_completion', { survey_ids: [surveyId] });
+
+    if (completionError) throw completionError;
+
+    return createSuccessResponse({
+      id: data.id,
+      title: data.title,
+      description: data.description,
+      user_id: data.user_id,
+      created_at: data.created_at,
+      expires_at: data.expires_at,
+      questions: questionResults.map(result => result.data!),
+      branches: toBranchRules(data.survey_branches),
+      respondents: Number(completion?.[0]?.started ?? 0),
+      completions: Number(completion?.[0]?.completed ?? 0)
+    });
+  } catch (error) {
+    return handleError(error, 'Failed to load survey', 'GET_SURVEY');
+  }
+}
+
+/**
+ * Get the current user's saved progress on a survey
+ * @param surveyId - The ID of the survey
+ * @returns Promise<ApiResponse<SurveyProgress | null>> - The saved progress, or null if not started
+ */
+export async function getSurveyProgressOperation(surveyId: string): Promise<ApiResponse<SurveyProgress | null>> {
+  try {
+    const surveyIdError = validateSurveyId(surveyId);
+    if (surveyIdError) {
+      return handleValidationError(surveyIdError);
+    }
+
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('survey_responses')
+      .select('progress, current_question, completed_at')
+      .eq('survey_id', surveyId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!data) {
+      return createSuccessResponse(null);
+    }
+
+    return createSuccessResponse({
+      answers: (data.progress ?? {}) as SurveyAnswers,
+      currentQuestion: data.current_question ?? 0,
+      completed: data.completed_at !== null
+    });
+  } catch (error) {
+    return handleError(error, 'Failed to load survey progress', 'GET_SURVEY_PROGRESS');
+  }
+}
+
+/**
+ * Save the current user's answers so far, so the survey can be resumed later
+ * @param surveyId - The ID of the survey
+ * @param answers - The draft answers, keyed by question ID
+ * @param currentQuestion - The 0-based index of the question the user is on
+ * @returns Promise<ApiResponse> - The save result
+ */
+export async function saveSurveyProgressOperation(
+  surveyId: string,
+  answers: SurveyAnswers,
+  currentQuestion: number
+): Promise<ApiResponse> {
+  try {
+    const surveyIdError = validateSurveyId(surveyId);
+    if (surveyIdError) {
+      return handleValidationError(surveyIdError);
+    }
+
+    if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+      return handleValidationError('Invalid survey answers');
+    }
+
+    if (!Number.isInteger(currentQuestion) || currentQuestion < 0) {
+      return handleValidationError('Invalid question position');
+    }
+
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+
+    const { data: existing, error: existingError } = await supabase
+      .from('survey_responses')
+      .select('completed_at')
+      .eq('survey_id', surveyId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+
+    if (existing?.completed_at) {
+      return handleValidationError('You have already completed this survey');
+    }
+
+    const { error } = await supabase
+      .from('survey_responses')
+      .upsert({
+        survey_id: surveyId,
+        user_id: user.id,
+        progress: answers,
+        current_question: currentQuestion,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'survey_id,user_id' });
+
+    if (error) throw error;
+
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to save survey progress', 'SAVE_SURVEY_PROGRESS');
+  }
+}
+
+/**
+ * Submit the answers to a survey at once and record the user's completion
+ * Only the questions on the respondent's path through the survey are
+ * validated and sent; answers left over from questions skipped by branching
+ * are dropped.
+ * @param surveyId - The ID of the survey
+ * @param answers - One answer per question on the path, keyed by question ID
+ * @returns Promise<ApiResponse> - The submission result
+ */
+export async function submitSurveyOperation(surveyId: string, answers: SurveyAnswers): Promise<ApiResponse> {
+  try {
+    const surveyIdError = validateSurveyId(surveyId);
+    if (surveyIdError) {
+      return handleValidationError(surveyIdError);
+    }
+
+    if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+      return handleValidationError('Invalid survey answers');
+    }
+
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+
+    const { data: questions, error: questionsError } = await supabase
+      .from('polls')
+      .select('id, poll_type, min_selections, max_selections, poll_options(id)')
+      .eq('survey_id', surveyId)
+      .order('survey_position', { ascending: true });
+
+    if (questionsError) throw questionsError;
+
+    if (!questions || questions.length === 0) {
+      return handleNotFoundError('Survey');
+    }
+
+    const { data: branches, error: branchesError } = await supabase
+      .from('survey_branches')
+      .select('question_id, option_id, target_question_id')
+      .eq('survey_id', surveyId);
+
+    if (branchesError) throw branchesError;
+
+    const path = resolveSurveyPath(questions, toBranchRules(branches), answers);
+
+    // Validate every answer before anything is recorded, and send only the
+    // field each question type uses
+    const payload: SurveyAnswers = {};
+
+    for (const [index, question] of questions.entries()) {
+      if (!path.includes(question.id)) continue;
+
+      const pollType: PollType = question.poll_type ?? 'single';
+      const answer = answers[question.id];
+      const submitted = pollType === 'text'
+        ? { response: typeof answer?.response === 'string' ? InputSanitizer.sanitizeText(answer.response) : '' }
+        : pollType === 'score'
+          ? { scores: answer?.scores ?? {} }
+          : { optionIds: answer?.optionIds ?? [] };
+
+      const answerErrors = validateSurveyAnswer({
+        pollType,
+        minSelections: question.min_selections ?? 1,
+        maxSelections: question.max_selections ?? null,
+        optionIds: (question.poll_options ?? []).map((option: { id: string }) => option.id)
+      }, submitted);
+
+      if (answerErrors.length > 0) {
+        return handleValidationError(`Question ${index + 1}: ${answerErrors[0].message}`);
+      }
+
+      payload[question.id] = submitted;
+    }
+
+    const { error } = await supabase.rpc('submit_survey', {
+      survey_id: surveyId,
+      user_id: user.id,
+      answers: payload
+    });
+
+    if (error) {
+      if (error.message.includes('already')) {
+        return handleValidationError('You have already completed this survey');
+      }
+      // Messages raised by the vote functions are written for the respondent
+      if (error.code === 'P0001' && !error.message.includes('Authentication')) {
+        return handleValidationError(error.message);
+      }
+      throw error;
+    }
+
+    return createSuccessResponse();
+  } catch (error) {
+    return handleError(error, 'Failed to submit survey', 'SUBMIT_SURVEY');
+  }
+}
+
+/**
+ * Get all surveys for the current user with their vote totals and completion rates
+ * @returns Promise<ApiResponse<UserSurvey[]>> - The user's surveys, newest first
+ */
+export async function getUserSurveysOperation(): Promise<ApiResponse<UserSurvey[]>> {
+  try {
+    const user = await getCurrentUser();
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('surveys')
+      .select('id, title, created_at, expires_at, user_id, polls(id)')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    // The creator may always see the counts of their own questions
+    const questionIds = data.flatMap((survey: DatabaseSurvey) => (survey.polls ?? []).map(question => question.id));
+    const votesByQuestion = new Map<string, number>();
+
+    if (questionIds.length > 0) {
+      const { data: counts, error: countsError } = await supabase
+        .rpc('get_option_counts', { poll_uuids: questionIds });
+
+      if (countsError) throw countsError;
+
+      (counts ?? []).forEach((count: { poll_id: string; votes: number }) => {
+        votesByQuestion.set(count.poll_id, (votesByQuestion.get(count.poll_id) ?? 0) + count.votes);
+      });
+    }
+
+    const surveyIds = data.map(survey => survey.id);
+    const completionBySurvey = new Map<string, { started: number; completed: number }>();
+
+    if (surveyIds.length > 0) {
+      const { data: completion, error: completionError } = await supabase
+        .rpc('get_survey_completion', { survey_ids: surveyIds });
+
+      if (completionError) throw completionError;
+
+      (completion ?? []).forEach((row: { survey_id: string; started: number; completed: number }) => {
+        completionBySurvey.set(row.survey_id, { started: Number(row.started), completed: Number(row.completed) });
+      });
+    }
+
+    const currentTime = new Date();
+    const surveys: UserSurvey[] = data.map((survey: DatabaseSurvey) => {
+      const questions = survey.polls ?? [];
+      const totalVotes = questions.reduce((total, question) => total + (votesByQuestion.get(question.id) ?? 0), 0);
+      const { started, completed } = completionBySurvey.get(survey.id) ?? { started: 0, completed: 0 };
+      const isExpired = survey.expires_at ? new Date(survey.expires_at) <= currentTime : false;
+
+      return {
+        id: survey.id,
+        title: survey.title,
+        created_at: survey.created_at,
+        expires_at: survey.expires_at,
+        user_id: survey.user_id,
+        questionCount: questions.length,
+        totalVotes,
+        respondents: started,
+        completions: completed,
+        completionRate: started > 0 ? completed / started : null,
+        isExpired,
+        status: isExpired ? 'expired' : 'ongoing'
+      };
+    });
+
+    return createSuccessResponse(surveys);
+  } catch (error) {
+    return handleError(error, 'Failed to load surveys', 'GET_USER_SURVEYS');
+  }
+}
+
+/**
+ * Get the leaderboard and per-question difficulty of a survey's quiz questions (survey creator only)
+ * @param surveyId - The ID of the survey
+ * @returns Promise<ApiResponse<QuizReport>> - Leaderboard and percent correct, in question order
+ */
+export async function getSurveyQuizReportOperation(surveyId: string): Promise<ApiResponse<QuizReport>> {
+  try {
+    const surveyIdError = validateSurveyId(surveyId);
+    if (surveyIdError) {
+      return handleValidationError(surveyIdError);
+    }
+
+    const isOwner = await verifySurveyOwnership(surveyId);
+    if (!isOwner) {
+      return handlePermissionError('survey', 'view the quiz results of');
+    }
+
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('polls')
+      .select('id')
+      .eq('survey_id', surveyId)
+      .eq('is_quiz', true)
+      .order('survey_position', { ascending: true });
+
+    if (error) throw error;
+
+    return createSuccessResponse(await loadQuizReport((data ?? []).map(question => question.id)));
+  } catch (error) {
+    return handleError(error, 'Failed to load quiz results', 'GET_SURVEY_QUIZ_REPORT');
+  }
+}
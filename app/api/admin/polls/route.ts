@@ -7,11 +7,14 @@ import { logger, createSafeErrorResponse } from '@/lib/logger';
 
 /**
  * Represents the publicly safe data for a poll.
+ * Never includes votes: on secret-ballot polls the choices live in secret_ballots,
+ * which no API role can read, so not even admins can tie a choice to a voter.
  */
 interface PublicPoll {
   id: string;
   question: string;
   expires_at: string | null;
+  is_secret: boolean;
 }
 
 /**
@@ -26,6 +29,7 @@ function toPublicPoll(poll: any): PublicPoll {
     id: poll.id,
     question: poll.title, // Renaming 'title' to 'question' for public consistency
     expires_at: poll.expires_at,
+    is_secret: poll.is_secret ?? false,
   };
 }
 
@@ -90,7 +94,7 @@ export async function GET(request: NextRequest) {
     // but the response will be sanitized.
     const { data: polls, error, count } = await supabase
       .from('polls')
-      .select('id, title, expires_at', { count: 'exact' })
+      .select('id, title, expires_at, is_secret', { count: 'exact' })
       .range(offset, offset + limit - 1)
       .order('created_at', { ascending: false });
 
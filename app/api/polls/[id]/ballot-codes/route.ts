@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBallotCodesOperation } from '@/app/actions/poll-operations';
+import { ballotCodesToCsv } from '@/lib/ballot-codes';
+
+/**
+ * GET /api/polls/[id]/ballot-codes - Download the poll's ballot codes as CSV (creator only)
+ * Each row has the code, its status, when it was spent and the link printed on its slip.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const result = await getBallotCodesOperation(params.id);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to load ballot codes' },
+        { status: result.error?.includes('permission') ? 403 : 400 }
+      );
+    }
+
+    const csv = ballotCodesToCsv(result.data.codes, request.nextUrl.origin, params.id);
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="ballot-codes-${params.id}.csv"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Ballot codes export error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
+import { createServiceClient } from '@/lib/supabase/service';
 import { SecurityUtils } from '@/lib/security';
+import { removeOptionImages } from '@/lib/option-images';
+import { canViewResults, isPollClosed, type ResultsVisibility } from '@/lib/results-visibility';
+import { PASSCODE_PARAM } from '@/lib/poll-passcodes';
+import { getClientAddress, getVoterToken, setVoterTokenCookie } from '@/lib/voter-token';
+import {
+  closePollOperation,
+  reopenPollOperation,
+  unlockPollOperation
+} from '@/app/actions/poll-operations';
+import { POLL_ERROR_CODES } from '@/app/actions/poll-errors';
+import { hasViewerVoted } from '@/app/api/votes/viewer-vote';
 
 /**
  * Enhanced Poll API Handler with Role-Based Security
@@ -16,18 +28,31 @@ import { SecurityUtils } from '@/lib/security';
  */
 
 /**
- * Check if user has permission to modify a poll
+ * What a viewer brings to open a passcode-protected poll
+ */
+interface PollAccess {
+  passcode: string | null;
+  request: NextRequest; // Carries the voter token cookie, read only for passcode-protected polls
+  clientAddress: string;
+}
+
+/**
+ * Check if user has permission to read or modify a poll
+ * Reading a passcode-protected poll takes its passcode, unless the viewer
+ * owns the poll, is an admin or has entered the passcode before. Visitors
+ * are told apart by their voter token, which is only issued for these polls.
  */
 async function verifyPollAccess(
   supabase: any,
   pollId: string,
-  userId: string,
-  action: 'read' | 'write' | 'delete'
-) {
-  // Get poll data
-  const { data: poll, error: pollError } = await supabase
+  userId: string | null,
+  action: 'read' | 'write' | 'delete',
+  access?: PollAccess
+): Promise<{ authorized: boolean; error?: string; code?: string; voterCookie?: string }> {
+  // Get poll data; a locked poll can't be read through the API, even by those about to unlock it
+  const { data: poll, error: pollError } = await createServiceClient()
     .from('polls')
-    .select('user_id')
+    .select('user_id, has_passcode')
     .eq('id', pollId)
     .single();
 
@@ -39,18 +64,35 @@ async function verifyPollAccess(
   const isOwner = poll.user_id === userId;
   
   // Check if user is admin
-  const { data: roleData } = await supabase
-    .from('user_roles')
-    .select('role')
-    .eq('user_id', userId)
-    .single();
+  const { data: roleData } = userId
+    ? await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', userId)
+        .single()
+    : { data: null };
     
   const isAdmin = roleData?.role === 'admin';
 
   // Permission logic
   switch (action) {
-    case 'read':
-      return { authorized: true }; // Anyone can read polls
+    case 'read': {
+      // Anyone can read polls without a passcode
+      if (!poll.has_passcode || isOwner || isAdmin) {
+        return { authorized: true };
+      }
+      const voter = access ? getVoterToken(access.request) : null;
+      const unlock = await unlockPollOperation(
+        pollId,
+        access?.passcode ?? null,
+        voter?.token ?? null,
+        access?.clientAddress
+      );
+      // Visitors keep the voter token their passcode attempt was made with
+      return unlock.success
+        ? { authorized: true, voterCookie: voter?.cookieValue }
+        : { authorized: false, error: unlock.error, code: unlock.code, voterCookie: voter?.cookieValue };
+    }
     case 'write':
       return { authorized: isOwner || isAdmin };
     case 'delete':
@@ -62,7 +104,9 @@ async function verifyPollAccess(
 
 /**
  * GET /api/polls/[id] - Get a single poll with options and vote counts
- * Public endpoint - no authentication required
+ * Public endpoint - no authentication required. Vote counts are left out while
+ * the poll's results visibility setting hides them from the viewer.
+ * Passcode-protected polls take the passcode as ?code= or an x-poll-passcode header.
  */
 export async function GET(
   request: NextRequest,
@@ -79,8 +123,35 @@ export async function GET(
       );
     }
 
-    // Get poll with options and vote counts
-    const { data: poll, error } = await supabase
+    // Passcode-protected polls need the passcode first
+    const { data: { user: viewer } } = await supabase.auth.getUser();
+    const accessCheck = await verifyPollAccess(supabase, pollId, viewer?.id ?? null, 'read', {
+      passcode: request.nextUrl.searchParams.get(PASSCODE_PARAM) ?? request.headers.get('x-poll-passcode'),
+      request,
+      clientAddress: getClientAddress(request.headers)
+    });
+    if (!accessCheck.authorized) {
+      if (accessCheck.error === 'Poll not found') {
+        return NextResponse.json(
+          { error: 'Poll not found' },
+          { status: 404 }
+        );
+      }
+      const denied = NextResponse.json(
+        { error: accessCheck.error || 'Permission denied', code: accessCheck.code },
+        { status: accessCheck.code === POLL_ERROR_CODES.PASSCODE_THROTTLED ? 429 : 401 }
+      );
+      if (accessCheck.voterCookie) {
+        setVoterTokenCookie(denied, accessCheck.voterCookie);
+      }
+      return denied;
+    }
+
+    // Get poll with options and vote counts; the counts can't be selected
+    // through the API, so they are read with the service role and only sent
+    // once the visibility check below passes
+    const service = createServiceClient();
+    const { data: poll, error } = await service
       .from('polls')
       .select(`
         id,
@@ -88,7 +159,17 @@ export async function GET(
         description,
         created_at,
         expires_at,
+        closed_at,
+        close_reason,
         user_id,
+        results_visibility,
+        is_secret,
+        is_invite_only,
+        has_passcode,
+        is_weighted,
+        allow_delegation,
+        tags,
+        points_budget,
         poll_options (
           id,
           text,
@@ -113,11 +194,50 @@ export async function GET(
       );
     }
 
-    // Check if poll is expired
-    const isExpired = poll.expires_at && new Date(poll.expires_at) < new Date();
+    // Check if poll is expired or closed by an auto-close rule
+    const isExpired = isPollClosed(poll);
+
+    // Check whether the viewer may see the results yet
+    const resultsVisibility: ResultsVisibility = poll.results_visibility ?? 'always';
+    let resultsHidden = false;
+    if (resultsVisibility !== 'always' || poll.is_secret) {
+      resultsHidden = !canViewResults(resultsVisibility, {
+        isCreator: viewer?.id === poll.user_id,
+        hasVoted: await hasViewerVoted(supabase, request, pollId, viewer?.id),
+        isClosed: isExpired,
+        isSecret: !!poll.is_secret
+      });
+    }
+
+    // Once the poll closes, votes delegated to its voters count towards their choices
+    const delegatedVotes: Record<string, number> = {};
+    if (!resultsHidden && poll.allow_delegation && isExpired) {
+      const { data: tally, error: tallyError } = await service
+        .rpc('get_delegated_tally', { poll_uuid: pollId });
+
+      if (tallyError) throw tallyError;
+
+      for (const row of tally ?? []) {
+        if (row.option_id) delegatedVotes[row.option_id] = Number(row.votes);
+      }
+    }
+    const countVotes = (option: { id: string; votes: number }) => option.votes + (delegatedVotes[option.id] ?? 0);
+
+    // Budget polls count points, so the voters who backed each option are listed beside them
+    const backers: Record<string, number> = {};
+    if (!resultsHidden && poll.points_budget !== null) {
+      const { data: counts, error: countsError } = await service
+        .rpc('get_option_headcounts', { poll_uuid: pollId });
+
+      if (countsError) throw countsError;
+
+      for (const count of counts ?? []) {
+        backers[count.option_id] = Number(count.voters);
+      }
+    }
 
     // Calculate total votes
-    const totalVotes = poll.poll_options?.reduce((sum, option) => sum + option.votes, 0) || 0;
+    const totalVotes = poll.poll_options?.reduce((sum, option) => sum + countVotes(option), 0) || 0;
 
     // Format response
     const response = {
@@ -126,18 +246,36 @@ export async function GET(
       description: poll.description,
       created_at: poll.created_at,
       expires_at: poll.expires_at,
+      closed_at: poll.closed_at,
+      close_reason: poll.close_reason,
+      is_invite_only: poll.is_invite_only ?? false,
+      has_passcode: poll.has_passcode ?? false,
+      is_weighted: poll.is_weighted ?? false,
+      allow_delegation: poll.allow_delegation ?? false,
+      tags: poll.tags ?? [],
+      points_budget: poll.points_budget ?? null,
       is_expired: isExpired,
-      total_votes: totalVotes,
+      results_visibility: resultsVisibility,
+      results_hidden: resultsHidden,
+      ...(!resultsHidden && { total_votes: totalVotes }),
       options: poll.poll_options?.map(option => ({
         id: option.id,
         text: option.text,
-        votes: option.votes,
-        percentage: totalVotes > 0 ? Math.round((option.votes / totalVotes) * 100) : 0
+        ...(!resultsHidden && {
+          votes: countVotes(option),
+          percentage: totalVotes > 0 ? Math.round((countVotes(option) / totalVotes) * 100) : 0,
+          ...(poll.points_budget !== null && { voters: backers[option.id] ?? 0 })
+        })
       })) || [],
       user_id: poll.user_id
     };
 
-    return NextResponse.json(response);
+    const json = NextResponse.json(response);
+    // Visitors who entered the passcode are remembered by their voter token
+    if (accessCheck.voterCookie) {
+      setVoterTokenCookie(json, accessCheck.voterCookie);
+    }
+    return json;
 
   } catch (error) {
     console.error('Get poll API error:', error);
@@ -150,6 +288,8 @@ export async function GET(
 
 /**
  * PUT /api/polls/[id] - Update a poll (owner or admin only)
+ * A body of { action: 'close' } or { action: 'reopen' } closes or reopens the
+ * poll instead; only its creator can do that.
  */
 export async function PUT(
   request: NextRequest,
@@ -196,6 +336,31 @@ export async function PUT(
       );
     }
 
+    if (body.action !== undefined) {
+      if (body.action !== 'close' && body.action !== 'reopen') {
+        return NextResponse.json(
+          { error: "Action must be 'close' or 'reopen'" },
+          { status: 400 }
+        );
+      }
+
+      const result = body.action === 'close'
+        ? await closePollOperation(pollId)
+        : await reopenPollOperation(pollId);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.error?.includes('permission') ? 403 : result.error?.includes('Failed') ? 500 : 400 }
+        );
+      }
+
+      return NextResponse.json({
+        message: body.action === 'close' ? 'Poll closed successfully' : 'Poll reopened successfully',
+        pollId
+      });
+    }
+
     const { title, description, expires_at, options } = body;
 
     // Validate and sanitize inputs
@@ -364,6 +529,13 @@ export async function DELETE(
       );
     }
 
+    // Option images live in storage, which the cascade doesn't reach
+    const { data: images } = await supabase
+      .from('poll_options')
+      .select('image_path')
+      .eq('poll_id', pollId)
+      .not('image_path', 'is', null);
+
     // Delete poll (cascade delete will handle related records)
     const { error: deleteError } = await supabase
       .from('polls')
@@ -378,6 +550,8 @@ export async function DELETE(
       );
     }
 
+    await removeOptionImages(supabase, (images ?? []).map((option: { image_path: string }) => option.image_path));
+
     return NextResponse.json({
       message: 'Poll deleted successfully',
       pollId
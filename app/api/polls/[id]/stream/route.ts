@@ -0,0 +1,246 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import { canViewResults, describeResultsVisibility, isPollClosed, type ResultsVisibility } from '@/lib/results-visibility';
+import {
+  STREAM_HEARTBEAT_MS,
+  formatStreamEvent,
+  lastVoteEventId,
+  openVoteStream,
+  parseLastEventId,
+  voteEventsSince,
+  type VoteStreamEvent
+} from '@/lib/vote-stream';
+import { POLL_ERROR_CODES } from '@/app/actions/poll-errors';
+import { hasViewerVoted } from '@/app/api/votes/viewer-vote';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Poll and option counts sent when a stream starts
+ */
+interface StreamSnapshot {
+  question: string;
+  expires_at: string | null;
+  closed_at: string | null;
+  options: { id: string; text: string; votes: number }[];
+}
+
+/**
+ * GET /api/polls/[id]/stream - Follow a poll's option counts as Server-Sent Events
+ * The stream starts with a `snapshot` event holding the question and every
+ * option's count, then sends a `votes` event with the new counts of the
+ * options each ballot changed. A client reconnecting with Last-Event-ID gets
+ * the `votes` events it missed instead of a snapshot, when they are still kept.
+ * Only viewers who may see the poll's results are streamed, e.g. voters once
+ * they voted on an after-vote poll, and never on secret-ballot polls, where the
+ * timing of a vote could give it away.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const pollId = params.id;
+
+  if (!pollId) {
+    return NextResponse.json(
+      { error: 'Poll ID is required' },
+      { status: 400 }
+    );
+  }
+
+  // Listen for the client leaving before the first await, so a stream slot
+  // taken while the stream is opened is always given back
+  const encoder = new TextEncoder();
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  let isClosed = false;
+  let stopListening: (() => void) | null = null;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const close = () => {
+    if (isClosed) return;
+    isClosed = true;
+    clearInterval(heartbeat);
+    stopListening?.();
+    try {
+      controller?.close();
+    } catch {
+      // The client has gone already
+    }
+  };
+  request.signal.addEventListener('abort', close);
+
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  // Read past RLS, so a locked poll is refused below rather than not found
+  const { data: poll, error: pollError } = await createServiceClient()
+    .from('polls')
+    .select('question, user_id, results_visibility, has_passcode, is_secret, expires_at, closed_at, allow_delegation')
+    .eq('id', pollId)
+    .single();
+
+  if (pollError || !poll) {
+    return NextResponse.json(
+      { error: 'Poll not found' },
+      { status: 404 }
+    );
+  }
+
+  if (poll.is_secret) {
+    return NextResponse.json(
+      { error: 'Secret-ballot polls can\'t be followed live' },
+      { status: 403 }
+    );
+  }
+
+  // A stream has no one to ask for a passcode
+  const isCreator = user?.id === poll.user_id;
+  if (poll.has_passcode && !isCreator) {
+    return NextResponse.json(
+      { error: 'Only the poll creator can stream a passcode-protected poll', code: POLL_ERROR_CODES.PASSCODE_REQUIRED },
+      { status: 403 }
+    );
+  }
+
+  const resultsVisibility: ResultsVisibility = poll.results_visibility ?? 'always';
+  const hasVoted = resultsVisibility === 'after_vote' && !isCreator
+    && await hasViewerVoted(supabase, request, pollId, user?.id);
+  if (!canViewResults(resultsVisibility, { isCreator, hasVoted, isClosed: isPollClosed(poll), isSecret: poll.is_secret })) {
+    return NextResponse.json(
+      { error: describeResultsVisibility(resultsVisibility) },
+      { status: 403 }
+    );
+  }
+
+  // Listen before reading the counts, so no vote falls between the two
+  const pending: VoteStreamEvent[] = [];
+
+  const write = (chunk: string) => {
+    if (!isClosed) controller?.enqueue(encoder.encode(chunk));
+  };
+  const sendVotes = (event: VoteStreamEvent) => {
+    write(formatStreamEvent('votes', event.id, { counts: event.counts }));
+  };
+
+  try {
+    stopListening = await openVoteStream(pollId, event => {
+      if (controller) {
+        sendVotes(event);
+      } else {
+        pending.push(event);
+      }
+    });
+  } catch (error) {
+    console.error('Error following poll votes for stream:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+
+  if (isClosed) {
+    // The client left while the stream was opened
+    stopListening?.();
+    return new Response(null);
+  }
+
+  if (!stopListening) {
+    return NextResponse.json(
+      { error: 'Too many open streams for this poll. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  const lastEventId = parseLastEventId(request.headers.get('last-event-id'));
+  const missed = lastEventId === null ? null : voteEventsSince(pollId, lastEventId);
+  const snapshotId = lastVoteEventId(pollId);
+
+  let snapshot: StreamSnapshot | null = null;
+  if (!missed) {
+    try {
+      snapshot = await loadSnapshot(pollId, poll);
+    } catch (error) {
+      close();
+      console.error('Error loading poll for stream:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (isClosed) {
+    return new Response(null);
+  }
+
+  const body = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+      write(`retry: 3000\n\n`);
+
+      if (snapshot) {
+        write(formatStreamEvent('snapshot', snapshotId, snapshot));
+      } else {
+        missed!.forEach(sendVotes);
+      }
+      pending.forEach(sendVotes);
+
+      heartbeat = setInterval(() => write(': heartbeat\n\n'), STREAM_HEARTBEAT_MS);
+    },
+    cancel: close
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
+
+/**
+ * Read the poll's option counts for the first event of a stream
+ * The counts can't be selected through the API, so they are read with the
+ * service role once the caller has checked the results may be seen. Once the
+ * poll closes, votes delegated to its voters count towards their choices.
+ */
+async function loadSnapshot(
+  pollId: string,
+  poll: { question: string; expires_at: string | null; closed_at: string | null; allow_delegation: boolean | null }
+): Promise<StreamSnapshot> {
+  const service = createServiceClient();
+  const { data: options, error } = await service
+    .from('poll_options')
+    .select('id, option_text, votes, starts_at')
+    .eq('poll_id', pollId)
+    .order('starts_at', { ascending: true, nullsFirst: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const delegatedVotes: Record<string, number> = {};
+  if (poll.allow_delegation && isPollClosed(poll)) {
+    const { data: tally, error: tallyError } = await service
+      .rpc('get_delegated_tally', { poll_uuid: pollId });
+
+    if (tallyError) throw tallyError;
+
+    for (const row of tally ?? []) {
+      if (row.option_id) delegatedVotes[row.option_id] = Number(row.votes);
+    }
+  }
+
+  return {
+    question: poll.question,
+    expires_at: poll.expires_at,
+    closed_at: poll.closed_at,
+    options: (options ?? []).map((option: { id: string; option_text: string; votes: number | null }) => ({
+      id: option.id,
+      text: option.option_text,
+      votes: (option.votes ?? 0) + (delegatedVotes[option.id] ?? 0)
+    }))
+  };
+}
@@ -1,17 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { votePoll } from '@/app/actions/poll-actions';
+import { votePoll, changeVote, retractVote, scorePoll, allocatePoints, submitAvailability } from '@/app/actions/poll-actions';
+import { checkAnonymousVoteStatusOperation } from '@/app/actions/poll-operations';
+import { createClient } from '@/lib/supabase/server';
+import { VOTER_TOKEN_COOKIE, verifyVoterToken } from '@/lib/voter-token';
+import { respondToAnonymousVote } from '@/app/api/votes/anonymous-vote';
+import { respondToBallotCodeVote } from '@/app/api/votes/ballot-code-vote';
 
+/**
+ * Whether the visitor has voted anonymously on the poll, and their ballot
+ * Signed-in voters check their vote through checkVoteStatus instead.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const voterToken = verifyVoterToken(request.cookies.get(VOTER_TOKEN_COOKIE)?.value);
+  const status = await checkAnonymousVoteStatusOperation(params.id, voterToken);
+
+  return NextResponse.json(status, { status: status.error ? 500 : 200 });
+}
+
+/**
+ * Cast a ballot: as the signed-in user, as a visitor with a voter token on
+ * polls that allow it, or with a single-use ballot code in ballotCode
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
     const body = await request.json();
-    const { optionId } = body;
+    const { optionId, optionIds, scores, points, availability, ballotCode } = body;
     const pollId = params.id;
 
+    const isScoreBallot = scores !== null && typeof scores === 'object' && !Array.isArray(scores);
+    const isPointsBallot = points !== null && typeof points === 'object' && !Array.isArray(points);
+    const isAvailabilityBallot = availability !== null && typeof availability === 'object' && !Array.isArray(availability);
+
     // Validate required fields
-    if (!optionId) {
+    if (!optionId && !(Array.isArray(optionIds) && optionIds.length > 0) && !isScoreBallot && !isPointsBallot && !isAvailabilityBallot) {
       return NextResponse.json(
         { error: 'Option ID is required' },
         { status: 400 }
@@ -25,8 +52,49 @@ export async function POST(
       );
     }
 
+    // A ballot code is the voter's credential, with or without a session
+    if (typeof ballotCode === 'string' && ballotCode.trim()) {
+      if (isScoreBallot || isPointsBallot || isAvailabilityBallot) {
+        return NextResponse.json(
+          { error: 'Ballot codes can only be used on choice polls' },
+          { status: 400 }
+        );
+      }
+      return respondToBallotCodeVote(
+        request,
+        pollId,
+        ballotCode,
+        Array.isArray(optionIds) ? optionIds : [optionId],
+        { message: 'Vote submitted successfully' }
+      );
+    }
+
+    // Visitors without a session vote with a voter token, on polls that allow it
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      if (isScoreBallot || isPointsBallot || isAvailabilityBallot) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        );
+      }
+      return respondToAnonymousVote(
+        request,
+        pollId,
+        Array.isArray(optionIds) ? optionIds : [optionId],
+        { message: 'Vote submitted successfully' }
+      );
+    }
+
     // Submit the vote using the server action
-    const result = await votePoll(pollId, optionId);
+    const result = isScoreBallot
+      ? await scorePoll(pollId, scores)
+      : isPointsBallot
+        ? await allocatePoints(pollId, points)
+        : isAvailabilityBallot
+          ? await submitAvailability(pollId, availability)
+          : await votePoll(pollId, Array.isArray(optionIds) ? optionIds : optionId);
 
     if (!result.success) {
       // Return appropriate status based on error type
@@ -58,3 +126,92 @@ export async function POST(
     );
   }
 }
+
+
+/**
+ * Change the caller's vote on a poll that allows vote changes
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const { optionId, optionIds } = body;
+    const pollId = params.id;
+
+    const selection = Array.isArray(optionIds) ? optionIds : optionId ? [optionId] : [];
+    if (selection.length === 0) {
+      return NextResponse.json(
+        { error: 'Option ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await changeVote(pollId, selection);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error?.includes('not found') ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Vote changed successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error in vote API:', error);
+
+    if (error instanceof Error && error.message.includes('logged in')) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Withdraw the caller's vote on a poll that allows vote changes
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const result = await retractVote(params.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error?.includes('not found') ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Vote withdrawn successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error in vote API:', error);
+
+    if (error instanceof Error && error.message.includes('logged in')) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
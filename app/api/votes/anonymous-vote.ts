@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { voteAnonymouslyOperation } from '@/app/actions/poll-operations';
+import { POLL_ERROR_CODES } from '@/app/actions/poll-errors';
+import { getVoterToken, isAnonymousVoteRateLimited, setVoterTokenCookie } from '@/lib/voter-token';
+
+/**
+ * Record the ballot of a visitor without an account and answer the vote request
+ * Shared by the vote routes for requests without a session. Issues the voter
+ * token cookie on the visitor's first vote.
+ * @param successBody - JSON body of the response when the vote is recorded
+ */
+export async function respondToAnonymousVote(
+  request: NextRequest,
+  pollId: string,
+  optionIds: string[],
+  successBody: Record<string, unknown>,
+  successStatus: number = 200
+): Promise<NextResponse> {
+  if (isAnonymousVoteRateLimited(request)) {
+    return NextResponse.json(
+      { error: 'Too many votes. Please wait a minute and try again.' },
+      { status: 429 }
+    );
+  }
+
+  const { token, cookieValue } = getVoterToken(request);
+  const result = await voteAnonymouslyOperation(pollId, optionIds, token);
+
+  const response = result.success
+    ? NextResponse.json(successBody, { status: successStatus })
+    : NextResponse.json(
+        { error: result.error, ...(result.code && { code: result.code }) },
+        {
+          status: result.code === POLL_ERROR_CODES.POLL_CLOSED ? 410
+            : result.code === POLL_ERROR_CODES.PASSCODE_REQUIRED ? 403
+            : result.error?.includes('already voted') ? 409
+            : result.error?.includes('not found') ? 404
+            : result.error?.includes('Log in') ? 401
+            : 400
+        }
+      );
+
+  // Keep the new token even when the vote failed, so a retry doesn't mint another
+  if (cookieValue) {
+    setVoterTokenCookie(response, cookieValue);
+  }
+
+  if (result.success) {
+    revalidatePath(`/polls/${pollId}`);
+  }
+
+  return response;
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { voteWithBallotCodeOperation } from '@/app/actions/poll-operations';
+import { POLL_ERROR_CODES } from '@/app/actions/poll-errors';
+import { RateLimiter, SECURITY_CONFIG } from '@/lib/security';
+import { getClientAddress } from '@/lib/voter-token';
+
+const failuresKey = (pollId: string) => `ballot-code-failures:${pollId}`;
+
+/**
+ * Record a ballot cast with a single-use ballot code and answer the vote request
+ * Attempts are rate limited by the client address the proxy saw, and a poll
+ * stops taking codes for a while after too many unknown ones from anyone, so
+ * codes can't be guessed by spreading attempts over many addresses.
+ * @param successBody - JSON body of the response when the vote is recorded
+ */
+export async function respondToBallotCodeVote(
+  request: NextRequest,
+  pollId: string,
+  ballotCode: string,
+  optionIds: string[],
+  successBody: Record<string, unknown>
+): Promise<NextResponse> {
+  const isRateLimited = RateLimiter.isRateLimited(
+    `ballot-code:${getClientAddress(request.headers)}`,
+    SECURITY_CONFIG.RATE_LIMITS.BALLOT_CODE_ATTEMPTS_PER_MINUTE,
+    60 * 1000
+  );
+  const isGuessingLocked = RateLimiter.hasReachedLimit(
+    failuresKey(pollId),
+    SECURITY_CONFIG.RATE_LIMITS.BALLOT_CODE_FAILURES_PER_HOUR,
+    60 * 60 * 1000
+  );
+  if (isRateLimited || isGuessingLocked) {
+    return NextResponse.json(
+      { error: 'Too many ballot code attempts. Please wait a while and try again.' },
+      { status: 429 }
+    );
+  }
+
+  const result = await voteWithBallotCodeOperation(pollId, ballotCode, optionIds);
+
+  if (!result.success) {
+    if (result.code === POLL_ERROR_CODES.BALLOT_CODE_INVALID) {
+      RateLimiter.record(failuresKey(pollId));
+    }
+
+    return NextResponse.json(
+      { error: result.error, ...(result.code && { code: result.code }) },
+      {
+        status: result.code === POLL_ERROR_CODES.POLL_CLOSED ? 410
+          : result.code === POLL_ERROR_CODES.BALLOT_CODE_SPENT ? 409
+          : result.code === POLL_ERROR_CODES.BALLOT_CODE_INVALID || result.code === POLL_ERROR_CODES.BALLOT_CODE_REVOKED ? 403
+          : result.error?.includes('not found') ? 404
+          : 400
+      }
+    );
+  }
+
+  revalidatePath(`/polls/${pollId}`);
+  return NextResponse.json(successBody);
+}
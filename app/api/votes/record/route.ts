@@ -1,20 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { validateOptionIds } from '@/app/actions/poll-validation';
+import { POLL_ERROR_CODES } from '@/app/actions/poll-errors';
+import { respondToAnonymousVote } from '../anonymous-vote';
 
 interface VoteRequest {
   pollId: string;
-  optionId: string;
+  optionId?: string;
+  optionIds?: string[]; // Multi-select ballots
   userId?: string; // Optional for testing purposes
 }
 
+/**
+ * Read the current counts of the options voted for
+ * get_option_counts leaves them out while the poll's results are hidden from the caller.
+ */
+async function readVoteCounts(
+  supabase: ReturnType<typeof createClient>,
+  pollId: string,
+  optionIds: string[]
+): Promise<Record<string, number>> {
+  const { data: counts, error } = await supabase
+    .rpc('get_option_counts', { poll_uuids: [pollId] });
+
+  if (error) {
+    console.warn('Could not fetch updated vote count:', error);
+  }
+
+  return Object.fromEntries(
+    (counts ?? [])
+      .filter((count: { option_id: string }) => optionIds.includes(count.option_id))
+      .map((count: { option_id: string; votes: number }) => [count.option_id, count.votes])
+  );
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body: VoteRequest = await request.json();
     const { pollId, optionId, userId } = body;
+    const optionIds = Array.isArray(body.optionIds) ? body.optionIds : optionId ? [optionId] : [];
 
     // Validate required fields
-    if (!pollId || !optionId) {
+    if (!pollId || optionIds.length === 0) {
       return NextResponse.json(
         { error: 'Poll ID and Option ID are required' },
         { status: 400 }
@@ -28,11 +56,13 @@ export async function POST(request: NextRequest) {
     if (!currentUserId) {
       const { data: { user }, error: authError } = await supabase.auth.getUser();
       
+      // Without a session the vote is recorded anonymously, if the poll allows it
       if (authError || !user) {
-        return NextResponse.json(
-          { error: 'Authentication required' },
-          { status: 401 }
-        );
+        return respondToAnonymousVote(request, pollId, optionIds, {
+          success: true,
+          message: 'Vote recorded successfully',
+          data: { pollId, optionId: optionIds[0], optionIds, anonymous: true }
+        }, 201);
       }
       
       currentUserId = user.id;
@@ -41,7 +71,7 @@ export async function POST(request: NextRequest) {
     // Check if poll exists and get poll details
     const { data: poll, error: pollError } = await supabase
       .from('polls')
-      .select('id, question, expires_at')
+      .select('id, question, opens_at, expires_at, closed_at, poll_type, min_selections, max_selections, is_secret')
       .eq('id', pollId)
       .single();
 
@@ -52,6 +82,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Check if poll has opened
+    if (poll.opens_at && new Date(poll.opens_at) > new Date()) {
+      return NextResponse.json(
+        { error: 'Poll is not open yet' },
+        { status: 403 }
+      );
+    }
+
     // Check if poll has expired
     if (poll.expires_at && new Date(poll.expires_at) < new Date()) {
       return NextResponse.json(
@@ -60,15 +98,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if option exists for this poll
-    const { data: option, error: optionError } = await supabase
+    // Check if the poll has been closed early
+    if (poll.closed_at) {
+      return NextResponse.json(
+        { error: 'Poll is closed', code: POLL_ERROR_CODES.POLL_CLOSED },
+        { status: 410 }
+      );
+    }
+
+    // Check the ballot against the poll's selection limits
+    const pollType = poll.poll_type ?? 'single';
+    const selectionErrors = validateOptionIds(optionIds, {
+      pollType,
+      minSelections: poll.min_selections ?? 1,
+      maxSelections: poll.max_selections ?? null
+    });
+
+    if (selectionErrors.length > 0) {
+      return NextResponse.json(
+        { error: selectionErrors[0].message },
+        { status: 400 }
+      );
+    }
+
+    // Check if every selected option exists for this poll
+    const { data: options, error: optionError } = await supabase
       .from('poll_options')
       .select('id, poll_id')
-      .eq('id', optionId)
-      .eq('poll_id', pollId)
-      .single();
+      .in('id', optionIds)
+      .eq('poll_id', pollId);
 
-    if (optionError || !option) {
+    if (optionError || !options || options.length !== optionIds.length) {
       return NextResponse.json(
         { error: 'Invalid option for this poll' },
         { status: 400 }
@@ -96,32 +156,63 @@ export async function POST(request: NextRequest) {
     }
 
     // Record the vote using the RPC function for atomic operation
-    const { error: rpcError } = await supabase.rpc('increment_vote', {
-      option_id: optionId,
-      poll_id: pollId,
-      user_id: currentUserId
-    });
+    // Multi-select ballots go through increment_votes, which re-checks the limits in the same transaction,
+    // and so do secret ballots, which it keeps apart from the voter
+    const { error: rpcError } = pollType === 'single' && !poll.is_secret
+      ? await supabase.rpc('increment_vote', {
+          option_id: optionIds[0],
+          poll_id: pollId,
+          user_id: currentUserId
+        })
+      : await supabase.rpc('increment_votes', {
+          option_ids: optionIds,
+          poll_id: pollId,
+          user_id: currentUserId
+        });
 
     if (rpcError) {
+      // The poll can close between the check above and the vote
+      if (rpcError.message.includes('is closed')) {
+        return NextResponse.json(
+          { error: 'Poll is closed', code: POLL_ERROR_CODES.POLL_CLOSED },
+          { status: 410 }
+        );
+      }
+      if (rpcError.message.includes('not invited')) {
+        return NextResponse.json(
+          { error: 'You are not invited to vote on this poll', code: POLL_ERROR_CODES.NOT_INVITED },
+          { status: 403 }
+        );
+      }
+      if (rpcError.message.includes('not an eligible voter')) {
+        return NextResponse.json(
+          { error: 'You are not an eligible voter on this poll', code: POLL_ERROR_CODES.NOT_ELIGIBLE },
+          { status: 403 }
+        );
+      }
+      if (rpcError.message.includes('needs its passcode')) {
+        return NextResponse.json(
+          { error: 'Enter the passcode to open this poll', code: POLL_ERROR_CODES.PASSCODE_REQUIRED },
+          { status: 403 }
+        );
+      }
       if (rpcError.message.includes('already voted')) {
         return NextResponse.json(
           { error: 'You have already voted on this poll' },
           { status: 409 }
         );
       }
+      if (rpcError.message.includes('Select at')) {
+        return NextResponse.json(
+          { error: rpcError.message },
+          { status: 400 }
+        );
+      }
       throw rpcError;
     }
 
-    // Get updated vote count for the option
-    const { data: updatedOption, error: updateError } = await supabase
-      .from('poll_options')
-      .select('votes')
-      .eq('id', optionId)
-      .single();
-
-    if (updateError) {
-      console.warn('Could not fetch updated vote count:', updateError);
-    }
+    // Get updated vote counts for the selected options, where the voter may see them
+    const newVoteCounts = await readVoteCounts(supabase, pollId, optionIds);
 
     // Revalidate the poll page
     revalidatePath(`/polls/${pollId}`);
@@ -131,9 +222,11 @@ export async function POST(request: NextRequest) {
       message: 'Vote recorded successfully',
       data: {
         pollId,
-        optionId,
+        optionId: optionIds[0],
+        optionIds,
         userId: currentUserId,
-        newVoteCount: updatedOption?.votes || null
+        newVoteCount: newVoteCounts[optionIds[0]] ?? null,
+        newVoteCounts
       }
     }, { status: 201 });
 
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { checkAnonymousVoteStatusOperation } from '@/app/actions/poll-operations';
+import { VOTER_TOKEN_COOKIE, verifyVoterToken } from '@/lib/voter-token';
+
+/**
+ * Check whether the viewer has cast a ballot on a poll
+ * Visitors without an account are recognized by their voter token cookie.
+ */
+export async function hasViewerVoted(
+  supabase: SupabaseClient,
+  request: NextRequest,
+  pollId: string,
+  userId: string | undefined
+): Promise<boolean> {
+  if (!userId) {
+    const voterToken = verifyVoterToken(request.cookies.get(VOTER_TOKEN_COOKIE)?.value);
+    const status = await checkAnonymousVoteStatusOperation(pollId, voterToken);
+    return status.hasVoted;
+  }
+
+  const { data: vote } = await supabase
+    .from('votes')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('poll_id', pollId)
+    .maybeSingle();
+
+  return !!vote;
+}
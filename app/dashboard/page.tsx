@@ -11,9 +11,15 @@ import {
 } from '../../components/ui/card';
 import { DashboardSharePoll } from '@/components/polls/DashboardSharePoll';
 import { getUserPolls } from '@/app/actions/poll-actions';
+import { getUserSurveys } from '@/app/actions/survey-actions';
+import type { CloseReason, PollStatus, UserSurvey } from '@/app/actions/poll-types';
 import { DeletePollButton } from '@/components/polls/DeletePollButton';
-import { Clock, CheckCircle2, LogOut, User } from 'lucide-react';
+import { ClosePollButton } from '@/components/polls/ClosePollButton';
+import { DeleteSurveyButton } from '@/components/surveys/DeleteSurveyButton';
+import { CalendarClock, Clock, CheckCircle2, ClipboardList, LogOut, User } from 'lucide-react';
 import { getAuthenticatedUser } from '@/lib/supabase';
+import { describeCloseReason } from '@/lib/auto-close';
+import { isPollClosed } from '@/lib/results-visibility';
 import { LogoutButton } from '@/components/auth/LogoutButton';
 
 interface Poll {
@@ -21,10 +27,13 @@ interface Poll {
   question: string;
   totalVotes: number;
   created_at: string;
+  opens_at: string | null;
   expires_at: string | null;
+  closed_at: string | null;
+  close_reason: CloseReason | null;
   user_id: string;
   isExpired: boolean;
-  status: 'ongoing' | 'expired';
+  status: PollStatus;
 }
 
 interface DashboardPageProps {
@@ -51,8 +60,8 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
   
   const createdPoll = searchParams.created;
   
-  // Fetch polls on the server with authenticated context
-  const pollsResult = await getUserPolls();
+  // Fetch polls and surveys on the server with authenticated context
+  const [pollsResult, surveysResult] = await Promise.all([getUserPolls(), getUserSurveys()]);
   
   if (!pollsResult.success) {
     return (
@@ -83,8 +92,10 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
     );
   }
 
-  const { ongoingPolls, expiredPolls } = pollsResult.data!;
-  const hasPolls = ongoingPolls.length > 0 || expiredPolls.length > 0;
+  const { upcomingPolls, ongoingPolls, expiredPolls } = pollsResult.data!;
+  const hasPolls = upcomingPolls.length > 0 || ongoingPolls.length > 0 || expiredPolls.length > 0;
+  // A failure to load surveys shouldn't hide the polls
+  const surveys = surveysResult.success ? surveysResult.data! : [];
 
   const formatExpiryDate = (expiresAt: string | null) => {
     if (!expiresAt) return 'No expiry';
@@ -121,11 +132,17 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
             flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium shrink-0
             ${poll.isExpired 
               ? 'bg-red-100 text-red-700 border border-red-300'
-              : 'bg-green-100 text-green-700 border border-green-300'
+              : poll.status === 'scheduled'
+                ? 'bg-blue-100 text-blue-700 border border-blue-300'
+                : 'bg-green-100 text-green-700 border border-green-300'
             }
           `}>
-            {poll.isExpired ? (
+            {poll.closed_at ? (
+              <><Clock className="h-3 w-3" /> Closed</>
+            ) : poll.isExpired ? (
               <><Clock className="h-3 w-3" /> Expired</>
+            ) : poll.status === 'scheduled' ? (
+              <><CalendarClock className="h-3 w-3" /> Upcoming</>
             ) : (
               <><CheckCircle2 className="h-3 w-3" /> Active</>
             )}
@@ -136,7 +153,16 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
           ${poll.isExpired ? 'text-red-600' : 'text-green-600'}
         `}>
           Created {new Date(poll.created_at).toLocaleDateString()}
-          {poll.expires_at && (
+          {poll.status === 'scheduled' && poll.opens_at && (
+            <span className="block">
+              Opens: {formatExpiryDate(poll.opens_at)}
+            </span>
+          )}
+          {poll.closed_at && poll.close_reason ? (
+            <span className="block">
+              Closed: {formatExpiryDate(poll.closed_at)} · {describeCloseReason(poll.close_reason)}
+            </span>
+          ) : poll.expires_at && (
             <span className="block">
               {poll.isExpired ? 'Expired' : 'Expires'}: {formatExpiryDate(poll.expires_at)}
             </span>
@@ -201,6 +227,13 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
             pollQuestion={poll.question}
             isExpired={poll.isExpired}
           />
+          {/* Polls past their expiry can't be closed or reopened */}
+          {!isPollClosed({ expires_at: poll.expires_at }) && (
+            <ClosePollButton
+              pollId={poll.id}
+              isClosed={!!poll.closed_at}
+            />
+          )}
           <DeletePollButton 
             pollId={poll.id}
             isExpired={poll.isExpired}
@@ -210,6 +243,86 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
     </Card>
   );
 
+  const SurveyCard = ({ survey }: { survey: UserSurvey }) => (
+    <Card 
+      key={survey.id} 
+      className={`
+        overflow-hidden transition-all duration-200 hover:shadow-md
+        ${
+          survey.isExpired 
+            ? 'bg-red-50 border-red-200 text-red-900'
+            : 'bg-green-50 border-green-200 text-green-900'
+        }
+      `}
+    >
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <CardTitle className={`
+            line-clamp-2 text-base leading-tight
+            ${survey.isExpired ? 'text-red-800' : 'text-green-800'}
+          `}>
+            {survey.title}
+          </CardTitle>
+          <div className={`
+            flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium shrink-0
+            ${survey.isExpired 
+              ? 'bg-red-100 text-red-700 border border-red-300'
+              : 'bg-green-100 text-green-700 border border-green-300'
+            }
+          `}>
+            {survey.isExpired ? (
+              <><Clock className="h-3 w-3" /> Expired</>
+            ) : (
+              <><CheckCircle2 className="h-3 w-3" /> Active</>
+            )}
+          </div>
+        </div>
+        <CardDescription className={`
+          text-sm
+          ${survey.isExpired ? 'text-red-600' : 'text-green-600'}
+        `}>
+          Created {new Date(survey.created_at).toLocaleDateString()}
+          {' · '}
+          {survey.questionCount} {survey.questionCount === 1 ? 'question' : 'questions'}
+          {survey.expires_at && (
+            <span className="block">
+              {survey.isExpired ? 'Expired' : 'Expires'}: {formatExpiryDate(survey.expires_at)}
+            </span>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pb-3">
+        <div className={`
+          flex items-center gap-4 text-sm font-medium
+          ${survey.isExpired ? 'text-red-700' : 'text-green-700'}
+        `}>
+          <span>{survey.totalVotes} {survey.totalVotes === 1 ? 'vote' : 'votes'}</span>
+          <span>
+            {survey.completionRate === null
+              ? 'No respondents yet'
+              : `${Math.round(survey.completionRate * 100)}% completed (${survey.completions}/${survey.respondents})`}
+          </span>
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-between items-center pt-3 border-t border-current/10">
+        <Button 
+          variant="outline" 
+          size="sm" 
+          asChild
+          className={`
+            ${survey.isExpired 
+              ? 'border-red-300 text-red-700 hover:bg-red-100'
+              : 'border-green-300 text-green-700 hover:bg-green-100'
+            }
+          `}
+        >
+          <Link href={`/surveys/${survey.id}`}>View Results</Link>
+        </Button>
+        <DeleteSurveyButton surveyId={survey.id} />
+      </CardFooter>
+    </Card>
+  );
+
   return (
     <div className="space-y-8">
       {/* Header with user info and logout */}
@@ -222,6 +335,9 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
           </div>
         </div>
         <div className="flex items-center gap-3">
+          <Button asChild variant="outline" className="border-green-300 text-green-700 hover:bg-green-100">
+            <Link href="/surveys/create">Create Survey</Link>
+          </Button>
           <Button asChild className="bg-green-600 hover:bg-green-700 text-white">
             <Link href="/polls/create">Create New Poll</Link>
           </Button>
@@ -242,6 +358,26 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
       
       {hasPolls ? (
         <div className="space-y-8">
+          {/* Upcoming Polls Section */}
+          {upcomingPolls.length > 0 && (
+            <section>
+              <div className="flex items-center gap-3 mb-6">
+                <div className="flex items-center gap-2">
+                  <CalendarClock className="h-6 w-6 text-blue-600" />
+                  <h2 className="text-2xl font-semibold text-blue-800">Upcoming Polls</h2>
+                </div>
+                <span className="bg-blue-100 text-blue-700 px-3 py-1 rounded-full text-sm font-medium">
+                  {upcomingPolls.length} scheduled
+                </span>
+              </div>
+              <div className="grid gap-6 md:grid-cols-2">
+                {upcomingPolls.map((poll) => (
+                  <PollCard key={poll.id} poll={poll} />
+                ))}
+              </div>
+            </section>
+          )}
+
           {/* Ongoing Polls Section */}
           {ongoingPolls.length > 0 && (
             <section>
@@ -296,6 +432,26 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
           </Button>
         </div>
       )}
+
+      {/* Surveys Section */}
+      {surveys.length > 0 && (
+        <section>
+          <div className="flex items-center gap-3 mb-6">
+            <div className="flex items-center gap-2">
+              <ClipboardList className="h-6 w-6 text-green-600" />
+              <h2 className="text-2xl font-semibold text-green-800">Surveys</h2>
+            </div>
+            <span className="bg-green-100 text-green-700 px-3 py-1 rounded-full text-sm font-medium">
+              {surveys.length} total
+            </span>
+          </div>
+          <div className="grid gap-6 md:grid-cols-2">
+            {surveys.map((survey) => (
+              <SurveyCard key={survey.id} survey={survey} />
+            ))}
+          </div>
+        </section>
+      )}
     </div>
   );
 }
@@ -0,0 +1,101 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import QRCode from 'react-qr-code';
+import { Button } from '../../../../components/ui/button';
+import { createClient } from '@/lib/supabase/client';
+import { getBallotCodes } from '@/app/actions/poll-actions';
+import type { BallotCode } from '@/app/actions/poll-types';
+import { buildBallotCodeUrl } from '@/lib/ballot-codes';
+
+/**
+ * Printable sheet of ballot slips, one per unused code, each with a QR code
+ * that opens the poll ready to vote with it (creator only)
+ */
+export default function BallotCodeSheetPage() {
+  const params = useParams();
+  const pollId = params?.id as string;
+  const supabase = createClient();
+
+  const [question, setQuestion] = useState('');
+  const [codes, setCodes] = useState<BallotCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadSheet() {
+      const [result, { data: poll }] = await Promise.all([
+        getBallotCodes(pollId),
+        supabase.from('polls').select('question').eq('id', pollId).single()
+      ]);
+
+      if (result.success && result.data) {
+        // Slips already used or revoked aren't worth printing
+        setCodes(result.data.codes.filter(code => code.status === 'unused'));
+      } else {
+        setError(result.error || 'Failed to load ballot codes');
+      }
+      setQuestion(poll?.question ?? '');
+      setLoading(false);
+    }
+
+    if (pollId) {
+      loadSheet();
+    }
+  }, [pollId, supabase]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-10">
+        <h1 className="text-2xl font-bold text-destructive">{error}</h1>
+      </div>
+    );
+  }
+
+  const origin = window.location.origin;
+
+  return (
+    <div className="max-w-4xl mx-auto py-8 space-y-6 print:py-0">
+      <div className="flex items-center justify-between print:hidden">
+        <div>
+          <h1 className="text-2xl font-bold">Ballot slips</h1>
+          <p className="text-sm text-muted-foreground">
+            {codes.length} unused code{codes.length !== 1 ? 's' : ''}. Cut along the dashed lines; each slip casts one vote.
+          </p>
+        </div>
+        <Button onClick={() => window.print()} disabled={codes.length === 0}>
+          Print
+        </Button>
+      </div>
+
+      {codes.length === 0 ? (
+        <p className="text-muted-foreground">There are no unused ballot codes to print.</p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-0">
+          {codes.map(code => (
+            <div
+              key={code.id}
+              className="flex flex-col items-center gap-2 border border-dashed border-gray-400 p-4 text-center break-inside-avoid"
+            >
+              <p className="text-sm font-medium line-clamp-2">{question}</p>
+              <div className="bg-white p-2">
+                <QRCode value={buildBallotCodeUrl(origin, pollId, code.code)} size={110} />
+              </div>
+              <p className="font-mono text-lg tracking-widest">{code.code}</p>
+              <p className="text-[10px] text-gray-500 break-all">{origin}/polls/{pollId}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
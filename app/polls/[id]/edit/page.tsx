@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
+import Image from 'next/image';
 import { Button } from '../../../../components/ui/button';
 import { Input } from '../../../../components/ui/input';
 import { Textarea } from '../../../../components/ui/textarea';
@@ -17,15 +18,24 @@ import {
 } from '../../../../components/ui/form';
 import { useAuth } from '@/app/contexts/auth';
 import { createClient } from '@/lib/supabase/client';
+import { getOptionImageUrl, removeOptionImages } from '@/lib/option-images';
+import type { PollType } from '@/app/actions/poll-types';
 
 interface PollOption {
   id: string;
   text: string;
+  imagePath?: string | null;
+}
+
+interface SelectionLimits {
+  min: number;
+  max: number | null;
 }
 
 interface FormErrors {
   question?: string;
   options?: string;
+  selections?: string;
   general?: string;
 }
 
@@ -38,10 +48,16 @@ export default function EditPollPage() {
 
   const [question, setQuestion] = useState('');
   const [options, setOptions] = useState<PollOption[]>([]);
+  const [pollType, setPollType] = useState<PollType>('single');
+  const [selectionLimits, setSelectionLimits] = useState<SelectionLimits>({ min: 1, max: 1 });
   const [errors, setErrors] = useState<FormErrors>({});
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [originalData, setOriginalData] = useState<{ question: string; options: PollOption[] } | null>(null);
+  const [originalData, setOriginalData] = useState<{
+    question: string;
+    options: PollOption[];
+    selectionLimits: SelectionLimits;
+  } | null>(null);
   const [showPreview, setShowPreview] = useState(false);
 
   useEffect(() => {
@@ -49,7 +65,7 @@ export default function EditPollPage() {
       try {
         const { data, error } = await supabase
           .from('polls')
-          .select('*, poll_options(*)')
+          .select('*, poll_options(id, option_text, image_path)')
           .eq('id', pollId)
           .single();
 
@@ -63,10 +79,14 @@ export default function EditPollPage() {
         const pollOptions = data.poll_options.map((o: {
           id: string;
           option_text: string;
-        }) => ({ id: o.id, text: o.option_text }));
+          image_path: string | null;
+        }) => ({ id: o.id, text: o.option_text, imagePath: o.image_path }));
+        const limits = { min: data.min_selections ?? 1, max: data.max_selections ?? null };
         setQuestion(data.question);
         setOptions(pollOptions);
-        setOriginalData({ question: data.question, options: pollOptions });
+        setPollType(data.poll_type ?? 'single');
+        setSelectionLimits(limits);
+        setOriginalData({ question: data.question, options: pollOptions, selectionLimits: limits });
       } catch (error) {
         console.error('Error fetching poll:', error);
         setErrors({ general: 'Failed to load poll' });
@@ -139,10 +159,21 @@ export default function EditPollPage() {
     }
 
     const validOptions = options.filter(option => option.text.trim());
-    if (validOptions.length < 2) {
+    if (pollType !== 'text' && validOptions.length < 2) {
       newErrors.options = 'Please provide at least 2 valid options';
     }
 
+    if (pollType === 'multiple') {
+      const { min, max } = selectionLimits;
+      if (!Number.isInteger(min) || min < 1) {
+        newErrors.selections = 'Minimum selections must be at least 1';
+      } else if (max !== null && (!Number.isInteger(max) || max < min)) {
+        newErrors.selections = 'Maximum selections cannot be less than minimum selections';
+      } else if (Math.max(min, max ?? 1) > options.length) {
+        newErrors.selections = 'Selection limits cannot exceed the number of options';
+      }
+    }
+
     if (Object.keys(newErrors).length > 0) {
       setErrors(newErrors);
       return false;
@@ -155,7 +186,8 @@ export default function EditPollPage() {
     if (!originalData) return false;
     return (
       question !== originalData.question ||
-      JSON.stringify(options) !== JSON.stringify(originalData.options)
+      JSON.stringify(options) !== JSON.stringify(originalData.options) ||
+      JSON.stringify(selectionLimits) !== JSON.stringify(originalData.selectionLimits)
     );
   };
 
@@ -173,10 +205,14 @@ export default function EditPollPage() {
     setErrors({});
 
     try {
-      // Update poll question
+      // Update poll question (and selection limits for multi-select polls)
+      const pollUpdate = pollType === 'multiple'
+        ? { question, min_selections: selectionLimits.min, max_selections: selectionLimits.max }
+        : { question };
+
       const { error: pollError } = await supabase
         .from('polls')
-        .update({ question })
+        .update(pollUpdate)
         .eq('id', pollId);
 
       if (pollError) throw pollError;
@@ -184,6 +220,21 @@ export default function EditPollPage() {
       // Update existing options
       const existingOptions = options.filter(option => !option.id.startsWith('new_'));
       const newOptions = options.filter(option => option.id.startsWith('new_'));
+      const removedOptions = (originalData?.options ?? []).filter(
+        original => !options.some(option => option.id === original.id)
+      );
+
+      // Delete removed options, then their images, which live in storage
+      if (removedOptions.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('poll_options')
+          .delete()
+          .in('id', removedOptions.map(option => option.id));
+
+        if (deleteError) throw deleteError;
+
+        await removeOptionImages(supabase, removedOptions.map(option => option.imagePath));
+      }
 
               // Update existing options
         for (const option of existingOptions) {
@@ -311,6 +362,59 @@ export default function EditPollPage() {
               </FormDescription>
             </FormItem>
 
+            {pollType === 'multiple' && (
+              <div className="space-y-3 mt-8">
+                <h2 className="text-lg font-semibold">Selection Limits</h2>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <FormItem>
+                    <FormLabel htmlFor="minSelections">Minimum selections</FormLabel>
+                    <FormControl>
+                      <Input
+                        id="minSelections"
+                        type="number"
+                        min={1}
+                        max={options.length}
+                        value={selectionLimits.min}
+                        onChange={(e) => {
+                          setSelectionLimits({ ...selectionLimits, min: Number(e.target.value) });
+                          setErrors({ ...errors, selections: undefined });
+                        }}
+                      />
+                    </FormControl>
+                  </FormItem>
+                  <FormItem>
+                    <FormLabel htmlFor="maxSelections">Maximum selections</FormLabel>
+                    <FormControl>
+                      <Input
+                        id="maxSelections"
+                        type="number"
+                        min={1}
+                        max={options.length}
+                        placeholder="No limit"
+                        value={selectionLimits.max ?? ''}
+                        onChange={(e) => {
+                          setSelectionLimits({
+                            ...selectionLimits,
+                            max: e.target.value === '' ? null : Number(e.target.value)
+                          });
+                          setErrors({ ...errors, selections: undefined });
+                        }}
+                      />
+                    </FormControl>
+                  </FormItem>
+                </div>
+                {errors.selections && <FormMessage>{errors.selections}</FormMessage>}
+                <FormDescription>
+                  Leave the maximum empty to let voters choose any number of options.
+                </FormDescription>
+              </div>
+            )}
+
+            {pollType === 'schedule' ? (
+              <p className="text-sm text-muted-foreground mt-8">
+                Time slots can&apos;t be changed once a scheduling poll is created, since participants answer each one.
+              </p>
+            ) : pollType !== 'text' && (
             <div className="space-y-4 mt-8">
               <div className="flex items-center justify-between">
                 <h2 className="text-lg font-semibold">Poll Options</h2>
@@ -361,6 +465,15 @@ export default function EditPollPage() {
                         </svg>
                       </Button>
                     </div>
+                    {option.imagePath && (
+                      <Image
+                        src={getOptionImageUrl(supabase, option.imagePath)!}
+                        alt=""
+                        width={36}
+                        height={36}
+                        className="h-9 w-9 shrink-0 rounded object-cover"
+                      />
+                    )}
                     <div className="flex-1">
                       <Input
                         placeholder={`Option ${index + 1}`}
@@ -388,6 +501,7 @@ export default function EditPollPage() {
                 ))}
               </div>
             </div>
+            )}
 
             <div className="flex justify-between items-center pt-6 border-t mt-8">
               <div className="text-sm text-muted-foreground">
@@ -432,7 +546,15 @@ export default function EditPollPage() {
               <div className="space-y-3">
                 {options.map((option, index) => (
                   <div key={option.id} className="flex items-center gap-3">
-                    <div className="w-4 h-4 rounded-full border border-muted-foreground"></div>
+                    {pollType === 'ranked' ? (
+                      <span className="w-4 text-sm font-semibold text-muted-foreground">{index + 1}.</span>
+                    ) : pollType === 'score' ? (
+                      <span className="text-sm text-muted-foreground" aria-hidden="true">☆☆☆☆☆</span>
+                    ) : pollType === 'budget' ? (
+                      <span className="w-4 text-center text-sm font-semibold text-muted-foreground" aria-hidden="true">0</span>
+                    ) : (
+                      <div className={`w-4 h-4 border border-muted-foreground ${pollType === 'single' ? 'rounded-full' : 'rounded-sm'}`}></div>
+                    )}
                     <span className={option.text ? 'text-foreground' : 'text-muted-foreground'}>
                       {option.text || `Option ${index + 1}`}
                     </span>
@@ -3,14 +3,66 @@
 import { useParams } from 'next/navigation';
 import { useState, useEffect, useCallback } from 'react';
 import { Button } from '../../../components/ui/button';
-import { PollResultChart, SharePoll } from '../../../components/polls';
+import { Input } from '../../../components/ui/input';
+import {
+  AvailabilityBallot,
+  AvailabilityGrid,
+  BallotCodeManager,
+  BudgetBallot,
+  ChoiceBallot,
+  DelegationPanel,
+  InviteTurnout,
+  LiveIndicator,
+  PollResultChart,
+  QuizFeedbackPanel,
+  QuizLeaderboard,
+  RankedBallot,
+  ScoreBallot,
+  SharePoll,
+  TextResponseBallot,
+  TextResponseBrowser,
+  VoterWeights
+} from '../../../components/polls';
 import { createClient } from '@/lib/supabase/client';
+import { canChangeVote, getCountedOptions } from '@/lib/vote-changes';
+import { filterVoteCounts, type VoteBreakdownRow, type VoterFilter } from '@/lib/anonymous-voting';
+import { formatCountdown } from '@/lib/poll-schedule';
+import { PASSCODE_PARAM } from '@/lib/poll-passcodes';
+import { BALLOT_CODE_PARAM, BALLOT_CODE_POLL_TYPES, isValidBallotCode } from '@/lib/ballot-codes';
+import { describeAutoCloseRules, describeCloseReason, type CloseReason } from '@/lib/auto-close';
+import { withoutUnusedOptions } from '@/lib/points-budget';
+import { applyOptionCount, useLiveResults } from '@/lib/live-results';
+import {
+  canViewResults,
+  describeResultsVisibility,
+  isPollClosed,
+  type ResultsVisibility
+} from '@/lib/results-visibility';
 import { useAuth } from '@/app/contexts/auth';
+import {
+  validateAllocation,
+  validateAvailability,
+  validateOptionIds,
+  validateScores,
+  validateTextResponse
+} from '@/app/actions/poll-validation';
+import { getPoll, getQuizFeedback, getQuizReport, submitTextResponse, unlockPoll } from '@/app/actions/poll-actions';
+import { POLL_ERROR_CODES } from '@/app/actions/poll-errors';
+import type { Availability, Poll as LoadedPoll, PollType, QuizFeedback, QuizReport, VoteStatus } from '@/app/actions/poll-types';
+import type {
+  AvailabilitySummary,
+  InstantRunoffResult,
+  SchulzeResult,
+  ScoreSummary
+} from '@/lib/tabulation';
 
 interface PollOption {
   id: string;
   text: string;
   votes: number;
+  startsAt?: string | null; // Time slot on scheduling polls
+  endsAt?: string | null;
+  imageUrl?: string | null;
 }
 
 interface Poll {
@@ -18,8 +70,33 @@ interface Poll {
   question: string;
   options: PollOption[];
   totalVotes: number;
+  totalVoters: number;
   user_id: string;
   created_at: string;
+  opens_at: string | null; // Votes are accepted from this time on
+  poll_type: PollType;
+  min_selections: number;
+  max_selections: number | null;
+  survey_id: string | null; // Set when the poll is a question of a survey
+  is_quiz: boolean;
+  time_zone: string | null; // Zone the time slots of a scheduling poll were proposed in
+  points_budget: number | null; // Points each voter spreads across the options of a budget poll
+  expires_at: string | null;
+  allow_vote_changes: boolean;
+  allow_anonymous: boolean; // Visitors without an account may vote
+  is_secret: boolean; // Choices are kept apart from who voted
+  results_visibility: ResultsVisibility;
+  close_after_votes: number | null; // Auto-close rules, checked as ballots are cast
+  eligible_voters: number | null;
+  quorum_percent: number | null;
+  close_lead_margin: number | null;
+  closed_at: string | null; // Set when an auto-close rule closed the poll
+  close_reason: CloseReason | null;
+  is_invite_only: boolean; // Only invitees may vote
+  has_passcode: boolean; // Voters enter the passcode first
+  is_weighted: boolean; // Ballots count the voter's weight
+  allow_delegation: boolean; // Voters may delegate their vote
+  tags: string[];
 }
 
 const mockPoll: Poll = {
@@ -31,8 +108,33 @@ const mockPoll: Poll = {
     { id: '3', text: 'Rust', votes: 2 },
   ],
   totalVotes: 10,
+  totalVoters: 10,
   user_id: 'mock_user',
   created_at: new Date().toISOString(),
+  opens_at: null,
+  poll_type: 'single',
+  min_selections: 1,
+  max_selections: 1,
+  survey_id: null,
+  is_quiz: false,
+  time_zone: null,
+  points_budget: null,
+  expires_at: null,
+  allow_vote_changes: false,
+  allow_anonymous: false,
+  is_secret: false,
+  results_visibility: 'always',
+  close_after_votes: null,
+  eligible_voters: null,
+  quorum_percent: null,
+  close_lead_margin: null,
+  closed_at: null,
+  close_reason: null,
+  is_invite_only: false,
+  has_passcode: false,
+  is_weighted: false,
+  allow_delegation: false,
+  tags: [],
 };
 
 export default function PollPage() {
@@ -43,12 +145,39 @@ export default function PollPage() {
   
   const [poll, setPoll] = useState<Poll | null>(null);
   const [loading, setLoading] = useState(true);
-  const [selectedOption, setSelectedOption] = useState<string | null>(null);
+  const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
   const [hasVoted, setHasVoted] = useState(false);
+  // The ballot as stored, kept to adjust the counts when the vote is changed or withdrawn
+  const [castOptions, setCastOptions] = useState<string[]>([]);
+  const [isChangingVote, setIsChangingVote] = useState(false);
+  // Creators of polls open to anonymous votes can filter the results by kind of voter
+  const [voterFilter, setVoterFilter] = useState<VoterFilter>('all');
+  const [voteBreakdown, setVoteBreakdown] = useState<VoteBreakdownRow[] | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [checkingVoteStatus, setCheckingVoteStatus] = useState(false);
   const [showResults, setShowResults] = useState(false);
   const [showShare, setShowShare] = useState(false);
+  const [instantRunoff, setInstantRunoff] = useState<InstantRunoffResult | null>(null);
+  const [schulze, setSchulze] = useState<SchulzeResult | null>(null);
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [scoreSummaries, setScoreSummaries] = useState<Record<string, ScoreSummary> | null>(null);
+  const [points, setPoints] = useState<Record<string, number>>({});
+  const [availability, setAvailability] = useState<Record<string, Availability>>({});
+  const [availabilitySummaries, setAvailabilitySummaries] = useState<Record<string, AvailabilitySummary> | null>(null);
+  const [textResponse, setTextResponse] = useState('');
+  const [quizFeedback, setQuizFeedback] = useState<QuizFeedback | null>(null);
+  const [quizReport, setQuizReport] = useState<QuizReport | null>(null);
+  const [isInvited, setIsInvited] = useState<boolean | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [passcode, setPasscode] = useState('');
+  const [passcodeError, setPasscodeError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [ballotCode, setBallotCode] = useState('');
+  const [voterWeight, setVoterWeight] = useState<number | null>(null);
+  const [isEligible, setIsEligible] = useState<boolean | null>(null);
+  const [headcounts, setHeadcounts] = useState<Record<string, number> | null>(null);
+  // Voters whose delegated votes are in the counts of a closed poll
+  const [delegatorCount, setDelegatorCount] = useState(0);
   
   const checkVoteStatus = useCallback(async () => {
     if (!user || !pollId) return;
@@ -57,14 +186,43 @@ export default function PollPage() {
     try {
       const { data, error } = await supabase
         .from('votes')
-        .select('option_id')
+        .select('option_id, vote_selections(option_id, rank, score, availability, points)')
         .eq('user_id', user.id)
         .eq('poll_id', pollId)
         .single();
       
       if (!error && data) {
         setHasVoted(true);
-        setSelectedOption(data.option_id);
+        // Multi-select, ranked, score, scheduling and budget ballots keep their choices in vote_selections
+        const selections: {
+          option_id: string;
+          rank: number | null;
+          score: number | null;
+          availability: Availability | null;
+          points: number | null;
+        }[] = data.vote_selections ?? [];
+        const optionIds = selections.length > 0
+          ? [...selections]
+              .sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0))
+              .map(selection => selection.option_id)
+          : data.option_id ? [data.option_id] : [];
+        setSelectedOptions(optionIds);
+        setCastOptions(optionIds);
+        setScores(Object.fromEntries(
+          selections
+            .filter(selection => selection.score !== null)
+            .map(selection => [selection.option_id, selection.score!])
+        ));
+        setAvailability(Object.fromEntries(
+          selections
+            .filter(selection => selection.availability !== null)
+            .map(selection => [selection.option_id, selection.availability!])
+        ));
+        setPoints(Object.fromEntries(
+          selections
+            .filter(selection => selection.points !== null)
+            .map(selection => [selection.option_id, selection.points!])
+        ));
       }
     } catch {
       // User hasn't voted yet, which is fine
@@ -73,103 +231,594 @@ export default function PollPage() {
     }
   }, [user, pollId, supabase]);
 
-  useEffect(() => {
-    async function fetchPoll() {
-      try {
-        const { data, error } = await supabase
-          .from('polls')
-          .select('id, question, created_at, user_id, poll_options(*)')
-          .eq('id', pollId)
-          .single();
-        
-        if (error) throw error;
-        
-        const formattedPoll: Poll = {
-          id: data.id,
-          question: data.question,
-          options: data.poll_options.map((option: {
-            id: string;
-            option_text: string;
-            votes: number | null;
-          }) => ({
-            id: option.id,
-            text: option.option_text,
-            votes: option.votes || 0
-          })),
-          totalVotes: data.poll_options.reduce((acc: number, option: {
-            votes: number | null;
-          }) => acc + (option.votes || 0), 0),
-          user_id: data.user_id,
-          created_at: data.created_at
-        };
-        
-        setPoll(formattedPoll);
-        
-        // Check if user has already voted
-        if (user) {
-          await checkVoteStatus();
+  // Visitors without an account are recognized by their voter token cookie, which only the server can read
+  const checkAnonymousVoteStatus = useCallback(async () => {
+    setCheckingVoteStatus(true);
+    try {
+      const response = await fetch(`/api/polls/${pollId}/vote`);
+      const status: VoteStatus = await response.json();
+      
+      if (status.hasVoted) {
+        setHasVoted(true);
+        setSelectedOptions(status.optionIds ?? []);
+        setCastOptions(status.optionIds ?? []);
+      }
+    } catch {
+      // Treat the visitor as not having voted; the database still rejects a second ballot
+    } finally {
+      setCheckingVoteStatus(false);
+    }
+  }, [pollId]);
+
+  // Tallies derived from whole ballots come with the poll, when the viewer may see them
+  const applyResults = useCallback((data: LoadedPoll) => {
+    setInstantRunoff(data.instantRunoff ?? null);
+    setSchulze(data.schulze ?? null);
+    setScoreSummaries(data.scores ?? null);
+    setAvailabilitySummaries(data.availability ?? null);
+    setHeadcounts(data.headcounts ?? null);
+    setDelegatorCount(data.delegatorCount ?? 0);
+  }, []);
+
+  // Polls are loaded through the server, which leaves the counts out while the
+  // results are hidden from the viewer and asks for the passcode first
+  const loadPoll = useCallback(async () => {
+    try {
+      let result = await getPoll(pollId);
+      
+      // A passcode from a shared link or QR code is tried straight away
+      if (result.code === POLL_ERROR_CODES.PASSCODE_REQUIRED) {
+        const code = new URLSearchParams(window.location.search).get(PASSCODE_PARAM);
+        const unlock = code ? await unlockPoll(pollId, code) : null;
+        if (unlock?.success) {
+          result = await getPoll(pollId);
+        } else if (unlock) {
+          setPasscodeError(unlock.error || 'Failed to check passcode');
         }
-      } catch (error) {
-        console.error('Error fetching poll:', error);
-        setError('Failed to load poll. Displaying mock data instead.');
-        setPoll(mockPoll);
-      } finally {
-        setLoading(false);
       }
+      
+      const isPasscodeError = result.code === POLL_ERROR_CODES.PASSCODE_REQUIRED
+        || result.code === POLL_ERROR_CODES.PASSCODE_INVALID
+        || result.code === POLL_ERROR_CODES.PASSCODE_THROTTLED;
+      setIsLocked(isPasscodeError);
+      if (isPasscodeError) return;
+      
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to load poll');
+      }
+      
+      const data = result.data;
+      const formattedPoll: Poll = {
+        ...data,
+        options: data.options.map(option => ({
+          id: option.id!,
+          text: option.text,
+          votes: option.votes ?? 0,
+          startsAt: option.startsAt,
+          endsAt: option.endsAt,
+          imageUrl: option.imageUrl
+        }))
+      };
+      
+      setPoll(formattedPoll);
+      applyResults(data);
+      
+      if (formattedPoll.poll_type === 'ranked') {
+        // Start the ballot in display order so every option is ranked
+        setSelectedOptions(formattedPoll.options.map(option => option.id));
+      }
+      
+      if (formattedPoll.poll_type === 'score') {
+        // Every option must be rated, so the ballot starts at zero stars each
+        setScores(Object.fromEntries(formattedPoll.options.map(option => [option.id, 0])));
+      }
+      
+      // Check if user has already voted
+      if (user) {
+        await checkVoteStatus();
+      } else if (formattedPoll.allow_anonymous) {
+        await checkAnonymousVoteStatus();
+      }
+    } catch (error) {
+      console.error('Error fetching poll:', error);
+      setError('Failed to load poll. Displaying mock data instead.');
+      setPoll(mockPoll);
+    } finally {
+      setLoading(false);
     }
-    
+  }, [pollId, user, checkVoteStatus, checkAnonymousVoteStatus, applyResults]);
+
+  useEffect(() => {
     if (pollId) {
-      fetchPoll();
+      loadPoll();
     }
-  }, [pollId, supabase, user, checkVoteStatus]);
+  }, [pollId, loadPoll]);
   
+  const isQuiz = !!poll?.is_quiz;
+  const isCreator = !!user && user.id === poll?.user_id;
+  const isInviteOnly = !!poll?.is_invite_only;
+  const isWeighted = !!poll?.is_weighted;
+  const allowsAnonymous = !!poll?.allow_anonymous;
+  // Standalone choice polls can also take ballots cast with a code from a paper slip
+  const takesBallotCodes = !!poll && BALLOT_CODE_POLL_TYPES.includes(poll.poll_type)
+    && !poll.survey_id && !poll.is_quiz && !poll.is_invite_only && !poll.has_passcode && !poll.is_weighted;
+  const hasBallotCode = takesBallotCodes && isValidBallotCode(ballotCode);
+  const canVote = !!user || allowsAnonymous || hasBallotCode;
+  // Until a scheduled poll opens, the page counts down instead of showing the ballot
+  const [now, setNow] = useState(() => Date.now());
+  const opensAt = poll?.opens_at ? new Date(poll.opens_at).getTime() : null;
+  const isScheduled = opensAt !== null && opensAt > now;
+
+  useEffect(() => {
+    if (!isScheduled) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isScheduled]);
+
+  const resultsVisible = !!poll && canViewResults(poll.results_visibility, {
+    isCreator,
+    hasVoted,
+    isClosed: isPollClosed(poll),
+    isSecret: poll.is_secret
+  });
+  // Secret ballots can't be split by kind of voter
+  const canFilterVoters = isCreator && allowsAnonymous && !poll?.is_secret;
+  // Bumped when live counts are reloaded, so derived views reload with them
+  const [resultsVersion, setResultsVersion] = useState(0);
+
+  // Reload the counts and whatever is derived from whole ballots
+  const refreshCounts = useCallback(async () => {
+    const result = await getPoll(pollId);
+
+    if (!result.success || !result.data) {
+      console.error('Error refreshing results:', result.error);
+      return;
+    }
+
+    const data = result.data;
+    const counts = new Map(data.options.map(option => [option.id, option.votes ?? 0]));
+
+    setPoll(current => current && {
+      ...current,
+      options: current.options.map(option => ({ ...option, votes: counts.get(option.id) ?? option.votes })),
+      totalVotes: data.totalVotes,
+      totalVoters: data.totalVoters,
+      closed_at: data.closed_at,
+      close_reason: data.close_reason,
+      expires_at: data.expires_at
+    });
+    applyResults(data);
+    setResultsVersion(version => version + 1);
+  }, [pollId, applyResults]);
+
+  // While the poll is open, results the viewer may see follow new votes as they
+  // come in, except on secret-ballot polls, where their timing could give a ballot away
+  const liveStatus = useLiveResults(
+    supabase,
+    pollId,
+    poll?.id === pollId && resultsVisible && !isPollClosed(poll) && !isScheduled && !poll.is_secret,
+    {
+      onOptionChange: row => setPoll(current => {
+        if (!current) return current;
+        const options = applyOptionCount(current.options, row);
+        if (options === current.options) return current;
+        const totalVotes = options.reduce((sum, option) => sum + option.votes, 0);
+        return {
+          ...current,
+          options,
+          totalVotes,
+          totalVoters: current.poll_type === 'single' && !current.is_weighted ? totalVotes : current.totalVoters
+        };
+      }),
+      onPollChange: row => {
+        // Closing stops the subscription, so the final counts are loaded straight away
+        if (row.closed_at) {
+          refreshCounts();
+          return;
+        }
+        setPoll(current => current && {
+          ...current,
+          totalVoters: current.poll_type === 'single' && !current.is_weighted
+            ? current.totalVoters
+            : Number(row.voter_count ?? current.totalVoters),
+          expires_at: (row.expires_at as string | null) ?? null
+        });
+      },
+      onSettled: refreshCounts,
+      onResync: refreshCounts
+    }
+  );
+
+  useEffect(() => {
+    async function loadVoteBreakdown() {
+      const { data, error } = await supabase.rpc('get_vote_breakdown', { poll_uuid: pollId });
+      if (error) {
+        console.error('Error loading vote breakdown:', error);
+        return;
+      }
+      setVoteBreakdown((data ?? []) as VoteBreakdownRow[]);
+    }
+
+    if (canFilterVoters && voterFilter !== 'all') {
+      loadVoteBreakdown();
+    }
+  }, [pollId, supabase, canFilterVoters, voterFilter, hasVoted, resultsVersion]);
+
+  // Invitees see their own invites, by user ID or by the email they signed in with
+  useEffect(() => {
+    async function checkInvite() {
+      const email = user?.email?.toLowerCase();
+      const { data, error } = await supabase
+        .from('poll_invites')
+        .select('status')
+        .eq('poll_id', pollId)
+        .or(email ? `user_id.eq.${user!.id},email.eq."${email}"` : `user_id.eq.${user!.id}`);
+      if (error) {
+        console.error('Error checking invite:', error);
+        return;
+      }
+      setIsInvited((data ?? []).some(invite => invite.status !== 'revoked'));
+    }
+
+    if (isInviteOnly && user) {
+      checkInvite();
+    }
+  }, [pollId, supabase, isInviteOnly, user]);
+
+  // Eligible voters see their own weight, set by user ID or for the email they signed in with
+  useEffect(() => {
+    async function checkWeight() {
+      const email = user?.email?.toLowerCase();
+      const { data, error } = await supabase
+        .from('poll_voter_weights')
+        .select('user_id, weight')
+        .eq('poll_id', pollId)
+        .or(email ? `user_id.eq.${user!.id},email.eq."${email}"` : `user_id.eq.${user!.id}`);
+      if (error) {
+        console.error('Error checking voter weight:', error);
+        return;
+      }
+      // A weight set by user ID wins over one set for the email address, as in get_voter_weight
+      const entry = (data ?? []).find(row => row.user_id) ?? data?.[0];
+      setVoterWeight(entry?.weight ?? null);
+      setIsEligible(!!entry);
+    }
+
+    if (isWeighted && user) {
+      checkWeight();
+    }
+  }, [pollId, supabase, isWeighted, user]);
+
+  // The QR code on a ballot slip opens the poll with its code filled in
+  useEffect(() => {
+    setBallotCode(new URLSearchParams(window.location.search).get(BALLOT_CODE_PARAM) ?? '');
+  }, []);
+
+  // The answer key is only handed out once the participant has answered
+  useEffect(() => {
+    async function loadQuizFeedback() {
+      const result = await getQuizFeedback(pollId);
+      if (result.success && result.data) {
+        setQuizFeedback(result.data);
+      }
+    }
+
+    if (isQuiz && hasVoted) {
+      loadQuizFeedback();
+    }
+  }, [pollId, isQuiz, hasVoted]);
+
+  useEffect(() => {
+    async function loadQuizReport() {
+      const result = await getQuizReport(pollId);
+      if (result.success && result.data) {
+        setQuizReport(result.data);
+      }
+    }
+
+    if (isQuiz && isCreator) {
+      loadQuizReport();
+    }
+  }, [pollId, isQuiz, isCreator, hasVoted]);
+
+  const isMultiSelect = poll?.poll_type === 'multiple' || poll?.poll_type === 'approval';
+  const isRanked = poll?.poll_type === 'ranked';
+  const isScore = poll?.poll_type === 'score';
+  const isText = poll?.poll_type === 'text';
+  const isSchedule = poll?.poll_type === 'schedule';
+  const isBudget = poll?.poll_type === 'budget';
+  const voteCanBeChanged = !!poll && canChangeVote(poll);
+
+  const toggleOption = (optionId: string) => {
+    if (!isMultiSelect) {
+      setSelectedOptions([optionId]);
+      return;
+    }
+
+    setSelectedOptions(current => {
+      if (current.includes(optionId)) {
+        return current.filter(id => id !== optionId);
+      }
+      // Ignore clicks past the maximum instead of silently dropping an earlier choice
+      if (poll?.max_selections !== null && poll?.max_selections !== undefined && current.length >= poll.max_selections) {
+        return current;
+      }
+      return [...current, optionId];
+    });
+  };
+
+  const selectionErrors = !poll
+    ? []
+    : isText
+      ? validateTextResponse(textResponse)
+      : isScore
+        ? validateScores(scores, poll.options.map(option => option.id))
+        : isSchedule
+          ? validateAvailability(availability, poll.options.map(option => option.id))
+          : isBudget
+            ? validateAllocation(withoutUnusedOptions(points), poll.options.map(option => option.id), poll.points_budget ?? 0)
+            : validateOptionIds(selectedOptions, {
+                pollType: poll.poll_type,
+                minSelections: poll.min_selections,
+                maxSelections: poll.max_selections
+              });
+
   const handleVote = async () => {
-    if (!selectedOption) return;
+    if (!poll || selectionErrors.length > 0) return;
+    
+    // The slip is the voter's credential, whether or not they are logged in
+    if (hasBallotCode) {
+      await handleBallotCodeVote();
+      return;
+    }
     
     if (!user) {
-      setError('You must be logged in to vote.');
+      if (allowsAnonymous) {
+        await handleAnonymousVote();
+      } else {
+        setError('You must be logged in to vote.');
+      }
+      return;
+    }
+
+    if (isText) {
+      // Written responses go through the server so they are sanitized before storage
+      const result = await submitTextResponse(pollId, textResponse);
+      
+      if (!result.success) {
+        setError(result.error || 'Failed to submit response. Please try again.');
+        return;
+      }
+      
+      setPoll({ ...poll, totalVoters: poll.totalVoters + 1 });
+      setHasVoted(true);
+      return;
+    }
+
+    if (isChangingVote) {
+      await handleChangeVote();
       return;
     }
 
     try {
-      // Use the increment_vote function to prevent double voting and update vote count atomically
-      const { error } = await supabase.rpc('increment_vote', {
-        option_id: selectedOption,
-        poll_id: pollId,
-        user_id: user.id
-      });
+      // Use the database functions to prevent double voting and update vote counts atomically
+      const { error } = isScore
+        ? await supabase.rpc('increment_scores', {
+            option_ids: Object.keys(scores),
+            scores: Object.values(scores),
+            poll_id: pollId,
+            user_id: user.id
+          })
+        : isSchedule
+        ? await supabase.rpc('submit_availability', {
+            option_ids: Object.keys(availability),
+            availability: Object.values(availability),
+            poll_id: pollId,
+            user_id: user.id
+          })
+        : isBudget
+        ? await supabase.rpc('allocate_points', {
+            option_ids: Object.keys(withoutUnusedOptions(points)),
+            points: Object.values(withoutUnusedOptions(points)),
+            poll_id: pollId,
+            user_id: user.id
+          })
+        : isMultiSelect || isRanked || poll.is_secret
+          ? await supabase.rpc('increment_votes', {
+              option_ids: selectedOptions,
+              poll_id: pollId,
+              user_id: user.id
+            })
+          : await supabase.rpc('increment_vote', {
+              option_id: selectedOptions[0],
+              poll_id: pollId,
+              user_id: user.id
+            });
 
       if (error) {
         if (error.message.includes('already voted')) {
           setError('You have already voted on this poll.');
+        } else if (error.message.includes('not invited')) {
+          setError('You are not invited to vote on this poll.');
+        } else if (error.message.includes('not an eligible voter')) {
+          setError('You are not an eligible voter on this poll.');
+        } else if (error.message.includes('needs its passcode')) {
+          setError('Enter the passcode to vote on this poll.');
         } else {
           throw error;
         }
         return;
       }
       
-      // Update the UI
-      if (poll) {
-        const updatedOptions = poll.options.map(option => {
-          if (option.id === selectedOption) {
-            return { ...option, votes: option.votes + 1 };
-          }
-          return option;
-        });
-        
-        setPoll({
-          ...poll,
-          options: updatedOptions,
-          totalVotes: poll.totalVotes + 1,
-        });
-        
-        setHasVoted(true);
+      // Update the UI; ranked ballots only add to their first choice's count,
+      // score ballots add their stars, budget ballots their points, scheduling
+      // ballots their yes answers and weighted ballots the voter's weight
+      const countedOptions = isRanked ? selectedOptions.slice(0, 1) : selectedOptions;
+      const ballotWeight = isWeighted ? voterWeight ?? 1 : 1;
+      const addedVotes = (optionId: string) =>
+        isScore
+          ? scores[optionId] ?? 0
+          : isBudget
+            ? points[optionId] ?? 0
+            : isSchedule
+              ? availability[optionId] === 'yes' ? 1 : 0
+              : countedOptions.includes(optionId) ? ballotWeight : 0;
+      const updatedOptions = poll.options.map(option => ({
+        ...option,
+        votes: option.votes + addedVotes(option.id)
+      }));
+      
+      setPoll({
+        ...poll,
+        options: updatedOptions,
+        totalVotes: poll.totalVotes + poll.options.reduce((sum, option) => sum + addedVotes(option.id), 0),
+        totalVoters: poll.totalVoters + 1,
+      });
+      
+      // Results shown after voting come from the server now
+      await refreshCounts();
+      
+      setCastOptions(selectedOptions);
+      setHasVoted(true);
+    } catch (error) {
+      console.error('Error submitting vote:', error);
+      setError('Failed to submit vote. Please try again.');
+    }
+  };
+
+  // Move the counts from the stored ballot to the given one; without a stored
+  // ballot this is a new vote, and an empty new ballot withdraws the vote
+  const applyBallotChange = async (newOptions: string[]) => {
+    if (!poll) return;
+
+    const removed = getCountedOptions(poll.poll_type, castOptions);
+    const added = getCountedOptions(poll.poll_type, newOptions);
+    const updatedOptions = poll.options.map(option => ({
+      ...option,
+      votes: option.votes - (removed.includes(option.id) ? 1 : 0) + (added.includes(option.id) ? 1 : 0)
+    }));
+
+    setPoll({
+      ...poll,
+      options: updatedOptions,
+      totalVotes: poll.totalVotes - removed.length + added.length,
+      totalVoters: poll.totalVoters + (castOptions.length === 0 ? 1 : 0) - (newOptions.length === 0 ? 1 : 0),
+    });
+    setCastOptions(newOptions);
+
+    await refreshCounts();
+  };
+
+  // Anonymous ballots go through the server, which issues the voter token cookie
+  const handleAnonymousVote = async () => {
+    if (!poll) return;
+
+    try {
+      const response = await fetch(`/api/polls/${pollId}/vote`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ optionIds: selectedOptions })
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        setError(response.status === 409
+          ? 'You have already voted on this poll.'
+          : error || 'Failed to submit vote. Please try again.');
+        return;
+      }
+
+      await applyBallotChange(selectedOptions);
+      setHasVoted(true);
+    } catch (error) {
+      console.error('Error submitting vote:', error);
+      setError('Failed to submit vote. Please try again.');
+    }
+  };
+
+  // Ballots cast with a code go through the server, which spends the code
+  const handleBallotCodeVote = async () => {
+    if (!poll) return;
+
+    try {
+      const response = await fetch(`/api/polls/${pollId}/vote`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ optionIds: selectedOptions, ballotCode })
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        setError(error || 'Failed to submit vote. Please try again.');
+        return;
       }
+
+      await applyBallotChange(selectedOptions);
+      setHasVoted(true);
     } catch (error) {
       console.error('Error submitting vote:', error);
       setError('Failed to submit vote. Please try again.');
     }
   };
+
+  const handleChangeVote = async () => {
+    if (!poll || !user) return;
+
+    try {
+      const { error } = await supabase.rpc('change_vote', {
+        option_ids: selectedOptions,
+        poll_id: pollId,
+        user_id: user.id
+      });
+
+      if (error) throw error;
+
+      await applyBallotChange(selectedOptions);
+      setIsChangingVote(false);
+    } catch (error) {
+      console.error('Error changing vote:', error);
+      setError('Failed to change vote. Please try again.');
+    }
+  };
+
+  const handleRetractVote = async () => {
+    if (!poll || !user) return;
+
+    try {
+      const { error } = await supabase.rpc('retract_vote', {
+        poll_id: pollId,
+        user_id: user.id
+      });
+
+      if (error) throw error;
+
+      await applyBallotChange([]);
+      // Start over with an empty ballot, or the display order on ranked polls
+      setSelectedOptions(isRanked ? poll.options.map(option => option.id) : []);
+      setHasVoted(false);
+    } catch (error) {
+      console.error('Error withdrawing vote:', error);
+      setError('Failed to withdraw vote. Please try again.');
+    }
+  };
+
+  const cancelVoteChange = () => {
+    setSelectedOptions(castOptions);
+    setIsChangingVote(false);
+  };
+  
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passcode.trim()) return;
+
+    setIsUnlocking(true);
+    const result = await unlockPoll(pollId, passcode);
+    setPasscodeError(result.success ? null : result.error || 'Failed to check passcode');
+    if (result.success) {
+      await loadPoll();
+    }
+    setIsUnlocking(false);
+  };
   
   if (loading || checkingVoteStatus) {
     return (
@@ -179,6 +828,30 @@ export default function PollPage() {
     );
   }
   
+  if (isLocked) {
+    return (
+      <div className="max-w-sm mx-auto py-10 space-y-4">
+        <h1 className="text-2xl font-bold text-foreground">This poll needs a passcode</h1>
+        <p className="text-sm text-muted-foreground">
+          Enter the passcode the poll creator shared with you to open it.
+        </p>
+        <form onSubmit={handleUnlock} className="space-y-3">
+          <Input
+            value={passcode}
+            onChange={(e) => setPasscode(e.target.value)}
+            placeholder="Passcode"
+            aria-label="Passcode"
+            autoComplete="off"
+          />
+          {passcodeError && <p className="text-sm text-destructive">{passcodeError}</p>}
+          <Button type="submit" disabled={isUnlocking || !passcode.trim()}>
+            {isUnlocking ? 'Checking...' : 'Open poll'}
+          </Button>
+        </form>
+      </div>
+    );
+  }
+  
   if (!poll) {
     return (
       <div className="text-center py-10">
@@ -198,26 +871,219 @@ export default function PollPage() {
       </div>
     );
   }
-  
+
   // Note: getPercentage function removed as it's not used
   
+  // Counts of the ballots the creator filtered to; ranked tallies need every ballot, so only first preferences are shown
+  const filteredCounts = canFilterVoters && voterFilter !== 'all' && voteBreakdown
+    ? filterVoteCounts(poll.options.map(option => option.id), voteBreakdown, voterFilter)
+    : null;
+  const chartOptions = filteredCounts
+    ? poll.options.map(option => ({ ...option, votes: filteredCounts.votes[option.id] ?? 0 }))
+    : poll.options;
+  
+  // Text polls have no options to chart; only their creator can read the responses
+  const resultsBody = !resultsVisible ? (
+    <p className="text-muted-foreground">{describeResultsVisibility(poll.results_visibility, poll.is_secret)}</p>
+  ) : isText ? (
+    isCreator ? (
+      <TextResponseBrowser pollId={poll.id} />
+    ) : (
+      <p className="text-muted-foreground">
+        {poll.totalVoters} response{poll.totalVoters !== 1 ? 's' : ''} received so far.
+        Only the poll creator can read them.
+      </p>
+    )
+  ) : isSchedule ? (
+    <AvailabilityGrid
+      options={poll.options}
+      availability={availabilitySummaries ?? {}}
+      totalVoters={poll.totalVoters}
+      timeZone={poll.time_zone}
+    />
+  ) : (
+    <div className="space-y-4">
+      {canFilterVoters && (
+        <label className="flex items-center gap-2 text-sm">
+          Show votes from
+          <select
+            className="rounded-md border px-2 py-1"
+            value={voterFilter}
+            onChange={(e) => setVoterFilter(e.target.value as VoterFilter)}
+          >
+            <option value="all">All voters</option>
+            <option value="authenticated">Signed-in voters</option>
+            <option value="anonymous">Anonymous voters</option>
+          </select>
+        </label>
+      )}
+      <PollResultChart 
+        pollResults={{
+          question: poll.question,
+          options: chartOptions.map(option => ({
+            ...option,
+            option_text: option.text,
+            image_url: option.imageUrl
+          })),
+          totalVotes: filteredCounts
+            ? chartOptions.reduce((sum, option) => sum + option.votes, 0)
+            : poll.totalVotes,
+          totalVoters: isMultiSelect || isScore || isBudget ? filteredCounts?.voters ?? poll.totalVoters : undefined,
+        }}
+        instantRunoff={filteredCounts ? undefined : instantRunoff ?? undefined}
+        schulze={filteredCounts ? undefined : schulze ?? undefined}
+        scores={scoreSummaries ?? undefined}
+        headcounts={filteredCounts || isBudget ? undefined : headcounts ?? undefined}
+        backers={isBudget ? headcounts ?? {} : undefined}
+      />
+    </div>
+  );
+  const results = liveStatus === 'off' ? resultsBody : (
+    <div className="space-y-2">
+      <LiveIndicator status={liveStatus} />
+      {resultsBody}
+    </div>
+  );
+  const autoCloseRules = poll.closed_at ? [] : describeAutoCloseRules(poll);
+  const hasResults = resultsVisible && (isText || isSchedule ? poll.totalVoters > 0 : poll.totalVotes > 0);
+  const leaderboard = isCreator && quizReport ? (
+    <QuizLeaderboard report={quizReport} questionLabels={{ [poll.id]: poll.question }} />
+  ) : null;
+  
   return (
     <div className="max-w-3xl mx-auto py-8 space-y-8">
       <div className="space-y-2">
         <h1 className="text-3xl font-bold">{poll.question}</h1>
         <p className="text-muted-foreground">
+          {isQuiz && 'Quiz · '}
+          {poll.is_secret && 'Secret ballot · '}
+          {isInviteOnly && 'Invite only · '}
+          {poll.has_passcode && 'Passcode protected · '}
+          {isWeighted && 'Weighted · '}
           Created {new Date(poll.created_at).toLocaleDateString()}
-          {' · '}
-          {poll.totalVotes} votes
+          {resultsVisible && (
+            <>
+              {' · '}
+              {isText
+                ? `${poll.totalVoters} response${poll.totalVoters !== 1 ? 's' : ''}`
+                : isScore || isSchedule || isWeighted || isBudget ? `${poll.totalVoters} voters` : `${poll.totalVotes} votes`}
+            </>
+          )}
         </p>
+        {poll.tags.length > 0 && (
+          <p className="text-sm text-muted-foreground">{poll.tags.map(tag => `#${tag}`).join(' ')}</p>
+        )}
+        {autoCloseRules.length > 0 && (
+          <p className="text-sm text-muted-foreground">{autoCloseRules.join(' ')}</p>
+        )}
+        {resultsVisible && delegatorCount > 0 && (
+          <p className="text-sm text-muted-foreground">
+            The results include the delegated votes of {delegatorCount} voter{delegatorCount !== 1 ? 's' : ''}.
+          </p>
+        )}
       </div>
       
-      {!hasVoted ? (
+      {poll.closed_at && poll.close_reason && (
+        <div className="bg-amber-50 text-amber-800 p-4 rounded-md border border-amber-200">
+          <p className="text-sm">
+            Voting closed {new Date(poll.closed_at).toLocaleString()}: {describeCloseReason(poll.close_reason, poll)}.
+          </p>
+        </div>
+      )}
+      
+      {poll.survey_id && !hasVoted ? (
+        // Survey questions are answered together through the survey
+        <div className="bg-blue-50 text-blue-700 p-4 rounded-md border border-blue-200 space-y-3">
+          <p className="text-sm">
+            This question is part of a survey. Answer it together with the other questions.
+          </p>
+          <Button asChild>
+            <a href={`/surveys/${poll.survey_id}`}>Go to Survey</a>
+          </Button>
+        </div>
+      ) : isScheduled && !hasVoted ? (
+        <div className="bg-blue-50 text-blue-700 p-6 rounded-md border border-blue-200 text-center space-y-2">
+          <p className="text-sm">
+            Voting opens {new Date(opensAt!).toLocaleString()}
+          </p>
+          <p className="text-3xl font-semibold tabular-nums">{formatCountdown(opensAt! - now)}</p>
+        </div>
+      ) : poll.closed_at && !hasVoted ? (
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">Final Results</h2>
+          {results}
+          {leaderboard}
+        </div>
+      ) : isInviteOnly && !hasVoted && (!user || isInvited === false) ? (
+        <div className="space-y-4">
+          <div className="bg-blue-50 text-blue-700 p-4 rounded-md border border-blue-200">
+            <p className="text-sm">
+              {user ? (
+                "This poll is invite-only and you haven't been invited to vote on it."
+              ) : (
+                <>
+                  This poll is invite-only. <a href="/auth/login" className="underline font-medium">Log in</a> with the account you were invited with to vote.
+                </>
+              )}
+            </p>
+          </div>
+          {hasResults && results}
+        </div>
+      ) : isWeighted && !hasVoted && (!user || isEligible === false) ? (
+        <div className="space-y-4">
+          <div className="bg-blue-50 text-blue-700 p-4 rounded-md border border-blue-200">
+            <p className="text-sm">
+              {user ? (
+                "This is a weighted poll and the creator hasn't given you a weight, so you can't vote on it."
+              ) : (
+                <>
+                  This is a weighted poll. <a href="/auth/login" className="underline font-medium">Log in</a> with the account the creator gave a weight to vote.
+                </>
+              )}
+            </p>
+          </div>
+          {hasResults && results}
+        </div>
+      ) : !hasVoted || isChangingVote ? (
         <div className="space-y-4">
+          {isWeighted && voterWeight !== null && (
+            <p className="text-sm text-muted-foreground">
+              Your ballot counts as {voterWeight} vote{voterWeight !== 1 ? 's' : ''}.
+            </p>
+          )}
           {!user && (
             <div className="bg-blue-50 text-blue-700 p-4 rounded-md border border-blue-200">
               <p className="text-sm">
-                Please <a href="/auth/login" className="underline font-medium">log in</a> to vote on this poll.
+                {allowsAnonymous ? (
+                  <>
+                    You can vote without an account, or <a href="/auth/login" className="underline font-medium">log in</a> first.
+                  </>
+                ) : (
+                  <>
+                    Please <a href="/auth/login" className="underline font-medium">log in</a> to vote on this poll.
+                  </>
+                )}
+              </p>
+              {takesBallotCodes && !allowsAnonymous && (
+                <div className="mt-3 space-y-1">
+                  <label htmlFor="ballot-code" className="text-sm font-medium">Or vote with the code from your ballot slip</label>
+                  <Input
+                    id="ballot-code"
+                    value={ballotCode}
+                    onChange={(e) => setBallotCode(e.target.value)}
+                    placeholder="ABCD-EFGH"
+                    autoComplete="off"
+                    className="bg-white font-mono uppercase"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          
+          {user && hasBallotCode && (
+            <div className="bg-blue-50 text-blue-700 p-4 rounded-md border border-blue-200">
+              <p className="text-sm">
+                You are voting with ballot code <span className="font-mono font-medium">{ballotCode.toUpperCase()}</span>.
               </p>
             </div>
           )}
@@ -235,41 +1101,106 @@ export default function PollPage() {
                 </Button>
               </div>
               
-              <PollResultChart 
-                pollResults={{
-                  question: poll.question,
-                  options: poll.options.map(option => ({
-                    ...option,
-                    option_text: option.text
-                  })),
-                  totalVotes: poll.totalVotes,
-                }}
-              />
+              {results}
+              {leaderboard}
             </>
           ) : (
             <>
-              <div className="space-y-2">
-                {poll.options.map((option) => (
-                  <div 
-                    key={option.id}
-                    className={`p-4 border rounded-lg cursor-pointer transition-colors ${selectedOption === option.id ? 'border-primary bg-primary/5' : 'hover:bg-accent'} ${!user ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    onClick={() => user && setSelectedOption(option.id)}
-                  >
-                    <div className="flex items-center gap-2">
-                      <div className={`w-4 h-4 rounded-full border ${selectedOption === option.id ? 'border-4 border-primary' : 'border-muted-foreground'}`}></div>
-                      <span>{option.text}</span>
-                    </div>
-                  </div>
-                ))}
-              </div>
+              {isQuiz && (
+                <p className="text-sm text-muted-foreground">
+                  This is a quiz. The correct answer is revealed once you submit.
+                </p>
+              )}
+
+              {!resultsVisible && (
+                <p className="text-sm text-muted-foreground">
+                  {describeResultsVisibility(poll.results_visibility, poll.is_secret)}
+                </p>
+              )}
+
+              {isMultiSelect && (
+                <p className="text-sm text-muted-foreground">
+                  {poll.max_selections === null
+                    ? `Select at least ${poll.min_selections} option${poll.min_selections !== 1 ? 's' : ''}.`
+                    : poll.min_selections === poll.max_selections
+                      ? `Select ${poll.min_selections} option${poll.min_selections !== 1 ? 's' : ''}.`
+                      : `Select between ${poll.min_selections} and ${poll.max_selections} options.`}
+                  {' '}({selectedOptions.length} selected)
+                </p>
+              )}
+
+              {isText ? (
+                <TextResponseBallot
+                  response={textResponse}
+                  onChange={setTextResponse}
+                  disabled={!canVote}
+                />
+              ) : isSchedule ? (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Answer yes, if need be or no for every time slot. Times are shown in your time zone.
+                  </p>
+                  <AvailabilityBallot
+                    options={poll.options}
+                    availability={availability}
+                    onChange={setAvailability}
+                    disabled={!canVote}
+                  />
+                </>
+              ) : isBudget ? (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Spread up to {poll.points_budget} points across the options, as many on one option as you like.
+                  </p>
+                  <BudgetBallot
+                    options={poll.options}
+                    budget={poll.points_budget ?? 0}
+                    points={points}
+                    onChange={setPoints}
+                    disabled={!canVote}
+                  />
+                </>
+              ) : isScore ? (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Rate every option from 0 to 5 stars.
+                  </p>
+                  <ScoreBallot
+                    options={poll.options}
+                    scores={scores}
+                    onChange={setScores}
+                    disabled={!canVote}
+                  />
+                </>
+              ) : isRanked ? (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Drag the options into your order of preference, with your first choice at the top.
+                  </p>
+                  <RankedBallot
+                    options={poll.options}
+                    ranking={selectedOptions}
+                    onChange={setSelectedOptions}
+                    disabled={!canVote}
+                  />
+                </>
+              ) : (
+                <ChoiceBallot
+                  options={poll.options}
+                  selected={selectedOptions}
+                  onToggle={toggleOption}
+                  multiSelect={isMultiSelect}
+                  disabled={!canVote}
+                />
+              )}
               
-              {user ? (
+              {canVote ? (
                 <Button 
                   onClick={handleVote} 
-                  disabled={!selectedOption}
+                  disabled={selectionErrors.length > 0}
                   className="w-full"
                 >
-                  Submit Vote
+                  {isText ? 'Submit Response' : isChangingVote ? 'Update Vote' : 'Submit Vote'}
                 </Button>
               ) : (
                 <Button 
@@ -280,8 +1211,14 @@ export default function PollPage() {
                 </Button>
               )}
               
+              {isChangingVote && (
+                <Button variant="outline" onClick={cancelVoteChange} className="w-full">
+                  Keep My Current Vote
+                </Button>
+              )}
+              
               <div className="flex gap-2">
-                {poll.totalVotes > 0 && (
+                {hasResults && (
                   <Button 
                     variant="outline" 
                     onClick={() => setShowResults(true)}
@@ -293,14 +1230,14 @@ export default function PollPage() {
                 <Button 
                   variant="outline" 
                   onClick={() => setShowShare(!showShare)}
-                  className={poll.totalVotes > 0 ? "flex-1" : "w-full"}
+                  className={hasResults ? "flex-1" : "w-full"}
                 >
                   {showShare ? 'Hide Share' : 'Share Poll'}
                 </Button>
               </div>
               {showShare && (
                 <div className="mt-4">
-                  <SharePoll pollId={poll.id} pollQuestion={poll.question} />
+                  <SharePoll pollId={poll.id} pollQuestion={poll.question} resultsVisibility={poll.results_visibility} hasPasscode={poll.has_passcode} />
                 </div>
               )}
             </>
@@ -308,18 +1245,29 @@ export default function PollPage() {
         </div>
       ) : (
         <div className="space-y-4">
-          <h2 className="text-xl font-semibold">Thank you for voting!</h2>
+          <h2 className="text-xl font-semibold">
+            {isText ? 'Thank you for your response!' : 'Thank you for voting!'}
+          </h2>
           
-          <PollResultChart 
-            pollResults={{
-              question: poll.question,
-              options: poll.options.map(option => ({
-                ...option,
-                option_text: option.text
-              })),
-              totalVotes: poll.totalVotes,
-            }}
-          />
+          {quizFeedback && <QuizFeedbackPanel options={poll.options} feedback={quizFeedback} />}
+          
+          {voteCanBeChanged && user && (
+            <div className="flex flex-wrap items-center gap-2">
+              <p className="text-sm text-muted-foreground flex-1">
+                You can change or withdraw your vote
+                {poll.expires_at ? ` until ${new Date(poll.expires_at).toLocaleString()}` : ' while the poll is open'}.
+              </p>
+              <Button variant="outline" size="sm" onClick={() => setIsChangingVote(true)}>
+                Change Vote
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleRetractVote}>
+                Withdraw Vote
+              </Button>
+            </div>
+          )}
+          
+          {results}
+          {leaderboard}
           
           <div className="flex justify-between pt-4">
             <Button variant="outline" onClick={() => setShowShare(!showShare)}>
@@ -329,9 +1277,19 @@ export default function PollPage() {
               <a href="/dashboard">Back to Dashboard</a>
             </Button>
           </div>
-          {showShare && <SharePoll pollId={poll.id} pollQuestion={poll.question} />}
+          {showShare && <SharePoll pollId={poll.id} pollQuestion={poll.question} resultsVisibility={poll.results_visibility} hasPasscode={poll.has_passcode} />}
         </div>
       )}
+      
+      {poll.allow_delegation && user && <DelegationPanel pollId={poll.id} tags={poll.tags} hasVoted={hasVoted} />}
+      {isCreator && !isText && !poll.is_secret && (
+        <Button variant="outline" asChild>
+          <a href={`/polls/${poll.id}/present`} target="_blank" rel="noopener noreferrer">Present results</a>
+        </Button>
+      )}
+      {isCreator && isInviteOnly && <InviteTurnout pollId={poll.id} />}
+      {isCreator && takesBallotCodes && <BallotCodeManager pollId={poll.id} />}
+      {isCreator && isWeighted && <VoterWeights pollId={poll.id} />}
     </div>
   );
 }
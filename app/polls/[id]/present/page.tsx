@@ -0,0 +1,129 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useParams } from 'next/navigation';
+import { Button } from '../../../../components/ui/button';
+import { LiveIndicator, PollResultChart } from '../../../../components/polls';
+import { applyOptionCount, type LiveStatus } from '@/lib/live-results';
+import { isPollClosed } from '@/lib/results-visibility';
+
+interface PresentedPoll {
+  question: string;
+  expires_at: string | null;
+  closed_at: string | null;
+  options: { id: string; text: string; votes: number }[];
+}
+
+/**
+ * Fullscreen presenter mode: the poll's results, large, following the votes
+ * through the poll's vote stream. Counts are shown as stored, so ranked polls
+ * show first preferences.
+ */
+export default function PresenterPage() {
+  const params = useParams();
+  const pollId = params?.id as string;
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const [poll, setPoll] = useState<PresentedPoll | null>(null);
+  const [status, setStatus] = useState<LiveStatus>('connecting');
+  const [error, setError] = useState<string | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  useEffect(() => {
+    if (!pollId) return;
+
+    // EventSource reconnects by itself, sending the ID of the last event it got
+    const source = new EventSource(`/api/polls/${pollId}/stream`);
+
+    source.addEventListener('snapshot', event => {
+      setPoll(JSON.parse((event as MessageEvent).data));
+      setStatus('live');
+    });
+    source.addEventListener('votes', event => {
+      const { counts } = JSON.parse((event as MessageEvent).data) as { counts: Record<string, number> };
+      setPoll(current => current && {
+        ...current,
+        options: Object.entries(counts).reduce(
+          (options, [id, votes]) => applyOptionCount(options, { id, votes }),
+          current.options
+        )
+      });
+    });
+    source.onopen = () => setStatus('live');
+    source.onerror = () => {
+      // A refused stream isn't retried
+      if (source.readyState === EventSource.CLOSED) {
+        setStatus('off');
+        setError('This poll can\'t be presented. Its results may be hidden, it may use secret ballots, or too many screens are showing it already.');
+      } else {
+        setStatus('reconnecting');
+      }
+    };
+
+    return () => source.close();
+  }, [pollId]);
+
+  useEffect(() => {
+    const onChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      containerRef.current?.requestFullscreen();
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="text-center py-10">
+        <h1 className="text-2xl font-bold text-destructive">{error}</h1>
+      </div>
+    );
+  }
+
+  if (!poll) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  const totalVotes = poll.options.reduce((sum, option) => sum + option.votes, 0);
+
+  return (
+    <div ref={containerRef} className="min-h-screen bg-background p-8 flex flex-col gap-6">
+      <div className="flex items-start justify-between gap-4">
+        <h1 className="text-4xl font-bold">{poll.question}</h1>
+        <div className="flex items-center gap-4 shrink-0">
+          {isPollClosed(poll) ? (
+            <span className="text-sm font-medium text-muted-foreground">Voting has closed</span>
+          ) : (
+            <LiveIndicator status={status} />
+          )}
+          <Button variant="outline" size="sm" onClick={toggleFullscreen}>
+            {isFullscreen ? 'Exit full screen' : 'Full screen'}
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-xl text-muted-foreground">
+        {totalVotes} vote{totalVotes !== 1 ? 's' : ''}
+      </p>
+
+      <PollResultChart
+        className="flex-1"
+        showDetailedView={false}
+        pollResults={{
+          question: poll.question,
+          options: poll.options.map(option => ({ ...option, option_text: option.text })),
+          totalVotes
+        }}
+      />
+    </div>
+  );
+}
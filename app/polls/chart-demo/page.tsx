@@ -1,6 +1,12 @@
 'use client';
 
+import { useState } from 'react';
 import { PollResultChart } from '../../../components/polls';
+import {
+  canViewResults,
+  describeResultsVisibility,
+  type ResultsVisibility
+} from '@/lib/results-visibility';
 
 // Example poll data for demonstration
 const examplePollResults = {
@@ -16,6 +22,10 @@ const examplePollResults = {
 };
 
 export default function PollResultChartDemo() {
+  const [resultsVisibility, setResultsVisibility] = useState<ResultsVisibility>('always');
+  const [hasVoted, setHasVoted] = useState(false);
+  const resultsVisible = canViewResults(resultsVisibility, { isCreator: false, hasVoted, isClosed: false, isSecret: false });
+
   return (
     <div className="max-w-4xl mx-auto py-8 space-y-8">
       <div className="text-center space-y-2">
@@ -25,7 +35,30 @@ export default function PollResultChartDemo() {
         </p>
       </div>
       
-      <PollResultChart pollResults={examplePollResults} />
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          Show results
+          <select
+            className="rounded-md border px-2 py-1"
+            value={resultsVisibility}
+            onChange={(e) => setResultsVisibility(e.target.value as ResultsVisibility)}
+          >
+            <option value="always">Always</option>
+            <option value="after_vote">After voting</option>
+            <option value="after_close">After the poll closes</option>
+            <option value="creator">Only to the creator</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={hasVoted} onChange={(e) => setHasVoted(e.target.checked)} />
+          Viewer has voted
+        </label>
+      </div>
+      
+      <PollResultChart
+        pollResults={examplePollResults}
+        hiddenMessage={resultsVisible ? undefined : describeResultsVisibility(resultsVisibility)}
+      />
       
       <div className="bg-muted/50 p-4 rounded-lg">
         <h3 className="font-semibold mb-2">Usage Example:</h3>
@@ -41,7 +74,13 @@ const pollResults = {
   totalVotes: 25,
 };
 
-<PollResultChart pollResults={pollResults} />`}
+<PollResultChart pollResults={pollResults} />
+
+// While the poll's results visibility setting hides them from the viewer
+<PollResultChart
+  pollResults={pollResults}
+  hiddenMessage="Results are shown once you have voted."
+/>`}
         </pre>
       </div>
     </div>
@@ -18,7 +18,7 @@ import {
 } from '../../../components/ui/form';
 import { useAuth } from '@/app/contexts/auth';
 import { createClient } from '@/lib/supabase/client';
-import { SharePoll } from '../../../components/polls';
+import { OptionImageInput, SharePoll } from '../../../components/polls';
 import {
   ValidationSchemas,
   InputSanitizer,
@@ -27,6 +27,20 @@ import {
   RateLimiter,
   SECURITY_CONFIG
 } from '@/lib/security';
+import { QUIZ_POLL_TYPES } from '@/lib/tabulation';
+import { formatTimeSlot, getLocalTimeZone, localInputToIso } from '@/lib/time-slots';
+import { IMAGE_POLL_TYPES, checkOptionImage, removeOptionImages, uploadOptionImage } from '@/lib/option-images';
+import { VOTE_CHANGE_POLL_TYPES } from '@/lib/vote-changes';
+import { ANONYMOUS_POLL_TYPES } from '@/lib/anonymous-voting';
+import { SECRET_BALLOT_POLL_TYPES } from '@/lib/secret-ballots';
+import type { ResultsVisibility } from '@/lib/results-visibility';
+import { LEAD_MARGIN_POLL_TYPES } from '@/lib/auto-close';
+import { parseInvitees } from '@/lib/poll-invites';
+import { PASSCODE_LENGTH, normalizePasscode } from '@/lib/poll-passcodes';
+import { setPollPasscode } from '@/app/actions/poll-actions';
+import { WEIGHTED_POLL_TYPES, parseVoterWeights } from '@/lib/voter-weights';
+import { DELEGATION_POLL_TYPES, parseTags } from '@/lib/delegation';
+import { DEFAULT_POINTS_BUDGET, MAX_POINTS_BUDGET } from '@/lib/points-budget';
 import type { z } from 'zod';
 
 // Type for our form data
@@ -43,14 +57,27 @@ type CreatePollFormData = z.infer<typeof ValidationSchemas.createPoll>;
  * 6. ACCESS CONTROL: Authentication required with session validation
  */
 
+// Copy of a record without one key
+function without<T>(record: Record<string, T>, key: string): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).filter(([entryKey]) => entryKey !== key));
+}
+
 export default function CreatePollPage() {
   const router = useRouter();
   const { user } = useAuth();
   const supabase = createClient();
   const [success, setSuccess] = useState(false);
-  const [createdPoll, setCreatedPoll] = useState<{ id: string; question: string } | null>(null);
+  const [createdPoll, setCreatedPoll] = useState<{
+    id: string;
+    question: string;
+    resultsVisibility: ResultsVisibility;
+    passcode: string | null;
+  } | null>(null);
   const [uploadedImage, setUploadedImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  // Option images, keyed by the option's field ID
+  const [optionImages, setOptionImages] = useState<Record<string, { file: File; previewUrl: string }>>({});
+  const [optionImageErrors, setOptionImageErrors] = useState<Record<string, string>>({});
 
   // Initialize form with react-hook-form and Zod validation
   const form = useForm<CreatePollFormData>({
@@ -62,14 +89,96 @@ export default function CreatePollPage() {
         { text: '', id: '2' }
       ],
       expiresAt: '',
+      opensAt: '',
+      pollType: 'single',
+      minSelections: 1,
+      pointsBudget: DEFAULT_POINTS_BUDGET,
+      isQuiz: false,
+      allowVoteChanges: false,
+      allowAnonymous: false,
+      isSecret: false,
+      resultsVisibility: 'always',
+      isInviteOnly: false,
+      invitees: '',
+      passcode: '',
+      isWeighted: false,
+      voterWeights: '',
+      allowDelegation: false,
+      tags: '',
     },
     mode: 'onChange' // Real-time validation
   });
 
-  const { fields, append, remove } = useFieldArray({
+  const pollType = form.watch('pollType');
+  const isQuiz = form.watch('isQuiz');
+  const isSecret = form.watch('isSecret');
+  const isInviteOnly = form.watch('isInviteOnly');
+  const isWeighted = form.watch('isWeighted');
+  const allowDelegation = form.watch('allowDelegation');
+
+  const { fields, append, remove, replace } = useFieldArray({
     control: form.control,
     name: 'options'
   });
+
+  const pollTypeField = form.register('pollType');
+
+  // Text response polls collect written answers, so they have no options
+  const handlePollTypeChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    // Time slots and text options don't carry over between scheduling and other polls
+    const switchesSchedule = (pollType === 'schedule') !== (event.target.value === 'schedule');
+    pollTypeField.onChange(event);
+    
+    // Only choice polls can be quizzes
+    if (!QUIZ_POLL_TYPES.includes(event.target.value)) {
+      form.setValue('isQuiz', false);
+    }
+    
+    // ...or let voters change their vote
+    if (!VOTE_CHANGE_POLL_TYPES.includes(event.target.value)) {
+      form.setValue('allowVoteChanges', false);
+    }
+    
+    // ...or accept anonymous votes
+    if (!ANONYMOUS_POLL_TYPES.includes(event.target.value)) {
+      form.setValue('allowAnonymous', false);
+    }
+    
+    // ...or be secret ballots
+    if (!SECRET_BALLOT_POLL_TYPES.includes(event.target.value)) {
+      form.setValue('isSecret', false);
+    }
+    
+    // ...or be weighted
+    if (!WEIGHTED_POLL_TYPES.includes(event.target.value)) {
+      form.setValue('isWeighted', false);
+    }
+    
+    // ...or take delegations
+    if (!DELEGATION_POLL_TYPES.includes(event.target.value)) {
+      form.setValue('allowDelegation', false);
+    }
+    
+    // ...or close on a lead margin
+    if (!LEAD_MARGIN_POLL_TYPES.includes(event.target.value)) {
+      form.setValue('closeLeadMargin', null);
+    }
+    
+    // ...or have option images
+    if (!IMAGE_POLL_TYPES.includes(event.target.value)) {
+      setOptionImages({});
+      setOptionImageErrors({});
+    }
+    
+    if (event.target.value === 'text') {
+      replace([]);
+    } else if (fields.length === 0 || switchesSchedule) {
+      replace([
+        { text: '', id: '1' },
+        { text: '', id: '2' }
+      ]);
+    }
+  };
   // Secure file upload handler with magic byte validation
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length === 0) return;
@@ -87,36 +196,19 @@ export default function CreatePollPage() {
     }
 
     // Additional security: Check file content (magic bytes)
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const buffer = e.target?.result as ArrayBuffer;
-      if (buffer) {
-        const bytes = new Uint8Array(buffer.slice(0, 4));
-        const hex = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
-        
-        // Check magic bytes for common image formats
-        const validMagicBytes = [
-          'ffd8ff', // JPEG
-          '89504e', // PNG  
-          '47494638', // GIF
-          '52494646' // WebP (RIFF)
-        ];
-        
-        const isValidImage = validMagicBytes.some(magic => hex.startsWith(magic));
-        if (!isValidImage) {
-          form.setError('image', { 
-            type: 'manual', 
-            message: 'File is not a valid image' 
-          });
-          return;
-        }
-        
-        setUploadedImage(file);
-        setImagePreview(URL.createObjectURL(file));
-        form.clearErrors('image');
+    FileValidator.hasImageSignature(file).then(isValidImage => {
+      if (!isValidImage) {
+        form.setError('image', { 
+          type: 'manual', 
+          message: 'File is not a valid image' 
+        });
+        return;
       }
-    };
-    reader.readAsArrayBuffer(file);
+      
+      setUploadedImage(file);
+      setImagePreview(URL.createObjectURL(file));
+      form.clearErrors('image');
+    });
   }, [form]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -139,10 +231,38 @@ export default function CreatePollPage() {
 
   const removeOption = (index: number) => {
     if (fields.length > SECURITY_CONFIG.TEXT_LIMITS.MIN_OPTIONS) {
+      removeOptionImage(fields[index].id);
       remove(index);
     }
   };
+
+  // Option images get the same type, size and magic byte checks as the poll image
+  const selectOptionImage = async (fieldId: string, file: File) => {
+    const error = await checkOptionImage(file);
+    if (error) {
+      setOptionImageErrors(errors => ({ ...errors, [fieldId]: error }));
+      return;
+    }
+
+    setOptionImageErrors(errors => without(errors, fieldId));
+    setOptionImages(images => ({ ...images, [fieldId]: { file, previewUrl: URL.createObjectURL(file) } }));
+  };
+
+  const removeOptionImage = (fieldId: string) => {
+    setOptionImageErrors(errors => without(errors, fieldId));
+    setOptionImages(images => without(images, fieldId));
+  };
   
+  // Scheduling options are labelled with their time slot so the usual option checks still apply
+  const updateSlotLabel = (index: number) => {
+    const startsAt = localInputToIso(form.getValues(`options.${index}.startsAt`) ?? '');
+    const endsAt = localInputToIso(form.getValues(`options.${index}.endsAt`) ?? '');
+
+    form.setValue(`options.${index}.text`, startsAt ? formatTimeSlot({ startsAt, endsAt }) : '', {
+      shouldValidate: true
+    });
+  };
+
   const onSubmit = async (data: CreatePollFormData) => {
     // Authentication check
     if (!user) {
@@ -168,19 +288,63 @@ export default function CreatePollPage() {
       return;
     }
 
+    // Option images uploaded so far, removed again if creating the poll fails
+    const uploadedImagePaths: string[] = [];
+
     try {
       // Data is already sanitized by Zod transforms
+      const isMultiSelect = data.pollType === 'multiple';
       const sanitizedData = {
         question: data.question, // Already sanitized
-        options: data.options.filter(opt => opt.text.trim()), // Remove empty options
-        expiresAt: data.expiresAt || null
+        options: data.options
+          .map((option, index) => ({ ...option, image: optionImages[fields[index]?.id]?.file }))
+          .filter(opt => opt.text.trim()), // Remove empty options
+        expiresAt: data.expiresAt || null,
+        // The input holds local time; store the instant so the countdown is right in every zone
+        opensAt: data.opensAt ? new Date(data.opensAt).toISOString() : null,
+        pollType: data.pollType ?? 'single',
+        minSelections: isMultiSelect ? data.minSelections ?? 1 : 1,
+        // Only single-choice polls cap the ballot at one option
+        maxSelections: isMultiSelect ? data.maxSelections ?? null : (data.pollType ?? 'single') === 'single' ? 1 : null,
+        isQuiz: !!data.isQuiz,
+        allowVoteChanges: !!data.allowVoteChanges,
+        allowAnonymous: !!data.allowAnonymous,
+        isSecret: !!data.isSecret,
+        resultsVisibility: data.resultsVisibility ?? 'always',
+        closeAfterVotes: data.closeAfterVotes ?? null,
+        // The quorum is only kept together with the electorate it is measured against
+        eligibleVoters: data.quorumPercent != null ? data.eligibleVoters ?? null : null,
+        quorumPercent: data.quorumPercent ?? null,
+        closeLeadMargin: data.closeLeadMargin ?? null,
+        isInviteOnly: !!data.isInviteOnly,
+        invitees: data.isInviteOnly ? parseInvitees(data.invitees ?? '') : null,
+        // Passcodes are hashed as typed, so they aren't sanitized
+        passcode: data.passcode?.trim() ? normalizePasscode(data.passcode) : null,
+        isWeighted: !!data.isWeighted,
+        voterWeights: data.isWeighted ? parseVoterWeights(data.voterWeights ?? '').weights : null,
+        allowDelegation: !!data.allowDelegation,
+        tags: parseTags(data.tags ?? '').tags,
+        timeZone: data.pollType === 'schedule' ? getLocalTimeZone() : null,
+        pointsBudget: data.pollType === 'budget' ? data.pointsBudget ?? DEFAULT_POINTS_BUDGET : null
       };
 
       // Validate final data structure
-      if (sanitizedData.options.length < SECURITY_CONFIG.TEXT_LIMITS.MIN_OPTIONS) {
+      if (sanitizedData.pollType !== 'text' && sanitizedData.options.length < SECURITY_CONFIG.TEXT_LIMITS.MIN_OPTIONS) {
         throw new Error(`At least ${SECURITY_CONFIG.TEXT_LIMITS.MIN_OPTIONS} options required`);
       }
 
+      // Upload option images first, so a failed upload doesn't leave a poll behind
+      const imagePaths: (string | null)[] = [];
+      for (const option of sanitizedData.options) {
+        if (option.image) {
+          const path = await uploadOptionImage(supabase, option.image, user.id);
+          uploadedImagePaths.push(path);
+          imagePaths.push(path);
+        } else {
+          imagePaths.push(null);
+        }
+      }
+
       // Create poll in database
       const { data: poll, error: pollError } = await supabase
         .from('polls')
@@ -188,6 +352,25 @@ export default function CreatePollPage() {
           question: sanitizedData.question,
           user_id: user.id,
           expires_at: sanitizedData.expiresAt,
+          opens_at: sanitizedData.opensAt,
+          poll_type: sanitizedData.pollType,
+          min_selections: sanitizedData.minSelections,
+          max_selections: sanitizedData.maxSelections,
+          is_quiz: sanitizedData.isQuiz,
+          time_zone: sanitizedData.timeZone,
+          points_budget: sanitizedData.pointsBudget,
+          allow_vote_changes: sanitizedData.allowVoteChanges,
+          allow_anonymous: sanitizedData.allowAnonymous,
+          is_secret: sanitizedData.isSecret,
+          results_visibility: sanitizedData.resultsVisibility,
+          close_after_votes: sanitizedData.closeAfterVotes,
+          eligible_voters: sanitizedData.eligibleVoters,
+          quorum_percent: sanitizedData.quorumPercent,
+          close_lead_margin: sanitizedData.closeLeadMargin,
+          is_invite_only: sanitizedData.isInviteOnly,
+          is_weighted: sanitizedData.isWeighted,
+          allow_delegation: sanitizedData.allowDelegation,
+          tags: sanitizedData.tags,
         })
         .select()
         .single();
@@ -196,19 +379,90 @@ export default function CreatePollPage() {
         throw pollError;
       }
 
-      // Create poll options
-      const optionsToInsert = sanitizedData.options.map(option => ({
-        poll_id: poll.id,
-        option_text: option.text,
-        votes: 0
-      }));
+      // Create poll options (text response polls have none)
+      if (sanitizedData.options.length > 0) {
+        const optionsToInsert = sanitizedData.options.map((option, index) => ({
+          poll_id: poll.id,
+          option_text: option.text,
+          votes: 0,
+          image_path: imagePaths[index],
+          // Time slots are stored as UTC timestamps
+          starts_at: sanitizedData.timeZone ? localInputToIso(option.startsAt ?? '') : null,
+          ends_at: sanitizedData.timeZone ? localInputToIso(option.endsAt ?? '') : null
+        }));
+
+        const { data: createdOptions, error: optionsError } = await supabase
+          .from('poll_options')
+          .insert(optionsToInsert)
+          .select('id');
+
+        if (optionsError) {
+          throw optionsError;
+        }
+
+        // The answer key lives apart from the options so voters can't read it
+        if (sanitizedData.isQuiz) {
+          const { error: keyError } = await supabase
+            .from('quiz_answer_keys')
+            .insert(sanitizedData.options.map((option, index) => ({
+              option_id: createdOptions[index].id,
+              poll_id: poll.id,
+              is_correct: !!option.isCorrect,
+              explanation: option.explanation || null
+            })));
+
+          if (keyError) {
+            await supabase.from('polls').delete().eq('id', poll.id);
+            throw keyError;
+          }
+        }
+      }
+
+      // Invite the voters of an invite-only poll; without its invites nobody could vote
+      if (sanitizedData.invitees) {
+        const { emails, userIds } = sanitizedData.invitees;
+        const invitesToInsert = [
+          ...userIds.map(userId => ({ poll_id: poll.id, user_id: userId })),
+          ...emails.map(email => ({ poll_id: poll.id, email }))
+        ];
+
+        if (invitesToInsert.length > 0) {
+          const { error: invitesError } = await supabase
+            .from('poll_invites')
+            .insert(invitesToInsert);
+
+          if (invitesError) {
+            await supabase.from('polls').delete().eq('id', poll.id);
+            throw invitesError;
+          }
+        }
+      }
+
+      // Give the voters of a weighted poll their weights; without them nobody could vote
+      if (sanitizedData.voterWeights && sanitizedData.voterWeights.length > 0) {
+        const { error: weightsError } = await supabase
+          .from('poll_voter_weights')
+          .insert(sanitizedData.voterWeights.map(entry => ({
+            poll_id: poll.id,
+            user_id: entry.userId ?? null,
+            email: entry.email ?? null,
+            weight: entry.weight
+          })));
 
-      const { error: optionsError } = await supabase
-        .from('poll_options')
-        .insert(optionsToInsert);
+        if (weightsError) {
+          await supabase.from('polls').delete().eq('id', poll.id);
+          throw weightsError;
+        }
+      }
+
+      // Only the server can hash the passcode; without it the poll would be open to everyone
+      if (sanitizedData.passcode) {
+        const passcodeResult = await setPollPasscode(poll.id, sanitizedData.passcode);
 
-      if (optionsError) {
-        throw optionsError;
+        if (!passcodeResult.success) {
+          await supabase.from('polls').delete().eq('id', poll.id);
+          throw new Error(passcodeResult.error || 'Failed to save passcode');
+        }
       }
 
       // Handle image upload if present
@@ -233,11 +487,15 @@ export default function CreatePollPage() {
 
       setCreatedPoll({ 
         id: poll.id, 
-        question: sanitizedData.question 
+        question: sanitizedData.question,
+        resultsVisibility: sanitizedData.resultsVisibility,
+        passcode: sanitizedData.passcode ?? null
       });
       setSuccess(true);
 
     } catch (error) {
+      await removeOptionImages(supabase, uploadedImagePaths);
+
       // Sanitize error for client display
       const safeError = ErrorSanitizer.sanitizeError(error);
       
@@ -284,7 +542,13 @@ export default function CreatePollPage() {
 
         {/* Share Section */}
         <div className="max-w-2xl mx-auto">
-          <SharePoll pollId={createdPoll.id} pollQuestion={createdPoll.question} />
+          <SharePoll
+            pollId={createdPoll.id}
+            pollQuestion={createdPoll.question}
+            resultsVisibility={createdPoll.resultsVisibility}
+            hasPasscode={!!createdPoll.passcode}
+            passcode={createdPoll.passcode ?? undefined}
+          />
         </div>
         
         {/* Additional Info */}
@@ -341,6 +605,22 @@ export default function CreatePollPage() {
             <FormMessage />
           </FormItem>
 
+          {/* Opening Time */}
+          <FormItem>
+            <FormLabel htmlFor="opensAt">Opening Time (Optional)</FormLabel>
+            <FormControl>
+              <Input
+                id="opensAt"
+                type="datetime-local"
+                {...form.register('opensAt')}
+              />
+            </FormControl>
+            <FormDescription>
+              Set the poll up in advance: it shows a countdown and accepts votes from this time on.
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+
           {/* Expiration Date */}
           <FormItem>
             <FormLabel htmlFor="expiresAt">Expiration Date (Optional)</FormLabel>
@@ -357,6 +637,417 @@ export default function CreatePollPage() {
             <FormMessage />
           </FormItem>
 
+          {/* Auto-close Rules */}
+          <FormItem>
+            <FormLabel>Close Early (Optional)</FormLabel>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <label htmlFor="closeAfterVotes" className="text-sm">After this many votes</label>
+                <Input
+                  id="closeAfterVotes"
+                  type="number"
+                  min={1}
+                  {...form.register('closeAfterVotes', {
+                    setValueAs: (value) => value === '' || value === undefined ? null : Number(value)
+                  })}
+                />
+              </div>
+              {LEAD_MARGIN_POLL_TYPES.includes(pollType ?? 'single') && (
+                <div className="space-y-1">
+                  <label htmlFor="closeLeadMargin" className="text-sm">When an option leads by (votes)</label>
+                  <Input
+                    id="closeLeadMargin"
+                    type="number"
+                    min={1}
+                    {...form.register('closeLeadMargin', {
+                      setValueAs: (value) => value === '' || value === undefined ? null : Number(value)
+                    })}
+                  />
+                </div>
+              )}
+              <div className="space-y-1">
+                <label htmlFor="quorumPercent" className="text-sm">At a quorum of (%)</label>
+                <Input
+                  id="quorumPercent"
+                  type="number"
+                  min={1}
+                  max={100}
+                  {...form.register('quorumPercent', {
+                    setValueAs: (value) => value === '' || value === undefined ? null : Number(value)
+                  })}
+                />
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="eligibleVoters" className="text-sm">Out of eligible voters</label>
+                <Input
+                  id="eligibleVoters"
+                  type="number"
+                  min={1}
+                  {...form.register('eligibleVoters', {
+                    setValueAs: (value) => value === '' || value === undefined ? null : Number(value)
+                  })}
+                />
+              </div>
+            </div>
+            <FormDescription>
+              The poll closes as soon as one of these is reached, even before it expires.
+              Leave them empty to close only at the expiration date.
+            </FormDescription>
+            {(['closeAfterVotes', 'closeLeadMargin', 'quorumPercent', 'eligibleVoters'] as const).map(field => (
+              form.formState.errors[field] && (
+                <p key={field} className="text-sm text-red-500">{form.formState.errors[field]?.message}</p>
+              )
+            ))}
+          </FormItem>
+
+          {/* Results Visibility */}
+          <FormItem>
+            <FormLabel htmlFor="resultsVisibility">Show Results</FormLabel>
+            <FormControl>
+              <select
+                id="resultsVisibility"
+                className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                {...form.register('resultsVisibility')}
+              >
+                <option value="always">Always</option>
+                <option value="after_vote">After voting</option>
+                <option value="after_close">After the poll closes</option>
+                <option value="creator">Only to me</option>
+              </select>
+            </FormControl>
+            <FormDescription>
+              Hiding the running results until people have voted keeps them from swaying the answers.
+              You can always see them yourself.
+            </FormDescription>
+          </FormItem>
+
+          {/* Poll Type */}
+          <FormItem>
+            <FormLabel htmlFor="pollType">Poll Type</FormLabel>
+            <FormControl>
+              <select
+                id="pollType"
+                className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                {...pollTypeField}
+                onChange={handlePollTypeChange}
+              >
+                <option value="single">Single choice</option>
+                <option value="multiple">Multiple choice (choose up to N)</option>
+                <option value="ranked">Ranked choice (instant runoff)</option>
+                <option value="approval">Approval (tick every option you like)</option>
+                <option value="score">Score (rate each option 0-5 stars)</option>
+                <option value="text">Text response (written answers)</option>
+                <option value="schedule">Scheduling (find a time that suits everyone)</option>
+                <option value="budget">Budget (spread points across the options)</option>
+              </select>
+            </FormControl>
+            <FormDescription>
+              Multiple choice polls let voters pick several options within the limits you set.
+              Ranked choice polls ask voters to order the options and eliminate the last place until one has a majority.
+              Approval polls let voters pick any number of options, and score polls ask for a star rating on each.
+              Text response polls have no options and collect a written answer of up to {SECURITY_CONFIG.TEXT_LIMITS.TEXT_RESPONSE_MAX} characters instead.
+              Scheduling polls offer time slots that everyone answers with yes, if need be or no.
+              Budget polls give every voter a number of points to spread across the options however they like.
+            </FormDescription>
+          </FormItem>
+
+          {QUIZ_POLL_TYPES.includes(pollType ?? 'single') && (
+            <FormItem>
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  {...form.register('isQuiz', {
+                    // Quiz answers are final, and participants need an account to see them
+                    onChange: (event) => {
+                      if (event.target.checked) {
+                        form.setValue('allowVoteChanges', false);
+                        form.setValue('allowAnonymous', false);
+                        form.setValue('isSecret', false);
+                        form.setValue('isWeighted', false);
+                        form.setValue('allowDelegation', false);
+                      }
+                    }
+                  })}
+                />
+                Quiz mode
+              </label>
+              <FormDescription>
+                Mark the correct options. Voters see whether they were right, with your explanations,
+                only after they submit, and you get a leaderboard of participant scores.
+              </FormDescription>
+            </FormItem>
+          )}
+
+          {VOTE_CHANGE_POLL_TYPES.includes(pollType ?? 'single') && !isQuiz && !isSecret && !isWeighted && (
+            <FormItem>
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  {...form.register('allowVoteChanges')}
+                />
+                Let voters change their vote
+              </label>
+              <FormDescription>
+                Voters can change or withdraw their vote until the poll expires.
+              </FormDescription>
+            </FormItem>
+          )}
+
+          {ANONYMOUS_POLL_TYPES.includes(pollType ?? 'single') && !isQuiz && !isInviteOnly && !isWeighted && !allowDelegation && (
+            <FormItem>
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  {...form.register('allowAnonymous')}
+                />
+                Allow anonymous voting
+              </label>
+              <FormDescription>
+                Visitors can vote without an account, once per browser. You can filter the results
+                to anonymous or signed-in voters.
+              </FormDescription>
+            </FormItem>
+          )}
+
+          {SECRET_BALLOT_POLL_TYPES.includes(pollType ?? 'single') && !isQuiz && !isWeighted && !allowDelegation && (
+            <FormItem>
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  {...form.register('isSecret', {
+                    // A secret ballot can't be found again to change it
+                    onChange: (event) => {
+                      if (event.target.checked) {
+                        form.setValue('allowVoteChanges', false);
+                      }
+                    }
+                  })}
+                />
+                Secret ballot
+              </label>
+              <FormDescription>
+                Choices are stored apart from who voted, so nobody, not even you, can see how anyone voted.
+                You see the totals and who took part. Votes are final.
+              </FormDescription>
+            </FormItem>
+          )}
+
+          <FormItem>
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <input
+                type="checkbox"
+                className="h-4 w-4"
+                {...form.register('isInviteOnly', {
+                  // Invitees vote with their account
+                  onChange: (event) => {
+                    if (event.target.checked) {
+                      form.setValue('allowAnonymous', false);
+                    }
+                  }
+                })}
+              />
+              Invite only
+            </label>
+            <FormDescription>
+              Only the people you invite can vote. You see who has voted and who hasn&apos;t, but not how.
+            </FormDescription>
+          </FormItem>
+
+          {isInviteOnly && (
+            <FormItem>
+              <FormLabel htmlFor="invitees">Invitees</FormLabel>
+              <FormControl>
+                <Textarea
+                  id="invitees"
+                  rows={4}
+                  placeholder="Email addresses or user IDs, separated by commas or new lines"
+                  {...form.register('invitees')}
+                />
+              </FormControl>
+              <FormDescription>
+                You can invite more people from the poll page later.
+              </FormDescription>
+              {form.formState.errors.invitees && (
+                <p className="text-sm text-red-500">{form.formState.errors.invitees.message}</p>
+              )}
+            </FormItem>
+          )}
+
+          {WEIGHTED_POLL_TYPES.includes(pollType ?? 'single') && !isQuiz && !allowDelegation && (
+            <FormItem>
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  {...form.register('isWeighted', {
+                    // Weights belong to accounts and are counted once per ballot
+                    onChange: (event) => {
+                      if (event.target.checked) {
+                        form.setValue('allowVoteChanges', false);
+                        form.setValue('allowAnonymous', false);
+                        form.setValue('isSecret', false);
+                      }
+                    }
+                  })}
+                />
+                Weighted voting
+              </label>
+              <FormDescription>
+                Each voter&apos;s ballot counts their weight, such as the shares they hold. Only the voters
+                you give a weight can vote, and the weights are fixed once the poll opens.
+              </FormDescription>
+            </FormItem>
+          )}
+
+          {isWeighted && (
+            <FormItem>
+              <FormLabel htmlFor="voterWeights">Voter weights</FormLabel>
+              <FormControl>
+                <Textarea
+                  id="voterWeights"
+                  rows={4}
+                  className="font-mono"
+                  placeholder={'One voter per line: email address or user ID, then weight\nada@example.com 40'}
+                  {...form.register('voterWeights')}
+                />
+              </FormControl>
+              <FormDescription>
+                You can change the weights from the poll page until the poll opens.
+              </FormDescription>
+              {form.formState.errors.voterWeights && (
+                <p className="text-sm text-red-500">{form.formState.errors.voterWeights.message}</p>
+              )}
+            </FormItem>
+          )}
+
+          {DELEGATION_POLL_TYPES.includes(pollType ?? 'single') && !isQuiz && !isWeighted && (
+            <FormItem>
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  {...form.register('allowDelegation', {
+                    // Delegated votes follow the delegate's ballot, so it needs an account and open choices
+                    onChange: (event) => {
+                      if (event.target.checked) {
+                        form.setValue('allowAnonymous', false);
+                        form.setValue('isSecret', false);
+                      }
+                    }
+                  })}
+                />
+                Allow delegation
+              </label>
+              <FormDescription>
+                Voters can hand their vote to someone they trust, for this poll or every poll with one of its
+                tags. Voting directly overrides a delegation, and delegated votes are counted when the poll closes.
+              </FormDescription>
+            </FormItem>
+          )}
+
+          <FormItem>
+            <FormLabel htmlFor="tags">Tags (optional)</FormLabel>
+            <FormControl>
+              <Input
+                id="tags"
+                placeholder="budget, hiring"
+                {...form.register('tags')}
+              />
+            </FormControl>
+            <FormDescription>
+              Separate tags with commas. Voters can delegate their vote for every poll with a tag.
+            </FormDescription>
+            {form.formState.errors.tags && (
+              <p className="text-sm text-red-500">{form.formState.errors.tags.message}</p>
+            )}
+          </FormItem>
+
+          <FormItem>
+            <FormLabel htmlFor="passcode">Passcode (optional)</FormLabel>
+            <FormControl>
+              <Input
+                id="passcode"
+                autoComplete="off"
+                placeholder={`${PASSCODE_LENGTH.min} to ${PASSCODE_LENGTH.max} characters`}
+                {...form.register('passcode')}
+              />
+            </FormControl>
+            <FormDescription>
+              People have to enter the passcode before they can see or vote on the poll.
+              You can put it in the link or QR code you share.
+            </FormDescription>
+            {form.formState.errors.passcode && (
+              <p className="text-sm text-red-500">{form.formState.errors.passcode.message}</p>
+            )}
+          </FormItem>
+
+          {pollType === 'budget' && (
+            <FormItem>
+              <FormLabel htmlFor="pointsBudget">Points per voter</FormLabel>
+              <FormControl>
+                <Input
+                  id="pointsBudget"
+                  type="number"
+                  min={1}
+                  max={MAX_POINTS_BUDGET}
+                  {...form.register('pointsBudget', {
+                    setValueAs: (value) => value === '' || value === undefined ? undefined : Number(value)
+                  })}
+                />
+              </FormControl>
+              <FormDescription>
+                Voters don&apos;t have to use all their points, and can put several on one option.
+              </FormDescription>
+              {form.formState.errors.pointsBudget && (
+                <p className="text-sm text-red-500">{form.formState.errors.pointsBudget.message}</p>
+              )}
+            </FormItem>
+          )}
+
+          {pollType === 'multiple' && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormItem>
+                <FormLabel htmlFor="minSelections">Minimum selections</FormLabel>
+                <FormControl>
+                  <Input
+                    id="minSelections"
+                    type="number"
+                    min={1}
+                    max={fields.length}
+                    {...form.register('minSelections', {
+                      setValueAs: (value) => value === '' || value === undefined ? undefined : Number(value)
+                    })}
+                  />
+                </FormControl>
+                {form.formState.errors.minSelections && (
+                  <p className="text-sm text-red-500">{form.formState.errors.minSelections.message}</p>
+                )}
+              </FormItem>
+              <FormItem>
+                <FormLabel htmlFor="maxSelections">Maximum selections</FormLabel>
+                <FormControl>
+                  <Input
+                    id="maxSelections"
+                    type="number"
+                    min={1}
+                    max={fields.length}
+                    placeholder="No limit"
+                    {...form.register('maxSelections', {
+                      setValueAs: (value) => value === '' || value === undefined ? undefined : Number(value)
+                    })}
+                  />
+                </FormControl>
+                {form.formState.errors.maxSelections && (
+                  <p className="text-sm text-red-500">{form.formState.errors.maxSelections.message}</p>
+                )}
+              </FormItem>
+            </div>
+          )}
+
           {/* Image Upload */}
           <FormItem>
             <FormLabel>Poll Image (Optional)</FormLabel>
@@ -413,9 +1104,10 @@ export default function CreatePollPage() {
             <FormMessage />
           </FormItem>
         
+        {pollType !== 'text' && (
         <div className="space-y-4 mt-6">
             <div className="flex items-center justify-between">
-              <h2 className="text-lg font-semibold">Poll Options *</h2>
+              <h2 className="text-lg font-semibold">{pollType === 'schedule' ? 'Time Slots *' : 'Poll Options *'}</h2>
               <Button 
                 type="button" 
                 variant="outline" 
@@ -426,21 +1118,46 @@ export default function CreatePollPage() {
                 Add Option ({fields.length}/{SECURITY_CONFIG.TEXT_LIMITS.MAX_OPTIONS})
               </Button>
             </div>
+
+            {pollType === 'schedule' && (
+              <p className="text-sm text-muted-foreground">
+                Enter times in your time zone ({getLocalTimeZone()}). Participants see each slot in their own.
+              </p>
+            )}
             
             <div className="space-y-3">
               {fields.map((field, index) => (
                 <div key={field.id} className="flex items-start gap-2">
                   <div className="flex-1">
-                    <Input
-                      placeholder={`Option ${index + 1} (HTML will be stripped)`}
-                      {...form.register(`options.${index}.text`)}
-                    />
+                    {pollType === 'schedule' ? (
+                      <div className="grid gap-2 sm:grid-cols-2">
+                        <label className="space-y-1 text-sm">
+                          <span>Starts</span>
+                          <Input
+                            type="datetime-local"
+                            {...form.register(`options.${index}.startsAt`, { onChange: () => updateSlotLabel(index) })}
+                          />
+                        </label>
+                        <label className="space-y-1 text-sm">
+                          <span>Ends (optional)</span>
+                          <Input
+                            type="datetime-local"
+                            {...form.register(`options.${index}.endsAt`, { onChange: () => updateSlotLabel(index) })}
+                          />
+                        </label>
+                      </div>
+                    ) : (
+                      <Input
+                        placeholder={`Option ${index + 1} (HTML will be stripped)`}
+                        {...form.register(`options.${index}.text`)}
+                      />
+                    )}
                     {form.formState.errors.options?.[index]?.text && (
                       <p className="text-sm text-red-500 mt-1">
                         {form.formState.errors.options[index]?.text?.message}
                       </p>
                     )}
-                    {form.watch(`options.${index}.text`) && (
+                    {form.watch(`options.${index}.text`) && pollType !== 'schedule' && (
                       <p className={`text-xs mt-1 ${
                         form.watch(`options.${index}.text`).length > SECURITY_CONFIG.TEXT_LIMITS.POLL_OPTION_MAX 
                           ? 'text-red-500' : 'text-muted-foreground'
@@ -448,6 +1165,37 @@ export default function CreatePollPage() {
                         {form.watch(`options.${index}.text`).length}/{SECURITY_CONFIG.TEXT_LIMITS.POLL_OPTION_MAX}
                       </p>
                     )}
+                    {IMAGE_POLL_TYPES.includes(pollType ?? 'single') && (
+                      <OptionImageInput
+                        previewUrl={optionImages[field.id]?.previewUrl ?? null}
+                        onSelect={(file) => selectOptionImage(field.id, file)}
+                        onRemove={() => removeOptionImage(field.id)}
+                        label={`option ${index + 1}`}
+                        error={optionImageErrors[field.id]}
+                      />
+                    )}
+                    {isQuiz && (
+                      <div className="mt-2 space-y-2">
+                        <label className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4"
+                            {...form.register(`options.${index}.isCorrect`)}
+                          />
+                          Correct answer
+                        </label>
+                        <Input
+                          placeholder="Explanation shown after answering (optional)"
+                          maxLength={SECURITY_CONFIG.TEXT_LIMITS.QUIZ_EXPLANATION_MAX}
+                          {...form.register(`options.${index}.explanation`)}
+                        />
+                        {form.formState.errors.options?.[index]?.explanation && (
+                          <p className="text-sm text-red-500">
+                            {form.formState.errors.options[index]?.explanation?.message}
+                          </p>
+                        )}
+                      </div>
+                    )}
                   </div>
                   <Button
                     type="button"
@@ -467,12 +1215,13 @@ export default function CreatePollPage() {
               ))}
             </div>
             
-            {form.formState.errors.options?.root && (
+            {(form.formState.errors.options?.message ?? form.formState.errors.options?.root?.message) && (
               <p className="text-sm text-red-500">
-                {form.formState.errors.options.root.message}
+                {form.formState.errors.options?.message ?? form.formState.errors.options?.root?.message}
               </p>
             )}
           </div>
+        )}
 
           {/* Submit Buttons */}
           <div className="flex justify-end gap-4 pt-4">
@@ -0,0 +1,326 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '../../../components/ui/button';
+import {
+  SurveyQuestionBallot,
+  SurveyResults,
+  initialSurveyAnswer
+} from '../../../components/surveys';
+import { QuizLeaderboard } from '../../../components/polls';
+import { useAuth } from '@/app/contexts/auth';
+import {
+  getSurvey,
+  getSurveyProgress,
+  getSurveyQuizReport,
+  saveSurveyProgress,
+  submitSurvey
+} from '@/app/actions/survey-actions';
+import { getQuizFeedback } from '@/app/actions/poll-actions';
+import { validateSurveyAnswer } from '@/app/actions/poll-validation';
+import { nextQuestionId, resolveSurveyPath } from '@/lib/survey-branching';
+import type { Poll, QuizFeedback, QuizReport, Survey, SurveyAnswers } from '@/app/actions/poll-types';
+
+/**
+ * Starting answers for every question, overlaid with any saved progress
+ */
+function buildAnswers(questions: Poll[], saved: SurveyAnswers = {}): SurveyAnswers {
+  const answers: SurveyAnswers = {};
+
+  questions.forEach(question => {
+    const answer = saved[question.id] ?? initialSurveyAnswer(question);
+    if (answer) {
+      answers[question.id] = answer;
+    }
+  });
+
+  return answers;
+}
+
+export default function SurveyPage() {
+  const params = useParams();
+  const surveyId = params.id as string;
+  const { user } = useAuth();
+
+  const [survey, setSurvey] = useState<Survey | null>(null);
+  const [answers, setAnswers] = useState<SurveyAnswers>({});
+  const [currentQuestion, setCurrentQuestion] = useState(0);
+  const [completed, setCompleted] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [progressSaved, setProgressSaved] = useState(false);
+  const [showResults, setShowResults] = useState(false);
+  const [quizFeedback, setQuizFeedback] = useState<Record<string, QuizFeedback>>({});
+  const [quizReport, setQuizReport] = useState<QuizReport | null>(null);
+
+  const loadSurvey = useCallback(async () => {
+    const result = await getSurvey(surveyId);
+
+    if (!result.success || !result.data) {
+      setError(result.error || 'Failed to load survey');
+      return null;
+    }
+
+    setSurvey(result.data);
+    return result.data;
+  }, [surveyId]);
+
+  useEffect(() => {
+    async function fetchSurvey() {
+      try {
+        const loaded = await loadSurvey();
+        if (!loaded) return;
+
+        // Resume where the respondent left off
+        const progress = user ? await getSurveyProgress(surveyId) : null;
+        const saved = progress?.success ? progress.data : null;
+
+        setAnswers(buildAnswers(loaded.questions, saved?.answers));
+        setCurrentQuestion(Math.min(saved?.currentQuestion ?? 0, Math.max(loaded.questions.length - 1, 0)));
+        setCompleted(saved?.completed ?? false);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    if (surveyId) {
+      fetchSurvey();
+    }
+  }, [surveyId, user, loadSurvey]);
+
+  const quizQuestionIds = survey?.questions.filter(question => question.is_quiz).map(question => question.id).join(',') ?? '';
+  const isCreator = !!user && !!survey && user.id === survey.user_id;
+
+  // Answers are only revealed once the whole survey has been submitted
+  useEffect(() => {
+    async function loadQuizFeedback() {
+      const results = await Promise.all(quizQuestionIds.split(',').map(async pollId => {
+        const result = await getQuizFeedback(pollId);
+        return [pollId, result.success ? result.data : null] as const;
+      }));
+
+      setQuizFeedback(Object.fromEntries(
+        results.filter((entry): entry is readonly [string, QuizFeedback] => !!entry[1])
+      ));
+    }
+
+    if (completed && quizQuestionIds) {
+      loadQuizFeedback();
+    }
+  }, [completed, quizQuestionIds]);
+
+  useEffect(() => {
+    async function loadQuizReport() {
+      const result = await getSurveyQuizReport(surveyId);
+      if (result.success && result.data) {
+        setQuizReport(result.data);
+      }
+    }
+
+    if (isCreator && quizQuestionIds) {
+      loadQuizReport();
+    }
+  }, [surveyId, isCreator, quizQuestionIds, completed]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (error || !survey) {
+    return (
+      <div className="text-center py-10">
+        <h1 className="text-2xl font-bold text-destructive">
+          {error || 'Survey not found'}
+        </h1>
+      </div>
+    );
+  }
+
+  const isExpired = !!survey.expires_at && new Date(survey.expires_at) <= new Date();
+  const question = survey.questions[currentQuestion];
+  const hasBranches = survey.branches.length > 0;
+
+  // Only the questions on the respondent's path apply; skip logic decides
+  // where each answer leads, so Back retraces the path rather than the list
+  const path = resolveSurveyPath(survey.questions, survey.branches, answers);
+  const pathPosition = question ? path.indexOf(question.id) : -1;
+  const previousId = pathPosition > 0 ? path[pathPosition - 1] : null;
+  const nextId = question
+    ? nextQuestionId(survey.questions, survey.branches, question.id, answers[question.id])
+    : null;
+  const questionIndex = (questionId: string) => survey.questions.findIndex(other => other.id === questionId);
+  const isLastQuestion = nextId === null;
+  const answerErrors = question
+    ? validateSurveyAnswer({
+        pollType: question.poll_type,
+        minSelections: question.min_selections,
+        maxSelections: question.max_selections,
+        optionIds: question.options.map(option => option.id!)
+      }, answers[question.id])
+    : [];
+
+  const goToQuestion = async (index: number) => {
+    setCurrentQuestion(index);
+    setProgressSaved(false);
+
+    // Save on every move so the survey can be resumed from another session
+    const result = await saveSurveyProgress(surveyId, answers, index);
+    setProgressSaved(result.success);
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setSubmitError(null);
+
+    const result = await submitSurvey(surveyId, answers);
+
+    if (result.success) {
+      setCompleted(true);
+      await loadSurvey();
+    } else {
+      setSubmitError(result.error || 'Failed to submit survey. Please try again.');
+    }
+
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto py-8 space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">{survey.title}</h1>
+        {survey.description && (
+          <p className="text-muted-foreground">{survey.description}</p>
+        )}
+        <p className="text-sm text-muted-foreground">
+          {hasBranches ? 'Up to ' : ''}{survey.questions.length} question{survey.questions.length !== 1 ? 's' : ''}
+          {isCreator && (
+            <>
+              {' · '}
+              {survey.completions} of {survey.respondents} respondent{survey.respondents !== 1 ? 's' : ''} completed
+            </>
+          )}
+        </p>
+      </div>
+
+      {completed || isExpired || showResults ? (
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold">
+              {completed
+                ? 'Thank you for completing this survey!'
+                : isExpired ? 'This survey has closed' : 'Current Results'}
+            </h2>
+            {showResults && !completed && !isExpired && (
+              <Button variant="outline" size="sm" onClick={() => setShowResults(false)}>
+                Back to Survey
+              </Button>
+            )}
+          </div>
+          <SurveyResults
+            survey={survey}
+            isCreator={isCreator}
+            quizFeedback={completed ? quizFeedback : {}}
+          />
+          {isCreator && quizReport && (
+            <div className="space-y-3">
+              <h2 className="text-xl font-semibold">Quiz Results</h2>
+              <QuizLeaderboard
+                report={quizReport}
+                questionLabels={Object.fromEntries(
+                  survey.questions.map((other, index) => [other.id, `${index + 1}. ${other.question}`])
+                )}
+              />
+            </div>
+          )}
+        </div>
+      ) : !user ? (
+        <div className="space-y-4">
+          <div className="bg-blue-50 text-blue-700 p-4 rounded-md border border-blue-200">
+            <p className="text-sm">
+              Please <a href="/auth/login" className="underline font-medium">log in</a> to answer this survey.
+            </p>
+          </div>
+          <Button asChild className="w-full">
+            <a href="/auth/login">Log In to Answer</a>
+          </Button>
+        </div>
+      ) : question ? (
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                Question {pathPosition + 1}{hasBranches ? '' : ` of ${survey.questions.length}`}
+              </span>
+              {progressSaved && <span>Progress saved</span>}
+            </div>
+            <div className="h-2 rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${((currentQuestion + 1) / survey.questions.length) * 100}%` }}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold">{question.question}</h2>
+            <SurveyQuestionBallot
+              question={question}
+              answer={answers[question.id]}
+              onChange={(answer) => setAnswers({ ...answers, [question.id]: answer })}
+              disabled={submitting}
+            />
+          </div>
+
+          {submitError && (
+            <div className="bg-destructive/15 text-destructive text-sm p-3 rounded-md">
+              {submitError}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => previousId && goToQuestion(questionIndex(previousId))}
+              disabled={!previousId || submitting}
+              className="flex-1"
+            >
+              Back
+            </Button>
+            {isLastQuestion ? (
+              <Button
+                onClick={handleSubmit}
+                disabled={answerErrors.length > 0 || submitting}
+                className="flex-1"
+              >
+                {submitting ? 'Submitting...' : 'Submit Survey'}
+              </Button>
+            ) : (
+              <Button
+                onClick={() => nextId && goToQuestion(questionIndex(nextId))}
+                disabled={answerErrors.length > 0 || submitting}
+                className="flex-1"
+              >
+                Next
+              </Button>
+            )}
+          </div>
+
+          {isCreator && (
+            <Button variant="ghost" onClick={() => setShowResults(true)} className="w-full">
+              View Current Results
+            </Button>
+          )}
+        </div>
+      ) : (
+        <p className="text-muted-foreground">This survey has no questions.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import { Textarea } from '../../../components/ui/textarea';
+import {
+  Form,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormDescription,
+  FormMessage,
+} from '../../../components/ui/form';
+import {
+  SurveyQuestionEditor,
+  createOptionDraft,
+  type BranchTarget,
+  type SurveyQuestionDraft
+} from '../../../components/surveys';
+import { useAuth } from '@/app/contexts/auth';
+import { createSurvey } from '@/app/actions/survey-actions';
+import { validateSurveyData } from '@/app/actions/poll-validation';
+import type { SurveyData } from '@/app/actions/poll-types';
+import { InputSanitizer, SECURITY_CONFIG } from '@/lib/security';
+import { QUIZ_POLL_TYPES } from '@/lib/tabulation';
+
+interface FormErrors {
+  general: string[];
+  questions: Record<number, string[]>; // Keyed by question index
+}
+
+let nextQuestionKey = 0;
+
+function createQuestionDraft(): SurveyQuestionDraft {
+  nextQuestionKey += 1;
+  return {
+    key: `question_${nextQuestionKey}`,
+    question: '',
+    pollType: 'single',
+    options: [createOptionDraft(), createOptionDraft()],
+    minSelections: 1,
+    maxSelections: null,
+    branches: {}
+  };
+}
+
+/**
+ * Convert the editor state into survey data, sanitizing every piece of text
+ * The draft keys become the IDs branch rules refer to until the survey is saved.
+ * In a quiz, every choice question that supports it carries an answer key.
+ */
+function toSurveyData(
+  title: string,
+  description: string,
+  expiresAt: string,
+  drafts: SurveyQuestionDraft[],
+  isQuiz: boolean
+): SurveyData {
+  return {
+    title: InputSanitizer.sanitizeText(title),
+    description: InputSanitizer.sanitizeText(description) || null,
+    expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+    questions: drafts.map(draft => {
+      const isQuizQuestion = isQuiz && QUIZ_POLL_TYPES.includes(draft.pollType);
+
+      return {
+        id: draft.key,
+        question: InputSanitizer.sanitizeText(draft.question),
+        pollType: draft.pollType,
+        options: draft.options
+          .map(option => ({
+            id: option.key,
+            text: InputSanitizer.sanitizeText(option.text),
+            ...(isQuizQuestion && {
+              isCorrect: !!option.isCorrect,
+              explanation: InputSanitizer.sanitizeText(option.explanation ?? '') || undefined
+            })
+          }))
+          .filter(option => option.text),
+        minSelections: draft.minSelections,
+        maxSelections: draft.maxSelections,
+        isQuiz: isQuizQuestion
+      };
+    }),
+    branches: drafts.flatMap(draft =>
+      Object.entries(draft.branches).map(([optionKey, targetKey]) => ({
+        questionId: draft.key,
+        optionId: optionKey,
+        targetQuestionId: targetKey
+      }))
+    )
+  };
+}
+
+/**
+ * The questions a question may jump to: every later question, plus any target
+ * it already uses that moved above it, so the choice stays visible until fixed
+ */
+function getBranchTargets(drafts: SurveyQuestionDraft[], index: number): BranchTarget[] {
+  const used = Object.values(drafts[index].branches);
+
+  return drafts
+    .map((draft, position) => ({
+      key: draft.key,
+      label: draft.question.trim()
+        ? `Question ${position + 1}: ${draft.question.trim()}`
+        : `Question ${position + 1}`,
+      position
+    }))
+    .filter(target => target.position > index || used.includes(target.key))
+    .map(({ key, label }) => ({ key, label }));
+}
+
+export default function CreateSurveyPage() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [isQuiz, setIsQuiz] = useState(false);
+  const [questions, setQuestions] = useState<SurveyQuestionDraft[]>(() => [createQuestionDraft()]);
+  const [errors, setErrors] = useState<FormErrors>({ general: [], questions: {} });
+  const [saving, setSaving] = useState(false);
+
+  const maxQuestions = SECURITY_CONFIG.TEXT_LIMITS.MAX_SURVEY_QUESTIONS;
+
+  const updateQuestion = (index: number, draft: SurveyQuestionDraft) => {
+    setQuestions(questions.map((question, i) => i === index ? draft : question));
+  };
+
+  const moveQuestion = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= questions.length) return;
+
+    const reordered = [...questions];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setQuestions(reordered);
+    setErrors({ general: errors.general, questions: {} });
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!user) {
+      setErrors({ general: ['Authentication required'], questions: {} });
+      return;
+    }
+
+    const data = toSurveyData(title, description, expiresAt, questions, isQuiz);
+    const validation = validateSurveyData(data);
+
+    if (!validation.isValid) {
+      const newErrors: FormErrors = { general: [], questions: {} };
+
+      validation.errors.forEach(error => {
+        const match = error.field.match(/^questions\[(\d+)\]/);
+        if (match) {
+          const index = Number(match[1]);
+          newErrors.questions[index] = [...(newErrors.questions[index] ?? []), error.message.replace(/^Question \d+: /, '')];
+        } else {
+          newErrors.general.push(error.message);
+        }
+      });
+
+      setErrors(newErrors);
+      return;
+    }
+
+    setSaving(true);
+    setErrors({ general: [], questions: {} });
+
+    const result = await createSurvey(data);
+
+    if (result.success && result.data) {
+      router.push(`/surveys/${result.data.surveyId}`);
+      return;
+    }
+
+    setErrors({ general: [result.error || 'Failed to create survey'], questions: {} });
+    setSaving(false);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto py-8 space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">Create a New Survey</h1>
+        <p className="text-muted-foreground">
+          Ask several questions in one go. Respondents answer them in order and submit everything together;
+          skip logic can send them past questions that don&apos;t apply.
+        </p>
+      </div>
+
+      {errors.general.length > 0 && (
+        <div className="bg-destructive/15 text-destructive text-sm p-4 rounded-md space-y-1">
+          {errors.general.map(error => <p key={error}>{error}</p>)}
+        </div>
+      )}
+
+      <Form onSubmit={handleSubmit} className="space-y-6">
+        <FormItem>
+          <FormLabel htmlFor="title">Survey Title *</FormLabel>
+          <FormControl>
+            <Input
+              id="title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={SECURITY_CONFIG.TEXT_LIMITS.POLL_TITLE_MAX}
+              placeholder="Team feedback, Q3"
+            />
+          </FormControl>
+        </FormItem>
+
+        <FormItem>
+          <FormLabel htmlFor="description">Description</FormLabel>
+          <FormControl>
+            <Textarea
+              id="description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={SECURITY_CONFIG.TEXT_LIMITS.POLL_QUESTION_MAX}
+              placeholder="What is this survey about? (optional)"
+            />
+          </FormControl>
+        </FormItem>
+
+        <FormItem>
+          <FormLabel htmlFor="expiresAt">Expiration Date (Optional)</FormLabel>
+          <FormControl>
+            <Input
+              id="expiresAt"
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+            />
+          </FormControl>
+          <FormDescription>
+            Applies to every question in the survey.
+          </FormDescription>
+        </FormItem>
+
+        <FormItem>
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={isQuiz}
+              onChange={(e) => setIsQuiz(e.target.checked)}
+            />
+            Quiz mode
+          </label>
+          <FormDescription>
+            Mark the correct answers to single choice, multiple choice and approval questions.
+            Respondents see how they did once they submit, and you get a leaderboard.
+          </FormDescription>
+        </FormItem>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Questions *</h2>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setQuestions([...questions, createQuestionDraft()])}
+              disabled={questions.length >= maxQuestions}
+            >
+              Add Question ({questions.length}/{maxQuestions})
+            </Button>
+          </div>
+
+          {questions.map((question, index) => (
+            <SurveyQuestionEditor
+              key={question.key}
+              index={index}
+              draft={question}
+              onChange={(draft) => updateQuestion(index, draft)}
+              onRemove={() => {
+                // Rules jumping to the removed question would point nowhere
+                setQuestions(questions
+                  .filter((_, i) => i !== index)
+                  .map(other => ({
+                    ...other,
+                    branches: Object.fromEntries(
+                      Object.entries(other.branches).filter(([, target]) => target !== question.key)
+                    )
+                  })));
+                setErrors({ general: errors.general, questions: {} });
+              }}
+              onMove={(offset) => moveQuestion(index, offset)}
+              isFirst={index === 0}
+              isLast={index === questions.length - 1}
+              canRemove={questions.length > 1}
+              branchTargets={getBranchTargets(questions, index)}
+              isQuiz={isQuiz}
+              errors={errors.questions[index]}
+            />
+          ))}
+
+          {questions.length === 0 && (
+            <FormMessage>A survey needs at least one question</FormMessage>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-4 pt-4">
+          <Button type="button" variant="outline" onClick={() => router.back()} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={saving}>
+            {saving ? 'Creating Survey...' : 'Create Survey'}
+          </Button>
+        </div>
+      </Form>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { AVAILABILITY_ANSWERS, type Availability } from '@/lib/tabulation';
+import { formatTimeSlot } from '@/lib/time-slots';
+
+export interface TimeSlotOption {
+  id: string;
+  text: string;
+  startsAt?: string | null;
+  endsAt?: string | null;
+}
+
+interface AvailabilityBallotProps {
+  options: TimeSlotOption[];
+  availability: Record<string, Availability>; // Answer per option ID
+  onChange: (availability: Record<string, Availability>) => void;
+  disabled?: boolean;
+}
+
+export const AVAILABILITY_LABELS: Record<Availability, string> = {
+  yes: 'Yes',
+  maybe: 'If need be',
+  no: 'No',
+};
+
+const SELECTED_STYLES: Record<Availability, string> = {
+  yes: 'bg-green-100 text-green-800 border-green-300',
+  maybe: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  no: 'bg-red-100 text-red-800 border-red-300',
+};
+
+/**
+ * A time slot in the viewer's own time zone, falling back to the option text
+ */
+export function timeSlotLabel(option: TimeSlotOption): string {
+  return option.startsAt ? formatTimeSlot({ startsAt: option.startsAt, endsAt: option.endsAt }) : option.text;
+}
+
+/**
+ * Ballot for scheduling polls: every time slot is answered yes, if need be or no
+ */
+export function AvailabilityBallot({ options, availability, onChange, disabled = false }: AvailabilityBallotProps) {
+  return (
+    <div className="space-y-2">
+      {options.map(option => {
+        const label = timeSlotLabel(option);
+
+        return (
+          <div
+            key={option.id}
+            className={`flex flex-wrap items-center justify-between gap-3 p-4 border rounded-lg ${disabled ? 'opacity-50' : ''}`}
+          >
+            <span className="flex-1 font-medium">{label}</span>
+            <div role="radiogroup" aria-label={`Availability for ${label}`} className="flex gap-1">
+              {AVAILABILITY_ANSWERS.map(answer => (
+                <button
+                  key={answer}
+                  type="button"
+                  role="radio"
+                  aria-checked={availability[option.id] === answer}
+                  disabled={disabled}
+                  onClick={() => onChange({ ...availability, [option.id]: answer })}
+                  className={`rounded-md border px-3 py-1 text-sm transition-colors disabled:cursor-not-allowed ${
+                    availability[option.id] === answer ? SELECTED_STYLES[answer] : 'border-border hover:bg-muted'
+                  }`}
+                >
+                  {AVAILABILITY_LABELS[answer]}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
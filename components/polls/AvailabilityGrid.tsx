@@ -0,0 +1,64 @@
+'use client';
+
+import { AVAILABILITY_ANSWERS, findBestSlots, type AvailabilitySummary } from '@/lib/tabulation';
+import { getLocalTimeZone } from '@/lib/time-slots';
+import { AVAILABILITY_LABELS, timeSlotLabel, type TimeSlotOption } from './AvailabilityBallot';
+
+interface AvailabilityGridProps {
+  options: TimeSlotOption[];
+  availability: Record<string, AvailabilitySummary>; // Keyed by option ID
+  totalVoters: number;
+  timeZone: string | null; // Zone the slots were proposed in
+}
+
+/**
+ * Results of a scheduling poll: how many participants answered each time slot
+ * yes, if need be or no, with the best slot highlighted
+ */
+export function AvailabilityGrid({ options, availability, totalVoters, timeZone }: AvailabilityGridProps) {
+  const best = findBestSlots(availability);
+  const localTimeZone = getLocalTimeZone();
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto rounded-lg border">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50">
+            <tr>
+              <th className="p-3 text-left font-medium">Time slot</th>
+              {AVAILABILITY_ANSWERS.map(answer => (
+                <th key={answer} className="p-3 text-center font-medium">{AVAILABILITY_LABELS[answer]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {options.map(option => {
+              const summary = availability[option.id] ?? { yes: 0, maybe: 0, no: 0 };
+              const isBest = best.includes(option.id);
+
+              return (
+                <tr key={option.id} className={`border-t ${isBest ? 'bg-green-50' : ''}`}>
+                  <td className="p-3">
+                    <span className={isBest ? 'font-semibold' : ''}>{timeSlotLabel(option)}</span>
+                    {isBest && (
+                      <span className="ml-2 rounded-full bg-green-600 px-2 py-0.5 text-xs text-white">Best</span>
+                    )}
+                  </td>
+                  <td className="p-3 text-center tabular-nums text-green-700">{summary.yes}</td>
+                  <td className="p-3 text-center tabular-nums text-yellow-700">{summary.maybe}</td>
+                  <td className="p-3 text-center tabular-nums text-red-700">{summary.no}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {totalVoters} participant{totalVoters !== 1 ? 's' : ''} · Times shown in your time zone ({localTimeZone})
+        {timeZone && timeZone !== localTimeZone && `, proposed in ${timeZone}`}.
+        {best.length === 0 && ' No slot has any availability yet.'}
+      </p>
+    </div>
+  );
+}
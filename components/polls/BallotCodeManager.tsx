@@ -0,0 +1,146 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getBallotCodes, issueBallotCodes, revokeBallotCodes } from '@/app/actions/poll-actions';
+import type { BallotCode, BallotCodeStatus, BallotCodeSummary } from '@/app/actions/poll-types';
+import { MAX_BALLOT_CODES } from '@/lib/ballot-codes';
+
+interface BallotCodeManagerProps {
+  pollId: string;
+}
+
+const STATUS_LABELS: Record<BallotCodeStatus, string> = {
+  unused: 'Unused',
+  spent: 'Used',
+  revoked: 'Revoked'
+};
+
+const STATUS_STYLES: Record<BallotCodeStatus, string> = {
+  unused: 'bg-amber-100 text-amber-800',
+  spent: 'bg-green-100 text-green-800',
+  revoked: 'bg-gray-100 text-gray-600'
+};
+
+/**
+ * Creator view of a poll's single-use ballot codes: issue a batch, download
+ * them as CSV or print them as QR slips, and revoke the ones not used yet
+ */
+export function BallotCodeManager({ pollId }: BallotCodeManagerProps) {
+  const [codes, setCodes] = useState<BallotCode[]>([]);
+  const [summary, setSummary] = useState<BallotCodeSummary | null>(null);
+  const [count, setCount] = useState('20');
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCodes = useCallback(async () => {
+    const result = await getBallotCodes(pollId);
+
+    if (result.success && result.data) {
+      setCodes(result.data.codes);
+      setSummary(result.data.summary);
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to load ballot codes');
+    }
+  }, [pollId]);
+
+  useEffect(() => {
+    loadCodes();
+  }, [loadCodes]);
+
+  const handleIssue = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    setIsIssuing(true);
+    const result = await issueBallotCodes(pollId, Number(count));
+
+    if (result.success) {
+      await loadCodes();
+    } else {
+      setError(result.error || 'Failed to issue ballot codes');
+    }
+    setIsIssuing(false);
+  };
+
+  const handleRevoke = async (codeIds: string[]) => {
+    const result = await revokeBallotCodes(pollId, codeIds);
+
+    if (result.success) {
+      await loadCodes();
+    } else {
+      setError(result.error || 'Failed to revoke ballot codes');
+    }
+  };
+
+  const unusedIds = codes.filter(code => code.status === 'unused').map(code => code.id);
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-card/50 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-foreground">Ballot codes</h3>
+        {summary && summary.issued > 0 && (
+          <span className="text-sm text-muted-foreground">
+            {summary.spent} of {summary.issued - summary.revoked} code{summary.issued - summary.revoked !== 1 ? 's' : ''} used
+          </span>
+        )}
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Each code casts one vote without an account. Print them on slips or export them for a mail merge.
+      </p>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <form onSubmit={handleIssue} className="flex items-center gap-2">
+        <Input
+          type="number"
+          min={1}
+          max={MAX_BALLOT_CODES}
+          value={count}
+          onChange={event => setCount(event.target.value)}
+          aria-label="Number of ballot codes"
+          className="w-24"
+        />
+        <Button type="submit" variant="outline" size="sm" disabled={isIssuing || !count}>
+          {isIssuing ? 'Issuing...' : 'Issue codes'}
+        </Button>
+      </form>
+
+      {codes.length > 0 && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <Button asChild variant="outline" size="sm">
+              <a href={`/api/polls/${pollId}/ballot-codes`} download>Download CSV</a>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <a href={`/polls/${pollId}/ballot-codes`} target="_blank" rel="noopener noreferrer">Print QR slips</a>
+            </Button>
+            {unusedIds.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => handleRevoke(unusedIds)}>
+                Revoke all unused
+              </Button>
+            )}
+          </div>
+
+          <ul className="max-h-64 overflow-y-auto divide-y rounded-md border">
+            {codes.map(code => (
+              <li key={code.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                <span className="flex-1 font-mono text-foreground">{code.code}</span>
+                <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[code.status]}`}>
+                  {STATUS_LABELS[code.status]}
+                </span>
+                {code.status === 'unused' && (
+                  <Button variant="ghost" size="sm" onClick={() => handleRevoke([code.id])}>
+                    Revoke
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
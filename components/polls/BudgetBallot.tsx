@@ -0,0 +1,75 @@
+'use client';
+
+import { Minus, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { pointsLeft } from '@/lib/points-budget';
+
+interface BudgetBallotOption {
+  id: string;
+  text: string;
+}
+
+interface BudgetBallotProps {
+  options: BudgetBallotOption[];
+  budget: number; // Points the voter can give out
+  points: Record<string, number>; // Points per option ID
+  onChange: (points: Record<string, number>) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Ballot for budget polls: the voter spreads up to `budget` points across the
+ * options, one point at a time
+ */
+export function BudgetBallot({ options, budget, points, onChange, disabled = false }: BudgetBallotProps) {
+  const left = pointsLeft(points, budget);
+
+  const setPoints = (optionId: string, given: number) => {
+    onChange({ ...points, [optionId]: Math.max(0, given) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground" aria-live="polite">
+        {left} of {budget} point{budget !== 1 ? 's' : ''} left
+      </p>
+      {options.map(option => {
+        const given = points[option.id] ?? 0;
+
+        return (
+          <div
+            key={option.id}
+            className={`flex items-center justify-between gap-4 p-4 border rounded-lg ${disabled ? 'opacity-50' : ''}`}
+          >
+            <span className="flex-1">{option.text}</span>
+            <div role="group" aria-label={`Points for ${option.text}`} className="flex items-center gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                className="h-8 w-8"
+                aria-label={`Take a point from ${option.text}`}
+                disabled={disabled || given === 0}
+                onClick={() => setPoints(option.id, given - 1)}
+              >
+                <Minus className="h-4 w-4" />
+              </Button>
+              <span className="w-6 text-center font-medium tabular-nums">{given}</span>
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                className="h-8 w-8"
+                aria-label={`Give a point to ${option.text}`}
+                disabled={disabled || left <= 0}
+                onClick={() => setPoints(option.id, given + 1)}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import Image from 'next/image';
+
+interface ChoiceBallotOption {
+  id: string;
+  text: string;
+  imageUrl?: string | null;
+}
+
+interface ChoiceBallotProps {
+  options: ChoiceBallotOption[];
+  selected: string[];
+  onToggle: (optionId: string) => void;
+  multiSelect?: boolean; // Checkboxes instead of radio buttons
+  disabled?: boolean;
+}
+
+/**
+ * Ballot for single-choice, multi-select and approval polls
+ * Selection rules such as limits are left to the caller's onToggle.
+ * When any option has an image the options are laid out as an image grid.
+ */
+export function ChoiceBallot({ options, selected, onToggle, multiSelect = false, disabled = false }: ChoiceBallotProps) {
+  const showImages = options.some(option => option.imageUrl);
+
+  return (
+    <div className={showImages ? 'grid grid-cols-2 gap-3 sm:grid-cols-3' : 'space-y-2'}>
+      {options.map((option) => {
+        const isSelected = selected.includes(option.id);
+        return (
+          <div
+            key={option.id}
+            role={multiSelect ? 'checkbox' : 'radio'}
+            aria-checked={isSelected}
+            className={`${showImages ? 'overflow-hidden' : 'p-4'} border rounded-lg cursor-pointer transition-colors ${isSelected ? 'border-primary bg-primary/5' : 'hover:bg-accent'} ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+            onClick={() => !disabled && onToggle(option.id)}
+          >
+            {showImages && (
+              <div className="relative aspect-square bg-muted">
+                {option.imageUrl && (
+                  <Image
+                    src={option.imageUrl}
+                    alt={option.text}
+                    fill
+                    sizes="(min-width: 640px) 33vw, 50vw"
+                    className="object-cover"
+                  />
+                )}
+              </div>
+            )}
+            <div className={`flex items-center gap-2 ${showImages ? 'p-3' : ''}`}>
+              <div className={`w-4 h-4 shrink-0 border ${multiSelect ? 'rounded-sm' : 'rounded-full'} ${isSelected ? 'border-4 border-primary' : 'border-muted-foreground'}`}></div>
+              <span>{option.text}</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Tooltip } from '@/components/ui/tooltip';
+import { closePoll, reopenPoll } from '@/app/actions/poll-actions';
+import { Lock, LockOpen } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+
+interface ClosePollButtonProps {
+  pollId: string;
+  isClosed: boolean; // Closed before its expiry; the button reopens it
+}
+
+export function ClosePollButton({ pollId, isClosed }: ClosePollButtonProps) {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const router = useRouter();
+
+  const handleClick = async () => {
+    if (!isClosed && !confirm('Close this poll now? It will stop accepting votes until you reopen it.')) {
+      return;
+    }
+
+    setIsUpdating(true);
+    try {
+      const result = isClosed ? await reopenPoll(pollId) : await closePoll(pollId);
+
+      if (result.success) {
+        // Refresh the page to move the poll to its new section
+        router.refresh();
+      } else {
+        alert(result.error || `Failed to ${isClosed ? 'reopen' : 'close'} poll`);
+      }
+    } catch (error) {
+      console.error(`Error ${isClosed ? 'reopening' : 'closing'} poll:`, error);
+      alert(`Failed to ${isClosed ? 'reopen' : 'close'} poll. Please try again.`);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <Tooltip content={isClosed ? 'Reopen poll' : 'Close poll'}>
+      <Button
+        onClick={handleClick}
+        size="sm"
+        variant="outline"
+        disabled={isUpdating}
+        className={`
+          ${isClosed
+            ? 'border-red-300 text-red-700 hover:bg-red-100 hover:border-red-400'
+            : 'border-amber-300 text-amber-700 hover:bg-amber-50 hover:border-amber-400'
+          }
+          ${isUpdating ? 'opacity-50 cursor-not-allowed' : ''}
+        `}
+      >
+        {isClosed ? <LockOpen className="h-4 w-4" /> : <Lock className="h-4 w-4" />}
+        {isUpdating ? '...' : ''}
+      </Button>
+    </Tooltip>
+  );
+}
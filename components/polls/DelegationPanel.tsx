@@ -0,0 +1,132 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { delegateVote, getDelegation, revokeDelegation } from '@/app/actions/poll-actions';
+import type { Delegation } from '@/app/actions/poll-types';
+
+interface DelegationPanelProps {
+  pollId: string;
+  tags: string[];
+  hasVoted: boolean;
+}
+
+/**
+ * Voter view of their delegation on a poll: who they delegated to, taking it
+ * back, or delegating their vote for this poll or one of its tags
+ */
+export function DelegationPanel({ pollId, tags, hasVoted }: DelegationPanelProps) {
+  const [delegation, setDelegation] = useState<Delegation | null>(null);
+  const [locked, setLocked] = useState(false);
+  const [delegate, setDelegate] = useState('');
+  const [scope, setScope] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDelegation = useCallback(async () => {
+    const result = await getDelegation(pollId);
+
+    if (result.success && result.data) {
+      setDelegation(result.data.delegation);
+      setLocked(result.data.locked);
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to load your delegation');
+    }
+  }, [pollId]);
+
+  useEffect(() => {
+    loadDelegation();
+  }, [loadDelegation]);
+
+  const handleDelegate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!delegate.trim()) return;
+
+    setIsSaving(true);
+    const result = await delegateVote(pollId, delegate.trim(), scope || null);
+
+    if (result.success) {
+      setDelegate('');
+      await loadDelegation();
+    } else {
+      setError(result.error || 'Failed to delegate your vote');
+    }
+    setIsSaving(false);
+  };
+
+  const handleRevoke = async () => {
+    if (!delegation) return;
+
+    setIsSaving(true);
+    const result = await revokeDelegation(pollId, delegation.id);
+
+    if (result.success) {
+      await loadDelegation();
+    } else {
+      setError(result.error || 'Failed to take back your delegation');
+    }
+    setIsSaving(false);
+  };
+
+  const delegateName = delegation ? delegation.delegate_email ?? delegation.delegate_id : null;
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-card/50 p-4 space-y-4">
+      <h3 className="font-semibold text-foreground">Delegation</h3>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {delegation ? (
+        <div className="space-y-2">
+          <p className="text-sm text-foreground">
+            You delegated your vote to <span className="font-medium">{delegateName}</span>
+            {delegation.tag ? ` for every poll tagged #${delegation.tag}.` : ' for this poll.'}
+          </p>
+          {hasVoted && (
+            <p className="text-sm text-muted-foreground">
+              You voted yourself, so your own vote counts instead.
+            </p>
+          )}
+          {!locked && (
+            <Button variant="outline" size="sm" onClick={handleRevoke} disabled={isSaving}>
+              {isSaving ? 'Taking back...' : 'Take back delegation'}
+            </Button>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {locked
+            ? "You didn't delegate your vote on this poll."
+            : 'Hand your vote to someone you trust. If they delegated too, your vote follows theirs; voting yourself overrides the delegation.'}
+        </p>
+      )}
+
+      {!locked && (
+        <form onSubmit={handleDelegate} className="flex flex-col gap-2 sm:flex-row">
+          <Input
+            value={delegate}
+            onChange={event => setDelegate(event.target.value)}
+            placeholder="Delegate's email address or user ID"
+            aria-label="Delegate"
+          />
+          <select
+            value={scope}
+            onChange={event => setScope(event.target.value)}
+            aria-label="Delegate for"
+            className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+          >
+            <option value="">This poll</option>
+            {tags.map(tag => (
+              <option key={tag} value={tag}>Every poll tagged #{tag}</option>
+            ))}
+          </select>
+          <Button type="submit" size="sm" disabled={isSaving || !delegate.trim()}>
+            Delegate
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
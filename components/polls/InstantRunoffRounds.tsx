@@ -0,0 +1,95 @@
+'use client';
+
+import { EXHAUSTED, type InstantRunoffResult } from '@/lib/tabulation';
+
+interface InstantRunoffRoundsProps {
+  result: InstantRunoffResult;
+  options: { id: string; option_text: string }[];
+}
+
+/**
+ * Round-by-round breakdown of an instant-runoff count, showing each round's
+ * tallies and where the eliminated option's ballots were transferred
+ */
+export function InstantRunoffRounds({ result, options }: InstantRunoffRoundsProps) {
+  const optionText = new Map(options.map(option => [option.id, option.option_text]));
+  const nameOf = (optionId: string) => optionText.get(optionId) ?? 'Unknown option';
+
+  if (result.totalBallots === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-foreground">Instant-Runoff Rounds</h4>
+        <span className="text-xs text-muted-foreground">
+          {result.rounds.length} round{result.rounds.length !== 1 ? 's' : ''}
+        </span>
+      </div>
+
+      {result.rounds.map(round => {
+        const activeBallots = result.totalBallots - round.exhausted;
+        const standings = Object.entries(round.tallies).sort(([, a], [, b]) => b - a);
+        const transfers = Object.entries(round.transfers).sort(([, a], [, b]) => b - a);
+
+        return (
+          <div key={round.round} className="rounded-lg border border-border/50 bg-card/50 p-4 space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-foreground">Round {round.round}</span>
+              {round.exhausted > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  {round.exhausted} exhausted ballot{round.exhausted !== 1 ? 's' : ''}
+                </span>
+              )}
+            </div>
+
+            {standings.map(([optionId, votes]) => {
+              const percentage = activeBallots > 0 ? Math.round((votes / activeBallots) * 100) : 0;
+              const isEliminated = optionId === round.eliminated;
+
+              return (
+                <div key={optionId} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className={isEliminated ? 'text-destructive line-through' : 'text-foreground'}>
+                      {nameOf(optionId)}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {votes} ({percentage}%)
+                    </span>
+                  </div>
+                  <div className="h-2 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className={`h-full rounded-full transition-all duration-500 ease-out ${isEliminated ? 'bg-destructive/60' : 'bg-primary'}`}
+                      style={{ width: `${percentage}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+
+            {round.eliminated && (
+              <p className="text-xs text-muted-foreground pt-1">
+                {nameOf(round.eliminated)} eliminated
+                {transfers.length > 0 && ': '}
+                {transfers
+                  .map(([target, count]) =>
+                    target === EXHAUSTED
+                      ? `${count} exhausted`
+                      : `${count} to ${nameOf(target)}`
+                  )
+                  .join(', ')}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      <p className="text-sm font-medium text-foreground">
+        {result.winner
+          ? `${nameOf(result.winner)} wins with a majority in round ${result.rounds.length}`
+          : `Tied between ${result.tied.map(nameOf).join(', ')}`}
+      </p>
+    </div>
+  );
+}
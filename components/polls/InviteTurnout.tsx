@@ -0,0 +1,125 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { getPollInvites, invitePollVoters, revokePollInvite } from '@/app/actions/poll-actions';
+import type { InviteStatus, PollInvite, Turnout } from '@/app/actions/poll-types';
+
+interface InviteTurnoutProps {
+  pollId: string;
+}
+
+const STATUS_LABELS: Record<InviteStatus, string> = {
+  pending: 'Not voted yet',
+  voted: 'Voted',
+  revoked: 'Revoked'
+};
+
+const STATUS_STYLES: Record<InviteStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  voted: 'bg-green-100 text-green-800',
+  revoked: 'bg-gray-100 text-gray-600'
+};
+
+/**
+ * Creator view of an invite-only poll: who has voted and who hasn't, without
+ * their choices, and a form to invite more people or revoke unused invites
+ */
+export function InviteTurnout({ pollId }: InviteTurnoutProps) {
+  const [invites, setInvites] = useState<PollInvite[]>([]);
+  const [turnout, setTurnout] = useState<Turnout | null>(null);
+  const [invitees, setInvitees] = useState('');
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInvites = useCallback(async () => {
+    const result = await getPollInvites(pollId);
+
+    if (result.success && result.data) {
+      setInvites(result.data.invites);
+      setTurnout(result.data.turnout);
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to load invites');
+    }
+  }, [pollId]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!invitees.trim()) return;
+
+    setIsInviting(true);
+    const result = await invitePollVoters(pollId, invitees.split(/[\s,;]+/));
+
+    if (result.success) {
+      setInvitees('');
+      await loadInvites();
+    } else {
+      setError(result.error || 'Failed to invite voters');
+    }
+    setIsInviting(false);
+  };
+
+  const handleRevoke = async (inviteId: string) => {
+    const result = await revokePollInvite(pollId, inviteId);
+
+    if (result.success) {
+      await loadInvites();
+    } else {
+      setError(result.error || 'Failed to revoke invite');
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-card/50 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-foreground">Invitations</h3>
+        {turnout && (
+          <span className="text-sm text-muted-foreground">
+            {turnout.voted} of {turnout.invited} invitee{turnout.invited !== 1 ? 's' : ''} voted
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {invites.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No one has been invited yet.</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {invites.map(invite => (
+            <li key={invite.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+              <span className="flex-1 truncate text-foreground">{invite.email ?? invite.user_id}</span>
+              <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[invite.status]}`}>
+                {STATUS_LABELS[invite.status]}
+              </span>
+              {invite.status === 'pending' && (
+                <Button variant="ghost" size="sm" onClick={() => handleRevoke(invite.id)}>
+                  Revoke
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleInvite} className="space-y-2">
+        <Textarea
+          value={invitees}
+          onChange={event => setInvitees(event.target.value)}
+          placeholder="Email addresses or user IDs, separated by commas or new lines"
+          aria-label="Invite more voters"
+          rows={2}
+        />
+        <Button type="submit" variant="outline" size="sm" disabled={isInviting || !invitees.trim()}>
+          {isInviting ? 'Inviting...' : 'Invite'}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import type { LiveStatus } from '@/lib/live-results';
+
+interface LiveIndicatorProps {
+  status: LiveStatus;
+}
+
+/**
+ * Shows whether the results on screen are following new votes, or are
+ * waiting for the connection to come back
+ */
+export function LiveIndicator({ status }: LiveIndicatorProps) {
+  if (status === 'off') return null;
+
+  const isLive = status === 'live';
+
+  return (
+    <span
+      role="status"
+      className={`inline-flex items-center gap-2 text-xs font-medium ${isLive ? 'text-green-700' : 'text-muted-foreground'}`}
+    >
+      <span className="relative flex h-2 w-2">
+        {isLive && <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-green-500 opacity-75" />}
+        <span className={`relative inline-flex h-2 w-2 rounded-full ${isLive ? 'bg-green-500' : 'bg-amber-500'}`} />
+      </span>
+      {isLive ? 'Live' : status === 'connecting' ? 'Connecting...' : 'Reconnecting...'}
+    </span>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import Image from 'next/image';
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+
+interface OptionImageInputProps {
+  previewUrl: string | null;
+  onSelect: (file: File) => void; // The caller checks the file before accepting it
+  onRemove: () => void;
+  label: string; // Accessible name of the option the image belongs to
+  error?: string;
+}
+
+/**
+ * Image picker for a single poll option, with a thumbnail once an image is chosen
+ */
+export function OptionImageInput({ previewUrl, onSelect, onRemove, label, error }: OptionImageInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="flex items-center gap-2">
+        {previewUrl && (
+          // A blob: URL of the picked file, which the image optimizer can't fetch
+          <Image src={previewUrl} alt="" width={48} height={48} unoptimized className="h-12 w-12 rounded object-cover" />
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/gif,image/webp"
+          className="hidden"
+          aria-label={`Image for ${label}`}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onSelect(file);
+            e.target.value = ''; // Allow picking the same file again after removing it
+          }}
+        />
+        <Button type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+          {previewUrl ? 'Change image' : 'Add image'}
+        </Button>
+        {previewUrl && (
+          <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+            Remove image
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
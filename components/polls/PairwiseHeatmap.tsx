@@ -0,0 +1,119 @@
+'use client';
+
+import { AlertCircle } from 'lucide-react';
+import type { SchulzeResult } from '@/lib/tabulation';
+
+interface PairwiseHeatmapProps {
+  result: SchulzeResult;
+  options: { id: string; option_text: string }[];
+}
+
+/**
+ * Pairwise preference matrix of a Schulze count
+ * Each cell shows how many ballots rank the row option above the column option,
+ * shaded green for a head-to-head win and red for a loss.
+ */
+export function PairwiseHeatmap({ result, options }: PairwiseHeatmapProps) {
+  const optionText = new Map(options.map(option => [option.id, option.option_text]));
+  const nameOf = (optionId: string) => optionText.get(optionId) ?? 'Unknown option';
+  const shortName = (optionId: string) => {
+    const name = nameOf(optionId);
+    return name.length > 12 ? `${name.substring(0, 10)}...` : name;
+  };
+
+  const cellStyle = (row: string, column: string) => {
+    const margin = result.pairwise[row][column] - result.pairwise[column][row];
+    if (margin === 0 || result.totalBallots === 0) return undefined;
+
+    // Stronger shading for wider margins, never fully opaque so the count stays legible
+    const strength = 0.15 + 0.55 * (Math.abs(margin) / result.totalBallots);
+    const hue = margin > 0 ? 142 : 0;
+    return { backgroundColor: `hsla(${hue}, 71%, 45%, ${strength.toFixed(2)})` };
+  };
+
+  if (result.totalBallots === 0) {
+    return null;
+  }
+
+  const optionIds = options.map(option => option.id).filter(id => id in result.pairwise);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-foreground">Head-to-Head Matrix</h4>
+        <span className="text-xs text-muted-foreground">Row preferred over column</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr>
+              <th className="p-2" />
+              {optionIds.map(column => (
+                <th
+                  key={column}
+                  scope="col"
+                  title={nameOf(column)}
+                  className="p-2 text-xs font-medium text-muted-foreground text-center"
+                >
+                  {shortName(column)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {optionIds.map(row => (
+              <tr key={row}>
+                <th
+                  scope="row"
+                  title={nameOf(row)}
+                  className="p-2 text-xs font-medium text-foreground text-left whitespace-nowrap"
+                >
+                  {shortName(row)}
+                </th>
+                {optionIds.map(column => (
+                  row === column ? (
+                    <td key={column} className="p-2 border border-border/50 bg-muted/50 text-center text-muted-foreground">
+                      –
+                    </td>
+                  ) : (
+                    <td
+                      key={column}
+                      className="p-2 border border-border/50 text-center font-medium text-foreground transition-colors duration-300"
+                      style={cellStyle(row, column)}
+                      title={`${result.pairwise[row][column]} of ${result.totalBallots} ballots prefer ${nameOf(row)} over ${nameOf(column)}`}
+                    >
+                      {result.pairwise[row][column]}
+                    </td>
+                  )
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-1 text-sm">
+        <p className="text-foreground">
+          <span className="font-medium">Schulze ranking: </span>
+          {result.ranking
+            .map((tier, index) => `${index + 1}. ${tier.map(nameOf).join(' = ')}`)
+            .join('  ')}
+        </p>
+        {result.condorcetWinner ? (
+          <p className="text-muted-foreground">
+            {nameOf(result.condorcetWinner)} beats every other option head-to-head.
+          </p>
+        ) : result.cycle.length > 0 && (
+          <p className="flex items-start gap-2 text-amber-700">
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>
+              Majority cycle between {result.cycle.map(nameOf).join(', ')}: no option beats every other
+              head-to-head, so the order follows the strongest beatpaths.
+            </span>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,29 @@
 'use client';
 
+import Image from 'next/image';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
-import { AlertCircle, TrendingUp } from 'lucide-react';
-import { useMemo } from 'react';
+import { Button } from '../ui/button';
+import { AlertCircle, EyeOff, Star, TrendingUp } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { InstantRunoffRounds } from './InstantRunoffRounds';
+import { PairwiseHeatmap } from './PairwiseHeatmap';
+import { MAX_SCORE, type InstantRunoffResult, type SchulzeResult, type ScoreSummary } from '@/lib/tabulation';
 
 interface PollOption {
   id: string;
   option_text: string;
   votes: number;
+  image_url?: string | null; // Shown as a thumbnail beside the option's bar
 }
 
 interface PollResults {
   question: string;
   options: PollOption[];
   totalVotes: number;
+  // Number of ballots cast. Set for multi-select polls, where one voter
+  // can pick several options and totalVotes counts selections instead.
+  totalVoters?: number;
 }
 
 interface PollResultChartProps {
@@ -22,8 +31,24 @@ interface PollResultChartProps {
   className?: string;
   isLoading?: boolean;
   showDetailedView?: boolean;
+  // Set for ranked-choice polls; option votes are then first preferences
+  instantRunoff?: InstantRunoffResult;
+  // Set for ranked-choice polls to show the head-to-head matrix beside the chart
+  schulze?: SchulzeResult;
+  // Set for score polls, keyed by option ID; bars then show the average rating
+  scores?: Record<string, ScoreSummary>;
+  // Set while the viewer may not see the results yet; shown in place of the chart
+  hiddenMessage?: string;
+  // Set for weighted polls, keyed by option ID; option votes are then weighted
+  // totals, and a toggle switches the chart to these voter counts
+  headcounts?: Record<string, number>;
+  // Set for budget polls, keyed by option ID; option votes are then total
+  // points, and these are the voters who gave each option any
+  backers?: Record<string, number>;
 }
 
+type WeightedCount = 'weight' | 'headcount';
+
 // Enhanced color palette with better accessibility
 const COLORS = [
   'hsl(221, 83%, 53%)',  // Blue
@@ -69,6 +94,11 @@ const validatePollResults = (pollResults?: PollResults): { isValid: boolean; err
     errors.push('Total votes must be a non-negative number');
   }
 
+  if (pollResults.totalVoters !== undefined &&
+      (typeof pollResults.totalVoters !== 'number' || pollResults.totalVoters < 0)) {
+    errors.push('Total voters must be a non-negative number');
+  }
+
   return { isValid: errors.length === 0, errors };
 };
 
@@ -76,30 +106,68 @@ export default function PollResultChart({
   pollResults, 
   className = '',
   isLoading = false,
-  showDetailedView = true
+  showDetailedView = true,
+  instantRunoff,
+  schulze,
+  scores,
+  hiddenMessage,
+  headcounts,
+  backers
 }: PollResultChartProps) {
+  const [countBy, setCountBy] = useState<WeightedCount>('weight');
+  const isWeighted = headcounts !== undefined;
+  const showsWeight = isWeighted && countBy === 'weight';
+
+  // On weighted polls the headcount view swaps each option's weighted total for its voters
+  const results = useMemo(() => {
+    if (!pollResults || !headcounts || countBy === 'weight') return pollResults;
+
+    const options = pollResults.options.map(option => ({ ...option, votes: headcounts[option.id] ?? 0 }));
+    return { ...pollResults, options, totalVotes: options.reduce((total, option) => total + option.votes, 0) };
+  }, [pollResults, headcounts, countBy]);
+
   // Validation
-  const { isValid, errors } = validatePollResults(pollResults);
+  const { isValid, errors } = validatePollResults(results);
+  const isScorePoll = scores !== undefined;
+  const isBudgetPoll = backers !== undefined;
+  const isMultiSelect = !isScorePoll && !isBudgetPoll && results?.totalVoters !== undefined;
+  const voteLabel = (votes: number) => isBudgetPoll
+    ? `${votes} point${votes !== 1 ? 's' : ''}`
+    : `${votes} ${showsWeight ? 'weighted ' : ''}vote${votes !== 1 ? 's' : ''}`;
+  const backedByLabel = (voters: number) => `backed by ${voters} voter${voters !== 1 ? 's' : ''}`;
 
   // Memoized chart data with enhanced calculations
   const chartData = useMemo(() => {
-    if (!pollResults || !isValid) return [];
+    if (!results || !isValid) return [];
     
-    return pollResults.options
+    return results.options
       .map((option, index) => ({
         name: option.option_text.length > 20 
           ? `${option.option_text.substring(0, 17)}...` 
           : option.option_text,
         fullName: option.option_text,
         votes: option.votes,
-        percentage: pollResults.totalVotes > 0 
-          ? Math.round((option.votes / pollResults.totalVotes) * 100) 
+        percentage: results.totalVotes > 0 
+          ? Math.round((option.votes / results.totalVotes) * 100) 
+          : 0,
+        // Share of ballots that include this option (multi-select polls only)
+        voterPercentage: results.totalVoters 
+          ? Math.round((option.votes / results.totalVoters) * 100) 
           : 0,
+        // Rating aggregates (score polls only)
+        average: Math.round((scores?.[option.id]?.mean ?? 0) * 10) / 10,
+        median: scores?.[option.id]?.median ?? 0,
+        distribution: scores?.[option.id]?.distribution ?? [],
+        ratings: scores?.[option.id]?.ratings ?? 0,
+        // Voters who gave the option points (budget polls only)
+        backers: backers?.[option.id] ?? 0,
         color: COLORS[index % COLORS.length],
         id: option.id,
+        imageUrl: option.image_url ?? null,
       }))
-      .sort((a, b) => b.votes - a.votes); // Sort by votes descending
-  }, [pollResults, isValid]);
+      // Sort by average rating on score polls, otherwise by votes descending
+      .sort((a, b) => scores ? b.average - a.average : b.votes - a.votes);
+  }, [results, isValid, scores, backers]);
 
   // Loading state
   if (isLoading) {
@@ -116,6 +184,23 @@ export default function PollResultChart({
     );
   }
 
+  // Results held back by the poll's results visibility setting
+  if (hiddenMessage) {
+    return (
+      <Card className={className}>
+        <CardHeader>
+          <CardTitle className="text-lg">{pollResults?.question}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            <EyeOff className="h-4 w-4" />
+            {hiddenMessage}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
   // Error state
   if (!isValid) {
     return (
@@ -144,6 +229,11 @@ export default function PollResultChart({
       payload: {
         votes: number;
         percentage: number;
+        voterPercentage: number;
+        backers: number;
+        average: number;
+        median: number;
+        ratings: number;
         fullName: string;
         name: string;
       };
@@ -155,113 +245,187 @@ export default function PollResultChart({
       return (
         <div className="bg-background/95 backdrop-blur-sm border border-border rounded-lg p-3 shadow-xl transition-all duration-200">
           <p className="font-semibold text-foreground mb-1">{data.fullName}</p>
-          <div className="space-y-1">
-            <p className="text-sm text-muted-foreground flex items-center gap-2">
-              <TrendingUp className="h-3 w-3" />
-              {data.votes} vote{data.votes !== 1 ? 's' : ''} ({data.percentage}%)
-            </p>
-          </div>
+          {isScorePoll ? (
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <Star className="h-3 w-3" />
+                {data.average} average · median {data.median}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {data.ratings} rating{data.ratings !== 1 ? 's' : ''}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <TrendingUp className="h-3 w-3" />
+                {voteLabel(data.votes)} ({data.percentage}%{isMultiSelect ? ' of selections' : ''})
+              </p>
+              {isMultiSelect && (
+                <p className="text-sm text-muted-foreground">
+                  Chosen by {data.voterPercentage}% of voters
+                </p>
+              )}
+              {isBudgetPoll && (
+                <p className="text-sm text-muted-foreground">
+                  {backedByLabel(data.backers)}
+                </p>
+              )}
+            </div>
+          )}
         </div>
       );
     }
     return null;
   };
 
+  // Width of an option's background bar: vote share, or average rating on score polls
+  const barPercentage = (option: { percentage: number; average: number }) =>
+    isScorePoll ? Math.round((option.average / MAX_SCORE) * 100) : option.percentage;
+
+  // Score polls can have ballots that awarded no stars at all
+  const hasVotes = isScorePoll ? (results!.totalVoters ?? 0) > 0 : results!.totalVotes > 0;
+
   // Calculate winner for enhanced display
   const winner = chartData.length > 0 ? chartData[0] : null;
+  // On ranked polls the runoff decides the winner, not the first-preference leader
+  const runoffWinner = instantRunoff?.winner
+    ? chartData.find(option => option.id === instantRunoff.winner) ?? null
+    : null;
 
   return (
     <Card className={`transition-all duration-300 hover:shadow-lg ${className}`}>
       <CardHeader className="pb-4">
         <CardTitle className="text-lg font-semibold leading-tight">
-          {pollResults!.question}
+          {results!.question}
         </CardTitle>
         <div className="flex items-center justify-between text-sm text-muted-foreground">
-          <span>Total votes: {pollResults!.totalVotes}</span>
-          {winner && pollResults!.totalVotes > 0 && (
+          <span>
+            {isScorePoll
+              ? `${results!.totalVoters ?? 0} voter${results!.totalVoters !== 1 ? 's' : ''}`
+              : `Total ${isBudgetPoll ? 'points' : showsWeight ? 'weighted votes' : 'votes'}: ${results!.totalVotes}`}
+            {(isMultiSelect || isBudgetPoll) && ` · ${results!.totalVoters} voter${results!.totalVoters !== 1 ? 's' : ''}`}
+          </span>
+          {runoffWinner ? (
+            <span className="flex items-center gap-1 font-medium text-primary">
+              <TrendingUp className="h-3 w-3" />
+              Runoff winner: {runoffWinner.fullName}
+            </span>
+          ) : winner && hasVotes && (
             <span className="flex items-center gap-1 font-medium text-primary">
               <TrendingUp className="h-3 w-3" />
               Leading: {winner.fullName}
             </span>
           )}
         </div>
+        {isWeighted && (
+          <div className="flex gap-1" role="group" aria-label="Count results by">
+            <Button
+              variant={countBy === 'weight' ? 'secondary' : 'ghost'}
+              size="sm"
+              aria-pressed={countBy === 'weight'}
+              onClick={() => setCountBy('weight')}
+            >
+              Weighted
+            </Button>
+            <Button
+              variant={countBy === 'headcount' ? 'secondary' : 'ghost'}
+              size="sm"
+              aria-pressed={countBy === 'headcount'}
+              onClick={() => setCountBy('headcount')}
+            >
+              Headcount
+            </Button>
+          </div>
+        )}
       </CardHeader>
       <CardContent className="space-y-6">
-        {pollResults!.totalVotes > 0 ? (
+        {hasVotes ? (
           <>
-            {/* Enhanced Chart */}
-            <div className="w-full h-80 transition-all duration-300">
-              <ResponsiveContainer width="100%" height="100%">
-                <BarChart
-                  data={chartData}
-                  margin={{
-                    top: 20,
-                    right: 30,
-                    left: 20,
-                    bottom: 60,
-                  }}
-                >
-                  <defs>
-                    {chartData.map((entry, index) => (
-                      <linearGradient key={entry.id} id={`gradient-${index}`} x1="0" y1="0" x2="0" y2="1">
-                        <stop offset="0%" stopColor={entry.color} stopOpacity={0.9} />
-                        <stop offset="100%" stopColor={entry.color} stopOpacity={0.6} />
-                      </linearGradient>
-                    ))}
-                  </defs>
-                  <CartesianGrid 
-                    strokeDasharray="3 3" 
-                    stroke="hsl(var(--muted))" 
-                    opacity={0.5}
-                  />
-                  <XAxis 
-                    dataKey="name" 
-                    angle={-45}
-                    textAnchor="end"
-                    height={80}
-                    tick={{ 
-                      fontSize: 12,
-                      fill: 'hsl(var(--muted-foreground))'
-                    }}
-                    stroke="hsl(var(--border))"
-                  />
-                  <YAxis 
-                    tick={{ 
-                      fontSize: 12,
-                      fill: 'hsl(var(--muted-foreground))'
+            <div className={schulze ? 'grid gap-6 lg:grid-cols-2 items-start' : undefined}>
+              {/* Enhanced Chart */}
+              <div className="w-full h-80 transition-all duration-300">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={chartData}
+                    margin={{
+                      top: 20,
+                      right: 30,
+                      left: 20,
+                      bottom: 60,
                     }}
-                    stroke="hsl(var(--border))"
-                    label={{ 
-                      value: 'Votes', 
-                      angle: -90, 
-                      position: 'insideLeft',
-                      style: { textAnchor: 'middle', fill: 'hsl(var(--muted-foreground))' }
-                    }}
-                  />
-                  <Tooltip content={<CustomTooltip />} />
-                  <Bar 
-                    dataKey="votes" 
-                    radius={[6, 6, 0, 0]}
-                    fill="hsl(var(--primary))"
-                    className="transition-all duration-300 hover:opacity-80"
                   >
-                    {chartData.map((entry, index) => (
-                      <Cell 
-                        key={`cell-${index}`} 
-                        fill={`url(#gradient-${index})`}
-                        className="transition-all duration-300 hover:opacity-90"
-                      />
-                    ))}
-                  </Bar>
-                </BarChart>
-              </ResponsiveContainer>
+                    <defs>
+                      {chartData.map((entry, index) => (
+                        <linearGradient key={entry.id} id={`gradient-${index}`} x1="0" y1="0" x2="0" y2="1">
+                          <stop offset="0%" stopColor={entry.color} stopOpacity={0.9} />
+                          <stop offset="100%" stopColor={entry.color} stopOpacity={0.6} />
+                        </linearGradient>
+                      ))}
+                    </defs>
+                    <CartesianGrid 
+                      strokeDasharray="3 3" 
+                      stroke="hsl(var(--muted))" 
+                      opacity={0.5}
+                    />
+                    <XAxis 
+                      dataKey="name" 
+                      angle={-45}
+                      textAnchor="end"
+                      height={80}
+                      tick={{ 
+                        fontSize: 12,
+                        fill: 'hsl(var(--muted-foreground))'
+                      }}
+                      stroke="hsl(var(--border))"
+                    />
+                    <YAxis 
+                      tick={{ 
+                        fontSize: 12,
+                        fill: 'hsl(var(--muted-foreground))'
+                      }}
+                      stroke="hsl(var(--border))"
+                      domain={isScorePoll ? [0, MAX_SCORE] : undefined}
+                      label={{ 
+                        value: isScorePoll ? 'Average score' : isBudgetPoll ? 'Points' : showsWeight ? 'Weighted votes' : 'Votes', 
+                        angle: -90, 
+                        position: 'insideLeft',
+                        style: { textAnchor: 'middle', fill: 'hsl(var(--muted-foreground))' }
+                      }}
+                    />
+                    <Tooltip content={<CustomTooltip />} />
+                    <Bar 
+                      dataKey={isScorePoll ? 'average' : 'votes'}
+                      radius={[6, 6, 0, 0]}
+                      fill="hsl(var(--primary))"
+                      className="transition-all duration-300 hover:opacity-80"
+                      animationDuration={500}
+                      animationEasing="ease-out"
+                    >
+                      {chartData.map((entry, index) => (
+                        <Cell 
+                          key={`cell-${index}`} 
+                          fill={`url(#gradient-${index})`}
+                          className="transition-all duration-300 hover:opacity-90"
+                        />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              {schulze && (
+                <PairwiseHeatmap result={schulze} options={results!.options} />
+              )}
             </div>
 
             {/* Enhanced detailed results */}
             {showDetailedView && (
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
-                  <h4 className="font-semibold text-foreground">Detailed Results</h4>
+                  <h4 className="font-semibold text-foreground">
+                    {instantRunoff ? 'First-Choice Results' : 'Detailed Results'}
+                  </h4>
                   <span className="text-xs text-muted-foreground">
                     {chartData.length} option{chartData.length !== 1 ? 's' : ''}
                   </span>
@@ -276,7 +440,7 @@ export default function PollResultChart({
                       <div 
                         className="absolute inset-0 transition-all duration-500 ease-out"
                         style={{
-                          background: `linear-gradient(90deg, ${option.color}15 0%, ${option.color}08 ${option.percentage}%, transparent ${option.percentage}%)`,
+                          background: `linear-gradient(90deg, ${option.color}15 0%, ${option.color}08 ${barPercentage(option)}%, transparent ${barPercentage(option)}%)`,
                         }}
                       />
                       
@@ -286,11 +450,20 @@ export default function PollResultChart({
                             className="w-4 h-4 rounded-full border-2 border-background shadow-sm transition-transform duration-300 group-hover:scale-110"
                             style={{ backgroundColor: option.color }}
                           />
+                          {option.imageUrl && (
+                            <Image
+                              src={option.imageUrl}
+                              alt=""
+                              width={40}
+                              height={40}
+                              className="h-10 w-10 shrink-0 rounded object-cover"
+                            />
+                          )}
                           <div className="min-w-0 flex-1">
                             <span className="text-sm font-medium text-foreground block truncate">
                               {option.fullName}
                             </span>
-                            {index === 0 && pollResults!.totalVotes > 0 && (
+                            {index === 0 && hasVotes && (
                               <span className="text-xs text-primary font-medium flex items-center gap-1 mt-1">
                                 <TrendingUp className="h-3 w-3" />
                                 Leading
@@ -298,22 +471,68 @@ export default function PollResultChart({
                             )}
                           </div>
                         </div>
-                        <div className="text-right flex-shrink-0">
-                          <div className="flex items-center gap-2">
-                            <span className="text-lg font-bold text-foreground">
-                              {option.percentage}%
-                            </span>
-                            <span className="text-sm text-muted-foreground">
-                              ({option.votes} vote{option.votes !== 1 ? 's' : ''})
-                            </span>
+                        {isScorePoll ? (
+                          <div className="text-right flex-shrink-0">
+                            <div className="flex items-center justify-end gap-1">
+                              <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                              <span className="text-lg font-bold text-foreground">
+                                {option.average.toFixed(1)}
+                              </span>
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              median {option.median} · {option.ratings} rating{option.ratings !== 1 ? 's' : ''}
+                            </div>
                           </div>
-                        </div>
+                        ) : (
+                          <div className="text-right flex-shrink-0">
+                            <div className="flex items-center gap-2">
+                              <span className="text-lg font-bold text-foreground">
+                                {option.percentage}%
+                              </span>
+                              <span className="text-sm text-muted-foreground">
+                                ({voteLabel(option.votes)})
+                              </span>
+                            </div>
+                            {isMultiSelect && (
+                              <div className="text-xs text-muted-foreground">
+                                of selections · {option.voterPercentage}% of voters
+                              </div>
+                            )}
+                            {isBudgetPoll && (
+                              <div className="text-xs text-muted-foreground">
+                                of points · {backedByLabel(option.backers)}
+                              </div>
+                            )}
+                          </div>
+                        )}
                       </div>
+
+                      {/* Rating distribution from 0 stars (left) to MAX_SCORE stars (right) */}
+                      {isScorePoll && option.ratings > 0 && (
+                        <div className="relative mt-3 flex h-2 overflow-hidden rounded-full bg-muted">
+                          {option.distribution.map((ballots, score) => ballots > 0 && (
+                            <div
+                              key={score}
+                              className="h-full transition-all duration-500 ease-out"
+                              title={`${score} star${score !== 1 ? 's' : ''}: ${ballots}`}
+                              style={{
+                                width: `${(ballots / option.ratings) * 100}%`,
+                                backgroundColor: option.color,
+                                opacity: 0.2 + 0.8 * (score / MAX_SCORE),
+                              }}
+                            />
+                          ))}
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
               </div>
             )}
+
+            {instantRunoff && (
+              <InstantRunoffRounds result={instantRunoff} options={results!.options} />
+            )}
           </>
         ) : (
           // Enhanced empty state
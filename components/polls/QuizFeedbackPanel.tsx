@@ -0,0 +1,60 @@
+'use client';
+
+import type { QuizFeedback } from '@/app/actions/poll-types';
+
+interface QuizFeedbackPanelProps {
+  options: { id?: string; text: string }[];
+  feedback: QuizFeedback;
+}
+
+/**
+ * Right/wrong feedback on a quiz question, shown once the participant has answered:
+ * which options were correct, which ones they picked and any explanations
+ */
+export function QuizFeedbackPanel({ options, feedback }: QuizFeedbackPanelProps) {
+  const byOption = new Map(feedback.options.map(option => [option.optionId, option]));
+
+  return (
+    <div className="space-y-3">
+      <div
+        className={`p-3 rounded-md border text-sm font-medium ${
+          feedback.correct
+            ? 'bg-green-50 text-green-700 border-green-200'
+            : 'bg-red-50 text-red-700 border-red-200'
+        }`}
+      >
+        {feedback.correct ? 'Correct!' : 'Not quite. The correct answer is marked below.'}
+      </div>
+
+      <ul className="space-y-2">
+        {options.map(option => {
+          const result = option.id ? byOption.get(option.id) : undefined;
+          if (!result) return null;
+
+          return (
+            <li
+              key={option.id}
+              className={`rounded-md border p-3 ${
+                result.isCorrect
+                  ? 'border-green-300 bg-green-50/50'
+                  : result.selected ? 'border-red-300 bg-red-50/50' : 'border-border'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">
+                  {result.isCorrect ? '✓ ' : result.selected ? '✗ ' : ''}{option.text}
+                </span>
+                {result.selected && (
+                  <span className="text-xs text-muted-foreground">Your answer</span>
+                )}
+              </div>
+              {result.explanation && (
+                <p className="mt-1 text-sm text-muted-foreground">{result.explanation}</p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import type { QuizReport } from '@/app/actions/poll-types';
+
+interface QuizLeaderboardProps {
+  report: QuizReport;
+  questionLabels: Record<string, string>; // Keyed by poll ID
+}
+
+/**
+ * Creator view of a quiz: participants ranked by correct answers, and the
+ * percentage of participants who got each question right
+ */
+export function QuizLeaderboard({ report, questionLabels }: QuizLeaderboardProps) {
+  return (
+    <div className="space-y-6">
+      <div className="rounded-lg border border-border/50 bg-card/50 p-4 space-y-3">
+        <h4 className="font-semibold text-foreground">Leaderboard</h4>
+
+        {report.leaderboard.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No one has answered yet.</p>
+        ) : (
+          <ol className="space-y-1 text-sm">
+            {report.leaderboard.map((entry, index) => (
+              <li key={entry.userId} className="flex items-center justify-between gap-2">
+                <span className="truncate">
+                  <span className="inline-block w-6 text-muted-foreground">{index + 1}.</span>
+                  {entry.participant}
+                </span>
+                <span className="font-medium tabular-nums">
+                  {entry.correct}/{report.questionCount}
+                  {entry.answered < report.questionCount && (
+                    <span className="ml-1 text-xs text-muted-foreground">({entry.answered} answered)</span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-border/50 bg-card/50 p-4 space-y-3">
+        <h4 className="font-semibold text-foreground">Question Difficulty</h4>
+
+        <ul className="space-y-3 text-sm">
+          {report.questions.map(question => (
+            <li key={question.pollId} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate">{questionLabels[question.pollId] ?? 'Question'}</span>
+                <span className="tabular-nums text-muted-foreground">
+                  {question.percentCorrect === null
+                    ? 'No answers'
+                    : `${question.percentCorrect}% correct (${question.correct}/${question.answered})`}
+                </span>
+              </div>
+              <div className="h-2 rounded-full bg-muted overflow-hidden">
+                <div
+                  className="h-full bg-green-500"
+                  style={{ width: `${question.percentCorrect ?? 0}%` }}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { GripVertical } from 'lucide-react';
+
+interface RankedBallotOption {
+  id: string;
+  text: string;
+}
+
+interface RankedBallotProps {
+  options: RankedBallotOption[];
+  ranking: string[]; // Option IDs, first choice first
+  onChange: (ranking: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Ballot for ranked-choice polls
+ * Options are dragged into order of preference; the arrow buttons do the same
+ * for keyboard and touch users, where HTML5 drag and drop is unavailable.
+ */
+export function RankedBallot({ options, ranking, onChange, disabled = false }: RankedBallotProps) {
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const optionText = new Map(options.map(option => [option.id, option.text]));
+
+  const moveOption = (fromIndex: number, toIndex: number) => {
+    if (toIndex < 0 || toIndex >= ranking.length || fromIndex === toIndex) return;
+
+    const newRanking = [...ranking];
+    const [movedOption] = newRanking.splice(fromIndex, 1);
+    newRanking.splice(toIndex, 0, movedOption);
+    onChange(newRanking);
+  };
+
+  const endDrag = () => {
+    setDraggedIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <ol className="space-y-2" aria-label="Rank the options in order of preference">
+      {ranking.map((optionId, index) => (
+        <li
+          key={optionId}
+          draggable={!disabled}
+          onDragStart={(event) => {
+            event.dataTransfer.effectAllowed = 'move';
+            setDraggedIndex(index);
+          }}
+          onDragOver={(event) => {
+            if (draggedIndex === null) return;
+            event.preventDefault();
+            setDropIndex(index);
+          }}
+          onDrop={(event) => {
+            event.preventDefault();
+            if (draggedIndex !== null) {
+              moveOption(draggedIndex, index);
+            }
+            endDrag();
+          }}
+          onDragEnd={endDrag}
+          className={`flex items-center gap-3 p-4 border rounded-lg transition-colors ${
+            dropIndex === index && draggedIndex !== index ? 'border-primary bg-primary/5' : ''
+          } ${draggedIndex === index ? 'opacity-50' : ''} ${
+            disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-grab active:cursor-grabbing'
+          }`}
+        >
+          <GripVertical className="h-4 w-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+          <span className="w-6 text-sm font-semibold text-muted-foreground">{index + 1}.</span>
+          <span className="flex-1">{optionText.get(optionId)}</span>
+          <div className="flex gap-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => moveOption(index, index - 1)}
+              disabled={disabled || index === 0}
+              className="h-6 w-6 shrink-0 text-muted-foreground hover:text-foreground"
+              title="Move up"
+              aria-label={`Move ${optionText.get(optionId)} up`}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="m18 15-6-6-6 6"/>
+              </svg>
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => moveOption(index, index + 1)}
+              disabled={disabled || index === ranking.length - 1}
+              className="h-6 w-6 shrink-0 text-muted-foreground hover:text-foreground"
+              title="Move down"
+              aria-label={`Move ${optionText.get(optionId)} down`}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="m6 9 6 6 6-6"/>
+              </svg>
+            </Button>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { Star } from 'lucide-react';
+import { MAX_SCORE } from '@/lib/tabulation';
+
+interface ScoreBallotOption {
+  id: string;
+  text: string;
+}
+
+interface ScoreBallotProps {
+  options: ScoreBallotOption[];
+  scores: Record<string, number>; // Star rating per option ID
+  onChange: (scores: Record<string, number>) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Ballot for score polls: every option is rated from 0 to MAX_SCORE stars
+ * Clicking the current rating again clears it back to zero.
+ */
+export function ScoreBallot({ options, scores, onChange, disabled = false }: ScoreBallotProps) {
+  const setScore = (optionId: string, score: number) => {
+    onChange({ ...scores, [optionId]: scores[optionId] === score ? 0 : score });
+  };
+
+  return (
+    <div className="space-y-2">
+      {options.map(option => {
+        const score = scores[option.id] ?? 0;
+
+        return (
+          <div
+            key={option.id}
+            className={`flex items-center justify-between gap-4 p-4 border rounded-lg ${disabled ? 'opacity-50' : ''}`}
+          >
+            <span className="flex-1">{option.text}</span>
+            <div
+              role="radiogroup"
+              aria-label={`Rate ${option.text}`}
+              className="flex items-center gap-1"
+            >
+              {Array.from({ length: MAX_SCORE }, (_, index) => index + 1).map(value => (
+                <button
+                  key={value}
+                  type="button"
+                  role="radio"
+                  aria-checked={score === value}
+                  aria-label={`${value} star${value !== 1 ? 's' : ''}`}
+                  disabled={disabled}
+                  onClick={() => setScore(option.id, value)}
+                  className="p-0.5 rounded-sm transition-transform hover:scale-110 disabled:cursor-not-allowed disabled:hover:scale-100"
+                >
+                  <Star
+                    className={`h-5 w-5 ${value <= score ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'}`}
+                  />
+                </button>
+              ))}
+              <span className="w-6 text-right text-sm text-muted-foreground">{score}</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
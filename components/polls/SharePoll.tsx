@@ -5,16 +5,29 @@ import QRCode from 'react-qr-code';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Copy, Share2, Facebook, Twitter, Linkedin, MessageCircle } from 'lucide-react';
+import { describeResultsVisibility, type ResultsVisibility } from '@/lib/results-visibility';
+import { buildPollUrl, normalizePasscode } from '@/lib/poll-passcodes';
 
 interface SharePollProps {
   pollId: string;
   pollQuestion?: string;
+  resultsVisibility?: ResultsVisibility; // Tells people opening the link when they'll see results
+  hasPasscode?: boolean; // Offers to put the passcode in the link and QR code
+  passcode?: string; // The passcode, when the creator has just set it
 }
 
-export function SharePoll({ pollId, pollQuestion }: SharePollProps) {
+export function SharePoll({
+  pollId,
+  pollQuestion,
+  resultsVisibility = 'always',
+  hasPasscode = false,
+  passcode: initialPasscode = ''
+}: SharePollProps) {
   const [copied, setCopied] = useState(false);
   const [showQR, setShowQR] = useState(false);
-  const pollUrl = `${window.location.origin}/polls/${pollId}`;
+  // Only the hash is stored, so the creator types the passcode to put it in the link
+  const [passcode, setPasscode] = useState(initialPasscode);
+  const pollUrl = buildPollUrl(window.location.origin, pollId, hasPasscode ? normalizePasscode(passcode) : undefined);
   const shareText = pollQuestion ? `Check out this poll: ${pollQuestion}` : 'Check out this poll!';
 
   const copyToClipboard = () => {
@@ -57,6 +70,29 @@ export function SharePoll({ pollId, pollQuestion }: SharePollProps) {
         <h3 className="text-lg font-semibold">Share this poll</h3>
       </div>
       
+      {resultsVisibility !== 'always' && (
+        <p className="text-sm text-muted-foreground">
+          {describeResultsVisibility(resultsVisibility)}
+        </p>
+      )}
+      
+      {hasPasscode && (
+        <div className="space-y-2">
+          <label htmlFor="share-passcode" className="text-sm font-medium text-muted-foreground">
+            Passcode in link
+          </label>
+          <Input
+            id="share-passcode"
+            value={passcode}
+            onChange={(e) => setPasscode(e.target.value)}
+            placeholder="Leave empty to have people enter the passcode"
+          />
+          <p className="text-xs text-muted-foreground">
+            Anyone with a link or QR code that includes the passcode can open the poll.
+          </p>
+        </div>
+      )}
+      
       {/* Copy Link Section */}
       <div className="space-y-2">
         <label className="text-sm font-medium text-muted-foreground">Poll Link</label>
@@ -0,0 +1,35 @@
+'use client';
+
+import { Textarea } from '@/components/ui/textarea';
+import { SECURITY_CONFIG } from '@/lib/security';
+
+interface TextResponseBallotProps {
+  response: string;
+  onChange: (response: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Ballot for text response polls: a single written answer with a character counter
+ */
+export function TextResponseBallot({ response, onChange, disabled = false }: TextResponseBallotProps) {
+  const maxLength = SECURITY_CONFIG.TEXT_LIMITS.TEXT_RESPONSE_MAX;
+  const remaining = maxLength - response.length;
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={response}
+        onChange={event => onChange(event.target.value)}
+        maxLength={maxLength}
+        rows={5}
+        disabled={disabled}
+        placeholder="Write your response..."
+        aria-label="Your response"
+      />
+      <p className={`text-right text-xs ${remaining < 50 ? 'text-destructive' : 'text-muted-foreground'}`}>
+        {response.length}/{maxLength} characters
+      </p>
+    </div>
+  );
+}
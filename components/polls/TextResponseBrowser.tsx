@@ -0,0 +1,175 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getTextResponses, getTextResponseSummary } from '@/app/actions/poll-actions';
+import type { TextResponsePage, TextResponseSummary } from '@/app/actions/poll-types';
+
+const PAGE_SIZE = 10;
+
+interface TextResponseBrowserProps {
+  pollId: string;
+}
+
+/**
+ * Creator view of a text response poll: the most frequent words across all
+ * responses, followed by a searchable, paginated list of the responses themselves
+ */
+export function TextResponseBrowser({ pollId }: TextResponseBrowserProps) {
+  const [summary, setSummary] = useState<TextResponseSummary | null>(null);
+  const [responses, setResponses] = useState<TextResponsePage | null>(null);
+  const [page, setPage] = useState(1);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadResponses = useCallback(async () => {
+    setLoading(true);
+    const result = await getTextResponses(pollId, { page, pageSize: PAGE_SIZE, search });
+
+    if (result.success && result.data) {
+      setResponses(result.data);
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to load responses');
+    }
+    setLoading(false);
+  }, [pollId, page, search]);
+
+  useEffect(() => {
+    loadResponses();
+  }, [loadResponses]);
+
+  useEffect(() => {
+    async function loadSummary() {
+      const result = await getTextResponseSummary(pollId);
+      if (result.success && result.data) {
+        setSummary(result.data);
+      }
+    }
+
+    loadSummary();
+  }, [pollId]);
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setPage(1);
+    setSearch(searchInput.trim());
+  };
+
+  const totalPages = responses ? Math.max(1, Math.ceil(responses.total / responses.pageSize)) : 1;
+  const topCount = summary?.words[0]?.count ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-lg border border-border/50 bg-card/50 p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-semibold text-foreground">Common Words</h4>
+          {summary && (
+            <span className="text-xs text-muted-foreground">
+              {summary.totalResponses} response{summary.totalResponses !== 1 ? 's' : ''}
+            </span>
+          )}
+        </div>
+
+        {!summary ? (
+          <p className="text-sm text-muted-foreground">Loading summary...</p>
+        ) : summary.words.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No responses yet.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {summary.words.map(word => (
+              <button
+                key={word.word}
+                type="button"
+                onClick={() => {
+                  setSearchInput(word.word);
+                  setSearch(word.word);
+                  setPage(1);
+                }}
+                title={`${word.count} use${word.count !== 1 ? 's' : ''} in ${word.responses} response${word.responses !== 1 ? 's' : ''}`}
+                className="rounded-full border border-border px-3 py-1 text-foreground transition-colors hover:bg-accent"
+                style={{ fontSize: `${0.75 + (topCount > 0 ? word.count / topCount : 0) * 0.5}rem` }}
+              >
+                {word.word}
+                <span className="ml-1 text-xs text-muted-foreground">{word.count}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input
+            value={searchInput}
+            onChange={event => setSearchInput(event.target.value)}
+            placeholder="Search responses"
+            aria-label="Search responses"
+          />
+          <Button type="submit" variant="outline">Search</Button>
+          {search && (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => {
+                setSearchInput('');
+                setSearch('');
+                setPage(1);
+              }}
+            >
+              Clear
+            </Button>
+          )}
+        </form>
+
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : loading && !responses ? (
+          <p className="text-sm text-muted-foreground">Loading responses...</p>
+        ) : responses && responses.responses.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {search ? `No responses match "${search}".` : 'No responses yet.'}
+          </p>
+        ) : (
+          <ul className={`space-y-2 ${loading ? 'opacity-50' : ''}`}>
+            {responses?.responses.map(response => (
+              <li key={response.id} className="rounded-lg border p-4 space-y-1">
+                <p className="whitespace-pre-wrap break-words text-sm text-foreground">{response.response}</p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(response.created_at).toLocaleString()}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {responses && responses.total > responses.pageSize && (
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page <= 1 || loading}
+              onClick={() => setPage(current => current - 1)}
+            >
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {page} of {totalPages} · {responses.total} response{responses.total !== 1 ? 's' : ''}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= totalPages || loading}
+              onClick={() => setPage(current => current + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
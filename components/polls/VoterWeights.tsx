@@ -0,0 +1,132 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { getVoterWeights, setVoterWeights } from '@/app/actions/poll-actions';
+import type { VoterWeight } from '@/app/actions/poll-types';
+import { parseVoterWeights } from '@/lib/voter-weights';
+
+interface VoterWeightsProps {
+  pollId: string;
+}
+
+/**
+ * Creator view of a weighted poll's eligible voters and their weights, which
+ * can be edited until the poll opens
+ */
+export function VoterWeights({ pollId }: VoterWeightsProps) {
+  const [weights, setWeights] = useState<VoterWeight[]>([]);
+  const [total, setTotal] = useState(0);
+  const [locked, setLocked] = useState(true);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadWeights = useCallback(async () => {
+    const result = await getVoterWeights(pollId);
+
+    if (result.success && result.data) {
+      setWeights(result.data.weights);
+      setTotal(result.data.total);
+      setLocked(result.data.locked);
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to load voter weights');
+    }
+  }, [pollId]);
+
+  useEffect(() => {
+    loadWeights();
+  }, [loadWeights]);
+
+  const handleEdit = () => {
+    setDraft(weights.map(entry => `${entry.email ?? entry.user_id} ${entry.weight}`).join('\n'));
+  };
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (draft === null) return;
+
+    const { weights: parsed, invalid } = parseVoterWeights(draft);
+    if (invalid.length > 0) {
+      setError(`Not a voter followed by a weight: ${invalid.join(', ')}`);
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await setVoterWeights(pollId, parsed);
+
+    if (result.success) {
+      setDraft(null);
+      await loadWeights();
+    } else {
+      setError(result.error || 'Failed to save voter weights');
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-card/50 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-foreground">Voter weights</h3>
+        <span className="text-sm text-muted-foreground">
+          {weights.length} voter{weights.length !== 1 ? 's' : ''} · total weight {total}
+        </span>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {locked
+          ? 'The poll has opened, so the weights are fixed.'
+          : 'Only the voters listed here can vote. Weights are fixed once the poll opens.'}
+      </p>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {draft !== null ? (
+        <form onSubmit={handleSave} className="space-y-2">
+          <Textarea
+            value={draft}
+            onChange={event => setDraft(event.target.value)}
+            placeholder={'One voter per line: email address or user ID, then weight\nada@example.com 40'}
+            aria-label="Voter weights"
+            rows={6}
+            className="font-mono"
+          />
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save weights'}
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <>
+          {weights.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No voter has a weight yet.</p>
+          ) : (
+            <ul className="max-h-64 overflow-y-auto divide-y rounded-md border">
+              {weights.map(entry => (
+                <li key={entry.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                  <span className="flex-1 truncate text-foreground">{entry.email ?? entry.user_id}</span>
+                  <span className="font-medium tabular-nums text-foreground">{entry.weight}</span>
+                  <span className="w-12 text-right text-xs text-muted-foreground">
+                    {total > 0 ? `${Math.round((entry.weight / total) * 100)}%` : ''}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!locked && (
+            <Button variant="outline" size="sm" onClick={handleEdit}>
+              Edit weights
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,3 +2,22 @@ export { default as PollResultChart } from './PollResultChart';
 export * from './SharePoll';
 export * from './DashboardSharePoll';
 export * from './DeletePollButton';
+export * from './ClosePollButton';
+export * from './InviteTurnout';
+export * from './BallotCodeManager';
+export * from './VoterWeights';
+export * from './DelegationPanel';
+export * from './ChoiceBallot';
+export * from './OptionImageInput';
+export * from './RankedBallot';
+export * from './InstantRunoffRounds';
+export * from './PairwiseHeatmap';
+export * from './ScoreBallot';
+export * from './BudgetBallot';
+export * from './TextResponseBallot';
+export * from './TextResponseBrowser';
+export * from './AvailabilityBallot';
+export * from './AvailabilityGrid';
+export * from './QuizFeedbackPanel';
+export * from './QuizLeaderboard';
+export * from './LiveIndicator';
@@ -0,0 +1,54 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Tooltip } from '@/components/ui/tooltip';
+import { deleteSurvey } from '@/app/actions/survey-actions';
+import { Trash2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+
+interface DeleteSurveyButtonProps {
+  surveyId: string;
+}
+
+export function DeleteSurveyButton({ surveyId }: DeleteSurveyButtonProps) {
+  const [isDeleting, setIsDeleting] = useState(false);
+  const router = useRouter();
+
+  const handleDelete = async () => {
+    if (!confirm('Are you sure you want to delete this survey and all of its responses? This action cannot be undone.')) {
+      return;
+    }
+
+    setIsDeleting(true);
+    try {
+      const result = await deleteSurvey(surveyId);
+      
+      if (result.success) {
+        router.refresh();
+      } else {
+        alert(result.error || 'Failed to delete survey');
+      }
+    } catch (error) {
+      console.error('Error deleting survey:', error);
+      alert('Failed to delete survey. Please try again.');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Tooltip content="Delete survey">
+      <Button
+        onClick={handleDelete}
+        size="sm"
+        variant="outline"
+        disabled={isDeleting}
+        className={`border-red-300 text-red-600 hover:bg-red-50 hover:border-red-400 ${isDeleting ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        <Trash2 className="h-4 w-4" />
+        {isDeleting ? '...' : ''}
+      </Button>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import {
+  ChoiceBallot,
+  RankedBallot,
+  ScoreBallot,
+  TextResponseBallot
+} from '@/components/polls';
+import type { Poll, SurveyAnswer } from '@/app/actions/poll-types';
+
+interface SurveyQuestionBallotProps {
+  question: Poll;
+  answer: SurveyAnswer | undefined;
+  onChange: (answer: SurveyAnswer) => void;
+  disabled?: boolean;
+}
+
+/**
+ * The answer a question starts with: ranked ballots begin in display order and
+ * score ballots at zero stars, so both are complete until the respondent changes them
+ */
+export function initialSurveyAnswer(question: Poll): SurveyAnswer | undefined {
+  const optionIds = question.options.map(option => option.id!);
+
+  switch (question.poll_type) {
+    case 'ranked':
+      return { optionIds };
+    case 'score':
+      return { scores: Object.fromEntries(optionIds.map(optionId => [optionId, 0])) };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Ballot for one survey question, using the same ballot as a standalone poll of that type
+ */
+export function SurveyQuestionBallot({ question, answer, onChange, disabled = false }: SurveyQuestionBallotProps) {
+  const options = question.options.map(option => ({ id: option.id!, text: option.text }));
+  const selected = answer?.optionIds ?? [];
+  const isMultiSelect = question.poll_type === 'multiple' || question.poll_type === 'approval';
+
+  const toggleOption = (optionId: string) => {
+    if (!isMultiSelect) {
+      onChange({ optionIds: [optionId] });
+      return;
+    }
+
+    if (selected.includes(optionId)) {
+      onChange({ optionIds: selected.filter(id => id !== optionId) });
+      return;
+    }
+
+    // Ignore clicks past the maximum instead of silently dropping an earlier choice
+    if (question.max_selections !== null && selected.length >= question.max_selections) {
+      return;
+    }
+
+    onChange({ optionIds: [...selected, optionId] });
+  };
+
+  switch (question.poll_type) {
+    case 'text':
+      return (
+        <TextResponseBallot
+          response={answer?.response ?? ''}
+          onChange={response => onChange({ response })}
+          disabled={disabled}
+        />
+      );
+    case 'score':
+      return (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Rate every option from 0 to 5 stars.
+          </p>
+          <ScoreBallot
+            options={options}
+            scores={answer?.scores ?? {}}
+            onChange={scores => onChange({ scores })}
+            disabled={disabled}
+          />
+        </>
+      );
+    case 'ranked':
+      return (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Drag the options into your order of preference, with your first choice at the top.
+          </p>
+          <RankedBallot
+            options={options}
+            ranking={selected}
+            onChange={optionIds => onChange({ optionIds })}
+            disabled={disabled}
+          />
+        </>
+      );
+    default:
+      return (
+        <>
+          {isMultiSelect && (
+            <p className="text-sm text-muted-foreground">
+              {question.max_selections === null
+                ? `Select at least ${question.min_selections} option${question.min_selections !== 1 ? 's' : ''}.`
+                : question.min_selections === question.max_selections
+                  ? `Select ${question.min_selections} option${question.min_selections !== 1 ? 's' : ''}.`
+                  : `Select between ${question.min_selections} and ${question.max_selections} options.`}
+              {' '}({selected.length} selected)
+            </p>
+          )}
+          <ChoiceBallot
+            options={options}
+            selected={selected}
+            onToggle={toggleOption}
+            multiSelect={isMultiSelect}
+            disabled={disabled}
+          />
+        </>
+      );
+  }
+}
@@ -0,0 +1,297 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SECURITY_CONFIG } from '@/lib/security';
+import { BRANCHABLE_POLL_TYPES } from '@/lib/survey-branching';
+import { QUIZ_POLL_TYPES } from '@/lib/tabulation';
+import type { PollType } from '@/app/actions/poll-types';
+
+export interface SurveyQuestionDraft {
+  key: string; // Stable React key; questions have no ID until the survey is saved
+  question: string;
+  pollType: PollType;
+  options: { key: string; text: string; isCorrect?: boolean; explanation?: string }[];
+  minSelections: number;
+  maxSelections: number | null;
+  branches: Record<string, string | null>; // Option key to target question key; null ends the survey
+}
+
+export interface BranchTarget {
+  key: string;
+  label: string;
+}
+
+interface SurveyQuestionEditorProps {
+  index: number;
+  draft: SurveyQuestionDraft;
+  onChange: (draft: SurveyQuestionDraft) => void;
+  onRemove: () => void;
+  onMove: (offset: -1 | 1) => void;
+  isFirst: boolean;
+  isLast: boolean;
+  canRemove: boolean;
+  branchTargets: BranchTarget[]; // Questions this one may jump to
+  isQuiz?: boolean; // Survey is a quiz, so choice questions get an answer key
+  errors?: string[];
+}
+
+let nextOptionKey = 0;
+
+/**
+ * Create a blank option with a key that is unique on the page
+ */
+export function createOptionDraft(text = '') {
+  nextOptionKey += 1;
+  return { key: `option_${nextOptionKey}`, text };
+}
+
+const NEXT_QUESTION = '';
+const END_SURVEY = '__end';
+
+// Scheduling and budget polls stand alone and cannot be survey questions
+type SurveyPollType = Exclude<PollType, 'schedule' | 'budget'>;
+
+const POLL_TYPE_LABELS: Record<SurveyPollType, string> = {
+  single: 'Single choice',
+  multiple: 'Multiple choice',
+  ranked: 'Ranked choice',
+  approval: 'Approval',
+  score: 'Score (0-5 stars)',
+  text: 'Text response',
+};
+
+/**
+ * Editor for one survey question: its text, poll type, options, selection limits, skip logic
+ * and, in quiz mode, the answer key
+ */
+export function SurveyQuestionEditor({
+  index,
+  draft,
+  onChange,
+  onRemove,
+  onMove,
+  isFirst,
+  isLast,
+  canRemove,
+  branchTargets,
+  isQuiz = false,
+  errors = []
+}: SurveyQuestionEditorProps) {
+  const { MIN_OPTIONS, MAX_OPTIONS, POLL_QUESTION_MAX, POLL_OPTION_MAX, QUIZ_EXPLANATION_MAX } = SECURITY_CONFIG.TEXT_LIMITS;
+  const showAnswerKey = isQuiz && QUIZ_POLL_TYPES.includes(draft.pollType);
+
+  const changeType = (pollType: PollType) => {
+    // Text questions have no options; other types need at least the minimum
+    const options = pollType === 'text'
+      ? []
+      : draft.options.length >= MIN_OPTIONS
+        ? draft.options
+        : Array.from({ length: MIN_OPTIONS }, () => createOptionDraft());
+
+    // Only choice questions can branch
+    const branches = BRANCHABLE_POLL_TYPES.includes(pollType) ? draft.branches : {};
+
+    onChange({ ...draft, pollType, options, branches });
+  };
+
+  const branchesWithout = (key: string) =>
+    Object.fromEntries(Object.entries(draft.branches).filter(([optionKey]) => optionKey !== key));
+
+  const removeOption = (key: string) => {
+    onChange({
+      ...draft,
+      options: draft.options.filter(option => option.key !== key),
+      branches: branchesWithout(key)
+    });
+  };
+
+  const updateBranch = (key: string, value: string) => {
+    const branches = branchesWithout(key);
+    if (value !== NEXT_QUESTION) {
+      branches[key] = value === END_SURVEY ? null : value;
+    }
+    onChange({ ...draft, branches });
+  };
+
+  const updateOption = (key: string, changes: Partial<SurveyQuestionDraft['options'][number]>) => {
+    onChange({
+      ...draft,
+      options: draft.options.map(option => option.key === key ? { ...option, ...changes } : option)
+    });
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold">Question {index + 1}</h3>
+        <div className="flex gap-1">
+          <Button type="button" variant="ghost" size="sm" onClick={() => onMove(-1)} disabled={isFirst}>
+            Move up
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => onMove(1)} disabled={isLast}>
+            Move down
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={onRemove}
+            disabled={!canRemove}
+            className="text-destructive hover:text-destructive"
+          >
+            Remove
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-[1fr_12rem]">
+        <Input
+          value={draft.question}
+          onChange={(e) => onChange({ ...draft, question: e.target.value })}
+          placeholder="What would you like to ask?"
+          maxLength={POLL_QUESTION_MAX}
+          aria-label={`Question ${index + 1}`}
+        />
+        <select
+          value={draft.pollType}
+          onChange={(e) => changeType(e.target.value as PollType)}
+          aria-label={`Question ${index + 1} type`}
+          className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+        >
+          {(Object.keys(POLL_TYPE_LABELS) as SurveyPollType[]).map(pollType => (
+            <option key={pollType} value={pollType}>{POLL_TYPE_LABELS[pollType]}</option>
+          ))}
+        </select>
+      </div>
+
+      {draft.pollType === 'multiple' && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="space-y-1 text-sm">
+            <span>Minimum selections</span>
+            <Input
+              type="number"
+              min={1}
+              max={draft.options.length}
+              value={draft.minSelections}
+              onChange={(e) => onChange({ ...draft, minSelections: Number(e.target.value) })}
+            />
+          </label>
+          <label className="space-y-1 text-sm">
+            <span>Maximum selections</span>
+            <Input
+              type="number"
+              min={1}
+              max={draft.options.length}
+              placeholder="No limit"
+              value={draft.maxSelections ?? ''}
+              onChange={(e) => onChange({
+                ...draft,
+                maxSelections: e.target.value === '' ? null : Number(e.target.value)
+              })}
+            />
+          </label>
+        </div>
+      )}
+
+      {draft.pollType === 'text' ? (
+        <p className="text-sm text-muted-foreground">
+          Respondents write an answer of up to {SECURITY_CONFIG.TEXT_LIMITS.TEXT_RESPONSE_MAX} characters.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {draft.options.map((option, optionIndex) => (
+            <div key={option.key} className="space-y-2">
+              <div className="flex items-center gap-2">
+                {showAnswerKey && (
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={!!option.isCorrect}
+                    onChange={(e) => updateOption(option.key, { isCorrect: e.target.checked })}
+                    aria-label={`Option ${optionIndex + 1} is correct`}
+                    title="Correct answer"
+                  />
+                )}
+                <Input
+                  value={option.text}
+                  onChange={(e) => updateOption(option.key, { text: e.target.value })}
+                  placeholder={`Option ${optionIndex + 1}`}
+                  maxLength={POLL_OPTION_MAX}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeOption(option.key)}
+                  disabled={draft.options.length <= MIN_OPTIONS}
+                >
+                  Remove
+                </Button>
+              </div>
+              {showAnswerKey && (
+                <Input
+                  value={option.explanation ?? ''}
+                  onChange={(e) => updateOption(option.key, { explanation: e.target.value })}
+                  placeholder="Explanation shown after answering (optional)"
+                  maxLength={QUIZ_EXPLANATION_MAX}
+                  className="ml-6 w-auto"
+                />
+              )}
+            </div>
+          ))}
+          {showAnswerKey && (
+            <p className="text-xs text-muted-foreground">Tick the correct answers.</p>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...draft, options: [...draft.options, createOptionDraft()] })}
+            disabled={draft.options.length >= MAX_OPTIONS}
+          >
+            Add Option ({draft.options.length}/{MAX_OPTIONS})
+          </Button>
+        </div>
+      )}
+
+      {BRANCHABLE_POLL_TYPES.includes(draft.pollType) && (
+        <details className="space-y-2" open={Object.keys(draft.branches).length > 0}>
+          <summary className="cursor-pointer text-sm font-medium">Skip logic</summary>
+          <p className="text-sm text-muted-foreground">
+            {draft.pollType === 'ranked'
+              ? 'Jump based on the respondent’s first choice.'
+              : 'Jump when the respondent picks an option. If several picked options jump, the earliest question wins.'}
+          </p>
+          {draft.options.map((option, optionIndex) => {
+            const target = draft.branches[option.key];
+            const value = target === undefined ? NEXT_QUESTION : target === null ? END_SURVEY : target;
+
+            return (
+              <label key={option.key} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 truncate">If “{option.text || `Option ${optionIndex + 1}`}”</span>
+                <select
+                  value={value}
+                  onChange={(e) => updateBranch(option.key, e.target.value)}
+                  className="flex h-9 w-56 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                >
+                  <option value={NEXT_QUESTION}>Continue to next question</option>
+                  {branchTargets.map(branchTarget => (
+                    <option key={branchTarget.key} value={branchTarget.key}>Jump to {branchTarget.label}</option>
+                  ))}
+                  <option value={END_SURVEY}>End survey</option>
+                </select>
+              </label>
+            );
+          })}
+        </details>
+      )}
+
+      {errors.length > 0 && (
+        <div className="bg-destructive/15 text-destructive text-sm p-3 rounded-md space-y-1">
+          {errors.map(error => <p key={error}>{error}</p>)}
+        </div>
+      )}
+    </div>
+  );
+}
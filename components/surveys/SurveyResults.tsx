@@ -0,0 +1,102 @@
+'use client';
+
+import { PollResultChart, QuizFeedbackPanel, TextResponseBrowser } from '@/components/polls';
+import type { PollType, QuizFeedback, Survey } from '@/app/actions/poll-types';
+
+// Poll types whose results are shown per voter rather than per vote
+const MULTI_BALLOT_TYPES: PollType[] = ['multiple', 'approval', 'score'];
+
+interface SurveyResultsProps {
+  survey: Survey;
+  isCreator: boolean; // Only the creator can read written responses
+  quizFeedback?: Record<string, QuizFeedback>; // Keyed by poll ID; the respondent's own quiz answers
+}
+
+/**
+ * Results for every question of a survey, in survey order
+ * On surveys with skip logic each question also shows how many respondents
+ * branching sent past it. Those respondents never saw the question, so they
+ * are reported separately and left out of its percentages rather than being
+ * counted as giving no answer.
+ * In a quiz, the respondent's score and per-question feedback come first.
+ */
+export function SurveyResults({ survey, isCreator, quizFeedback = {} }: SurveyResultsProps) {
+  const hasBranches = survey.branches.length > 0;
+  const feedback = Object.values(quizFeedback);
+
+  return (
+    <div className="space-y-8">
+      {feedback.length > 0 && (
+        <div className="rounded-lg border border-primary/20 bg-primary/5 p-4 text-center">
+          <p className="text-lg font-semibold">
+            You scored {feedback.filter(result => result.correct).length} of {feedback.length}
+          </p>
+        </div>
+      )}
+
+      {survey.questions.map((question, index) => (
+        <section key={question.id} className="space-y-3">
+          <h3 className="text-lg font-semibold">
+            {index + 1}. {question.question}
+          </h3>
+
+          {hasBranches && (
+            <SkippedByBranching answered={question.totalVoters} completions={survey.completions} />
+          )}
+
+          {quizFeedback[question.id] && (
+            <QuizFeedbackPanel options={question.options} feedback={quizFeedback[question.id]} />
+          )}
+
+          {question.poll_type === 'text' ? (
+            isCreator ? (
+              <TextResponseBrowser pollId={question.id} />
+            ) : (
+              <p className="text-muted-foreground">
+                {question.totalVoters} response{question.totalVoters !== 1 ? 's' : ''} received so far.
+                Only the survey creator can read them.
+              </p>
+            )
+          ) : (
+            <PollResultChart
+              pollResults={{
+                question: question.question,
+                options: question.options.map(option => ({
+                  id: option.id!,
+                  option_text: option.text,
+                  votes: option.votes ?? 0
+                })),
+                totalVotes: question.totalVotes,
+                totalVoters: MULTI_BALLOT_TYPES.includes(question.poll_type) ? question.totalVoters : undefined,
+              }}
+              instantRunoff={question.instantRunoff}
+              schulze={question.schulze}
+              scores={question.scores}
+            />
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * How many completed respondents answered a question and how many were sent past it
+ * Every question on a respondent's path must be answered before the survey can be
+ * submitted, so any completed respondent without an answer was skipped by branching.
+ */
+function SkippedByBranching({ answered, completions }: { answered: number; completions: number }) {
+  const skipped = Math.max(completions - answered, 0);
+
+  return (
+    <p className="text-sm text-muted-foreground">
+      Answered by {answered} of {completions} respondent{completions !== 1 ? 's' : ''}
+      {skipped > 0 && (
+        <>
+          {' · '}
+          {skipped} skipped by branching (not counted as no answer)
+        </>
+      )}
+    </p>
+  );
+}
@@ -0,0 +1,4 @@
+export * from './SurveyQuestionEditor';
+export * from './SurveyQuestionBallot';
+export * from './SurveyResults';
+export * from './DeleteSurveyButton';
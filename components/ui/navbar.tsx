@@ -30,6 +30,12 @@ export default function Navbar() {
             >
               Create Poll
             </Link>
+            <Link 
+              href="/surveys/create" 
+              className={`text-sm font-medium transition-colors hover:text-primary ${pathname === '/surveys/create' ? 'text-primary' : 'text-muted-foreground'}`}
+            >
+              Create Survey
+            </Link>
           </nav>
         </div>
         <div className="flex items-center gap-2">
@@ -0,0 +1,36 @@
+import { describe, it, expect } from '@jest/globals';
+import { filterVoteCounts, type VoteBreakdownRow } from '../anonymous-voting';
+
+describe('filterVoteCounts', () => {
+  const rows: VoteBreakdownRow[] = [
+    { anonymous: false, option_id: 'a', votes: 3 },
+    { anonymous: false, option_id: 'b', votes: 1 },
+    { anonymous: false, option_id: null, votes: 4 },
+    { anonymous: true, option_id: 'b', votes: 2 },
+    { anonymous: true, option_id: null, votes: 2 },
+  ];
+
+  it('should count only the ballots of the chosen kind', () => {
+    expect(filterVoteCounts(['a', 'b', 'c'], rows, 'anonymous')).toEqual({
+      votes: { a: 0, b: 2, c: 0 },
+      voters: 2,
+    });
+    expect(filterVoteCounts(['a', 'b', 'c'], rows, 'authenticated')).toEqual({
+      votes: { a: 3, b: 1, c: 0 },
+      voters: 4,
+    });
+  });
+
+  it('should add both kinds together without a filter', () => {
+    expect(filterVoteCounts(['a', 'b'], rows, 'all')).toEqual({
+      votes: { a: 3, b: 3 },
+      voters: 6,
+    });
+  });
+
+  it('should ignore options no longer on the poll', () => {
+    const counts = filterVoteCounts(['a'], [{ anonymous: true, option_id: 'gone', votes: 5 }], 'all');
+
+    expect(counts.votes).toEqual({ a: 0 });
+  });
+});
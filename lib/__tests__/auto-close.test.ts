@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+import { describeAutoCloseRules, describeCloseReason, getQuorumVotes } from '../auto-close';
+
+const noRules = {
+  close_after_votes: null,
+  eligible_voters: null,
+  quorum_percent: null,
+  close_lead_margin: null
+};
+
+describe('getQuorumVotes', () => {
+  it('should round the quorum up to whole ballots', () => {
+    expect(getQuorumVotes({ ...noRules, eligible_voters: 45, quorum_percent: 50 })).toBe(23);
+    expect(getQuorumVotes({ ...noRules, eligible_voters: 40, quorum_percent: 50 })).toBe(20);
+    expect(getQuorumVotes({ ...noRules, eligible_voters: 40 })).toBeNull();
+  });
+});
+
+describe('describeAutoCloseRules', () => {
+  it('should describe each rule that is set', () => {
+    expect(describeAutoCloseRules(noRules)).toEqual([]);
+    expect(describeAutoCloseRules({
+      close_after_votes: 100,
+      eligible_voters: 40,
+      quorum_percent: 75,
+      close_lead_margin: 1
+    })).toEqual([
+      'Closes after 100 votes.',
+      'Closes once 30 of 40 eligible voters (75%) have voted.',
+      'Closes when an option leads by 1 vote.'
+    ]);
+  });
+});
+
+describe('describeCloseReason', () => {
+  it('should name the threshold that closed the poll', () => {
+    expect(describeCloseReason('vote_cap', { ...noRules, close_after_votes: 50 })).toBe('Reached the limit of 50 votes');
+    expect(describeCloseReason('quorum', { ...noRules, eligible_voters: 20, quorum_percent: 60 }))
+      .toBe('Reached a quorum of 60% of eligible voters');
+    expect(describeCloseReason('lead_margin')).toBe('An option took a decisive lead');
+    expect(describeCloseReason('manual')).toBe('Closed by the poll creator');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  ballotCodesToCsv,
+  generateBallotCodes,
+  isValidBallotCode,
+  normalizeBallotCode,
+  summarizeBallotCodes
+} from '../ballot-codes';
+
+describe('generateBallotCodes', () => {
+  it('should generate the requested number of distinct codes in the issued format', () => {
+    const codes = generateBallotCodes(50);
+
+    expect(new Set(codes).size).toBe(50);
+    expect(codes.every(isValidBallotCode)).toBe(true);
+  });
+});
+
+describe('normalizeBallotCode', () => {
+  it('should ignore case, spaces and dashes', () => {
+    expect(normalizeBallotCode(' abcd efgh ')).toBe('ABCD-EFGH');
+    expect(normalizeBallotCode('ABCDEFGH')).toBe('ABCD-EFGH');
+  });
+
+  it('should not accept letters that are left out of codes', () => {
+    expect(isValidBallotCode('ABCD-EFG0')).toBe(false);
+    expect(isValidBallotCode('ABCD-EFG')).toBe(false);
+  });
+});
+
+describe('summarizeBallotCodes', () => {
+  it('should count the codes by status', () => {
+    expect(summarizeBallotCodes([
+      { status: 'unused' },
+      { status: 'spent' },
+      { status: 'spent' },
+      { status: 'revoked' }
+    ])).toEqual({ issued: 4, unused: 1, spent: 2, revoked: 1 });
+  });
+});
+
+describe('ballotCodesToCsv', () => {
+  it('should list every code with its status and slip link', () => {
+    const csv = ballotCodesToCsv([
+      { code: 'ABCD-EFGH', status: 'unused', spent_at: null },
+      { code: 'JKLM-NPQR', status: 'spent', spent_at: '2026-10-19T10:00:00Z' }
+    ], 'https://example.com', 'abc');
+
+    expect(csv).toBe(
+      'code,status,spent_at,link\r\n' +
+      'ABCD-EFGH,unused,,https://example.com/polls/abc?ballot=ABCD-EFGH\r\n' +
+      'JKLM-NPQR,spent,2026-10-19T10:00:00Z,https://example.com/polls/abc?ballot=JKLM-NPQR\r\n'
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from '@jest/globals';
+import { isValidTag, normalizeTag, parseTags, pickDelegation } from '../delegation';
+
+describe('normalizeTag', () => {
+  it('should lower-case a tag and drop a leading hash', () => {
+    expect(normalizeTag('  #Budget ')).toBe('budget');
+    expect(normalizeTag('Team Offsite')).toBe('team-offsite');
+  });
+});
+
+describe('isValidTag', () => {
+  it('should accept letters, digits, hyphens and underscores', () => {
+    expect(isValidTag('q3-budget_2026')).toBe(true);
+    expect(isValidTag('-budget')).toBe(false);
+    expect(isValidTag('budget!')).toBe(false);
+    expect(isValidTag('a'.repeat(31))).toBe(false);
+  });
+});
+
+describe('parseTags', () => {
+  it('should split tags on commas and line breaks and drop duplicates', () => {
+    expect(parseTags('Budget, #hiring\nbudget')).toEqual({ tags: ['budget', 'hiring'], invalid: [] });
+  });
+
+  it('should report entries that are not tags', () => {
+    expect(parseTags('budget, ops/it').invalid).toEqual(['ops/it']);
+  });
+});
+
+describe('pickDelegation', () => {
+  const poll = { id: 'poll-1', tags: ['budget', 'hiring'] };
+
+  it('should prefer a delegation for the poll over one for its tags', () => {
+    const forPoll = { poll_id: 'poll-1', tag: null, created_at: '2026-10-01T00:00:00Z' };
+    const forTag = { poll_id: null, tag: 'budget', created_at: '2026-10-10T00:00:00Z' };
+    expect(pickDelegation([forTag, forPoll], poll)).toBe(forPoll);
+  });
+
+  it('should pick the most recent delegation for one of the poll tags', () => {
+    const older = { poll_id: null, tag: 'budget', created_at: '2026-10-01T00:00:00Z' };
+    const newer = { poll_id: null, tag: 'hiring', created_at: '2026-10-10T00:00:00Z' };
+    const elsewhere = { poll_id: null, tag: 'offsite', created_at: '2026-10-15T00:00:00Z' };
+    expect(pickDelegation([older, elsewhere, newer], poll)).toBe(newer);
+    expect(pickDelegation([elsewhere], poll)).toBeNull();
+  });
+});
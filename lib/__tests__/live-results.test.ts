@@ -0,0 +1,33 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyOptionCount, retryDelay } from '../live-results';
+
+describe('retryDelay', () => {
+  it('should double the delay with each attempt up to 30 seconds', () => {
+    expect(retryDelay(0)).toBe(1000);
+    expect(retryDelay(3)).toBe(8000);
+    expect(retryDelay(10)).toBe(30000);
+  });
+});
+
+describe('applyOptionCount', () => {
+  const options = [
+    { id: 'a', text: 'Tabs', votes: 3 },
+    { id: 'b', text: 'Spaces', votes: 5 },
+  ];
+
+  it('should update the count of the changed option', () => {
+    expect(applyOptionCount(options, { id: 'b', votes: 6 })).toEqual([
+      { id: 'a', text: 'Tabs', votes: 3 },
+      { id: 'b', text: 'Spaces', votes: 6 },
+    ]);
+  });
+
+  it('should treat a missing count as zero', () => {
+    expect(applyOptionCount(options, { id: 'a', votes: null })[0].votes).toBe(0);
+  });
+
+  it('should keep the same options when nothing shown changed', () => {
+    expect(applyOptionCount(options, { id: 'a', votes: 3 })).toBe(options);
+    expect(applyOptionCount(options, { id: 'c', votes: 1 })).toBe(options);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from '@jest/globals';
+import { pointsLeft, pointsSpent, withoutUnusedOptions } from '../points-budget';
+
+describe('pointsSpent', () => {
+  it('should add up the points given to each option', () => {
+    expect(pointsSpent({ a: 4, b: 0, c: 3 })).toBe(7);
+    expect(pointsSpent({})).toBe(0);
+  });
+
+  it('should ignore points that are not whole numbers above zero', () => {
+    expect(pointsSpent({ a: 2, b: -3, c: 1.5 })).toBe(2);
+  });
+});
+
+describe('pointsLeft', () => {
+  it('should subtract the points given from the budget', () => {
+    expect(pointsLeft({ a: 4, b: 3 }, 10)).toBe(3);
+    expect(pointsLeft({ a: 8, b: 4 }, 10)).toBe(-2);
+  });
+});
+
+describe('withoutUnusedOptions', () => {
+  it('should drop options given no points', () => {
+    expect(withoutUnusedOptions({ a: 5, b: 0, c: 5 })).toEqual({ a: 5, c: 5 });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseInvitees, summarizeTurnout } from '../poll-invites';
+
+describe('parseInvitees', () => {
+  it('should split emails from user IDs and drop duplicates', () => {
+    const userId = '3f2b8c1e-9d4a-4e7b-8c6d-1a2b3c4d5e6f';
+    expect(parseInvitees(`Ada@Example.com, ${userId}\nada@example.com; bob@example.org`)).toEqual({
+      emails: ['ada@example.com', 'bob@example.org'],
+      userIds: [userId],
+      invalid: []
+    });
+  });
+
+  it('should report entries that are neither', () => {
+    expect(parseInvitees(['carol', 'dave@example.com']).invalid).toEqual(['carol']);
+  });
+});
+
+describe('summarizeTurnout', () => {
+  it('should leave revoked invites out of the turnout', () => {
+    expect(summarizeTurnout([
+      { status: 'voted' },
+      { status: 'pending' },
+      { status: 'voted' },
+      { status: 'revoked' }
+    ])).toEqual({ invited: 3, voted: 2, pending: 1 });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildPollUrl, isValidPasscode } from '../poll-passcodes';
+import {
+  hashPasscode,
+  isPasscodeAttemptRateLimited,
+  isPasscodeGuessingLocked,
+  recordPasscodeFailure,
+  verifyPasscode
+} from '../passcode-hash';
+import { SECURITY_CONFIG } from '../security';
+
+describe('buildPollUrl', () => {
+  it('should embed the passcode only when there is one', () => {
+    expect(buildPollUrl('https://example.com', 'abc')).toBe('https://example.com/polls/abc');
+    expect(buildPollUrl('https://example.com', 'abc', ' party&2026 ')).toBe('https://example.com/polls/abc?code=party%262026');
+  });
+});
+
+describe('isValidPasscode', () => {
+  it('should reject codes that are too short or contain spaces', () => {
+    expect(isValidPasscode('abc')).toBe(false);
+    expect(isValidPasscode('two words')).toBe(false);
+    expect(isValidPasscode(' party2026 ')).toBe(true);
+  });
+});
+
+describe('passcode hashing', () => {
+  it('should accept the passcode it hashed and nothing else', () => {
+    const hash = hashPasscode('party2026');
+
+    expect(verifyPasscode('party2026', hash)).toBe(true);
+    expect(verifyPasscode(' party2026', hash)).toBe(true);
+    expect(verifyPasscode('Party2026', hash)).toBe(false);
+    expect(verifyPasscode('party2026', 'not-a-hash')).toBe(false);
+  });
+
+  it('should salt every hash', () => {
+    expect(hashPasscode('party2026')).not.toBe(hashPasscode('party2026'));
+  });
+
+  it('should throttle repeated attempts on a poll', () => {
+    const limit = SECURITY_CONFIG.RATE_LIMITS.PASSCODE_ATTEMPTS_PER_MINUTE;
+    for (let attempt = 0; attempt < limit; attempt++) {
+      expect(isPasscodeAttemptRateLimited('poll-1', 'visitor')).toBe(false);
+    }
+
+    expect(isPasscodeAttemptRateLimited('poll-1', 'visitor')).toBe(true);
+    expect(isPasscodeAttemptRateLimited('poll-2', 'visitor')).toBe(false);
+  });
+
+  it('should stop taking guesses on a poll after too many wrong passcodes from anyone', () => {
+    for (let failure = 0; failure < SECURITY_CONFIG.RATE_LIMITS.PASSCODE_FAILURES_PER_HOUR; failure++) {
+      expect(isPasscodeGuessingLocked('poll-guessed')).toBe(false);
+      recordPasscodeFailure('poll-guessed');
+    }
+
+    expect(isPasscodeGuessingLocked('poll-guessed')).toBe(true);
+    expect(isPasscodeGuessingLocked('poll-2')).toBe(false);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from '@jest/globals';
+import { formatCountdown, getPollStatus } from '../poll-schedule';
+
+describe('getPollStatus', () => {
+  const now = new Date('2025-06-01T12:00:00Z');
+
+  it('should schedule polls until their opening time', () => {
+    expect(getPollStatus({ opens_at: '2025-06-01T13:00:00Z', expires_at: null }, now)).toBe('scheduled');
+    expect(getPollStatus({ opens_at: '2025-06-01T12:00:00Z', expires_at: null }, now)).toBe('ongoing');
+    expect(getPollStatus({ opens_at: null, expires_at: null }, now)).toBe('ongoing');
+  });
+
+  it('should expire polls once their closing time has passed', () => {
+    expect(getPollStatus({ opens_at: '2025-05-01T00:00:00Z', expires_at: '2025-06-01T12:00:00Z' }, now)).toBe('expired');
+    expect(getPollStatus({ opens_at: null, expires_at: null, closed_at: '2025-06-01T11:00:00Z' }, now)).toBe('expired');
+  });
+});
+
+describe('formatCountdown', () => {
+  it('should show seconds only in the last hour', () => {
+    expect(formatCountdown((2 * 86400 + 3 * 3600 + 15 * 60) * 1000)).toBe('2d 3h 15m');
+    expect(formatCountdown((3 * 3600 + 5 * 60 + 30) * 1000)).toBe('3h 5m');
+    expect(formatCountdown((4 * 60 + 9) * 1000)).toBe('4m 09s');
+    expect(formatCountdown(-1000)).toBe('0m 00s');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import { canViewResults, isPollClosed } from '../results-visibility';
+
+describe('canViewResults', () => {
+  const voter = { isCreator: false, hasVoted: false, isClosed: false, isSecret: false };
+
+  it('should show results after voting only to voters, until the poll closes', () => {
+    expect(canViewResults('after_vote', voter)).toBe(false);
+    expect(canViewResults('after_vote', { ...voter, hasVoted: true })).toBe(true);
+    expect(canViewResults('after_vote', { ...voter, isClosed: true })).toBe(true);
+  });
+
+  it('should hold results back until the poll closes', () => {
+    expect(canViewResults('after_close', { ...voter, hasVoted: true })).toBe(false);
+    expect(canViewResults('after_close', { ...voter, isClosed: true })).toBe(true);
+  });
+
+  it('should show creator-only results to the creator alone', () => {
+    expect(canViewResults('creator', { ...voter, hasVoted: true, isClosed: true })).toBe(false);
+    expect(canViewResults('creator', { ...voter, isCreator: true })).toBe(true);
+  });
+
+  it('should hide the results of secret-ballot polls from everyone until they close', () => {
+    const secret = { ...voter, isSecret: true };
+    expect(canViewResults('always', secret)).toBe(false);
+    expect(canViewResults('always', { ...secret, isCreator: true })).toBe(false);
+    expect(canViewResults('always', { ...secret, isClosed: true })).toBe(true);
+    expect(canViewResults('creator', { ...secret, isCreator: true, isClosed: true })).toBe(true);
+  });
+});
+
+describe('isPollClosed', () => {
+  const now = new Date('2025-06-01T12:00:00Z');
+
+  it('should close polls once their closing time has passed', () => {
+    expect(isPollClosed({ expires_at: null }, now)).toBe(false);
+    expect(isPollClosed({ expires_at: '2025-06-02T00:00:00Z' }, now)).toBe(false);
+    expect(isPollClosed({ expires_at: '2025-06-01T12:00:00Z' }, now)).toBe(true);
+  });
+
+  it('should close polls that an auto-close rule has closed', () => {
+    expect(isPollClosed({ expires_at: '2025-06-02T00:00:00Z', closed_at: '2025-06-01T11:00:00Z' }, now)).toBe(true);
+  });
+});
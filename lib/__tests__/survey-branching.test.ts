@@ -0,0 +1,64 @@
+import { describe, it, expect } from '@jest/globals';
+import { findBranchCycle, nextQuestionId, resolveSurveyPath } from '../survey-branching';
+
+describe('survey branching', () => {
+  const questions = [
+    { id: 'q1', poll_type: 'single' },
+    { id: 'q2', poll_type: 'text' },
+    { id: 'q3', poll_type: 'approval' },
+    { id: 'q4', poll_type: 'ranked' },
+    { id: 'q5', poll_type: 'single' },
+  ];
+  const rules = [
+    { questionId: 'q1', optionId: 'no', targetQuestionId: 'q4' },
+    { questionId: 'q3', optionId: 'a', targetQuestionId: 'q5' },
+    { questionId: 'q3', optionId: 'b', targetQuestionId: 'q4' },
+    { questionId: 'q4', optionId: 'x', targetQuestionId: null },
+  ];
+
+  describe('nextQuestionId', () => {
+    it('should continue in order when no rule matches', () => {
+      expect(nextQuestionId(questions, rules, 'q1', { optionIds: ['yes'] })).toBe('q2');
+      expect(nextQuestionId(questions, rules, 'q5', { optionIds: ['yes'] })).toBeNull();
+    });
+
+    it('should jump to the earliest target when several chosen options branch', () => {
+      expect(nextQuestionId(questions, rules, 'q3', { optionIds: ['a', 'b'] })).toBe('q4');
+    });
+
+    it('should branch ranked questions on the first choice only', () => {
+      expect(nextQuestionId(questions, rules, 'q4', { optionIds: ['x', 'y'] })).toBeNull();
+      expect(nextQuestionId(questions, rules, 'q4', { optionIds: ['y', 'x'] })).toBe('q5');
+    });
+  });
+
+  describe('resolveSurveyPath', () => {
+    it('should skip the questions a branch jumps over', () => {
+      const path = resolveSurveyPath(questions, rules, {
+        q1: { optionIds: ['no'] },
+        q4: { optionIds: ['y', 'x'] },
+        q5: { optionIds: ['yes'] },
+      });
+
+      expect(path).toEqual(['q1', 'q4', 'q5']);
+    });
+
+    it('should stop at the first unanswered question', () => {
+      expect(resolveSurveyPath(questions, rules, { q1: { optionIds: ['yes'] } })).toEqual(['q1', 'q2']);
+    });
+  });
+
+  describe('findBranchCycle', () => {
+    const ids = questions.map(question => question.id);
+
+    it('should accept rules that only jump forward', () => {
+      expect(findBranchCycle(ids, rules)).toBeNull();
+    });
+
+    it('should find a jump back to an earlier question', () => {
+      const cycle = findBranchCycle(ids, [{ questionId: 'q3', optionId: 'a', targetQuestionId: 'q2' }]);
+
+      expect(cycle).toEqual(['q2', 'q3']);
+    });
+  });
+});
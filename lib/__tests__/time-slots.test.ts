@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { formatTimeSlot, isValidTimeZone, localInputToIso } from '../time-slots';
+
+describe('formatTimeSlot', () => {
+  it('should show only the end time when the slot ends the same day', () => {
+    const label = formatTimeSlot(
+      { startsAt: '2025-03-04T15:00:00Z', endsAt: '2025-03-04T16:30:00Z' },
+      'UTC',
+      'en-US'
+    );
+
+    expect(label).toBe('Tue, Mar 4, 3:00 PM – 4:30 PM');
+  });
+
+  it('should show the full end when the slot runs past midnight', () => {
+    const label = formatTimeSlot(
+      { startsAt: '2025-03-04T22:00:00Z', endsAt: '2025-03-05T01:00:00Z' },
+      'UTC',
+      'en-US'
+    );
+
+    expect(label).toBe('Tue, Mar 4, 10:00 PM – Wed, Mar 5, 1:00 AM');
+  });
+
+  it('should render the same moment in the viewer\'s time zone', () => {
+    const label = formatTimeSlot({ startsAt: '2025-03-04T15:00:00Z' }, 'Asia/Tokyo', 'en-US');
+
+    expect(label).toBe('Wed, Mar 5, 12:00 AM');
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('should accept IANA time zones and reject anything else', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+  });
+});
+
+describe('localInputToIso', () => {
+  it('should return null for empty or invalid input', () => {
+    expect(localInputToIso('')).toBeNull();
+    expect(localInputToIso('not a date')).toBeNull();
+  });
+});
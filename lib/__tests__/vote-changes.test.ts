@@ -0,0 +1,24 @@
+import { describe, it, expect } from '@jest/globals';
+import { canChangeVote, getCountedOptions } from '../vote-changes';
+
+describe('canChangeVote', () => {
+  const now = new Date('2025-06-01T12:00:00Z');
+
+  it('should allow changes until the poll expires or closes', () => {
+    expect(canChangeVote({ allow_vote_changes: true, expires_at: null }, now)).toBe(true);
+    expect(canChangeVote({ allow_vote_changes: true, expires_at: '2025-06-02T00:00:00Z' }, now)).toBe(true);
+    expect(canChangeVote({ allow_vote_changes: true, expires_at: '2025-06-01T12:00:00Z' }, now)).toBe(false);
+    expect(canChangeVote({ allow_vote_changes: true, expires_at: null, closed_at: '2025-06-01T11:00:00Z' }, now)).toBe(false);
+  });
+
+  it('should not allow changes unless the poll opts in', () => {
+    expect(canChangeVote({ allow_vote_changes: false, expires_at: null }, now)).toBe(false);
+  });
+});
+
+describe('getCountedOptions', () => {
+  it('should count only the first choice of a ranked ballot', () => {
+    expect(getCountedOptions('ranked', ['b', 'a', 'c'])).toEqual(['b']);
+    expect(getCountedOptions('approval', ['b', 'a'])).toEqual(['b', 'a']);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { SECURITY_CONFIG } from '../security';
+import {
+  STREAM_BACKLOG,
+  formatStreamEvent,
+  lastVoteEventId,
+  openVoteStream,
+  parseLastEventId,
+  voteEventsSince
+} from '../vote-stream';
+
+type Broadcast = (message: { payload: { id: string; votes: number | null } }) => void;
+
+// Each poll's topic, as subscribed to through the service client
+const topics = new Map<string, Broadcast>();
+let subscribeState = 'SUBSCRIBED';
+
+const mockClient = {
+  channel: jest.fn((topic: string) => {
+    const channel = {
+      topic,
+      on: (_type: string, _filter: unknown, callback: Broadcast) => {
+        topics.set(topic, callback);
+        return channel;
+      },
+      subscribe: (callback: (state: string) => void) => {
+        callback(subscribeState);
+        return channel;
+      }
+    };
+    return channel;
+  }),
+  removeChannel: jest.fn((channel: { topic: string }) => {
+    topics.delete(channel.topic);
+  })
+};
+
+jest.mock('../supabase/service', () => ({
+  createServiceClient: () => mockClient
+}));
+
+// Send a count on a poll's topic, as the broadcast_option_count trigger does
+function vote(pollId: string, optionId: string, votes: number) {
+  topics.get(`poll-results:${pollId}`)?.({ payload: { id: optionId, votes } });
+}
+
+beforeEach(() => {
+  subscribeState = 'SUBSCRIBED';
+});
+
+describe('openVoteStream', () => {
+  it('should send the counts from the poll\'s topic to its open streams', async () => {
+    const listener = jest.fn();
+    const stop = await openVoteStream('poll-publish', listener);
+    const other = await openVoteStream('other-poll', () => {});
+
+    vote('poll-publish', 'a', 3);
+    vote('other-poll', 'b', 1);
+    vote('poll-publish', 'c', 1);
+    stop!();
+    vote('poll-publish', 'a', 5);
+    other!();
+
+    expect(listener.mock.calls.map(([event]) => (event as { counts: unknown }).counts)).toEqual([
+      { a: 3 },
+      { c: 1 }
+    ]);
+  });
+
+  it('should share one subscription per poll and remove it with the last stream', async () => {
+    mockClient.channel.mockClear();
+    mockClient.removeChannel.mockClear();
+
+    const first = await openVoteStream('poll-shared', () => {});
+    const second = await openVoteStream('poll-shared', () => {});
+    expect(mockClient.channel).toHaveBeenCalledTimes(1);
+
+    first!();
+    expect(mockClient.removeChannel).not.toHaveBeenCalled();
+    second!();
+    expect(mockClient.removeChannel).toHaveBeenCalledTimes(1);
+    expect(topics.has('poll-results:poll-shared')).toBe(false);
+  });
+
+  it('should refuse streams beyond the cap per poll', async () => {
+    const stops = await Promise.all(
+      Array.from({ length: SECURITY_CONFIG.RATE_LIMITS.STREAMS_PER_POLL }, () =>
+        openVoteStream('poll-cap', () => {})
+      )
+    );
+
+    expect(stops.every(Boolean)).toBe(true);
+    expect(await openVoteStream('poll-cap', () => {})).toBeNull();
+
+    stops[0]!();
+    expect(await openVoteStream('poll-cap', () => {})).not.toBeNull();
+  });
+
+  it('should fail when the poll\'s topic can\'t be subscribed to', async () => {
+    subscribeState = 'CHANNEL_ERROR';
+
+    await expect(openVoteStream('poll-refused', () => {})).rejects.toThrow();
+    expect(topics.has('poll-results:poll-refused')).toBe(false);
+  });
+});
+
+describe('voteEventsSince', () => {
+  it('should return the events a resuming client missed', async () => {
+    await openVoteStream('poll-resume', () => {});
+    const snapshotId = lastVoteEventId('poll-resume');
+    vote('poll-resume', 'a', 1);
+    const seenId = lastVoteEventId('poll-resume');
+    vote('poll-resume', 'a', 2);
+    vote('poll-resume', 'a', 3);
+
+    expect(voteEventsSince('poll-resume', snapshotId)?.map(event => event.counts)).toEqual([
+      { a: 1 },
+      { a: 2 },
+      { a: 3 }
+    ]);
+    expect(voteEventsSince('poll-resume', seenId)?.map(event => event.counts)).toEqual([
+      { a: 2 },
+      { a: 3 }
+    ]);
+    expect(voteEventsSince('poll-resume', lastVoteEventId('poll-resume'))).toEqual([]);
+  });
+
+  it('should ask for a snapshot once missed events are gone', async () => {
+    await openVoteStream('poll-backlog', () => {});
+    const snapshotId = lastVoteEventId('poll-backlog');
+    for (let votes = 1; votes <= STREAM_BACKLOG + 5; votes++) {
+      vote('poll-backlog', 'a', votes);
+    }
+
+    expect(voteEventsSince('poll-backlog', snapshotId)).toBeNull();
+    expect(voteEventsSince('poll-backlog', snapshotId + 5)).toHaveLength(STREAM_BACKLOG);
+  });
+
+  it('should ask for a snapshot for IDs from before the poll\'s subscription started', async () => {
+    const stop = await openVoteStream('poll-reopened', () => {});
+    vote('poll-reopened', 'a', 1);
+    const seenId = lastVoteEventId('poll-reopened');
+    stop!();
+
+    // Votes while nobody follows the poll aren't seen
+    await openVoteStream('poll-reopened', () => {});
+    expect(voteEventsSince('poll-reopened', seenId)).toBeNull();
+    expect(voteEventsSince('poll-never-opened', 12)).toBeNull();
+  });
+});
+
+describe('parseLastEventId', () => {
+  it('should read event IDs and ignore anything else', () => {
+    expect(parseLastEventId('42')).toBe(42);
+    expect(parseLastEventId(null)).toBeNull();
+    expect(parseLastEventId('abc')).toBeNull();
+    expect(parseLastEventId('-1')).toBeNull();
+  });
+});
+
+describe('formatStreamEvent', () => {
+  it('should format an event with its ID and JSON data', () => {
+    expect(formatStreamEvent('votes', 7, { counts: { a: 2 } })).toBe(
+      'id: 7\nevent: votes\ndata: {"counts":{"a":2}}\n\n'
+    );
+  });
+});
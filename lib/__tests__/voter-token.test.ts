@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import type { NextRequest } from 'next/server';
+import {
+  createVoterToken,
+  getClientAddress,
+  isAnonymousVoteRateLimited,
+  verifyVoterToken
+} from '../voter-token';
+import { SECURITY_CONFIG } from '../security';
+
+describe('voter tokens', () => {
+  beforeAll(() => {
+    process.env.VOTER_TOKEN_SECRET = 'test-secret';
+  });
+
+  it('should accept a cookie it issued', () => {
+    const { token, cookieValue } = createVoterToken();
+
+    expect(verifyVoterToken(cookieValue)).toBe(token);
+  });
+
+  it('should reject a token with a forged or missing signature', () => {
+    const { cookieValue } = createVoterToken();
+    const [, signature] = cookieValue.split('.');
+
+    expect(verifyVoterToken(`00000000-0000-4000-8000-000000000000.${signature}`)).toBeNull();
+    expect(verifyVoterToken('00000000-0000-4000-8000-000000000000')).toBeNull();
+    expect(verifyVoterToken(undefined)).toBeNull();
+  });
+});
+
+const headers = (forwardedFor?: string) => ({
+  get: (name: string) => (name === 'x-forwarded-for' ? forwardedFor ?? null : null)
+});
+
+describe('getClientAddress', () => {
+
+  it('should take the address added by the proxy, not one the client sent', () => {
+    expect(getClientAddress(headers('203.0.113.9'))).toBe('203.0.113.9');
+    expect(getClientAddress(headers('1.2.3.4, 203.0.113.9'))).toBe('203.0.113.9');
+    expect(getClientAddress(headers())).toBe('unknown');
+  });
+
+  it('should skip the addresses of further trusted proxies', () => {
+    process.env.TRUSTED_PROXY_HOPS = '2';
+    try {
+      expect(getClientAddress(headers('1.2.3.4, 203.0.113.9, 10.0.0.2'))).toBe('203.0.113.9');
+      expect(getClientAddress(headers('10.0.0.2'))).toBe('unknown');
+    } finally {
+      delete process.env.TRUSTED_PROXY_HOPS;
+    }
+  });
+});
+
+describe('isAnonymousVoteRateLimited', () => {
+  it('should keep counting when the client makes up a new forwarded address for every vote', () => {
+    const vote = (spoofed: string) =>
+      isAnonymousVoteRateLimited({ headers: headers(`${spoofed}, 198.51.100.7`) } as unknown as NextRequest);
+
+    for (let attempt = 0; attempt < SECURITY_CONFIG.RATE_LIMITS.VOTES_PER_MINUTE; attempt++) {
+      expect(vote(`10.0.0.${attempt}`)).toBe(false);
+    }
+
+    expect(vote('10.0.1.1')).toBe(true);
+    expect(isAnonymousVoteRateLimited({ headers: headers('198.51.100.8') } as unknown as NextRequest)).toBe(false);
+  });
+});
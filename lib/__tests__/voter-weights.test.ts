@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals';
+import { areWeightsLocked, parseVoterWeights, totalWeight } from '../voter-weights';
+
+describe('parseVoterWeights', () => {
+  it('should read a voter and a weight from each line', () => {
+    const userId = '3f2b8c1e-9d4a-4e7b-8c6d-1a2b3c4d5e6f';
+    expect(parseVoterWeights(`Ada@Example.com 40\n${userId}, 25\nbob@example.org:5`)).toEqual({
+      weights: [
+        { email: 'ada@example.com', weight: 40 },
+        { userId, weight: 25 },
+        { email: 'bob@example.org', weight: 5 }
+      ],
+      invalid: []
+    });
+  });
+
+  it('should keep the last weight of a voter listed twice', () => {
+    expect(parseVoterWeights('ada@example.com 40\nADA@example.com 10').weights).toEqual([
+      { email: 'ada@example.com', weight: 10 }
+    ]);
+  });
+
+  it('should report lines without a voter or a valid weight', () => {
+    expect(parseVoterWeights('carol 3\ndave@example.com\nerin@example.com 0\nfrank@example.com 2000000').invalid).toEqual([
+      'carol 3',
+      'dave@example.com',
+      'erin@example.com 0',
+      'frank@example.com 2000000'
+    ]);
+  });
+});
+
+describe('areWeightsLocked', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  it('should fix the weights of a scheduled poll when it opens', () => {
+    expect(areWeightsLocked({ opens_at: '2026-10-20T09:00:00Z', voter_count: 0 }, now)).toBe(false);
+    expect(areWeightsLocked({ opens_at: '2026-10-19T09:00:00Z', voter_count: 0 }, now)).toBe(true);
+  });
+
+  it('should fix the weights of a poll open from the start at its first ballot', () => {
+    expect(areWeightsLocked({ opens_at: null, voter_count: 0 }, now)).toBe(false);
+    expect(areWeightsLocked({ opens_at: null, voter_count: 1 }, now)).toBe(true);
+  });
+});
+
+describe('totalWeight', () => {
+  it('should add up the weights', () => {
+    expect(totalWeight([{ weight: 40 }, { weight: 25 }, { weight: 5 }])).toBe(70);
+  });
+});
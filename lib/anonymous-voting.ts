@@ -0,0 +1,61 @@
+/**
+ * Anonymous voting
+ *
+ * A poll can accept votes from visitors without an account. Their ballots carry
+ * a voter token from a signed cookie (see lib/voter-token.ts) instead of a user,
+ * and the votes table allows one ballot per token and poll. Only standalone
+ * choice polls offer this; quizzes need an account to hand out the answer key.
+ * Creators can filter the results to anonymous or signed-in ballots.
+ */
+
+/**
+ * Poll types that can accept anonymous votes
+ */
+export const ANONYMOUS_POLL_TYPES = ['single', 'multiple', 'ranked', 'approval'];
+
+export type VoterFilter = 'all' | 'authenticated' | 'anonymous';
+
+/**
+ * A row returned by the get_vote_breakdown database function
+ * option_id is null on the row counting all ballots of that kind.
+ */
+export interface VoteBreakdownRow {
+  anonymous: boolean;
+  option_id: string | null;
+  votes: number;
+}
+
+export interface FilteredVoteCounts {
+  votes: Record<string, number>; // Keyed by option ID
+  voters: number;
+}
+
+/**
+ * Vote counts of the ballots matching a voter filter
+ * @param optionIds - The poll's options; every one gets a count, zero when no ballot chose it
+ * @param rows - The poll's breakdown from get_vote_breakdown
+ * @param filter - Which ballots to count
+ * @returns FilteredVoteCounts - Votes per option and the number of ballots counted
+ */
+export function filterVoteCounts(
+  optionIds: string[],
+  rows: VoteBreakdownRow[],
+  filter: VoterFilter
+): FilteredVoteCounts {
+  const counts: FilteredVoteCounts = {
+    votes: Object.fromEntries(optionIds.map(id => [id, 0])),
+    voters: 0
+  };
+
+  rows
+    .filter(row => filter === 'all' || row.anonymous === (filter === 'anonymous'))
+    .forEach(row => {
+      if (row.option_id === null) {
+        counts.voters += Number(row.votes);
+      } else if (row.option_id in counts.votes) {
+        counts.votes[row.option_id] += Number(row.votes);
+      }
+    });
+
+  return counts;
+}
@@ -0,0 +1,92 @@
+/**
+ * Auto-close rules
+ *
+ * Besides its expiry, a poll can close itself once a condition is met: a cap
+ * on the number of ballots, a quorum of its eligible voters, or one option
+ * leading the runner-up by a set margin. The rules are checked by the
+ * apply_auto_close trigger at the end of each voting transaction, which
+ * records closed_at and close_reason; these helpers describe them in the UI.
+ * The creator can also close a poll by hand, recorded as 'manual', and reopen it.
+ */
+
+/**
+ * Why a poll closed before its expiry
+ */
+export const CLOSE_REASONS = ['vote_cap', 'quorum', 'lead_margin', 'manual'] as const;
+
+export type CloseReason = typeof CLOSE_REASONS[number];
+
+/**
+ * Poll types that can close on a lead margin: their options carry vote counts
+ * (first preferences on ranked polls)
+ */
+export const LEAD_MARGIN_POLL_TYPES = ['single', 'multiple', 'ranked', 'approval'];
+
+export interface AutoCloseRules {
+  close_after_votes: number | null;
+  eligible_voters: number | null;
+  quorum_percent: number | null;
+  close_lead_margin: number | null;
+}
+
+/**
+ * Number of ballots that make up a poll's quorum
+ * @param rules - The poll's auto-close rules
+ * @returns number | null - The smallest voter count reaching quorum_percent of eligible_voters, or null without a quorum
+ */
+export function getQuorumVotes(rules: AutoCloseRules): number | null {
+  if (!rules.quorum_percent || !rules.eligible_voters) return null;
+  return Math.ceil((rules.quorum_percent * rules.eligible_voters) / 100);
+}
+
+/**
+ * Describe the rules that will close a poll early, one sentence per rule
+ * @param rules - The poll's auto-close rules
+ * @returns string[] - Empty when the poll only closes at its expiry
+ */
+export function describeAutoCloseRules(rules: AutoCloseRules): string[] {
+  const descriptions: string[] = [];
+  const quorumVotes = getQuorumVotes(rules);
+
+  if (rules.close_after_votes) {
+    descriptions.push(`Closes after ${pluralizeVotes(rules.close_after_votes)}.`);
+  }
+  if (quorumVotes !== null) {
+    descriptions.push(
+      `Closes once ${quorumVotes} of ${rules.eligible_voters} eligible voters (${rules.quorum_percent}%) have voted.`
+    );
+  }
+  if (rules.close_lead_margin) {
+    descriptions.push(`Closes when an option leads by ${pluralizeVotes(rules.close_lead_margin)}.`);
+  }
+
+  return descriptions;
+}
+
+/**
+ * A sentence saying why a poll closed
+ * @param reason - The poll's close_reason
+ * @param rules - The poll's auto-close rules, to name the threshold; without them the sentence is generic
+ */
+export function describeCloseReason(reason: CloseReason, rules?: AutoCloseRules): string {
+  switch (reason) {
+    case 'vote_cap':
+      return rules?.close_after_votes
+        ? `Reached the limit of ${pluralizeVotes(rules.close_after_votes)}`
+        : 'Reached its vote limit';
+    case 'quorum':
+      return rules?.quorum_percent
+        ? `Reached a quorum of ${rules.quorum_percent}% of eligible voters`
+        : 'Reached its quorum';
+    case 'lead_margin':
+      return rules?.close_lead_margin
+        ? `An option led by ${pluralizeVotes(rules.close_lead_margin)}`
+        : 'An option took a decisive lead';
+    case 'manual':
+      return 'Closed by the poll creator';
+  }
+}
+
+function pluralizeVotes(count: number): string {
+  return `${count} ${count === 1 ? 'vote' : 'votes'}`;
+}
@@ -0,0 +1,126 @@
+/**
+ * Single-use ballot codes
+ *
+ * For elections run on paper slips: the creator issues a batch of codes for a
+ * poll, prints them (each with a QR code linking to the ballot) or exports them
+ * as CSV, and hands one to every voter. A code casts exactly one ballot without
+ * an account. The cast_code_ballot database function marks it spent in the same
+ * transaction as the ballot, so it can't be used twice. Unused codes can be
+ * revoked, e.g. when a slip goes missing.
+ */
+
+export const BALLOT_CODE_STATUSES = ['unused', 'spent', 'revoked'] as const;
+
+export type BallotCodeStatus = typeof BALLOT_CODE_STATUSES[number];
+
+/**
+ * Poll types that can take ballots cast with a code
+ */
+export const BALLOT_CODE_POLL_TYPES = ['single', 'multiple', 'ranked', 'approval'];
+
+/**
+ * Most codes issued in one batch
+ */
+export const MAX_BALLOT_CODES = 500;
+
+/**
+ * Query parameter carrying the ballot code in the links printed on the slips
+ */
+export const BALLOT_CODE_PARAM = 'ballot';
+
+// No 0/O or 1/I, which are easy to mix up on paper; 32 letters, so every random byte maps evenly
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_GROUP_LENGTH = 4;
+const CODE_PATTERN = new RegExp(`^[${CODE_ALPHABET}]{${CODE_GROUP_LENGTH}}-[${CODE_ALPHABET}]{${CODE_GROUP_LENGTH}}$`);
+
+function randomCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_GROUP_LENGTH * 2));
+  const characters = Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  return `${characters.slice(0, CODE_GROUP_LENGTH)}-${characters.slice(CODE_GROUP_LENGTH)}`;
+}
+
+/**
+ * Generate a batch of distinct ballot codes
+ * @param count - How many codes to generate
+ * @returns string[] - Codes as XXXX-XXXX
+ */
+export function generateBallotCodes(count: number): string[] {
+  const codes = new Set<string>();
+  while (codes.size < count) {
+    codes.add(randomCode());
+  }
+  return [...codes];
+}
+
+/**
+ * Bring a ballot code as typed into its stored form
+ * Case, spaces and dashes are ignored, so "abcd efgh" finds ABCD-EFGH.
+ * @param code - The code as typed or scanned
+ * @returns string - The code as XXXX-XXXX when it has the right length, otherwise as typed without separators
+ */
+export function normalizeBallotCode(code: string): string {
+  const characters = code.toUpperCase().replace(/[\s-]/g, '');
+  return characters.length === CODE_GROUP_LENGTH * 2
+    ? `${characters.slice(0, CODE_GROUP_LENGTH)}-${characters.slice(CODE_GROUP_LENGTH)}`
+    : characters;
+}
+
+/**
+ * Check that a ballot code could have been issued
+ * @param code - The code as typed or scanned
+ * @returns boolean - True when the normalized code has the issued format
+ */
+export function isValidBallotCode(code: string): boolean {
+  return CODE_PATTERN.test(normalizeBallotCode(code));
+}
+
+/**
+ * Link printed on a ballot slip, which opens the poll ready to vote with the code
+ * @param origin - The site's origin, e.g. window.location.origin
+ * @param pollId - The ID of the poll
+ * @param code - The ballot code
+ * @returns string - The link
+ */
+export function buildBallotCodeUrl(origin: string, pollId: string, code: string): string {
+  return `${origin}/polls/${pollId}?${BALLOT_CODE_PARAM}=${encodeURIComponent(code)}`;
+}
+
+export interface BallotCodeSummary {
+  issued: number; // Every code, revoked ones included
+  unused: number;
+  spent: number;
+  revoked: number;
+}
+
+/**
+ * Count a poll's ballot codes by status
+ * @param codes - The statuses of the poll's codes
+ * @returns BallotCodeSummary - The counts
+ */
+export function summarizeBallotCodes(codes: { status: BallotCodeStatus }[]): BallotCodeSummary {
+  const count = (status: BallotCodeStatus) => codes.filter(code => code.status === status).length;
+  return { issued: codes.length, unused: count('unused'), spent: count('spent'), revoked: count('revoked') };
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Export ballot codes as CSV, one row per code with its status and slip link
+ * @param codes - The codes to export
+ * @param origin - The site's origin, for the links
+ * @param pollId - The ID of the poll
+ * @returns string - The CSV, with a header row and CRLF line endings
+ */
+export function ballotCodesToCsv(
+  codes: { code: string; status: BallotCodeStatus; spent_at: string | null }[],
+  origin: string,
+  pollId: string
+): string {
+  const rows = [
+    ['code', 'status', 'spent_at', 'link'],
+    ...codes.map(code => [code.code, code.status, code.spent_at ?? '', buildBallotCodeUrl(origin, pollId, code.code)])
+  ];
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
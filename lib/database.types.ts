@@ -16,6 +16,31 @@ export interface Database {
           user_id: string
           created_at: string
           expires_at: string | null
+          poll_type: string
+          min_selections: number
+          max_selections: number | null
+          voter_count: number
+          survey_id: string | null
+          survey_position: number | null
+          is_quiz: boolean
+          time_zone: string | null
+          points_budget: number | null
+          allow_vote_changes: boolean
+          allow_anonymous: boolean
+          is_secret: boolean
+          results_visibility: string
+          opens_at: string | null
+          close_after_votes: number | null
+          eligible_voters: number | null
+          quorum_percent: number | null
+          close_lead_margin: number | null
+          closed_at: string | null
+          close_reason: string | null
+          is_invite_only: boolean
+          has_passcode: boolean
+          is_weighted: boolean
+          allow_delegation: boolean
+          tags: string[]
         }
         Insert: {
           id?: string
@@ -23,6 +48,31 @@ export interface Database {
           user_id: string
           created_at?: string
           expires_at?: string | null
+          poll_type?: string
+          min_selections?: number
+          max_selections?: number | null
+          voter_count?: number
+          survey_id?: string | null
+          survey_position?: number | null
+          is_quiz?: boolean
+          time_zone?: string | null
+          points_budget?: number | null
+          allow_vote_changes?: boolean
+          allow_anonymous?: boolean
+          is_secret?: boolean
+          results_visibility?: string
+          opens_at?: string | null
+          close_after_votes?: number | null
+          eligible_voters?: number | null
+          quorum_percent?: number | null
+          close_lead_margin?: number | null
+          closed_at?: string | null
+          close_reason?: string | null
+          is_invite_only?: boolean
+          has_passcode?: boolean
+          is_weighted?: boolean
+          allow_delegation?: boolean
+          tags?: string[]
         }
         Update: {
           id?: string
@@ -30,6 +80,31 @@ export interface Database {
           user_id?: string
           created_at?: string
           expires_at?: string | null
+          poll_type?: string
+          min_selections?: number
+          max_selections?: number | null
+          voter_count?: number
+          survey_id?: string | null
+          survey_position?: number | null
+          is_quiz?: boolean
+          time_zone?: string | null
+          points_budget?: number | null
+          allow_vote_changes?: boolean
+          allow_anonymous?: boolean
+          is_secret?: boolean
+          results_visibility?: string
+          opens_at?: string | null
+          close_after_votes?: number | null
+          eligible_voters?: number | null
+          quorum_percent?: number | null
+          close_lead_margin?: number | null
+          closed_at?: string | null
+          close_reason?: string | null
+          is_invite_only?: boolean
+          has_passcode?: boolean
+          is_weighted?: boolean
+          allow_delegation?: boolean
+          tags?: string[]
         }
         Relationships: [
           {
@@ -37,6 +112,12 @@ export interface Database {
             columns: ["user_id"]
             referencedRelation: "users"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "polls_survey_id_fkey"
+            columns: ["survey_id"]
+            referencedRelation: "surveys"
+            referencedColumns: ["id"]
           }
         ]
       }
@@ -46,6 +127,9 @@ export interface Database {
           poll_id: string
           option_text: string
           votes: number
+          starts_at: string | null
+          ends_at: string | null
+          image_path: string | null
           created_at: string
         }
         Insert: {
@@ -53,6 +137,9 @@ export interface Database {
           poll_id: string
           option_text: string
           votes?: number
+          starts_at?: string | null
+          ends_at?: string | null
+          image_path?: string | null
           created_at?: string
         }
         Update: {
@@ -60,6 +147,9 @@ export interface Database {
           poll_id?: string
           option_text?: string
           votes?: number
+          starts_at?: string | null
+          ends_at?: string | null
+          image_path?: string | null
           created_at?: string
         }
         Relationships: [
@@ -74,23 +164,29 @@ export interface Database {
       votes: {
         Row: {
           id: string
-          user_id: string
+          user_id: string | null
+          voter_token: string | null
           poll_id: string
-          option_id: string
+          option_id: string | null
+          weight: number
           created_at: string
         }
         Insert: {
           id?: string
-          user_id: string
+          user_id?: string | null
+          voter_token?: string | null
           poll_id: string
-          option_id: string
+          option_id?: string | null
+          weight?: number
           created_at?: string
         }
         Update: {
           id?: string
-          user_id?: string
+          user_id?: string | null
+          voter_token?: string | null
           poll_id?: string
-          option_id?: string
+          option_id?: string | null
+          weight?: number
           created_at?: string
         }
         Relationships: [
@@ -114,6 +210,532 @@ export interface Database {
           }
         ]
       }
+      vote_selections: {
+        Row: {
+          id: string
+          vote_id: string
+          poll_id: string
+          option_id: string
+          rank: number | null
+          score: number | null
+          availability: string | null
+          points: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          vote_id: string
+          poll_id: string
+          option_id: string
+          rank?: number | null
+          score?: number | null
+          availability?: string | null
+          points?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          vote_id?: string
+          poll_id?: string
+          option_id?: string
+          rank?: number | null
+          score?: number | null
+          availability?: string | null
+          points?: number | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vote_selections_vote_id_fkey"
+            columns: ["vote_id"]
+            referencedRelation: "votes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vote_selections_poll_id_fkey"
+            columns: ["poll_id"]
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vote_selections_option_id_fkey"
+            columns: ["option_id"]
+            referencedRelation: "poll_options"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      text_responses: {
+        Row: {
+          id: string
+          vote_id: string
+          poll_id: string
+          response: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          vote_id: string
+          poll_id: string
+          response: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          vote_id?: string
+          poll_id?: string
+          response?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "text_responses_vote_id_fkey"
+            columns: ["vote_id"]
+            referencedRelation: "votes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "text_responses_poll_id_fkey"
+            columns: ["poll_id"]
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      secret_ballots: {
+        Row: {
+          id: string
+          poll_id: string
+          option_ids: string[]
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          option_ids: string[]
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          option_ids?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "secret_ballots_poll_id_fkey"
+            columns: ["poll_id"]
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      poll_invites: {
+        Row: {
+          id: string
+          poll_id: string
+          user_id: string | null
+          email: string | null
+          status: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          user_id?: string | null
+          email?: string | null
+          status?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          user_id?: string | null
+          email?: string | null
+          status?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_invites_poll_id_fkey"
+            columns: ["poll_id"]
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_invites_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      poll_passcodes: {
+        Row: {
+          poll_id: string
+          passcode_hash: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          poll_id: string
+          passcode_hash: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          poll_id?: string
+          passcode_hash?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_passcodes_poll_id_fkey"
+            columns: ["poll_id"]
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      poll_passcode_unlocks: {
+        Row: {
+          id: string
+          poll_id: string
+          user_id: string | null
+          voter_token: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          user_id?: string | null
+          voter_token?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          user_id?: string | null
+          voter_token?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_passcode_unlocks_poll_id_fkey"
+            columns: ["poll_id"]
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_passcode_unlocks_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      ballot_codes: {
+        Row: {
+          id: string
+          poll_id: string
+          code: string
+          status: string
+          spent_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          code: string
+          status?: string
+          spent_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          code?: string
+          status?: string
+          spent_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ballot_codes_poll_id_fkey"
+            columns: ["poll_id"]
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      poll_voter_weights: {
+        Row: {
+          id: string
+          poll_id: string
+          user_id: string | null
+          email: string | null
+          weight: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          user_id?: string | null
+          email?: string | null
+          weight: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          user_id?: string | null
+          email?: string | null
+          weight?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_voter_weights_poll_id_fkey"
+            columns: ["poll_id"]
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_voter_weights_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      vote_delegations: {
+        Row: {
+          id: string
+          delegator_id: string
+          delegate_id: string | null
+          delegate_email: string | null
+          poll_id: string | null
+          tag: string | null
+          created_at: string
+          revoked_at: string | null
+        }
+        Insert: {
+          id?: string
+          delegator_id: string
+          delegate_id?: string | null
+          delegate_email?: string | null
+          poll_id?: string | null
+          tag?: string | null
+          created_at?: string
+          revoked_at?: string | null
+        }
+        Update: {
+          id?: string
+          delegator_id?: string
+          delegate_id?: string | null
+          delegate_email?: string | null
+          poll_id?: string | null
+          tag?: string | null
+          created_at?: string
+          revoked_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vote_delegations_delegator_id_fkey"
+            columns: ["delegator_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vote_delegations_delegate_id_fkey"
+            columns: ["delegate_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vote_delegations_poll_id_fkey"
+            columns: ["poll_id"]
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      quiz_answer_keys: {
+        Row: {
+          option_id: string
+          poll_id: string
+          is_correct: boolean
+          explanation: string | null
+          created_at: string
+        }
+        Insert: {
+          option_id: string
+          poll_id: string
+          is_correct?: boolean
+          explanation?: string | null
+          created_at?: string
+        }
+        Update: {
+          option_id?: string
+          poll_id?: string
+          is_correct?: boolean
+          explanation?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_answer_keys_option_id_fkey"
+            columns: ["option_id"]
+            referencedRelation: "poll_options"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_answer_keys_poll_id_fkey"
+            columns: ["poll_id"]
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      surveys: {
+        Row: {
+          id: string
+          title: string
+          description: string | null
+          user_id: string
+          expires_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          title: string
+          description?: string | null
+          user_id: string
+          expires_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          title?: string
+          description?: string | null
+          user_id?: string
+          expires_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "surveys_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      survey_responses: {
+        Row: {
+          id: string
+          survey_id: string
+          user_id: string
+          progress: Json
+          current_question: number
+          started_at: string
+          updated_at: string
+          completed_at: string | null
+        }
+        Insert: {
+          id?: string
+          survey_id: string
+          user_id: string
+          progress?: Json
+          current_question?: number
+          started_at?: string
+          updated_at?: string
+          completed_at?: string | null
+        }
+        Update: {
+          id?: string
+          survey_id?: string
+          user_id?: string
+          progress?: Json
+          current_question?: number
+          started_at?: string
+          updated_at?: string
+          completed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "survey_responses_survey_id_fkey"
+            columns: ["survey_id"]
+            referencedRelation: "surveys"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "survey_responses_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      survey_branches: {
+        Row: {
+          id: string
+          survey_id: string
+          question_id: string
+          option_id: string
+          target_question_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          survey_id: string
+          question_id: string
+          option_id: string
+          target_question_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          survey_id?: string
+          question_id?: string
+          option_id?: string
+          target_question_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "survey_branches_survey_id_fkey"
+            columns: ["survey_id"]
+            referencedRelation: "surveys"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "survey_branches_question_id_fkey"
+            columns: ["question_id"]
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "survey_branches_option_id_fkey"
+            columns: ["option_id"]
+            referencedRelation: "poll_options"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "survey_branches_target_question_id_fkey"
+            columns: ["target_question_id"]
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       user_roles: {
         Row: {
           id: string
@@ -155,6 +777,208 @@ export interface Database {
         }
         Returns: undefined
       }
+      increment_votes: {
+        Args: {
+          option_ids: string[]
+          poll_id: string
+          user_id: string
+        }
+        Returns: undefined
+      }
+      change_vote: {
+        Args: {
+          option_ids: string[]
+          poll_id: string
+          user_id: string
+        }
+        Returns: undefined
+      }
+      retract_vote: {
+        Args: {
+          poll_id: string
+          user_id: string
+        }
+        Returns: undefined
+      }
+      cast_anonymous_ballot: {
+        Args: {
+          option_ids: string[]
+          poll_id: string
+          voter_token: string
+        }
+        Returns: undefined
+      }
+      cast_code_ballot: {
+        Args: {
+          option_ids: string[]
+          poll_id: string
+          code: string
+        }
+        Returns: undefined
+      }
+      get_vote_breakdown: {
+        Args: {
+          poll_uuid: string
+        }
+        Returns: {
+          anonymous: boolean
+          option_id: string | null
+          votes: number
+        }[]
+      }
+      can_view_poll_results: {
+        Args: {
+          poll_uuid: string
+        }
+        Returns: boolean
+      }
+      get_option_counts: {
+        Args: {
+          poll_uuids: string[]
+        }
+        Returns: {
+          poll_id: string
+          option_id: string
+          votes: number
+        }[]
+      }
+      get_voter_weight: {
+        Args: {
+          poll_uuid: string
+          user_uuid: string
+        }
+        Returns: number | null
+      }
+      get_option_headcounts: {
+        Args: {
+          poll_uuid: string
+        }
+        Returns: {
+          option_id: string
+          voters: number
+        }[]
+      }
+      delegate_vote: {
+        Args: {
+          poll_uuid: string
+          tag_name: string | null
+          delegate_uuid: string | null
+          delegate_address: string | null
+        }
+        Returns: string
+      }
+      get_delegated_tally: {
+        Args: {
+          poll_uuid: string
+        }
+        Returns: {
+          option_id: string | null
+          votes: number
+        }[]
+      }
+      get_ranked_ballots: {
+        Args: {
+          poll_uuid: string
+        }
+        Returns: {
+          ranking: string[]
+        }[]
+      }
+      allocate_points: {
+        Args: {
+          option_ids: string[]
+          points: number[]
+          poll_id: string
+          user_id: string
+        }
+        Returns: undefined
+      }
+      increment_scores: {
+        Args: {
+          option_ids: string[]
+          scores: number[]
+          poll_id: string
+          user_id: string
+        }
+        Returns: undefined
+      }
+      submit_availability: {
+        Args: {
+          option_ids: string[]
+          availability: string[]
+          poll_id: string
+          user_id: string
+        }
+        Returns: undefined
+      }
+      submit_text_response: {
+        Args: {
+          poll_id: string
+          user_id: string
+          response: string
+        }
+        Returns: undefined
+      }
+      get_score_distribution: {
+        Args: {
+          poll_uuid: string
+        }
+        Returns: {
+          option_id: string
+          score: number
+          ballots: number
+        }[]
+      }
+      get_availability_counts: {
+        Args: {
+          poll_uuid: string
+        }
+        Returns: {
+          option_id: string
+          availability: string
+          ballots: number
+        }[]
+      }
+      submit_survey: {
+        Args: {
+          survey_id: string
+          user_id: string
+          answers: Json
+        }
+        Returns: undefined
+      }
+      get_survey_completion: {
+        Args: {
+          survey_ids: string[]
+        }
+        Returns: {
+          survey_id: string
+          started: number
+          completed: number
+        }[]
+      }
+      get_quiz_feedback: {
+        Args: {
+          poll_uuid: string
+        }
+        Returns: {
+          option_id: string
+          is_correct: boolean
+          explanation: string | null
+          selected: boolean
+        }[]
+      }
+      get_quiz_ballots: {
+        Args: {
+          poll_ids: string[]
+        }
+        Returns: {
+          poll_id: string
+          user_id: string
+          participant: string
+          option_ids: string[]
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
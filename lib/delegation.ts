@@ -0,0 +1,107 @@
+/**
+ * Vote delegation
+ *
+ * On a poll that allows delegation, a voter can hand their vote to someone they
+ * trust, for that poll or for every poll with a tag (e.g. "budget"). A
+ * delegation for the poll itself wins over one for a tag. Delegations chain: if
+ * the delegate delegated too, the vote follows them on to the first delegate
+ * who voted. Voting directly overrides a delegation, and a delegation can be
+ * taken back until the poll closes. The vote_delegations_check trigger refuses
+ * delegations that would lead back to the delegator, and get_delegated_tally
+ * counts the delegated votes once the poll has closed.
+ */
+
+/**
+ * Poll types that can take delegations
+ */
+export const DELEGATION_POLL_TYPES = ['single', 'multiple', 'approval'];
+
+/**
+ * Most tags on one poll
+ */
+export const MAX_POLL_TAGS = 5;
+
+/**
+ * Longest tag
+ */
+export const MAX_TAG_LENGTH = 30;
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+export interface ParsedTags {
+  tags: string[]; // Lower case, as stored in polls.tags and vote_delegations.tag
+  invalid: string[]; // Entries that aren't a tag, as typed
+}
+
+/**
+ * Bring a tag to the form it is stored in: lower case, without a leading "#",
+ * with spaces turned into hyphens
+ * @param tag - The tag as typed
+ * @returns string - The stored form, or an empty string if nothing is left
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Check that a tag in stored form is one a poll can have
+ * @param tag - The normalized tag
+ * @returns boolean - True for letters, digits, hyphens and underscores up to MAX_TAG_LENGTH
+ */
+export function isValidTag(tag: string): boolean {
+  return tag.length <= MAX_TAG_LENGTH && TAG_PATTERN.test(tag);
+}
+
+/**
+ * Read a list of tags separated by commas or line breaks
+ * Duplicates are dropped; "Team Budget" becomes "team-budget".
+ * @param input - The tags as typed, or already split into entries
+ * @returns ParsedTags - The tags, and the entries that aren't one
+ */
+export function parseTags(input: string | string[]): ParsedTags {
+  const entries = (Array.isArray(input) ? input : input.split(/[,\n]+/))
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0);
+
+  const tags = new Set<string>();
+  const invalid: string[] = [];
+
+  for (const entry of entries) {
+    const tag = normalizeTag(entry);
+    if (isValidTag(tag)) {
+      tags.add(tag);
+    } else {
+      invalid.push(entry);
+    }
+  }
+
+  return { tags: [...tags], invalid };
+}
+
+export interface DelegationScope {
+  poll_id: string | null;
+  tag: string | null;
+  created_at: string;
+}
+
+/**
+ * Pick the delegation that applies to a poll out of a voter's standing delegations
+ * Mirrors get_poll_delegations: a delegation for the poll wins, otherwise the
+ * most recent one for a tag the poll has.
+ * @param delegations - The voter's delegations that haven't been taken back
+ * @param poll - The poll's ID and tags
+ * @returns The delegation that applies, or null if none does
+ */
+export function pickDelegation<T extends DelegationScope>(
+  delegations: T[],
+  poll: { id: string; tags: string[] }
+): T | null {
+  const forPoll = delegations.find(delegation => delegation.poll_id === poll.id);
+  if (forPoll) return forPoll;
+
+  const forTags = delegations
+    .filter(delegation => delegation.tag !== null && poll.tags.includes(delegation.tag))
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+
+  return forTags[0] ?? null;
+}
@@ -0,0 +1,153 @@
+/**
+ * Live poll results
+ *
+ * While a poll is open and the viewer may see its results, the poll page joins
+ * the poll's private Supabase Realtime topic, where triggers broadcast its
+ * option counts and voter count. The server only lets in viewers who may see
+ * the counts (see add_live_results.sql). Option counts are updated in place as changes arrive; results derived from
+ * whole ballots (runoffs, score distributions, ...) are reloaded once a burst
+ * of changes has settled. If the connection drops, the subscription is retried
+ * with a growing delay and the counts are reloaded once it is back, so changes
+ * missed in between aren't lost.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+
+export type LiveStatus = 'off' | 'connecting' | 'live' | 'reconnecting';
+
+/**
+ * Quiet time after the last change before derived results are reloaded
+ */
+export const LIVE_SETTLE_MS = 750;
+
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+
+/**
+ * Delay before the next attempt to resubscribe
+ * @param attempt - Attempts made since the connection was last up, from 0
+ * @returns number - Milliseconds, doubling per attempt up to 30 seconds
+ */
+export function retryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS);
+}
+
+/**
+ * Count of an option as broadcast by Realtime
+ */
+export interface LiveOptionRow {
+  id: string;
+  votes: number | null;
+}
+
+/**
+ * Apply a changed option count to the options on screen
+ * @param options - The options shown, with their counts
+ * @param row - The changed poll_options row
+ * @returns The options with the changed one updated, or the same array if nothing shown changed
+ */
+export function applyOptionCount<T extends { id: string; votes: number }>(options: T[], row: LiveOptionRow): T[] {
+  const votes = row.votes ?? 0;
+  if (!options.some(option => option.id === row.id && option.votes !== votes)) {
+    return options;
+  }
+  return options.map(option => (option.id === row.id ? { ...option, votes } : option));
+}
+
+interface LiveResultsHandlers {
+  onOptionChange: (row: LiveOptionRow) => void; // An option's count changed
+  onPollChange: (row: Record<string, unknown>) => void; // The poll's voter count or closing time changed
+  onSettled: () => void; // Changes stopped arriving for LIVE_SETTLE_MS
+  onResync: () => void; // The subscription came back after a drop, or options were added or removed
+}
+
+/**
+ * Subscribe to a poll's counts while enabled
+ * The channel is removed when the page unmounts, the poll changes or
+ * `enabled` turns false, e.g. once the poll closes.
+ * @param supabase - A browser client
+ * @param pollId - The poll shown
+ * @param enabled - Whether the viewer may see live results right now
+ * @param handlers - Called as changes arrive; the latest ones are always used
+ * @returns LiveStatus - The state of the subscription, for the live indicator
+ */
+export function useLiveResults(
+  supabase: SupabaseClient,
+  pollId: string,
+  enabled: boolean,
+  handlers: LiveResultsHandlers
+): LiveStatus {
+  const [status, setStatus] = useState<LiveStatus>('off');
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled || !pollId) {
+      setStatus('off');
+      return;
+    }
+
+    let channel: RealtimeChannel | null = null;
+    let attempt = 0;
+    let hasConnected = false;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let settleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const settle = () => {
+      clearTimeout(settleTimer);
+      settleTimer = setTimeout(() => handlersRef.current.onSettled(), LIVE_SETTLE_MS);
+    };
+
+    const subscribe = () => {
+      // Private, so the server checks the viewer may see the counts before letting them join
+      const current: RealtimeChannel = supabase
+        .channel(`poll-results:${pollId}`, { config: { private: true } })
+        .on('broadcast', { event: 'option' }, ({ payload }) => {
+          handlersRef.current.onOptionChange(payload as LiveOptionRow);
+          settle();
+        })
+        .on('broadcast', { event: 'options' }, () => {
+          handlersRef.current.onResync();
+        })
+        .on('broadcast', { event: 'poll' }, ({ payload }) => {
+          handlersRef.current.onPollChange(payload);
+          settle();
+        })
+        .subscribe(state => {
+          // Ignore a channel that has since been replaced or removed
+          if (channel !== current) return;
+
+          if (state === 'SUBSCRIBED') {
+            // Catch up on anything that changed while the connection was down
+            if (hasConnected) handlersRef.current.onResync();
+            hasConnected = true;
+            attempt = 0;
+            setStatus('live');
+          } else {
+            setStatus('reconnecting');
+            channel = null;
+            supabase.removeChannel(current);
+            retryTimer = setTimeout(subscribe, retryDelay(attempt++));
+          }
+        });
+
+      channel = current;
+    };
+
+    setStatus('connecting');
+    subscribe();
+
+    return () => {
+      clearTimeout(retryTimer);
+      clearTimeout(settleTimer);
+      if (channel) {
+        const current = channel;
+        channel = null;
+        supabase.removeChannel(current);
+      }
+    };
+  }, [supabase, pollId, enabled]);
+
+  return status;
+}
@@ -0,0 +1,87 @@
+/**
+ * Option images
+ *
+ * Options of choice polls can carry an image. Images live in the public
+ * poll-images storage bucket under a name from FileValidator.generateSecureFilename;
+ * poll_options.image_path stores that name and the public URL is derived from it.
+ * Images are removed from storage when their option or poll is deleted.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { FileValidator, SECURITY_CONFIG } from './security';
+
+export const OPTION_IMAGE_BUCKET = 'poll-images';
+
+/**
+ * Poll types whose ballot can show options as an image grid
+ */
+export const IMAGE_POLL_TYPES = ['single', 'multiple', 'approval'];
+
+/**
+ * Check that a stored image path is a name generateSecureFilename could have produced
+ */
+export function isValidImagePath(path: string): boolean {
+  if (!/^[a-zA-Z0-9_-]+\.[a-z]+$/.test(path)) return false;
+
+  const extension = path.substring(path.lastIndexOf('.'));
+  return (SECURITY_CONFIG.FILE_UPLOAD.ALLOWED_EXTENSIONS as readonly string[]).includes(extension);
+}
+
+/**
+ * Check an image picked for an option: type, size, name and file signature
+ * @returns Promise<string | null> - The problem with the file, or null when it can be uploaded
+ */
+export async function checkOptionImage(file: File): Promise<string | null> {
+  const validation = FileValidator.validateFile(file);
+  if (!validation.isValid) {
+    return validation.error ?? 'Invalid file upload';
+  }
+
+  return await FileValidator.hasImageSignature(file) ? null : 'File is not a valid image';
+}
+
+/**
+ * Upload an option image
+ * @returns Promise<string> - The storage path to save in poll_options.image_path
+ */
+export async function uploadOptionImage(supabase: SupabaseClient, file: File, userId: string): Promise<string> {
+  const path = FileValidator.generateSecureFilename(file.name, userId);
+
+  const { error } = await supabase.storage
+    .from(OPTION_IMAGE_BUCKET)
+    .upload(path, file, {
+      cacheControl: '3600',
+      upsert: false
+    });
+
+  if (error) throw error;
+
+  return path;
+}
+
+/**
+ * Public URL of an option image
+ * @returns string | null - The URL, or null when the option has no image
+ */
+export function getOptionImageUrl(supabase: SupabaseClient, path: string | null | undefined): string | null {
+  return path ? supabase.storage.from(OPTION_IMAGE_BUCKET).getPublicUrl(path).data.publicUrl : null;
+}
+
+/**
+ * Remove option images from storage
+ * A failure is only logged: the rows are already gone and a stray file does no harm.
+ * @param paths - Image paths of the deleted options; empty entries are skipped
+ */
+export async function removeOptionImages(
+  supabase: SupabaseClient,
+  paths: (string | null | undefined)[]
+): Promise<void> {
+  const existing = paths.filter((path): path is string => !!path);
+  if (existing.length === 0) return;
+
+  const { error } = await supabase.storage.from(OPTION_IMAGE_BUCKET).remove(existing);
+
+  if (error) {
+    console.warn('Failed to remove option images:', error.message);
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Poll passcode hashing
+ *
+ * Passcodes are stored as salted scrypt hashes in poll_passcodes, and attempts
+ * to enter one are throttled per poll and voter. Server-only.
+ */
+
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { RateLimiter, SECURITY_CONFIG } from './security';
+import { normalizePasscode } from './poll-passcodes';
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 32;
+
+/**
+ * Hash a passcode for poll_passcodes
+ * @param passcode - The passcode as typed
+ * @returns string - "scrypt$<salt>$<hash>", both base64url
+ */
+export function hashPasscode(passcode: string): string {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = scryptSync(normalizePasscode(passcode), salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+}
+
+/**
+ * Check a passcode against a stored hash
+ * @param passcode - The passcode as entered
+ * @param storedHash - The hash from poll_passcodes
+ * @returns boolean - True when the passcode matches
+ */
+export function verifyPasscode(passcode: string, storedHash: string): boolean {
+  const [scheme, salt, hash] = storedHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64url');
+  const actual = scryptSync(normalizePasscode(passcode), Buffer.from(salt, 'base64url'), expected.length);
+
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Throttle attempts to enter a poll's passcode
+ * Every attempt counts, so guessing slows down while the right code still
+ * gets through on the first try.
+ * @param pollId - The ID of the poll
+ * @param attempter - The user ID, or the client address of a visitor without an account
+ * @returns boolean - True when too many attempts were made in the last minute
+ */
+export function isPasscodeAttemptRateLimited(pollId: string, attempter: string): boolean {
+  return RateLimiter.isRateLimited(
+    `poll-passcode:${pollId}:${attempter}`,
+    SECURITY_CONFIG.RATE_LIMITS.PASSCODE_ATTEMPTS_PER_MINUTE,
+    60 * 1000
+  );
+}
+
+/**
+ * Whether a poll has seen too many wrong passcodes in the last hour
+ * Counts every attempter together, so guessing from many addresses or
+ * accounts still stops. Voters who unlocked the poll before aren't asked again.
+ * @param pollId - The ID of the poll
+ * @returns boolean - True while the poll takes no more passcode attempts
+ */
+export function isPasscodeGuessingLocked(pollId: string): boolean {
+  return RateLimiter.hasReachedLimit(
+    `poll-passcode-failures:${pollId}`,
+    SECURITY_CONFIG.RATE_LIMITS.PASSCODE_FAILURES_PER_HOUR,
+    60 * 60 * 1000
+  );
+}
+
+/**
+ * Count a wrong passcode towards the poll's hourly limit
+ */
+export function recordPasscodeFailure(pollId: string): void {
+  RateLimiter.record(`poll-passcode-failures:${pollId}`);
+}
@@ -0,0 +1,51 @@
+/**
+ * Budget (dot voting) polls
+ *
+ * Each voter gets points_budget points to spread across the options however
+ * they like: all on one option, one on each, or anything in between. Points
+ * don't have to be used up. allocate_points stores one vote_selections row per
+ * option given points and adds the points to poll_options.votes, so the totals
+ * are read like any other poll and get_option_headcounts counts the voters who
+ * backed each option.
+ */
+
+/**
+ * Points per voter when the creator doesn't pick a budget
+ */
+export const DEFAULT_POINTS_BUDGET = 10;
+
+/**
+ * Largest budget a poll can have; matches polls_budget_check
+ */
+export const MAX_POINTS_BUDGET = 100;
+
+/**
+ * Points given out on a ballot
+ * @param points - Points per option ID
+ * @returns number - The sum, counting only whole numbers above zero
+ */
+export function pointsSpent(points: Record<string, number>): number {
+  return Object.values(points).reduce(
+    (sum, given) => sum + (Number.isInteger(given) && given > 0 ? given : 0),
+    0
+  );
+}
+
+/**
+ * Points a voter still has to give out
+ * @param points - Points per option ID
+ * @param budget - The poll's points_budget
+ * @returns number - What's left of the budget; negative when it is overspent
+ */
+export function pointsLeft(points: Record<string, number>, budget: number): number {
+  return budget - pointsSpent(points);
+}
+
+/**
+ * Drop the options given no points, which allocate_points leaves out
+ * @param points - Points per option ID, as entered
+ * @returns Record<string, number> - Only the options given points
+ */
+export function withoutUnusedOptions(points: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(points).filter(([, given]) => given !== 0));
+}
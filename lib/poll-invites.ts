@@ -0,0 +1,72 @@
+/**
+ * Invite-only polls
+ *
+ * A private poll only takes ballots from the people its creator invited, by
+ * email address or user ID. Each invite in poll_invites has a status: pending
+ * until the invitee votes, voted once they have (kept in step by a trigger on
+ * votes), or revoked by the creator. The creator sees the turnout from the
+ * statuses alone; the invitees' choices stay on their ballots.
+ */
+
+export const INVITE_STATUSES = ['pending', 'voted', 'revoked'] as const;
+
+export type InviteStatus = typeof INVITE_STATUSES[number];
+
+/**
+ * Most invitees added in one go
+ */
+export const MAX_INVITEES = 200;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const USER_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface ParsedInvitees {
+  emails: string[]; // Lower case, as stored in poll_invites.email
+  userIds: string[];
+  invalid: string[]; // Entries that are neither, as typed
+}
+
+/**
+ * Sort a list of invitees into email addresses and user IDs
+ * Entries may be separated by commas, semicolons or line breaks; duplicates are dropped.
+ * @param input - The invitees as typed, or already split into entries
+ * @returns ParsedInvitees - The emails and user IDs, and the entries that are neither
+ */
+export function parseInvitees(input: string | string[]): ParsedInvitees {
+  const entries = (Array.isArray(input) ? input : input.split(/[\s,;]+/))
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0);
+
+  const emails = new Set<string>();
+  const userIds = new Set<string>();
+  const invalid: string[] = [];
+
+  for (const entry of entries) {
+    if (USER_ID_PATTERN.test(entry)) {
+      userIds.add(entry.toLowerCase());
+    } else if (EMAIL_PATTERN.test(entry)) {
+      emails.add(entry.toLowerCase());
+    } else {
+      invalid.push(entry);
+    }
+  }
+
+  return { emails: [...emails], userIds: [...userIds], invalid };
+}
+
+export interface Turnout {
+  invited: number; // Invites that haven't been revoked
+  voted: number;
+  pending: number;
+}
+
+/**
+ * Count how many invitees have voted
+ * @param invites - The statuses of a poll's invites
+ * @returns Turnout - Revoked invites are left out
+ */
+export function summarizeTurnout(invites: { status: InviteStatus }[]): Turnout {
+  const voted = invites.filter(invite => invite.status === 'voted').length;
+  const pending = invites.filter(invite => invite.status === 'pending').length;
+  return { invited: voted + pending, voted, pending };
+}
@@ -0,0 +1,51 @@
+/**
+ * Passcode-protected polls
+ *
+ * A lighter alternative to invitations for casual events: the creator sets an
+ * access code, and people enter it once before they can see or vote on the
+ * poll. Only a hash of the code is stored (see passcode-hash.ts); entering it
+ * records an unlock in poll_passcode_unlocks, which the votes_reject_locked
+ * trigger checks. Until then RLS hides the poll and its options, so the server
+ * loads them for visitors once the code checks out. Share links and QR codes can
+ * carry the code so nobody has to type it.
+ */
+
+export const PASSCODE_LENGTH = {
+  min: 4,
+  max: 32,
+} as const;
+
+/**
+ * Query parameter carrying the passcode in share links
+ */
+export const PASSCODE_PARAM = 'code';
+
+/**
+ * The passcode as it is hashed and checked: surrounding whitespace is dropped
+ */
+export function normalizePasscode(passcode: string): string {
+  return passcode.trim();
+}
+
+/**
+ * Check a passcode's length; it may not contain whitespace, so it survives a share link
+ * @param passcode - The passcode as typed
+ * @returns boolean - True when the passcode can be set on a poll
+ */
+export function isValidPasscode(passcode: string): boolean {
+  const code = normalizePasscode(passcode);
+  return code.length >= PASSCODE_LENGTH.min && code.length <= PASSCODE_LENGTH.max && !/\s/.test(code);
+}
+
+/**
+ * Link to a poll, with its passcode when one is given
+ * @param origin - The site's origin, e.g. window.location.origin
+ * @param pollId - The ID of the poll
+ * @param passcode - The passcode to embed, if any
+ * @returns string - The poll's URL
+ */
+export function buildPollUrl(origin: string, pollId: string, passcode?: string | null): string {
+  const url = `${origin}/polls/${pollId}`;
+  const code = passcode ? normalizePasscode(passcode) : '';
+  return code ? `${url}?${PASSCODE_PARAM}=${encodeURIComponent(code)}` : url;
+}
@@ -0,0 +1,48 @@
+/**
+ * Poll schedule
+ *
+ * A poll can be set up ahead of time with an opening time (opens_at) as well
+ * as an expiry (expires_at). The voting functions in the database reject
+ * ballots outside that window; these helpers give the same answer to the UI.
+ * A poll that closed early on an auto-close rule (closed_at) counts as expired.
+ */
+
+/**
+ * Where a poll is in its lifetime: not open yet, accepting votes, or past its expiry or closed
+ */
+export type PollStatus = 'scheduled' | 'ongoing' | 'expired';
+
+export interface PollSchedule {
+  opens_at: string | null;
+  expires_at: string | null;
+  closed_at?: string | null;
+}
+
+/**
+ * Work out a poll's status from its schedule
+ * @param poll - The poll's opening and closing times
+ * @param now - The current time
+ * @returns PollStatus - scheduled before opens_at, expired from expires_at on or once closed, otherwise ongoing
+ */
+export function getPollStatus(poll: PollSchedule, now: Date = new Date()): PollStatus {
+  if (poll.closed_at || (poll.expires_at && new Date(poll.expires_at) <= now)) return 'expired';
+  if (poll.opens_at && new Date(poll.opens_at) > now) return 'scheduled';
+  return 'ongoing';
+}
+
+/**
+ * Format the time left until a poll opens, e.g. "2d 3h 15m" or "4m 09s"
+ * Seconds are only shown in the last hour, when the countdown ticks visibly.
+ * @param milliseconds - Time remaining; zero or less formats as "0m 00s"
+ */
+export function formatCountdown(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+}
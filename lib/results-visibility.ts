@@ -0,0 +1,88 @@
+/**
+ * Results visibility
+ *
+ * Seeing the running tally before voting can sway the answer, so each poll
+ * says when its results are shown: always, once you have voted, once the poll
+ * has closed, or only to its creator. The creator can always see them, except on
+ * secret-ballot polls: nobody sees those counts before the poll closes, as
+ * watching them change ballot by ballot could tell who chose what.
+ * getPollOperation and GET /api/polls/[id] leave the counts out for everyone else,
+ * and the database keeps them back too: can_view_poll_results applies the same
+ * rules to get_option_counts and the tally functions.
+ */
+
+/**
+ * When a poll's results are shown to voters
+ */
+export const RESULTS_VISIBILITY = ['always', 'after_vote', 'after_close', 'creator'] as const;
+
+export type ResultsVisibility = typeof RESULTS_VISIBILITY[number];
+
+/**
+ * What the viewer's access to a poll's results depends on
+ */
+export interface ResultsViewer {
+  isCreator: boolean;
+  hasVoted: boolean;
+  isClosed: boolean;
+  isSecret: boolean; // Secret-ballot poll
+}
+
+/**
+ * Whether a poll is no longer open for votes
+ * @param poll - The poll's closing time, if it has one, and when an auto-close rule closed it
+ * @param now - The current time
+ * @returns boolean - True once the poll has closed or its closing time has passed
+ */
+export function isPollClosed(
+  poll: { expires_at: string | null | undefined; closed_at?: string | null },
+  now: Date = new Date()
+): boolean {
+  return !!poll.closed_at || (!!poll.expires_at && new Date(poll.expires_at) <= now);
+}
+
+/**
+ * Whether a viewer may see a poll's results
+ * @param visibility - The poll's results visibility setting
+ * @param viewer - Who is asking
+ * @returns boolean - True when the counts can be shown
+ */
+export function canViewResults(visibility: ResultsVisibility, viewer: ResultsViewer): boolean {
+  if (viewer.isSecret && !viewer.isClosed) return false;
+  if (viewer.isCreator) return true;
+
+  switch (visibility) {
+    case 'always':
+      return true;
+    case 'after_vote':
+      return viewer.hasVoted || viewer.isClosed;
+    case 'after_close':
+      return viewer.isClosed;
+    case 'creator':
+      return false;
+  }
+}
+
+/**
+ * A sentence telling voters when a poll's results will be shown
+ * @param visibility - The poll's results visibility setting
+ * @param isSecret - Whether the poll takes secret ballots, whose results wait for it to close
+ */
+export function describeResultsVisibility(visibility: ResultsVisibility, isSecret: boolean = false): string {
+  if (isSecret) {
+    return visibility === 'creator'
+      ? 'This is a secret ballot: only the poll creator can see the results, once the poll closes.'
+      : 'This is a secret ballot: results are shown when the poll closes.';
+  }
+
+  switch (visibility) {
+    case 'always':
+      return 'Results are visible to everyone.';
+    case 'after_vote':
+      return 'Results are shown once you have voted.';
+    case 'after_close':
+      return 'Results are shown when the poll closes.';
+    case 'creator':
+      return 'Only the poll creator can see the results.';
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Secret ballots
+ *
+ * On a secret-ballot poll the votes table only records who took part. The
+ * choices go to secret_ballots with no voter, vote or timestamp, so nobody,
+ * not even the poll creator or an admin, can tell who voted what. Features
+ * that need a voter's own ballot back, such as quiz feedback and vote changes,
+ * aren't available on these polls.
+ */
+
+/**
+ * Poll types that can be run as a secret ballot
+ */
+export const SECRET_BALLOT_POLL_TYPES = ['single', 'multiple', 'ranked', 'approval'];
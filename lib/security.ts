@@ -1,5 +1,16 @@
 import DOMPurify from 'dompurify';
 import { z } from 'zod';
+import { QUIZ_POLL_TYPES } from '@/lib/tabulation';
+import { VOTE_CHANGE_POLL_TYPES } from '@/lib/vote-changes';
+import { ANONYMOUS_POLL_TYPES } from '@/lib/anonymous-voting';
+import { SECRET_BALLOT_POLL_TYPES } from '@/lib/secret-ballots';
+import { RESULTS_VISIBILITY } from '@/lib/results-visibility';
+import { LEAD_MARGIN_POLL_TYPES } from '@/lib/auto-close';
+import { MAX_INVITEES, parseInvitees } from '@/lib/poll-invites';
+import { PASSCODE_LENGTH, isValidPasscode } from '@/lib/poll-passcodes';
+import { MAX_WEIGHTED_VOTERS, WEIGHTED_POLL_TYPES, parseVoterWeights } from '@/lib/voter-weights';
+import { DELEGATION_POLL_TYPES, MAX_POLL_TAGS, parseTags } from '@/lib/delegation';
+import { MAX_POINTS_BUDGET } from '@/lib/points-budget';
 
 /**
  * Security Configuration Constants
@@ -16,13 +27,21 @@ export const SECURITY_CONFIG = {
     POLL_QUESTION_MAX: 500,
     POLL_OPTION_MAX: 200,
     POLL_TITLE_MAX: 100,
+    TEXT_RESPONSE_MAX: 500,
     MIN_OPTIONS: 2,
     MAX_OPTIONS: 10,
+    MAX_SURVEY_QUESTIONS: 20,
+    QUIZ_EXPLANATION_MAX: 300,
   },
   // Rate limiting (future implementation)
   RATE_LIMITS: {
     POLL_CREATION: 5, // polls per hour
     VOTES_PER_MINUTE: 3,
+    PASSCODE_ATTEMPTS_PER_MINUTE: 5, // per poll and voter
+    PASSCODE_FAILURES_PER_HOUR: 100, // per poll, from everyone together
+    BALLOT_CODE_ATTEMPTS_PER_MINUTE: 10, // per client address
+    BALLOT_CODE_FAILURES_PER_HOUR: 100, // unknown codes per poll, from everyone together
+    STREAMS_PER_POLL: 50, // open vote streams per poll and server
   }
 } as const;
 
@@ -150,6 +169,23 @@ export class FileValidator {
     return { isValid: true };
   }
 
+  /**
+   * Check the file content (magic bytes) is really a JPEG, PNG, GIF or WebP image
+   */
+  static async hasImageSignature(file: File): Promise<boolean> {
+    const bytes = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+    const hex = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+    const validMagicBytes = [
+      'ffd8ff', // JPEG
+      '89504e', // PNG
+      '47494638', // GIF
+      '52494646' // WebP (RIFF)
+    ];
+
+    return validMagicBytes.some(magic => hex.startsWith(magic));
+  }
+
   /**
    * Generate secure filename
    */
@@ -184,10 +220,19 @@ export const ValidationSchemas = {
           .max(SECURITY_CONFIG.TEXT_LIMITS.POLL_OPTION_MAX,
                `Option must not exceed ${SECURITY_CONFIG.TEXT_LIMITS.POLL_OPTION_MAX} characters`)
           .transform(InputSanitizer.sanitizeText),
-        id: z.string().optional()
+        id: z.string().optional(),
+        // Quiz answer key
+        isCorrect: z.boolean().optional(),
+        explanation: z
+          .string()
+          .max(SECURITY_CONFIG.TEXT_LIMITS.QUIZ_EXPLANATION_MAX,
+               `Explanation must not exceed ${SECURITY_CONFIG.TEXT_LIMITS.QUIZ_EXPLANATION_MAX} characters`)
+          .transform(InputSanitizer.sanitizeText)
+          .optional(),
+        // Time slot on scheduling polls
+        startsAt: z.string().optional(),
+        endsAt: z.string().optional()
       }))
-      .min(SECURITY_CONFIG.TEXT_LIMITS.MIN_OPTIONS, 
-           `At least ${SECURITY_CONFIG.TEXT_LIMITS.MIN_OPTIONS} options required`)
       .max(SECURITY_CONFIG.TEXT_LIMITS.MAX_OPTIONS,
            `Maximum ${SECURITY_CONFIG.TEXT_LIMITS.MAX_OPTIONS} options allowed`)
       .refine(
@@ -206,6 +251,9 @@ export const ValidationSchemas = {
         (date) => !date || new Date(date) > new Date(),
         { message: 'Expiration date must be in the future' }
       ),
+    
+    // Scheduled opening; votes are rejected until then
+    opensAt: z.string().optional(),
       
     // Optional file upload
     image: z
@@ -214,8 +262,172 @@ export const ValidationSchemas = {
       .refine(
         (file) => !file || FileValidator.validateFile(file).isValid,
         { message: 'Invalid file upload' }
-      )
-  }),
+      ),
+
+    // Single choice or multi-select ("choose up to N")
+    pollType: z.enum(['single', 'multiple', 'ranked', 'approval', 'score', 'text', 'schedule', 'budget']).optional(),
+    minSelections: z
+      .number()
+      .int('Minimum selections must be a whole number')
+      .min(1, 'Minimum selections must be at least 1')
+      .optional(),
+    maxSelections: z
+      .number()
+      .int('Maximum selections must be a whole number')
+      .min(1, 'Maximum selections must be at least 1')
+      .optional(),
+
+    // Budget polls: points each voter spreads across the options
+    pointsBudget: z
+      .number()
+      .int('The points budget must be a whole number')
+      .min(1, 'The points budget must be at least 1')
+      .max(MAX_POINTS_BUDGET, `The points budget cannot exceed ${MAX_POINTS_BUDGET}`)
+      .optional(),
+
+    // Quiz mode: options are marked correct and participants are scored
+    isQuiz: z.boolean().optional(),
+
+    // Voters may change or withdraw their vote until the poll expires
+    allowVoteChanges: z.boolean().optional(),
+
+    // Visitors without an account may vote, identified by a voter token cookie
+    allowAnonymous: z.boolean().optional(),
+
+    // Secret ballot: choices are stored apart from who voted
+    isSecret: z.boolean().optional(),
+
+    // When voters see the results
+    resultsVisibility: z.enum(RESULTS_VISIBILITY).optional(),
+
+    // Auto-close rules: a vote cap, a quorum of eligible voters and a lead margin
+    closeAfterVotes: z.number().int().min(1, 'The vote limit must be at least 1').nullable().optional(),
+    eligibleVoters: z.number().int().min(1, 'Eligible voters must be at least 1').nullable().optional(),
+    quorumPercent: z.number().int().min(1).max(100, 'The quorum must be between 1% and 100%').nullable().optional(),
+    closeLeadMargin: z.number().int().min(1, 'The lead margin must be at least 1').nullable().optional(),
+
+    // Invite-only: only the listed emails or user IDs may vote
+    isInviteOnly: z.boolean().optional(),
+    invitees: z.string().optional(),
+
+    // Access code voters enter before they can see or vote on the poll
+    passcode: z.string().optional(),
+
+    // Weighted voting: each listed voter's ballot counts their weight
+    isWeighted: z.boolean().optional(),
+    voterWeights: z.string().optional(),
+
+    // Delegation: voters may hand their vote to another user, for this poll or its tags
+    allowDelegation: z.boolean().optional(),
+    tags: z.string().optional()
+  })
+  // Text response polls collect written answers instead of choosing from options
+  .refine(
+    (data) => data.pollType === 'text' || data.options.length >= SECURITY_CONFIG.TEXT_LIMITS.MIN_OPTIONS,
+    { message: `At least ${SECURITY_CONFIG.TEXT_LIMITS.MIN_OPTIONS} options required`, path: ['options'] }
+  )
+  .refine(
+    (data) => data.pollType !== 'multiple' || data.maxSelections === undefined ||
+      data.maxSelections >= (data.minSelections ?? 1),
+    { message: 'Maximum selections cannot be less than minimum selections', path: ['maxSelections'] }
+  )
+  .refine(
+    (data) => data.pollType !== 'multiple' ||
+      Math.max(data.minSelections ?? 1, data.maxSelections ?? 1) <= data.options.length,
+    { message: 'Selection limits cannot exceed the number of options', path: ['maxSelections'] }
+  )
+  .refine(
+    (data) => !data.isQuiz || QUIZ_POLL_TYPES.includes(data.pollType ?? 'single'),
+    { message: 'Only single choice, multiple choice and approval polls can be quizzes', path: ['isQuiz'] }
+  )
+  .refine(
+    (data) => !data.isQuiz || data.options.some(option => option.isCorrect),
+    { message: 'Mark at least one option as correct', path: ['options'] }
+  )
+  .refine(
+    (data) => data.pollType !== 'budget' || data.pointsBudget !== undefined,
+    { message: 'Set how many points each voter gets', path: ['pointsBudget'] }
+  )
+  .refine(
+    (data) => data.pollType !== 'schedule' || data.options.every(option => option.startsAt),
+    { message: 'Every time slot needs a start time', path: ['options'] }
+  )
+  .refine(
+    (data) => !data.allowVoteChanges || (VOTE_CHANGE_POLL_TYPES.includes(data.pollType ?? 'single') && !data.isQuiz),
+    { message: 'Only single choice, multiple choice, ranked and approval polls that are not quizzes can allow vote changes', path: ['allowVoteChanges'] }
+  )
+  .refine(
+    (data) => !data.allowAnonymous || (ANONYMOUS_POLL_TYPES.includes(data.pollType ?? 'single') && !data.isQuiz),
+    { message: 'Only single choice, multiple choice, ranked and approval polls that are not quizzes can allow anonymous votes', path: ['allowAnonymous'] }
+  )
+  .refine(
+    (data) => !data.isSecret || (SECRET_BALLOT_POLL_TYPES.includes(data.pollType ?? 'single') && !data.isQuiz && !data.allowVoteChanges),
+    { message: 'Only single choice, multiple choice, ranked and approval polls without quiz mode or vote changes can be secret ballots', path: ['isSecret'] }
+  )
+  .refine(
+    (data) => !data.opensAt || !data.expiresAt || new Date(data.opensAt) < new Date(data.expiresAt),
+    { message: 'The poll must open before it expires', path: ['opensAt'] }
+  )
+  .refine(
+    (data) => data.quorumPercent == null || data.eligibleVoters != null,
+    { message: 'A quorum needs the number of eligible voters', path: ['eligibleVoters'] }
+  )
+  .refine(
+    (data) => data.closeLeadMargin == null || LEAD_MARGIN_POLL_TYPES.includes(data.pollType ?? 'single'),
+    { message: 'Only choice polls can close on a lead margin', path: ['closeLeadMargin'] }
+  )
+  .refine(
+    (data) => !data.isInviteOnly || !data.allowAnonymous,
+    { message: 'Invite-only polls cannot allow anonymous votes', path: ['isInviteOnly'] }
+  )
+  .refine(
+    (data) => !data.isInviteOnly || !data.invitees || parseInvitees(data.invitees).invalid.length === 0,
+    { message: 'Enter email addresses or user IDs, separated by commas or new lines', path: ['invitees'] }
+  )
+  .refine(
+    (data) => {
+      if (!data.isInviteOnly || !data.invitees) return true;
+      const { emails, userIds } = parseInvitees(data.invitees);
+      return emails.length + userIds.length <= MAX_INVITEES;
+    },
+    { message: `Cannot invite more than ${MAX_INVITEES} people at once`, path: ['invitees'] }
+  )
+  .refine(
+    (data) => !data.passcode?.trim() || isValidPasscode(data.passcode),
+    { message: `The passcode must be ${PASSCODE_LENGTH.min} to ${PASSCODE_LENGTH.max} characters without spaces`, path: ['passcode'] }
+  )
+  .refine(
+    (data) => !data.isWeighted || (WEIGHTED_POLL_TYPES.includes(data.pollType ?? 'single') && !data.isQuiz),
+    { message: 'Only single choice, multiple choice and approval polls that are not quizzes can be weighted', path: ['isWeighted'] }
+  )
+  .refine(
+    (data) => !data.isWeighted || (!data.allowAnonymous && !data.isSecret && !data.allowVoteChanges),
+    { message: 'Weighted polls cannot allow anonymous votes, secret ballots or vote changes', path: ['isWeighted'] }
+  )
+  .refine(
+    (data) => !data.isWeighted || !data.voterWeights || parseVoterWeights(data.voterWeights).invalid.length === 0,
+    { message: 'Enter one voter per line: an email address or user ID, then a whole number weight', path: ['voterWeights'] }
+  )
+  .refine(
+    (data) => !data.isWeighted || !data.voterWeights || parseVoterWeights(data.voterWeights).weights.length <= MAX_WEIGHTED_VOTERS,
+    { message: `Cannot set the weights of more than ${MAX_WEIGHTED_VOTERS} voters at once`, path: ['voterWeights'] }
+  )
+  .refine(
+    (data) => !data.allowDelegation || (DELEGATION_POLL_TYPES.includes(data.pollType ?? 'single') && !data.isQuiz),
+    { message: 'Only single choice, multiple choice and approval polls that are not quizzes can allow delegation', path: ['allowDelegation'] }
+  )
+  .refine(
+    (data) => !data.allowDelegation || (!data.allowAnonymous && !data.isSecret && !data.isWeighted),
+    { message: 'Polls that allow delegation cannot allow anonymous votes, secret ballots or weighted voting', path: ['allowDelegation'] }
+  )
+  .refine(
+    (data) => !data.tags || parseTags(data.tags).invalid.length === 0,
+    { message: 'Tags use letters, digits, hyphens and underscores, separated by commas', path: ['tags'] }
+  )
+  .refine(
+    (data) => !data.tags || parseTags(data.tags).tags.length <= MAX_POLL_TAGS,
+    { message: `A poll can have at most ${MAX_POLL_TAGS} tags`, path: ['tags'] }
+  ),
 
   // Vote submission schema
   vote: z.object({
@@ -339,6 +551,24 @@ export class RateLimiter {
     return false;
   }
 
+  /**
+   * Check a limit without counting a request, for limits on failures only
+   */
+  static hasReachedLimit(identifier: string, limit: number, windowMs: number): boolean {
+    const windowStart = Date.now() - windowMs;
+    const requests = this.requests.get(identifier) || [];
+    return requests.filter(timestamp => timestamp > windowStart).length >= limit;
+  }
+
+  /**
+   * Count a request towards the limits checked with hasReachedLimit
+   */
+  static record(identifier: string): void {
+    const requests = this.requests.get(identifier) || [];
+    requests.push(Date.now());
+    this.requests.set(identifier, requests);
+  }
+
   /**
    * Clean up old entries (call periodically)
    */
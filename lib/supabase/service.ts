@@ -0,0 +1,17 @@
+import { createClient } from '@supabase/supabase-js';
+
+/**
+ * Supabase client authenticated with the service role key
+ * For server code acting for visitors without an account, such as anonymous
+ * voting. The key bypasses Row Level Security: never import this from client code.
+ */
+export function createServiceClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured');
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+}
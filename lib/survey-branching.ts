@@ -0,0 +1,136 @@
+/**
+ * Skip logic for surveys
+ *
+ * Questions are answered in order unless a branch rule applies: choosing the
+ * rule's option jumps straight to its target question, or ends the survey when
+ * the target is null. Ranked questions branch on the first choice only. When
+ * several chosen options have rules, the earliest target in the survey wins,
+ * so no question is skipped unless every matching rule skips it.
+ */
+
+/**
+ * A branch rule; all IDs refer to questions and options of the same survey
+ */
+export interface BranchRule {
+  questionId: string; // The question whose answer is checked
+  optionId: string; // The option that triggers the jump
+  targetQuestionId: string | null; // Where to jump; null ends the survey
+}
+
+export interface BranchQuestion {
+  id: string;
+  poll_type: string;
+}
+
+export interface BranchAnswer {
+  optionIds?: string[];
+}
+
+/**
+ * Poll types whose answers select options, and so can trigger branch rules
+ */
+export const BRANCHABLE_POLL_TYPES = ['single', 'multiple', 'ranked', 'approval'];
+
+/**
+ * Find where a question leads, given its answer
+ * @returns The next question's ID, or null at the end of the survey
+ */
+export function nextQuestionId(
+  questions: BranchQuestion[],
+  rules: BranchRule[],
+  questionId: string,
+  answer: BranchAnswer | undefined
+): string | null {
+  const index = questions.findIndex(question => question.id === questionId);
+  if (index === -1) return null;
+
+  const question = questions[index];
+  const chosen = question.poll_type === 'ranked'
+    ? (answer?.optionIds ?? []).slice(0, 1)
+    : answer?.optionIds ?? [];
+  const position = (targetId: string | null) =>
+    targetId === null ? questions.length : questions.findIndex(other => other.id === targetId);
+
+  const targets = rules
+    .filter(rule => rule.questionId === questionId && chosen.includes(rule.optionId))
+    .map(rule => rule.targetQuestionId)
+    .sort((a, b) => position(a) - position(b));
+
+  if (targets.length > 0) {
+    return targets[0];
+  }
+
+  return questions[index + 1]?.id ?? null;
+}
+
+/**
+ * List the questions a respondent will see, in order, for the answers given so far
+ * The path stops at the first question that hasn't been answered yet, since
+ * where it leads depends on that answer.
+ * @returns string[] - Question IDs on the respondent's path
+ */
+export function resolveSurveyPath(
+  questions: BranchQuestion[],
+  rules: BranchRule[],
+  answers: Record<string, BranchAnswer | undefined>
+): string[] {
+  const path: string[] = [];
+  let currentId: string | null = questions[0]?.id ?? null;
+
+  // A path can't be longer than the survey; the guard only matters for invalid rules
+  while (currentId !== null && !path.includes(currentId)) {
+    path.push(currentId);
+
+    const answer = answers[currentId];
+    if (!answer) break;
+
+    currentId = nextQuestionId(questions, rules, currentId, answer);
+  }
+
+  return path;
+}
+
+/**
+ * Find a cycle in the question graph, following both the default order and every rule
+ * @returns string[] | null - Question IDs around the first cycle found, or null if there is none
+ */
+export function findBranchCycle(questionIds: string[], rules: BranchRule[]): string[] | null {
+  const edges = new Map<string, string[]>(
+    questionIds.map((questionId, index) => [
+      questionId,
+      index + 1 < questionIds.length ? [questionIds[index + 1]] : []
+    ])
+  );
+
+  rules.forEach(rule => {
+    if (rule.targetQuestionId !== null && edges.has(rule.questionId)) {
+      edges.get(rule.questionId)!.push(rule.targetQuestionId);
+    }
+  });
+
+  const finished = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (questionId: string): string[] | null => {
+    const onStack = stack.indexOf(questionId);
+    if (onStack !== -1) return stack.slice(onStack);
+    if (finished.has(questionId) || !edges.has(questionId)) return null;
+
+    stack.push(questionId);
+    for (const target of edges.get(questionId)!) {
+      const cycle = visit(target);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    finished.add(questionId);
+
+    return null;
+  };
+
+  for (const questionId of questionIds) {
+    const cycle = visit(questionId);
+    if (cycle) return cycle;
+  }
+
+  return null;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+import { findBestSlots, summarizeAvailability } from '../availability';
+
+describe('summarizeAvailability', () => {
+  it('should count the answers per time slot', () => {
+    const summaries = summarizeAvailability(['a', 'b'], [
+      { option_id: 'a', availability: 'yes', ballots: 2 },
+      { option_id: 'a', availability: 'no', ballots: 1 },
+      { option_id: 'b', availability: 'maybe', ballots: 3 },
+    ]);
+
+    expect(summaries).toEqual({
+      a: { yes: 2, maybe: 0, no: 1 },
+      b: { yes: 0, maybe: 3, no: 0 },
+    });
+  });
+
+  it('should ignore counts for unknown slots', () => {
+    const summaries = summarizeAvailability(['a'], [
+      { option_id: 'z', availability: 'yes', ballots: 4 },
+    ]);
+
+    expect(summaries).toEqual({ a: { yes: 0, maybe: 0, no: 0 } });
+  });
+});
+
+describe('findBestSlots', () => {
+  it('should pick the slot the most participants can make', () => {
+    expect(findBestSlots({
+      a: { yes: 2, maybe: 0, no: 2 },
+      b: { yes: 1, maybe: 2, no: 1 },
+    })).toEqual(['b']);
+  });
+
+  it('should break ties on outright yeses', () => {
+    expect(findBestSlots({
+      a: { yes: 1, maybe: 2, no: 0 },
+      b: { yes: 3, maybe: 0, no: 0 },
+    })).toEqual(['b']);
+  });
+
+  it('should return every slot tied for best', () => {
+    expect(findBestSlots({
+      a: { yes: 2, maybe: 1, no: 0 },
+      b: { yes: 1, maybe: 0, no: 2 },
+      c: { yes: 2, maybe: 1, no: 0 },
+    })).toEqual(['a', 'c']);
+  });
+
+  it('should return nothing when nobody can make any slot', () => {
+    expect(findBestSlots({
+      a: { yes: 0, maybe: 0, no: 2 },
+      b: { yes: 0, maybe: 0, no: 2 },
+    })).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from '@jest/globals';
+import { runInstantRunoff, EXHAUSTED } from '../instant-runoff';
+
+describe('runInstantRunoff', () => {
+  const options = ['js', 'py', 'rs'];
+
+  it('should elect a first-round majority without further rounds', () => {
+    const result = runInstantRunoff(options, [
+      ['py', 'js'],
+      ['py', 'rs'],
+      ['js', 'py'],
+    ]);
+
+    expect(result.winner).toBe('py');
+    expect(result.rounds).toHaveLength(1);
+    expect(result.rounds[0].tallies).toEqual({ js: 1, py: 2, rs: 0 });
+    expect(result.rounds[0].eliminated).toBeNull();
+  });
+
+  it('should eliminate the last place and transfer its ballots', () => {
+    const result = runInstantRunoff(options, [
+      ['js', 'py'],
+      ['js', 'rs'],
+      ['py', 'js'],
+      ['py', 'rs'],
+      ['rs', 'py'],
+    ]);
+
+    expect(result.rounds[0].tallies).toEqual({ js: 2, py: 2, rs: 1 });
+    expect(result.rounds[0].eliminated).toBe('rs');
+    expect(result.rounds[0].transfers).toEqual({ py: 1 });
+    expect(result.rounds[1].tallies).toEqual({ js: 2, py: 3 });
+    expect(result.winner).toBe('py');
+  });
+
+  it('should count ballots with no continuing choice as exhausted', () => {
+    const result = runInstantRunoff(options, [
+      ['js'],
+      ['js'],
+      ['py'],
+      ['py'],
+      ['rs'],
+    ]);
+
+    expect(result.rounds[0].transfers).toEqual({ [EXHAUSTED]: 1 });
+    expect(result.rounds[1].exhausted).toBe(1);
+    expect(result.winner).toBeNull();
+    expect(result.tied).toEqual(['js', 'py']);
+  });
+
+  it('should break last-place ties using earlier rounds', () => {
+    const result = runInstantRunoff(['a', 'b', 'c', 'd'], [
+      ['a'], ['a'], ['a'], ['a'], ['a'],
+      ['b'], ['b'], ['b'],
+      ['c', 'a'], ['c', 'a'],
+      ['d', 'c'],
+    ]);
+
+    expect(result.rounds[0].eliminated).toBe('d');
+    expect(result.rounds[1].tallies).toEqual({ a: 5, b: 3, c: 3 });
+    // b and c are level, but c had fewer votes in round 1
+    expect(result.rounds[1].eliminated).toBe('c');
+    expect(result.rounds[1].transfers).toEqual({ a: 2, [EXHAUSTED]: 1 });
+    expect(result.winner).toBe('a');
+  });
+
+  it('should fall back to poll order when tied options were never separated', () => {
+    const result = runInstantRunoff(options, [
+      ['js'],
+      ['js'],
+      ['py', 'js'],
+      ['rs', 'py'],
+    ]);
+
+    expect(result.rounds[0].eliminated).toBe('rs');
+    expect(result.rounds[1].tallies).toEqual({ js: 2, py: 2 });
+    expect(result.winner).toBeNull();
+    expect(result.tied).toEqual(['js', 'py']);
+  });
+
+  it('should ignore options that are not on the poll', () => {
+    const result = runInstantRunoff(options, [['go', 'rs'], ['js']]);
+
+    expect(result.rounds[0].tallies).toEqual({ js: 1, py: 0, rs: 1 });
+  });
+
+  it('should report a tie when no ballots have been cast', () => {
+    const result = runInstantRunoff(options, []);
+
+    expect(result.winner).toBeNull();
+    expect(result.tied).toEqual(options);
+    expect(result.totalBallots).toBe(0);
+  });
+});
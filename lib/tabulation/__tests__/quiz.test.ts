@@ -0,0 +1,72 @@
+import { describe, it, expect } from '@jest/globals';
+import { isQuizAnswerCorrect, summarizeQuiz } from '../quiz';
+
+describe('isQuizAnswerCorrect', () => {
+  it('should accept any correct option on a single-choice question', () => {
+    expect(isQuizAnswerCorrect('single', ['b'], ['a', 'b'])).toBe(true);
+    expect(isQuizAnswerCorrect('single', ['c'], ['a', 'b'])).toBe(false);
+  });
+
+  it('should require exactly the correct options on a multi-select question', () => {
+    expect(isQuizAnswerCorrect('multiple', ['a', 'b'], ['a', 'b'])).toBe(true);
+    expect(isQuizAnswerCorrect('multiple', ['a'], ['a', 'b'])).toBe(false);
+    expect(isQuizAnswerCorrect('approval', ['a', 'b', 'c'], ['a', 'b'])).toBe(false);
+  });
+
+  it('should treat an empty answer as wrong', () => {
+    expect(isQuizAnswerCorrect('approval', [], [])).toBe(false);
+  });
+});
+
+describe('summarizeQuiz', () => {
+  const questions = [
+    { id: 'q1', pollType: 'single', correctOptionIds: ['a'] },
+    { id: 'q2', pollType: 'multiple', correctOptionIds: ['c', 'd'] },
+  ];
+
+  const ballot = (pollId: string, userId: string, optionIds: string[]) => ({
+    poll_id: pollId,
+    user_id: userId,
+    participant: `${userId}@example.com`,
+    option_ids: optionIds,
+  });
+
+  it('should rank participants by correct answers', () => {
+    const report = summarizeQuiz(questions, [
+      ballot('q1', 'ann', ['a']),
+      ballot('q2', 'ann', ['c']),
+      ballot('q1', 'bob', ['a']),
+      ballot('q2', 'bob', ['c', 'd']),
+    ]);
+
+    expect(report.questionCount).toBe(2);
+    expect(report.leaderboard.map(entry => [entry.userId, entry.correct])).toEqual([
+      ['bob', 2],
+      ['ann', 1],
+    ]);
+  });
+
+  it('should rank fewer answers higher on a tie', () => {
+    const report = summarizeQuiz(questions, [
+      ballot('q1', 'ann', ['b']),
+      ballot('q2', 'ann', ['c', 'd']),
+      ballot('q1', 'bob', ['a']),
+    ]);
+
+    expect(report.leaderboard.map(entry => entry.userId)).toEqual(['bob', 'ann']);
+  });
+
+  it('should report the percentage correct per question', () => {
+    const report = summarizeQuiz(questions, [
+      ballot('q1', 'ann', ['a']),
+      ballot('q1', 'bob', ['b']),
+      ballot('q1', 'cat', ['a']),
+      ballot('other', 'ann', ['x']),
+    ]);
+
+    expect(report.questions).toEqual([
+      { pollId: 'q1', answered: 3, correct: 2, percentCorrect: 67 },
+      { pollId: 'q2', answered: 0, correct: 0, percentCorrect: null },
+    ]);
+  });
+});
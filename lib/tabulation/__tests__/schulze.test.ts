@@ -0,0 +1,90 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildPairwiseMatrix, runSchulze } from '../schulze';
+
+const repeat = (count: number, ballot: string[]) => Array.from({ length: count }, () => ballot);
+
+describe('Schulze tabulation', () => {
+  describe('buildPairwiseMatrix', () => {
+    it('should prefer ranked options over unranked ones', () => {
+      const matrix = buildPairwiseMatrix(['a', 'b', 'c'], [['b']]);
+
+      expect(matrix.b).toEqual({ a: 1, c: 1 });
+      expect(matrix.a).toEqual({ b: 0, c: 0 });
+      expect(matrix.c).toEqual({ a: 0, b: 0 });
+    });
+
+    it('should ignore unknown and repeated options', () => {
+      const matrix = buildPairwiseMatrix(['a', 'b'], [['x', 'a', 'a', 'b']]);
+
+      expect(matrix).toEqual({ a: { b: 1 }, b: { a: 0 } });
+    });
+  });
+
+  describe('runSchulze', () => {
+    it('should resolve a majority cycle by beatpath strength', () => {
+      const result = runSchulze(['a', 'b', 'c'], [
+        ...repeat(3, ['a', 'b', 'c']),
+        ...repeat(2, ['b', 'c', 'a']),
+        ...repeat(2, ['c', 'a', 'b']),
+      ]);
+
+      // a beats b 5-2 and b beats c 5-2, but c beats a 4-3
+      expect(result.condorcetWinner).toBeNull();
+      expect(result.cycle).toEqual(['a', 'b', 'c']);
+      expect(result.winner).toBe('a');
+    });
+
+    it('should report a Condorcet winner without cycles', () => {
+      const result = runSchulze(['a', 'b', 'c'], [
+        ...repeat(4, ['b', 'a', 'c']),
+        ...repeat(3, ['a', 'b', 'c']),
+        ...repeat(2, ['c', 'b', 'a']),
+      ]);
+
+      expect(result.condorcetWinner).toBe('b');
+      expect(result.winner).toBe('b');
+      expect(result.cycle).toEqual([]);
+      expect(result.ranking).toEqual([['b'], ['a'], ['c']]);
+    });
+
+    it('should order the well-known 45-voter example as E > A > C > B > D', () => {
+      const result = runSchulze(['A', 'B', 'C', 'D', 'E'], [
+        ...repeat(5, ['A', 'C', 'B', 'E', 'D']),
+        ...repeat(5, ['A', 'D', 'E', 'C', 'B']),
+        ...repeat(8, ['B', 'E', 'D', 'A', 'C']),
+        ...repeat(3, ['C', 'A', 'B', 'E', 'D']),
+        ...repeat(7, ['C', 'A', 'E', 'B', 'D']),
+        ...repeat(2, ['C', 'B', 'A', 'D', 'E']),
+        ...repeat(7, ['D', 'C', 'E', 'B', 'A']),
+        ...repeat(8, ['E', 'B', 'A', 'D', 'C']),
+      ]);
+
+      expect(result.pairwise.A.B).toBe(20);
+      expect(result.pairwise.B.A).toBe(25);
+      expect(result.strongestPaths.E.A).toBe(25);
+      expect(result.ranking).toEqual([['E'], ['A'], ['C'], ['B'], ['D']]);
+      expect(result.winner).toBe('E');
+      expect(result.condorcetWinner).toBeNull();
+      expect(result.cycle).toHaveLength(5);
+    });
+
+    it('should leave a perfectly balanced cycle tied', () => {
+      const result = runSchulze(['a', 'b', 'c'], [
+        ['a', 'b', 'c'],
+        ['b', 'c', 'a'],
+        ['c', 'a', 'b'],
+      ]);
+
+      expect(result.ranking).toEqual([['a', 'b', 'c']]);
+      expect(result.winner).toBeNull();
+      expect(result.cycle).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should have no winner without ballots', () => {
+      const result = runSchulze(['a', 'b'], []);
+
+      expect(result.winner).toBeNull();
+      expect(result.totalBallots).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals';
+import { summarizeScores } from '../score';
+
+describe('summarizeScores', () => {
+  it('should compute the mean, median and distribution per option', () => {
+    const summaries = summarizeScores(['a', 'b'], [
+      { option_id: 'a', score: 5, ballots: 2 },
+      { option_id: 'a', score: 1, ballots: 1 },
+      { option_id: 'b', score: 3, ballots: 3 },
+    ]);
+
+    expect(summaries.a).toEqual({
+      mean: 11 / 3,
+      median: 5,
+      distribution: [0, 1, 0, 0, 0, 2],
+      ratings: 3,
+    });
+    expect(summaries.b.mean).toBe(3);
+    expect(summaries.b.median).toBe(3);
+  });
+
+  it('should average the two middle ratings for an even count', () => {
+    const summaries = summarizeScores(['a'], [
+      { option_id: 'a', score: 2, ballots: 1 },
+      { option_id: 'a', score: 4, ballots: 1 },
+    ]);
+
+    expect(summaries.a.median).toBe(3);
+  });
+
+  it('should report zeros for options without ratings', () => {
+    const summaries = summarizeScores(['a'], []);
+
+    expect(summaries.a).toEqual({
+      mean: 0,
+      median: 0,
+      distribution: [0, 0, 0, 0, 0, 0],
+      ratings: 0,
+    });
+  });
+
+  it('should ignore unknown options and out-of-range scores', () => {
+    const summaries = summarizeScores(['a'], [
+      { option_id: 'x', score: 3, ballots: 4 },
+      { option_id: 'a', score: 9, ballots: 1 },
+    ]);
+
+    expect(summaries.x).toBeUndefined();
+    expect(summaries.a.ratings).toBe(0);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from '@jest/globals';
+import { countWordFrequencies } from '../word-frequency';
+
+describe('countWordFrequencies', () => {
+  it('should count occurrences and the responses that use each word', () => {
+    const words = countWordFrequencies([
+      'Faster builds, faster deploys',
+      'Better docs',
+      'faster tests and better docs',
+    ]);
+
+    expect(words[0]).toEqual({ word: 'faster', count: 3, responses: 2 });
+    expect(words).toContainEqual({ word: 'docs', count: 2, responses: 2 });
+  });
+
+  it('should skip stop words and single characters', () => {
+    const words = countWordFrequencies(['I think it is a good idea, and x marks the spot']);
+
+    expect(words.map(entry => entry.word)).toEqual(['good', 'idea', 'marks', 'spot', 'think']);
+  });
+
+  it('should keep apostrophes inside words but not around them', () => {
+    const words = countWordFrequencies(["'Don't' stop", "don't"]);
+
+    expect(words[0]).toEqual({ word: "don't", count: 2, responses: 2 });
+  });
+
+  it('should break ties alphabetically and respect the limit', () => {
+    const words = countWordFrequencies(['zebra apple mango'], 2);
+
+    expect(words.map(entry => entry.word)).toEqual(['apple', 'mango']);
+  });
+
+  it('should return nothing for no responses', () => {
+    expect(countWordFrequencies([])).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Scheduling poll (availability) aggregates
+ *
+ * Scheduling ballots answer every time slot with yes, if need be or no. The
+ * database only hands out how many ballots gave each slot each answer. The best
+ * slot is the one the most participants can make (yes or if need be), with
+ * ties going to the slot with the most outright yeses.
+ */
+
+/**
+ * Answers a participant can give for a time slot, from most to least available
+ */
+export const AVAILABILITY_ANSWERS = ['yes', 'maybe', 'no'] as const;
+
+export type Availability = typeof AVAILABILITY_ANSWERS[number];
+
+/**
+ * Number of ballots that gave a time slot a particular answer
+ */
+export interface AvailabilityCount {
+  option_id: string;
+  availability: Availability;
+  ballots: number;
+}
+
+/**
+ * Aggregated answers for one time slot
+ */
+export interface AvailabilitySummary {
+  yes: number;
+  maybe: number; // If need be
+  no: number;
+}
+
+/**
+ * Summarize the answers for each time slot
+ * @param optionIds - All time slots on the poll
+ * @param counts - Ballot counts per slot and answer; unknown slots and answers are ignored
+ * @returns Record<string, AvailabilitySummary> - Aggregates keyed by option ID
+ */
+export function summarizeAvailability(
+  optionIds: string[],
+  counts: AvailabilityCount[]
+): Record<string, AvailabilitySummary> {
+  const summaries: Record<string, AvailabilitySummary> = Object.fromEntries(
+    optionIds.map(id => [id, { yes: 0, maybe: 0, no: 0 }])
+  );
+
+  counts.forEach(({ option_id, availability, ballots }) => {
+    const summary = summaries[option_id];
+    if (summary && AVAILABILITY_ANSWERS.includes(availability)) {
+      summary[availability] += Number(ballots);
+    }
+  });
+
+  return summaries;
+}
+
+/**
+ * Find the best time slots: most participants available, then most yeses
+ * @param summaries - Aggregates keyed by option ID
+ * @returns string[] - The option IDs of every slot tied for best; empty when nobody can make any slot
+ */
+export function findBestSlots(summaries: Record<string, AvailabilitySummary>): string[] {
+  let best: string[] = [];
+  let bestAvailable = 0;
+  let bestYes = 0;
+
+  Object.entries(summaries).forEach(([optionId, { yes, maybe }]) => {
+    const available = yes + maybe;
+
+    if (available > bestAvailable || (available === bestAvailable && yes > bestYes)) {
+      best = [optionId];
+      bestAvailable = available;
+      bestYes = yes;
+    } else if (available === bestAvailable && yes === bestYes && available > 0) {
+      best.push(optionId);
+    }
+  });
+
+  return best;
+}
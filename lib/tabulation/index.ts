@@ -0,0 +1,7 @@
+// Result tabulation for ballot types that need more than a per-option counter, and quiz scoring
+export * from './availability';
+export * from './instant-runoff';
+export * from './quiz';
+export * from './schulze';
+export * from './score';
+export * from './word-frequency';
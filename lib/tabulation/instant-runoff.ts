@@ -0,0 +1,140 @@
+/**
+ * Instant-runoff (IRV) tabulation for ranked ballots
+ *
+ * Each round counts every ballot for its highest-ranked option that is still
+ * in the race. An option with more than half of the non-exhausted ballots wins;
+ * otherwise the last-placed option is eliminated and its ballots move to their
+ * next continuing choice.
+ */
+
+/**
+ * A ranked ballot: option IDs from most to least preferred
+ */
+export type RankedBallot = string[];
+
+/**
+ * Transfer target used when a ballot has no continuing options left
+ */
+export const EXHAUSTED = 'exhausted';
+
+/**
+ * One counting round of an instant-runoff tabulation
+ */
+export interface InstantRunoffRound {
+  round: number;
+  tallies: Record<string, number>; // Continuing option ID -> ballots counted for it
+  exhausted: number; // Ballots with no continuing option left
+  eliminated: string | null; // Option eliminated after this round, null in the final round
+  transfers: Record<string, number>; // Where the eliminated option's ballots went (option ID or EXHAUSTED)
+}
+
+/**
+ * Full instant-runoff outcome with the round-by-round breakdown
+ */
+export interface InstantRunoffResult {
+  winner: string | null;
+  tied: string[]; // Options left level when no majority can be reached
+  rounds: InstantRunoffRound[];
+  totalBallots: number;
+}
+
+/**
+ * Pick which of the last-placed options to eliminate
+ * Ties are broken by the fewest votes in the most recent earlier round that
+ * separates them, then by the option listed last on the poll.
+ */
+function pickElimination(
+  lowest: string[],
+  previousRounds: InstantRunoffRound[],
+  optionIds: string[]
+): string {
+  let candidates = lowest;
+
+  for (let i = previousRounds.length - 1; i >= 0 && candidates.length > 1; i--) {
+    const tallies = previousRounds[i].tallies;
+    const minimum = Math.min(...candidates.map(id => tallies[id] ?? 0));
+    candidates = candidates.filter(id => (tallies[id] ?? 0) === minimum);
+  }
+
+  return candidates.reduce((last, id) =>
+    optionIds.indexOf(id) > optionIds.indexOf(last) ? id : last
+  );
+}
+
+/**
+ * Run an instant-runoff count
+ * @param optionIds - All options on the poll, in display order
+ * @param ballots - Ranked ballots; unknown or repeated option IDs are ignored
+ * @returns InstantRunoffResult - Winner (or tie) and every counting round
+ */
+export function runInstantRunoff(optionIds: string[], ballots: RankedBallot[]): InstantRunoffResult {
+  const continuing = new Set(optionIds);
+  const rounds: InstantRunoffRound[] = [];
+  const topChoice = (ballot: RankedBallot) => ballot.find(id => continuing.has(id)) ?? null;
+
+  if (optionIds.length === 0) {
+    return { winner: null, tied: [], rounds, totalBallots: ballots.length };
+  }
+
+  while (true) {
+    const tallies: Record<string, number> = {};
+    continuing.forEach(id => { tallies[id] = 0; });
+
+    let exhausted = 0;
+    const tops = ballots.map(ballot => {
+      const top = topChoice(ballot);
+      if (top) {
+        tallies[top]++;
+      } else {
+        exhausted++;
+      }
+      return top;
+    });
+
+    const round: InstantRunoffRound = {
+      round: rounds.length + 1,
+      tallies,
+      exhausted,
+      eliminated: null,
+      transfers: {}
+    };
+    const previousRounds = [...rounds];
+    rounds.push(round);
+
+    const remaining = [...continuing];
+    const activeBallots = ballots.length - exhausted;
+    const highest = Math.max(...remaining.map(id => tallies[id]));
+    const lowest = Math.min(...remaining.map(id => tallies[id]));
+
+    if (remaining.length === 1) {
+      return { winner: remaining[0], tied: [], rounds, totalBallots: ballots.length };
+    }
+
+    const leader = remaining.find(id => tallies[id] === highest)!;
+    if (activeBallots > 0 && tallies[leader] * 2 > activeBallots) {
+      return { winner: leader, tied: [], rounds, totalBallots: ballots.length };
+    }
+
+    // Everyone left is level, so eliminating any of them would be arbitrary
+    if (highest === lowest) {
+      return { winner: null, tied: remaining, rounds, totalBallots: ballots.length };
+    }
+
+    const eliminated = pickElimination(
+      remaining.filter(id => tallies[id] === lowest),
+      previousRounds,
+      optionIds
+    );
+    continuing.delete(eliminated);
+
+    const transfers: Record<string, number> = {};
+    ballots.forEach((ballot, index) => {
+      if (tops[index] !== eliminated) return;
+      const next = topChoice(ballot) ?? EXHAUSTED;
+      transfers[next] = (transfers[next] ?? 0) + 1;
+    });
+
+    round.eliminated = eliminated;
+    round.transfers = transfers;
+  }
+}
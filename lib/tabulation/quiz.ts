@@ -0,0 +1,112 @@
+/**
+ * Quiz scoring
+ *
+ * Quiz questions mark one or more options as correct. A single-choice answer is
+ * right when the chosen option is one of the correct ones; a multi-select answer
+ * is right only when it picks exactly the correct options, no more and no fewer.
+ */
+
+/**
+ * Poll types that can be marked as quiz questions
+ */
+export const QUIZ_POLL_TYPES = ['single', 'multiple', 'approval'];
+
+/**
+ * One participant's ballot on a quiz question, as the database hands it out
+ */
+export interface QuizBallot {
+  poll_id: string;
+  user_id: string;
+  participant: string; // How the participant is shown to the quiz creator
+  option_ids: string[];
+}
+
+/**
+ * A quiz question with its answer key
+ */
+export interface QuizQuestion {
+  id: string;
+  pollType: string;
+  correctOptionIds: string[];
+}
+
+export interface QuizLeaderboardEntry {
+  userId: string;
+  participant: string;
+  correct: number;
+  answered: number;
+}
+
+export interface QuizQuestionDifficulty {
+  pollId: string;
+  answered: number;
+  correct: number;
+  percentCorrect: number | null; // null until someone answers
+}
+
+export interface QuizReport {
+  questionCount: number;
+  leaderboard: QuizLeaderboardEntry[]; // Most correct answers first
+  questions: QuizQuestionDifficulty[]; // In the order given
+}
+
+/**
+ * Check an answer against a question's answer key
+ * @param pollType - The question's poll type
+ * @param selected - The option IDs the participant chose
+ * @param correct - The option IDs marked as correct
+ * @returns boolean - Whether the answer is right
+ */
+export function isQuizAnswerCorrect(pollType: string, selected: string[], correct: string[]): boolean {
+  if (selected.length === 0 || !selected.every(optionId => correct.includes(optionId))) {
+    return false;
+  }
+
+  return pollType === 'single' || correct.every(optionId => selected.includes(optionId));
+}
+
+/**
+ * Score every ballot and build the leaderboard and per-question difficulty
+ * @param questions - The quiz questions with their answer keys
+ * @param ballots - Ballots cast on those questions; ballots on other polls are ignored
+ * @returns QuizReport - Leaderboard and difficulty
+ */
+export function summarizeQuiz(questions: QuizQuestion[], ballots: QuizBallot[]): QuizReport {
+  const questionsById = new Map(questions.map(question => [question.id, question]));
+  const difficulty = new Map(questions.map(question => [question.id, { answered: 0, correct: 0 }]));
+  const participants = new Map<string, QuizLeaderboardEntry>();
+
+  ballots.forEach(ballot => {
+    const question = questionsById.get(ballot.poll_id);
+    if (!question) return;
+
+    const isCorrect = isQuizAnswerCorrect(question.pollType, ballot.option_ids, question.correctOptionIds);
+    const tally = difficulty.get(question.id)!;
+    tally.answered += 1;
+    tally.correct += isCorrect ? 1 : 0;
+
+    const entry = participants.get(ballot.user_id)
+      ?? { userId: ballot.user_id, participant: ballot.participant, correct: 0, answered: 0 };
+    entry.answered += 1;
+    entry.correct += isCorrect ? 1 : 0;
+    participants.set(ballot.user_id, entry);
+  });
+
+  const leaderboard = [...participants.values()].sort((a, b) =>
+    b.correct - a.correct || a.answered - b.answered || a.participant.localeCompare(b.participant)
+  );
+
+  return {
+    questionCount: questions.length,
+    leaderboard,
+    questions: questions.map(question => {
+      const { answered, correct } = difficulty.get(question.id)!;
+      return {
+        pollId: question.id,
+        answered,
+        correct,
+        percentCorrect: answered > 0 ? Math.round((correct / answered) * 100) : null
+      };
+    })
+  };
+}
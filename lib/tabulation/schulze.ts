@@ -0,0 +1,132 @@
+/**
+ * Schulze (Condorcet) tabulation for ranked ballots
+ *
+ * Every ballot is read as a set of head-to-head preferences: a ranked option
+ * beats everything ranked below it and every option left unranked. Options are
+ * then ordered by the strength of their strongest beatpath to each other.
+ */
+
+import type { RankedBallot } from './instant-runoff';
+
+/**
+ * Square matrix keyed by option ID: matrix[a][b] relates option a to option b
+ */
+export type PairwiseMatrix = Record<string, Record<string, number>>;
+
+/**
+ * Full Schulze outcome
+ */
+export interface SchulzeResult {
+  pairwise: PairwiseMatrix; // pairwise[a][b] = ballots preferring a over b
+  strongestPaths: PairwiseMatrix; // Strength of the strongest beatpath from a to b
+  ranking: string[][]; // Options from best to worst; options sharing a tier are tied
+  winner: string | null; // Unique Schulze winner, null when the top tier is shared
+  condorcetWinner: string | null; // Option beating every other option head-to-head
+  cycle: string[]; // Options caught in a majority cycle (rock-paper-scissors)
+  totalBallots: number;
+}
+
+function createMatrix(optionIds: string[]): PairwiseMatrix {
+  const matrix: PairwiseMatrix = {};
+  optionIds.forEach(a => {
+    matrix[a] = {};
+    optionIds.forEach(b => {
+      if (a !== b) matrix[a][b] = 0;
+    });
+  });
+  return matrix;
+}
+
+/**
+ * Build the pairwise preference matrix
+ * @param optionIds - All options on the poll
+ * @param ballots - Ranked ballots; unknown or repeated option IDs are ignored
+ * @returns PairwiseMatrix - Ballots preferring each option over each other option
+ */
+export function buildPairwiseMatrix(optionIds: string[], ballots: RankedBallot[]): PairwiseMatrix {
+  const pairwise = createMatrix(optionIds);
+  const known = new Set(optionIds);
+
+  ballots.forEach(ballot => {
+    const ranked = [...new Set(ballot.filter(id => known.has(id)))];
+    const unranked = optionIds.filter(id => !ranked.includes(id));
+
+    ranked.forEach((preferred, index) => {
+      [...ranked.slice(index + 1), ...unranked].forEach(other => {
+        pairwise[preferred][other]++;
+      });
+    });
+  });
+
+  return pairwise;
+}
+
+/**
+ * Run a Schulze count
+ * @param optionIds - All options on the poll, in display order
+ * @param ballots - Ranked ballots; unknown or repeated option IDs are ignored
+ * @returns SchulzeResult - Pairwise matrix, strongest paths, ordering and cycle flags
+ */
+export function runSchulze(optionIds: string[], ballots: RankedBallot[]): SchulzeResult {
+  const pairwise = buildPairwiseMatrix(optionIds, ballots);
+  const strongestPaths = createMatrix(optionIds);
+
+  // A direct link exists only where a majority prefers a over b
+  optionIds.forEach(a => {
+    optionIds.forEach(b => {
+      if (a !== b && pairwise[a][b] > pairwise[b][a]) {
+        strongestPaths[a][b] = pairwise[a][b];
+      }
+    });
+  });
+
+  // Floyd–Warshall variant: a path is as strong as its weakest link
+  optionIds.forEach(via => {
+    optionIds.forEach(a => {
+      if (a === via) return;
+      optionIds.forEach(b => {
+        if (b === via || b === a) return;
+        strongestPaths[a][b] = Math.max(
+          strongestPaths[a][b],
+          Math.min(strongestPaths[a][via], strongestPaths[via][b])
+        );
+      });
+    });
+  });
+
+  const beats = (a: string, b: string) => strongestPaths[a][b] > strongestPaths[b][a];
+  const wins = new Map(
+    optionIds.map(a => [a, optionIds.filter(b => a !== b && beats(a, b)).length])
+  );
+
+  const ranking: string[][] = [];
+  [...optionIds]
+    .sort((a, b) => wins.get(b)! - wins.get(a)!)
+    .forEach(id => {
+      const tier = ranking[ranking.length - 1];
+      if (tier && wins.get(tier[0]) === wins.get(id)) {
+        tier.push(id);
+      } else {
+        ranking.push([id]);
+      }
+    });
+
+  const condorcetWinner = optionIds.find(a =>
+    optionIds.every(b => a === b || pairwise[a][b] > pairwise[b][a])
+  ) ?? null;
+
+  // Two options share a cycle when each has a chain of majority wins leading to the other
+  const cycle = optionIds.filter(a =>
+    optionIds.some(b => a !== b && strongestPaths[a][b] > 0 && strongestPaths[b][a] > 0)
+  );
+
+  return {
+    pairwise,
+    strongestPaths,
+    ranking,
+    winner: ranking.length > 0 && ranking[0].length === 1 && ballots.length > 0 ? ranking[0][0] : null,
+    condorcetWinner,
+    cycle,
+    totalBallots: ballots.length
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Score (star rating) aggregates
+ *
+ * Score ballots rate every option from 0 to MAX_SCORE stars. The database only
+ * hands out how many ballots gave each option each score, which is enough to
+ * derive the mean, the median and the full distribution.
+ */
+
+/**
+ * Highest star rating a ballot can give an option
+ */
+export const MAX_SCORE = 5;
+
+/**
+ * Number of ballots that gave an option a particular score
+ */
+export interface ScoreCount {
+  option_id: string;
+  score: number;
+  ballots: number;
+}
+
+/**
+ * Aggregated ratings for one option
+ */
+export interface ScoreSummary {
+  mean: number;
+  median: number;
+  distribution: number[]; // distribution[score] = ballots giving that score
+  ratings: number; // Ballots that rated the option
+}
+
+/**
+ * Median of a score distribution, averaging the two middle ratings when the count is even
+ */
+function medianOf(distribution: number[], ratings: number): number {
+  if (ratings === 0) return 0;
+
+  const valueAt = (position: number) => {
+    let seen = 0;
+    for (let score = 0; score < distribution.length; score++) {
+      seen += distribution[score];
+      if (position < seen) return score;
+    }
+    return distribution.length - 1;
+  };
+
+  const middle = Math.floor(ratings / 2);
+  return ratings % 2 === 1 ? valueAt(middle) : (valueAt(middle - 1) + valueAt(middle)) / 2;
+}
+
+/**
+ * Summarize the ratings of each option
+ * @param optionIds - All options on the poll
+ * @param counts - Ballot counts per option and score; unknown options and scores are ignored
+ * @returns Record<string, ScoreSummary> - Aggregates keyed by option ID
+ */
+export function summarizeScores(optionIds: string[], counts: ScoreCount[]): Record<string, ScoreSummary> {
+  const distributions = new Map(optionIds.map(id => [id, new Array<number>(MAX_SCORE + 1).fill(0)]));
+
+  counts.forEach(({ option_id, score, ballots }) => {
+    const distribution = distributions.get(option_id);
+    if (distribution && Number.isInteger(score) && score >= 0 && score <= MAX_SCORE) {
+      distribution[score] += Number(ballots);
+    }
+  });
+
+  const summaries: Record<string, ScoreSummary> = {};
+  distributions.forEach((distribution, optionId) => {
+    const ratings = distribution.reduce((sum, ballots) => sum + ballots, 0);
+    const total = distribution.reduce((sum, ballots, score) => sum + ballots * score, 0);
+
+    summaries[optionId] = {
+      mean: ratings > 0 ? total / ratings : 0,
+      median: medianOf(distribution, ratings),
+      distribution,
+      ratings
+    };
+  });
+
+  return summaries;
+}
@@ -0,0 +1,65 @@
+/**
+ * Word-frequency summary for free-text responses
+ *
+ * Responses are lower-cased and split into words; common English filler words
+ * and single characters are skipped so the summary surfaces what people wrote about.
+ */
+
+/**
+ * How often a word appears across all responses
+ */
+export interface WordFrequency {
+  word: string;
+  count: number; // Total occurrences
+  responses: number; // Responses using the word at least once
+}
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'for',
+  'from', 'get', 'had', 'has', 'have', 'he', 'her', 'him', 'his', 'how', 'i', "i'm",
+  'if', 'in', 'into', 'is', 'it', "it's", 'its', 'just', 'like', 'me', 'more', 'my',
+  'no', 'not', 'of', 'on', 'or', 'our', 'out', 'so', 'some', 'than', 'that', 'the',
+  'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'too', 'up', 'us',
+  'very', 'was', 'we', 'were', 'what', 'when', 'which', 'who', 'will', 'with', 'would',
+  'you', 'your'
+]);
+
+/**
+ * Split a response into countable words
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}']+/u)
+    .map(word => word.replace(/^'+|'+$/g, ''))
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Count the most frequent words across responses
+ * @param responses - The response texts
+ * @param limit - Maximum number of words to return
+ * @returns WordFrequency[] - Most frequent words first, ties in alphabetical order
+ */
+export function countWordFrequencies(responses: string[], limit = 30): WordFrequency[] {
+  const counts = new Map<string, WordFrequency>();
+
+  responses.forEach(response => {
+    const words = tokenize(response);
+
+    words.forEach(word => {
+      const entry = counts.get(word) ?? { word, count: 0, responses: 0 };
+      entry.count++;
+      counts.set(word, entry);
+    });
+
+    new Set(words).forEach(word => {
+      counts.get(word)!.responses++;
+    });
+  });
+
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word))
+    .slice(0, limit);
+}
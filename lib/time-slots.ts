@@ -0,0 +1,79 @@
+/**
+ * Time slots of scheduling polls
+ *
+ * Slots are stored as real timestamps (UTC in the database) together with the
+ * IANA time zone they were proposed in. They are always displayed in the
+ * viewer's own time zone, so everyone sees the same moment in their local time.
+ */
+
+/**
+ * A time slot; ends_at is optional for slots that only have a start time
+ */
+export interface TimeSlot {
+  startsAt: string;
+  endsAt?: string | null;
+}
+
+/**
+ * The time zone of the current environment, e.g. "Europe/Berlin"
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Check that a string names a time zone Intl knows about
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format a slot such as "Tue, Mar 4, 3:00 PM – 4:00 PM"
+ * The end shows only its time when the slot ends on the day it starts.
+ * @param slot - The slot to format
+ * @param timeZone - Zone to display in; defaults to the viewer's own
+ * @param locale - Locale to format for; defaults to the viewer's own
+ * @returns string - The formatted slot
+ */
+export function formatTimeSlot(slot: TimeSlot, timeZone?: string, locale?: string): string {
+  const dateTime = new Intl.DateTimeFormat(locale, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone
+  });
+  const start = new Date(slot.startsAt);
+
+  if (!slot.endsAt) {
+    return dateTime.format(start);
+  }
+
+  const end = new Date(slot.endsAt);
+  const day = new Intl.DateTimeFormat(locale, { year: 'numeric', month: 'numeric', day: 'numeric', timeZone });
+  const endFormat = day.format(start) === day.format(end)
+    ? new Intl.DateTimeFormat(locale, { hour: 'numeric', minute: '2-digit', timeZone })
+    : dateTime;
+
+  return `${dateTime.format(start)} – ${endFormat.format(end)}`;
+}
+
+/**
+ * Convert a datetime-local input value, read in the browser's time zone, to an ISO timestamp
+ * @returns string | null - The timestamp, or null when the value is empty or invalid
+ */
+export function localInputToIso(value: string): string | null {
+  if (!value) return null;
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
@@ -0,0 +1,40 @@
+/**
+ * Vote changes
+ *
+ * A poll can let voters change or withdraw their vote until it closes. Only
+ * standalone choice polls offer this: their ballots are a set or ranking of
+ * options, so the change_vote database function can move the counts from the
+ * old ballot to the new one. Quiz answers can't be revised once the answer key
+ * has been revealed.
+ */
+
+/**
+ * Poll types whose votes can be changed
+ */
+export const VOTE_CHANGE_POLL_TYPES = ['single', 'multiple', 'ranked', 'approval'];
+
+export interface VoteChangeSettings {
+  allow_vote_changes: boolean;
+  expires_at: string | null;
+  closed_at?: string | null;
+}
+
+/**
+ * Whether a vote on the poll can still be changed or withdrawn
+ * @param poll - The poll's vote change setting and closing time
+ * @param now - The current time
+ * @returns boolean - True while the poll allows changes and hasn't expired or closed
+ */
+export function canChangeVote(poll: VoteChangeSettings, now: Date = new Date()): boolean {
+  return poll.allow_vote_changes && !poll.closed_at && (!poll.expires_at || new Date(poll.expires_at) > now);
+}
+
+/**
+ * The options a ballot adds a vote to: every selection, or only the first choice on ranked polls
+ * @param pollType - The poll's type
+ * @param optionIds - The ballot's options, in preference order on ranked polls
+ * @returns string[] - The option IDs whose poll_options.votes the ballot counts towards
+ */
+export function getCountedOptions(pollType: string, optionIds: string[]): string[] {
+  return pollType === 'ranked' ? optionIds.slice(0, 1) : optionIds;
+}
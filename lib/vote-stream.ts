@@ -0,0 +1,186 @@
+/**
+ * Vote streams
+ *
+ * GET /api/polls/[id]/stream sends a poll's option counts as Server-Sent
+ * Events, for wall displays, scripts and the presenter page. While a poll has
+ * open streams, the server follows its private Realtime topic (see
+ * add_live_results.sql) through one subscription, whichever instance or route
+ * recorded the vote, and each open stream passes the new counts on. Events are
+ * numbered and the last STREAM_BACKLOG of them are kept per poll, so a client
+ * that reconnects with Last-Event-ID gets what it missed. When the events it
+ * missed are gone, or the ID comes from before the poll's subscription started
+ * (after its last stream closed, or a server restart), it gets a fresh
+ * snapshot instead.
+ */
+
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import { SECURITY_CONFIG } from './security';
+import { createServiceClient } from './supabase/service';
+import type { LiveOptionRow } from './live-results';
+
+/**
+ * Time between heartbeat comments, which keep proxies from closing an idle stream
+ */
+export const STREAM_HEARTBEAT_MS = 15000;
+
+/**
+ * Events kept per poll for clients resuming with Last-Event-ID
+ */
+export const STREAM_BACKLOG = 100;
+
+/**
+ * New option counts after a vote, keyed by option ID
+ */
+export interface VoteStreamEvent {
+  id: number;
+  counts: Record<string, number>;
+}
+
+type VoteStreamListener = (event: VoteStreamEvent) => void;
+
+interface PollStream {
+  // Oldest ID a client can resume from: issued when the subscription started,
+  // then that of the last event dropped from the backlog
+  resumableFrom: number;
+  backlog: VoteStreamEvent[];
+  listeners: Set<VoteStreamListener>;
+  channel: RealtimeChannel;
+  ready: Promise<void>; // Settles once the subscription is up, or has failed
+}
+
+const streams = new Map<string, PollStream>();
+
+// IDs run across polls, so a poll whose streams all closed and opened again
+// never hands out an ID it used before
+let lastIssuedId = 0;
+
+let realtimeClient: SupabaseClient | null = null;
+
+function getRealtimeClient(): SupabaseClient {
+  realtimeClient ??= createServiceClient();
+  return realtimeClient;
+}
+
+function publish(stream: PollStream, counts: Record<string, number>): void {
+  const event: VoteStreamEvent = { id: ++lastIssuedId, counts };
+  stream.backlog.push(event);
+  if (stream.backlog.length > STREAM_BACKLOG) {
+    stream.resumableFrom = stream.backlog.shift()!.id;
+  }
+  stream.listeners.forEach(listener => listener(event));
+}
+
+function followPoll(pollId: string): PollStream {
+  const channel = getRealtimeClient()
+    .channel(`poll-results:${pollId}`, { config: { private: true } })
+    .on('broadcast', { event: 'option' }, ({ payload }) => {
+      const row = payload as LiveOptionRow;
+      publish(stream, { [row.id]: row.votes ?? 0 });
+    });
+
+  const ready = new Promise<void>((resolve, reject) => {
+    channel.subscribe((state, error) => {
+      if (state === 'SUBSCRIBED') {
+        resolve();
+      } else if (state === 'CHANNEL_ERROR' || state === 'TIMED_OUT') {
+        reject(error ?? new Error(`Could not follow the votes of poll ${pollId}: ${state}`));
+      }
+    });
+  });
+
+  const stream: PollStream = {
+    resumableFrom: ++lastIssuedId,
+    backlog: [],
+    listeners: new Set(),
+    channel,
+    ready
+  };
+  streams.set(pollId, stream);
+  return stream;
+}
+
+function unfollowPoll(pollId: string, stream: PollStream): void {
+  if (streams.get(pollId) !== stream) return;
+  streams.delete(pollId);
+  getRealtimeClient().removeChannel(stream.channel);
+}
+
+/**
+ * Start listening to a poll's votes
+ * The first stream of a poll subscribes to its topic; the last one to stop
+ * removes the subscription and forgets the poll's events.
+ * @param pollId - The poll to follow
+ * @param listener - Called with each event from now on
+ * @returns A function that stops listening, once the subscription is up, or null
+ * when the poll already has SECURITY_CONFIG.RATE_LIMITS.STREAMS_PER_POLL open streams
+ * @throws Error when the poll's topic can't be subscribed to
+ */
+export async function openVoteStream(
+  pollId: string,
+  listener: VoteStreamListener
+): Promise<(() => void) | null> {
+  const stream = streams.get(pollId) ?? followPoll(pollId);
+  if (stream.listeners.size >= SECURITY_CONFIG.RATE_LIMITS.STREAMS_PER_POLL) {
+    return null;
+  }
+
+  stream.listeners.add(listener);
+  const stop = () => {
+    stream.listeners.delete(listener);
+    if (stream.listeners.size === 0) {
+      unfollowPoll(pollId, stream);
+    }
+  };
+
+  try {
+    await stream.ready;
+  } catch (error) {
+    stop();
+    throw error;
+  }
+
+  return stop;
+}
+
+/**
+ * ID to send with a snapshot of a poll's counts taken now
+ */
+export function lastVoteEventId(pollId: string): number {
+  const stream = streams.get(pollId);
+  if (!stream) return lastIssuedId;
+  return stream.backlog[stream.backlog.length - 1]?.id ?? stream.resumableFrom;
+}
+
+/**
+ * Events a resuming client missed
+ * @param pollId - The poll followed
+ * @param lastEventId - The Last-Event-ID the client sent
+ * @returns The events sent after it, or null when they can't all be replayed
+ * and the client needs a snapshot
+ */
+export function voteEventsSince(pollId: string, lastEventId: number): VoteStreamEvent[] | null {
+  const stream = streams.get(pollId);
+  if (!stream || lastEventId < stream.resumableFrom || lastEventId > lastVoteEventId(pollId)) {
+    return null;
+  }
+  return stream.backlog.filter(event => event.id > lastEventId);
+}
+
+/**
+ * Read the Last-Event-ID header of a reconnecting EventSource
+ * @returns number | null - The event ID, or null when the header is missing or not an ID
+ */
+export function parseLastEventId(header: string | null): number | null {
+  if (!header || !/^\d+$/.test(header.trim())) return null;
+  return Number(header.trim());
+}
+
+/**
+ * Format one Server-Sent Event
+ * @param event - The event name
+ * @param id - The event ID the client resumes from
+ * @param data - The payload, sent as JSON
+ */
+export function formatStreamEvent(event: string, id: number, data: unknown): string {
+  return `id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -121,16 +121,14 @@ export async function handleVote(voteData: VoteRequest): Promise<VoteResponse> {
       throw voteRecordResult.error;
     }
 
-    // Get updated vote count
+    // Get updated vote count, left out while the poll's results are hidden from the voter
     const updatedVoteCountResult = await supabaseClient
-      .from('poll_options')
-      .select('votes')
-      .eq('id', optionIdentifier)
-      .single();
+      .rpc('get_option_counts', { poll_uuids: [pollIdentifier] });
 
     let updatedVoteCount: number | undefined;
     if (updatedVoteCountResult.data) {
-      updatedVoteCount = updatedVoteCountResult.data.votes;
+      updatedVoteCount = updatedVoteCountResult.data
+        .find((option: { option_id: string }) => option.option_id === optionIdentifier)?.votes;
     }
 
     return {
@@ -1,14 +1,17 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { getSupabaseClient } from '@/app/actions/poll-client';
 import { getCurrentUserSafe } from '@/app/actions/poll-auth';
-import { createErrorResponse, createSuccessResponse, handleError } from '@/app/actions/poll-errors';
-import type { ApiResponse } from '@/app/actions/poll-types';
+import { POLL_ERROR_CODES, createErrorResponse, createSuccessResponse, handleError } from '@/app/actions/poll-errors';
+import { validateOptionIds } from '@/app/actions/poll-validation';
+import type { ApiResponse, PollType } from '@/app/actions/poll-types';
 
 /**
  * Vote request interface with strict typing
  */
 export interface VoteRequest {
   pollId: string;
-  optionId: string;
+  optionId?: string;
+  optionIds?: string[]; // Multi-select ballots
   userId?: string; // Optional for testing
 }
 
@@ -18,8 +21,10 @@ export interface VoteRequest {
 export interface VoteData {
   pollId: string;
   optionId: string;
+  optionIds: string[];
   userId: string;
   newVoteCount: number;
+  newVoteCounts: Record<string, number>;
 }
 
 /**
@@ -28,9 +33,21 @@ export interface VoteData {
 interface PollValidation {
   isValid: boolean;
   pollId: string;
-  optionId: string;
+  optionIds: string[];
+  pollType?: PollType;
+  isSecret?: boolean; // Secret ballots are split from the voter by increment_votes
   error?: string;
   isExpired?: boolean;
+  isScheduled?: boolean; // The poll has an opening time that hasn't come yet
+  code?: string; // Error code from POLL_ERROR_CODES, when there is one
+}
+
+/**
+ * Normalize the single and multi-select request shapes into one list of option IDs
+ */
+function getSelectedOptionIds({ optionId, optionIds }: VoteRequest): string[] {
+  if (Array.isArray(optionIds)) return optionIds;
+  return optionId ? [optionId] : [];
 }
 
 /**
@@ -43,9 +60,12 @@ interface PollValidation {
  * - Reduced variable verbosity
  * - Type-safe interfaces
  */
-export async function handleVote({ pollId, optionId, userId }: VoteRequest): Promise<ApiResponse<VoteData>> {
+export async function handleVote(request: VoteRequest): Promise<ApiResponse<VoteData>> {
+  const { pollId, userId } = request;
+  const optionIds = getSelectedOptionIds(request);
+  
   // Input validation - fail fast
-  if (!pollId?.trim() || !optionId?.trim()) {
+  if (!pollId?.trim() || optionIds.length === 0 || optionIds.some(id => !id?.trim())) {
     return createErrorResponse('Poll ID and Option ID are required');
   }
 
@@ -58,24 +78,27 @@ export async function handleVote({ pollId, optionId, userId }: VoteRequest): Pro
       return createErrorResponse('Authentication required');
     }
 
-    // Step 2: Validate poll and option in single query (OPTIMIZATION)
-    const validation = await validatePollAndOption(client, pollId, optionId);
+    // Step 2: Validate poll and options in single query (OPTIMIZATION)
+    const validation = await validatePollAndOptions(client, pollId, optionIds);
     if (!validation.isValid) {
-      return createErrorResponse(validation.error!);
+      return createErrorResponse(validation.error!, validation.code);
     }
 
     // Step 3: Check existing vote and record new vote atomically
-    const voteResult = await recordVoteAtomically(client, pollId, optionId, user);
+    const voteResult = await recordVoteAtomically(client, pollId, optionIds, validation.pollType!, validation.isSecret!, user);
     if (!voteResult.success) {
-      return createErrorResponse(voteResult.error!);
+      return createErrorResponse(voteResult.error!, voteResult.code);
     }
 
-    // Step 4: Return success with vote count from atomic operation
+    // Step 4: Return success with vote counts from atomic operation
+    const newVoteCounts = voteResult.newVoteCounts!;
     return createSuccessResponse<VoteData>({
       pollId,
-      optionId,
+      optionId: optionIds[0],
+      optionIds,
       userId: user,
-      newVoteCount: voteResult.newVoteCount!
+      newVoteCount: newVoteCounts[optionIds[0]] ?? 0,
+      newVoteCounts
     });
 
   } catch (err) {
@@ -86,102 +109,183 @@ export async function handleVote({ pollId, optionId, userId }: VoteRequest): Pro
 /**
  * Get authenticated user ID with performance optimization
  */
-async function getAuthenticatedUserId(client: any): Promise<string | null> {
+async function getAuthenticatedUserId(client: SupabaseClient): Promise<string | null> {
   const authResult = await getCurrentUserSafe();
   return authResult.success ? authResult.user!.id : null;
 }
 
 /**
- * Validate poll existence and option in a single optimized query
+ * Validate poll existence, options and selection limits in a single optimized query
  * Reduces database calls from 2 to 1
  */
-async function validatePollAndOption(
-  client: any, 
+async function validatePollAndOptions(
+  client: SupabaseClient,
   pollId: string, 
-  optionId: string
+  optionIds: string[]
 ): Promise<PollValidation> {
-  // OPTIMIZATION: Single query with JOIN to check both poll and option
+  // OPTIMIZATION: Single query with JOIN to check both poll and options
   const { data, error } = await client
     .from('polls')
     .select(`
       id,
+      opens_at,
       expires_at,
+      closed_at,
+      poll_type,
+      is_secret,
+      min_selections,
+      max_selections,
       poll_options!inner(
         id,
         poll_id
       )
     `)
     .eq('id', pollId)
-    .eq('poll_options.id', optionId)
+    .in('poll_options.id', optionIds)
     .single();
 
-  if (error || !data) {
+  if (error || !data || data.poll_options.length !== new Set(optionIds).size) {
     return {
       isValid: false,
       pollId,
-      optionId,
-      error: error?.code === 'PGRST116' ? 'Poll or option not found' : 'Invalid poll or option'
+      optionIds,
+      error: !error || error.code === 'PGRST116' ? 'Poll or option not found' : 'Invalid poll or option'
     };
   }
 
-  // Check expiration
+  // Check the poll has opened
   const now = Date.now();
+  const opensAt = data.opens_at ? new Date(data.opens_at).getTime() : null;
+  
+  if (opensAt && opensAt > now) {
+    return {
+      isValid: false,
+      pollId,
+      optionIds,
+      error: 'Poll is not open yet',
+      isScheduled: true
+    };
+  }
+
+  // Check expiration
   const expiresAt = data.expires_at ? new Date(data.expires_at).getTime() : null;
   
   if (expiresAt && expiresAt <= now) {
     return {
       isValid: false,
       pollId,
-      optionId,
+      optionIds,
       error: 'Poll has expired',
       isExpired: true
     };
   }
 
+  // Check no auto-close rule has closed the poll
+  if (data.closed_at) {
+    return {
+      isValid: false,
+      pollId,
+      optionIds,
+      error: 'Poll is closed',
+      isExpired: true,
+      code: POLL_ERROR_CODES.POLL_CLOSED
+    };
+  }
+
+  // Check the ballot against the poll's selection limits
+  const pollType: PollType = data.poll_type ?? 'single';
+  const selectionErrors = validateOptionIds(optionIds, {
+    pollType,
+    minSelections: data.min_selections ?? 1,
+    maxSelections: data.max_selections ?? null
+  });
+  
+  if (selectionErrors.length > 0) {
+    return {
+      isValid: false,
+      pollId,
+      optionIds,
+      error: selectionErrors[0].message
+    };
+  }
+
   return {
     isValid: true,
     pollId,
-    optionId
+    optionIds,
+    pollType,
+    isSecret: data.is_secret ?? false
   };
 }
 
 /**
  * Record vote atomically using RPC function
- * The RPC handles duplicate checking and vote counting in a single transaction
+ * The RPC handles duplicate checking, selection limits and vote counting in a single transaction
  */
 async function recordVoteAtomically(
-  client: any,
+  client: SupabaseClient,
   pollId: string,
-  optionId: string,
+  optionIds: string[],
+  pollType: PollType,
+  isSecret: boolean,
   userId: string
-): Promise<{ success: boolean; error?: string; newVoteCount?: number }> {
-  // Use RPC function for atomic vote operation
-  const { data, error } = await client.rpc('increment_vote', {
-    option_id: optionId,
-    poll_id: pollId,
-    user_id: userId
-  });
+): Promise<{ success: boolean; error?: string; code?: string; newVoteCounts?: Record<string, number> }> {
+  // Use RPC function for atomic vote operation; secret ballots always go through increment_votes
+  const { error } = pollType === 'single' && !isSecret
+    ? await client.rpc('increment_vote', {
+        option_id: optionIds[0],
+        poll_id: pollId,
+        user_id: userId
+      })
+    : await client.rpc('increment_votes', {
+        option_ids: optionIds,
+        poll_id: pollId,
+        user_id: userId
+      });
 
   if (error) {
     // Handle specific error cases
+    if (error.message.includes('is closed')) {
+      return { success: false, error: 'Poll is closed', code: POLL_ERROR_CODES.POLL_CLOSED };
+    }
+    if (error.message.includes('expired')) {
+      return { success: false, error: 'Poll has expired' };
+    }
     if (error.message.includes('already voted')) {
       return { success: false, error: 'You have already voted on this poll' };
     }
+    if (error.message.includes('not invited')) {
+      return { success: false, error: 'You are not invited to vote on this poll' };
+    }
+    if (error.message.includes('not an eligible voter')) {
+      return { success: false, error: 'You are not an eligible voter on this poll' };
+    }
+    if (error.message.includes('needs its passcode')) {
+      return { success: false, error: 'Enter the passcode to open this poll' };
+    }
+    if (error.message.includes('Select at')) {
+      return { success: false, error: error.message };
+    }
     throw error;
   }
 
   // OPTIMIZATION: RPC function should return the new vote count
   // If not available, we could modify the RPC or accept this trade-off
-  // For now, we'll make a quick query for the count
+  // For now, we'll make a quick query for the counts, which get_option_counts
+  // leaves out while the poll's results are hidden from the voter
   const { data: optionData } = await client
-    .from('poll_options')
-    .select('votes')
-    .eq('id', optionId)
-    .single();
+    .rpc('get_option_counts', { poll_uuids: [pollId] });
+
+  const newVoteCounts: Record<string, number> = {};
+  for (const option of optionData || []) {
+    if (optionIds.includes(option.option_id)) {
+      newVoteCounts[option.option_id] = option.votes;
+    }
+  }
 
   return {
     success: true,
-    newVoteCount: optionData?.votes || 0
+    newVoteCounts
   };
 }
 
@@ -195,10 +299,11 @@ const CACHE_TTL = 5000; // 5 seconds
 /**
  * Get cached vote count or fetch from database
  * @param client - Supabase client
+ * @param pollId - Poll ID
  * @param optionId - Option ID
- * @returns Promise<number> - Vote count
+ * @returns Promise<number> - Vote count, 0 while the poll's results are hidden
  */
-async function getCachedVoteCount(client: any, optionId: string): Promise<number> {
+async function getCachedVoteCount(client: SupabaseClient, pollId: string, optionId: string): Promise<number> {
   const cached = voteCountCache.get(optionId);
   const now = Date.now();
   
@@ -209,12 +314,9 @@ async function getCachedVoteCount(client: any, optionId: string): Promise<number
   
   // Fetch fresh count
   const { data } = await client
-    .from('poll_options')
-    .select('votes')
-    .eq('id', optionId)
-    .single();
+    .rpc('get_option_counts', { poll_uuids: [pollId] });
   
-  const count = data?.votes || 0;
+  const count = data?.find((option: { option_id: string }) => option.option_id === optionId)?.votes || 0;
   
   // Update cache
   voteCountCache.set(optionId, { count, timestamp: now });
@@ -232,9 +334,12 @@ export function clearVoteCountCache(): void {
 /**
  * Enhanced vote handler with caching for high-traffic scenarios
  */
-export async function handleVoteWithCache({ pollId, optionId, userId }: VoteRequest): Promise<ApiResponse<VoteData>> {
+export async function handleVoteWithCache(request: VoteRequest): Promise<ApiResponse<VoteData>> {
+  const { pollId, userId } = request;
+  const optionIds = getSelectedOptionIds(request);
+  
   // Same validation logic as main handler
-  if (!pollId?.trim() || !optionId?.trim()) {
+  if (!pollId?.trim() || optionIds.length === 0 || optionIds.some(id => !id?.trim())) {
     return createErrorResponse('Poll ID and Option ID are required');
   }
 
@@ -246,24 +351,29 @@ export async function handleVoteWithCache({ pollId, optionId, userId }: VoteRequ
       return createErrorResponse('Authentication required');
     }
 
-    const validation = await validatePollAndOption(client, pollId, optionId);
+    const validation = await validatePollAndOptions(client, pollId, optionIds);
     if (!validation.isValid) {
-      return createErrorResponse(validation.error!);
+      return createErrorResponse(validation.error!, validation.code);
     }
 
-    const voteResult = await recordVoteAtomically(client, pollId, optionId, user);
+    const voteResult = await recordVoteAtomically(client, pollId, optionIds, validation.pollType!, validation.isSecret!, user);
     if (!voteResult.success) {
-      return createErrorResponse(voteResult.error!);
+      return createErrorResponse(voteResult.error!, voteResult.code);
     }
 
-    // Use cached vote count for better performance
-    const newVoteCount = await getCachedVoteCount(client, optionId);
+    // Use cached vote counts for better performance
+    const newVoteCounts: Record<string, number> = {};
+    for (const id of optionIds) {
+      newVoteCounts[id] = await getCachedVoteCount(client, pollId, id);
+    }
     
     return createSuccessResponse<VoteData>({
       pollId,
-      optionId,
+      optionId: optionIds[0],
+      optionIds,
       userId: user,
-      newVoteCount
+      newVoteCount: newVoteCounts[optionIds[0]],
+      newVoteCounts
     });
 
   } catch (err) {
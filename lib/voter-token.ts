@@ -0,0 +1,115 @@
+/**
+ * Voter tokens
+ *
+ * Visitors voting without an account are identified by a random token kept in
+ * an httpOnly cookie. The cookie carries an HMAC of the token so the server
+ * only passes tokens it issued to the database. Server-only: the signing key
+ * comes from VOTER_TOKEN_SECRET.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { RateLimiter, SECURITY_CONFIG } from './security';
+
+export const VOTER_TOKEN_COOKIE = 'voter_token';
+
+const VOTER_TOKEN_MAX_AGE = 60 * 60 * 24 * 365; // One year, in seconds
+
+/**
+ * Options of the voter token cookie, for responses and server actions alike
+ */
+export const VOTER_TOKEN_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax',
+  path: '/',
+  maxAge: VOTER_TOKEN_MAX_AGE
+} as const;
+
+function getSecret(): string {
+  const secret = process.env.VOTER_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('VOTER_TOKEN_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(token: string): string {
+  return createHmac('sha256', getSecret()).update(token).digest('base64url');
+}
+
+/**
+ * Issue a new voter token
+ * @returns { token, cookieValue } - The token for the database and the signed value for the cookie
+ */
+export function createVoterToken(): { token: string; cookieValue: string } {
+  const token = randomUUID();
+  return { token, cookieValue: `${token}.${sign(token)}` };
+}
+
+/**
+ * Check a voter token cookie
+ * @param cookieValue - The cookie's value, if the visitor sent one
+ * @returns string | null - The token when the signature matches, otherwise null
+ */
+export function verifyVoterToken(cookieValue: string | undefined): string | null {
+  if (!cookieValue) return null;
+
+  const [token, signature] = cookieValue.split('.');
+  if (!token || !signature) return null;
+
+  const expected = Buffer.from(sign(token));
+  const actual = Buffer.from(signature);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected) ? token : null;
+}
+
+/**
+ * The visitor's voter token, or a new one when the cookie is missing or forged
+ * @returns { token, cookieValue } - cookieValue is set when a new cookie has to be sent
+ */
+export function getVoterToken(request: NextRequest): { token: string; cookieValue?: string } {
+  const token = verifyVoterToken(request.cookies.get(VOTER_TOKEN_COOKIE)?.value);
+  return token ? { token } : createVoterToken();
+}
+
+/**
+ * Send the voter token cookie with a response
+ */
+export function setVoterTokenCookie(response: NextResponse, cookieValue: string): void {
+  response.cookies.set(VOTER_TOKEN_COOKIE, cookieValue, VOTER_TOKEN_COOKIE_OPTIONS);
+}
+
+/**
+ * The client address of a request, for limits on visitors without an account
+ * Clients can send any X-Forwarded-For they like; only the addresses appended
+ * by the proxies in front of the app can be trusted. TRUSTED_PROXY_HOPS (1 by
+ * default, as on Vercel) says how many of them there are, so the address the
+ * outermost one saw is that many entries from the end.
+ * @param headers - The request headers
+ * @returns string - The address seen by the outermost trusted proxy, or 'unknown'
+ */
+export function getClientAddress(headers: Pick<Headers, 'get'>): string {
+  const hops = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  const trustedHops = Number(process.env.TRUSTED_PROXY_HOPS) || 1;
+
+  return hops[hops.length - trustedHops] || 'unknown';
+}
+
+/**
+ * Rate limit anonymous votes by client address
+ * A new voter token only takes clearing cookies, so the limit can't be keyed on the token.
+ * The address is the one added by the proxy (see getClientAddress), so sending
+ * a different X-Forwarded-For with every vote doesn't reset the limit.
+ * @returns boolean - True when the address has cast too many anonymous votes in the last minute
+ */
+export function isAnonymousVoteRateLimited(request: NextRequest): boolean {
+  return RateLimiter.isRateLimited(
+    `anonymous-vote:${getClientAddress(request.headers)}`,
+    SECURITY_CONFIG.RATE_LIMITS.VOTES_PER_MINUTE,
+    60 * 1000
+  );
+}
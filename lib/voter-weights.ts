@@ -0,0 +1,101 @@
+/**
+ * Weighted voting
+ *
+ * On a weighted poll each eligible voter's ballot counts their weight (shares
+ * held, delegates represented, ...) instead of 1. The creator assigns weights
+ * in poll_voter_weights, by email address or user ID; voters without one can't
+ * vote. The votes_set_weight trigger copies the weight onto each ballot as it
+ * is cast, so poll_options.votes holds the weighted totals and
+ * get_option_headcounts the number of voters behind them. Weights are fixed
+ * once the poll opens, so they can't be changed mid-vote.
+ */
+
+import { parseInvitees } from './poll-invites';
+
+/**
+ * Poll types that can be weighted
+ */
+export const WEIGHTED_POLL_TYPES = ['single', 'multiple', 'approval'];
+
+/**
+ * Largest weight a voter can have; matches poll_voter_weights_weight_check
+ */
+export const MAX_VOTER_WEIGHT = 1000000;
+
+/**
+ * Most voter weights set in one go
+ */
+export const MAX_WEIGHTED_VOTERS = 500;
+
+export interface VoterWeightEntry {
+  email?: string; // Lower case, as stored in poll_voter_weights.email
+  userId?: string;
+  weight: number;
+}
+
+export interface ParsedVoterWeights {
+  weights: VoterWeightEntry[];
+  invalid: string[]; // Lines that aren't a voter followed by a weight, as typed
+}
+
+/**
+ * Read a list of voter weights, one voter per line followed by their weight
+ * The voter is an email address or user ID, separated from the weight by
+ * spaces, a comma, a colon or a tab. A voter listed twice keeps the last weight.
+ * @param input - The weights as typed, e.g. "ada@example.com 40"
+ * @returns ParsedVoterWeights - The weights, and the lines that couldn't be read
+ */
+export function parseVoterWeights(input: string): ParsedVoterWeights {
+  const weights = new Map<string, VoterWeightEntry>();
+  const invalid: string[] = [];
+
+  const lines = input.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+
+  for (const line of lines) {
+    const match = line.match(/^(\S+?)[\s,:;]+(\d+)$/);
+    const weight = match ? Number(match[2]) : NaN;
+
+    if (!match || !Number.isInteger(weight) || weight < 1 || weight > MAX_VOTER_WEIGHT) {
+      invalid.push(line);
+      continue;
+    }
+
+    const { emails, userIds } = parseInvitees([match[1]]);
+    if (emails.length === 1) {
+      weights.set(emails[0], { email: emails[0], weight });
+    } else if (userIds.length === 1) {
+      weights.set(userIds[0], { userId: userIds[0], weight });
+    } else {
+      invalid.push(line);
+    }
+  }
+
+  return { weights: [...weights.values()], invalid };
+}
+
+/**
+ * Check whether a poll's voter weights can still be changed
+ * Mirrors reject_weight_change_after_opening: a scheduled poll fixes them at
+ * opens_at, a poll open from the start at its first ballot.
+ * @param poll - The poll's opening time and voter count
+ * @param now - The current time
+ * @returns boolean - True once the weights are fixed
+ */
+export function areWeightsLocked(
+  poll: { opens_at: string | null; voter_count: number },
+  now: Date = new Date()
+): boolean {
+  if (poll.opens_at) {
+    return new Date(poll.opens_at).getTime() <= now.getTime();
+  }
+  return poll.voter_count > 0;
+}
+
+/**
+ * Add up the weights of a poll's voters
+ * @param weights - The voters' weights
+ * @returns number - The total weight, i.e. the most an option can get
+ */
+export function totalWeight(weights: { weight: number }[]): number {
+  return weights.reduce((total, entry) => total + entry.weight, 0);
+}
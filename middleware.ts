@@ -16,6 +16,7 @@ const PROTECTED_ROUTES = [
   '/dashboard',
   '/polls/create',
   '/polls/[id]/edit',
+  '/surveys/create',
   '/api/polls',
   '/api/votes'
 ];
@@ -30,9 +31,16 @@ const AUTH_ROUTES = [
 const PUBLIC_ROUTES = [
   '/',
   '/polls/[id]', // Public poll viewing
+  '/polls/[id]/present', // Presenter mode for wall displays
+  '/surveys/[id]', // Public survey viewing
   '/auth/callback'
 ];
 
+// Public routes under a protected prefix, checked first
+const PUBLIC_API_ROUTES = [
+  '/api/polls/[id]/stream' // Vote streams for wall displays and scripts
+];
+
 function isProtectedRoute(pathname: string): boolean {
   return PROTECTED_ROUTES.some(route => {
     if (route.includes('[id]')) {
@@ -45,6 +53,13 @@ function isProtectedRoute(pathname: string): boolean {
   });
 }
 
+function isPublicApiRoute(pathname: string): boolean {
+  return PUBLIC_API_ROUTES.some(route => {
+    const pattern = route.replace('[id]', '[^/]+');
+    return new RegExp(`^${pattern}$`).test(pathname);
+  });
+}
+
 function isAuthRoute(pathname: string): boolean {
   return AUTH_ROUTES.some(route => pathname.startsWith(route));
 }
@@ -93,6 +108,11 @@ export async function middleware(request: NextRequest) {
     );
   }
   
+  // Allow access to public API routes; the routes check access themselves
+  if (isPublicApiRoute(pathname)) {
+    return secureResponse;
+  }
+  
   // Protect routes that require authentication
   if (!isAuthenticated && isProtectedRoute(pathname)) {
     return AuthSecurity.requireAuth(request);
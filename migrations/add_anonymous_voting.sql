@@ -0,0 +1,179 @@
+-- Migration to let visitors without an account vote on polls that allow it
+-- Run this after add_vote_changes.sql
+
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS allow_anonymous BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Only standalone choice polls; quizzes need an account to hand out the answer key
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_anonymous_check;
+ALTER TABLE polls ADD CONSTRAINT polls_anonymous_check
+  CHECK (NOT allow_anonymous OR (poll_type IN ('single', 'multiple', 'ranked', 'approval') AND survey_id IS NULL AND NOT is_quiz));
+
+COMMENT ON COLUMN polls.allow_anonymous IS 'Visitors without an account may vote, identified by the voter token in a signed cookie.';
+
+-- Anonymous ballots carry the visitor's voter token instead of a user
+ALTER TABLE votes ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS voter_token UUID;
+
+ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_voter_check;
+ALTER TABLE votes ADD CONSTRAINT votes_voter_check CHECK ((user_id IS NULL) <> (voter_token IS NULL));
+
+-- One ballot per voter token and poll, like UNIQUE(user_id, poll_id) for accounts
+ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_voter_token_poll_id_key;
+ALTER TABLE votes ADD CONSTRAINT votes_voter_token_poll_id_key UNIQUE (voter_token, poll_id);
+
+COMMENT ON COLUMN votes.voter_token IS 'Voter token of an anonymous ballot; NULL on ballots cast with an account.';
+
+-- Function recording a choice ballot for a user or a voter token
+-- Locks the poll row so the selection limits are enforced in the same transaction as the insert.
+-- On ranked polls option_ids is in preference order and poll_options.votes counts first preferences.
+-- Not callable through the API: increment_votes and cast_anonymous_ballot check the voter first.
+CREATE OR REPLACE FUNCTION record_ballot(option_ids UUID[], poll_id UUID, user_id UUID, voter_token UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  selection_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+BEGIN
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = record_ballot.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type = 'score' THEN
+    RAISE EXCEPTION 'Score every option';
+  END IF;
+
+  IF poll_record.poll_type = 'schedule' THEN
+    RAISE EXCEPTION 'Answer every time slot';
+  END IF;
+
+  selection_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF selection_count <> (SELECT COUNT(DISTINCT selected) FROM unnest(option_ids) AS selected) THEN
+    RAISE EXCEPTION 'The same option cannot be selected twice';
+  END IF;
+
+  IF poll_record.poll_type = 'single' AND selection_count <> 1 THEN
+    RAISE EXCEPTION 'This poll accepts exactly one option';
+  END IF;
+
+  IF selection_count < poll_record.min_selections THEN
+    RAISE EXCEPTION 'Select at least % option(s)', poll_record.min_selections;
+  END IF;
+
+  IF poll_record.max_selections IS NOT NULL AND selection_count > poll_record.max_selections THEN
+    RAISE EXCEPTION 'Select at most % option(s)', poll_record.max_selections;
+  END IF;
+
+  SELECT COUNT(*) INTO valid_option_count
+  FROM poll_options
+  WHERE poll_options.id = ANY(option_ids)
+  AND poll_options.poll_id = record_ballot.poll_id;
+
+  IF valid_option_count <> selection_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  INSERT INTO votes (user_id, voter_token, poll_id, option_id)
+  VALUES (
+    record_ballot.user_id,
+    record_ballot.voter_token,
+    record_ballot.poll_id,
+    CASE WHEN selection_count = 1 THEN option_ids[1] END
+  )
+  RETURNING id INTO new_vote_id;
+
+  IF poll_record.poll_type = 'ranked' THEN
+    INSERT INTO vote_selections (vote_id, poll_id, option_id, rank)
+    SELECT new_vote_id, record_ballot.poll_id, ranking.selected, ranking.position
+    FROM unnest(option_ids) WITH ORDINALITY AS ranking(selected, position);
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = option_ids[1];
+  ELSE
+    INSERT INTO vote_selections (vote_id, poll_id, option_id)
+    SELECT new_vote_id, record_ballot.poll_id, selected
+    FROM unnest(option_ids) AS selected;
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = ANY(option_ids);
+  END IF;
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_ballot(UUID[], UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to record a multi-select or ranked ballot for the signed-in caller
+CREATE OR REPLACE FUNCTION increment_votes(option_ids UUID[], poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF increment_votes.user_id IS NULL OR increment_votes.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  PERFORM record_ballot(option_ids, increment_votes.poll_id, increment_votes.user_id, NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to record the ballot of a visitor without an account
+-- Only the server calls this, with the service role, after checking the
+-- signature of the visitor's voter token cookie.
+CREATE OR REPLACE FUNCTION cast_anonymous_ballot(option_ids UUID[], poll_id UUID, voter_token UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF cast_anonymous_ballot.voter_token IS NULL THEN
+    RAISE EXCEPTION 'Voter token required';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM polls
+    WHERE polls.id = cast_anonymous_ballot.poll_id
+    AND polls.allow_anonymous
+  ) THEN
+    RAISE EXCEPTION 'This poll does not accept anonymous votes';
+  END IF;
+
+  PERFORM record_ballot(option_ids, cast_anonymous_ballot.poll_id, NULL, cast_anonymous_ballot.voter_token);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION cast_anonymous_ballot(UUID[], UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function returning the counts of a poll split into anonymous and signed-in ballots
+-- Rows with an option_id count the ballots adding a vote to that option (first
+-- preferences on ranked polls); the row without one counts the ballots of that
+-- kind. Only the poll creator gets rows back.
+CREATE OR REPLACE FUNCTION get_vote_breakdown(poll_uuid UUID)
+RETURNS TABLE(anonymous BOOLEAN, option_id UUID, votes BIGINT) AS $$
+  SELECT votes.voter_token IS NOT NULL, counted.option_id, COUNT(DISTINCT votes.id)
+  FROM votes
+  JOIN polls ON polls.id = votes.poll_id
+  LEFT JOIN LATERAL (
+    SELECT vote_selections.option_id
+    FROM vote_selections
+    WHERE vote_selections.vote_id = votes.id
+    AND (vote_selections.rank IS NULL OR vote_selections.rank = 1)
+    UNION
+    SELECT votes.option_id
+    WHERE votes.option_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM vote_selections WHERE vote_selections.vote_id = votes.id)
+  ) counted ON TRUE
+  WHERE votes.poll_id = poll_uuid
+  AND polls.user_id = auth.uid()
+  GROUP BY GROUPING SETS ((votes.voter_token IS NOT NULL, counted.option_id), (votes.voter_token IS NOT NULL));
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
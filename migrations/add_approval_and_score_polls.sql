@@ -0,0 +1,194 @@
+-- Migration to add approval and score (star rating) polls
+-- Run this after add_ranked_choice_polls.sql
+
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_poll_type_check;
+ALTER TABLE polls ADD CONSTRAINT polls_poll_type_check
+  CHECK (poll_type IN ('single', 'multiple', 'ranked', 'approval', 'score'));
+
+COMMENT ON COLUMN polls.poll_type IS 'single: one option per voter. multiple: between min_selections and max_selections options per voter. ranked: options in order of preference, counted by instant runoff. approval: any number of options per voter. score: every option rated from 0 to 5 stars.';
+COMMENT ON COLUMN poll_options.votes IS 'Ballots choosing the option; first preferences on ranked polls and total stars on score polls.';
+
+-- Star rating given to the option on a score ballot; NULL on other ballots
+ALTER TABLE vote_selections
+ADD COLUMN IF NOT EXISTS score INTEGER CHECK (score BETWEEN 0 AND 5);
+
+-- Reject score polls in increment_votes; they are recorded by increment_scores
+CREATE OR REPLACE FUNCTION increment_votes(option_ids UUID[], poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  selection_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+BEGIN
+  IF increment_votes.user_id IS NULL OR increment_votes.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = increment_votes.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type = 'score' THEN
+    RAISE EXCEPTION 'Score every option';
+  END IF;
+
+  selection_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF selection_count <> (SELECT COUNT(DISTINCT selected) FROM unnest(option_ids) AS selected) THEN
+    RAISE EXCEPTION 'The same option cannot be selected twice';
+  END IF;
+
+  IF poll_record.poll_type = 'single' AND selection_count <> 1 THEN
+    RAISE EXCEPTION 'This poll accepts exactly one option';
+  END IF;
+
+  IF selection_count < poll_record.min_selections THEN
+    RAISE EXCEPTION 'Select at least % option(s)', poll_record.min_selections;
+  END IF;
+
+  IF poll_record.max_selections IS NOT NULL AND selection_count > poll_record.max_selections THEN
+    RAISE EXCEPTION 'Select at most % option(s)', poll_record.max_selections;
+  END IF;
+
+  SELECT COUNT(*) INTO valid_option_count
+  FROM poll_options
+  WHERE poll_options.id = ANY(option_ids)
+  AND poll_options.poll_id = increment_votes.poll_id;
+
+  IF valid_option_count <> selection_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  -- One ballot per user per poll; option_id is only set for single selections
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (
+    increment_votes.user_id,
+    increment_votes.poll_id,
+    CASE WHEN selection_count = 1 THEN option_ids[1] END
+  )
+  RETURNING id INTO new_vote_id;
+
+  IF poll_record.poll_type = 'ranked' THEN
+    INSERT INTO vote_selections (vote_id, poll_id, option_id, rank)
+    SELECT new_vote_id, increment_votes.poll_id, ranking.selected, ranking.position
+    FROM unnest(option_ids) WITH ORDINALITY AS ranking(selected, position);
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = option_ids[1];
+  ELSE
+    INSERT INTO vote_selections (vote_id, poll_id, option_id)
+    SELECT new_vote_id, increment_votes.poll_id, selected
+    FROM unnest(option_ids) AS selected;
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = ANY(option_ids);
+  END IF;
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record a score ballot: scores[i] is the rating for option_ids[i]
+-- Every option on the poll must be rated; poll_options.votes accumulates the stars
+CREATE OR REPLACE FUNCTION increment_scores(option_ids UUID[], scores INTEGER[], poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  rating_count INTEGER;
+  poll_option_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+BEGIN
+  IF increment_scores.user_id IS NULL OR increment_scores.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = increment_scores.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type <> 'score' THEN
+    RAISE EXCEPTION 'This poll does not accept scores';
+  END IF;
+
+  rating_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF rating_count <> COALESCE(array_length(scores, 1), 0) THEN
+    RAISE EXCEPTION 'Each option needs exactly one score';
+  END IF;
+
+  IF rating_count <> (SELECT COUNT(DISTINCT rated) FROM unnest(option_ids) AS rated) THEN
+    RAISE EXCEPTION 'The same option cannot be scored twice';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(scores) AS score WHERE score IS NULL OR score < 0 OR score > 5) THEN
+    RAISE EXCEPTION 'Scores must be whole numbers from 0 to 5';
+  END IF;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE poll_options.id = ANY(option_ids))
+  INTO poll_option_count, valid_option_count
+  FROM poll_options
+  WHERE poll_options.poll_id = increment_scores.poll_id;
+
+  IF valid_option_count <> rating_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  IF rating_count <> poll_option_count THEN
+    RAISE EXCEPTION 'Score every option';
+  END IF;
+
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (increment_scores.user_id, increment_scores.poll_id, NULL)
+  RETURNING id INTO new_vote_id;
+
+  INSERT INTO vote_selections (vote_id, poll_id, option_id, score)
+  SELECT new_vote_id, increment_scores.poll_id, rating.option_id, rating.score
+  FROM unnest(option_ids, scores) AS rating(option_id, score);
+
+  UPDATE poll_options
+  SET votes = votes + rating.score
+  FROM unnest(option_ids, scores) AS rating(option_id, score)
+  WHERE poll_options.id = rating.option_id;
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Ballot counts per option and score for the score aggregates
+-- Like get_ranked_ballots, this never reveals who gave which rating
+CREATE OR REPLACE FUNCTION get_score_distribution(poll_uuid UUID)
+RETURNS TABLE(option_id UUID, score INTEGER, ballots BIGINT) AS $$
+  SELECT vote_selections.option_id, vote_selections.score, COUNT(*)
+  FROM vote_selections
+  JOIN polls ON polls.id = vote_selections.poll_id
+  WHERE vote_selections.poll_id = poll_uuid
+  AND polls.poll_type = 'score'
+  AND vote_selections.score IS NOT NULL
+  GROUP BY vote_selections.option_id, vote_selections.score;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
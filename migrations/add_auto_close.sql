@@ -0,0 +1,180 @@
+-- Migration adding rules that close a poll once a condition is met
+-- Run this after add_poll_opening.sql
+
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS close_after_votes INTEGER;
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS eligible_voters INTEGER;
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS quorum_percent INTEGER;
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS close_lead_margin INTEGER;
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS closed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS close_reason TEXT;
+
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_auto_close_check;
+ALTER TABLE polls ADD CONSTRAINT polls_auto_close_check
+  CHECK (
+    (close_after_votes IS NULL OR close_after_votes >= 1)
+    AND (eligible_voters IS NULL OR eligible_voters >= 1)
+    AND (quorum_percent IS NULL OR (quorum_percent BETWEEN 1 AND 100 AND eligible_voters IS NOT NULL))
+    AND (close_lead_margin IS NULL OR (close_lead_margin >= 1 AND poll_type IN ('single', 'multiple', 'ranked', 'approval')))
+    AND (survey_id IS NULL OR (close_after_votes IS NULL AND quorum_percent IS NULL AND close_lead_margin IS NULL))
+  );
+
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_close_reason_check;
+ALTER TABLE polls ADD CONSTRAINT polls_close_reason_check
+  CHECK (
+    (closed_at IS NULL AND close_reason IS NULL)
+    OR (closed_at IS NOT NULL AND close_reason IN ('vote_cap', 'quorum', 'lead_margin'))
+  );
+
+COMMENT ON COLUMN polls.close_after_votes IS 'The poll closes once this many ballots have been cast.';
+COMMENT ON COLUMN polls.eligible_voters IS 'Size of the electorate quorum_percent is measured against.';
+COMMENT ON COLUMN polls.quorum_percent IS 'The poll closes once this percentage of eligible_voters have voted.';
+COMMENT ON COLUMN polls.close_lead_margin IS 'The poll closes once one option leads the runner-up by this many votes.';
+COMMENT ON COLUMN polls.closed_at IS 'When the poll closed before its expiry; NULL while it is open.';
+COMMENT ON COLUMN polls.close_reason IS 'Which rule closed the poll: vote_cap, quorum or lead_margin.';
+
+-- A poll closed by one of these rules shows the results held back until it closed
+CREATE OR REPLACE FUNCTION can_view_poll_results(poll_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.jwt() ->> 'role', '') = 'service_role' OR EXISTS (
+    SELECT 1 FROM polls
+    WHERE polls.id = poll_uuid
+    AND (NOT polls.is_secret OR (polls.closed_at IS NOT NULL OR polls.expires_at <= NOW()))
+    AND (
+      polls.user_id = auth.uid()
+      OR polls.results_visibility = 'always'
+      OR (polls.results_visibility IN ('after_vote', 'after_close')
+        AND (polls.closed_at IS NOT NULL OR polls.expires_at <= NOW()))
+      OR (polls.results_visibility = 'after_vote' AND EXISTS (
+        SELECT 1 FROM votes WHERE votes.poll_id = poll_uuid AND votes.user_id = auth.uid()
+      ))
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function rejecting ballots on closed polls
+-- Runs before every ballot insert and locks the poll row, so a ballot waits for
+-- the transaction that may close the poll and is refused once it has.
+CREATE OR REPLACE FUNCTION reject_ballot_on_closed_poll()
+RETURNS TRIGGER AS $$
+DECLARE
+  poll_closed_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT closed_at INTO poll_closed_at
+  FROM polls
+  WHERE id = NEW.poll_id
+  FOR UPDATE;
+
+  IF poll_closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Poll is closed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS votes_reject_on_closed_poll ON votes;
+CREATE TRIGGER votes_reject_on_closed_poll
+  BEFORE INSERT ON votes
+  FOR EACH ROW EXECUTE FUNCTION reject_ballot_on_closed_poll();
+
+-- Function closing a poll once one of its auto-close rules is met
+-- Deferred to the end of the voting transaction, when voter_count and the
+-- option counts include the new ballot. The vote cap is checked first, then
+-- the quorum, then the lead margin (first preferences on ranked polls).
+CREATE OR REPLACE FUNCTION apply_auto_close()
+RETURNS TRIGGER AS $$
+DECLARE
+  poll_record RECORD;
+  leading_votes INTEGER;
+  runner_up_votes INTEGER;
+  reason TEXT;
+BEGIN
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE id = NEW.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR poll_record.closed_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF poll_record.close_after_votes IS NOT NULL
+    AND poll_record.voter_count >= poll_record.close_after_votes THEN
+    reason := 'vote_cap';
+  ELSIF poll_record.quorum_percent IS NOT NULL
+    AND poll_record.voter_count * 100 >= poll_record.quorum_percent * poll_record.eligible_voters THEN
+    reason := 'quorum';
+  ELSIF poll_record.close_lead_margin IS NOT NULL THEN
+    SELECT
+      COALESCE((array_agg(COALESCE(votes, 0) ORDER BY COALESCE(votes, 0) DESC))[1], 0),
+      COALESCE((array_agg(COALESCE(votes, 0) ORDER BY COALESCE(votes, 0) DESC))[2], 0)
+    INTO leading_votes, runner_up_votes
+    FROM poll_options
+    WHERE poll_options.poll_id = NEW.poll_id;
+
+    IF leading_votes - runner_up_votes >= poll_record.close_lead_margin THEN
+      reason := 'lead_margin';
+    END IF;
+  END IF;
+
+  IF reason IS NOT NULL THEN
+    UPDATE polls
+    SET closed_at = NOW(), close_reason = reason
+    WHERE id = NEW.poll_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS votes_apply_auto_close ON votes;
+CREATE CONSTRAINT TRIGGER votes_apply_auto_close
+  AFTER INSERT ON votes
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION apply_auto_close();
+
+-- Function to withdraw the caller's ballot on a poll that allows vote changes
+-- Changing a vote inserts a new ballot, which votes_reject_on_closed_poll refuses on a closed poll.
+CREATE OR REPLACE FUNCTION retract_vote(poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  old_vote_id UUID;
+BEGIN
+  IF retract_vote.user_id IS NULL OR retract_vote.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = retract_vote.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF NOT poll_record.allow_vote_changes THEN
+    RAISE EXCEPTION 'Votes on this poll cannot be changed';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Poll is closed';
+  END IF;
+
+  SELECT votes.id INTO old_vote_id
+  FROM votes
+  WHERE votes.poll_id = retract_vote.poll_id
+  AND votes.user_id = retract_vote.user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You have not voted on this poll';
+  END IF;
+
+  PERFORM remove_ballot(old_vote_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
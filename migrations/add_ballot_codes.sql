@@ -0,0 +1,101 @@
+-- Migration adding single-use ballot codes, handed out on paper for voting without an account
+-- Run this after add_poll_passcodes.sql
+
+-- Ballot codes issued by a poll's creator, one vote each
+-- Codes are kept as issued so the creator can export and reprint them.
+CREATE TABLE IF NOT EXISTS ballot_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(), -- Stands in for the voter token on the ballot cast with the code
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  code TEXT NOT NULL, -- Upper case, as XXXX-XXXX
+  status TEXT NOT NULL DEFAULT 'unused', -- 'unused', 'spent' or 'revoked'
+  spent_at TIMESTAMP WITH TIME ZONE, -- When the code was used to vote; NULL on secret-ballot polls
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT ballot_codes_poll_code_key UNIQUE (poll_id, code),
+  CONSTRAINT ballot_codes_status_check CHECK (status IN ('unused', 'spent', 'revoked'))
+);
+
+-- Secret-ballot polls don't record when a code was spent
+ALTER TABLE ballot_codes DROP CONSTRAINT IF EXISTS ballot_codes_spent_check;
+ALTER TABLE ballot_codes ADD CONSTRAINT ballot_codes_spent_check CHECK (status = 'spent' OR spent_at IS NULL);
+
+CREATE INDEX IF NOT EXISTS idx_ballot_codes_poll_id ON ballot_codes(poll_id);
+
+ALTER TABLE ballot_codes ENABLE ROW LEVEL SECURITY;
+
+-- Poll creators issue codes, list them and revoke the unused ones
+-- Codes are spent by cast_code_ballot, which only the server calls.
+CREATE POLICY "Poll creators can view the ballot codes of their polls"
+  ON ballot_codes FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = ballot_codes.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can issue ballot codes for their polls"
+  ON ballot_codes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'unused'
+    AND EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = ballot_codes.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can revoke unused ballot codes"
+  ON ballot_codes FOR UPDATE
+  TO authenticated
+  USING (
+    status = 'unused'
+    AND EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = ballot_codes.poll_id AND polls.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (status = 'revoked');
+
+-- Function recording the ballot cast with a ballot code
+-- The code row is locked and marked spent in the same transaction as the ballot,
+-- so a code can't be used twice and a rejected ballot leaves it unused. The
+-- code's ID is recorded as the ballot's voter token.
+-- Only the server calls this, with the service role, after rate limiting the client.
+CREATE OR REPLACE FUNCTION cast_code_ballot(option_ids UUID[], poll_id UUID, code TEXT)
+RETURNS VOID AS $$
+DECLARE
+  code_record RECORD;
+BEGIN
+  SELECT * INTO code_record
+  FROM ballot_codes
+  WHERE ballot_codes.poll_id = cast_code_ballot.poll_id
+  AND ballot_codes.code = cast_code_ballot.code
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This ballot code is not valid for this poll';
+  END IF;
+
+  IF code_record.status = 'spent' THEN
+    RAISE EXCEPTION 'This ballot code has already been used';
+  END IF;
+
+  IF code_record.status = 'revoked' THEN
+    RAISE EXCEPTION 'This ballot code has been revoked';
+  END IF;
+
+  -- On secret-ballot polls the time a code was spent could be matched against the counts
+  UPDATE ballot_codes
+  SET status = 'spent',
+    spent_at = CASE
+      WHEN EXISTS (SELECT 1 FROM polls WHERE polls.id = cast_code_ballot.poll_id AND polls.is_secret) THEN NULL
+      ELSE NOW()
+    END
+  WHERE id = code_record.id;
+
+  PERFORM record_ballot(option_ids, cast_code_ballot.poll_id, NULL, code_record.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION cast_code_ballot(UUID[], UUID, TEXT) FROM PUBLIC, anon, authenticated;
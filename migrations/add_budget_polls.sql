@@ -0,0 +1,236 @@
+-- Migration adding budget (dot voting) polls, where each voter spreads a fixed number of points across the options
+-- Run this after add_vote_delegations.sql
+
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_poll_type_check;
+ALTER TABLE polls ADD CONSTRAINT polls_poll_type_check
+  CHECK (poll_type IN ('single', 'multiple', 'ranked', 'approval', 'score', 'text', 'schedule', 'budget'));
+
+COMMENT ON COLUMN polls.poll_type IS 'single: one option per voter. multiple: between min_selections and max_selections options per voter. ranked: options in order of preference, counted by instant runoff. approval: any number of options per voter. score: every option rated from 0 to 5 stars. text: a written response, no options. schedule: every time slot answered yes, if need be or no. budget: points_budget points spread across the options.';
+
+-- Points each voter spreads across the options of a budget poll; NULL on other polls
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS points_budget INTEGER;
+
+-- Budget polls stand alone and always have a budget
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_budget_check;
+ALTER TABLE polls ADD CONSTRAINT polls_budget_check
+  CHECK (
+    (poll_type = 'budget') = (points_budget IS NOT NULL)
+    AND (points_budget IS NULL OR (points_budget BETWEEN 1 AND 100 AND survey_id IS NULL))
+  );
+
+COMMENT ON COLUMN polls.points_budget IS 'Points each voter spreads across the options of a budget poll.';
+
+COMMENT ON COLUMN poll_options.votes IS 'Ballots choosing the option; first preferences on ranked polls, total stars on score polls, yes answers on scheduling polls and total points on budget polls.';
+
+-- Points given to the option on a budget ballot; options given none have no row
+ALTER TABLE vote_selections
+ADD COLUMN IF NOT EXISTS points INTEGER CHECK (points >= 1);
+
+-- Reject budget polls in record_ballot; they are recorded by allocate_points
+-- Function recording a choice ballot for a user or a voter token
+-- Secret ballots are split into the votes row and an unlinked secret_ballots row.
+-- Locks the poll row so the selection limits are enforced in the same transaction as the insert.
+-- On ranked polls option_ids is in preference order and poll_options.votes counts first preferences.
+-- On weighted polls each chosen option gains the ballot's weight instead of 1.
+-- Not callable through the API: increment_votes and cast_anonymous_ballot check the voter first.
+CREATE OR REPLACE FUNCTION record_ballot(option_ids UUID[], poll_id UUID, user_id UUID, voter_token UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  selection_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+  ballot_weight INTEGER;
+BEGIN
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = record_ballot.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.opens_at IS NOT NULL AND poll_record.opens_at > NOW() THEN
+    RAISE EXCEPTION 'Poll is not open yet';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type = 'score' THEN
+    RAISE EXCEPTION 'Score every option';
+  END IF;
+
+  IF poll_record.poll_type = 'schedule' THEN
+    RAISE EXCEPTION 'Answer every time slot';
+  END IF;
+
+  IF poll_record.poll_type = 'budget' THEN
+    RAISE EXCEPTION 'Spread your points across the options';
+  END IF;
+
+  selection_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF selection_count <> (SELECT COUNT(DISTINCT selected) FROM unnest(option_ids) AS selected) THEN
+    RAISE EXCEPTION 'The same option cannot be selected twice';
+  END IF;
+
+  IF poll_record.poll_type = 'single' AND selection_count <> 1 THEN
+    RAISE EXCEPTION 'This poll accepts exactly one option';
+  END IF;
+
+  IF selection_count < poll_record.min_selections THEN
+    RAISE EXCEPTION 'Select at least % option(s)', poll_record.min_selections;
+  END IF;
+
+  IF poll_record.max_selections IS NOT NULL AND selection_count > poll_record.max_selections THEN
+    RAISE EXCEPTION 'Select at most % option(s)', poll_record.max_selections;
+  END IF;
+
+  SELECT COUNT(*) INTO valid_option_count
+  FROM poll_options
+  WHERE poll_options.id = ANY(option_ids)
+  AND poll_options.poll_id = record_ballot.poll_id;
+
+  IF valid_option_count <> selection_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  -- A secret ballot only records that the voter took part; the choice goes to
+  -- secret_ballots, with nothing linking it back to the votes row
+  IF poll_record.is_secret THEN
+    INSERT INTO votes (user_id, voter_token, poll_id)
+    VALUES (record_ballot.user_id, record_ballot.voter_token, record_ballot.poll_id);
+
+    INSERT INTO secret_ballots (poll_id, option_ids)
+    VALUES (record_ballot.poll_id, option_ids);
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = ANY(CASE WHEN poll_record.poll_type = 'ranked' THEN option_ids[1:1] ELSE option_ids END);
+
+    RETURN;
+  END IF;
+
+  INSERT INTO votes (user_id, voter_token, poll_id, option_id)
+  VALUES (
+    record_ballot.user_id,
+    record_ballot.voter_token,
+    record_ballot.poll_id,
+    CASE WHEN selection_count = 1 THEN option_ids[1] END
+  )
+  RETURNING id, weight INTO new_vote_id, ballot_weight;
+
+  IF poll_record.poll_type = 'ranked' THEN
+    INSERT INTO vote_selections (vote_id, poll_id, option_id, rank)
+    SELECT new_vote_id, record_ballot.poll_id, ranking.selected, ranking.position
+    FROM unnest(option_ids) WITH ORDINALITY AS ranking(selected, position);
+
+    UPDATE poll_options
+    SET votes = votes + ballot_weight
+    WHERE poll_options.id = option_ids[1];
+  ELSE
+    INSERT INTO vote_selections (vote_id, poll_id, option_id)
+    SELECT new_vote_id, record_ballot.poll_id, selected
+    FROM unnest(option_ids) AS selected;
+
+    UPDATE poll_options
+    SET votes = votes + ballot_weight
+    WHERE poll_options.id = ANY(option_ids);
+  END IF;
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_ballot(UUID[], UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to record a budget ballot: points[i] is the number of points given to option_ids[i]
+-- Options given no points are left out; the points given may not exceed the
+-- poll's points_budget. poll_options.votes accumulates the points.
+CREATE OR REPLACE FUNCTION allocate_points(option_ids UUID[], points INTEGER[], poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  allocation_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+BEGIN
+  IF allocate_points.user_id IS NULL OR allocate_points.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = allocate_points.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.opens_at IS NOT NULL AND poll_record.opens_at > NOW() THEN
+    RAISE EXCEPTION 'Poll is not open yet';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type <> 'budget' THEN
+    RAISE EXCEPTION 'This poll does not accept points';
+  END IF;
+
+  allocation_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF allocation_count <> COALESCE(array_length(points, 1), 0) THEN
+    RAISE EXCEPTION 'Each option needs exactly one number of points';
+  END IF;
+
+  IF allocation_count = 0 THEN
+    RAISE EXCEPTION 'Give at least one point';
+  END IF;
+
+  IF allocation_count <> (SELECT COUNT(DISTINCT allocated) FROM unnest(option_ids) AS allocated) THEN
+    RAISE EXCEPTION 'The same option cannot be given points twice';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(points) AS given WHERE given IS NULL OR given < 1) THEN
+    RAISE EXCEPTION 'Points must be positive whole numbers';
+  END IF;
+
+  IF (SELECT SUM(given) FROM unnest(points) AS given) > poll_record.points_budget THEN
+    RAISE EXCEPTION 'You can give at most % points', poll_record.points_budget;
+  END IF;
+
+  SELECT COUNT(*) INTO valid_option_count
+  FROM poll_options
+  WHERE poll_options.poll_id = allocate_points.poll_id
+  AND poll_options.id = ANY(option_ids);
+
+  IF valid_option_count <> allocation_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (allocate_points.user_id, allocate_points.poll_id, NULL)
+  RETURNING id INTO new_vote_id;
+
+  INSERT INTO vote_selections (vote_id, poll_id, option_id, points)
+  SELECT new_vote_id, allocate_points.poll_id, allocation.option_id, allocation.points
+  FROM unnest(option_ids, points) AS allocation(option_id, points);
+
+  UPDATE poll_options
+  SET votes = votes + allocation.points
+  FROM unnest(option_ids, points) AS allocation(option_id, points)
+  WHERE poll_options.id = allocation.option_id;
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
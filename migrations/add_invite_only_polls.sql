@@ -0,0 +1,163 @@
+-- Migration adding invite-only polls, which only invited users can vote on
+-- Run this after add_manual_close.sql
+
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS is_invite_only BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Invitees vote with their account, so invite-only polls can't take anonymous ballots
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_invite_only_check;
+ALTER TABLE polls ADD CONSTRAINT polls_invite_only_check
+  CHECK (NOT is_invite_only OR (survey_id IS NULL AND NOT allow_anonymous));
+
+COMMENT ON COLUMN polls.is_invite_only IS 'Only users with an invite in poll_invites may vote.';
+
+-- Invitations to invite-only polls, by user ID or by email address
+-- An email invite applies to whichever account signs in with that address.
+CREATE TABLE IF NOT EXISTS poll_invites (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- NULL on invites by email
+  email TEXT, -- Lower case; NULL on invites by user ID
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'voted' or 'revoked'
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT poll_invites_invitee_check CHECK (user_id IS NOT NULL OR email IS NOT NULL),
+  CONSTRAINT poll_invites_email_check CHECK (email IS NULL OR email = lower(email)),
+  CONSTRAINT poll_invites_status_check CHECK (status IN ('pending', 'voted', 'revoked'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_poll_invites_poll_id ON poll_invites(poll_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_poll_invites_poll_user ON poll_invites(poll_id, user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_poll_invites_poll_email ON poll_invites(poll_id, email) WHERE email IS NOT NULL;
+
+ALTER TABLE poll_invites ENABLE ROW LEVEL SECURITY;
+
+-- Poll creators manage the invites to their polls and see the turnout
+CREATE POLICY "Poll creators can view invites to their polls"
+  ON poll_invites FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_invites.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can invite voters to their polls"
+  ON poll_invites FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_invites.poll_id AND polls.user_id = auth.uid() AND polls.is_invite_only
+    )
+  );
+
+CREATE POLICY "Poll creators can update invites to their polls"
+  ON poll_invites FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_invites.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+-- Invitees see their own invites, so the poll page can tell them whether they may vote
+CREATE POLICY "Users can view their own invites"
+  ON poll_invites FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR email = lower(auth.jwt() ->> 'email'));
+
+-- Function checking whether a user holds an invite to a poll that hasn't been revoked
+CREATE OR REPLACE FUNCTION is_poll_invitee(poll_uuid UUID, user_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM poll_invites
+    WHERE poll_invites.poll_id = poll_uuid
+    AND poll_invites.status <> 'revoked'
+    AND (
+      poll_invites.user_id = user_uuid
+      OR poll_invites.email = (SELECT lower(users.email) FROM auth.users WHERE users.id = user_uuid)
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Only invitees can vote on invite-only polls
+DROP POLICY IF EXISTS "Authenticated users can vote" ON votes;
+
+CREATE POLICY "Authenticated users can vote"
+  ON votes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND NOT EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = votes.poll_id
+      AND (polls.is_secret OR (polls.is_invite_only AND NOT is_poll_invitee(polls.id, auth.uid())))
+    )
+  );
+
+-- Function rejecting ballots from users without an invite to an invite-only poll
+-- The voting functions insert ballots past RLS, so the check runs as a trigger too.
+CREATE OR REPLACE FUNCTION reject_uninvited_ballot()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM polls WHERE id = NEW.poll_id AND is_invite_only)
+    AND (NEW.user_id IS NULL OR NOT is_poll_invitee(NEW.poll_id, NEW.user_id)) THEN
+    RAISE EXCEPTION 'You are not invited to vote on this poll';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS votes_reject_uninvited ON votes;
+CREATE TRIGGER votes_reject_uninvited
+  BEFORE INSERT ON votes
+  FOR EACH ROW EXECUTE FUNCTION reject_uninvited_ballot();
+
+-- Function keeping the status of invites in step with the invitee's ballot
+-- Voting marks the invite as voted; withdrawing the ballot sets it back to pending.
+-- On secret-ballot polls updated_at is left alone, so it doesn't date the ballot.
+CREATE OR REPLACE FUNCTION sync_invite_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_secret_poll BOOLEAN;
+BEGIN
+  SELECT polls.is_secret INTO is_secret_poll
+  FROM polls
+  WHERE polls.id = COALESCE(NEW.poll_id, OLD.poll_id);
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.user_id IS NOT NULL THEN
+      UPDATE poll_invites
+      SET status = 'voted', updated_at = CASE WHEN is_secret_poll THEN updated_at ELSE NOW() END
+      WHERE poll_id = NEW.poll_id
+      AND status = 'pending'
+      AND (
+        user_id = NEW.user_id
+        OR email = (SELECT lower(users.email) FROM auth.users WHERE users.id = NEW.user_id)
+      );
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.user_id IS NOT NULL THEN
+    UPDATE poll_invites
+    SET status = 'pending', updated_at = CASE WHEN is_secret_poll THEN updated_at ELSE NOW() END
+    WHERE poll_id = OLD.poll_id
+    AND status = 'voted'
+    AND (
+      user_id = OLD.user_id
+      OR email = (SELECT lower(users.email) FROM auth.users WHERE users.id = OLD.user_id)
+    );
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS votes_sync_invite_status ON votes;
+CREATE TRIGGER votes_sync_invite_status
+  AFTER INSERT OR DELETE ON votes
+  FOR EACH ROW EXECUTE FUNCTION sync_invite_status();
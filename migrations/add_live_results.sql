@@ -0,0 +1,99 @@
+-- Migration broadcasting poll counts on private Supabase Realtime channels for live results
+-- Run this after add_budget_polls.sql
+
+-- Changes are sent on the private topic poll-results:<poll id> rather than from
+-- the tables themselves: the counts can't be selected through the API, and the
+-- policy on realtime.messages below only lets through viewers who may see them
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'poll_options'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE poll_options;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'polls'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE polls;
+  END IF;
+END $$;
+
+-- Function broadcasting a poll's changed option count
+-- Sends `option` with the option's ID and count; options added or removed send
+-- `options`, after which the page reloads them. Nothing is sent for secret-ballot
+-- polls, where the moment a count changed could tie a ballot to its voter.
+CREATE OR REPLACE FUNCTION broadcast_option_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM polls WHERE polls.id = COALESCE(NEW.poll_id, OLD.poll_id) AND polls.is_secret
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    PERFORM realtime.send(
+      jsonb_build_object('id', NEW.id, 'votes', NEW.votes),
+      'option',
+      'poll-results:' || NEW.poll_id,
+      TRUE
+    );
+  ELSE
+    PERFORM realtime.send(
+      '{}'::jsonb,
+      'options',
+      'poll-results:' || COALESCE(NEW.poll_id, OLD.poll_id),
+      TRUE
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS poll_options_broadcast_count ON poll_options;
+CREATE TRIGGER poll_options_broadcast_count
+  AFTER INSERT OR UPDATE OF votes OR DELETE ON poll_options
+  FOR EACH ROW EXECUTE FUNCTION broadcast_option_count();
+
+-- Function broadcasting a poll's voter count and closing time, except on secret-ballot polls
+CREATE OR REPLACE FUNCTION broadcast_poll_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_secret THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM realtime.send(
+    jsonb_build_object('voter_count', NEW.voter_count, 'expires_at', NEW.expires_at, 'closed_at', NEW.closed_at),
+    'poll',
+    'poll-results:' || NEW.id,
+    TRUE
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS polls_broadcast_status ON polls;
+CREATE TRIGGER polls_broadcast_status
+  AFTER UPDATE OF voter_count, expires_at, closed_at ON polls
+  FOR EACH ROW EXECUTE FUNCTION broadcast_poll_status();
+
+-- Viewers join a poll's topic only where can_view_poll_results lets them see its counts
+DROP POLICY IF EXISTS "Viewers can receive the live results they may see" ON realtime.messages;
+
+CREATE POLICY "Viewers can receive the live results they may see"
+  ON realtime.messages FOR SELECT
+  TO anon, authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND CASE
+      WHEN realtime.topic() ~ '^poll-results:[0-9a-f-]{36}$'
+        THEN can_view_poll_results(split_part(realtime.topic(), ':', 2)::uuid)
+      ELSE FALSE
+    END
+  );
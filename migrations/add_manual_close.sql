@@ -0,0 +1,15 @@
+-- Migration letting poll creators close and reopen their polls by hand
+-- Run this after add_auto_close.sql
+
+-- A poll closed by its creator records 'manual' as its close reason; reopening
+-- clears closed_at and close_reason again. The votes_reject_on_closed_poll
+-- trigger refuses ballots on it like on a poll closed by an auto-close rule.
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_close_reason_check;
+ALTER TABLE polls ADD CONSTRAINT polls_close_reason_check
+  CHECK (
+    (closed_at IS NULL AND close_reason IS NULL)
+    OR (closed_at IS NOT NULL AND close_reason IN ('vote_cap', 'quorum', 'lead_margin', 'manual'))
+  );
+
+COMMENT ON COLUMN polls.closed_at IS 'When the poll closed before its expiry; NULL while it is open.';
+COMMENT ON COLUMN polls.close_reason IS 'Why the poll closed: vote_cap, quorum or lead_margin (auto-close rules) or manual (closed by its creator).';
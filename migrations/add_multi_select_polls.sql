@@ -0,0 +1,164 @@
+-- Migration to add multi-select ("choose up to N") polls
+-- Run this in your Supabase SQL editor if you have an existing polls table
+
+-- Poll type and selection limits
+ALTER TABLE polls
+ADD COLUMN IF NOT EXISTS poll_type TEXT NOT NULL DEFAULT 'single',
+ADD COLUMN IF NOT EXISTS min_selections INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS max_selections INTEGER DEFAULT 1,
+ADD COLUMN IF NOT EXISTS voter_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_poll_type_check;
+ALTER TABLE polls ADD CONSTRAINT polls_poll_type_check
+  CHECK (poll_type IN ('single', 'multiple'));
+
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_selection_limits_check;
+ALTER TABLE polls ADD CONSTRAINT polls_selection_limits_check
+  CHECK (min_selections >= 1 AND (max_selections IS NULL OR max_selections >= min_selections));
+
+COMMENT ON COLUMN polls.poll_type IS 'single: one option per voter. multiple: between min_selections and max_selections options per voter.';
+COMMENT ON COLUMN polls.max_selections IS 'Upper bound on options per ballot. NULL means any number of options.';
+COMMENT ON COLUMN polls.voter_count IS 'Number of ballots cast. Differs from the sum of option votes on multi-select polls.';
+
+-- Backfill the voter count for existing polls
+UPDATE polls
+SET voter_count = (SELECT COUNT(*) FROM votes WHERE votes.poll_id = polls.id);
+
+-- A multi-select ballot is still one row in votes (keeping UNIQUE(user_id, poll_id)),
+-- with its chosen options in vote_selections
+ALTER TABLE votes ALTER COLUMN option_id DROP NOT NULL;
+
+CREATE TABLE IF NOT EXISTS vote_selections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  vote_id UUID NOT NULL REFERENCES votes(id) ON DELETE CASCADE,
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES poll_options(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(vote_id, option_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vote_selections_poll_id ON vote_selections(poll_id);
+CREATE INDEX IF NOT EXISTS idx_vote_selections_option_id ON vote_selections(option_id);
+
+ALTER TABLE vote_selections ENABLE ROW LEVEL SECURITY;
+
+-- Users can view the selections on their own ballots
+CREATE POLICY "Users can view their own vote selections"
+  ON vote_selections FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM votes
+      WHERE votes.id = vote_selections.vote_id AND votes.user_id = auth.uid()
+    )
+  );
+
+-- Poll creators can view selections on their polls
+CREATE POLICY "Poll creators can view vote selections on their polls"
+  ON vote_selections FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = vote_selections.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+-- Selections are only written by increment_votes (SECURITY DEFINER), so there is no INSERT policy
+
+-- Keep polls.voter_count in step with the votes table for every voting path
+CREATE OR REPLACE FUNCTION sync_poll_voter_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE polls SET voter_count = voter_count + 1 WHERE id = NEW.poll_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE polls SET voter_count = GREATEST(voter_count - 1, 0) WHERE id = OLD.poll_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS votes_sync_poll_voter_count ON votes;
+CREATE TRIGGER votes_sync_poll_voter_count
+  AFTER INSERT OR DELETE ON votes
+  FOR EACH ROW EXECUTE FUNCTION sync_poll_voter_count();
+
+-- Record a multi-select ballot
+-- The poll row is locked so the limits, the ballot and the counters are checked
+-- and written in one transaction
+CREATE OR REPLACE FUNCTION increment_votes(option_ids UUID[], poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  selection_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+BEGIN
+  IF increment_votes.user_id IS NULL OR increment_votes.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = increment_votes.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  selection_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF selection_count <> (SELECT COUNT(DISTINCT selected) FROM unnest(option_ids) AS selected) THEN
+    RAISE EXCEPTION 'The same option cannot be selected twice';
+  END IF;
+
+  IF poll_record.poll_type = 'single' AND selection_count <> 1 THEN
+    RAISE EXCEPTION 'This poll accepts exactly one option';
+  END IF;
+
+  IF selection_count < poll_record.min_selections THEN
+    RAISE EXCEPTION 'Select at least % option(s)', poll_record.min_selections;
+  END IF;
+
+  IF poll_record.max_selections IS NOT NULL AND selection_count > poll_record.max_selections THEN
+    RAISE EXCEPTION 'Select at most % option(s)', poll_record.max_selections;
+  END IF;
+
+  SELECT COUNT(*) INTO valid_option_count
+  FROM poll_options
+  WHERE poll_options.id = ANY(option_ids)
+  AND poll_options.poll_id = increment_votes.poll_id;
+
+  IF valid_option_count <> selection_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  -- One ballot per user per poll; option_id is only set for single selections
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (
+    increment_votes.user_id,
+    increment_votes.poll_id,
+    CASE WHEN selection_count = 1 THEN option_ids[1] END
+  )
+  RETURNING id INTO new_vote_id;
+
+  INSERT INTO vote_selections (vote_id, poll_id, option_id)
+  SELECT new_vote_id, increment_votes.poll_id, selected
+  FROM unnest(option_ids) AS selected;
+
+  UPDATE poll_options
+  SET votes = votes + 1
+  WHERE poll_options.id = ANY(option_ids);
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,25 @@
+-- Migration to add images to poll options
+-- Run this after add_scheduling_polls.sql
+
+-- Path of the option's image in the poll-images storage bucket; NULL when it has none
+ALTER TABLE poll_options ADD COLUMN IF NOT EXISTS image_path TEXT;
+
+COMMENT ON COLUMN poll_options.image_path IS 'Object name of the option image in the poll-images storage bucket. The app removes the object when the option or its poll is deleted.';
+
+-- Option images are shown to every voter, so the bucket is public
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('poll-images', 'poll-images', true)
+ON CONFLICT (id) DO UPDATE SET public = true;
+
+-- Signed-in users upload images; only the uploader can remove them
+DROP POLICY IF EXISTS "Authenticated users can upload poll images" ON storage.objects;
+CREATE POLICY "Authenticated users can upload poll images"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'poll-images');
+
+DROP POLICY IF EXISTS "Users can delete their own poll images" ON storage.objects;
+CREATE POLICY "Users can delete their own poll images"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'poll-images' AND owner = auth.uid());
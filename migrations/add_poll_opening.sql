@@ -0,0 +1,389 @@
+-- Migration adding a scheduled opening time to polls
+-- Run this after add_results_visibility.sql
+
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS opens_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_opens_before_expiry_check;
+ALTER TABLE polls ADD CONSTRAINT polls_opens_before_expiry_check
+  CHECK (opens_at IS NULL OR expires_at IS NULL OR opens_at < expires_at);
+
+COMMENT ON COLUMN polls.opens_at IS 'Votes are accepted from this time on; NULL opens the poll as soon as it is created.';
+
+-- The voting functions reject ballots before the poll opens
+
+-- Function to increment votes for a poll option
+-- Secret ballots go through increment_votes, which splits them from the voter.
+CREATE OR REPLACE FUNCTION increment_vote(option_id UUID, poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+BEGIN
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = increment_vote.poll_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.is_secret THEN
+    RAISE EXCEPTION 'Secret ballots must be cast with increment_votes';
+  END IF;
+
+  IF poll_record.opens_at IS NOT NULL AND poll_record.opens_at > NOW() THEN
+    RAISE EXCEPTION 'Poll is not open yet';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  -- Insert the vote record
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (user_id, poll_id, option_id);
+  
+  -- Increment the votes count for the option
+  UPDATE poll_options
+  SET votes = votes + 1
+  WHERE id = option_id;
+  
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function recording a choice ballot for a user or a voter token
+-- Secret ballots are split into the votes row and an unlinked secret_ballots row.
+-- Locks the poll row so the selection limits are enforced in the same transaction as the insert.
+-- On ranked polls option_ids is in preference order and poll_options.votes counts first preferences.
+-- Not callable through the API: increment_votes and cast_anonymous_ballot check the voter first.
+CREATE OR REPLACE FUNCTION record_ballot(option_ids UUID[], poll_id UUID, user_id UUID, voter_token UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  selection_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+BEGIN
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = record_ballot.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.opens_at IS NOT NULL AND poll_record.opens_at > NOW() THEN
+    RAISE EXCEPTION 'Poll is not open yet';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type = 'score' THEN
+    RAISE EXCEPTION 'Score every option';
+  END IF;
+
+  IF poll_record.poll_type = 'schedule' THEN
+    RAISE EXCEPTION 'Answer every time slot';
+  END IF;
+
+  selection_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF selection_count <> (SELECT COUNT(DISTINCT selected) FROM unnest(option_ids) AS selected) THEN
+    RAISE EXCEPTION 'The same option cannot be selected twice';
+  END IF;
+
+  IF poll_record.poll_type = 'single' AND selection_count <> 1 THEN
+    RAISE EXCEPTION 'This poll accepts exactly one option';
+  END IF;
+
+  IF selection_count < poll_record.min_selections THEN
+    RAISE EXCEPTION 'Select at least % option(s)', poll_record.min_selections;
+  END IF;
+
+  IF poll_record.max_selections IS NOT NULL AND selection_count > poll_record.max_selections THEN
+    RAISE EXCEPTION 'Select at most % option(s)', poll_record.max_selections;
+  END IF;
+
+  SELECT COUNT(*) INTO valid_option_count
+  FROM poll_options
+  WHERE poll_options.id = ANY(option_ids)
+  AND poll_options.poll_id = record_ballot.poll_id;
+
+  IF valid_option_count <> selection_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  -- A secret ballot only records that the voter took part; the choice goes to
+  -- secret_ballots, with nothing linking it back to the votes row
+  IF poll_record.is_secret THEN
+    INSERT INTO votes (user_id, voter_token, poll_id)
+    VALUES (record_ballot.user_id, record_ballot.voter_token, record_ballot.poll_id);
+
+    INSERT INTO secret_ballots (poll_id, option_ids)
+    VALUES (record_ballot.poll_id, option_ids);
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = ANY(CASE WHEN poll_record.poll_type = 'ranked' THEN option_ids[1:1] ELSE option_ids END);
+
+    RETURN;
+  END IF;
+
+  INSERT INTO votes (user_id, voter_token, poll_id, option_id)
+  VALUES (
+    record_ballot.user_id,
+    record_ballot.voter_token,
+    record_ballot.poll_id,
+    CASE WHEN selection_count = 1 THEN option_ids[1] END
+  )
+  RETURNING id INTO new_vote_id;
+
+  IF poll_record.poll_type = 'ranked' THEN
+    INSERT INTO vote_selections (vote_id, poll_id, option_id, rank)
+    SELECT new_vote_id, record_ballot.poll_id, ranking.selected, ranking.position
+    FROM unnest(option_ids) WITH ORDINALITY AS ranking(selected, position);
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = option_ids[1];
+  ELSE
+    INSERT INTO vote_selections (vote_id, poll_id, option_id)
+    SELECT new_vote_id, record_ballot.poll_id, selected
+    FROM unnest(option_ids) AS selected;
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = ANY(option_ids);
+  END IF;
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to record a score ballot: scores[i] is the rating for option_ids[i]
+-- Every option on the poll must be rated; poll_options.votes accumulates the stars
+CREATE OR REPLACE FUNCTION increment_scores(option_ids UUID[], scores INTEGER[], poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  rating_count INTEGER;
+  poll_option_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+BEGIN
+  IF increment_scores.user_id IS NULL OR increment_scores.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = increment_scores.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.opens_at IS NOT NULL AND poll_record.opens_at > NOW() THEN
+    RAISE EXCEPTION 'Poll is not open yet';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type <> 'score' THEN
+    RAISE EXCEPTION 'This poll does not accept scores';
+  END IF;
+
+  rating_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF rating_count <> COALESCE(array_length(scores, 1), 0) THEN
+    RAISE EXCEPTION 'Each option needs exactly one score';
+  END IF;
+
+  IF rating_count <> (SELECT COUNT(DISTINCT rated) FROM unnest(option_ids) AS rated) THEN
+    RAISE EXCEPTION 'The same option cannot be scored twice';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(scores) AS score WHERE score IS NULL OR score < 0 OR score > 5) THEN
+    RAISE EXCEPTION 'Scores must be whole numbers from 0 to 5';
+  END IF;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE poll_options.id = ANY(option_ids))
+  INTO poll_option_count, valid_option_count
+  FROM poll_options
+  WHERE poll_options.poll_id = increment_scores.poll_id;
+
+  IF valid_option_count <> rating_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  IF rating_count <> poll_option_count THEN
+    RAISE EXCEPTION 'Score every option';
+  END IF;
+
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (increment_scores.user_id, increment_scores.poll_id, NULL)
+  RETURNING id INTO new_vote_id;
+
+  INSERT INTO vote_selections (vote_id, poll_id, option_id, score)
+  SELECT new_vote_id, increment_scores.poll_id, rating.option_id, rating.score
+  FROM unnest(option_ids, scores) AS rating(option_id, score);
+
+  UPDATE poll_options
+  SET votes = votes + rating.score
+  FROM unnest(option_ids, scores) AS rating(option_id, score)
+  WHERE poll_options.id = rating.option_id;
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to record a scheduling ballot: availability[i] is the answer ('yes', 'maybe' or 'no') for option_ids[i]
+-- Every time slot on the poll must be answered; poll_options.votes counts the yes answers
+CREATE OR REPLACE FUNCTION submit_availability(option_ids UUID[], availability TEXT[], poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  answer_count INTEGER;
+  poll_option_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+BEGIN
+  IF submit_availability.user_id IS NULL OR submit_availability.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = submit_availability.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.opens_at IS NOT NULL AND poll_record.opens_at > NOW() THEN
+    RAISE EXCEPTION 'Poll is not open yet';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type <> 'schedule' THEN
+    RAISE EXCEPTION 'This poll does not accept availability';
+  END IF;
+
+  answer_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF answer_count <> COALESCE(array_length(submit_availability.availability, 1), 0) THEN
+    RAISE EXCEPTION 'Each time slot needs exactly one answer';
+  END IF;
+
+  IF answer_count <> (SELECT COUNT(DISTINCT answered) FROM unnest(option_ids) AS answered) THEN
+    RAISE EXCEPTION 'The same time slot cannot be answered twice';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(submit_availability.availability) AS answer
+    WHERE answer IS NULL OR answer NOT IN ('yes', 'maybe', 'no')
+  ) THEN
+    RAISE EXCEPTION 'Answer yes, if need be or no';
+  END IF;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE poll_options.id = ANY(option_ids))
+  INTO poll_option_count, valid_option_count
+  FROM poll_options
+  WHERE poll_options.poll_id = submit_availability.poll_id;
+
+  IF valid_option_count <> answer_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  IF answer_count <> poll_option_count THEN
+    RAISE EXCEPTION 'Answer every time slot';
+  END IF;
+
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (submit_availability.user_id, submit_availability.poll_id, NULL)
+  RETURNING id INTO new_vote_id;
+
+  INSERT INTO vote_selections (vote_id, poll_id, option_id, availability)
+  SELECT new_vote_id, submit_availability.poll_id, answer.option_id, answer.availability
+  FROM unnest(option_ids, submit_availability.availability) AS answer(option_id, availability);
+
+  UPDATE poll_options
+  SET votes = votes + 1
+  FROM unnest(option_ids, submit_availability.availability) AS answer(option_id, availability)
+  WHERE poll_options.id = answer.option_id
+  AND answer.availability = 'yes';
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to record a written response; the text is sanitized by the application before it gets here
+CREATE OR REPLACE FUNCTION submit_text_response(poll_id UUID, user_id UUID, response TEXT)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  new_vote_id UUID;
+BEGIN
+  IF submit_text_response.user_id IS NULL OR submit_text_response.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = submit_text_response.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.opens_at IS NOT NULL AND poll_record.opens_at > NOW() THEN
+    RAISE EXCEPTION 'Poll is not open yet';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type <> 'text' THEN
+    RAISE EXCEPTION 'This poll does not accept written responses';
+  END IF;
+
+  IF submit_text_response.response IS NULL OR char_length(btrim(submit_text_response.response)) = 0 THEN
+    RAISE EXCEPTION 'Response is required';
+  END IF;
+
+  IF char_length(btrim(submit_text_response.response)) > 500 THEN
+    RAISE EXCEPTION 'Response cannot exceed 500 characters';
+  END IF;
+
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (submit_text_response.user_id, submit_text_response.poll_id, NULL)
+  RETURNING id INTO new_vote_id;
+
+  INSERT INTO text_responses (vote_id, poll_id, response)
+  VALUES (new_vote_id, submit_text_response.poll_id, btrim(submit_text_response.response));
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,169 @@
+-- Migration adding passcode-protected polls, which ask for an access code before voting
+-- Run this after add_invite_only_polls.sql
+
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS has_passcode BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Survey questions are answered through their survey, which has no passcode
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_passcode_check;
+ALTER TABLE polls ADD CONSTRAINT polls_passcode_check CHECK (NOT has_passcode OR survey_id IS NULL);
+
+COMMENT ON COLUMN polls.has_passcode IS 'The poll has a passcode in poll_passcodes; maintained by trigger.';
+
+-- The hashed passcode of a poll, kept out of polls, which everyone can read
+-- The application hashes the passcode with scrypt; the plain code is never stored.
+CREATE TABLE IF NOT EXISTS poll_passcodes (
+  poll_id UUID PRIMARY KEY REFERENCES polls(id) ON DELETE CASCADE,
+  passcode_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Voters who entered the right passcode, by user ID or by voter token
+CREATE TABLE IF NOT EXISTS poll_passcode_unlocks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- NULL for visitors without an account
+  voter_token UUID, -- Voter token of a visitor without an account; NULL for users
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT poll_passcode_unlocks_voter_check CHECK ((user_id IS NULL) <> (voter_token IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_poll_passcode_unlocks_poll_user
+  ON poll_passcode_unlocks(poll_id, user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_poll_passcode_unlocks_poll_token
+  ON poll_passcode_unlocks(poll_id, voter_token) WHERE voter_token IS NOT NULL;
+
+-- Nobody reads the hashes through the API; the server checks passcodes with the service role
+ALTER TABLE poll_passcodes ENABLE ROW LEVEL SECURITY;
+-- Unlocks are recorded by the server with the service role once it has checked the passcode
+ALTER TABLE poll_passcode_unlocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Poll creators can set the passcode of their polls"
+  ON poll_passcodes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_passcodes.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can change the passcode of their polls"
+  ON poll_passcodes FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_passcodes.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can remove the passcode of their polls"
+  ON poll_passcodes FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_passcodes.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+-- Function keeping polls.has_passcode in step with poll_passcodes
+-- A new or removed passcode also forgets who had entered the old one.
+CREATE OR REPLACE FUNCTION sync_poll_has_passcode()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE polls SET has_passcode = TRUE WHERE id = NEW.poll_id;
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM poll_passcode_unlocks WHERE poll_id = OLD.poll_id;
+
+  IF TG_OP = 'DELETE' THEN
+    UPDATE polls SET has_passcode = FALSE WHERE id = OLD.poll_id;
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS poll_passcodes_sync_poll ON poll_passcodes;
+CREATE TRIGGER poll_passcodes_sync_poll
+  AFTER INSERT OR UPDATE OF passcode_hash OR DELETE ON poll_passcodes
+  FOR EACH ROW EXECUTE FUNCTION sync_poll_has_passcode();
+
+-- Function checking whether a voter may vote on a poll as far as its passcode goes
+-- True when the poll has no passcode, the voter created it or has entered the passcode.
+CREATE OR REPLACE FUNCTION is_poll_unlocked(poll_uuid UUID, user_uuid UUID, token UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM polls
+    WHERE polls.id = poll_uuid
+    AND (
+      NOT polls.has_passcode
+      OR polls.user_id = user_uuid
+      OR EXISTS (
+        SELECT 1 FROM poll_passcode_unlocks
+        WHERE poll_passcode_unlocks.poll_id = poll_uuid
+        AND (poll_passcode_unlocks.user_id = user_uuid OR poll_passcode_unlocks.voter_token = token)
+      )
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function rejecting ballots from voters who haven't entered the poll's passcode
+-- The voting functions insert ballots past RLS, so the check runs as a trigger.
+CREATE OR REPLACE FUNCTION reject_locked_ballot()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT is_poll_unlocked(NEW.poll_id, NEW.user_id, NEW.voter_token) THEN
+    RAISE EXCEPTION 'This poll needs its passcode';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS votes_reject_locked ON votes;
+CREATE TRIGGER votes_reject_locked
+  BEFORE INSERT ON votes
+  FOR EACH ROW EXECUTE FUNCTION reject_locked_ballot();
+
+-- A passcode-protected poll and its options can only be read by its creator and
+-- by signed-in voters who entered the passcode. Everyone else loads the poll
+-- through the server, which checks the passcode or the visitor's voter token.
+DROP POLICY IF EXISTS "Polls are viewable by everyone" ON polls;
+DROP POLICY IF EXISTS "Unlocked polls are viewable by everyone" ON polls;
+
+CREATE POLICY "Unlocked polls are viewable by everyone"
+  ON polls FOR SELECT
+  USING (NOT has_passcode OR is_poll_unlocked(id, auth.uid(), NULL));
+
+DROP POLICY IF EXISTS "Poll options are viewable by everyone" ON poll_options;
+DROP POLICY IF EXISTS "Options of unlocked polls are viewable by everyone" ON poll_options;
+
+CREATE POLICY "Options of unlocked polls are viewable by everyone"
+  ON poll_options FOR SELECT
+  USING (is_poll_unlocked(poll_id, auth.uid(), NULL));
+
+-- The results of a passcode-protected poll are kept from those who haven't entered it
+CREATE OR REPLACE FUNCTION can_view_poll_results(poll_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.jwt() ->> 'role', '') = 'service_role' OR EXISTS (
+    SELECT 1 FROM polls
+    WHERE polls.id = poll_uuid
+    AND (NOT polls.is_secret OR (polls.closed_at IS NOT NULL OR polls.expires_at <= NOW()))
+    AND is_poll_unlocked(poll_uuid, auth.uid(), NULL)
+    AND (
+      polls.user_id = auth.uid()
+      OR polls.results_visibility = 'always'
+      OR (polls.results_visibility IN ('after_vote', 'after_close')
+        AND (polls.closed_at IS NOT NULL OR polls.expires_at <= NOW()))
+      OR (polls.results_visibility = 'after_vote' AND EXISTS (
+        SELECT 1 FROM votes WHERE votes.poll_id = poll_uuid AND votes.user_id = auth.uid()
+      ))
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
@@ -0,0 +1,115 @@
+-- Migration to add quiz mode with correct answers and scoring
+-- Run this after add_survey_branching.sql
+
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS is_quiz BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_is_quiz_check;
+ALTER TABLE polls ADD CONSTRAINT polls_is_quiz_check
+  CHECK (NOT is_quiz OR poll_type IN ('single', 'multiple', 'approval'));
+
+COMMENT ON COLUMN polls.is_quiz IS 'Quiz questions have an answer key in quiz_answer_keys.';
+
+-- The answer key is kept out of poll_options, which everyone can read, so the
+-- correct answers stay hidden until a participant has answered
+CREATE TABLE IF NOT EXISTS quiz_answer_keys (
+  option_id UUID PRIMARY KEY REFERENCES poll_options(id) ON DELETE CASCADE,
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  is_correct BOOLEAN NOT NULL DEFAULT FALSE,
+  explanation TEXT CHECK (char_length(explanation) <= 300), -- Shown once answered; SECURITY_CONFIG.TEXT_LIMITS.QUIZ_EXPLANATION_MAX
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_answer_keys_poll_id ON quiz_answer_keys(poll_id);
+
+ALTER TABLE quiz_answer_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Poll creators can view the answer keys of their polls"
+  ON quiz_answer_keys FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = quiz_answer_keys.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can add answer keys to their polls"
+  ON quiz_answer_keys FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = quiz_answer_keys.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can update the answer keys of their polls"
+  ON quiz_answer_keys FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = quiz_answer_keys.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can delete the answer keys of their polls"
+  ON quiz_answer_keys FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = quiz_answer_keys.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+-- Function returning the answer key of a quiz question to someone who has answered it
+-- Nothing comes back until the caller has voted; creators read the key through RLS.
+-- selected marks the options on the caller's own ballot.
+CREATE OR REPLACE FUNCTION get_quiz_feedback(poll_uuid UUID)
+RETURNS TABLE(option_id UUID, is_correct BOOLEAN, explanation TEXT, selected BOOLEAN) AS $$
+  WITH ballot AS (
+    SELECT votes.id, votes.option_id
+    FROM votes
+    WHERE votes.poll_id = poll_uuid
+    AND votes.user_id = auth.uid()
+  ),
+  chosen AS (
+    SELECT vote_selections.option_id
+    FROM vote_selections
+    JOIN ballot ON ballot.id = vote_selections.vote_id
+    UNION
+    SELECT ballot.option_id FROM ballot WHERE ballot.option_id IS NOT NULL
+  )
+  SELECT
+    poll_options.id,
+    COALESCE(quiz_answer_keys.is_correct, FALSE),
+    quiz_answer_keys.explanation,
+    EXISTS (SELECT 1 FROM chosen WHERE chosen.option_id = poll_options.id)
+  FROM poll_options
+  JOIN polls ON polls.id = poll_options.poll_id
+  LEFT JOIN quiz_answer_keys ON quiz_answer_keys.option_id = poll_options.id
+  WHERE poll_options.poll_id = poll_uuid
+  AND polls.is_quiz
+  AND EXISTS (SELECT 1 FROM ballot);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function returning every ballot on the caller's quiz questions for the leaderboard
+-- Only the quiz creator gets rows back; participants are identified by email.
+CREATE OR REPLACE FUNCTION get_quiz_ballots(poll_ids UUID[])
+RETURNS TABLE(poll_id UUID, user_id UUID, participant TEXT, option_ids UUID[]) AS $$
+  SELECT
+    votes.poll_id,
+    votes.user_id,
+    COALESCE(users.email, 'Unknown participant')::TEXT,
+    COALESCE(
+      (SELECT array_agg(vote_selections.option_id) FROM vote_selections WHERE vote_selections.vote_id = votes.id),
+      CASE WHEN votes.option_id IS NULL THEN '{}'::UUID[] ELSE ARRAY[votes.option_id] END
+    )
+  FROM votes
+  JOIN polls ON polls.id = votes.poll_id
+  LEFT JOIN auth.users AS users ON users.id = votes.user_id
+  WHERE votes.poll_id = ANY(poll_ids)
+  AND polls.is_quiz
+  AND polls.user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
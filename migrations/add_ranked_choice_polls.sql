@@ -0,0 +1,116 @@
+-- Migration to add ranked-choice (instant-runoff) polls
+-- Run this after add_multi_select_polls.sql
+
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_poll_type_check;
+ALTER TABLE polls ADD CONSTRAINT polls_poll_type_check
+  CHECK (poll_type IN ('single', 'multiple', 'ranked'));
+
+COMMENT ON COLUMN polls.poll_type IS 'single: one option per voter. multiple: between min_selections and max_selections options per voter. ranked: options in order of preference, counted by instant runoff.';
+
+-- Position of the option on a ranked ballot (1 = first choice); NULL on unranked ballots
+ALTER TABLE vote_selections
+ADD COLUMN IF NOT EXISTS rank INTEGER CHECK (rank >= 1);
+
+ALTER TABLE vote_selections DROP CONSTRAINT IF EXISTS vote_selections_vote_id_rank_key;
+ALTER TABLE vote_selections ADD CONSTRAINT vote_selections_vote_id_rank_key UNIQUE (vote_id, rank);
+
+-- Record a multi-select or ranked ballot
+-- On ranked polls option_ids is in preference order and poll_options.votes
+-- counts first preferences only
+CREATE OR REPLACE FUNCTION increment_votes(option_ids UUID[], poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  selection_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+BEGIN
+  IF increment_votes.user_id IS NULL OR increment_votes.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = increment_votes.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  selection_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF selection_count <> (SELECT COUNT(DISTINCT selected) FROM unnest(option_ids) AS selected) THEN
+    RAISE EXCEPTION 'The same option cannot be selected twice';
+  END IF;
+
+  IF poll_record.poll_type = 'single' AND selection_count <> 1 THEN
+    RAISE EXCEPTION 'This poll accepts exactly one option';
+  END IF;
+
+  IF selection_count < poll_record.min_selections THEN
+    RAISE EXCEPTION 'Select at least % option(s)', poll_record.min_selections;
+  END IF;
+
+  IF poll_record.max_selections IS NOT NULL AND selection_count > poll_record.max_selections THEN
+    RAISE EXCEPTION 'Select at most % option(s)', poll_record.max_selections;
+  END IF;
+
+  SELECT COUNT(*) INTO valid_option_count
+  FROM poll_options
+  WHERE poll_options.id = ANY(option_ids)
+  AND poll_options.poll_id = increment_votes.poll_id;
+
+  IF valid_option_count <> selection_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  -- One ballot per user per poll; option_id is only set for single selections
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (
+    increment_votes.user_id,
+    increment_votes.poll_id,
+    CASE WHEN selection_count = 1 THEN option_ids[1] END
+  )
+  RETURNING id INTO new_vote_id;
+
+  IF poll_record.poll_type = 'ranked' THEN
+    INSERT INTO vote_selections (vote_id, poll_id, option_id, rank)
+    SELECT new_vote_id, increment_votes.poll_id, ranking.selected, ranking.position
+    FROM unnest(option_ids) WITH ORDINALITY AS ranking(selected, position);
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = option_ids[1];
+  ELSE
+    INSERT INTO vote_selections (vote_id, poll_id, option_id)
+    SELECT new_vote_id, increment_votes.poll_id, selected
+    FROM unnest(option_ids) AS selected;
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = ANY(option_ids);
+  END IF;
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Ranked ballots for the instant-runoff count
+-- Returns only the orderings, never who cast them, so results can be
+-- tabulated by anyone who can see the poll without opening vote_selections
+CREATE OR REPLACE FUNCTION get_ranked_ballots(poll_uuid UUID)
+RETURNS TABLE(ranking UUID[]) AS $$
+  SELECT array_agg(vote_selections.option_id ORDER BY vote_selections.rank)
+  FROM vote_selections
+  JOIN polls ON polls.id = vote_selections.poll_id
+  WHERE vote_selections.poll_id = poll_uuid
+  AND polls.poll_type = 'ranked'
+  GROUP BY vote_selections.vote_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
@@ -0,0 +1,95 @@
+-- Migration adding a setting for when a poll's results are shown
+-- Run this after add_secret_ballots.sql
+
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS results_visibility TEXT NOT NULL DEFAULT 'always';
+
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_results_visibility_check;
+ALTER TABLE polls ADD CONSTRAINT polls_results_visibility_check
+  CHECK (results_visibility IN ('always', 'after_vote', 'after_close', 'creator'));
+
+COMMENT ON COLUMN polls.results_visibility IS 'When results are shown to voters: always, after_vote, after_close or creator (only the poll creator).';
+
+-- Function checking whether the caller may see a poll's counts
+-- Follows results_visibility like canViewResults in lib/results-visibility.ts:
+-- the creator always may, voters once they have voted on after_vote polls and
+-- everyone once the poll has expired, unless only the creator may. Nobody, not
+-- even the creator, sees the counts of a secret-ballot poll before it closes:
+-- watching them change ballot by ballot could tell who chose what. The server,
+-- with the service role, checks visitors without an account before reading the
+-- counts itself.
+CREATE OR REPLACE FUNCTION can_view_poll_results(poll_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.jwt() ->> 'role', '') = 'service_role' OR EXISTS (
+    SELECT 1 FROM polls
+    WHERE polls.id = poll_uuid
+    AND (NOT polls.is_secret OR polls.expires_at <= NOW())
+    AND (
+      polls.user_id = auth.uid()
+      OR polls.results_visibility = 'always'
+      OR (polls.results_visibility IN ('after_vote', 'after_close') AND polls.expires_at <= NOW())
+      OR (polls.results_visibility = 'after_vote' AND EXISTS (
+        SELECT 1 FROM votes WHERE votes.poll_id = poll_uuid AND votes.user_id = auth.uid()
+      ))
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function returning the option counts of the given polls
+-- Polls whose results the caller may not see yet are left out.
+CREATE OR REPLACE FUNCTION get_option_counts(poll_uuids UUID[])
+RETURNS TABLE(poll_id UUID, option_id UUID, votes INTEGER) AS $$
+  SELECT poll_options.poll_id, poll_options.id, COALESCE(poll_options.votes, 0)
+  FROM poll_options
+  WHERE poll_options.poll_id = ANY(poll_uuids)
+  AND can_view_poll_results(poll_options.poll_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The counts can't be selected through the API; get_option_counts and the
+-- functions below hand them out only where the results may be seen
+REVOKE SELECT ON poll_options FROM anon, authenticated;
+GRANT SELECT (id, poll_id, option_text, starts_at, ends_at, image_path, created_at, updated_at)
+  ON poll_options TO anon, authenticated;
+
+-- The ballot functions behind the ranked, score and scheduling results follow the same setting
+CREATE OR REPLACE FUNCTION get_ranked_ballots(poll_uuid UUID)
+RETURNS TABLE(ranking UUID[]) AS $$
+  SELECT array_agg(vote_selections.option_id ORDER BY vote_selections.rank)
+  FROM vote_selections
+  JOIN polls ON polls.id = vote_selections.poll_id
+  WHERE vote_selections.poll_id = poll_uuid
+  AND polls.poll_type = 'ranked'
+  AND can_view_poll_results(poll_uuid)
+  GROUP BY vote_selections.vote_id
+  UNION ALL
+  SELECT secret_ballots.option_ids
+  FROM secret_ballots
+  JOIN polls ON polls.id = secret_ballots.poll_id
+  WHERE secret_ballots.poll_id = poll_uuid
+  AND polls.poll_type = 'ranked'
+  AND can_view_poll_results(poll_uuid)
+  ORDER BY 1; -- By content, so the order says nothing about when secret ballots were cast
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_score_distribution(poll_uuid UUID)
+RETURNS TABLE(option_id UUID, score INTEGER, ballots BIGINT) AS $$
+  SELECT vote_selections.option_id, vote_selections.score, COUNT(*)
+  FROM vote_selections
+  JOIN polls ON polls.id = vote_selections.poll_id
+  WHERE vote_selections.poll_id = poll_uuid
+  AND polls.poll_type = 'score'
+  AND vote_selections.score IS NOT NULL
+  AND can_view_poll_results(poll_uuid)
+  GROUP BY vote_selections.option_id, vote_selections.score;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_availability_counts(poll_uuid UUID)
+RETURNS TABLE(option_id UUID, availability TEXT, ballots BIGINT) AS $$
+  SELECT vote_selections.option_id, vote_selections.availability, COUNT(*)
+  FROM vote_selections
+  JOIN polls ON polls.id = vote_selections.poll_id
+  WHERE vote_selections.poll_id = poll_uuid
+  AND polls.poll_type = 'schedule'
+  AND vote_selections.availability IS NOT NULL
+  AND can_view_poll_results(poll_uuid)
+  GROUP BY vote_selections.option_id, vote_selections.availability;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
@@ -0,0 +1,223 @@
+-- Migration to add scheduling (availability) polls
+-- Run this after add_quiz_mode.sql
+
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_poll_type_check;
+ALTER TABLE polls ADD CONSTRAINT polls_poll_type_check
+  CHECK (poll_type IN ('single', 'multiple', 'ranked', 'approval', 'score', 'text', 'schedule'));
+
+COMMENT ON COLUMN polls.poll_type IS 'single: one option per voter. multiple: between min_selections and max_selections options per voter. ranked: options in order of preference, counted by instant runoff. approval: any number of options per voter. score: every option rated from 0 to 5 stars. text: a written response, no options. schedule: every time slot answered yes, if need be or no.';
+
+-- IANA time zone the time slots were proposed in; slots are shown in each viewer's own zone
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS time_zone TEXT;
+
+-- Scheduling polls stand alone and always record their time zone
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_schedule_check;
+ALTER TABLE polls ADD CONSTRAINT polls_schedule_check
+  CHECK (poll_type <> 'schedule' OR (survey_id IS NULL AND time_zone IS NOT NULL));
+
+COMMENT ON COLUMN polls.time_zone IS 'IANA time zone the time slots of a scheduling poll were proposed in.';
+
+-- Time slot of an option on a scheduling poll; NULL on other polls
+ALTER TABLE poll_options ADD COLUMN IF NOT EXISTS starts_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE poll_options ADD COLUMN IF NOT EXISTS ends_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE poll_options DROP CONSTRAINT IF EXISTS poll_options_time_slot_check;
+ALTER TABLE poll_options ADD CONSTRAINT poll_options_time_slot_check
+  CHECK (ends_at IS NULL OR (starts_at IS NOT NULL AND ends_at > starts_at));
+
+COMMENT ON COLUMN poll_options.votes IS 'Ballots choosing the option; first preferences on ranked polls, total stars on score polls and yes answers on scheduling polls.';
+
+-- Answer given for the time slot on a scheduling ballot; NULL on other ballots
+ALTER TABLE vote_selections
+ADD COLUMN IF NOT EXISTS availability TEXT CHECK (availability IN ('yes', 'maybe', 'no'));
+
+-- Reject scheduling polls in increment_votes; they are recorded by submit_availability
+-- Function to record a multi-select or ranked ballot
+-- Locks the poll row so the selection limits are enforced in the same transaction as the insert.
+-- On ranked polls option_ids is in preference order and poll_options.votes counts first preferences.
+CREATE OR REPLACE FUNCTION increment_votes(option_ids UUID[], poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  selection_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+BEGIN
+  IF increment_votes.user_id IS NULL OR increment_votes.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = increment_votes.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type = 'score' THEN
+    RAISE EXCEPTION 'Score every option';
+  END IF;
+
+  IF poll_record.poll_type = 'schedule' THEN
+    RAISE EXCEPTION 'Answer every time slot';
+  END IF;
+
+  selection_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF selection_count <> (SELECT COUNT(DISTINCT selected) FROM unnest(option_ids) AS selected) THEN
+    RAISE EXCEPTION 'The same option cannot be selected twice';
+  END IF;
+
+  IF poll_record.poll_type = 'single' AND selection_count <> 1 THEN
+    RAISE EXCEPTION 'This poll accepts exactly one option';
+  END IF;
+
+  IF selection_count < poll_record.min_selections THEN
+    RAISE EXCEPTION 'Select at least % option(s)', poll_record.min_selections;
+  END IF;
+
+  IF poll_record.max_selections IS NOT NULL AND selection_count > poll_record.max_selections THEN
+    RAISE EXCEPTION 'Select at most % option(s)', poll_record.max_selections;
+  END IF;
+
+  SELECT COUNT(*) INTO valid_option_count
+  FROM poll_options
+  WHERE poll_options.id = ANY(option_ids)
+  AND poll_options.poll_id = increment_votes.poll_id;
+
+  IF valid_option_count <> selection_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (
+    increment_votes.user_id,
+    increment_votes.poll_id,
+    CASE WHEN selection_count = 1 THEN option_ids[1] END
+  )
+  RETURNING id INTO new_vote_id;
+
+  IF poll_record.poll_type = 'ranked' THEN
+    INSERT INTO vote_selections (vote_id, poll_id, option_id, rank)
+    SELECT new_vote_id, increment_votes.poll_id, ranking.selected, ranking.position
+    FROM unnest(option_ids) WITH ORDINALITY AS ranking(selected, position);
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = option_ids[1];
+  ELSE
+    INSERT INTO vote_selections (vote_id, poll_id, option_id)
+    SELECT new_vote_id, increment_votes.poll_id, selected
+    FROM unnest(option_ids) AS selected;
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = ANY(option_ids);
+  END IF;
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record a scheduling ballot: availability[i] is the answer ('yes', 'maybe' or 'no') for option_ids[i]
+-- Every time slot on the poll must be answered; poll_options.votes counts the yes answers
+CREATE OR REPLACE FUNCTION submit_availability(option_ids UUID[], availability TEXT[], poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  answer_count INTEGER;
+  poll_option_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+BEGIN
+  IF submit_availability.user_id IS NULL OR submit_availability.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = submit_availability.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type <> 'schedule' THEN
+    RAISE EXCEPTION 'This poll does not accept availability';
+  END IF;
+
+  answer_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF answer_count <> COALESCE(array_length(submit_availability.availability, 1), 0) THEN
+    RAISE EXCEPTION 'Each time slot needs exactly one answer';
+  END IF;
+
+  IF answer_count <> (SELECT COUNT(DISTINCT answered) FROM unnest(option_ids) AS answered) THEN
+    RAISE EXCEPTION 'The same time slot cannot be answered twice';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(submit_availability.availability) AS answer
+    WHERE answer IS NULL OR answer NOT IN ('yes', 'maybe', 'no')
+  ) THEN
+    RAISE EXCEPTION 'Answer yes, if need be or no';
+  END IF;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE poll_options.id = ANY(option_ids))
+  INTO poll_option_count, valid_option_count
+  FROM poll_options
+  WHERE poll_options.poll_id = submit_availability.poll_id;
+
+  IF valid_option_count <> answer_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  IF answer_count <> poll_option_count THEN
+    RAISE EXCEPTION 'Answer every time slot';
+  END IF;
+
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (submit_availability.user_id, submit_availability.poll_id, NULL)
+  RETURNING id INTO new_vote_id;
+
+  INSERT INTO vote_selections (vote_id, poll_id, option_id, availability)
+  SELECT new_vote_id, submit_availability.poll_id, answer.option_id, answer.availability
+  FROM unnest(option_ids, submit_availability.availability) AS answer(option_id, availability);
+
+  UPDATE poll_options
+  SET votes = votes + 1
+  FROM unnest(option_ids, submit_availability.availability) AS answer(option_id, availability)
+  WHERE poll_options.id = answer.option_id
+  AND answer.availability = 'yes';
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Ballot counts per time slot and answer for the results grid
+-- Like get_score_distribution, this never reveals who gave which answer
+CREATE OR REPLACE FUNCTION get_availability_counts(poll_uuid UUID)
+RETURNS TABLE(option_id UUID, availability TEXT, ballots BIGINT) AS $$
+  SELECT vote_selections.option_id, vote_selections.availability, COUNT(*)
+  FROM vote_selections
+  JOIN polls ON polls.id = vote_selections.poll_id
+  WHERE vote_selections.poll_id = poll_uuid
+  AND polls.poll_type = 'schedule'
+  AND vote_selections.availability IS NOT NULL
+  GROUP BY vote_selections.option_id, vote_selections.availability;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
@@ -0,0 +1,245 @@
+-- Migration adding secret-ballot polls and hiding individual votes from the public
+-- Run this after add_anonymous_voting.sql
+
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS is_secret BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Only standalone choice polls; quiz feedback and vote changes need to find the voter's ballot
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_secret_check;
+ALTER TABLE polls ADD CONSTRAINT polls_secret_check
+  CHECK (NOT is_secret OR (poll_type IN ('single', 'multiple', 'ranked', 'approval') AND survey_id IS NULL AND NOT is_quiz AND NOT allow_vote_changes));
+
+COMMENT ON COLUMN polls.is_secret IS 'Secret ballot: votes only records who voted; the choices are in secret_ballots, unlinked from the voter.';
+
+-- The choices of secret ballots, with no voter, vote or timestamp to link them back
+CREATE TABLE IF NOT EXISTS secret_ballots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(), -- Random, so the order of IDs says nothing about when a ballot was cast
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  option_ids UUID[] NOT NULL -- In preference order on ranked polls
+);
+
+CREATE INDEX IF NOT EXISTS idx_secret_ballots_poll_id ON secret_ballots(poll_id);
+
+-- No policies: nobody reads secret ballots directly, not even the poll creator or
+-- an admin. Totals come from poll_options.votes and get_ranked_ballots.
+ALTER TABLE secret_ballots ENABLE ROW LEVEL SECURITY;
+
+-- Individual votes are no longer public: voters see their own, creators those on
+-- their polls except secret-ballot ones, where the rows' timestamps would date
+-- each ballot.
+DROP POLICY IF EXISTS "Votes are viewable by everyone" ON votes;
+DROP POLICY IF EXISTS "Poll creators can view votes on their polls" ON votes;
+
+CREATE POLICY "Users can view their own votes"
+  ON votes FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Poll creators can view votes on their polls"
+  ON votes FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = votes.poll_id AND polls.user_id = auth.uid() AND NOT polls.is_secret
+    )
+  );
+
+-- Secret ballots can only be cast through record_ballot, which splits them
+DROP POLICY IF EXISTS "Authenticated users can vote" ON votes;
+
+CREATE POLICY "Authenticated users can vote"
+  ON votes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND NOT EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = votes.poll_id AND polls.is_secret
+    )
+  );
+
+-- Votes can no longer be deleted directly: a deleted secret ballot would leave its
+-- secret_ballots row and counts behind, and the voter could vote again.
+-- retract_vote and change_vote take the counts off the options as they remove a ballot.
+DROP POLICY IF EXISTS "Users can delete their own votes" ON votes;
+
+-- Function recording a choice ballot for a user or a voter token
+-- Secret ballots are split into the votes row and an unlinked secret_ballots row.
+-- Locks the poll row so the selection limits are enforced in the same transaction as the insert.
+-- On ranked polls option_ids is in preference order and poll_options.votes counts first preferences.
+-- Not callable through the API: increment_votes and cast_anonymous_ballot check the voter first.
+CREATE OR REPLACE FUNCTION record_ballot(option_ids UUID[], poll_id UUID, user_id UUID, voter_token UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  selection_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+BEGIN
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = record_ballot.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type = 'score' THEN
+    RAISE EXCEPTION 'Score every option';
+  END IF;
+
+  IF poll_record.poll_type = 'schedule' THEN
+    RAISE EXCEPTION 'Answer every time slot';
+  END IF;
+
+  selection_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF selection_count <> (SELECT COUNT(DISTINCT selected) FROM unnest(option_ids) AS selected) THEN
+    RAISE EXCEPTION 'The same option cannot be selected twice';
+  END IF;
+
+  IF poll_record.poll_type = 'single' AND selection_count <> 1 THEN
+    RAISE EXCEPTION 'This poll accepts exactly one option';
+  END IF;
+
+  IF selection_count < poll_record.min_selections THEN
+    RAISE EXCEPTION 'Select at least % option(s)', poll_record.min_selections;
+  END IF;
+
+  IF poll_record.max_selections IS NOT NULL AND selection_count > poll_record.max_selections THEN
+    RAISE EXCEPTION 'Select at most % option(s)', poll_record.max_selections;
+  END IF;
+
+  SELECT COUNT(*) INTO valid_option_count
+  FROM poll_options
+  WHERE poll_options.id = ANY(option_ids)
+  AND poll_options.poll_id = record_ballot.poll_id;
+
+  IF valid_option_count <> selection_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  -- A secret ballot only records that the voter took part; the choice goes to
+  -- secret_ballots, with nothing linking it back to the votes row
+  IF poll_record.is_secret THEN
+    INSERT INTO votes (user_id, voter_token, poll_id)
+    VALUES (record_ballot.user_id, record_ballot.voter_token, record_ballot.poll_id);
+
+    INSERT INTO secret_ballots (poll_id, option_ids)
+    VALUES (record_ballot.poll_id, option_ids);
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = ANY(CASE WHEN poll_record.poll_type = 'ranked' THEN option_ids[1:1] ELSE option_ids END);
+
+    RETURN;
+  END IF;
+
+  INSERT INTO votes (user_id, voter_token, poll_id, option_id)
+  VALUES (
+    record_ballot.user_id,
+    record_ballot.voter_token,
+    record_ballot.poll_id,
+    CASE WHEN selection_count = 1 THEN option_ids[1] END
+  )
+  RETURNING id INTO new_vote_id;
+
+  IF poll_record.poll_type = 'ranked' THEN
+    INSERT INTO vote_selections (vote_id, poll_id, option_id, rank)
+    SELECT new_vote_id, record_ballot.poll_id, ranking.selected, ranking.position
+    FROM unnest(option_ids) WITH ORDINALITY AS ranking(selected, position);
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = option_ids[1];
+  ELSE
+    INSERT INTO vote_selections (vote_id, poll_id, option_id)
+    SELECT new_vote_id, record_ballot.poll_id, selected
+    FROM unnest(option_ids) AS selected;
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = ANY(option_ids);
+  END IF;
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_ballot(UUID[], UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to increment votes for a poll option
+-- Secret ballots go through increment_votes, which splits them from the voter.
+CREATE OR REPLACE FUNCTION increment_vote(option_id UUID, poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM polls WHERE polls.id = increment_vote.poll_id AND polls.is_secret) THEN
+    RAISE EXCEPTION 'Secret ballots must be cast with increment_votes';
+  END IF;
+
+  -- Insert the vote record
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (user_id, poll_id, option_id);
+  
+  -- Increment the votes count for the option
+  UPDATE poll_options
+  SET votes = votes + 1
+  WHERE id = option_id;
+  
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function returning the ranked ballots of a poll for the instant-runoff count
+-- Only the orderings are returned, never who cast them
+CREATE OR REPLACE FUNCTION get_ranked_ballots(poll_uuid UUID)
+RETURNS TABLE(ranking UUID[]) AS $$
+  SELECT array_agg(vote_selections.option_id ORDER BY vote_selections.rank)
+  FROM vote_selections
+  JOIN polls ON polls.id = vote_selections.poll_id
+  WHERE vote_selections.poll_id = poll_uuid
+  AND polls.poll_type = 'ranked'
+  GROUP BY vote_selections.vote_id
+  UNION ALL
+  SELECT secret_ballots.option_ids
+  FROM secret_ballots
+  JOIN polls ON polls.id = secret_ballots.poll_id
+  WHERE secret_ballots.poll_id = poll_uuid
+  AND polls.poll_type = 'ranked'
+  ORDER BY 1; -- By content, so the order says nothing about when secret ballots were cast
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function returning the counts of a poll split into anonymous and signed-in ballots
+-- Rows with an option_id count the ballots adding a vote to that option (first
+-- preferences on ranked polls); the row without one counts the ballots of that
+-- kind. Only the poll creator gets rows back, and none on secret-ballot polls,
+-- whose choices can't be told apart by voter.
+CREATE OR REPLACE FUNCTION get_vote_breakdown(poll_uuid UUID)
+RETURNS TABLE(anonymous BOOLEAN, option_id UUID, votes BIGINT) AS $$
+  SELECT votes.voter_token IS NOT NULL, counted.option_id, COUNT(DISTINCT votes.id)
+  FROM votes
+  JOIN polls ON polls.id = votes.poll_id
+  LEFT JOIN LATERAL (
+    SELECT vote_selections.option_id
+    FROM vote_selections
+    WHERE vote_selections.vote_id = votes.id
+    AND (vote_selections.rank IS NULL OR vote_selections.rank = 1)
+    UNION
+    SELECT votes.option_id
+    WHERE votes.option_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM vote_selections WHERE vote_selections.vote_id = votes.id)
+  ) counted ON TRUE
+  WHERE votes.poll_id = poll_uuid
+  AND polls.user_id = auth.uid()
+  AND NOT polls.is_secret
+  GROUP BY GROUPING SETS ((votes.voter_token IS NOT NULL, counted.option_id), (votes.voter_token IS NOT NULL));
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
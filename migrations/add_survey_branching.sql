@@ -0,0 +1,180 @@
+-- Migration to add branching (skip logic) to surveys
+-- Run this after add_surveys.sql
+
+-- Choosing option_id on question_id jumps to target_question_id, or ends the
+-- survey when it is NULL. Questions without a matching rule continue in order.
+CREATE TABLE IF NOT EXISTS survey_branches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  survey_id UUID NOT NULL REFERENCES surveys(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES poll_options(id) ON DELETE CASCADE,
+  target_question_id UUID REFERENCES polls(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(question_id, option_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_survey_branches_survey_id ON survey_branches(survey_id);
+
+ALTER TABLE survey_branches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Survey branches are viewable by everyone"
+  ON survey_branches FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can add branches to their own surveys"
+  ON survey_branches FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM surveys
+      WHERE surveys.id = survey_branches.survey_id
+      AND surveys.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete branches from their own surveys"
+  ON survey_branches FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM surveys
+      WHERE surveys.id = survey_branches.survey_id
+      AND surveys.user_id = auth.uid()
+    )
+  );
+
+-- Submit the answers to a survey in one transaction and record its completion.
+-- answers maps each question's poll ID to {"optionIds": [...]}, {"scores": {...}}
+-- or {"response": "..."} depending on the question type; written responses are
+-- sanitized by the application before they get here. The respondent's path is
+-- followed from the first question, so exactly the questions on that path must
+-- be answered and questions skipped by branching must be left out.
+CREATE OR REPLACE FUNCTION submit_survey(survey_id UUID, user_id UUID, answers JSONB)
+RETURNS VOID AS $$
+DECLARE
+  survey_record RECORD;
+  question RECORD;
+  answer JSONB;
+  current_id UUID;
+  next_id UUID;
+  visited UUID[] := '{}';
+  selected_ids UUID[];
+  selected_scores INTEGER[];
+BEGIN
+  IF submit_survey.user_id IS NULL OR submit_survey.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO survey_record
+  FROM surveys
+  WHERE surveys.id = submit_survey.survey_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Survey not found';
+  END IF;
+
+  IF survey_record.expires_at IS NOT NULL AND survey_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Survey has expired';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM survey_responses
+    WHERE survey_responses.survey_id = submit_survey.survey_id
+    AND survey_responses.user_id = submit_survey.user_id
+    AND survey_responses.completed_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'User has already completed this survey';
+  END IF;
+
+  IF submit_survey.answers IS NULL OR jsonb_typeof(submit_survey.answers) <> 'object' THEN
+    RAISE EXCEPTION 'Answer every question';
+  END IF;
+
+  SELECT polls.id INTO current_id
+  FROM polls
+  WHERE polls.survey_id = submit_survey.survey_id
+  ORDER BY polls.survey_position
+  LIMIT 1;
+
+  WHILE current_id IS NOT NULL LOOP
+    IF current_id = ANY(visited) THEN
+      RAISE EXCEPTION 'Survey branching loops back to an earlier question';
+    END IF;
+    visited := visited || current_id;
+
+    SELECT polls.id, polls.poll_type, polls.survey_position INTO question
+    FROM polls
+    WHERE polls.id = current_id;
+
+    answer := submit_survey.answers -> question.id::TEXT;
+
+    IF answer IS NULL THEN
+      RAISE EXCEPTION 'Answer every question';
+    END IF;
+
+    selected_ids := NULL;
+
+    IF question.poll_type = 'text' THEN
+      PERFORM submit_text_response(question.id, submit_survey.user_id, answer ->> 'response');
+    ELSIF question.poll_type = 'score' THEN
+      SELECT array_agg(rating.key::UUID ORDER BY rating.key), array_agg(rating.value::INTEGER ORDER BY rating.key)
+      INTO selected_ids, selected_scores
+      FROM jsonb_each_text(COALESCE(answer -> 'scores', '{}'::jsonb)) AS rating;
+
+      PERFORM increment_scores(selected_ids, selected_scores, question.id, submit_survey.user_id);
+      selected_ids := NULL;
+    ELSE
+      -- Every choice question, single choice included, goes through increment_votes so the
+      -- options are checked against the question. Keep the submitted order, which is the
+      -- preference order on ranked questions.
+      SELECT array_agg(selection.value::UUID ORDER BY selection.position)
+      INTO selected_ids
+      FROM jsonb_array_elements_text(COALESCE(answer -> 'optionIds', '[]'::jsonb))
+        WITH ORDINALITY AS selection(value, position);
+
+      PERFORM increment_votes(COALESCE(selected_ids, '{}'), question.id, submit_survey.user_id);
+
+      -- Ranked questions branch on the first choice only
+      IF question.poll_type = 'ranked' THEN
+        selected_ids := selected_ids[1:1];
+      END IF;
+    END IF;
+
+    -- Follow the matching branch with the earliest target, ending the survey counting as last
+    SELECT survey_branches.target_question_id INTO next_id
+    FROM survey_branches
+    LEFT JOIN polls AS target ON target.id = survey_branches.target_question_id
+    WHERE survey_branches.question_id = question.id
+    AND survey_branches.option_id = ANY(COALESCE(selected_ids, '{}'))
+    ORDER BY target.survey_position NULLS LAST
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      SELECT polls.id INTO next_id
+      FROM polls
+      WHERE polls.survey_id = submit_survey.survey_id
+      AND polls.survey_position > question.survey_position
+      ORDER BY polls.survey_position
+      LIMIT 1;
+
+      IF NOT FOUND THEN
+        next_id := NULL;
+      END IF;
+    END IF;
+
+    current_id := next_id;
+  END LOOP;
+
+  IF (SELECT COUNT(*) FROM jsonb_object_keys(submit_survey.answers)) <> COALESCE(array_length(visited, 1), 0) THEN
+    RAISE EXCEPTION 'Only answer the questions on your path through the survey';
+  END IF;
+
+  INSERT INTO survey_responses (survey_id, user_id, progress, current_question, completed_at)
+  VALUES (submit_survey.survey_id, submit_survey.user_id, '{}'::jsonb, 0, NOW())
+  ON CONFLICT ON CONSTRAINT survey_responses_survey_id_user_id_key DO UPDATE
+  SET progress = '{}'::jsonb,
+      current_question = 0,
+      updated_at = NOW(),
+      completed_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
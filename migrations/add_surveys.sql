@@ -0,0 +1,187 @@
+-- Migration to add multi-question surveys
+-- Run this after add_text_response_polls.sql
+
+-- A survey is an ordered list of questions. Each question is a row in polls, so
+-- it keeps its own type, options and tallies and reuses the existing vote functions.
+CREATE TABLE IF NOT EXISTS surveys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  title TEXT NOT NULL,
+  description TEXT,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_surveys_user_id ON surveys(user_id);
+
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS survey_id UUID REFERENCES surveys(id) ON DELETE CASCADE;
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS survey_position INTEGER;
+
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_survey_position_check;
+ALTER TABLE polls ADD CONSTRAINT polls_survey_position_check
+  CHECK ((survey_id IS NULL AND survey_position IS NULL) OR (survey_id IS NOT NULL AND survey_position >= 1));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_polls_survey_position
+  ON polls(survey_id, survey_position) WHERE survey_id IS NOT NULL;
+
+COMMENT ON COLUMN polls.survey_id IS 'The survey this poll is a question of; NULL for standalone polls.';
+COMMENT ON COLUMN polls.survey_position IS '1-based position of the question within its survey.';
+
+-- One row per respondent and survey: the saved progress while the survey is in
+-- progress, and the completion record once it has been submitted
+CREATE TABLE IF NOT EXISTS survey_responses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  survey_id UUID NOT NULL REFERENCES surveys(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  progress JSONB NOT NULL DEFAULT '{}'::jsonb, -- Draft answers keyed by question poll ID
+  current_question INTEGER NOT NULL DEFAULT 0 CHECK (current_question >= 0), -- 0-based
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE, -- NULL until the survey is submitted
+  UNIQUE(survey_id, user_id)
+);
+
+ALTER TABLE surveys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE survey_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Surveys are viewable by everyone"
+  ON surveys FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can create surveys"
+  ON surveys FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own surveys"
+  ON surveys FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own surveys"
+  ON surveys FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Respondents manage their own saved progress. Completion is only recorded by
+-- submit_survey, so rows written here must stay incomplete.
+CREATE POLICY "Users can view their own survey responses"
+  ON survey_responses FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can start survey responses"
+  ON survey_responses FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND completed_at IS NULL);
+
+CREATE POLICY "Users can save progress on incomplete survey responses"
+  ON survey_responses FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id AND completed_at IS NULL)
+  WITH CHECK (auth.uid() = user_id AND completed_at IS NULL);
+
+-- Submit every answer to a survey in one transaction and record its completion.
+-- answers maps each question's poll ID to {"optionIds": [...]}, {"scores": {...}}
+-- or {"response": "..."} depending on the question type; written responses are
+-- sanitized by the application before they get here.
+CREATE OR REPLACE FUNCTION submit_survey(survey_id UUID, user_id UUID, answers JSONB)
+RETURNS VOID AS $$
+DECLARE
+  survey_record RECORD;
+  question RECORD;
+  answer JSONB;
+  question_count INTEGER;
+  selected_ids UUID[];
+  selected_scores INTEGER[];
+BEGIN
+  IF submit_survey.user_id IS NULL OR submit_survey.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO survey_record
+  FROM surveys
+  WHERE surveys.id = submit_survey.survey_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Survey not found';
+  END IF;
+
+  IF survey_record.expires_at IS NOT NULL AND survey_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Survey has expired';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM survey_responses
+    WHERE survey_responses.survey_id = submit_survey.survey_id
+    AND survey_responses.user_id = submit_survey.user_id
+    AND survey_responses.completed_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'User has already completed this survey';
+  END IF;
+
+  IF submit_survey.answers IS NULL OR jsonb_typeof(submit_survey.answers) <> 'object' THEN
+    RAISE EXCEPTION 'Answer every question';
+  END IF;
+
+  SELECT COUNT(*) INTO question_count
+  FROM polls
+  WHERE polls.survey_id = submit_survey.survey_id;
+
+  IF (SELECT COUNT(*) FROM jsonb_object_keys(submit_survey.answers)) <> question_count THEN
+    RAISE EXCEPTION 'Answer every question';
+  END IF;
+
+  FOR question IN
+    SELECT polls.id, polls.poll_type
+    FROM polls
+    WHERE polls.survey_id = submit_survey.survey_id
+    ORDER BY polls.survey_position
+  LOOP
+    answer := submit_survey.answers -> question.id::TEXT;
+
+    IF answer IS NULL THEN
+      RAISE EXCEPTION 'Answer every question';
+    END IF;
+
+    IF question.poll_type = 'text' THEN
+      PERFORM submit_text_response(question.id, submit_survey.user_id, answer ->> 'response');
+    ELSIF question.poll_type = 'score' THEN
+      SELECT array_agg(rating.key::UUID ORDER BY rating.key), array_agg(rating.value::INTEGER ORDER BY rating.key)
+      INTO selected_ids, selected_scores
+      FROM jsonb_each_text(COALESCE(answer -> 'scores', '{}'::jsonb)) AS rating;
+
+      PERFORM increment_scores(selected_ids, selected_scores, question.id, submit_survey.user_id);
+    ELSE
+      -- Every choice question, single choice included, goes through increment_votes so the
+      -- options are checked against the question. Keep the submitted order, which is the
+      -- preference order on ranked questions.
+      SELECT array_agg(selection.value::UUID ORDER BY selection.position)
+      INTO selected_ids
+      FROM jsonb_array_elements_text(COALESCE(answer -> 'optionIds', '[]'::jsonb))
+        WITH ORDINALITY AS selection(value, position);
+
+      PERFORM increment_votes(COALESCE(selected_ids, '{}'), question.id, submit_survey.user_id);
+    END IF;
+  END LOOP;
+
+  INSERT INTO survey_responses (survey_id, user_id, progress, current_question, completed_at)
+  VALUES (submit_survey.survey_id, submit_survey.user_id, '{}'::jsonb, 0, NOW())
+  ON CONFLICT ON CONSTRAINT survey_responses_survey_id_user_id_key DO UPDATE
+  SET progress = '{}'::jsonb,
+      current_question = 0,
+      updated_at = NOW(),
+      completed_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function returning how many respondents started and completed each survey
+-- Only the counts are returned, never who responded or their saved answers
+CREATE OR REPLACE FUNCTION get_survey_completion(survey_ids UUID[])
+RETURNS TABLE(survey_id UUID, started BIGINT, completed BIGINT) AS $$
+  SELECT survey_responses.survey_id, COUNT(*), COUNT(survey_responses.completed_at)
+  FROM survey_responses
+  WHERE survey_responses.survey_id = ANY(survey_ids)
+  GROUP BY survey_responses.survey_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
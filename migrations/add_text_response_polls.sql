@@ -0,0 +1,95 @@
+-- Migration to add open-ended text response polls
+-- Run this after add_approval_and_score_polls.sql
+
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_poll_type_check;
+ALTER TABLE polls ADD CONSTRAINT polls_poll_type_check
+  CHECK (poll_type IN ('single', 'multiple', 'ranked', 'approval', 'score', 'text'));
+
+COMMENT ON COLUMN polls.poll_type IS 'single: one option per voter. multiple: between min_selections and max_selections options per voter. ranked: options in order of preference, counted by instant runoff. approval: any number of options per voter. score: every option rated from 0 to 5 stars. text: a written response, no options.';
+
+-- Written answers; each is attached to the respondent's row in votes so the
+-- one-response-per-user rule and voter_count work as for every other poll type
+CREATE TABLE IF NOT EXISTS text_responses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  vote_id UUID NOT NULL UNIQUE REFERENCES votes(id) ON DELETE CASCADE,
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  response TEXT NOT NULL CHECK (char_length(response) BETWEEN 1 AND 500), -- SECURITY_CONFIG.TEXT_LIMITS.TEXT_RESPONSE_MAX
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_text_responses_poll_id ON text_responses(poll_id, created_at DESC);
+
+ALTER TABLE text_responses ENABLE ROW LEVEL SECURITY;
+
+-- Respondents can view their own answers
+CREATE POLICY "Users can view their own text responses"
+  ON text_responses FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM votes
+      WHERE votes.id = text_responses.vote_id AND votes.user_id = auth.uid()
+    )
+  );
+
+-- Poll creators can browse the answers to their polls
+CREATE POLICY "Poll creators can view text responses on their polls"
+  ON text_responses FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = text_responses.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+-- Responses are only written by submit_text_response (SECURITY DEFINER), so there is no INSERT policy
+
+-- Record a written response; the text is sanitized by the application before it gets here
+CREATE OR REPLACE FUNCTION submit_text_response(poll_id UUID, user_id UUID, response TEXT)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  new_vote_id UUID;
+BEGIN
+  IF submit_text_response.user_id IS NULL OR submit_text_response.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = submit_text_response.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type <> 'text' THEN
+    RAISE EXCEPTION 'This poll does not accept written responses';
+  END IF;
+
+  IF submit_text_response.response IS NULL OR char_length(btrim(submit_text_response.response)) = 0 THEN
+    RAISE EXCEPTION 'Response is required';
+  END IF;
+
+  IF char_length(btrim(submit_text_response.response)) > 500 THEN
+    RAISE EXCEPTION 'Response cannot exceed 500 characters';
+  END IF;
+
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (submit_text_response.user_id, submit_text_response.poll_id, NULL)
+  RETURNING id INTO new_vote_id;
+
+  INSERT INTO text_responses (vote_id, poll_id, response)
+  VALUES (new_vote_id, submit_text_response.poll_id, btrim(submit_text_response.response));
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
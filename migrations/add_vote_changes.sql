@@ -0,0 +1,124 @@
+-- Migration to let voters change or withdraw their vote until a poll closes
+-- Run this after add_option_images.sql
+
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS allow_vote_changes BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Only standalone choice polls; quiz answers can't be revised once the answer key is revealed
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_vote_changes_check;
+ALTER TABLE polls ADD CONSTRAINT polls_vote_changes_check
+  CHECK (NOT allow_vote_changes OR (poll_type IN ('single', 'multiple', 'ranked', 'approval') AND survey_id IS NULL AND NOT is_quiz));
+
+COMMENT ON COLUMN polls.allow_vote_changes IS 'Voters may change or withdraw their vote until expires_at, through change_vote and retract_vote.';
+
+-- Function undoing a ballot's counts and deleting it
+-- Ranked ballots only counted their first choice. Not callable through the API:
+-- change_vote and retract_vote check the caller and the poll before using it.
+CREATE OR REPLACE FUNCTION remove_ballot(vote_uuid UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM vote_selections WHERE vote_selections.vote_id = vote_uuid) THEN
+    UPDATE poll_options
+    SET votes = votes - 1
+    WHERE poll_options.id IN (
+      SELECT vote_selections.option_id
+      FROM vote_selections
+      WHERE vote_selections.vote_id = vote_uuid
+      AND (vote_selections.rank IS NULL OR vote_selections.rank = 1)
+    );
+  ELSE
+    UPDATE poll_options
+    SET votes = votes - 1
+    WHERE poll_options.id = (SELECT votes.option_id FROM votes WHERE votes.id = vote_uuid);
+  END IF;
+
+  -- vote_selections cascade, and the trigger lowers polls.voter_count
+  DELETE FROM votes WHERE votes.id = vote_uuid;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION remove_ballot(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to replace the caller's ballot on a poll that allows vote changes
+-- The old ballot's counts move to the new one in a single transaction; the new
+-- ballot goes through increment_votes, so it meets the same selection rules.
+CREATE OR REPLACE FUNCTION change_vote(option_ids UUID[], poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  old_vote_id UUID;
+BEGIN
+  IF change_vote.user_id IS NULL OR change_vote.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = change_vote.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF NOT poll_record.allow_vote_changes THEN
+    RAISE EXCEPTION 'Votes on this poll cannot be changed';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  SELECT votes.id INTO old_vote_id
+  FROM votes
+  WHERE votes.poll_id = change_vote.poll_id
+  AND votes.user_id = change_vote.user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You have not voted on this poll';
+  END IF;
+
+  PERFORM remove_ballot(old_vote_id);
+  PERFORM increment_votes(option_ids, change_vote.poll_id, change_vote.user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to withdraw the caller's ballot on a poll that allows vote changes
+CREATE OR REPLACE FUNCTION retract_vote(poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  old_vote_id UUID;
+BEGIN
+  IF retract_vote.user_id IS NULL OR retract_vote.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = retract_vote.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF NOT poll_record.allow_vote_changes THEN
+    RAISE EXCEPTION 'Votes on this poll cannot be changed';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  SELECT votes.id INTO old_vote_id
+  FROM votes
+  WHERE votes.poll_id = retract_vote.poll_id
+  AND votes.user_id = retract_vote.user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You have not voted on this poll';
+  END IF;
+
+  PERFORM remove_ballot(old_vote_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
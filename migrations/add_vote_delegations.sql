@@ -0,0 +1,275 @@
+-- Migration adding vote delegation, where voters hand their vote to someone they trust
+-- Run this after add_weighted_voting.sql
+
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS allow_delegation BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- The tally follows delegates to their ballots, which needs accounts and visible choices
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_delegation_check;
+ALTER TABLE polls ADD CONSTRAINT polls_delegation_check
+  CHECK (
+    NOT allow_delegation
+    OR (
+      poll_type IN ('single', 'multiple', 'approval')
+      AND survey_id IS NULL
+      AND NOT is_quiz
+      AND NOT allow_anonymous
+      AND NOT is_secret
+      AND NOT is_weighted
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_polls_tags ON polls USING GIN (tags);
+
+COMMENT ON COLUMN polls.allow_delegation IS 'Voters may delegate their vote; delegated votes are counted once the poll closes.';
+COMMENT ON COLUMN polls.tags IS 'Lower case; a delegation for a tag covers every poll with it.';
+
+-- Votes delegated by one user to another, for one poll or for every poll with a tag
+-- A delegation is taken back by setting revoked_at rather than deleting it, so
+-- the tally of a closed poll counts the delegations that stood when it closed.
+CREATE TABLE IF NOT EXISTS vote_delegations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  delegator_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  delegate_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- NULL on delegations by email
+  delegate_email TEXT, -- Lower case; NULL on delegations by user ID
+  poll_id UUID REFERENCES polls(id) ON DELETE CASCADE, -- NULL on delegations for a tag
+  tag TEXT, -- Lower case; NULL on delegations for one poll
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  revoked_at TIMESTAMP WITH TIME ZONE, -- When the delegator took the delegation back
+  CONSTRAINT vote_delegations_delegate_check CHECK ((delegate_id IS NULL) <> (delegate_email IS NULL)),
+  CONSTRAINT vote_delegations_scope_check CHECK ((poll_id IS NULL) <> (tag IS NULL)),
+  CONSTRAINT vote_delegations_self_check CHECK (delegate_id IS NULL OR delegate_id <> delegator_id),
+  CONSTRAINT vote_delegations_email_check CHECK (delegate_email IS NULL OR delegate_email = lower(delegate_email)),
+  CONSTRAINT vote_delegations_tag_check CHECK (tag IS NULL OR tag = lower(tag))
+);
+
+CREATE INDEX IF NOT EXISTS idx_vote_delegations_poll_id ON vote_delegations(poll_id) WHERE poll_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_vote_delegations_tag ON vote_delegations(tag) WHERE tag IS NOT NULL;
+-- One standing delegation per delegator and scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vote_delegations_active_poll ON vote_delegations(delegator_id, poll_id)
+  WHERE poll_id IS NOT NULL AND revoked_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vote_delegations_active_tag ON vote_delegations(delegator_id, tag)
+  WHERE tag IS NOT NULL AND revoked_at IS NULL;
+
+ALTER TABLE vote_delegations ENABLE ROW LEVEL SECURITY;
+
+-- Users make and take back their own delegations; delegates see who delegated to them
+CREATE POLICY "Users can view their own delegations"
+  ON vote_delegations FOR SELECT
+  TO authenticated
+  USING (delegator_id = auth.uid());
+
+CREATE POLICY "Users can view delegations made to them"
+  ON vote_delegations FOR SELECT
+  TO authenticated
+  USING (delegate_id = auth.uid() OR delegate_email = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Users can delegate their own vote"
+  ON vote_delegations FOR INSERT
+  TO authenticated
+  WITH CHECK (delegator_id = auth.uid() AND revoked_at IS NULL);
+
+CREATE POLICY "Users can take back their own delegations"
+  ON vote_delegations FOR UPDATE
+  TO authenticated
+  USING (delegator_id = auth.uid() AND revoked_at IS NULL)
+  WITH CHECK (delegator_id = auth.uid());
+
+-- Function returning the delegations that apply to a poll at a point in time
+-- One per delegator: a delegation for the poll itself wins over one for a tag,
+-- and of several tags the most recent delegation wins. Delegations by email
+-- resolve to the account with that address and are left out until it exists.
+CREATE OR REPLACE FUNCTION get_poll_delegations(poll_uuid UUID, as_of TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE(delegator_id UUID, delegate_id UUID) AS $$
+  SELECT applying.delegator_id, COALESCE(applying.delegate_id, users.id)
+  FROM (
+    SELECT DISTINCT ON (vote_delegations.delegator_id) vote_delegations.*
+    FROM vote_delegations
+    JOIN polls ON polls.id = poll_uuid
+    WHERE (vote_delegations.poll_id = poll_uuid OR vote_delegations.tag = ANY(polls.tags))
+    AND vote_delegations.created_at <= as_of
+    AND (vote_delegations.revoked_at IS NULL OR vote_delegations.revoked_at > as_of)
+    ORDER BY vote_delegations.delegator_id, vote_delegations.poll_id IS NULL, vote_delegations.created_at DESC
+  ) applying
+  LEFT JOIN auth.users AS users ON applying.delegate_id IS NULL AND lower(users.email) = applying.delegate_email
+  WHERE COALESCE(applying.delegate_id, users.id) IS NOT NULL
+  AND COALESCE(applying.delegate_id, users.id) <> applying.delegator_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Who delegated to whom is private; the tally and the delegation trigger use these
+REVOKE EXECUTE ON FUNCTION get_poll_delegations(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Function returning the standing delegations for a tag
+CREATE OR REPLACE FUNCTION get_tag_delegations(tag_name TEXT)
+RETURNS TABLE(delegator_id UUID, delegate_id UUID) AS $$
+  SELECT vote_delegations.delegator_id, COALESCE(vote_delegations.delegate_id, users.id)
+  FROM vote_delegations
+  LEFT JOIN auth.users AS users
+    ON vote_delegations.delegate_id IS NULL AND lower(users.email) = vote_delegations.delegate_email
+  WHERE vote_delegations.tag = tag_name
+  AND vote_delegations.revoked_at IS NULL
+  AND COALESCE(vote_delegations.delegate_id, users.id) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_tag_delegations(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Function checking a delegation as it is made or taken back
+-- A delegation can only be taken back, not changed; delegations for a poll are
+-- fixed once it has closed; and a delegation whose chain of delegates in the
+-- same scope leads back to the delegator is refused.
+CREATE OR REPLACE FUNCTION check_vote_delegation()
+RETURNS TRIGGER AS $$
+DECLARE
+  poll_record RECORD;
+  delegate_uuid UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' AND (
+    OLD.revoked_at IS NOT NULL
+    OR NEW.revoked_at IS NULL
+    OR NEW.delegator_id <> OLD.delegator_id
+    OR NEW.delegate_id IS DISTINCT FROM OLD.delegate_id
+    OR NEW.delegate_email IS DISTINCT FROM OLD.delegate_email
+    OR NEW.poll_id IS DISTINCT FROM OLD.poll_id
+    OR NEW.tag IS DISTINCT FROM OLD.tag
+  ) THEN
+    RAISE EXCEPTION 'A delegation can only be taken back';
+  END IF;
+
+  IF NEW.poll_id IS NOT NULL THEN
+    SELECT allow_delegation, closed_at, expires_at INTO poll_record
+    FROM polls
+    WHERE id = NEW.poll_id;
+
+    IF LEAST(poll_record.closed_at, poll_record.expires_at) <= NOW() THEN
+      RAISE EXCEPTION 'Delegations are fixed once the poll has closed';
+    END IF;
+
+    IF TG_OP = 'INSERT' AND NOT poll_record.allow_delegation THEN
+      RAISE EXCEPTION 'This poll does not allow delegation';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    RETURN NEW;
+  END IF;
+
+  delegate_uuid := COALESCE(
+    NEW.delegate_id,
+    (SELECT id FROM auth.users WHERE lower(email) = NEW.delegate_email LIMIT 1)
+  );
+
+  IF delegate_uuid = NEW.delegator_id THEN
+    RAISE EXCEPTION 'You cannot delegate your vote to yourself';
+  END IF;
+
+  -- Follow the delegate's own delegations; reaching the delegator closes a cycle.
+  -- The delegator's current delegation in this scope is being replaced, so it is left out.
+  IF delegate_uuid IS NOT NULL AND EXISTS (
+    WITH RECURSIVE edges AS (
+      SELECT * FROM get_poll_delegations(NEW.poll_id, NOW()) WHERE NEW.poll_id IS NOT NULL
+      UNION ALL
+      SELECT * FROM get_tag_delegations(NEW.tag) WHERE NEW.tag IS NOT NULL
+    ),
+    chain(user_id, path) AS (
+      SELECT delegate_uuid, ARRAY[delegate_uuid]
+      UNION ALL
+      SELECT edges.delegate_id, chain.path || edges.delegate_id
+      FROM chain
+      JOIN edges ON edges.delegator_id = chain.user_id
+      WHERE edges.delegator_id <> NEW.delegator_id
+      AND NOT edges.delegate_id = ANY(chain.path)
+    )
+    SELECT 1 FROM chain WHERE chain.user_id = NEW.delegator_id
+  ) THEN
+    RAISE EXCEPTION 'This delegation would create a cycle';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS vote_delegations_check ON vote_delegations;
+CREATE TRIGGER vote_delegations_check
+  BEFORE INSERT OR UPDATE ON vote_delegations
+  FOR EACH ROW EXECUTE FUNCTION check_vote_delegation();
+
+-- Function delegating the caller's vote, replacing their standing delegation in the same scope
+-- Runs as the caller, so the delegation policies apply. Both steps happen in one
+-- transaction: if the trigger refuses the new delegation, the old one stands.
+CREATE OR REPLACE FUNCTION delegate_vote(poll_uuid UUID, tag_name TEXT, delegate_uuid UUID, delegate_address TEXT)
+RETURNS UUID AS $$
+DECLARE
+  delegation_id UUID;
+BEGIN
+  UPDATE vote_delegations
+  SET revoked_at = NOW()
+  WHERE delegator_id = auth.uid()
+  AND revoked_at IS NULL
+  AND ((tag_name IS NULL AND poll_id = poll_uuid) OR (tag_name IS NOT NULL AND tag = lower(tag_name)));
+
+  INSERT INTO vote_delegations (delegator_id, delegate_id, delegate_email, poll_id, tag)
+  VALUES (
+    auth.uid(),
+    delegate_uuid,
+    lower(delegate_address),
+    CASE WHEN tag_name IS NULL THEN poll_uuid END,
+    lower(tag_name)
+  )
+  RETURNING id INTO delegation_id;
+
+  RETURN delegation_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function returning the votes delegated to each option of a closed poll
+-- Counts the delegations that stood when the poll closed. A delegator who voted
+-- directly keeps their own vote; any other follows their chain of delegates to
+-- the first one who voted, and adds one vote to that ballot's choices. Chains
+-- that end without a ballot or run in a cycle count for nobody. On invite-only
+-- polls only invitees' delegations count. The row without an option counts the
+-- delegators represented. Counts nothing while the poll is open.
+CREATE OR REPLACE FUNCTION get_delegated_tally(poll_uuid UUID)
+RETURNS TABLE(option_id UUID, votes BIGINT) AS $$
+  WITH RECURSIVE closing AS (
+    SELECT polls.id, polls.is_invite_only, LEAST(polls.closed_at, polls.expires_at) AS closed_at
+    FROM polls
+    WHERE polls.id = poll_uuid
+    AND polls.allow_delegation
+    AND LEAST(polls.closed_at, polls.expires_at) <= NOW()
+    AND can_view_poll_results(poll_uuid)
+  ),
+  edges AS (
+    SELECT delegations.*
+    FROM closing, get_poll_delegations(closing.id, closing.closed_at) AS delegations
+  ),
+  ballots AS (
+    SELECT votes.id AS vote_id, votes.user_id
+    FROM votes
+    WHERE votes.poll_id = poll_uuid AND votes.user_id IS NOT NULL
+  ),
+  chains(delegator_id, user_id, path) AS (
+    SELECT edges.delegator_id, edges.delegate_id, ARRAY[edges.delegator_id]
+    FROM edges, closing
+    WHERE NOT EXISTS (SELECT 1 FROM ballots WHERE ballots.user_id = edges.delegator_id)
+    AND (NOT closing.is_invite_only OR is_poll_invitee(poll_uuid, edges.delegator_id))
+    UNION ALL
+    SELECT chains.delegator_id, edges.delegate_id, chains.path || chains.user_id
+    FROM chains
+    JOIN edges ON edges.delegator_id = chains.user_id
+    WHERE NOT EXISTS (SELECT 1 FROM ballots WHERE ballots.user_id = chains.user_id)
+    AND NOT chains.user_id = ANY(chains.path)
+  )
+  SELECT counted.option_id, COUNT(DISTINCT chains.delegator_id)
+  FROM chains
+  JOIN ballots ON ballots.user_id = chains.user_id
+  JOIN LATERAL (
+    SELECT vote_selections.option_id
+    FROM vote_selections
+    WHERE vote_selections.vote_id = ballots.vote_id
+    UNION
+    SELECT votes.option_id
+    FROM votes
+    WHERE votes.id = ballots.vote_id AND votes.option_id IS NOT NULL
+  ) counted ON TRUE
+  GROUP BY GROUPING SETS ((counted.option_id), ());
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
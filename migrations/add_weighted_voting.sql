@@ -0,0 +1,381 @@
+-- Migration adding weighted polls, where each eligible voter's ballot counts their weight
+-- Run this after add_ballot_codes.sql
+
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS is_weighted BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Weights belong to accounts, and a changed or withdrawn ballot would have to move its weight
+ALTER TABLE polls DROP CONSTRAINT IF EXISTS polls_weighted_check;
+ALTER TABLE polls ADD CONSTRAINT polls_weighted_check
+  CHECK (
+    NOT is_weighted
+    OR (
+      poll_type IN ('single', 'multiple', 'approval')
+      AND survey_id IS NULL
+      AND NOT is_quiz
+      AND NOT allow_anonymous
+      AND NOT is_secret
+      AND NOT allow_vote_changes
+    )
+  );
+
+COMMENT ON COLUMN polls.is_weighted IS 'Ballots count the voter''s weight from poll_voter_weights; voters without one cannot vote.';
+
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS weight INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_weight_check;
+ALTER TABLE votes ADD CONSTRAINT votes_weight_check CHECK (weight >= 1);
+
+COMMENT ON COLUMN votes.weight IS 'What the ballot adds to each option it counts for; set by the votes_set_weight trigger.';
+
+-- Weights of the eligible voters of weighted polls, by user ID or by email address
+-- Fixed once the poll opens (see reject_weight_change_after_opening).
+CREATE TABLE IF NOT EXISTS poll_voter_weights (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- NULL on weights by email
+  email TEXT, -- Lower case; NULL on weights by user ID
+  weight INTEGER NOT NULL, -- Shares, delegates represented, ...; MAX_VOTER_WEIGHT in lib/voter-weights.ts
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT poll_voter_weights_voter_check CHECK (user_id IS NOT NULL OR email IS NOT NULL),
+  CONSTRAINT poll_voter_weights_email_check CHECK (email IS NULL OR email = lower(email)),
+  CONSTRAINT poll_voter_weights_weight_check CHECK (weight BETWEEN 1 AND 1000000)
+);
+
+CREATE INDEX IF NOT EXISTS idx_poll_voter_weights_poll_id ON poll_voter_weights(poll_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_poll_voter_weights_poll_user ON poll_voter_weights(poll_id, user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_poll_voter_weights_poll_email ON poll_voter_weights(poll_id, email) WHERE email IS NOT NULL;
+
+ALTER TABLE poll_voter_weights ENABLE ROW LEVEL SECURITY;
+
+-- Poll creators set the weights of their polls' voters; voters see their own weight
+CREATE POLICY "Poll creators can view voter weights on their polls"
+  ON poll_voter_weights FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_voter_weights.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can set voter weights on their polls"
+  ON poll_voter_weights FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_voter_weights.poll_id AND polls.user_id = auth.uid() AND polls.is_weighted
+    )
+  );
+
+CREATE POLICY "Poll creators can change voter weights on their polls"
+  ON poll_voter_weights FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_voter_weights.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can remove voter weights on their polls"
+  ON poll_voter_weights FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_voter_weights.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view their own voter weights"
+  ON poll_voter_weights FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR email = lower(auth.jwt() ->> 'email'));
+
+-- Function returning a user's weight on a weighted poll, or NULL when they have none
+-- A weight set by user ID wins over one set for the user's email address.
+CREATE OR REPLACE FUNCTION get_voter_weight(poll_uuid UUID, user_uuid UUID)
+RETURNS INTEGER AS $$
+  SELECT poll_voter_weights.weight
+  FROM poll_voter_weights
+  WHERE poll_voter_weights.poll_id = poll_uuid
+  AND (
+    poll_voter_weights.user_id = user_uuid
+    OR poll_voter_weights.email = (SELECT lower(users.email) FROM auth.users WHERE users.id = user_uuid)
+  )
+  ORDER BY poll_voter_weights.user_id IS NULL
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function setting the weight of a ballot as it is cast
+-- 1 on ordinary polls; on weighted polls the voter's weight, and voters
+-- without one are turned away. Ballots can't choose their own weight.
+CREATE OR REPLACE FUNCTION set_ballot_weight()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM polls WHERE id = NEW.poll_id AND is_weighted) THEN
+    NEW.weight := get_voter_weight(NEW.poll_id, NEW.user_id);
+    IF NEW.weight IS NULL THEN
+      RAISE EXCEPTION 'You are not an eligible voter on this poll';
+    END IF;
+  ELSE
+    NEW.weight := 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS votes_set_weight ON votes;
+CREATE TRIGGER votes_set_weight
+  BEFORE INSERT ON votes
+  FOR EACH ROW EXECUTE FUNCTION set_ballot_weight();
+
+-- Function fixing voter weights once their poll opens
+-- A scheduled poll opens at opens_at; a poll open from the start takes weights
+-- until its first ballot, so the creator can finish setting it up.
+CREATE OR REPLACE FUNCTION reject_weight_change_after_opening()
+RETURNS TRIGGER AS $$
+DECLARE
+  poll_record RECORD;
+BEGIN
+  SELECT opens_at, voter_count INTO poll_record
+  FROM polls
+  WHERE id = COALESCE(NEW.poll_id, OLD.poll_id);
+
+  -- Deleting the poll takes its weights with it
+  IF NOT FOUND THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF (poll_record.opens_at IS NOT NULL AND poll_record.opens_at <= NOW())
+    OR (poll_record.opens_at IS NULL AND poll_record.voter_count > 0) THEN
+    RAISE EXCEPTION 'Voter weights are fixed once the poll has opened';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS poll_voter_weights_reject_after_opening ON poll_voter_weights;
+CREATE TRIGGER poll_voter_weights_reject_after_opening
+  BEFORE INSERT OR UPDATE OR DELETE ON poll_voter_weights
+  FOR EACH ROW EXECUTE FUNCTION reject_weight_change_after_opening();
+
+-- Function returning how many ballots chose each option of a poll
+-- poll_options.votes holds the weighted totals; this is the headcount beside them.
+CREATE OR REPLACE FUNCTION get_option_headcounts(poll_uuid UUID)
+RETURNS TABLE(option_id UUID, voters BIGINT) AS $$
+  SELECT counted.option_id, COUNT(DISTINCT votes.id)
+  FROM votes
+  JOIN LATERAL (
+    SELECT vote_selections.option_id
+    FROM vote_selections
+    WHERE vote_selections.vote_id = votes.id
+    UNION
+    SELECT votes.option_id
+    WHERE votes.option_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM vote_selections WHERE vote_selections.vote_id = votes.id)
+  ) counted ON TRUE
+  WHERE votes.poll_id = poll_uuid
+  AND can_view_poll_results(poll_uuid)
+  GROUP BY counted.option_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The voting functions add the ballot's weight instead of 1
+-- Function to increment votes for a poll option
+-- Secret ballots go through increment_votes, which splits them from the voter.
+-- The option gains the ballot's weight, set by the votes_set_weight trigger.
+CREATE OR REPLACE FUNCTION increment_vote(option_id UUID, poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  ballot_weight INTEGER;
+BEGIN
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = increment_vote.poll_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.is_secret THEN
+    RAISE EXCEPTION 'Secret ballots must be cast with increment_votes';
+  END IF;
+
+  IF poll_record.opens_at IS NOT NULL AND poll_record.opens_at > NOW() THEN
+    RAISE EXCEPTION 'Poll is not open yet';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  -- Insert the vote record
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (user_id, poll_id, option_id)
+  RETURNING weight INTO ballot_weight;
+  
+  -- Increment the votes count for the option
+  UPDATE poll_options
+  SET votes = votes + ballot_weight
+  WHERE id = option_id;
+  
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function recording a choice ballot for a user or a voter token
+-- Secret ballots are split into the votes row and an unlinked secret_ballots row.
+-- Locks the poll row so the selection limits are enforced in the same transaction as the insert.
+-- On ranked polls option_ids is in preference order and poll_options.votes counts first preferences.
+-- On weighted polls each chosen option gains the ballot's weight instead of 1.
+-- Not callable through the API: increment_votes and cast_anonymous_ballot check the voter first.
+CREATE OR REPLACE FUNCTION record_ballot(option_ids UUID[], poll_id UUID, user_id UUID, voter_token UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  selection_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+  ballot_weight INTEGER;
+BEGIN
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = record_ballot.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.opens_at IS NOT NULL AND poll_record.opens_at > NOW() THEN
+    RAISE EXCEPTION 'Poll is not open yet';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type = 'score' THEN
+    RAISE EXCEPTION 'Score every option';
+  END IF;
+
+  IF poll_record.poll_type = 'schedule' THEN
+    RAISE EXCEPTION 'Answer every time slot';
+  END IF;
+
+  selection_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF selection_count <> (SELECT COUNT(DISTINCT selected) FROM unnest(option_ids) AS selected) THEN
+    RAISE EXCEPTION 'The same option cannot be selected twice';
+  END IF;
+
+  IF poll_record.poll_type = 'single' AND selection_count <> 1 THEN
+    RAISE EXCEPTION 'This poll accepts exactly one option';
+  END IF;
+
+  IF selection_count < poll_record.min_selections THEN
+    RAISE EXCEPTION 'Select at least % option(s)', poll_record.min_selections;
+  END IF;
+
+  IF poll_record.max_selections IS NOT NULL AND selection_count > poll_record.max_selections THEN
+    RAISE EXCEPTION 'Select at most % option(s)', poll_record.max_selections;
+  END IF;
+
+  SELECT COUNT(*) INTO valid_option_count
+  FROM poll_options
+  WHERE poll_options.id = ANY(option_ids)
+  AND poll_options.poll_id = record_ballot.poll_id;
+
+  IF valid_option_count <> selection_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  -- A secret ballot only records that the voter took part; the choice goes to
+  -- secret_ballots, with nothing linking it back to the votes row
+  IF poll_record.is_secret THEN
+    INSERT INTO votes (user_id, voter_token, poll_id)
+    VALUES (record_ballot.user_id, record_ballot.voter_token, record_ballot.poll_id);
+
+    INSERT INTO secret_ballots (poll_id, option_ids)
+    VALUES (record_ballot.poll_id, option_ids);
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = ANY(CASE WHEN poll_record.poll_type = 'ranked' THEN option_ids[1:1] ELSE option_ids END);
+
+    RETURN;
+  END IF;
+
+  INSERT INTO votes (user_id, voter_token, poll_id, option_id)
+  VALUES (
+    record_ballot.user_id,
+    record_ballot.voter_token,
+    record_ballot.poll_id,
+    CASE WHEN selection_count = 1 THEN option_ids[1] END
+  )
+  RETURNING id, weight INTO new_vote_id, ballot_weight;
+
+  IF poll_record.poll_type = 'ranked' THEN
+    INSERT INTO vote_selections (vote_id, poll_id, option_id, rank)
+    SELECT new_vote_id, record_ballot.poll_id, ranking.selected, ranking.position
+    FROM unnest(option_ids) WITH ORDINALITY AS ranking(selected, position);
+
+    UPDATE poll_options
+    SET votes = votes + ballot_weight
+    WHERE poll_options.id = option_ids[1];
+  ELSE
+    INSERT INTO vote_selections (vote_id, poll_id, option_id)
+    SELECT new_vote_id, record_ballot.poll_id, selected
+    FROM unnest(option_ids) AS selected;
+
+    UPDATE poll_options
+    SET votes = votes + ballot_weight
+    WHERE poll_options.id = ANY(option_ids);
+  END IF;
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_ballot(UUID[], UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function undoing a ballot's counts and deleting it
+-- Ranked ballots only counted their first choice, and weighted ballots their
+-- weight on each option. Not callable through the API:
+-- change_vote and retract_vote check the caller and the poll before using it.
+CREATE OR REPLACE FUNCTION remove_ballot(vote_uuid UUID)
+RETURNS VOID AS $$
+DECLARE
+  ballot_weight INTEGER;
+BEGIN
+  SELECT weight INTO ballot_weight FROM votes WHERE votes.id = vote_uuid;
+
+  IF EXISTS (SELECT 1 FROM vote_selections WHERE vote_selections.vote_id = vote_uuid) THEN
+    UPDATE poll_options
+    SET votes = votes - ballot_weight
+    WHERE poll_options.id IN (
+      SELECT vote_selections.option_id
+      FROM vote_selections
+      WHERE vote_selections.vote_id = vote_uuid
+      AND (vote_selections.rank IS NULL OR vote_selections.rank = 1)
+    );
+  ELSE
+    UPDATE poll_options
+    SET votes = votes - ballot_weight
+    WHERE poll_options.id = (SELECT votes.option_id FROM votes WHERE votes.id = vote_uuid);
+  END IF;
+
+  -- vote_selections cascade, and the trigger lowers polls.voter_count
+  DELETE FROM votes WHERE votes.id = vote_uuid;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION remove_ballot(UUID) FROM PUBLIC, anon, authenticated;
@@ -1,5 +1,7 @@
 import type { NextConfig } from "next";
 
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+
 const nextConfig: NextConfig = {
   /* config options here */
   reactStrictMode: true,
@@ -7,6 +9,12 @@ const nextConfig: NextConfig = {
     // Remove all console logs in production
     removeConsole: process.env.NODE_ENV === "production",
   },
+  images: {
+    // Option images are served from the project's public storage buckets
+    remotePatterns: supabaseUrl
+      ? [new URL("/storage/v1/object/public/**", supabaseUrl)]
+      : [],
+  },
 };
 
 export default nextConfig;
@@ -2,55 +2,1841 @@
 
 -- Users table is handled by Supabase Auth
 
+-- Surveys group several polls into an ordered list of questions answered together
+CREATE TABLE surveys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  title TEXT NOT NULL,
+  description TEXT,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_surveys_user_id ON surveys(user_id);
+
 -- Polls table to store poll questions
 CREATE TABLE polls (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   question TEXT NOT NULL,
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  opens_at TIMESTAMP WITH TIME ZONE, -- NULL opens the poll as soon as it is created
   expires_at TIMESTAMP WITH TIME ZONE,
+  -- 'single', 'multiple' (choose between min_selections and max_selections options)
+  -- 'ranked' (options in order of preference, counted by instant runoff),
+  -- 'approval' (any number of options), 'score' (every option rated 0-5 stars),
+  -- 'text' (a written response, no options), 'schedule' (every time slot
+  -- answered yes, if need be or no) or 'budget' (points_budget points spread
+  -- across the options)
+  poll_type TEXT NOT NULL DEFAULT 'single',
+  min_selections INTEGER NOT NULL DEFAULT 1,
+  max_selections INTEGER DEFAULT 1, -- NULL means any number of options
+  voter_count INTEGER NOT NULL DEFAULT 0, -- Ballots cast, maintained by trigger
+  survey_id UUID REFERENCES surveys(id) ON DELETE CASCADE, -- NULL for standalone polls
+  survey_position INTEGER, -- 1-based position of the question within its survey
+  is_quiz BOOLEAN NOT NULL DEFAULT FALSE, -- Quiz questions have an answer key in quiz_answer_keys
+  time_zone TEXT, -- IANA zone the time slots of a scheduling poll were proposed in
+  points_budget INTEGER, -- Points each voter spreads across the options of a budget poll; NULL on other polls
+  allow_vote_changes BOOLEAN NOT NULL DEFAULT FALSE, -- Voters may change or withdraw their vote until expires_at
+  allow_anonymous BOOLEAN NOT NULL DEFAULT FALSE, -- Visitors without an account may vote with a voter token
+  is_secret BOOLEAN NOT NULL DEFAULT FALSE, -- Secret ballot: choices are kept in secret_ballots, unlinked from the voter
+  results_visibility TEXT NOT NULL DEFAULT 'always', -- When voters see results: 'always', 'after_vote', 'after_close' or 'creator'
+  close_after_votes INTEGER, -- Auto-close once this many ballots have been cast
+  eligible_voters INTEGER, -- Size of the electorate quorum_percent is measured against
+  quorum_percent INTEGER, -- Auto-close once this percentage of eligible_voters have voted
+  close_lead_margin INTEGER, -- Auto-close once one option leads the runner-up by this many votes
+  closed_at TIMESTAMP WITH TIME ZONE, -- When the poll closed before its expiry; NULL while it is open
+  close_reason TEXT, -- Why the poll closed: 'vote_cap', 'quorum', 'lead_margin' or 'manual' (closed by its creator)
+  is_invite_only BOOLEAN NOT NULL DEFAULT FALSE, -- Only users with an invite in poll_invites may vote
+  has_passcode BOOLEAN NOT NULL DEFAULT FALSE, -- The poll has a passcode in poll_passcodes; maintained by trigger
+  is_weighted BOOLEAN NOT NULL DEFAULT FALSE, -- Ballots count the voter's weight from poll_voter_weights
+  allow_delegation BOOLEAN NOT NULL DEFAULT FALSE, -- Voters may delegate their vote (see vote_delegations)
+  tags TEXT[] NOT NULL DEFAULT '{}', -- Lower case; a delegation for a tag covers every poll with it
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT polls_poll_type_check CHECK (poll_type IN ('single', 'multiple', 'ranked', 'approval', 'score', 'text', 'schedule', 'budget')),
+  CONSTRAINT polls_selection_limits_check
+    CHECK (min_selections >= 1 AND (max_selections IS NULL OR max_selections >= min_selections)),
+  CONSTRAINT polls_survey_position_check
+    CHECK ((survey_id IS NULL AND survey_position IS NULL) OR (survey_id IS NOT NULL AND survey_position >= 1)),
+  CONSTRAINT polls_is_quiz_check CHECK (NOT is_quiz OR poll_type IN ('single', 'multiple', 'approval')),
+  CONSTRAINT polls_schedule_check
+    CHECK (poll_type <> 'schedule' OR (survey_id IS NULL AND time_zone IS NOT NULL)),
+  CONSTRAINT polls_budget_check
+    CHECK (
+      (poll_type = 'budget') = (points_budget IS NOT NULL)
+      AND (points_budget IS NULL OR (points_budget BETWEEN 1 AND 100 AND survey_id IS NULL))
+    ),
+  CONSTRAINT polls_vote_changes_check
+    CHECK (NOT allow_vote_changes OR (poll_type IN ('single', 'multiple', 'ranked', 'approval') AND survey_id IS NULL AND NOT is_quiz)),
+  CONSTRAINT polls_anonymous_check
+    CHECK (NOT allow_anonymous OR (poll_type IN ('single', 'multiple', 'ranked', 'approval') AND survey_id IS NULL AND NOT is_quiz)),
+  CONSTRAINT polls_secret_check
+    CHECK (NOT is_secret OR (poll_type IN ('single', 'multiple', 'ranked', 'approval') AND survey_id IS NULL AND NOT is_quiz AND NOT allow_vote_changes)),
+  CONSTRAINT polls_results_visibility_check
+    CHECK (results_visibility IN ('always', 'after_vote', 'after_close', 'creator')),
+  CONSTRAINT polls_opens_before_expiry_check CHECK (opens_at IS NULL OR expires_at IS NULL OR opens_at < expires_at),
+  CONSTRAINT polls_auto_close_check
+    CHECK (
+      (close_after_votes IS NULL OR close_after_votes >= 1)
+      AND (eligible_voters IS NULL OR eligible_voters >= 1)
+      AND (quorum_percent IS NULL OR (quorum_percent BETWEEN 1 AND 100 AND eligible_voters IS NOT NULL))
+      AND (close_lead_margin IS NULL OR (close_lead_margin >= 1 AND poll_type IN ('single', 'multiple', 'ranked', 'approval')))
+      AND (survey_id IS NULL OR (close_after_votes IS NULL AND quorum_percent IS NULL AND close_lead_margin IS NULL))
+    ),
+  CONSTRAINT polls_close_reason_check
+    CHECK (
+      (closed_at IS NULL AND close_reason IS NULL)
+      OR (closed_at IS NOT NULL AND close_reason IN ('vote_cap', 'quorum', 'lead_margin', 'manual'))
+    ),
+  CONSTRAINT polls_invite_only_check
+    CHECK (NOT is_invite_only OR (survey_id IS NULL AND NOT allow_anonymous)),
+  CONSTRAINT polls_passcode_check CHECK (NOT has_passcode OR survey_id IS NULL),
+  CONSTRAINT polls_weighted_check
+    CHECK (
+      NOT is_weighted
+      OR (
+        poll_type IN ('single', 'multiple', 'approval')
+        AND survey_id IS NULL
+        AND NOT is_quiz
+        AND NOT allow_anonymous
+        AND NOT is_secret
+        AND NOT allow_vote_changes
+      )
+    ),
+  CONSTRAINT polls_delegation_check
+    CHECK (
+      NOT allow_delegation
+      OR (
+        poll_type IN ('single', 'multiple', 'approval')
+        AND survey_id IS NULL
+        AND NOT is_quiz
+        AND NOT allow_anonymous
+        AND NOT is_secret
+        AND NOT is_weighted
+      )
+    )
 );
 
+CREATE INDEX idx_polls_tags ON polls USING GIN (tags);
+CREATE UNIQUE INDEX idx_polls_survey_position ON polls(survey_id, survey_position) WHERE survey_id IS NOT NULL;
+
 -- Poll options table to store the choices for each poll
 CREATE TABLE poll_options (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
   option_text TEXT NOT NULL,
-  votes INTEGER DEFAULT 0,
+  votes INTEGER DEFAULT 0, -- First preferences on ranked polls, total stars on score polls, yes answers on scheduling polls, total points on budget polls
+  starts_at TIMESTAMP WITH TIME ZONE, -- Time slot on scheduling polls; NULL on other polls
+  ends_at TIMESTAMP WITH TIME ZONE,
+  image_path TEXT, -- Object name in the poll-images storage bucket; NULL when the option has no image
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT poll_options_time_slot_check
+    CHECK (ends_at IS NULL OR (starts_at IS NOT NULL AND ends_at > starts_at))
+);
+
+-- Votes table to track who voted for which option
+-- This prevents users from voting multiple times on the same poll
+CREATE TABLE votes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- NULL on anonymous ballots
+  voter_token UUID, -- Voter token of an anonymous ballot, or the ID of the ballot code it was cast with; NULL on ballots cast with an account
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  option_id UUID REFERENCES poll_options(id) ON DELETE CASCADE, -- NULL for multi-select ballots
+  weight INTEGER NOT NULL DEFAULT 1 CHECK (weight >= 1), -- Added to each option the ballot counts for; set by trigger
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, poll_id), -- Ensures a user can only vote once per poll
+  CONSTRAINT votes_voter_token_poll_id_key UNIQUE (voter_token, poll_id), -- ...and a voter token too
+  CONSTRAINT votes_voter_check CHECK ((user_id IS NULL) <> (voter_token IS NULL))
+);
+
+-- Options chosen on a multi-select, ranked, approval, score, scheduling or budget ballot
+CREATE TABLE vote_selections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  vote_id UUID NOT NULL REFERENCES votes(id) ON DELETE CASCADE,
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES poll_options(id) ON DELETE CASCADE,
+  rank INTEGER CHECK (rank >= 1), -- 1 = first choice; NULL on unranked ballots
+  score INTEGER CHECK (score BETWEEN 0 AND 5), -- Star rating on score ballots
+  availability TEXT CHECK (availability IN ('yes', 'maybe', 'no')), -- Answer on scheduling ballots
+  points INTEGER CHECK (points >= 1), -- Points given on budget ballots; options given none have no row
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(vote_id, option_id),
+  CONSTRAINT vote_selections_vote_id_rank_key UNIQUE (vote_id, rank)
+);
+
+-- The choices of secret ballots, with no voter, vote or timestamp to link them back
+-- to the votes row recording who took part
+CREATE TABLE secret_ballots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(), -- Random, so the order of IDs says nothing about when a ballot was cast
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  option_ids UUID[] NOT NULL -- In preference order on ranked polls
+);
+
+CREATE INDEX idx_secret_ballots_poll_id ON secret_ballots(poll_id);
+
+-- Invitations to invite-only polls, by user ID or by email address
+-- An email invite applies to whichever account signs in with that address.
+CREATE TABLE poll_invites (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- NULL on invites by email
+  email TEXT, -- Lower case; NULL on invites by user ID
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'voted' or 'revoked'
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT poll_invites_invitee_check CHECK (user_id IS NOT NULL OR email IS NOT NULL),
+  CONSTRAINT poll_invites_email_check CHECK (email IS NULL OR email = lower(email)),
+  CONSTRAINT poll_invites_status_check CHECK (status IN ('pending', 'voted', 'revoked'))
+);
+
+CREATE INDEX idx_poll_invites_poll_id ON poll_invites(poll_id);
+CREATE UNIQUE INDEX idx_poll_invites_poll_user ON poll_invites(poll_id, user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_poll_invites_poll_email ON poll_invites(poll_id, email) WHERE email IS NOT NULL;
+
+-- The hashed passcode of a poll, kept out of polls, which everyone can read
+-- The application hashes the passcode with scrypt; the plain code is never stored.
+CREATE TABLE poll_passcodes (
+  poll_id UUID PRIMARY KEY REFERENCES polls(id) ON DELETE CASCADE,
+  passcode_hash TEXT NOT NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
--- Votes table to track who voted for which option
--- This prevents users from voting multiple times on the same poll
-CREATE TABLE votes (
-  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
-  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
-  option_id UUID NOT NULL REFERENCES poll_options(id) ON DELETE CASCADE,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  UNIQUE(user_id, poll_id) -- Ensures a user can only vote once per poll
-);
+-- Voters who entered the right passcode, by user ID or by voter token
+CREATE TABLE poll_passcode_unlocks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- NULL for visitors without an account
+  voter_token UUID, -- Voter token of a visitor without an account; NULL for users
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT poll_passcode_unlocks_voter_check CHECK ((user_id IS NULL) <> (voter_token IS NULL))
+);
+
+CREATE UNIQUE INDEX idx_poll_passcode_unlocks_poll_user
+  ON poll_passcode_unlocks(poll_id, user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_poll_passcode_unlocks_poll_token
+  ON poll_passcode_unlocks(poll_id, voter_token) WHERE voter_token IS NOT NULL;
+
+-- Ballot codes issued by a poll's creator, one vote each
+-- Codes are kept as issued so the creator can export and reprint them.
+CREATE TABLE ballot_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(), -- Stands in for the voter token on the ballot cast with the code
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  code TEXT NOT NULL, -- Upper case, as XXXX-XXXX
+  status TEXT NOT NULL DEFAULT 'unused', -- 'unused', 'spent' or 'revoked'
+  spent_at TIMESTAMP WITH TIME ZONE, -- When the code was used to vote; NULL on secret-ballot polls
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT ballot_codes_poll_code_key UNIQUE (poll_id, code),
+  CONSTRAINT ballot_codes_status_check CHECK (status IN ('unused', 'spent', 'revoked')),
+  CONSTRAINT ballot_codes_spent_check CHECK (status = 'spent' OR spent_at IS NULL)
+);
+
+CREATE INDEX idx_ballot_codes_poll_id ON ballot_codes(poll_id);
+
+-- Weights of the eligible voters of weighted polls, by user ID or by email address
+-- Fixed once the poll opens (see reject_weight_change_after_opening).
+CREATE TABLE poll_voter_weights (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- NULL on weights by email
+  email TEXT, -- Lower case; NULL on weights by user ID
+  weight INTEGER NOT NULL, -- Shares, delegates represented, ...; MAX_VOTER_WEIGHT in lib/voter-weights.ts
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT poll_voter_weights_voter_check CHECK (user_id IS NOT NULL OR email IS NOT NULL),
+  CONSTRAINT poll_voter_weights_email_check CHECK (email IS NULL OR email = lower(email)),
+  CONSTRAINT poll_voter_weights_weight_check CHECK (weight BETWEEN 1 AND 1000000)
+);
+
+CREATE INDEX idx_poll_voter_weights_poll_id ON poll_voter_weights(poll_id);
+CREATE UNIQUE INDEX idx_poll_voter_weights_poll_user ON poll_voter_weights(poll_id, user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_poll_voter_weights_poll_email ON poll_voter_weights(poll_id, email) WHERE email IS NOT NULL;
+
+-- Votes delegated by one user to another, for one poll or for every poll with a tag
+-- A delegation is taken back by setting revoked_at rather than deleting it, so
+-- the tally of a closed poll counts the delegations that stood when it closed.
+CREATE TABLE vote_delegations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  delegator_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  delegate_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- NULL on delegations by email
+  delegate_email TEXT, -- Lower case; NULL on delegations by user ID
+  poll_id UUID REFERENCES polls(id) ON DELETE CASCADE, -- NULL on delegations for a tag
+  tag TEXT, -- Lower case; NULL on delegations for one poll
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  revoked_at TIMESTAMP WITH TIME ZONE, -- When the delegator took the delegation back
+  CONSTRAINT vote_delegations_delegate_check CHECK ((delegate_id IS NULL) <> (delegate_email IS NULL)),
+  CONSTRAINT vote_delegations_scope_check CHECK ((poll_id IS NULL) <> (tag IS NULL)),
+  CONSTRAINT vote_delegations_self_check CHECK (delegate_id IS NULL OR delegate_id <> delegator_id),
+  CONSTRAINT vote_delegations_email_check CHECK (delegate_email IS NULL OR delegate_email = lower(delegate_email)),
+  CONSTRAINT vote_delegations_tag_check CHECK (tag IS NULL OR tag = lower(tag))
+);
+
+CREATE INDEX idx_vote_delegations_poll_id ON vote_delegations(poll_id) WHERE poll_id IS NOT NULL;
+CREATE INDEX idx_vote_delegations_tag ON vote_delegations(tag) WHERE tag IS NOT NULL;
+-- One standing delegation per delegator and scope
+CREATE UNIQUE INDEX idx_vote_delegations_active_poll ON vote_delegations(delegator_id, poll_id)
+  WHERE poll_id IS NOT NULL AND revoked_at IS NULL;
+CREATE UNIQUE INDEX idx_vote_delegations_active_tag ON vote_delegations(delegator_id, tag)
+  WHERE tag IS NOT NULL AND revoked_at IS NULL;
+
+-- Written answers to text response polls, one per ballot in votes
+CREATE TABLE text_responses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  vote_id UUID NOT NULL UNIQUE REFERENCES votes(id) ON DELETE CASCADE,
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  response TEXT NOT NULL CHECK (char_length(response) BETWEEN 1 AND 500), -- SECURITY_CONFIG.TEXT_LIMITS.TEXT_RESPONSE_MAX
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- The answer key is kept out of poll_options, which everyone can read, so the
+-- correct answers stay hidden until a participant has answered
+CREATE TABLE quiz_answer_keys (
+  option_id UUID PRIMARY KEY REFERENCES poll_options(id) ON DELETE CASCADE,
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  is_correct BOOLEAN NOT NULL DEFAULT FALSE,
+  explanation TEXT CHECK (char_length(explanation) <= 300), -- Shown once answered; SECURITY_CONFIG.TEXT_LIMITS.QUIZ_EXPLANATION_MAX
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_quiz_answer_keys_poll_id ON quiz_answer_keys(poll_id);
+
+-- One row per respondent and survey: saved progress, then the completion record
+CREATE TABLE survey_responses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  survey_id UUID NOT NULL REFERENCES surveys(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  progress JSONB NOT NULL DEFAULT '{}'::jsonb, -- Draft answers keyed by question poll ID
+  current_question INTEGER NOT NULL DEFAULT 0 CHECK (current_question >= 0), -- 0-based
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE, -- NULL until the survey is submitted
+  UNIQUE(survey_id, user_id)
+);
+
+-- Branch rules: choosing option_id on question_id jumps to target_question_id,
+-- or ends the survey when it is NULL
+CREATE TABLE survey_branches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  survey_id UUID NOT NULL REFERENCES surveys(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES poll_options(id) ON DELETE CASCADE,
+  target_question_id UUID REFERENCES polls(id) ON DELETE CASCADE, -- NULL ends the survey
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(question_id, option_id)
+);
+
+CREATE INDEX idx_survey_branches_survey_id ON survey_branches(survey_id);
+
+-- Function to increment votes for a poll option
+-- Secret ballots go through increment_votes, which splits them from the voter.
+-- The option gains the ballot's weight, set by the votes_set_weight trigger.
+CREATE OR REPLACE FUNCTION increment_vote(option_id UUID, poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  ballot_weight INTEGER;
+BEGIN
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = increment_vote.poll_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.is_secret THEN
+    RAISE EXCEPTION 'Secret ballots must be cast with increment_votes';
+  END IF;
+
+  IF poll_record.opens_at IS NOT NULL AND poll_record.opens_at > NOW() THEN
+    RAISE EXCEPTION 'Poll is not open yet';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  -- Insert the vote record
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (user_id, poll_id, option_id)
+  RETURNING weight INTO ballot_weight;
+  
+  -- Increment the votes count for the option
+  UPDATE poll_options
+  SET votes = votes + ballot_weight
+  WHERE id = option_id;
+  
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Keep polls.voter_count in step with the votes table
+CREATE OR REPLACE FUNCTION sync_poll_voter_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE polls SET voter_count = voter_count + 1 WHERE id = NEW.poll_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE polls SET voter_count = GREATEST(voter_count - 1, 0) WHERE id = OLD.poll_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER votes_sync_poll_voter_count
+  AFTER INSERT OR DELETE ON votes
+  FOR EACH ROW EXECUTE FUNCTION sync_poll_voter_count();
+
+-- Function rejecting ballots on closed polls
+-- Runs before every ballot insert and locks the poll row, so a ballot waits for
+-- the transaction that may close the poll and is refused once it has.
+CREATE OR REPLACE FUNCTION reject_ballot_on_closed_poll()
+RETURNS TRIGGER AS $$
+DECLARE
+  poll_closed_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT closed_at INTO poll_closed_at
+  FROM polls
+  WHERE id = NEW.poll_id
+  FOR UPDATE;
+
+  IF poll_closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Poll is closed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER votes_reject_on_closed_poll
+  BEFORE INSERT ON votes
+  FOR EACH ROW EXECUTE FUNCTION reject_ballot_on_closed_poll();
+
+-- Function closing a poll once one of its auto-close rules is met
+-- Deferred to the end of the voting transaction, when voter_count and the
+-- option counts include the new ballot. The vote cap is checked first, then
+-- the quorum, then the lead margin (first preferences on ranked polls).
+CREATE OR REPLACE FUNCTION apply_auto_close()
+RETURNS TRIGGER AS $$
+DECLARE
+  poll_record RECORD;
+  leading_votes INTEGER;
+  runner_up_votes INTEGER;
+  reason TEXT;
+BEGIN
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE id = NEW.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR poll_record.closed_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF poll_record.close_after_votes IS NOT NULL
+    AND poll_record.voter_count >= poll_record.close_after_votes THEN
+    reason := 'vote_cap';
+  ELSIF poll_record.quorum_percent IS NOT NULL
+    AND poll_record.voter_count * 100 >= poll_record.quorum_percent * poll_record.eligible_voters THEN
+    reason := 'quorum';
+  ELSIF poll_record.close_lead_margin IS NOT NULL THEN
+    SELECT
+      COALESCE((array_agg(COALESCE(votes, 0) ORDER BY COALESCE(votes, 0) DESC))[1], 0),
+      COALESCE((array_agg(COALESCE(votes, 0) ORDER BY COALESCE(votes, 0) DESC))[2], 0)
+    INTO leading_votes, runner_up_votes
+    FROM poll_options
+    WHERE poll_options.poll_id = NEW.poll_id;
+
+    IF leading_votes - runner_up_votes >= poll_record.close_lead_margin THEN
+      reason := 'lead_margin';
+    END IF;
+  END IF;
+
+  IF reason IS NOT NULL THEN
+    UPDATE polls
+    SET closed_at = NOW(), close_reason = reason
+    WHERE id = NEW.poll_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE CONSTRAINT TRIGGER votes_apply_auto_close
+  AFTER INSERT ON votes
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION apply_auto_close();
+
+-- Function checking whether a user holds an invite to a poll that hasn't been revoked
+CREATE OR REPLACE FUNCTION is_poll_invitee(poll_uuid UUID, user_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM poll_invites
+    WHERE poll_invites.poll_id = poll_uuid
+    AND poll_invites.status <> 'revoked'
+    AND (
+      poll_invites.user_id = user_uuid
+      OR poll_invites.email = (SELECT lower(users.email) FROM auth.users WHERE users.id = user_uuid)
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function rejecting ballots from users without an invite to an invite-only poll
+-- The voting functions insert ballots past RLS, so the check runs as a trigger too.
+CREATE OR REPLACE FUNCTION reject_uninvited_ballot()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM polls WHERE id = NEW.poll_id AND is_invite_only)
+    AND (NEW.user_id IS NULL OR NOT is_poll_invitee(NEW.poll_id, NEW.user_id)) THEN
+    RAISE EXCEPTION 'You are not invited to vote on this poll';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER votes_reject_uninvited
+  BEFORE INSERT ON votes
+  FOR EACH ROW EXECUTE FUNCTION reject_uninvited_ballot();
+
+-- Function keeping the status of invites in step with the invitee's ballot
+-- Voting marks the invite as voted; withdrawing the ballot sets it back to pending.
+-- On secret-ballot polls updated_at is left alone, so it doesn't date the ballot.
+CREATE OR REPLACE FUNCTION sync_invite_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_secret_poll BOOLEAN;
+BEGIN
+  SELECT polls.is_secret INTO is_secret_poll
+  FROM polls
+  WHERE polls.id = COALESCE(NEW.poll_id, OLD.poll_id);
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.user_id IS NOT NULL THEN
+      UPDATE poll_invites
+      SET status = 'voted', updated_at = CASE WHEN is_secret_poll THEN updated_at ELSE NOW() END
+      WHERE poll_id = NEW.poll_id
+      AND status = 'pending'
+      AND (
+        user_id = NEW.user_id
+        OR email = (SELECT lower(users.email) FROM auth.users WHERE users.id = NEW.user_id)
+      );
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.user_id IS NOT NULL THEN
+    UPDATE poll_invites
+    SET status = 'pending', updated_at = CASE WHEN is_secret_poll THEN updated_at ELSE NOW() END
+    WHERE poll_id = OLD.poll_id
+    AND status = 'voted'
+    AND (
+      user_id = OLD.user_id
+      OR email = (SELECT lower(users.email) FROM auth.users WHERE users.id = OLD.user_id)
+    );
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER votes_sync_invite_status
+  AFTER INSERT OR DELETE ON votes
+  FOR EACH ROW EXECUTE FUNCTION sync_invite_status();
+
+-- Function keeping polls.has_passcode in step with poll_passcodes
+-- A new or removed passcode also forgets who had entered the old one.
+CREATE OR REPLACE FUNCTION sync_poll_has_passcode()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE polls SET has_passcode = TRUE WHERE id = NEW.poll_id;
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM poll_passcode_unlocks WHERE poll_id = OLD.poll_id;
+
+  IF TG_OP = 'DELETE' THEN
+    UPDATE polls SET has_passcode = FALSE WHERE id = OLD.poll_id;
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER poll_passcodes_sync_poll
+  AFTER INSERT OR UPDATE OF passcode_hash OR DELETE ON poll_passcodes
+  FOR EACH ROW EXECUTE FUNCTION sync_poll_has_passcode();
+
+-- Function checking whether a voter may vote on a poll as far as its passcode goes
+-- True when the poll has no passcode, the voter created it or has entered the passcode.
+CREATE OR REPLACE FUNCTION is_poll_unlocked(poll_uuid UUID, user_uuid UUID, token UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM polls
+    WHERE polls.id = poll_uuid
+    AND (
+      NOT polls.has_passcode
+      OR polls.user_id = user_uuid
+      OR EXISTS (
+        SELECT 1 FROM poll_passcode_unlocks
+        WHERE poll_passcode_unlocks.poll_id = poll_uuid
+        AND (poll_passcode_unlocks.user_id = user_uuid OR poll_passcode_unlocks.voter_token = token)
+      )
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function rejecting ballots from voters who haven't entered the poll's passcode
+-- The voting functions insert ballots past RLS, so the check runs as a trigger.
+CREATE OR REPLACE FUNCTION reject_locked_ballot()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT is_poll_unlocked(NEW.poll_id, NEW.user_id, NEW.voter_token) THEN
+    RAISE EXCEPTION 'This poll needs its passcode';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER votes_reject_locked
+  BEFORE INSERT ON votes
+  FOR EACH ROW EXECUTE FUNCTION reject_locked_ballot();
+
+-- Function returning a user's weight on a weighted poll, or NULL when they have none
+-- A weight set by user ID wins over one set for the user's email address.
+CREATE OR REPLACE FUNCTION get_voter_weight(poll_uuid UUID, user_uuid UUID)
+RETURNS INTEGER AS $$
+  SELECT poll_voter_weights.weight
+  FROM poll_voter_weights
+  WHERE poll_voter_weights.poll_id = poll_uuid
+  AND (
+    poll_voter_weights.user_id = user_uuid
+    OR poll_voter_weights.email = (SELECT lower(users.email) FROM auth.users WHERE users.id = user_uuid)
+  )
+  ORDER BY poll_voter_weights.user_id IS NULL
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function setting the weight of a ballot as it is cast
+-- 1 on ordinary polls; on weighted polls the voter's weight, and voters
+-- without one are turned away. Ballots can't choose their own weight.
+CREATE OR REPLACE FUNCTION set_ballot_weight()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM polls WHERE id = NEW.poll_id AND is_weighted) THEN
+    NEW.weight := get_voter_weight(NEW.poll_id, NEW.user_id);
+    IF NEW.weight IS NULL THEN
+      RAISE EXCEPTION 'You are not an eligible voter on this poll';
+    END IF;
+  ELSE
+    NEW.weight := 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER votes_set_weight
+  BEFORE INSERT ON votes
+  FOR EACH ROW EXECUTE FUNCTION set_ballot_weight();
+
+-- Function fixing voter weights once their poll opens
+-- A scheduled poll opens at opens_at; a poll open from the start takes weights
+-- until its first ballot, so the creator can finish setting it up.
+CREATE OR REPLACE FUNCTION reject_weight_change_after_opening()
+RETURNS TRIGGER AS $$
+DECLARE
+  poll_record RECORD;
+BEGIN
+  SELECT opens_at, voter_count INTO poll_record
+  FROM polls
+  WHERE id = COALESCE(NEW.poll_id, OLD.poll_id);
+
+  -- Deleting the poll takes its weights with it
+  IF NOT FOUND THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF (poll_record.opens_at IS NOT NULL AND poll_record.opens_at <= NOW())
+    OR (poll_record.opens_at IS NULL AND poll_record.voter_count > 0) THEN
+    RAISE EXCEPTION 'Voter weights are fixed once the poll has opened';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER poll_voter_weights_reject_after_opening
+  BEFORE INSERT OR UPDATE OR DELETE ON poll_voter_weights
+  FOR EACH ROW EXECUTE FUNCTION reject_weight_change_after_opening();
+
+-- Function returning the delegations that apply to a poll at a point in time
+-- One per delegator: a delegation for the poll itself wins over one for a tag,
+-- and of several tags the most recent delegation wins. Delegations by email
+-- resolve to the account with that address and are left out until it exists.
+CREATE OR REPLACE FUNCTION get_poll_delegations(poll_uuid UUID, as_of TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE(delegator_id UUID, delegate_id UUID) AS $$
+  SELECT applying.delegator_id, COALESCE(applying.delegate_id, users.id)
+  FROM (
+    SELECT DISTINCT ON (vote_delegations.delegator_id) vote_delegations.*
+    FROM vote_delegations
+    JOIN polls ON polls.id = poll_uuid
+    WHERE (vote_delegations.poll_id = poll_uuid OR vote_delegations.tag = ANY(polls.tags))
+    AND vote_delegations.created_at <= as_of
+    AND (vote_delegations.revoked_at IS NULL OR vote_delegations.revoked_at > as_of)
+    ORDER BY vote_delegations.delegator_id, vote_delegations.poll_id IS NULL, vote_delegations.created_at DESC
+  ) applying
+  LEFT JOIN auth.users AS users ON applying.delegate_id IS NULL AND lower(users.email) = applying.delegate_email
+  WHERE COALESCE(applying.delegate_id, users.id) IS NOT NULL
+  AND COALESCE(applying.delegate_id, users.id) <> applying.delegator_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Who delegated to whom is private; the tally and the delegation trigger use these
+REVOKE EXECUTE ON FUNCTION get_poll_delegations(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Function returning the standing delegations for a tag
+CREATE OR REPLACE FUNCTION get_tag_delegations(tag_name TEXT)
+RETURNS TABLE(delegator_id UUID, delegate_id UUID) AS $$
+  SELECT vote_delegations.delegator_id, COALESCE(vote_delegations.delegate_id, users.id)
+  FROM vote_delegations
+  LEFT JOIN auth.users AS users
+    ON vote_delegations.delegate_id IS NULL AND lower(users.email) = vote_delegations.delegate_email
+  WHERE vote_delegations.tag = tag_name
+  AND vote_delegations.revoked_at IS NULL
+  AND COALESCE(vote_delegations.delegate_id, users.id) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_tag_delegations(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Function checking a delegation as it is made or taken back
+-- A delegation can only be taken back, not changed; delegations for a poll are
+-- fixed once it has closed; and a delegation whose chain of delegates in the
+-- same scope leads back to the delegator is refused.
+CREATE OR REPLACE FUNCTION check_vote_delegation()
+RETURNS TRIGGER AS $$
+DECLARE
+  poll_record RECORD;
+  delegate_uuid UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' AND (
+    OLD.revoked_at IS NOT NULL
+    OR NEW.revoked_at IS NULL
+    OR NEW.delegator_id <> OLD.delegator_id
+    OR NEW.delegate_id IS DISTINCT FROM OLD.delegate_id
+    OR NEW.delegate_email IS DISTINCT FROM OLD.delegate_email
+    OR NEW.poll_id IS DISTINCT FROM OLD.poll_id
+    OR NEW.tag IS DISTINCT FROM OLD.tag
+  ) THEN
+    RAISE EXCEPTION 'A delegation can only be taken back';
+  END IF;
+
+  IF NEW.poll_id IS NOT NULL THEN
+    SELECT allow_delegation, closed_at, expires_at INTO poll_record
+    FROM polls
+    WHERE id = NEW.poll_id;
+
+    IF LEAST(poll_record.closed_at, poll_record.expires_at) <= NOW() THEN
+      RAISE EXCEPTION 'Delegations are fixed once the poll has closed';
+    END IF;
+
+    IF TG_OP = 'INSERT' AND NOT poll_record.allow_delegation THEN
+      RAISE EXCEPTION 'This poll does not allow delegation';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    RETURN NEW;
+  END IF;
+
+  delegate_uuid := COALESCE(
+    NEW.delegate_id,
+    (SELECT id FROM auth.users WHERE lower(email) = NEW.delegate_email LIMIT 1)
+  );
+
+  IF delegate_uuid = NEW.delegator_id THEN
+    RAISE EXCEPTION 'You cannot delegate your vote to yourself';
+  END IF;
+
+  -- Follow the delegate's own delegations; reaching the delegator closes a cycle.
+  -- The delegator's current delegation in this scope is being replaced, so it is left out.
+  IF delegate_uuid IS NOT NULL AND EXISTS (
+    WITH RECURSIVE edges AS (
+      SELECT * FROM get_poll_delegations(NEW.poll_id, NOW()) WHERE NEW.poll_id IS NOT NULL
+      UNION ALL
+      SELECT * FROM get_tag_delegations(NEW.tag) WHERE NEW.tag IS NOT NULL
+    ),
+    chain(user_id, path) AS (
+      SELECT delegate_uuid, ARRAY[delegate_uuid]
+      UNION ALL
+      SELECT edges.delegate_id, chain.path || edges.delegate_id
+      FROM chain
+      JOIN edges ON edges.delegator_id = chain.user_id
+      WHERE edges.delegator_id <> NEW.delegator_id
+      AND NOT edges.delegate_id = ANY(chain.path)
+    )
+    SELECT 1 FROM chain WHERE chain.user_id = NEW.delegator_id
+  ) THEN
+    RAISE EXCEPTION 'This delegation would create a cycle';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER vote_delegations_check
+  BEFORE INSERT OR UPDATE ON vote_delegations
+  FOR EACH ROW EXECUTE FUNCTION check_vote_delegation();
+
+-- Function recording a choice ballot for a user or a voter token
+-- Secret ballots are split into the votes row and an unlinked secret_ballots row.
+-- Locks the poll row so the selection limits are enforced in the same transaction as the insert.
+-- On ranked polls option_ids is in preference order and poll_options.votes counts first preferences.
+-- On weighted polls each chosen option gains the ballot's weight instead of 1.
+-- Not callable through the API: increment_votes and cast_anonymous_ballot check the voter first.
+CREATE OR REPLACE FUNCTION record_ballot(option_ids UUID[], poll_id UUID, user_id UUID, voter_token UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  selection_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+  ballot_weight INTEGER;
+BEGIN
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = record_ballot.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.opens_at IS NOT NULL AND poll_record.opens_at > NOW() THEN
+    RAISE EXCEPTION 'Poll is not open yet';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type = 'score' THEN
+    RAISE EXCEPTION 'Score every option';
+  END IF;
+
+  IF poll_record.poll_type = 'schedule' THEN
+    RAISE EXCEPTION 'Answer every time slot';
+  END IF;
+
+  IF poll_record.poll_type = 'budget' THEN
+    RAISE EXCEPTION 'Spread your points across the options';
+  END IF;
+
+  selection_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF selection_count <> (SELECT COUNT(DISTINCT selected) FROM unnest(option_ids) AS selected) THEN
+    RAISE EXCEPTION 'The same option cannot be selected twice';
+  END IF;
+
+  IF poll_record.poll_type = 'single' AND selection_count <> 1 THEN
+    RAISE EXCEPTION 'This poll accepts exactly one option';
+  END IF;
+
+  IF selection_count < poll_record.min_selections THEN
+    RAISE EXCEPTION 'Select at least % option(s)', poll_record.min_selections;
+  END IF;
+
+  IF poll_record.max_selections IS NOT NULL AND selection_count > poll_record.max_selections THEN
+    RAISE EXCEPTION 'Select at most % option(s)', poll_record.max_selections;
+  END IF;
+
+  SELECT COUNT(*) INTO valid_option_count
+  FROM poll_options
+  WHERE poll_options.id = ANY(option_ids)
+  AND poll_options.poll_id = record_ballot.poll_id;
+
+  IF valid_option_count <> selection_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  -- A secret ballot only records that the voter took part; the choice goes to
+  -- secret_ballots, with nothing linking it back to the votes row
+  IF poll_record.is_secret THEN
+    INSERT INTO votes (user_id, voter_token, poll_id)
+    VALUES (record_ballot.user_id, record_ballot.voter_token, record_ballot.poll_id);
+
+    INSERT INTO secret_ballots (poll_id, option_ids)
+    VALUES (record_ballot.poll_id, option_ids);
+
+    UPDATE poll_options
+    SET votes = votes + 1
+    WHERE poll_options.id = ANY(CASE WHEN poll_record.poll_type = 'ranked' THEN option_ids[1:1] ELSE option_ids END);
+
+    RETURN;
+  END IF;
+
+  INSERT INTO votes (user_id, voter_token, poll_id, option_id)
+  VALUES (
+    record_ballot.user_id,
+    record_ballot.voter_token,
+    record_ballot.poll_id,
+    CASE WHEN selection_count = 1 THEN option_ids[1] END
+  )
+  RETURNING id, weight INTO new_vote_id, ballot_weight;
+
+  IF poll_record.poll_type = 'ranked' THEN
+    INSERT INTO vote_selections (vote_id, poll_id, option_id, rank)
+    SELECT new_vote_id, record_ballot.poll_id, ranking.selected, ranking.position
+    FROM unnest(option_ids) WITH ORDINALITY AS ranking(selected, position);
+
+    UPDATE poll_options
+    SET votes = votes + ballot_weight
+    WHERE poll_options.id = option_ids[1];
+  ELSE
+    INSERT INTO vote_selections (vote_id, poll_id, option_id)
+    SELECT new_vote_id, record_ballot.poll_id, selected
+    FROM unnest(option_ids) AS selected;
+
+    UPDATE poll_options
+    SET votes = votes + ballot_weight
+    WHERE poll_options.id = ANY(option_ids);
+  END IF;
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_ballot(UUID[], UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to record a multi-select or ranked ballot for the signed-in caller
+CREATE OR REPLACE FUNCTION increment_votes(option_ids UUID[], poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF increment_votes.user_id IS NULL OR increment_votes.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  PERFORM record_ballot(option_ids, increment_votes.poll_id, increment_votes.user_id, NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to record the ballot of a visitor without an account
+-- Only the server calls this, with the service role, after checking the
+-- signature of the visitor's voter token cookie.
+CREATE OR REPLACE FUNCTION cast_anonymous_ballot(option_ids UUID[], poll_id UUID, voter_token UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF cast_anonymous_ballot.voter_token IS NULL THEN
+    RAISE EXCEPTION 'Voter token required';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM polls
+    WHERE polls.id = cast_anonymous_ballot.poll_id
+    AND polls.allow_anonymous
+  ) THEN
+    RAISE EXCEPTION 'This poll does not accept anonymous votes';
+  END IF;
+
+  PERFORM record_ballot(option_ids, cast_anonymous_ballot.poll_id, NULL, cast_anonymous_ballot.voter_token);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION cast_anonymous_ballot(UUID[], UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function recording the ballot cast with a ballot code
+-- The code row is locked and marked spent in the same transaction as the ballot,
+-- so a code can't be used twice and a rejected ballot leaves it unused. The
+-- code's ID is recorded as the ballot's voter token.
+-- Only the server calls this, with the service role, after rate limiting the client.
+CREATE OR REPLACE FUNCTION cast_code_ballot(option_ids UUID[], poll_id UUID, code TEXT)
+RETURNS VOID AS $$
+DECLARE
+  code_record RECORD;
+BEGIN
+  SELECT * INTO code_record
+  FROM ballot_codes
+  WHERE ballot_codes.poll_id = cast_code_ballot.poll_id
+  AND ballot_codes.code = cast_code_ballot.code
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This ballot code is not valid for this poll';
+  END IF;
+
+  IF code_record.status = 'spent' THEN
+    RAISE EXCEPTION 'This ballot code has already been used';
+  END IF;
+
+  IF code_record.status = 'revoked' THEN
+    RAISE EXCEPTION 'This ballot code has been revoked';
+  END IF;
+
+  -- On secret-ballot polls the time a code was spent could be matched against the counts
+  UPDATE ballot_codes
+  SET status = 'spent',
+    spent_at = CASE
+      WHEN EXISTS (SELECT 1 FROM polls WHERE polls.id = cast_code_ballot.poll_id AND polls.is_secret) THEN NULL
+      ELSE NOW()
+    END
+  WHERE id = code_record.id;
+
+  PERFORM record_ballot(option_ids, cast_code_ballot.poll_id, NULL, code_record.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION cast_code_ballot(UUID[], UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Function undoing a ballot's counts and deleting it
+-- Ranked ballots only counted their first choice, and weighted ballots their
+-- weight on each option. Not callable through the API:
+-- change_vote and retract_vote check the caller and the poll before using it.
+CREATE OR REPLACE FUNCTION remove_ballot(vote_uuid UUID)
+RETURNS VOID AS $$
+DECLARE
+  ballot_weight INTEGER;
+BEGIN
+  SELECT weight INTO ballot_weight FROM votes WHERE votes.id = vote_uuid;
+
+  IF EXISTS (SELECT 1 FROM vote_selections WHERE vote_selections.vote_id = vote_uuid) THEN
+    UPDATE poll_options
+    SET votes = votes - ballot_weight
+    WHERE poll_options.id IN (
+      SELECT vote_selections.option_id
+      FROM vote_selections
+      WHERE vote_selections.vote_id = vote_uuid
+      AND (vote_selections.rank IS NULL OR vote_selections.rank = 1)
+    );
+  ELSE
+    UPDATE poll_options
+    SET votes = votes - ballot_weight
+    WHERE poll_options.id = (SELECT votes.option_id FROM votes WHERE votes.id = vote_uuid);
+  END IF;
+
+  -- vote_selections cascade, and the trigger lowers polls.voter_count
+  DELETE FROM votes WHERE votes.id = vote_uuid;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION remove_ballot(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to replace the caller's ballot on a poll that allows vote changes
+-- The old ballot's counts move to the new one in a single transaction; the new
+-- ballot goes through increment_votes, so it meets the same selection rules.
+CREATE OR REPLACE FUNCTION change_vote(option_ids UUID[], poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  old_vote_id UUID;
+BEGIN
+  IF change_vote.user_id IS NULL OR change_vote.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = change_vote.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF NOT poll_record.allow_vote_changes THEN
+    RAISE EXCEPTION 'Votes on this poll cannot be changed';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  SELECT votes.id INTO old_vote_id
+  FROM votes
+  WHERE votes.poll_id = change_vote.poll_id
+  AND votes.user_id = change_vote.user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You have not voted on this poll';
+  END IF;
+
+  PERFORM remove_ballot(old_vote_id);
+  PERFORM increment_votes(option_ids, change_vote.poll_id, change_vote.user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to withdraw the caller's ballot on a poll that allows vote changes
+-- Changing a vote inserts a new ballot, which votes_reject_on_closed_poll refuses on a closed poll.
+CREATE OR REPLACE FUNCTION retract_vote(poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  old_vote_id UUID;
+BEGIN
+  IF retract_vote.user_id IS NULL OR retract_vote.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = retract_vote.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF NOT poll_record.allow_vote_changes THEN
+    RAISE EXCEPTION 'Votes on this poll cannot be changed';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Poll is closed';
+  END IF;
+
+  SELECT votes.id INTO old_vote_id
+  FROM votes
+  WHERE votes.poll_id = retract_vote.poll_id
+  AND votes.user_id = retract_vote.user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You have not voted on this poll';
+  END IF;
+
+  PERFORM remove_ballot(old_vote_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function checking whether the caller may see a poll's counts
+-- Follows results_visibility like canViewResults in lib/results-visibility.ts:
+-- the creator always may, voters once they have voted on after_vote polls and
+-- everyone once the poll has closed, unless only the creator may, and only once
+-- a passcode-protected poll is unlocked. Nobody, not even the creator, sees the
+-- counts of a secret-ballot poll before it closes: watching them change ballot
+-- by ballot could tell who chose what. The server, with the service role,
+-- checks visitors without an account before reading the counts itself.
+-- get_option_counts and the tally functions below check it.
+CREATE OR REPLACE FUNCTION can_view_poll_results(poll_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.jwt() ->> 'role', '') = 'service_role' OR EXISTS (
+    SELECT 1 FROM polls
+    WHERE polls.id = poll_uuid
+    AND (NOT polls.is_secret OR (polls.closed_at IS NOT NULL OR polls.expires_at <= NOW()))
+    AND is_poll_unlocked(poll_uuid, auth.uid(), NULL)
+    AND (
+      polls.user_id = auth.uid()
+      OR polls.results_visibility = 'always'
+      OR (polls.results_visibility IN ('after_vote', 'after_close')
+        AND (polls.closed_at IS NOT NULL OR polls.expires_at <= NOW()))
+      OR (polls.results_visibility = 'after_vote' AND EXISTS (
+        SELECT 1 FROM votes WHERE votes.poll_id = poll_uuid AND votes.user_id = auth.uid()
+      ))
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function returning the option counts of the given polls
+-- poll_options.votes can't be selected through the API; polls whose results
+-- the caller may not see yet are left out.
+CREATE OR REPLACE FUNCTION get_option_counts(poll_uuids UUID[])
+RETURNS TABLE(poll_id UUID, option_id UUID, votes INTEGER) AS $$
+  SELECT poll_options.poll_id, poll_options.id, COALESCE(poll_options.votes, 0)
+  FROM poll_options
+  WHERE poll_options.poll_id = ANY(poll_uuids)
+  AND can_view_poll_results(poll_options.poll_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function returning the counts of a poll split into anonymous and signed-in ballots
+-- Rows with an option_id count the ballots adding a vote to that option (first
+-- preferences on ranked polls); the row without one counts the ballots of that
+-- kind. Only the poll creator gets rows back, and none on secret-ballot polls,
+-- whose choices can't be told apart by voter.
+CREATE OR REPLACE FUNCTION get_vote_breakdown(poll_uuid UUID)
+RETURNS TABLE(anonymous BOOLEAN, option_id UUID, votes BIGINT) AS $$
+  SELECT votes.voter_token IS NOT NULL, counted.option_id, COUNT(DISTINCT votes.id)
+  FROM votes
+  JOIN polls ON polls.id = votes.poll_id
+  LEFT JOIN LATERAL (
+    SELECT vote_selections.option_id
+    FROM vote_selections
+    WHERE vote_selections.vote_id = votes.id
+    AND (vote_selections.rank IS NULL OR vote_selections.rank = 1)
+    UNION
+    SELECT votes.option_id
+    WHERE votes.option_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM vote_selections WHERE vote_selections.vote_id = votes.id)
+  ) counted ON TRUE
+  WHERE votes.poll_id = poll_uuid
+  AND polls.user_id = auth.uid()
+  AND NOT polls.is_secret
+  GROUP BY GROUPING SETS ((votes.voter_token IS NOT NULL, counted.option_id), (votes.voter_token IS NOT NULL));
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function returning how many ballots chose each option of a poll
+-- poll_options.votes holds the weighted totals of weighted polls and the points
+-- of budget polls; this is the headcount beside them.
+CREATE OR REPLACE FUNCTION get_option_headcounts(poll_uuid UUID)
+RETURNS TABLE(option_id UUID, voters BIGINT) AS $$
+  SELECT counted.option_id, COUNT(DISTINCT votes.id)
+  FROM votes
+  JOIN LATERAL (
+    SELECT vote_selections.option_id
+    FROM vote_selections
+    WHERE vote_selections.vote_id = votes.id
+    UNION
+    SELECT votes.option_id
+    WHERE votes.option_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM vote_selections WHERE vote_selections.vote_id = votes.id)
+  ) counted ON TRUE
+  WHERE votes.poll_id = poll_uuid
+  AND can_view_poll_results(poll_uuid)
+  GROUP BY counted.option_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function delegating the caller's vote, replacing their standing delegation in the same scope
+-- Runs as the caller, so the delegation policies apply. Both steps happen in one
+-- transaction: if the trigger refuses the new delegation, the old one stands.
+CREATE OR REPLACE FUNCTION delegate_vote(poll_uuid UUID, tag_name TEXT, delegate_uuid UUID, delegate_address TEXT)
+RETURNS UUID AS $$
+DECLARE
+  delegation_id UUID;
+BEGIN
+  UPDATE vote_delegations
+  SET revoked_at = NOW()
+  WHERE delegator_id = auth.uid()
+  AND revoked_at IS NULL
+  AND ((tag_name IS NULL AND poll_id = poll_uuid) OR (tag_name IS NOT NULL AND tag = lower(tag_name)));
+
+  INSERT INTO vote_delegations (delegator_id, delegate_id, delegate_email, poll_id, tag)
+  VALUES (
+    auth.uid(),
+    delegate_uuid,
+    lower(delegate_address),
+    CASE WHEN tag_name IS NULL THEN poll_uuid END,
+    lower(tag_name)
+  )
+  RETURNING id INTO delegation_id;
+
+  RETURN delegation_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function returning the votes delegated to each option of a closed poll
+-- Counts the delegations that stood when the poll closed. A delegator who voted
+-- directly keeps their own vote; any other follows their chain of delegates to
+-- the first one who voted, and adds one vote to that ballot's choices. Chains
+-- that end without a ballot or run in a cycle count for nobody. On invite-only
+-- polls only invitees' delegations count. The row without an option counts the
+-- delegators represented. Counts nothing while the poll is open.
+CREATE OR REPLACE FUNCTION get_delegated_tally(poll_uuid UUID)
+RETURNS TABLE(option_id UUID, votes BIGINT) AS $$
+  WITH RECURSIVE closing AS (
+    SELECT polls.id, polls.is_invite_only, LEAST(polls.closed_at, polls.expires_at) AS closed_at
+    FROM polls
+    WHERE polls.id = poll_uuid
+    AND polls.allow_delegation
+    AND LEAST(polls.closed_at, polls.expires_at) <= NOW()
+    AND can_view_poll_results(poll_uuid)
+  ),
+  edges AS (
+    SELECT delegations.*
+    FROM closing, get_poll_delegations(closing.id, closing.closed_at) AS delegations
+  ),
+  ballots AS (
+    SELECT votes.id AS vote_id, votes.user_id
+    FROM votes
+    WHERE votes.poll_id = poll_uuid AND votes.user_id IS NOT NULL
+  ),
+  chains(delegator_id, user_id, path) AS (
+    SELECT edges.delegator_id, edges.delegate_id, ARRAY[edges.delegator_id]
+    FROM edges, closing
+    WHERE NOT EXISTS (SELECT 1 FROM ballots WHERE ballots.user_id = edges.delegator_id)
+    AND (NOT closing.is_invite_only OR is_poll_invitee(poll_uuid, edges.delegator_id))
+    UNION ALL
+    SELECT chains.delegator_id, edges.delegate_id, chains.path || chains.user_id
+    FROM chains
+    JOIN edges ON edges.delegator_id = chains.user_id
+    WHERE NOT EXISTS (SELECT 1 FROM ballots WHERE ballots.user_id = chains.user_id)
+    AND NOT chains.user_id = ANY(chains.path)
+  )
+  SELECT counted.option_id, COUNT(DISTINCT chains.delegator_id)
+  FROM chains
+  JOIN ballots ON ballots.user_id = chains.user_id
+  JOIN LATERAL (
+    SELECT vote_selections.option_id
+    FROM vote_selections
+    WHERE vote_selections.vote_id = ballots.vote_id
+    UNION
+    SELECT votes.option_id
+    FROM votes
+    WHERE votes.id = ballots.vote_id AND votes.option_id IS NOT NULL
+  ) counted ON TRUE
+  GROUP BY GROUPING SETS ((counted.option_id), ());
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function returning the ranked ballots of a poll for the instant-runoff count
+-- Only the orderings are returned, never who cast them
+CREATE OR REPLACE FUNCTION get_ranked_ballots(poll_uuid UUID)
+RETURNS TABLE(ranking UUID[]) AS $$
+  SELECT array_agg(vote_selections.option_id ORDER BY vote_selections.rank)
+  FROM vote_selections
+  JOIN polls ON polls.id = vote_selections.poll_id
+  WHERE vote_selections.poll_id = poll_uuid
+  AND polls.poll_type = 'ranked'
+  AND can_view_poll_results(poll_uuid)
+  GROUP BY vote_selections.vote_id
+  UNION ALL
+  SELECT secret_ballots.option_ids
+  FROM secret_ballots
+  JOIN polls ON polls.id = secret_ballots.poll_id
+  WHERE secret_ballots.poll_id = poll_uuid
+  AND polls.poll_type = 'ranked'
+  AND can_view_poll_results(poll_uuid)
+  ORDER BY 1; -- By content, so the order says nothing about when secret ballots were cast
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function to record a score ballot: scores[i] is the rating for option_ids[i]
+-- Every option on the poll must be rated; poll_options.votes accumulates the stars
+CREATE OR REPLACE FUNCTION increment_scores(option_ids UUID[], scores INTEGER[], poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  rating_count INTEGER;
+  poll_option_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+BEGIN
+  IF increment_scores.user_id IS NULL OR increment_scores.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = increment_scores.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.opens_at IS NOT NULL AND poll_record.opens_at > NOW() THEN
+    RAISE EXCEPTION 'Poll is not open yet';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type <> 'score' THEN
+    RAISE EXCEPTION 'This poll does not accept scores';
+  END IF;
+
+  rating_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF rating_count <> COALESCE(array_length(scores, 1), 0) THEN
+    RAISE EXCEPTION 'Each option needs exactly one score';
+  END IF;
+
+  IF rating_count <> (SELECT COUNT(DISTINCT rated) FROM unnest(option_ids) AS rated) THEN
+    RAISE EXCEPTION 'The same option cannot be scored twice';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(scores) AS score WHERE score IS NULL OR score < 0 OR score > 5) THEN
+    RAISE EXCEPTION 'Scores must be whole numbers from 0 to 5';
+  END IF;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE poll_options.id = ANY(option_ids))
+  INTO poll_option_count, valid_option_count
+  FROM poll_options
+  WHERE poll_options.poll_id = increment_scores.poll_id;
+
+  IF valid_option_count <> rating_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  IF rating_count <> poll_option_count THEN
+    RAISE EXCEPTION 'Score every option';
+  END IF;
+
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (increment_scores.user_id, increment_scores.poll_id, NULL)
+  RETURNING id INTO new_vote_id;
+
+  INSERT INTO vote_selections (vote_id, poll_id, option_id, score)
+  SELECT new_vote_id, increment_scores.poll_id, rating.option_id, rating.score
+  FROM unnest(option_ids, scores) AS rating(option_id, score);
+
+  UPDATE poll_options
+  SET votes = votes + rating.score
+  FROM unnest(option_ids, scores) AS rating(option_id, score)
+  WHERE poll_options.id = rating.option_id;
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function returning ballot counts per option and score for the score aggregates
+-- Only the counts are returned, never who gave which rating
+CREATE OR REPLACE FUNCTION get_score_distribution(poll_uuid UUID)
+RETURNS TABLE(option_id UUID, score INTEGER, ballots BIGINT) AS $$
+  SELECT vote_selections.option_id, vote_selections.score, COUNT(*)
+  FROM vote_selections
+  JOIN polls ON polls.id = vote_selections.poll_id
+  WHERE vote_selections.poll_id = poll_uuid
+  AND polls.poll_type = 'score'
+  AND vote_selections.score IS NOT NULL
+  AND can_view_poll_results(poll_uuid)
+  GROUP BY vote_selections.option_id, vote_selections.score;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function to record a budget ballot: points[i] is the number of points given to option_ids[i]
+-- Options given no points are left out; the points given may not exceed the
+-- poll's points_budget. poll_options.votes accumulates the points.
+CREATE OR REPLACE FUNCTION allocate_points(option_ids UUID[], points INTEGER[], poll_id UUID, user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  allocation_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
+BEGIN
+  IF allocate_points.user_id IS NULL OR allocate_points.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = allocate_points.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.opens_at IS NOT NULL AND poll_record.opens_at > NOW() THEN
+    RAISE EXCEPTION 'Poll is not open yet';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type <> 'budget' THEN
+    RAISE EXCEPTION 'This poll does not accept points';
+  END IF;
+
+  allocation_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF allocation_count <> COALESCE(array_length(points, 1), 0) THEN
+    RAISE EXCEPTION 'Each option needs exactly one number of points';
+  END IF;
+
+  IF allocation_count = 0 THEN
+    RAISE EXCEPTION 'Give at least one point';
+  END IF;
+
+  IF allocation_count <> (SELECT COUNT(DISTINCT allocated) FROM unnest(option_ids) AS allocated) THEN
+    RAISE EXCEPTION 'The same option cannot be given points twice';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(points) AS given WHERE given IS NULL OR given < 1) THEN
+    RAISE EXCEPTION 'Points must be positive whole numbers';
+  END IF;
+
+  IF (SELECT SUM(given) FROM unnest(points) AS given) > poll_record.points_budget THEN
+    RAISE EXCEPTION 'You can give at most % points', poll_record.points_budget;
+  END IF;
+
+  SELECT COUNT(*) INTO valid_option_count
+  FROM poll_options
+  WHERE poll_options.poll_id = allocate_points.poll_id
+  AND poll_options.id = ANY(option_ids);
+
+  IF valid_option_count <> allocation_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (allocate_points.user_id, allocate_points.poll_id, NULL)
+  RETURNING id INTO new_vote_id;
 
--- Function to increment votes for a poll option
-CREATE OR REPLACE FUNCTION increment_vote(option_id UUID, poll_id UUID, user_id UUID)
+  INSERT INTO vote_selections (vote_id, poll_id, option_id, points)
+  SELECT new_vote_id, allocate_points.poll_id, allocation.option_id, allocation.points
+  FROM unnest(option_ids, points) AS allocation(option_id, points);
+
+  UPDATE poll_options
+  SET votes = votes + allocation.points
+  FROM unnest(option_ids, points) AS allocation(option_id, points)
+  WHERE poll_options.id = allocation.option_id;
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to record a scheduling ballot: availability[i] is the answer ('yes', 'maybe' or 'no') for option_ids[i]
+-- Every time slot on the poll must be answered; poll_options.votes counts the yes answers
+CREATE OR REPLACE FUNCTION submit_availability(option_ids UUID[], availability TEXT[], poll_id UUID, user_id UUID)
 RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  answer_count INTEGER;
+  poll_option_count INTEGER;
+  valid_option_count INTEGER;
+  new_vote_id UUID;
 BEGIN
-  -- Insert the vote record
+  IF submit_availability.user_id IS NULL OR submit_availability.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = submit_availability.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.opens_at IS NOT NULL AND poll_record.opens_at > NOW() THEN
+    RAISE EXCEPTION 'Poll is not open yet';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type <> 'schedule' THEN
+    RAISE EXCEPTION 'This poll does not accept availability';
+  END IF;
+
+  answer_count := COALESCE(array_length(option_ids, 1), 0);
+
+  IF answer_count <> COALESCE(array_length(submit_availability.availability, 1), 0) THEN
+    RAISE EXCEPTION 'Each time slot needs exactly one answer';
+  END IF;
+
+  IF answer_count <> (SELECT COUNT(DISTINCT answered) FROM unnest(option_ids) AS answered) THEN
+    RAISE EXCEPTION 'The same time slot cannot be answered twice';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(submit_availability.availability) AS answer
+    WHERE answer IS NULL OR answer NOT IN ('yes', 'maybe', 'no')
+  ) THEN
+    RAISE EXCEPTION 'Answer yes, if need be or no';
+  END IF;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE poll_options.id = ANY(option_ids))
+  INTO poll_option_count, valid_option_count
+  FROM poll_options
+  WHERE poll_options.poll_id = submit_availability.poll_id;
+
+  IF valid_option_count <> answer_count THEN
+    RAISE EXCEPTION 'Invalid option for this poll';
+  END IF;
+
+  IF answer_count <> poll_option_count THEN
+    RAISE EXCEPTION 'Answer every time slot';
+  END IF;
+
   INSERT INTO votes (user_id, poll_id, option_id)
-  VALUES (user_id, poll_id, option_id);
-  
-  -- Increment the votes count for the option
+  VALUES (submit_availability.user_id, submit_availability.poll_id, NULL)
+  RETURNING id INTO new_vote_id;
+
+  INSERT INTO vote_selections (vote_id, poll_id, option_id, availability)
+  SELECT new_vote_id, submit_availability.poll_id, answer.option_id, answer.availability
+  FROM unnest(option_ids, submit_availability.availability) AS answer(option_id, availability);
+
   UPDATE poll_options
   SET votes = votes + 1
-  WHERE id = option_id;
-  
+  FROM unnest(option_ids, submit_availability.availability) AS answer(option_id, availability)
+  WHERE poll_options.id = answer.option_id
+  AND answer.availability = 'yes';
+
   EXCEPTION
     WHEN unique_violation THEN
       RAISE EXCEPTION 'User has already voted on this poll';
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function returning ballot counts per time slot and answer for the results grid
+-- Only the counts are returned, never who gave which answer
+CREATE OR REPLACE FUNCTION get_availability_counts(poll_uuid UUID)
+RETURNS TABLE(option_id UUID, availability TEXT, ballots BIGINT) AS $$
+  SELECT vote_selections.option_id, vote_selections.availability, COUNT(*)
+  FROM vote_selections
+  JOIN polls ON polls.id = vote_selections.poll_id
+  WHERE vote_selections.poll_id = poll_uuid
+  AND polls.poll_type = 'schedule'
+  AND vote_selections.availability IS NOT NULL
+  AND can_view_poll_results(poll_uuid)
+  GROUP BY vote_selections.option_id, vote_selections.availability;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function to record a written response; the text is sanitized by the application before it gets here
+CREATE OR REPLACE FUNCTION submit_text_response(poll_id UUID, user_id UUID, response TEXT)
+RETURNS VOID AS $$
+DECLARE
+  poll_record RECORD;
+  new_vote_id UUID;
+BEGIN
+  IF submit_text_response.user_id IS NULL OR submit_text_response.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO poll_record
+  FROM polls
+  WHERE polls.id = submit_text_response.poll_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll_record.opens_at IS NOT NULL AND poll_record.opens_at > NOW() THEN
+    RAISE EXCEPTION 'Poll is not open yet';
+  END IF;
+
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF poll_record.poll_type <> 'text' THEN
+    RAISE EXCEPTION 'This poll does not accept written responses';
+  END IF;
+
+  IF submit_text_response.response IS NULL OR char_length(btrim(submit_text_response.response)) = 0 THEN
+    RAISE EXCEPTION 'Response is required';
+  END IF;
+
+  IF char_length(btrim(submit_text_response.response)) > 500 THEN
+    RAISE EXCEPTION 'Response cannot exceed 500 characters';
+  END IF;
+
+  INSERT INTO votes (user_id, poll_id, option_id)
+  VALUES (submit_text_response.user_id, submit_text_response.poll_id, NULL)
+  RETURNING id INTO new_vote_id;
+
+  INSERT INTO text_responses (vote_id, poll_id, response)
+  VALUES (new_vote_id, submit_text_response.poll_id, btrim(submit_text_response.response));
+
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'User has already voted on this poll';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Submit the answers to a survey in one transaction and record its completion.
+-- answers maps each question's poll ID to {"optionIds": [...]}, {"scores": {...}}
+-- or {"response": "..."} depending on the question type; written responses are
+-- sanitized by the application before they get here. The respondent's path is
+-- followed from the first question, so exactly the questions on that path must
+-- be answered and questions skipped by branching must be left out.
+CREATE OR REPLACE FUNCTION submit_survey(survey_id UUID, user_id UUID, answers JSONB)
+RETURNS VOID AS $$
+DECLARE
+  survey_record RECORD;
+  question RECORD;
+  answer JSONB;
+  current_id UUID;
+  next_id UUID;
+  visited UUID[] := '{}';
+  selected_ids UUID[];
+  selected_scores INTEGER[];
+BEGIN
+  IF submit_survey.user_id IS NULL OR submit_survey.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO survey_record
+  FROM surveys
+  WHERE surveys.id = submit_survey.survey_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Survey not found';
+  END IF;
+
+  IF survey_record.expires_at IS NOT NULL AND survey_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Survey has expired';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM survey_responses
+    WHERE survey_responses.survey_id = submit_survey.survey_id
+    AND survey_responses.user_id = submit_survey.user_id
+    AND survey_responses.completed_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'User has already completed this survey';
+  END IF;
+
+  IF submit_survey.answers IS NULL OR jsonb_typeof(submit_survey.answers) <> 'object' THEN
+    RAISE EXCEPTION 'Answer every question';
+  END IF;
+
+  SELECT polls.id INTO current_id
+  FROM polls
+  WHERE polls.survey_id = submit_survey.survey_id
+  ORDER BY polls.survey_position
+  LIMIT 1;
+
+  WHILE current_id IS NOT NULL LOOP
+    IF current_id = ANY(visited) THEN
+      RAISE EXCEPTION 'Survey branching loops back to an earlier question';
+    END IF;
+    visited := visited || current_id;
+
+    SELECT polls.id, polls.poll_type, polls.survey_position INTO question
+    FROM polls
+    WHERE polls.id = current_id;
+
+    answer := submit_survey.answers -> question.id::TEXT;
+
+    IF answer IS NULL THEN
+      RAISE EXCEPTION 'Answer every question';
+    END IF;
+
+    selected_ids := NULL;
+
+    IF question.poll_type = 'text' THEN
+      PERFORM submit_text_response(question.id, submit_survey.user_id, answer ->> 'response');
+    ELSIF question.poll_type = 'score' THEN
+      SELECT array_agg(rating.key::UUID ORDER BY rating.key), array_agg(rating.value::INTEGER ORDER BY rating.key)
+      INTO selected_ids, selected_scores
+      FROM jsonb_each_text(COALESCE(answer -> 'scores', '{}'::jsonb)) AS rating;
+
+      PERFORM increment_scores(selected_ids, selected_scores, question.id, submit_survey.user_id);
+      selected_ids := NULL;
+    ELSE
+      -- Every choice question, single choice included, goes through increment_votes so the
+      -- options are checked against the question. Keep the submitted order, which is the
+      -- preference order on ranked questions.
+      SELECT array_agg(selection.value::UUID ORDER BY selection.position)
+      INTO selected_ids
+      FROM jsonb_array_elements_text(COALESCE(answer -> 'optionIds', '[]'::jsonb))
+        WITH ORDINALITY AS selection(value, position);
+
+      PERFORM increment_votes(COALESCE(selected_ids, '{}'), question.id, submit_survey.user_id);
+
+      -- Ranked questions branch on the first choice only
+      IF question.poll_type = 'ranked' THEN
+        selected_ids := selected_ids[1:1];
+      END IF;
+    END IF;
+
+    -- Follow the matching branch with the earliest target, ending the survey counting as last
+    SELECT survey_branches.target_question_id INTO next_id
+    FROM survey_branches
+    LEFT JOIN polls AS target ON target.id = survey_branches.target_question_id
+    WHERE survey_branches.question_id = question.id
+    AND survey_branches.option_id = ANY(COALESCE(selected_ids, '{}'))
+    ORDER BY target.survey_position NULLS LAST
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      SELECT polls.id INTO next_id
+      FROM polls
+      WHERE polls.survey_id = submit_survey.survey_id
+      AND polls.survey_position > question.survey_position
+      ORDER BY polls.survey_position
+      LIMIT 1;
+
+      IF NOT FOUND THEN
+        next_id := NULL;
+      END IF;
+    END IF;
+
+    current_id := next_id;
+  END LOOP;
+
+  IF (SELECT COUNT(*) FROM jsonb_object_keys(submit_survey.answers)) <> COALESCE(array_length(visited, 1), 0) THEN
+    RAISE EXCEPTION 'Only answer the questions on your path through the survey';
+  END IF;
+
+  INSERT INTO survey_responses (survey_id, user_id, progress, current_question, completed_at)
+  VALUES (submit_survey.survey_id, submit_survey.user_id, '{}'::jsonb, 0, NOW())
+  ON CONFLICT ON CONSTRAINT survey_responses_survey_id_user_id_key DO UPDATE
+  SET progress = '{}'::jsonb,
+      current_question = 0,
+      updated_at = NOW(),
+      completed_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function returning how many respondents started and completed each survey
+-- Only the counts are returned, never who responded or their saved answers
+CREATE OR REPLACE FUNCTION get_survey_completion(survey_ids UUID[])
+RETURNS TABLE(survey_id UUID, started BIGINT, completed BIGINT) AS $$
+  SELECT survey_responses.survey_id, COUNT(*), COUNT(survey_responses.completed_at)
+  FROM survey_responses
+  WHERE survey_responses.survey_id = ANY(survey_ids)
+  GROUP BY survey_responses.survey_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function returning the answer key of a quiz question to someone who has answered it
+-- Nothing comes back until the caller has voted; creators read the key through RLS.
+-- selected marks the options on the caller's own ballot.
+CREATE OR REPLACE FUNCTION get_quiz_feedback(poll_uuid UUID)
+RETURNS TABLE(option_id UUID, is_correct BOOLEAN, explanation TEXT, selected BOOLEAN) AS $$
+  WITH ballot AS (
+    SELECT votes.id, votes.option_id
+    FROM votes
+    WHERE votes.poll_id = poll_uuid
+    AND votes.user_id = auth.uid()
+  ),
+  chosen AS (
+    SELECT vote_selections.option_id
+    FROM vote_selections
+    JOIN ballot ON ballot.id = vote_selections.vote_id
+    UNION
+    SELECT ballot.option_id FROM ballot WHERE ballot.option_id IS NOT NULL
+  )
+  SELECT
+    poll_options.id,
+    COALESCE(quiz_answer_keys.is_correct, FALSE),
+    quiz_answer_keys.explanation,
+    EXISTS (SELECT 1 FROM chosen WHERE chosen.option_id = poll_options.id)
+  FROM poll_options
+  JOIN polls ON polls.id = poll_options.poll_id
+  LEFT JOIN quiz_answer_keys ON quiz_answer_keys.option_id = poll_options.id
+  WHERE poll_options.poll_id = poll_uuid
+  AND polls.is_quiz
+  AND EXISTS (SELECT 1 FROM ballot);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function returning every ballot on the caller's quiz questions for the leaderboard
+-- Only the quiz creator gets rows back; participants are identified by email.
+CREATE OR REPLACE FUNCTION get_quiz_ballots(poll_ids UUID[])
+RETURNS TABLE(poll_id UUID, user_id UUID, participant TEXT, option_ids UUID[]) AS $$
+  SELECT
+    votes.poll_id,
+    votes.user_id,
+    COALESCE(users.email, 'Unknown participant')::TEXT,
+    COALESCE(
+      (SELECT array_agg(vote_selections.option_id) FROM vote_selections WHERE vote_selections.vote_id = votes.id),
+      CASE WHEN votes.option_id IS NULL THEN '{}'::UUID[] ELSE ARRAY[votes.option_id] END
+    )
+  FROM votes
+  JOIN polls ON polls.id = votes.poll_id
+  LEFT JOIN auth.users AS users ON users.id = votes.user_id
+  WHERE votes.poll_id = ANY(poll_ids)
+  AND polls.is_quiz
+  AND polls.user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
 
 -- Row Level Security (RLS) policies
 
@@ -58,12 +1844,31 @@ $$ LANGUAGE plpgsql;
 ALTER TABLE polls ENABLE ROW LEVEL SECURITY;
 ALTER TABLE poll_options ENABLE ROW LEVEL SECURITY;
 ALTER TABLE votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vote_selections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE text_responses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE surveys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE survey_responses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE survey_branches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_answer_keys ENABLE ROW LEVEL SECURITY;
+-- secret_ballots has no policies: nobody reads secret ballots directly, not even
+-- the poll creator or an admin. Totals come from poll_options.votes and get_ranked_ballots.
+ALTER TABLE secret_ballots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_invites ENABLE ROW LEVEL SECURITY;
+-- Nobody reads the hashes through the API; the server checks passcodes with the service role
+ALTER TABLE poll_passcodes ENABLE ROW LEVEL SECURITY;
+-- Unlocks are recorded by the server with the service role once it has checked the passcode
+ALTER TABLE poll_passcode_unlocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ballot_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_voter_weights ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vote_delegations ENABLE ROW LEVEL SECURITY;
 
 -- Polls policies
--- Anyone can view polls
-CREATE POLICY "Polls are viewable by everyone" 
-  ON polls FOR SELECT 
-  USING (true);
+-- Anyone can view polls, except passcode-protected ones: those only their creator
+-- and signed-in voters who entered the passcode can read. Everyone else loads
+-- them through the server, which checks the passcode or the visitor's voter token.
+CREATE POLICY "Unlocked polls are viewable by everyone"
+  ON polls FOR SELECT
+  USING (NOT has_passcode OR is_poll_unlocked(id, auth.uid(), NULL));
 
 -- Only authenticated users can create polls
 CREATE POLICY "Users can create polls" 
@@ -84,10 +1889,16 @@ CREATE POLICY "Users can delete their own polls"
   USING (auth.uid() = user_id);
 
 -- Poll options policies
--- Anyone can view poll options
-CREATE POLICY "Poll options are viewable by everyone" 
-  ON poll_options FOR SELECT 
-  USING (true);
+-- Anyone who can view a poll can view its options, but not their counts:
+-- get_option_counts and the tally functions hand those out only where the
+-- results may be seen
+CREATE POLICY "Options of unlocked polls are viewable by everyone"
+  ON poll_options FOR SELECT
+  USING (is_poll_unlocked(poll_id, auth.uid(), NULL));
+
+REVOKE SELECT ON poll_options FROM anon, authenticated;
+GRANT SELECT (id, poll_id, option_text, starts_at, ends_at, image_path, created_at, updated_at)
+  ON poll_options TO anon, authenticated;
 
 -- Only authenticated users who own the poll can create options
 CREATE POLICY "Users can create poll options for their polls" 
@@ -123,16 +1934,37 @@ CREATE POLICY "Users can delete poll options for their polls"
   );
 
 -- Votes policies
--- Anyone can view vote counts
-CREATE POLICY "Votes are viewable by everyone" 
-  ON votes FOR SELECT 
-  USING (true);
+-- Individual votes are not public: voters see their own...
+CREATE POLICY "Users can view their own votes"
+  ON votes FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- ...and poll creators those on their polls, except on secret-ballot polls, where
+-- the rows' timestamps would date each ballot
+CREATE POLICY "Poll creators can view votes on their polls"
+  ON votes FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = votes.poll_id AND polls.user_id = auth.uid() AND NOT polls.is_secret
+    )
+  );
 
--- Only authenticated users can vote
+-- Only authenticated users can vote, and only invitees on invite-only polls;
+-- secret ballots only through record_ballot, which splits them
 CREATE POLICY "Authenticated users can vote" 
   ON votes FOR INSERT 
   TO authenticated 
-  WITH CHECK (auth.uid() = user_id);
+  WITH CHECK (
+    auth.uid() = user_id
+    AND NOT EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = votes.poll_id
+      AND (polls.is_secret OR (polls.is_invite_only AND NOT is_poll_invitee(polls.id, auth.uid())))
+    )
+  );
 
 -- Users cannot update votes
 CREATE POLICY "Users cannot update votes" 
@@ -140,8 +1972,433 @@ CREATE POLICY "Users cannot update votes"
   TO authenticated 
   USING (false);
 
--- Users can only delete their own votes
-CREATE POLICY "Users can delete their own votes" 
-  ON votes FOR DELETE 
-  TO authenticated 
-  USING (auth.uid() = user_id);
\ No newline at end of file
+-- Votes cannot be deleted directly: retract_vote and change_vote take the
+-- ballot's counts off the options as they remove it
+
+-- Poll invites policies
+-- Poll creators manage the invites to their polls and see the turnout
+CREATE POLICY "Poll creators can view invites to their polls"
+  ON poll_invites FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_invites.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can invite voters to their polls"
+  ON poll_invites FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_invites.poll_id AND polls.user_id = auth.uid() AND polls.is_invite_only
+    )
+  );
+
+CREATE POLICY "Poll creators can update invites to their polls"
+  ON poll_invites FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_invites.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+-- Invitees see their own invites, so the poll page can tell them whether they may vote
+CREATE POLICY "Users can view their own invites"
+  ON poll_invites FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR email = lower(auth.jwt() ->> 'email'));
+
+-- Poll passcodes policies
+CREATE POLICY "Poll creators can set the passcode of their polls"
+  ON poll_passcodes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_passcodes.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can change the passcode of their polls"
+  ON poll_passcodes FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_passcodes.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can remove the passcode of their polls"
+  ON poll_passcodes FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_passcodes.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+-- Ballot codes policies
+-- Poll creators issue codes, list them and revoke the unused ones
+-- Codes are spent by cast_code_ballot, which only the server calls.
+CREATE POLICY "Poll creators can view the ballot codes of their polls"
+  ON ballot_codes FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = ballot_codes.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can issue ballot codes for their polls"
+  ON ballot_codes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'unused'
+    AND EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = ballot_codes.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can revoke unused ballot codes"
+  ON ballot_codes FOR UPDATE
+  TO authenticated
+  USING (
+    status = 'unused'
+    AND EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = ballot_codes.poll_id AND polls.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (status = 'revoked');
+
+-- Poll voter weights policies
+-- Poll creators set the weights of their polls' voters; voters see their own weight
+CREATE POLICY "Poll creators can view voter weights on their polls"
+  ON poll_voter_weights FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_voter_weights.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can set voter weights on their polls"
+  ON poll_voter_weights FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_voter_weights.poll_id AND polls.user_id = auth.uid() AND polls.is_weighted
+    )
+  );
+
+CREATE POLICY "Poll creators can change voter weights on their polls"
+  ON poll_voter_weights FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_voter_weights.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can remove voter weights on their polls"
+  ON poll_voter_weights FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_voter_weights.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view their own voter weights"
+  ON poll_voter_weights FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR email = lower(auth.jwt() ->> 'email'));
+
+-- Vote delegations policies
+-- Users make and take back their own delegations; delegates see who delegated to them
+CREATE POLICY "Users can view their own delegations"
+  ON vote_delegations FOR SELECT
+  TO authenticated
+  USING (delegator_id = auth.uid());
+
+CREATE POLICY "Users can view delegations made to them"
+  ON vote_delegations FOR SELECT
+  TO authenticated
+  USING (delegate_id = auth.uid() OR delegate_email = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Users can delegate their own vote"
+  ON vote_delegations FOR INSERT
+  TO authenticated
+  WITH CHECK (delegator_id = auth.uid() AND revoked_at IS NULL);
+
+CREATE POLICY "Users can take back their own delegations"
+  ON vote_delegations FOR UPDATE
+  TO authenticated
+  USING (delegator_id = auth.uid() AND revoked_at IS NULL)
+  WITH CHECK (delegator_id = auth.uid());
+
+-- Vote selections policies
+-- Users can view the selections on their own ballots
+CREATE POLICY "Users can view their own vote selections"
+  ON vote_selections FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM votes
+      WHERE votes.id = vote_selections.vote_id AND votes.user_id = auth.uid()
+    )
+  );
+
+-- Poll creators can view selections on their polls
+CREATE POLICY "Poll creators can view vote selections on their polls"
+  ON vote_selections FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = vote_selections.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+-- Text responses policies
+-- Respondents can view their own answers
+CREATE POLICY "Users can view their own text responses"
+  ON text_responses FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM votes
+      WHERE votes.id = text_responses.vote_id AND votes.user_id = auth.uid()
+    )
+  );
+
+-- Poll creators can browse the answers to their polls
+CREATE POLICY "Poll creators can view text responses on their polls"
+  ON text_responses FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = text_responses.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+-- Quiz answer keys policies
+-- Only poll creators can read or change answer keys; participants see them through get_quiz_feedback
+CREATE POLICY "Poll creators can view the answer keys of their polls"
+  ON quiz_answer_keys FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = quiz_answer_keys.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can add answer keys to their polls"
+  ON quiz_answer_keys FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = quiz_answer_keys.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can update the answer keys of their polls"
+  ON quiz_answer_keys FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = quiz_answer_keys.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Poll creators can delete the answer keys of their polls"
+  ON quiz_answer_keys FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = quiz_answer_keys.poll_id AND polls.user_id = auth.uid()
+    )
+  );
+
+-- Surveys policies
+-- Anyone can view surveys; only their creators can change them
+CREATE POLICY "Surveys are viewable by everyone"
+  ON surveys FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can create surveys"
+  ON surveys FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own surveys"
+  ON surveys FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own surveys"
+  ON surveys FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Survey responses policies
+-- Respondents manage their own saved progress. Completion is only recorded by
+-- submit_survey, so rows written here must stay incomplete.
+CREATE POLICY "Users can view their own survey responses"
+  ON survey_responses FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can start survey responses"
+  ON survey_responses FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND completed_at IS NULL);
+
+CREATE POLICY "Users can save progress on incomplete survey responses"
+  ON survey_responses FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id AND completed_at IS NULL)
+  WITH CHECK (auth.uid() = user_id AND completed_at IS NULL);
+
+-- Survey branches policies
+-- Anyone can view branch rules, since respondents follow them; only survey creators can change them
+CREATE POLICY "Survey branches are viewable by everyone"
+  ON survey_branches FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can add branches to their own surveys"
+  ON survey_branches FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM surveys
+      WHERE surveys.id = survey_branches.survey_id
+      AND surveys.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete branches from their own surveys"
+  ON survey_branches FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM surveys
+      WHERE surveys.id = survey_branches.survey_id
+      AND surveys.user_id = auth.uid()
+    )
+  );
+
+-- Option image storage
+-- Option images are shown to every voter, so the bucket is public. The app removes
+-- an option's image when the option or its poll is deleted.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('poll-images', 'poll-images', true)
+ON CONFLICT (id) DO UPDATE SET public = true;
+
+CREATE POLICY "Authenticated users can upload poll images"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'poll-images');
+
+CREATE POLICY "Users can delete their own poll images"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'poll-images' AND owner = auth.uid());
+
+-- Live results
+-- The poll page follows a poll's option counts, voter count and closing time on
+-- the private Realtime topic poll-results:<poll id>. The tables aren't published:
+-- triggers broadcast each change, and the policy on realtime.messages only lets
+-- viewers join where can_view_poll_results lets them see the counts.
+
+-- Function broadcasting a poll's changed option count
+-- Sends `option` with the option's ID and count; options added or removed send
+-- `options`, after which the page reloads them. Nothing is sent for secret-ballot
+-- polls, where the moment a count changed could tie a ballot to its voter.
+CREATE OR REPLACE FUNCTION broadcast_option_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM polls WHERE polls.id = COALESCE(NEW.poll_id, OLD.poll_id) AND polls.is_secret
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    PERFORM realtime.send(
+      jsonb_build_object('id', NEW.id, 'votes', NEW.votes),
+      'option',
+      'poll-results:' || NEW.poll_id,
+      TRUE
+    );
+  ELSE
+    PERFORM realtime.send(
+      '{}'::jsonb,
+      'options',
+      'poll-results:' || COALESCE(NEW.poll_id, OLD.poll_id),
+      TRUE
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER poll_options_broadcast_count
+  AFTER INSERT OR UPDATE OF votes OR DELETE ON poll_options
+  FOR EACH ROW EXECUTE FUNCTION broadcast_option_count();
+
+-- Function broadcasting a poll's voter count and closing time, except on secret-ballot polls
+CREATE OR REPLACE FUNCTION broadcast_poll_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_secret THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM realtime.send(
+    jsonb_build_object('voter_count', NEW.voter_count, 'expires_at', NEW.expires_at, 'closed_at', NEW.closed_at),
+    'poll',
+    'poll-results:' || NEW.id,
+    TRUE
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER polls_broadcast_status
+  AFTER UPDATE OF voter_count, expires_at, closed_at ON polls
+  FOR EACH ROW EXECUTE FUNCTION broadcast_poll_status();
+
+-- Viewers join a poll's topic only where can_view_poll_results lets them see its counts
+CREATE POLICY "Viewers can receive the live results they may see"
+  ON realtime.messages FOR SELECT
+  TO anon, authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND CASE
+      WHEN realtime.topic() ~ '^poll-results:[0-9a-f-]{36}$'
+        THEN can_view_poll_results(split_part(realtime.topic(), ':', 2)::uuid)
+      ELSE FALSE
+    END
+  );